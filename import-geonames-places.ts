@@ -0,0 +1,52 @@
+/**
+ * Import the GeoNames gazetteer into place_master
+ *
+ * Download from https://download.geonames.org/export/dump/ and unzip:
+ *   cities5000.zip (or cities500/cities1000/cities15000), admin1CodesASCII.txt, countryInfo.txt
+ *
+ * Usage:
+ *   npm run db:import-places -- <dir> [--cities=cities5000.txt] [--min-population=0] [--countries=IN,NP]
+ */
+
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppModule } from './src/app.module';
+import { ImportGeonamesPlacesService } from './src/kundli/seeds/import-geonames-places.service';
+
+async function bootstrap() {
+  const logger = new Logger('ImportGeonamesPlaces');
+  const [dir, ...flags] = process.argv.slice(2);
+  const option = (name: string) => flags.find((f) => f.startsWith(`--${name}=`))?.split('=')[1];
+
+  if (!dir) {
+    logger.error('Usage: npm run db:import-places -- <dir> [--cities=cities5000.txt] [--min-population=0] [--countries=IN,NP]');
+    process.exit(1);
+  }
+
+  const countryInfoFile = path.join(dir, 'countryInfo.txt');
+
+  try {
+    const app = await NestFactory.createApplicationContext(AppModule, {
+      logger: ['log', 'error', 'warn'],
+    });
+
+    const result = await app.get(ImportGeonamesPlacesService).import({
+      citiesFile: path.join(dir, option('cities') || 'cities5000.txt'),
+      admin1File: path.join(dir, 'admin1CodesASCII.txt'),
+      countryInfoFile: fs.existsSync(countryInfoFile) ? countryInfoFile : undefined,
+      minPopulation: Number(option('min-population') || 0),
+      countries: option('countries')?.split(','),
+    });
+    logger.log(`✅ ${result.imported} places imported (${result.read} read, ${result.skipped} skipped)`);
+
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Error importing GeoNames places:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap();
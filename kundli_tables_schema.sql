@@ -25,6 +25,7 @@ CREATE TABLE IF NOT EXISTS kundli (
     latitude DECIMAL(10, 7) NOT NULL,
     longitude DECIMAL(10, 7) NOT NULL,
     timezone VARCHAR(100) NOT NULL,
+    utc_offset_minutes DECIMAL(7, 2) NULL,
     lagna_degrees DECIMAL(12, 8) NULL,
     lagna_name VARCHAR(50) NULL,
     nakshatra VARCHAR(50) NULL,
@@ -33,9 +34,15 @@ CREATE TABLE IF NOT EXISTS kundli (
     yoga VARCHAR(50) NULL,
     karana VARCHAR(50) NULL,
     ayanamsa DECIMAL(10, 6) NULL,
+    ayanamsa_name VARCHAR(50) NULL,
+    house_system VARCHAR(20) NOT NULL DEFAULT 'placidus',
     full_data JSONB NULL,
     dasha_timeline JSONB NULL,
     navamsa_data JSONB NULL,
+    varga_charts JSONB NULL,
+    strength_data JSONB NULL,
+    version INT NOT NULL DEFAULT 0,
+    engine_version VARCHAR(50) NULL,
     
     -- Foreign key constraint
     CONSTRAINT fk_kundli_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -70,9 +77,12 @@ CREATE TABLE IF NOT EXISTS kundli_planets (
     sign_number SMALLINT NOT NULL,
     sign_name VARCHAR(50) NOT NULL,
     house_number SMALLINT NOT NULL,
+    rashi_house_number SMALLINT NULL,
     nakshatra VARCHAR(50) NULL,
     pada SMALLINT NULL,
     is_retrograde BOOLEAN NOT NULL DEFAULT false,
+    is_stationary BOOLEAN NOT NULL DEFAULT false,
+    is_combust BOOLEAN NOT NULL DEFAULT false,
     speed DECIMAL(12, 8) NULL,
     metadata JSONB NULL,
     
@@ -122,12 +132,56 @@ CREATE INDEX IF NOT EXISTS idx_kundli_houses_unique_id ON kundli_houses(unique_i
 CREATE INDEX IF NOT EXISTS idx_kundli_houses_is_deleted ON kundli_houses(is_deleted);
 CREATE INDEX IF NOT EXISTS idx_kundli_houses_kundli_id ON kundli_houses(kundli_id);
 
+-- =====================================================
+-- 4. KUNDLI_VERSIONS TABLE (Related Table)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS kundli_versions (
+    -- BaseEntity columns
+    id BIGSERIAL PRIMARY KEY,
+    unique_id UUID UNIQUE NOT NULL DEFAULT gen_random_uuid(),
+    added_date TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    modify_date TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    is_deleted BOOLEAN NOT NULL DEFAULT false,
+    added_by BIGINT NULL,
+    modify_by BIGINT NULL,
+    
+    -- KundliVersion specific columns
+    kundli_id BIGINT NOT NULL,
+    user_id BIGINT NOT NULL,
+    version INT NOT NULL,
+    reason VARCHAR(20) NOT NULL,
+    engine_version VARCHAR(50) NULL,
+    ayanamsa_name VARCHAR(50) NULL,
+    ayanamsa DECIMAL(10, 6) NULL,
+    house_system VARCHAR(20) NOT NULL,
+    birth_date DATE NOT NULL,
+    birth_time TIME NOT NULL,
+    birth_place VARCHAR(255) NOT NULL,
+    latitude DECIMAL(10, 7) NOT NULL,
+    longitude DECIMAL(10, 7) NOT NULL,
+    timezone VARCHAR(100) NOT NULL,
+    chart JSONB NOT NULL,
+    dasha JSONB NULL,
+    
+    -- Foreign key constraint
+    CONSTRAINT fk_kundli_versions_kundli FOREIGN KEY (kundli_id) REFERENCES kundli(id) ON DELETE CASCADE,
+    CONSTRAINT fk_kundli_versions_added_by FOREIGN KEY (added_by) REFERENCES users(id) ON DELETE SET NULL,
+    CONSTRAINT fk_kundli_versions_modify_by FOREIGN KEY (modify_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Indexes for kundli_versions table
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kundli_versions_kundli_id_version ON kundli_versions(kundli_id, version);
+CREATE INDEX IF NOT EXISTS idx_kundli_versions_user_id_is_deleted ON kundli_versions(user_id, is_deleted);
+CREATE INDEX IF NOT EXISTS idx_kundli_versions_unique_id ON kundli_versions(unique_id);
+
 -- =====================================================
 -- COMMENTS FOR DOCUMENTATION
 -- =====================================================
 COMMENT ON TABLE kundli IS 'Main table storing kundli (birth chart) information for users';
 COMMENT ON TABLE kundli_planets IS 'Stores planetary positions and details for each kundli';
 COMMENT ON TABLE kundli_houses IS 'Stores house cusp information for each kundli';
+COMMENT ON TABLE kundli_versions IS 'Immutable snapshots of each kundli, one per (re)generation';
 
 COMMENT ON COLUMN kundli.user_id IS 'Reference to the user who owns this kundli';
 COMMENT ON COLUMN kundli.birth_date IS 'Date of birth';
@@ -136,6 +190,7 @@ COMMENT ON COLUMN kundli.birth_place IS 'Place of birth name';
 COMMENT ON COLUMN kundli.latitude IS 'Latitude of birth place';
 COMMENT ON COLUMN kundli.longitude IS 'Longitude of birth place';
 COMMENT ON COLUMN kundli.timezone IS 'Timezone of birth place';
+COMMENT ON COLUMN kundli.utc_offset_minutes IS 'UTC offset (minutes) in effect at the birth moment, resolved from the tz database';
 COMMENT ON COLUMN kundli.lagna_degrees IS 'Lagna (Ascendant) degrees';
 COMMENT ON COLUMN kundli.lagna_name IS 'Lagna (Ascendant) sign name';
 COMMENT ON COLUMN kundli.nakshatra IS 'Birth nakshatra';
@@ -144,17 +199,26 @@ COMMENT ON COLUMN kundli.tithi IS 'Lunar day (tithi)';
 COMMENT ON COLUMN kundli.yoga IS 'Yoga combination';
 COMMENT ON COLUMN kundli.karana IS 'Karana';
 COMMENT ON COLUMN kundli.ayanamsa IS 'Ayanamsa value used for calculations';
+COMMENT ON COLUMN kundli.ayanamsa_name IS 'ayanamsa_master slug the chart was cast with; NULL for kundlis from before the catalog (Lahiri)';
+COMMENT ON COLUMN kundli.house_system IS 'House system used for bhava cusps (placidus, koch, equal, whole_sign, sripati)';
 COMMENT ON COLUMN kundli.full_data IS 'Complete kundli calculation data in JSON format';
 COMMENT ON COLUMN kundli.dasha_timeline IS 'Dasha timeline data in JSON array format';
 COMMENT ON COLUMN kundli.navamsa_data IS 'Navamsa chart data in JSON format';
+COMMENT ON COLUMN kundli.varga_charts IS 'Parashari divisional charts (D1-D60) keyed by code, with lagna and planet signs';
+COMMENT ON COLUMN kundli.strength_data IS 'Bhinnashtakavarga/Sarvashtakavarga bindus and six-fold Shadbala per planet';
+COMMENT ON COLUMN kundli.version IS 'Number of the latest kundli_versions snapshot; 0 until the first one is written';
+COMMENT ON COLUMN kundli.engine_version IS 'Calculation engine the stored chart was cast with; NULL for charts from before versioning';
 
 COMMENT ON COLUMN kundli_planets.kundli_id IS 'Reference to the parent kundli';
 COMMENT ON COLUMN kundli_planets.planet_name IS 'Name of the planet (Sun, Moon, Mars, etc.)';
 COMMENT ON COLUMN kundli_planets.longitude_degrees IS 'Planetary longitude in degrees';
 COMMENT ON COLUMN kundli_planets.sign_number IS 'Zodiac sign number (1-12)';
 COMMENT ON COLUMN kundli_planets.sign_name IS 'Zodiac sign name';
-COMMENT ON COLUMN kundli_planets.house_number IS 'House number where planet is placed';
+COMMENT ON COLUMN kundli_planets.house_number IS 'Bhava (house cusp) number where planet is placed';
+COMMENT ON COLUMN kundli_planets.rashi_house_number IS 'Whole-sign house number counted from the lagna sign';
 COMMENT ON COLUMN kundli_planets.is_retrograde IS 'Whether the planet is in retrograde motion';
+COMMENT ON COLUMN kundli_planets.is_stationary IS 'Whether the planet is at a retrograde or direct station';
+COMMENT ON COLUMN kundli_planets.is_combust IS 'Whether the planet is within its combustion orb from the Sun';
 COMMENT ON COLUMN kundli_planets.speed IS 'Planetary speed';
 COMMENT ON COLUMN kundli_planets.metadata IS 'Additional planetary metadata in JSON format';
 
@@ -165,6 +229,27 @@ COMMENT ON COLUMN kundli_houses.sign_name IS 'Sign name at house cusp';
 COMMENT ON COLUMN kundli_houses.sign_number IS 'Sign number at house cusp';
 COMMENT ON COLUMN kundli_houses.metadata IS 'Additional house metadata in JSON format';
 
+COMMENT ON COLUMN kundli_versions.kundli_id IS 'Reference to the kundli this snapshot belongs to';
+COMMENT ON COLUMN kundli_versions.version IS 'Snapshot number, increasing per kundli from 1';
+COMMENT ON COLUMN kundli_versions.reason IS 'Why the snapshot was written (created, profile_change, recompute, backfill)';
+COMMENT ON COLUMN kundli_versions.engine_version IS 'Calculation engine version; NULL for the backfilled snapshot of a chart cast before versioning';
+COMMENT ON COLUMN kundli_versions.chart IS 'Lagna, Moon nakshatra, planets and house cusps as cast';
+COMMENT ON COLUMN kundli_versions.dasha IS 'Vimshottari balance at birth and mahadasha sequence';
+
+-- =====================================================
+-- UPDATES FOR EXISTING TABLES
+-- =====================================================
+ALTER TABLE kundli_planets ADD COLUMN IF NOT EXISTS is_stationary BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE kundli_planets ADD COLUMN IF NOT EXISTS is_combust BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE kundli_planets ADD COLUMN IF NOT EXISTS rashi_house_number SMALLINT NULL;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS utc_offset_minutes DECIMAL(7, 2) NULL;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS house_system VARCHAR(20) NOT NULL DEFAULT 'placidus';
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS varga_charts JSONB NULL;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS strength_data JSONB NULL;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS ayanamsa_name VARCHAR(50) NULL;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS version INT NOT NULL DEFAULT 0;
+ALTER TABLE kundli ADD COLUMN IF NOT EXISTS engine_version VARCHAR(50) NULL;
+
 -- =====================================================
 -- END OF SCRIPT
 -- =====================================================
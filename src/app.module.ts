@@ -13,6 +13,12 @@ import { PaymentsModule } from './payments/payments.module';
 import { AstrologyModule } from './astrology/astrology.module';
 import { KundliModule } from './kundli/kundli.module';
 import { HoroscopeModule } from './horoscope/horoscope.module';
+import { CompatibilityModule } from './compatibility/compatibility.module';
+import { PanchangModule } from './panchang/panchang.module';
+import { MuhurtaModule } from './muhurta/muhurta.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { ReportsModule } from './reports/reports.module';
+import { RectificationModule } from './rectification/rectification.module';
 import { KarmaModule } from './karma/karma.module';
 import { ManifestationModule } from './manifestation/manifestation.module';
 import { JournalModule } from './journal/journal.module';
@@ -55,6 +61,12 @@ import redisConfig from './config/redis.config';
     AstrologyModule,
     KundliModule,
     HoroscopeModule,
+    CompatibilityModule,
+    PanchangModule,
+    MuhurtaModule,
+    CalendarModule,
+    ReportsModule,
+    RectificationModule,
     KarmaModule,
     ManifestationModule,
     JournalModule,
@@ -1,9 +1,73 @@
 import { Module } from '@nestjs/common';
 import { SwissEphemerisService } from './services/swiss-ephemeris.service';
+import { EphemerisService } from './services/ephemeris.service';
+import { TimezoneService } from './services/timezone.service';
+import { VimshottariDashaService } from './services/vimshottari-dasha.service';
+import { VargaService } from './services/varga.service';
+import { DignityService } from './services/dignity.service';
+import { AshtakavargaService } from './services/ashtakavarga.service';
+import { ShadbalaService } from './services/shadbala.service';
+import { YogaEngineService } from './services/yoga-engine.service';
+import { DoshaService } from './services/dosha.service';
+import { AshtakootaService } from './services/ashtakoota.service';
+import { GocharService } from './services/gochar.service';
+import { PanchangService } from './services/panchang.service';
+import { MuhurtaService } from './services/muhurta.service';
+import { ChartRendererService } from './services/chart-renderer.service';
+import { VarshaphalService } from './services/varshaphal.service';
+import { KpService } from './services/kp.service';
+import { AyanamsaService } from './services/ayanamsa.service';
+import { RectificationService } from './services/rectification.service';
+import { FestivalService } from './services/festival.service';
+import { AstronomicalEventService } from './services/astronomical-event.service';
 
 @Module({
-  providers: [SwissEphemerisService],
-  exports: [SwissEphemerisService],
+  providers: [
+    SwissEphemerisService,
+    EphemerisService,
+    TimezoneService,
+    VimshottariDashaService,
+    VargaService,
+    DignityService,
+    AshtakavargaService,
+    ShadbalaService,
+    YogaEngineService,
+    DoshaService,
+    AshtakootaService,
+    GocharService,
+    PanchangService,
+    MuhurtaService,
+    ChartRendererService,
+    VarshaphalService,
+    KpService,
+    AyanamsaService,
+    RectificationService,
+    FestivalService,
+    AstronomicalEventService,
+  ],
+  exports: [
+    SwissEphemerisService,
+    EphemerisService,
+    TimezoneService,
+    VimshottariDashaService,
+    VargaService,
+    DignityService,
+    AshtakavargaService,
+    ShadbalaService,
+    YogaEngineService,
+    DoshaService,
+    AshtakootaService,
+    GocharService,
+    PanchangService,
+    MuhurtaService,
+    ChartRendererService,
+    VarshaphalService,
+    KpService,
+    AyanamsaService,
+    RectificationService,
+    FestivalService,
+    AstronomicalEventService,
+  ],
 })
 export class AstrologyModule {}
 
@@ -0,0 +1,67 @@
+import { AshtakavargaService } from './ashtakavarga.service';
+
+/**
+ * Ashtakavarga known answers. The Sun's BAV below is counted by hand from the
+ * BPHS ch. 66 bindu tables for the chart in CHART.
+ */
+
+// Sun Aries, Moon Cancer, Mars Leo, Mercury Aries, Jupiter Sagittarius,
+// Venus Taurus, Saturn Aquarius, lagna Libra
+const CHART = {
+  planets: { Sun: 15, Moon: 100, Mars: 130, Mercury: 25, Jupiter: 250, Venus: 45, Saturn: 310 },
+  lagna: 190,
+};
+
+const SUN_BAV = [5, 5, 2, 2, 5, 5, 4, 4, 5, 3, 4, 4];
+
+const BAV_TOTALS = { Sun: 48, Moon: 49, Mars: 39, Mercury: 54, Jupiter: 56, Venus: 52, Saturn: 39, Sarva: 337 };
+
+describe('AshtakavargaService', () => {
+  const service = new AshtakavargaService();
+  const result = service.calculate(CHART.planets, CHART.lagna);
+
+  it('counts the bindus of the Sun per sign', () => {
+    expect(result.bhinnashtakavarga.Sun).toEqual(SUN_BAV);
+  });
+
+  it('keeps the fixed BAV and SAV totals', () => {
+    expect(result.totals).toEqual(BAV_TOTALS);
+    expect(result.sarvashtakavarga.reduce((sum, b) => sum + b, 0)).toBe(337);
+  });
+
+  it('sums the seven BAVs into the SAV', () => {
+    result.sarvashtakavarga.forEach((bindus, sign) => {
+      const sum = Object.values(result.bhinnashtakavarga).reduce((total, bav) => total + bav[sign], 0);
+      expect(bindus).toBe(sum);
+    });
+  });
+
+  it('orders the SAV by house from the lagna sign', () => {
+    // Libra is sign index 6
+    expect(result.sarvashtakavarga_by_house[0]).toBe(result.sarvashtakavarga[6]);
+    expect(result.sarvashtakavarga_by_house[6]).toBe(result.sarvashtakavarga[0]);
+    expect(result.sarvashtakavarga_by_house[11]).toBe(result.sarvashtakavarga[5]);
+  });
+
+  it('rotates with the chart', () => {
+    const shifted = service.calculate(
+      Object.fromEntries(Object.entries(CHART.planets).map(([name, longitude]) => [name, longitude + 30])),
+      CHART.lagna + 30,
+    );
+
+    expect(shifted.bhinnashtakavarga.Sun).toEqual([SUN_BAV[11], ...SUN_BAV.slice(0, 11)]);
+    expect(shifted.sarvashtakavarga_by_house).toEqual(result.sarvashtakavarga_by_house);
+  });
+
+  it('reads transit bindus from a BAV', () => {
+    expect(service.getTransitBindus(result, 'Sun', 75)).toBe(2); // Gemini
+    expect(service.getTransitBindus(result, 'Rahu', 75)).toBeNull();
+  });
+
+  it('requires all seven grahas', () => {
+    const { Saturn, ...withoutSaturn } = CHART.planets;
+
+    expect(Saturn).toBeDefined();
+    expect(() => service.calculate(withoutSaturn, CHART.lagna)).toThrow('Missing longitude for Saturn');
+  });
+});
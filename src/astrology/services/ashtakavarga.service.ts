@@ -0,0 +1,154 @@
+import { Injectable } from '@nestjs/common';
+import { ZODIAC_SIGNS } from './swiss-ephemeris.service';
+
+/**
+ * Ashtakavarga Service
+ *
+ * Bhinnashtakavarga (BAV) of the seven grahas and the Sarvashtakavarga (SAV)
+ * per BPHS ch. 66-72. Each of the eight contributors (seven grahas and the
+ * lagna) gives a bindu to the houses counted from its own sign listed below.
+ * BAV totals are fixed: Sun 48, Moon 49, Mars 39, Mercury 54, Jupiter 56,
+ * Venus 52, Saturn 39; SAV always sums to 337.
+ */
+
+export const ASHTAKAVARGA_CONTRIBUTORS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Lagna'];
+
+// BAV_RULES[planet][contributor] = houses (from the contributor) that receive a bindu
+const BAV_RULES: Record<string, Record<string, number[]>> = {
+  Sun: {
+    Sun: [1, 2, 4, 7, 8, 9, 10, 11],
+    Moon: [3, 6, 10, 11],
+    Mars: [1, 2, 4, 7, 8, 9, 10, 11],
+    Mercury: [3, 5, 6, 9, 10, 11, 12],
+    Jupiter: [5, 6, 9, 11],
+    Venus: [6, 7, 12],
+    Saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+    Lagna: [3, 4, 6, 10, 11, 12],
+  },
+  Moon: {
+    Sun: [3, 6, 7, 8, 10, 11],
+    Moon: [1, 3, 6, 7, 10, 11],
+    Mars: [2, 3, 5, 6, 9, 10, 11],
+    Mercury: [1, 3, 4, 5, 7, 8, 10, 11],
+    Jupiter: [1, 4, 7, 8, 10, 11, 12],
+    Venus: [3, 4, 5, 7, 9, 10, 11],
+    Saturn: [3, 5, 6, 11],
+    Lagna: [3, 6, 10, 11],
+  },
+  Mars: {
+    Sun: [3, 5, 6, 10, 11],
+    Moon: [3, 6, 11],
+    Mars: [1, 2, 4, 7, 8, 10, 11],
+    Mercury: [3, 5, 6, 11],
+    Jupiter: [6, 10, 11, 12],
+    Venus: [6, 8, 11, 12],
+    Saturn: [1, 4, 7, 8, 9, 10, 11],
+    Lagna: [1, 3, 6, 10, 11],
+  },
+  Mercury: {
+    Sun: [5, 6, 9, 11, 12],
+    Moon: [2, 4, 6, 8, 10, 11],
+    Mars: [1, 2, 4, 7, 8, 9, 10, 11],
+    Mercury: [1, 3, 5, 6, 9, 10, 11, 12],
+    Jupiter: [6, 8, 11, 12],
+    Venus: [1, 2, 3, 4, 5, 8, 9, 11],
+    Saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+    Lagna: [1, 2, 4, 6, 8, 10, 11],
+  },
+  Jupiter: {
+    Sun: [1, 2, 3, 4, 7, 8, 9, 10, 11],
+    Moon: [2, 5, 7, 9, 11],
+    Mars: [1, 2, 4, 7, 8, 10, 11],
+    Mercury: [1, 2, 4, 5, 6, 9, 10, 11],
+    Jupiter: [1, 2, 3, 4, 7, 8, 10, 11],
+    Venus: [2, 5, 6, 9, 10, 11],
+    Saturn: [3, 5, 6, 12],
+    Lagna: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+  },
+  Venus: {
+    Sun: [8, 11, 12],
+    Moon: [1, 2, 3, 4, 5, 8, 9, 11, 12],
+    Mars: [3, 5, 6, 9, 11, 12],
+    Mercury: [3, 5, 6, 9, 11],
+    Jupiter: [5, 8, 9, 10, 11],
+    Venus: [1, 2, 3, 4, 5, 8, 9, 10, 11],
+    Saturn: [3, 4, 5, 8, 9, 10, 11],
+    Lagna: [1, 2, 3, 4, 5, 8, 9, 11],
+  },
+  Saturn: {
+    Sun: [1, 2, 4, 7, 8, 10, 11],
+    Moon: [3, 6, 11],
+    Mars: [3, 5, 6, 10, 11, 12],
+    Mercury: [6, 8, 9, 10, 11, 12],
+    Jupiter: [5, 6, 11, 12],
+    Venus: [6, 11, 12],
+    Saturn: [3, 5, 6, 11],
+    Lagna: [1, 3, 4, 6, 10, 11],
+  },
+};
+
+export interface AshtakavargaResult {
+  // Bindus per sign, index 0 = Aries
+  bhinnashtakavarga: Record<string, number[]>;
+  sarvashtakavarga: number[];
+  // SAV re-ordered by house from the lagna, index 0 = 1st house
+  sarvashtakavarga_by_house: number[];
+  totals: Record<string, number>;
+  signs: string[];
+}
+
+@Injectable()
+export class AshtakavargaService {
+  /**
+   * Compute BAV for each graha and the SAV from sidereal longitudes
+   */
+  calculate(planetLongitudes: Record<string, number>, lagnaLongitude: number): AshtakavargaResult {
+    const signOf = (longitude: number) => Math.floor((((longitude % 360) + 360) % 360) / 30);
+    const contributorSigns: Record<string, number> = { Lagna: signOf(lagnaLongitude) };
+    for (const contributor of ASHTAKAVARGA_CONTRIBUTORS) {
+      if (contributor !== 'Lagna') {
+        if (planetLongitudes[contributor] === undefined) {
+          throw new Error(`Missing longitude for ${contributor}`);
+        }
+        contributorSigns[contributor] = signOf(planetLongitudes[contributor]);
+      }
+    }
+
+    const bhinnashtakavarga: Record<string, number[]> = {};
+    const totals: Record<string, number> = {};
+    const sarvashtakavarga = new Array<number>(12).fill(0);
+
+    for (const [planet, rules] of Object.entries(BAV_RULES)) {
+      const bindus = new Array<number>(12).fill(0);
+      for (const [contributor, houses] of Object.entries(rules)) {
+        for (const house of houses) {
+          bindus[(contributorSigns[contributor] + house - 1) % 12]++;
+        }
+      }
+      bhinnashtakavarga[planet] = bindus;
+      totals[planet] = bindus.reduce((sum, b) => sum + b, 0);
+      bindus.forEach((b, sign) => (sarvashtakavarga[sign] += b));
+    }
+    totals.Sarva = sarvashtakavarga.reduce((sum, b) => sum + b, 0);
+
+    const lagnaSign = contributorSigns.Lagna;
+    const sarvashtakavargaByHouse = sarvashtakavarga.map((_, house) => sarvashtakavarga[(lagnaSign + house) % 12]);
+
+    return {
+      bhinnashtakavarga,
+      sarvashtakavarga,
+      sarvashtakavarga_by_house: sarvashtakavargaByHouse,
+      totals,
+      signs: ZODIAC_SIGNS,
+    };
+  }
+
+  /**
+   * Bindus a graha's BAV gives to a sign (used to judge transits through it)
+   */
+  getTransitBindus(result: AshtakavargaResult, planet: string, longitude: number): number | null {
+    const bindus = result.bhinnashtakavarga[planet];
+    if (!bindus) return null;
+    return bindus[Math.floor((((longitude % 360) + 360) % 360) / 30)];
+  }
+}
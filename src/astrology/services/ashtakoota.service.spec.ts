@@ -0,0 +1,112 @@
+import { DignityService } from './dignity.service';
+import { DoshaService } from './dosha.service';
+import { AshtakootaChartInput, AshtakootaService } from './ashtakoota.service';
+
+/**
+ * Guna Milan known answers scored by hand from the classical koota tables.
+ */
+
+// Lagna, Moon and Venus in Taurus with Mars in the 3rd from all three: no Manglik dosha
+const chart = (moon: number, mars = 100): AshtakootaChartInput => ({
+  lagnaLongitude: 40,
+  planets: [
+    { name: 'Moon', longitude: moon },
+    { name: 'Mars', longitude: mars },
+    { name: 'Venus', longitude: 35 },
+    { name: 'Jupiter', longitude: 190 },
+    { name: 'Saturn', longitude: 280 },
+  ],
+});
+
+const scores = (result: ReturnType<AshtakootaService['match']>) =>
+  Object.fromEntries(result.kootas.map((k) => [k.koota, k.score]));
+
+describe('AshtakootaService', () => {
+  const dignityService = new DignityService();
+  const service = new AshtakootaService(dignityService, new DoshaService(dignityService));
+
+  it('scores Rohini with Mrigashira in Taurus at 35 of 36', () => {
+    const result = service.match(chart(45), chart(55));
+
+    expect(result.boy_moon).toEqual({ sign: 'Taurus', sign_index: 1, nakshatra: 'Rohini', nakshatra_index: 3, pada: 2 });
+    expect(result.girl_moon).toMatchObject({ sign: 'Taurus', nakshatra: 'Mrigashira', pada: 1 });
+    expect(scores(result)).toEqual({
+      Varna: 1,
+      Vashya: 2,
+      Tara: 3,
+      Yoni: 4,
+      'Graha Maitri': 5,
+      Gana: 5, // Manushya boy, Deva girl
+      Bhakoot: 7,
+      Nadi: 8,
+    });
+    expect(result.total_score).toBe(35);
+    expect(result.adjusted_score).toBe(35);
+    expect(result.max_score).toBe(36);
+    expect(result.kootas.reduce((sum, k) => sum + k.max, 0)).toBe(36);
+    expect(result.verdict).toBe('excellent');
+  });
+
+  it('cancels Nadi dosha for the same nakshatra in different padas', () => {
+    const result = service.match(chart(1), chart(5));
+
+    expect(scores(result).Nadi).toBe(0);
+    expect(result.total_score).toBe(28);
+    expect(result.nadi_dosha).toEqual({
+      present: true,
+      cancelled: true,
+      cancellations: ['Same nakshatra with different padas'],
+    });
+    expect(result.adjusted_score).toBe(36);
+  });
+
+  it('scores Ashwini with Hasta at 10 with uncancelled Bhakoot and Nadi doshas', () => {
+    const result = service.match(chart(5), chart(165));
+
+    expect(scores(result)).toEqual({
+      Varna: 1,
+      Vashya: 1,
+      Tara: 1.5, // Vadha from the girl's star, Kshema from the boy's
+      Yoni: 0, // Horse and Buffalo
+      'Graha Maitri': 0.5, // Mars sees Mercury as an enemy, Mercury sees Mars as neutral
+      Gana: 6,
+      Bhakoot: 0, // 6/8
+      Nadi: 0, // both Adi
+    });
+    expect(result.total_score).toBe(10);
+    expect(result.bhakoot_dosha).toEqual({ present: true, cancelled: false, cancellations: [] });
+    expect(result.nadi_dosha).toEqual({ present: true, cancelled: false, cancellations: [] });
+    expect(result.adjusted_score).toBe(10);
+    expect(result.verdict).toBe('not_recommended');
+  });
+
+  it('cancels Bhakoot dosha when both Moon signs share a lord', () => {
+    // Bharani (Aries) and Anuradha (Scorpio): 6/8 apart, both Madhya nadi, both ruled by Mars
+    const result = service.match(chart(25), chart(225));
+
+    expect(result.bhakoot_dosha).toEqual({
+      present: true,
+      cancelled: true,
+      cancellations: ['Both Moon signs are ruled by Mars'],
+    });
+    expect(result.nadi_dosha.cancelled).toBe(true);
+    expect(result.adjusted_score).toBe(result.total_score + 8 + 7);
+  });
+
+  it('cross-checks Manglik dosha', () => {
+    expect(service.match(chart(45), chart(55)).manglik).toMatchObject({ status: 'none', compatible: true });
+
+    // Mars in Leo is 4th from the lagna, Moon and Venus in Taurus
+    const boyOnly = service.match(chart(45, 130), chart(55)).manglik;
+    expect(boyOnly.status).toBe('boy_only');
+    expect(boyOnly.compatible).toBe(boyOnly.boy.severity === 'mild');
+
+    expect(service.match(chart(45, 130), chart(55, 130)).manglik).toMatchObject({ status: 'both', compatible: true });
+  });
+
+  it('requires the Moon', () => {
+    const noMoon = { ...chart(45), planets: chart(45).planets.filter((p) => p.name !== 'Moon') };
+
+    expect(() => service.match(noMoon, chart(55))).toThrow('Missing longitude for Moon');
+  });
+});
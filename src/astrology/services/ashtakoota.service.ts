@@ -0,0 +1,429 @@
+import { Injectable } from '@nestjs/common';
+import { NAKSHATRA_NAMES, SIGN_LORDS, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { DignityService } from './dignity.service';
+import { DoshaService, ManglikResult } from './dosha.service';
+
+/**
+ * Ashtakoota Service
+ *
+ * Guna Milan (36 points) between two charts from the Moon's sign and
+ * nakshatra, with the Nadi and Bhakoot dosha exceptions and a Manglik
+ * cross-check. Kootas are scored boy-to-girl as in the classical tables.
+ */
+
+const NAKSHATRA_SPAN = 360 / 27;
+
+// Varna by Moon sign: 4 Brahmin, 3 Kshatriya, 2 Vaishya, 1 Shudra
+const VARNA_NAMES: Record<number, string> = { 4: 'Brahmin', 3: 'Kshatriya', 2: 'Vaishya', 1: 'Shudra' };
+const SIGN_VARNA = [3, 2, 1, 4, 3, 2, 1, 4, 3, 2, 1, 4];
+
+const VASHYA_NAMES = ['Chatushpada', 'Manava', 'Jalachara', 'Vanachara', 'Keeta'];
+const VASHYA_POINTS = [
+  [2, 1, 1, 0.5, 1],
+  [1, 2, 0.5, 0, 1],
+  [1, 0.5, 2, 1, 1],
+  [0.5, 0, 1, 2, 0],
+  [1, 1, 1, 0, 2],
+];
+
+const TARA_NAMES = ['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyari', 'Sadhaka', 'Vadha', 'Mitra', 'Ati Mitra'];
+
+const YONI_NAMES = [
+  'Horse', 'Elephant', 'Sheep', 'Serpent', 'Dog', 'Cat', 'Rat',
+  'Cow', 'Buffalo', 'Tiger', 'Deer', 'Monkey', 'Mongoose', 'Lion',
+];
+// Yoni of each nakshatra as an index into YONI_NAMES
+const NAKSHATRA_YONI = [0, 1, 2, 3, 3, 4, 5, 2, 5, 6, 6, 7, 8, 9, 8, 9, 10, 10, 4, 11, 12, 11, 13, 0, 13, 7, 1];
+const YONI_POINTS = [
+  [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+  [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+  [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+  [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+  [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+  [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+  [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+  [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+  [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+  [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+  [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+  [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+  [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+  [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+// Gana by nakshatra: 0 Deva, 1 Manushya, 2 Rakshasa
+const GANA_NAMES = ['Deva', 'Manushya', 'Rakshasa'];
+const NAKSHATRA_GANA = [0, 1, 2, 1, 0, 1, 0, 0, 2, 2, 1, 1, 0, 2, 0, 2, 0, 2, 2, 1, 1, 0, 2, 2, 1, 1, 0];
+const GANA_POINTS = [
+  [6, 6, 1],
+  [5, 6, 0],
+  [1, 0, 6],
+];
+
+// Nadi by nakshatra: 0 Adi, 1 Madhya, 2 Antya
+const NADI_NAMES = ['Adi', 'Madhya', 'Antya'];
+const NAKSHATRA_NADI = [0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2];
+
+export interface MoonPosition {
+  sign: string;
+  sign_index: number;
+  nakshatra: string;
+  nakshatra_index: number;
+  pada: number;
+}
+
+export interface KootaScore {
+  koota: string;
+  boy: string;
+  girl: string;
+  score: number;
+  max: number;
+  description: string;
+}
+
+export interface KootaDosha {
+  present: boolean;
+  cancelled: boolean;
+  cancellations: string[];
+}
+
+export interface ManglikCrossCheck {
+  boy: ManglikResult;
+  girl: ManglikResult;
+  status: 'none' | 'both' | 'boy_only' | 'girl_only';
+  compatible: boolean;
+  remarks: string;
+}
+
+export interface AshtakootaResult {
+  boy_moon: MoonPosition;
+  girl_moon: MoonPosition;
+  kootas: KootaScore[];
+  total_score: number;
+  adjusted_score: number; // with cancelled Nadi/Bhakoot doshas restored to full points
+  max_score: number;
+  nadi_dosha: KootaDosha;
+  bhakoot_dosha: KootaDosha;
+  manglik: ManglikCrossCheck;
+  verdict: 'excellent' | 'good' | 'average' | 'not_recommended';
+}
+
+export interface AshtakootaChartInput {
+  lagnaLongitude: number;
+  planets: Array<{ name: string; longitude: number }>;
+}
+
+@Injectable()
+export class AshtakootaService {
+  constructor(
+    private readonly dignityService: DignityService,
+    private readonly doshaService: DoshaService,
+  ) {}
+
+  /**
+   * Match two charts (sidereal longitudes)
+   */
+  match(boyChart: AshtakootaChartInput, girlChart: AshtakootaChartInput): AshtakootaResult {
+    const boyMoonLongitude = this.findLongitude(boyChart, 'Moon');
+    const girlMoonLongitude = this.findLongitude(girlChart, 'Moon');
+    const boy = this.getMoonPosition(boyMoonLongitude);
+    const girl = this.getMoonPosition(girlMoonLongitude);
+
+    const kootas = [
+      this.getVarna(boy, girl),
+      this.getVashya(boy, girl, boyMoonLongitude, girlMoonLongitude),
+      this.getTara(boy, girl),
+      this.getYoni(boy, girl),
+      this.getGrahaMaitri(boy, girl),
+      this.getGana(boy, girl),
+      this.getBhakoot(boy, girl),
+      this.getNadi(boy, girl),
+    ];
+
+    const nadiDosha = this.getNadiDosha(boy, girl);
+    const bhakootDosha = this.getBhakootDosha(boy, girl, nadiDosha);
+
+    const totalScore = kootas.reduce((sum, k) => sum + k.score, 0);
+    let adjustedScore = totalScore;
+    if (nadiDosha.cancelled) adjustedScore += 8;
+    if (bhakootDosha.cancelled) adjustedScore += 7;
+
+    return {
+      boy_moon: boy,
+      girl_moon: girl,
+      kootas,
+      total_score: totalScore,
+      adjusted_score: adjustedScore,
+      max_score: 36,
+      nadi_dosha: nadiDosha,
+      bhakoot_dosha: bhakootDosha,
+      manglik: this.getManglikCrossCheck(boyChart, girlChart),
+      verdict: adjustedScore >= 32 ? 'excellent' : adjustedScore >= 25 ? 'good' : adjustedScore >= 18 ? 'average' : 'not_recommended',
+    };
+  }
+
+  /**
+   * Moon sign, nakshatra and pada for a sidereal Moon longitude
+   */
+  getMoonPosition(moonLongitude: number): MoonPosition {
+    const longitude = ((moonLongitude % 360) + 360) % 360;
+    const signIndex = this.dignityService.signIndexOf(longitude);
+    const nakshatraIndex = Math.min(Math.floor(longitude / NAKSHATRA_SPAN), 26);
+    const pada = Math.min(Math.floor((longitude - nakshatraIndex * NAKSHATRA_SPAN) / (NAKSHATRA_SPAN / 4)), 3) + 1;
+
+    return {
+      sign: ZODIAC_SIGNS[signIndex],
+      sign_index: signIndex,
+      nakshatra: NAKSHATRA_NAMES[nakshatraIndex],
+      nakshatra_index: nakshatraIndex,
+      pada,
+    };
+  }
+
+  private getVarna(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    const boyVarna = SIGN_VARNA[boy.sign_index];
+    const girlVarna = SIGN_VARNA[girl.sign_index];
+    return {
+      koota: 'Varna',
+      boy: VARNA_NAMES[boyVarna],
+      girl: VARNA_NAMES[girlVarna],
+      score: boyVarna >= girlVarna ? 1 : 0,
+      max: 1,
+      description: 'Spiritual compatibility and temperament',
+    };
+  }
+
+  private getVashya(boy: MoonPosition, girl: MoonPosition, boyLongitude: number, girlLongitude: number): KootaScore {
+    const boyVashya = this.vashyaOf(boy.sign_index, boyLongitude);
+    const girlVashya = this.vashyaOf(girl.sign_index, girlLongitude);
+    return {
+      koota: 'Vashya',
+      boy: VASHYA_NAMES[boyVashya],
+      girl: VASHYA_NAMES[girlVashya],
+      score: VASHYA_POINTS[boyVashya][girlVashya],
+      max: 2,
+      description: 'Mutual attraction and influence',
+    };
+  }
+
+  private getTara(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    // Tara counted from each partner's nakshatra to the other's; 3rd, 5th and 7th are inauspicious
+    const taraFrom = (from: number, to: number) => ((to - from + 27) % 27) % 9;
+    const girlToBoy = taraFrom(girl.nakshatra_index, boy.nakshatra_index);
+    const boyToGirl = taraFrom(boy.nakshatra_index, girl.nakshatra_index);
+    const isAuspicious = (tara: number) => ![2, 4, 6].includes(tara);
+
+    return {
+      koota: 'Tara',
+      boy: TARA_NAMES[boyToGirl],
+      girl: TARA_NAMES[girlToBoy],
+      score: (isAuspicious(girlToBoy) ? 1.5 : 0) + (isAuspicious(boyToGirl) ? 1.5 : 0),
+      max: 3,
+      description: 'Health and well-being through birth stars',
+    };
+  }
+
+  private getYoni(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    const boyYoni = NAKSHATRA_YONI[boy.nakshatra_index];
+    const girlYoni = NAKSHATRA_YONI[girl.nakshatra_index];
+    return {
+      koota: 'Yoni',
+      boy: YONI_NAMES[boyYoni],
+      girl: YONI_NAMES[girlYoni],
+      score: YONI_POINTS[boyYoni][girlYoni],
+      max: 4,
+      description: 'Physical and intimate compatibility',
+    };
+  }
+
+  private getGrahaMaitri(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    const boyLord = SIGN_LORDS[boy.sign];
+    const girlLord = SIGN_LORDS[girl.sign];
+    let score = 5;
+    if (boyLord !== girlLord) {
+      const relations = [
+        this.dignityService.getNaturalRelationship(boyLord, girlLord),
+        this.dignityService.getNaturalRelationship(girlLord, boyLord),
+      ].sort().join('-');
+      const points: Record<string, number> = {
+        'friend-friend': 5,
+        'friend-neutral': 4,
+        'neutral-neutral': 3,
+        'enemy-friend': 1,
+        'enemy-neutral': 0.5,
+        'enemy-enemy': 0,
+      };
+      score = points[relations];
+    }
+
+    return {
+      koota: 'Graha Maitri',
+      boy: boyLord,
+      girl: girlLord,
+      score,
+      max: 5,
+      description: 'Mental compatibility through Moon sign lords',
+    };
+  }
+
+  private getGana(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    const boyGana = NAKSHATRA_GANA[boy.nakshatra_index];
+    const girlGana = NAKSHATRA_GANA[girl.nakshatra_index];
+    return {
+      koota: 'Gana',
+      boy: GANA_NAMES[boyGana],
+      girl: GANA_NAMES[girlGana],
+      score: GANA_POINTS[boyGana][girlGana],
+      max: 6,
+      description: 'Temperament and nature',
+    };
+  }
+
+  private getBhakoot(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    return {
+      koota: 'Bhakoot',
+      boy: boy.sign,
+      girl: girl.sign,
+      score: this.hasBhakootDosha(boy, girl) ? 0 : 7,
+      max: 7,
+      description: 'Family welfare and prosperity from Moon sign distance',
+    };
+  }
+
+  private getNadi(boy: MoonPosition, girl: MoonPosition): KootaScore {
+    const boyNadi = NAKSHATRA_NADI[boy.nakshatra_index];
+    const girlNadi = NAKSHATRA_NADI[girl.nakshatra_index];
+    return {
+      koota: 'Nadi',
+      boy: NADI_NAMES[boyNadi],
+      girl: NADI_NAMES[girlNadi],
+      score: boyNadi === girlNadi ? 0 : 8,
+      max: 8,
+      description: 'Health and progeny',
+    };
+  }
+
+  /**
+   * Nadi dosha (same Nadi) and its classical exceptions
+   */
+  private getNadiDosha(boy: MoonPosition, girl: MoonPosition): KootaDosha {
+    const present = NAKSHATRA_NADI[boy.nakshatra_index] === NAKSHATRA_NADI[girl.nakshatra_index];
+    const cancellations: string[] = [];
+    if (present) {
+      const sameSign = boy.sign_index === girl.sign_index;
+      const sameNakshatra = boy.nakshatra_index === girl.nakshatra_index;
+      if (sameSign && !sameNakshatra) {
+        cancellations.push('Same Moon sign with different nakshatras');
+      }
+      if (sameNakshatra && !sameSign) {
+        cancellations.push('Same nakshatra with different Moon signs');
+      }
+      if (sameNakshatra && sameSign && boy.pada !== girl.pada) {
+        cancellations.push('Same nakshatra with different padas');
+      }
+      if (!sameSign && SIGN_LORDS[boy.sign] === SIGN_LORDS[girl.sign]) {
+        cancellations.push(`Both Moon signs are ruled by ${SIGN_LORDS[boy.sign]}`);
+      }
+    }
+    return { present, cancelled: cancellations.length > 0, cancellations };
+  }
+
+  /**
+   * Bhakoot dosha (2/12, 5/9, 6/8) and its classical exceptions
+   */
+  private getBhakootDosha(boy: MoonPosition, girl: MoonPosition, nadiDosha: KootaDosha): KootaDosha {
+    const present = this.hasBhakootDosha(boy, girl);
+    const cancellations: string[] = [];
+    if (present) {
+      const boyLord = SIGN_LORDS[boy.sign];
+      const girlLord = SIGN_LORDS[girl.sign];
+      if (boyLord === girlLord) {
+        cancellations.push(`Both Moon signs are ruled by ${boyLord}`);
+      } else if (
+        this.dignityService.getNaturalRelationship(boyLord, girlLord) === 'friend' &&
+        this.dignityService.getNaturalRelationship(girlLord, boyLord) === 'friend'
+      ) {
+        cancellations.push(`Moon sign lords ${boyLord} and ${girlLord} are mutual friends`);
+      }
+      if (cancellations.length > 0 && nadiDosha.present && !nadiDosha.cancelled) {
+        // The exception does not hold when Nadi dosha is also present
+        cancellations.length = 0;
+      }
+    }
+    return { present, cancelled: cancellations.length > 0, cancellations };
+  }
+
+  private hasBhakootDosha(boy: MoonPosition, girl: MoonPosition): boolean {
+    const distance = ((boy.sign_index - girl.sign_index + 12) % 12) + 1;
+    return [2, 12, 5, 9, 6, 8].includes(distance);
+  }
+
+  /**
+   * Manglik cross-check: a Manglik chart should be matched with another Manglik chart
+   */
+  private getManglikCrossCheck(boyChart: AshtakootaChartInput, girlChart: AshtakootaChartInput): ManglikCrossCheck {
+    const boy = this.doshaService.getManglik(this.toLongitudes(boyChart), boyChart.lagnaLongitude);
+    const girl = this.doshaService.getManglik(this.toLongitudes(girlChart), girlChart.lagnaLongitude);
+
+    if (!boy.present && !girl.present) {
+      return { boy, girl, status: 'none', compatible: true, remarks: 'Neither chart has Manglik dosha' };
+    }
+    if (boy.present && girl.present) {
+      return { boy, girl, status: 'both', compatible: true, remarks: 'Both charts are Manglik, so the dosha cancels out' };
+    }
+
+    const status = boy.present ? 'boy_only' : 'girl_only';
+    const afflicted = boy.present ? boy : girl;
+    const compatible = afflicted.severity === 'mild';
+    return {
+      boy,
+      girl,
+      status,
+      compatible,
+      remarks: compatible
+        ? `Only the ${boy.present ? 'boy' : 'girl'} is Manglik, but the dosha is mild`
+        : `Only the ${boy.present ? 'boy' : 'girl'} is Manglik (${afflicted.severity})`,
+    };
+  }
+
+  private vashyaOf(signIndex: number, longitude: number): number {
+    const secondHalf = longitude - signIndex * 30 >= 15;
+    switch (ZODIAC_SIGNS[signIndex]) {
+      case 'Aries':
+      case 'Taurus':
+        return 0;
+      case 'Gemini':
+      case 'Virgo':
+      case 'Libra':
+      case 'Aquarius':
+        return 1;
+      case 'Sagittarius':
+        return secondHalf ? 0 : 1;
+      case 'Capricorn':
+        return secondHalf ? 2 : 0;
+      case 'Cancer':
+      case 'Pisces':
+        return 2;
+      case 'Leo':
+        return 3;
+      default:
+        return 4; // Scorpio
+    }
+  }
+
+  private findLongitude(chart: AshtakootaChartInput, name: string): number {
+    const planet = chart.planets.find((p) => p.name === name);
+    if (!planet) {
+      throw new Error(`Missing longitude for ${name}`);
+    }
+    return planet.longitude;
+  }
+
+  private toLongitudes(chart: AshtakootaChartInput): Record<string, number> {
+    const longitudes: Record<string, number> = {};
+    for (const planet of chart.planets) {
+      longitudes[planet.name] = planet.longitude;
+    }
+    return longitudes;
+  }
+}
@@ -0,0 +1,108 @@
+import { EphemerisService } from './ephemeris.service';
+import { AyanamsaService } from './ayanamsa.service';
+import { SwissEphemerisService } from './swiss-ephemeris.service';
+import { GocharService } from './gochar.service';
+import { AstronomicalEventService } from './astronomical-event.service';
+
+/**
+ * Event search known answers. Reference times are from the Swiss Ephemeris
+ * 2.10 (swe_sol_eclipse_when_glob, swe_lun_eclipse_when and a bisection of
+ * the sign of Mercury's speed from swe_calc_ut), in UT.
+ */
+
+const DELHI = { latitude: 28.6139, longitude: 77.209 };
+
+// Maximum deviation accepted from the reference times
+const TOLERANCE_MS = 2 * 60 * 1000;
+
+// A planet barely moves around its station, so its instant is less sharply defined
+const STATION_TOLERANCE_MS = 10 * 60 * 1000;
+
+const within = (actual: Date, expected: string, tolerance = TOLERANCE_MS) =>
+  expect(Math.abs(actual.getTime() - new Date(expected).getTime())).toBeLessThan(tolerance);
+
+describe('AstronomicalEventService', () => {
+  const ephemerisService = new EphemerisService();
+  const swissEphemerisService = new SwissEphemerisService(ephemerisService, new AyanamsaService());
+  const service = new AstronomicalEventService(
+    ephemerisService,
+    swissEphemerisService,
+    new GocharService(ephemerisService, swissEphemerisService),
+  );
+
+  describe('eclipses', () => {
+    it('finds the total solar eclipse of 8 April 2024, not visible from Delhi', () => {
+      const events = service.getEvents({
+        from: new Date('2024-03-01T00:00:00Z'),
+        to: new Date('2024-05-01T00:00:00Z'),
+        types: ['solar_eclipse'],
+        ...DELHI,
+      });
+
+      expect(events).toHaveLength(1);
+      within(events[0].date, '2024-04-08T18:17:24Z');
+      expect(events[0]).toMatchObject({ type: 'solar_eclipse', title: 'Total solar eclipse', sign: 'Pisces' });
+      expect(events[0].details.visibility.visible).toBe(false);
+      expect(events[0].details.sutak).toBeNull();
+    });
+
+    it('finds the total lunar eclipses of 2025', () => {
+      const events = service.getEvents({
+        from: new Date('2025-01-01T00:00:00Z'),
+        to: new Date('2026-01-01T00:00:00Z'),
+        types: ['lunar_eclipse'],
+      });
+
+      expect(events.map((e) => e.title)).toEqual(['Total lunar eclipse', 'Total lunar eclipse']);
+      within(events[0].date, '2025-03-14T06:58:47Z');
+      within(events[1].date, '2025-09-07T18:11:49Z');
+      expect(events[0].details.visibility).toBeUndefined();
+    });
+
+    it('starts the sutak nine hours before a lunar eclipse that rises during its partial phase', () => {
+      const [eclipse] = service.getEvents({
+        from: new Date('2026-03-01T00:00:00Z'),
+        to: new Date('2026-03-10T00:00:00Z'),
+        types: ['lunar_eclipse'],
+        ...DELHI,
+      });
+
+      within(eclipse.date, '2026-03-03T11:33:43Z');
+      within(eclipse.details.partial_begin, '2026-03-03T09:50:07Z');
+      within(eclipse.details.partial_end, '2026-03-03T13:17:19Z');
+      // The Moon rises over Delhi at about 12:50 UT, during the partial phase
+      expect(eclipse.details.visibility.visible).toBe(true);
+      expect(eclipse.details.visibility.start.getTime()).toBeGreaterThan(new Date('2026-03-03T12:30:00Z').getTime());
+      expect(eclipse.details.sutak.hours).toBe(9);
+      within(eclipse.details.sutak.start, '2026-03-03T00:50:07Z');
+      expect(eclipse.details.sutak.end).toEqual(eclipse.details.partial_end);
+    });
+  });
+
+  describe('stations', () => {
+    it('finds the April 2024 Mercury retrograde', () => {
+      const events = service
+        .getEvents({
+          from: new Date('2024-03-25T00:00:00Z'),
+          to: new Date('2024-05-05T00:00:00Z'),
+          types: ['station_retrograde', 'station_direct'],
+        })
+        .filter((e) => e.planet === 'Mercury');
+
+      expect(events.map((e) => e.type)).toEqual(['station_retrograde', 'station_direct']);
+      within(events[0].date, '2024-04-01T22:14:34Z', STATION_TOLERANCE_MS);
+      within(events[1].date, '2024-04-25T12:54:12Z', STATION_TOLERANCE_MS);
+      expect(events[0].title).toBe('Mercury stations retrograde in Aries');
+    });
+  });
+
+  it('returns events of every requested type in time order', () => {
+    const events = service.getEvents({ from: new Date('2024-04-01T00:00:00Z'), to: new Date('2024-04-30T00:00:00Z') });
+
+    expect(events.map((e) => e.date.getTime())).toEqual(events.map((e) => e.date.getTime()).sort((a, b) => a - b));
+    expect(new Set(events.map((e) => e.type))).toEqual(
+      new Set(['solar_eclipse', 'new_moon', 'full_moon', 'station_retrograde', 'station_direct', 'ingress', 'combustion_start', 'combustion_end']),
+    );
+    expect(new Set(events.map((e) => e.id)).size).toBe(events.length);
+  });
+});
@@ -0,0 +1,280 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService, LunarEclipse, SolarEclipse } from './ephemeris.service';
+import { COMBUSTION_ORBS, NAKSHATRA_NAMES, SwissEphemerisService, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { GocharService } from './gochar.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Astronomical Event Service
+ *
+ * Dated sky events between two instants: solar and lunar eclipses, exact new
+ * and full moons, retrograde and direct stations, sidereal sign ingresses and
+ * the start and end of combustion. Given an observer location, eclipses also
+ * carry their local visibility and the sutak, the inauspicious period that
+ * begins four prahars (12 hours) before a visible solar eclipse and three
+ * prahars (9 hours) before a visible lunar one and lasts until the eclipse
+ * ends. Penumbral lunar eclipses are not observed and have no sutak.
+ */
+
+export type AstronomicalEventType =
+  | 'solar_eclipse'
+  | 'lunar_eclipse'
+  | 'new_moon'
+  | 'full_moon'
+  | 'station_retrograde'
+  | 'station_direct'
+  | 'ingress'
+  | 'combustion_start'
+  | 'combustion_end';
+
+export const ASTRONOMICAL_EVENT_TYPES: AstronomicalEventType[] = [
+  'solar_eclipse',
+  'lunar_eclipse',
+  'new_moon',
+  'full_moon',
+  'station_retrograde',
+  'station_direct',
+  'ingress',
+  'combustion_start',
+  'combustion_end',
+];
+
+// Grahas that station and burn in the Sun's rays; the Moon's monthly combustion is not reported
+const STATION_PLANETS = ['Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+// Sutak before a visible eclipse begins, in hours
+const SUTAK_HOURS = { solar_eclipse: 12, lunar_eclipse: 9 };
+
+export interface EclipseVisibility {
+  visible: boolean;
+  start: Date | null; // first moment the eclipse is above the horizon
+  end: Date | null;
+}
+
+export interface AstronomicalEvent {
+  id: string; // stable across recomputations
+  type: AstronomicalEventType;
+  date: Date; // exact moment; the peak of an eclipse
+  planet: string | null;
+  title: string;
+  sign: string | null; // sidereal sign of the planet, the Sun for solar eclipses and the Moon for lunar events
+  nakshatra: string | null;
+  details: Record<string, any>;
+}
+
+export interface AstronomicalEventQuery {
+  from: Date;
+  to: Date;
+  latitude?: number;
+  longitude?: number;
+  types?: AstronomicalEventType[];
+  ayanamsa?: AyanamsaKey;
+}
+
+@Injectable()
+export class AstronomicalEventService {
+  private readonly minuteMs = 60 * 1000;
+  private readonly hourMs = 60 * this.minuteMs;
+  private readonly dayMs = 24 * this.hourMs;
+
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly gocharService: GocharService,
+  ) {}
+
+  /**
+   * Events between two UT instants, by time
+   */
+  getEvents(query: AstronomicalEventQuery): AstronomicalEvent[] {
+    const ayanamsa = query.ayanamsa || DEFAULT_AYANAMSA;
+    const types = new Set(query.types?.length ? query.types : ASTRONOMICAL_EVENT_TYPES);
+    const events: AstronomicalEvent[] = [];
+
+    if (types.has('solar_eclipse')) {
+      const eclipses = this.ephemerisService.getSolarEclipses(query.from, query.to, query.latitude, query.longitude);
+      events.push(...eclipses.map((e) => this.toSolarEclipseEvent(e, query, ayanamsa)));
+    }
+    if (types.has('lunar_eclipse')) {
+      const eclipses = this.ephemerisService.getLunarEclipses(query.from, query.to);
+      events.push(...eclipses.map((e) => this.toLunarEclipseEvent(e, query, ayanamsa)));
+    }
+    if (types.has('new_moon') || types.has('full_moon')) {
+      for (const { phase, date } of this.ephemerisService.getMoonPhases(query.from, query.to)) {
+        const type = phase === 'new' ? 'new_moon' : 'full_moon';
+        if (types.has(type)) {
+          const { sign } = this.getPlace('Moon', date, ayanamsa);
+          events.push(this.event(type, date, null, `${phase === 'new' ? 'New' : 'Full'} moon in ${sign}`, 'Moon', ayanamsa, {}));
+        }
+      }
+    }
+    if (types.has('station_retrograde') || types.has('station_direct')) {
+      events.push(...this.getStations(query.from, query.to, ayanamsa).filter((e) => types.has(e.type)));
+    }
+    if (types.has('ingress')) {
+      for (const ingress of this.gocharService.getSignIngresses(query.from, query.to, ayanamsa)) {
+        // The nodes always move backwards, so only the other grahas are marked retrograde
+        const motion = ingress.is_retrograde && !['Rahu', 'Ketu'].includes(ingress.planet) ? ' (retrograde)' : '';
+        const event = this.event('ingress', ingress.date, ingress.planet, `${ingress.planet} enters ${ingress.to_sign}${motion}`, ingress.planet, ayanamsa, {
+          from_sign: ingress.from_sign,
+          to_sign: ingress.to_sign,
+          is_retrograde: ingress.is_retrograde,
+        });
+        // The ingress moment is only found to the minute, so read the nakshatra just after it
+        const { nakshatra } = this.getPlace(ingress.planet, new Date(ingress.date.getTime() + this.minuteMs), ayanamsa);
+        events.push({ ...event, sign: ingress.to_sign, nakshatra });
+      }
+    }
+    if (types.has('combustion_start') || types.has('combustion_end')) {
+      events.push(...this.getCombustions(query.from, query.to, ayanamsa).filter((e) => types.has(e.type)));
+    }
+
+    return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private toSolarEclipseEvent(eclipse: SolarEclipse, query: AstronomicalEventQuery, ayanamsa: AyanamsaKey): AstronomicalEvent {
+    const details: Record<string, any> = { kind: eclipse.kind, local: eclipse.local };
+
+    if (query.latitude !== undefined && query.longitude !== undefined) {
+      const local = eclipse.local;
+      const visibility = local
+        ? this.getVisibility('Sun', local.partial_begin.date, local.partial_end.date, query.latitude, query.longitude)
+        : { visible: false, start: null, end: null };
+      details.visibility = visibility;
+      details.sutak = visibility.visible ? this.getSutak('solar_eclipse', local.partial_begin.date, local.partial_end.date) : null;
+    }
+
+    const kind = eclipse.kind.charAt(0).toUpperCase() + eclipse.kind.slice(1);
+    return this.event('solar_eclipse', eclipse.peak, null, `${kind} solar eclipse`, 'Sun', ayanamsa, details);
+  }
+
+  private toLunarEclipseEvent(eclipse: LunarEclipse, query: AstronomicalEventQuery, ayanamsa: AyanamsaKey): AstronomicalEvent {
+    const { kind: _kind, peak: _peak, ...contacts } = eclipse;
+    const details: Record<string, any> = { kind: eclipse.kind, ...contacts };
+
+    if (query.latitude !== undefined && query.longitude !== undefined) {
+      const begin = eclipse.partial_begin || eclipse.penumbral_begin;
+      const end = eclipse.partial_end || eclipse.penumbral_end;
+      const visibility = this.getVisibility('Moon', begin, end, query.latitude, query.longitude);
+      details.visibility = visibility;
+      details.sutak = visibility.visible && eclipse.kind !== 'penumbral' ? this.getSutak('lunar_eclipse', begin, end) : null;
+    }
+
+    const kind = eclipse.kind.charAt(0).toUpperCase() + eclipse.kind.slice(1);
+    return this.event('lunar_eclipse', eclipse.peak, null, `${kind} lunar eclipse`, 'Moon', ayanamsa, details);
+  }
+
+  /**
+   * Part of an eclipse during which the eclipsed body is above the horizon,
+   * sampled every five minutes
+   */
+  private getVisibility(body: 'Sun' | 'Moon', begin: Date, end: Date, latitude: number, longitude: number): EclipseVisibility {
+    let start: Date | null = null;
+    let last: Date | null = null;
+    for (let time = begin.getTime(); time <= end.getTime() + 5 * this.minuteMs; time += 5 * this.minuteMs) {
+      const instant = new Date(Math.min(time, end.getTime()));
+      if (this.ephemerisService.getAltitude(body, instant, latitude, longitude) > 0) {
+        start = start || instant;
+        last = instant;
+      }
+    }
+    return { visible: start !== null, start, end: last };
+  }
+
+  private getSutak(type: keyof typeof SUTAK_HOURS, begin: Date, end: Date): { start: Date; end: Date; hours: number } {
+    return { start: new Date(begin.getTime() - SUTAK_HOURS[type] * this.hourMs), end, hours: SUTAK_HOURS[type] };
+  }
+
+  /**
+   * Moments the daily motion of a planet changes sign
+   */
+  private getStations(from: Date, to: Date, ayanamsa: AyanamsaKey): AstronomicalEvent[] {
+    const events: AstronomicalEvent[] = [];
+    for (const planet of STATION_PLANETS) {
+      const isRetrograde = (time: number) => this.ephemerisService.getPosition(planet, new Date(time)).speed < 0;
+      this.scanChanges(from, to, isRetrograde, (date, retrograde) => {
+        const type = retrograde ? 'station_retrograde' : 'station_direct';
+        const { sign } = this.getPlace(planet, date, ayanamsa);
+        events.push(this.event(type, date, planet, `${planet} stations ${retrograde ? 'retrograde' : 'direct'} in ${sign}`, planet, ayanamsa, {}));
+      });
+    }
+    return events;
+  }
+
+  /**
+   * Moments a planet comes within, or leaves, its combustion orb from the Sun
+   */
+  private getCombustions(from: Date, to: Date, ayanamsa: AyanamsaKey): AstronomicalEvent[] {
+    const events: AstronomicalEvent[] = [];
+    for (const planet of STATION_PLANETS) {
+      const orb = COMBUSTION_ORBS[planet];
+      const isCombust = (time: number) => {
+        const date = new Date(time);
+        const position = this.ephemerisService.getPosition(planet, date);
+        const sun = this.ephemerisService.getPosition('Sun', date).longitude;
+        const distance = Math.abs(((position.longitude - sun + 540) % 360) - 180);
+        return distance <= (position.speed < 0 ? orb.retrograde : orb.direct);
+      };
+      this.scanChanges(from, to, isCombust, (date, combust) => {
+        const type = combust ? 'combustion_start' : 'combustion_end';
+        const title = combust ? `${planet} becomes combust` : `${planet} is no longer combust`;
+        events.push(this.event(type, date, planet, title, planet, ayanamsa, { orb: orb.direct }));
+      });
+    }
+    return events;
+  }
+
+  /**
+   * Call back at each moment (to the minute) a boolean state of the sky flips
+   * between two instants, stepping a day at a time
+   */
+  private scanChanges(from: Date, to: Date, state: (time: number) => boolean, onChange: (date: Date, value: boolean) => void): void {
+    let previous = from.getTime();
+    let previousState = state(previous);
+    for (let time = previous + this.dayMs; previous < to.getTime(); time += this.dayMs) {
+      const current = Math.min(time, to.getTime());
+      const value = state(current);
+      if (value !== previousState) {
+        let before = previous;
+        let after = current;
+        while (after - before > this.minuteMs) {
+          const mid = (before + after) / 2;
+          if (state(mid) === previousState) before = mid;
+          else after = mid;
+        }
+        onChange(new Date(Math.round(after)), value);
+        previousState = value;
+      }
+      previous = current;
+    }
+  }
+
+  private event(
+    type: AstronomicalEventType,
+    date: Date,
+    planet: string | null,
+    title: string,
+    placeOf: string,
+    ayanamsa: AyanamsaKey,
+    details: Record<string, any>,
+  ): AstronomicalEvent {
+    const { sign, nakshatra } = this.getPlace(placeOf, date, ayanamsa);
+    const minute = new Date(Math.round(date.getTime() / this.minuteMs) * this.minuteMs).toISOString().slice(0, 16);
+    return {
+      id: [type, planet, minute].filter(Boolean).join(':'),
+      type,
+      date,
+      planet,
+      title,
+      sign,
+      nakshatra,
+      details,
+    };
+  }
+
+  private getPlace(planet: string, date: Date, ayanamsa: AyanamsaKey): { sign: string; nakshatra: string } {
+    const tropical = this.ephemerisService.getPosition(planet, date).longitude;
+    const sidereal = (((tropical - this.swissEphemerisService.getAyanamsa(date, ayanamsa)) % 360) + 360) % 360;
+    return { sign: ZODIAC_SIGNS[Math.floor(sidereal / 30)], nakshatra: NAKSHATRA_NAMES[Math.floor(sidereal / (360 / 27))] };
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Ayanamsa Service
+ *
+ * Sidereal zodiac offsets from the tropical equinox of date. Two kinds of model:
+ * - Fixed epoch: the ayanamsa is defined at a reference epoch (Lahiri by the
+ *   Indian Calendar Reform Committee, Fagan-Bradley by the synetic vernal point,
+ *   Raman/KP/Yukteshwar at 1900) and carried forward with the IAU 2006 general
+ *   precession in longitude.
+ * - Star fixed: a reference point is pinned to a sidereal longitude (Spica at
+ *   0° Libra, δ Cancri at 16° Cancer, the Galactic Center at 0° Sagittarius)
+ *   and the ayanamsa is its precessed tropical longitude minus that value.
+ *
+ * Epochs and values follow the Swiss Ephemeris definitions, so charts agree with
+ * the common desktop software to about an arcsecond for modern dates.
+ */
+
+export type AyanamsaKey = string | number;
+
+export interface AyanamsaModel {
+  name: string; // slug, matches AyanamsaMaster.ayanamsa_name
+  display_name: string;
+  description: string;
+  legacy_code?: number; // integer code accepted before the catalog existed
+  epoch?: { jd: number; value: number }; // fixed-epoch models
+  star?: { ra: number; dec: number; longitude: number }; // J2000 RA/Dec (degrees) pinned to a sidereal longitude
+  tropical?: boolean;
+}
+
+const J2000 = 2451545.0;
+const J1900 = 2415020.0;
+const DAYS_PER_CENTURY = 36525;
+const DEG = Math.PI / 180;
+const J2000_OBLIQUITY = 23.4392911; // IAU 2006, degrees
+
+export const DEFAULT_AYANAMSA = 'lahiri';
+
+const hms = (h: number, m: number, s: number) => (h + m / 60 + s / 3600) * 15;
+const dms = (sign: 1 | -1, d: number, m: number, s: number) => sign * (d + m / 60 + s / 3600);
+
+export const AYANAMSA_MODELS: AyanamsaModel[] = [
+  {
+    name: 'lahiri',
+    display_name: 'Lahiri (Chitrapaksha)',
+    description: 'Government of India standard: 23°15′00.658″ on 21 March 1956',
+    legacy_code: 1,
+    epoch: { jd: 2435553.5, value: 23.250182778 - 0.004658035 }, // the published value less that day's nutation
+  },
+  {
+    name: 'raman',
+    display_name: 'B. V. Raman',
+    description: 'Raman ayanamsa: 21°00′52″ in 1900',
+    legacy_code: 2,
+    epoch: { jd: J1900, value: 21.01444444 },
+  },
+  {
+    name: 'kp_old',
+    display_name: 'Krishnamurti (KP old)',
+    description: 'Original Krishnamurti Paddhati ayanamsa: 22°21′50″ in 1900',
+    legacy_code: 3,
+    epoch: { jd: J1900, value: 22.36388889 },
+  },
+  {
+    name: 'kp_new',
+    display_name: 'Krishnamurti (KP new)',
+    description: 'KP new (Senthilathiban): zero ayanamsa in 291 CE, precessed to date',
+    epoch: { jd: 1827424.752255, value: 0 },
+  },
+  {
+    name: 'yukteshwar',
+    display_name: 'Sri Yukteshwar',
+    description: 'Sri Yukteshwar (The Holy Science): 22°28′43.7″ in 1900',
+    epoch: { jd: J1900, value: 22.47880333 },
+  },
+  {
+    name: 'true_chitra',
+    display_name: 'True Chitrapaksha',
+    description: 'Spica (Chitra) held at exactly 0° Libra',
+    star: { ra: hms(13, 25, 11.579), dec: dms(-1, 11, 9, 40.75), longitude: 180 },
+  },
+  {
+    name: 'true_pushya',
+    display_name: 'True Pushya (PVRN Rao)',
+    description: 'δ Cancri (Pushya) held at exactly 16° Cancer',
+    star: { ra: hms(8, 44, 41.1), dec: dms(1, 18, 9, 15), longitude: 106 },
+  },
+  {
+    name: 'fagan_bradley',
+    display_name: 'Fagan-Bradley',
+    description: 'Western sidereal: 24°02′31.36″ at the 1950 synetic vernal point epoch',
+    epoch: { jd: 2433282.42346, value: 24.042044444 },
+  },
+  {
+    name: 'galactic_center',
+    display_name: 'Galactic Center at 0° Sagittarius',
+    description: 'Galactic Center (Sgr A*) held at exactly 0° Sagittarius',
+    star: { ra: hms(17, 45, 40.04), dec: dms(-1, 29, 0, 28.1), longitude: 240 },
+  },
+  {
+    name: 'sayana',
+    display_name: 'Sayana (tropical)',
+    description: 'No ayanamsa: tropical zodiac',
+    legacy_code: 4,
+    tropical: true,
+  },
+];
+
+@Injectable()
+export class AyanamsaService {
+  // Star longitudes on the J2000 ecliptic, computed once per model
+  private readonly starLongitudes = new Map<string, number>();
+
+  /**
+   * Model for a slug or legacy integer code, or undefined if unknown
+   */
+  findModel(key: AyanamsaKey): AyanamsaModel | undefined {
+    if (typeof key === 'number') {
+      return AYANAMSA_MODELS.find((m) => m.legacy_code === key);
+    }
+    const slug = key.trim().toLowerCase();
+    return AYANAMSA_MODELS.find((m) => m.name === slug);
+  }
+
+  /**
+   * Ayanamsa (degrees) at a Julian Day (UT); unknown keys fall back to Lahiri
+   */
+  calculate(jd: number, key: AyanamsaKey = DEFAULT_AYANAMSA): number {
+    const model = this.findModel(key) || this.findModel(DEFAULT_AYANAMSA);
+    const t = (jd - J2000) / DAYS_PER_CENTURY;
+
+    if (model.tropical) {
+      return 0;
+    }
+
+    if (model.star) {
+      return this.normalize(this.getStarLongitude(model) + this.generalPrecession(t) - model.star.longitude);
+    }
+
+    const t0 = (model.epoch.jd - J2000) / DAYS_PER_CENTURY;
+    return model.epoch.value + this.generalPrecession(t) - this.generalPrecession(t0);
+  }
+
+  /**
+   * IAU 2006 general precession in longitude (degrees) since J2000
+   */
+  private generalPrecession(t: number): number {
+    const arcseconds =
+      5028.796195 * t + 1.1054348 * t * t + 0.00007964 * t ** 3 - 0.000023857 * t ** 4 - 0.0000000383 * t ** 5;
+    return arcseconds / 3600;
+  }
+
+  /**
+   * Ecliptic longitude (J2000 equinox) of a model's reference star
+   */
+  private getStarLongitude(model: AyanamsaModel): number {
+    const cached = this.starLongitudes.get(model.name);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const ra = model.star.ra * DEG;
+    const dec = model.star.dec * DEG;
+    const eps = J2000_OBLIQUITY * DEG;
+    const longitude = Math.atan2(Math.sin(ra) * Math.cos(eps) + Math.tan(dec) * Math.sin(eps), Math.cos(ra)) / DEG;
+
+    this.starLongitudes.set(model.name, longitude);
+    return longitude;
+  }
+
+  /**
+   * Wrap to (-180, 180] so a star model never jumps by a full circle
+   */
+  private normalize(degrees: number): number {
+    const value = ((degrees % 360) + 360) % 360;
+    return value > 180 ? value - 360 : value;
+  }
+}
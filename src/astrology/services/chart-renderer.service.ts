@@ -0,0 +1,258 @@
+import { Injectable } from '@nestjs/common';
+import { ZODIAC_SIGNS } from './swiss-ephemeris.service';
+
+/**
+ * Chart Renderer Service
+ *
+ * Draws a rasi or varga chart as a standalone SVG in the three Indian
+ * styles, so every client shows the same picture:
+ * - North Indian: fixed houses in a diamond, house 1 at the top, sign numbers in each house
+ * - South Indian: fixed signs in a 4x4 grid, Pisces top-left, lagna marked with a diagonal
+ * - East Indian: fixed signs in a 3x3 grid with split corners, Aries top-centre
+ *
+ * Planets are abbreviated (Su, Mo, ...) with their degree in the sign and
+ * (R) for retrograde, (C) for combust and (V) for vargottama.
+ */
+
+export const CHART_STYLES = ['north', 'south', 'east'] as const;
+export type ChartStyle = (typeof CHART_STYLES)[number];
+
+export const PLANET_ABBREVIATIONS: Record<string, string> = {
+  Sun: 'Su',
+  Moon: 'Mo',
+  Mars: 'Ma',
+  Mercury: 'Me',
+  Jupiter: 'Ju',
+  Venus: 'Ve',
+  Saturn: 'Sa',
+  Rahu: 'Ra',
+  Ketu: 'Ke',
+  Uranus: 'Ur',
+  Neptune: 'Ne',
+  Pluto: 'Pl',
+};
+
+export interface ChartRenderPlanet {
+  name: string;
+  sign: string;
+  degree: number; // within the sign, 0-30
+  is_retrograde?: boolean;
+  is_combust?: boolean;
+  is_vargottama?: boolean;
+}
+
+export interface ChartRenderInput {
+  title: string;
+  lagna: { sign: string; degree: number };
+  planets: ChartRenderPlanet[];
+}
+
+export type ChartLine = Array<[number, number]>;
+
+export interface ChartText {
+  x: number;
+  y: number; // baseline
+  text: string;
+  kind: 'planet' | 'sign' | 'title';
+  anchor: 'start' | 'middle';
+}
+
+/**
+ * Chart geometry in a SIZE x SIZE box, shared by the SVG and PDF output
+ */
+export interface ChartDrawing {
+  size: number;
+  lines: ChartLine[];
+  texts: ChartText[];
+}
+
+interface ChartCell {
+  key: number; // house (north) or sign index (south, east)
+  text: [number, number]; // centre of the planet list
+  label: [number, number]; // position of the house/sign label
+}
+
+const SIZE = 400;
+const HEADER = 28;
+const LINE_HEIGHT = 13;
+const THIRD = SIZE / 3;
+
+// North Indian: houses 1-12 counter-clockwise from the top diamond
+const NORTH_CELLS: ChartCell[] = [
+  { key: 1, text: [200, 95], label: [200, 180] },
+  { key: 2, text: [100, 38], label: [100, 88] },
+  { key: 3, text: [38, 100], label: [88, 104] },
+  { key: 4, text: [100, 195], label: [180, 204] },
+  { key: 5, text: [38, 300], label: [88, 304] },
+  { key: 6, text: [100, 362], label: [100, 320] },
+  { key: 7, text: [200, 295], label: [200, 228] },
+  { key: 8, text: [300, 362], label: [300, 320] },
+  { key: 9, text: [362, 300], label: [312, 304] },
+  { key: 10, text: [300, 195], label: [220, 204] },
+  { key: 11, text: [362, 100], label: [312, 104] },
+  { key: 12, text: [300, 38], label: [300, 88] },
+];
+const NORTH_LINES: ChartLine[] = [
+  [[0, 0], [400, 400]],
+  [[400, 0], [0, 400]],
+  [[200, 0], [400, 200], [200, 400], [0, 200], [200, 0]],
+];
+
+// South Indian: [column, row] of each sign from Aries
+const SOUTH_GRID: Array<[number, number]> = [
+  [1, 0], [2, 0], [3, 0], [3, 1], [3, 2], [3, 3], [2, 3], [1, 3], [0, 3], [0, 2], [0, 1], [0, 0],
+];
+const SOUTH_CELLS: ChartCell[] = SOUTH_GRID.map(([col, row], sign) => ({
+  key: sign,
+  text: [col * 100 + 50, row * 100 + 55],
+  label: [col * 100 + 6, row * 100 + 14],
+}));
+const SOUTH_LINES: ChartLine[] = [
+  [[100, 0], [100, 400]],
+  [[300, 0], [300, 400]],
+  [[0, 100], [400, 100]],
+  [[0, 300], [400, 300]],
+  [[200, 0], [200, 100]],
+  [[200, 300], [200, 400]],
+  [[0, 200], [100, 200]],
+  [[300, 200], [400, 200]],
+];
+
+// East Indian: centroid of each sign's cell from Aries, corners split diagonally
+const EAST_CENTRES: Array<[number, number]> = [
+  [200, 66.7], [88.9, 44.4], [44.4, 88.9], [66.7, 200], [44.4, 311.1], [88.9, 355.6],
+  [200, 333.3], [311.1, 355.6], [355.6, 311.1], [333.3, 200], [355.6, 88.9], [311.1, 44.4],
+];
+const EAST_CELLS: ChartCell[] = EAST_CENTRES.map(([x, y], sign) => ({
+  key: sign,
+  text: [x, y],
+  label: [x, y - 26],
+}));
+const EAST_LINES: ChartLine[] = [
+  [[THIRD, 0], [THIRD, SIZE]],
+  [[2 * THIRD, 0], [2 * THIRD, SIZE]],
+  [[0, THIRD], [SIZE, THIRD]],
+  [[0, 2 * THIRD], [SIZE, 2 * THIRD]],
+  [[0, 0], [THIRD, THIRD]],
+  [[SIZE, 0], [2 * THIRD, THIRD]],
+  [[0, SIZE], [THIRD, 2 * THIRD]],
+  [[SIZE, SIZE], [2 * THIRD, 2 * THIRD]],
+];
+
+@Injectable()
+export class ChartRendererService {
+  /**
+   * Check whether a string is a supported chart style
+   */
+  isSupportedStyle(style: string): style is ChartStyle {
+    return (CHART_STYLES as readonly string[]).includes(style);
+  }
+
+  /**
+   * Lines and labels of a chart, without the header
+   */
+  layout(input: ChartRenderInput, style: ChartStyle): ChartDrawing {
+    const lagnaIndex = ZODIAC_SIGNS.indexOf(input.lagna.sign);
+    if (lagnaIndex === -1) {
+      throw new Error(`Unknown lagna sign: ${input.lagna.sign}`);
+    }
+
+    // Labels grouped by sign, lagna first
+    const bySign: string[][] = ZODIAC_SIGNS.map(() => []);
+    bySign[lagnaIndex].push(`As ${Math.floor(input.lagna.degree)}°`);
+    for (const planet of input.planets) {
+      const signIndex = ZODIAC_SIGNS.indexOf(planet.sign);
+      if (signIndex !== -1) {
+        bySign[signIndex].push(this.formatPlanet(planet));
+      }
+    }
+
+    const lines: ChartLine[] = [];
+    const texts: ChartText[] = [];
+    if (style === 'north') {
+      lines.push(...NORTH_LINES);
+      for (const cell of NORTH_CELLS) {
+        const signIndex = (lagnaIndex + cell.key - 1) % 12;
+        texts.push({ x: cell.label[0], y: cell.label[1], text: String(signIndex + 1), kind: 'sign', anchor: 'middle' });
+        texts.push(...this.textBlock(cell.text, bySign[signIndex]));
+      }
+    } else {
+      const cells = style === 'south' ? SOUTH_CELLS : EAST_CELLS;
+      lines.push(...(style === 'south' ? SOUTH_LINES : EAST_LINES));
+      for (const cell of cells) {
+        texts.push({
+          x: cell.label[0],
+          y: cell.label[1],
+          text: ZODIAC_SIGNS[cell.key].slice(0, 3),
+          kind: 'sign',
+          anchor: style === 'south' ? 'start' : 'middle',
+        });
+        texts.push(...this.textBlock(cell.text, bySign[cell.key]));
+      }
+      if (style === 'south') {
+        const [col, row] = SOUTH_GRID[lagnaIndex];
+        lines.push([[col * 100, row * 100 + 30], [col * 100 + 30, row * 100]]);
+      }
+      texts.push({ x: SIZE / 2, y: SIZE / 2 + 4, text: input.title, kind: 'title', anchor: 'middle' });
+    }
+
+    return { size: SIZE, lines, texts };
+  }
+
+  /**
+   * Render a chart as an SVG document
+   */
+  render(input: ChartRenderInput, style: ChartStyle): string {
+    const drawing = this.layout(input, style);
+    const styleName = style === 'north' ? 'North' : style === 'south' ? 'South' : 'East';
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SIZE} ${SIZE + HEADER}" width="${SIZE}" height="${SIZE + HEADER}">`,
+      '<style>',
+      '.frame{fill:none;stroke:#7a3b0c;stroke-width:1.5}',
+      'text{font-family:Helvetica,Arial,sans-serif;fill:#222}',
+      '.planet{font-size:11px}',
+      '.sign{font-size:9px;fill:#9a6a3a}',
+      '.title{font-size:12px;font-weight:bold}',
+      '</style>',
+      '<rect x="0" y="0" width="100%" height="100%" fill="#fffaf0"/>',
+      this.svgText({ x: SIZE / 2, y: 18, text: `${input.title} (${styleName} Indian)`, kind: 'title', anchor: 'middle' }),
+      `<g transform="translate(0 ${HEADER})">`,
+      `<rect class="frame" x="0.75" y="0.75" width="${SIZE - 1.5}" height="${SIZE - 1.5}"/>`,
+      ...drawing.lines.map((line) => this.svgPath(line)),
+      ...drawing.texts.map((text) => this.svgText(text)),
+      '</g>',
+      '</svg>',
+    ].join('\n');
+  }
+
+  private formatPlanet(planet: ChartRenderPlanet): string {
+    const markers = [planet.is_retrograde && '(R)', planet.is_combust && '(C)', planet.is_vargottama && '(V)']
+      .filter(Boolean)
+      .join('');
+    const abbreviation = PLANET_ABBREVIATIONS[planet.name] || planet.name.slice(0, 2);
+    return `${abbreviation}${markers} ${Math.floor(planet.degree)}°`;
+  }
+
+  private textBlock([x, y]: [number, number], lines: string[]): ChartText[] {
+    const top = y - ((lines.length - 1) * LINE_HEIGHT) / 2;
+    return lines.map((line, i) => ({ x, y: top + i * LINE_HEIGHT + 4, text: line, kind: 'planet', anchor: 'middle' }));
+  }
+
+  private svgText(text: ChartText): string {
+    return `<text class="${text.kind}" x="${text.x.toFixed(1)}" y="${text.y.toFixed(1)}" text-anchor="${text.anchor}">${this.escape(text.text)}</text>`;
+  }
+
+  private svgPath(line: ChartLine): string {
+    const d = line.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${+x.toFixed(1)} ${+y.toFixed(1)}`).join(' ');
+    return `<path class="frame" d="${d}"/>`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { SIGN_LORDS, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+
+/**
+ * Dignity Service
+ *
+ * Classical graha dignities and relationships (BPHS ch. 3): exaltation and
+ * debilitation points, moolatrikona and own signs, natural (naisargika)
+ * friendships, temporal (tatkalika) friendships from chart positions and the
+ * resulting five-fold compound (panchadha) relationship.
+ */
+
+export const SEVEN_GRAHAS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+// Deep exaltation points (sidereal longitude); debilitation is the opposite point
+export const EXALTATION_POINTS: Record<string, number> = {
+  Sun: 10, // 10 Aries
+  Moon: 33, // 3 Taurus
+  Mars: 298, // 28 Capricorn
+  Mercury: 165, // 15 Virgo
+  Jupiter: 95, // 5 Cancer
+  Venus: 357, // 27 Pisces
+  Saturn: 200, // 20 Libra
+  Rahu: 50, // 20 Taurus
+  Ketu: 230, // 20 Scorpio
+};
+
+// Moolatrikona sign and degree range within it
+export const MOOLATRIKONA: Record<string, { sign: string; from: number; to: number }> = {
+  Sun: { sign: 'Leo', from: 0, to: 20 },
+  Moon: { sign: 'Taurus', from: 3, to: 30 },
+  Mars: { sign: 'Aries', from: 0, to: 12 },
+  Mercury: { sign: 'Virgo', from: 15, to: 20 },
+  Jupiter: { sign: 'Sagittarius', from: 0, to: 10 },
+  Venus: { sign: 'Libra', from: 0, to: 15 },
+  Saturn: { sign: 'Aquarius', from: 0, to: 20 },
+};
+
+export const OWN_SIGNS: Record<string, string[]> = {
+  Sun: ['Leo'],
+  Moon: ['Cancer'],
+  Mars: ['Aries', 'Scorpio'],
+  Mercury: ['Gemini', 'Virgo'],
+  Jupiter: ['Sagittarius', 'Pisces'],
+  Venus: ['Taurus', 'Libra'],
+  Saturn: ['Capricorn', 'Aquarius'],
+};
+
+// Special graha drishti (houses counted from the aspecting planet); all grahas aspect the 7th
+export const SPECIAL_ASPECTS: Record<string, number[]> = {
+  Mars: [4, 8],
+  Jupiter: [5, 9],
+  Saturn: [3, 10],
+  Rahu: [5, 9],
+  Ketu: [5, 9],
+};
+
+export type Relationship = 'friend' | 'neutral' | 'enemy';
+export type CompoundRelationship = 'great_friend' | 'friend' | 'neutral' | 'enemy' | 'great_enemy';
+export type Dignity =
+  | 'exalted'
+  | 'moolatrikona'
+  | 'own'
+  | 'great_friend'
+  | 'friend'
+  | 'neutral'
+  | 'enemy'
+  | 'great_enemy'
+  | 'debilitated';
+
+export const NATURAL_RELATIONSHIPS: Record<string, { friends: string[]; neutrals: string[]; enemies: string[] }> = {
+  Sun: { friends: ['Moon', 'Mars', 'Jupiter'], neutrals: ['Mercury'], enemies: ['Venus', 'Saturn'] },
+  Moon: { friends: ['Sun', 'Mercury'], neutrals: ['Mars', 'Jupiter', 'Venus', 'Saturn'], enemies: [] },
+  Mars: { friends: ['Sun', 'Moon', 'Jupiter'], neutrals: ['Venus', 'Saturn'], enemies: ['Mercury'] },
+  Mercury: { friends: ['Sun', 'Venus'], neutrals: ['Mars', 'Jupiter', 'Saturn'], enemies: ['Moon'] },
+  Jupiter: { friends: ['Sun', 'Moon', 'Mars'], neutrals: ['Saturn'], enemies: ['Mercury', 'Venus'] },
+  Venus: { friends: ['Mercury', 'Saturn'], neutrals: ['Mars', 'Jupiter'], enemies: ['Sun', 'Moon'] },
+  Saturn: { friends: ['Mercury', 'Venus'], neutrals: ['Jupiter'], enemies: ['Sun', 'Moon', 'Mars'] },
+};
+
+@Injectable()
+export class DignityService {
+  /**
+   * Sign index (0 = Aries) of a sidereal longitude
+   */
+  signIndexOf(longitude: number): number {
+    return Math.floor((((longitude % 360) + 360) % 360) / 30);
+  }
+
+  /**
+   * Natural relationship of one graha towards another
+   */
+  getNaturalRelationship(planet: string, other: string): Relationship {
+    const relations = NATURAL_RELATIONSHIPS[planet];
+    if (!relations || planet === other) return 'neutral';
+    if (relations.friends.includes(other)) return 'friend';
+    if (relations.enemies.includes(other)) return 'enemy';
+    return 'neutral';
+  }
+
+  /**
+   * Temporal relationship: grahas in the 2nd, 3rd, 4th, 10th, 11th or 12th
+   * from each other are temporary friends, all others temporary enemies
+   */
+  getTemporalRelationship(planetLongitude: number, otherLongitude: number): Relationship {
+    const distance = ((this.signIndexOf(otherLongitude) - this.signIndexOf(planetLongitude) + 12) % 12) + 1;
+    return [2, 3, 4, 10, 11, 12].includes(distance) ? 'friend' : 'enemy';
+  }
+
+  /**
+   * Five-fold relationship combining natural and temporal friendship
+   */
+  getCompoundRelationship(natural: Relationship, temporal: Relationship): CompoundRelationship {
+    if (temporal === 'friend') {
+      return natural === 'friend' ? 'great_friend' : natural === 'neutral' ? 'friend' : 'neutral';
+    }
+    return natural === 'enemy' ? 'great_enemy' : natural === 'neutral' ? 'enemy' : 'neutral';
+  }
+
+  /**
+   * Dignity of a graha at a longitude. Pass all chart longitudes to include
+   * temporal friendship; otherwise only natural friendship is used.
+   */
+  getDignity(planet: string, longitude: number, chartLongitudes?: Record<string, number>): Dignity {
+    const signIndex = this.signIndexOf(longitude);
+    const sign = ZODIAC_SIGNS[signIndex];
+    const degree = longitude - signIndex * 30;
+
+    const exaltation = EXALTATION_POINTS[planet];
+    if (exaltation !== undefined) {
+      if (this.signIndexOf(exaltation) === signIndex) return 'exalted';
+      if (this.signIndexOf(exaltation + 180) === signIndex) return 'debilitated';
+    }
+
+    const moolatrikona = MOOLATRIKONA[planet];
+    if (moolatrikona && moolatrikona.sign === sign && degree >= moolatrikona.from && degree < moolatrikona.to) {
+      return 'moolatrikona';
+    }
+    if (OWN_SIGNS[planet]?.includes(sign)) return 'own';
+
+    return this.getRelationshipToSignLord(planet, longitude, sign, chartLongitudes);
+  }
+
+  /**
+   * Relationship of a graha with the lord of the sign it occupies
+   */
+  getRelationshipToSignLord(
+    planet: string,
+    longitude: number,
+    sign: string,
+    chartLongitudes?: Record<string, number>,
+  ): CompoundRelationship {
+    const lord = SIGN_LORDS[sign];
+    const natural = this.getNaturalRelationship(planet, lord);
+
+    if (!chartLongitudes || chartLongitudes[lord] === undefined) {
+      return natural;
+    }
+
+    const temporal = this.getTemporalRelationship(longitude, chartLongitudes[lord]);
+    return this.getCompoundRelationship(natural, temporal);
+  }
+
+  /**
+   * Sign-based graha drishti: does a planet at one longitude aspect another longitude
+   */
+  hasGrahaDrishti(planet: string, fromLongitude: number, toLongitude: number): boolean {
+    const house = ((this.signIndexOf(toLongitude) - this.signIndexOf(fromLongitude) + 12) % 12) + 1;
+    return house === 7 || (SPECIAL_ASPECTS[planet] || []).includes(house);
+  }
+
+  /**
+   * Shortest arc between two longitudes (0-180)
+   */
+  arcBetween(a: number, b: number): number {
+    const diff = Math.abs((((a - b) % 360) + 360) % 360);
+    return diff > 180 ? 360 - diff : diff;
+  }
+}
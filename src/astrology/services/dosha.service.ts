@@ -0,0 +1,412 @@
+import { Injectable } from '@nestjs/common';
+import { SIGN_LORDS, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { DignityService } from './dignity.service';
+
+/**
+ * Dosha Service
+ *
+ * Classical doshas with their standard cancellations. Houses are counted
+ * whole-sign; conjunction means the same sign and aspects are sign-based
+ * graha drishti. Each dosha reports the factors that form it, the
+ * cancellations found and a severity after cancellations are applied.
+ */
+
+export type DoshaSeverity = 'none' | 'mild' | 'moderate' | 'severe';
+
+export interface DoshaResult {
+  present: boolean;
+  severity: DoshaSeverity;
+  factors: string[];
+  cancellations: string[];
+}
+
+export interface ManglikResult extends DoshaResult {
+  // Mars in 1, 2, 4, 7, 8 or 12 counted from each reference
+  from_lagna: boolean;
+  from_moon: boolean;
+  from_venus: boolean;
+}
+
+export interface KaalSarpResult extends DoshaResult {
+  type: string | null; // named by the house Rahu occupies
+  direction: 'ascending' | 'descending' | null; // planets from Rahu to Ketu, or Ketu to Rahu
+  is_partial: boolean;
+}
+
+export interface DoshaAnalysis {
+  mangal_dosha: ManglikResult;
+  kaal_sarp_dosha: KaalSarpResult;
+  pitru_dosha: DoshaResult;
+  guru_chandal_dosha: DoshaResult;
+  grahan_dosha: DoshaResult;
+  shrapit_dosha: DoshaResult;
+  kemadruma_dosha: DoshaResult;
+}
+
+export interface DoshaChartInput {
+  lagnaLongitude: number;
+  planets: Array<{ name: string; longitude: number }>;
+}
+
+const MANGLIK_HOUSES = [1, 2, 4, 7, 8, 12];
+
+// Mars in these house/sign pairs (from the lagna) does not cause Manglik dosha
+const MANGLIK_SIGN_EXCEPTIONS: Record<number, string[]> = {
+  1: ['Leo', 'Aquarius'],
+  2: ['Gemini', 'Virgo'],
+  4: ['Aries', 'Scorpio'],
+  7: ['Cancer', 'Capricorn'],
+  8: ['Sagittarius', 'Pisces'],
+  12: ['Taurus', 'Libra'],
+};
+
+// Kaal Sarp types by Rahu's house from the lagna
+export const KAAL_SARP_TYPES = [
+  'Anant',
+  'Kulik',
+  'Vasuki',
+  'Shankhpal',
+  'Padma',
+  'Mahapadma',
+  'Takshak',
+  'Karkotak',
+  'Shankhachur',
+  'Ghatak',
+  'Vishdhar',
+  'Sheshnag',
+];
+
+const SEVERITY_ORDER: DoshaSeverity[] = ['none', 'mild', 'moderate', 'severe'];
+
+@Injectable()
+export class DoshaService {
+  constructor(private readonly dignityService: DignityService) {}
+
+  /**
+   * Analyse all doshas for a chart (sidereal longitudes)
+   */
+  analyze(chart: DoshaChartInput): DoshaAnalysis {
+    const longitudes: Record<string, number> = {};
+    for (const planet of chart.planets) {
+      longitudes[planet.name] = planet.longitude;
+    }
+    for (const name of ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu']) {
+      if (longitudes[name] === undefined) {
+        throw new Error(`Missing longitude for ${name}`);
+      }
+    }
+
+    return {
+      mangal_dosha: this.getManglik(longitudes, chart.lagnaLongitude),
+      kaal_sarp_dosha: this.getKaalSarp(longitudes, chart.lagnaLongitude),
+      pitru_dosha: this.getPitru(longitudes, chart.lagnaLongitude),
+      guru_chandal_dosha: this.getGuruChandal(longitudes),
+      grahan_dosha: this.getGrahan(longitudes),
+      shrapit_dosha: this.getShrapit(longitudes),
+      kemadruma_dosha: this.getKemadruma(longitudes, chart.lagnaLongitude),
+    };
+  }
+
+  /**
+   * Manglik (Kuja) dosha from the lagna, Moon and Venus with the standard exceptions
+   */
+  getManglik(longitudes: Record<string, number>, lagnaLongitude: number): ManglikResult {
+    const mars = longitudes.Mars;
+    const marsSign = ZODIAC_SIGNS[this.dignityService.signIndexOf(mars)];
+    const lagnaSign = ZODIAC_SIGNS[this.dignityService.signIndexOf(lagnaLongitude)];
+    const houseFromLagna = this.houseFrom(mars, lagnaLongitude);
+
+    const fromLagna = MANGLIK_HOUSES.includes(houseFromLagna);
+    const fromMoon = MANGLIK_HOUSES.includes(this.houseFrom(mars, longitudes.Moon));
+    const fromVenus = MANGLIK_HOUSES.includes(this.houseFrom(mars, longitudes.Venus));
+
+    const factors: string[] = [];
+    if (fromLagna) factors.push(`Mars in house ${houseFromLagna} from the lagna`);
+    if (fromMoon) factors.push(`Mars in house ${this.houseFrom(mars, longitudes.Moon)} from the Moon`);
+    if (fromVenus) factors.push(`Mars in house ${this.houseFrom(mars, longitudes.Venus)} from Venus`);
+
+    const cancellations: string[] = [];
+    let partial = 0;
+    if (factors.length > 0) {
+      const dignity = this.dignityService.getDignity('Mars', mars);
+      if (['exalted', 'moolatrikona', 'own'].includes(dignity)) {
+        cancellations.push(`Mars ${dignity === 'exalted' ? 'exalted' : 'in its own sign'} in ${marsSign}`);
+      }
+      if (fromLagna && MANGLIK_SIGN_EXCEPTIONS[houseFromLagna]?.includes(marsSign)) {
+        cancellations.push(`Mars in ${marsSign} in house ${houseFromLagna} is exempt`);
+      }
+      if (['Cancer', 'Leo'].includes(lagnaSign)) {
+        cancellations.push(`Mars is yogakaraka for ${lagnaSign} lagna`);
+      }
+      if (this.isConjunct(longitudes, 'Jupiter', 'Mars') || this.aspects(longitudes, 'Jupiter', 'Mars')) {
+        cancellations.push('Jupiter conjoins or aspects Mars');
+      }
+      if (this.isConjunct(longitudes, 'Moon', 'Mars')) {
+        cancellations.push('Moon conjoins Mars (Chandra-Mangal)');
+        partial++;
+      }
+    }
+
+    const fullCancellations = cancellations.length - partial;
+    const base = this.severityFromCount(factors.length);
+    const severity = fullCancellations > 0 ? 'none' : this.reduce(base, partial);
+
+    return {
+      present: severity !== 'none',
+      severity,
+      factors,
+      cancellations,
+      from_lagna: fromLagna,
+      from_moon: fromMoon,
+      from_venus: fromVenus,
+    };
+  }
+
+  /**
+   * Kaal Sarp: all seven grahas on one side of the Rahu-Ketu axis by longitude
+   */
+  getKaalSarp(longitudes: Record<string, number>, lagnaLongitude: number): KaalSarpResult {
+    const rahu = longitudes.Rahu;
+    const arcFromRahu = (lon: number) => (((lon - rahu) % 360) + 360) % 360;
+    const grahas = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+    const ascending = grahas.filter((p) => arcFromRahu(longitudes[p]) < 180);
+    const descending = grahas.filter((p) => arcFromRahu(longitudes[p]) > 180);
+    const direction = ascending.length >= descending.length ? 'ascending' : 'descending';
+    const outside = direction === 'ascending' ? descending : ascending;
+
+    const rahuHouse = this.houseFrom(rahu, lagnaLongitude);
+    const type = `${KAAL_SARP_TYPES[rahuHouse - 1]} Kaal Sarp`;
+    const none: KaalSarpResult = {
+      present: false,
+      severity: 'none',
+      factors: [],
+      cancellations: [],
+      type: null,
+      direction: null,
+      is_partial: false,
+    };
+    if (outside.length > 1) {
+      return none;
+    }
+
+    const isPartial = outside.length === 1;
+    const factors = [
+      isPartial
+        ? `All grahas except ${outside[0]} lie between ${direction === 'ascending' ? 'Rahu and Ketu' : 'Ketu and Rahu'}`
+        : `All seven grahas lie between ${direction === 'ascending' ? 'Rahu and Ketu' : 'Ketu and Rahu'}`,
+      `Rahu in house ${rahuHouse} (${type})`,
+    ];
+
+    const lagnaInside = (arcFromRahu(lagnaLongitude) < 180) === (direction === 'ascending');
+    let base: DoshaSeverity = isPartial ? 'mild' : lagnaInside ? 'severe' : 'moderate';
+    if (!isPartial && lagnaInside) {
+      factors.push('The lagna is also hemmed in by the nodes');
+    }
+
+    const cancellations: string[] = [];
+    if ([1, 4, 7, 10].includes(this.houseFrom(longitudes.Jupiter, lagnaLongitude))) {
+      cancellations.push('Jupiter in a kendra from the lagna');
+    }
+    if ([3, 6, 11].includes(rahuHouse)) {
+      cancellations.push(`Rahu in upachaya house ${rahuHouse}`);
+    }
+    base = this.reduce(base, cancellations.length);
+
+    return {
+      present: base !== 'none',
+      severity: base,
+      factors,
+      cancellations,
+      type,
+      direction,
+      is_partial: isPartial,
+    };
+  }
+
+  /**
+   * Pitru dosha: affliction of the Sun and the 9th house/lord by the nodes and Saturn
+   */
+  getPitru(longitudes: Record<string, number>, lagnaLongitude: number): DoshaResult {
+    const factors: string[] = [];
+    const ninthLord = SIGN_LORDS[ZODIAC_SIGNS[(this.dignityService.signIndexOf(lagnaLongitude) + 8) % 12]];
+
+    for (const node of ['Rahu', 'Ketu']) {
+      if (this.isConjunct(longitudes, 'Sun', node)) factors.push(`Sun conjoins ${node}`);
+    }
+    if (this.isConjunct(longitudes, 'Sun', 'Saturn')) factors.push('Sun conjoins Saturn');
+    else if (this.aspects(longitudes, 'Saturn', 'Sun')) factors.push('Saturn aspects the Sun');
+
+    for (const node of ['Rahu', 'Ketu']) {
+      if (this.houseFrom(longitudes[node], lagnaLongitude) === 9) factors.push(`${node} in the 9th house`);
+    }
+    if (ninthLord !== 'Sun') {
+      for (const malefic of ['Rahu', 'Ketu', 'Saturn']) {
+        if (malefic !== ninthLord && this.isConjunct(longitudes, ninthLord, malefic)) {
+          factors.push(`9th lord ${ninthLord} conjoins ${malefic}`);
+        }
+      }
+    }
+
+    const cancellations: string[] = [];
+    if (factors.length > 0) {
+      if (this.isConjunct(longitudes, 'Jupiter', 'Sun') || this.aspects(longitudes, 'Jupiter', 'Sun')) {
+        cancellations.push('Jupiter conjoins or aspects the Sun');
+      }
+      if (this.dignityService.hasGrahaDrishti('Jupiter', longitudes.Jupiter, lagnaLongitude + 240)) {
+        cancellations.push('Jupiter aspects the 9th house');
+      }
+      const sunDignity = this.dignityService.getDignity('Sun', longitudes.Sun);
+      if (['exalted', 'moolatrikona', 'own'].includes(sunDignity)) {
+        cancellations.push(`Sun is ${sunDignity === 'exalted' ? 'exalted' : 'in its own sign'}`);
+      }
+    }
+
+    return this.result(this.severityFromCount(factors.length), factors, cancellations);
+  }
+
+  /**
+   * Guru Chandal: Jupiter with Rahu (or Ketu, milder)
+   */
+  getGuruChandal(longitudes: Record<string, number>): DoshaResult {
+    const factors: string[] = [];
+    let base: DoshaSeverity = 'none';
+
+    if (this.isConjunct(longitudes, 'Jupiter', 'Rahu')) {
+      const orb = this.dignityService.arcBetween(longitudes.Jupiter, longitudes.Rahu);
+      factors.push(`Jupiter conjoins Rahu (${orb.toFixed(1)}° apart)`);
+      base = orb <= 5 ? 'severe' : 'moderate';
+    } else if (this.isConjunct(longitudes, 'Jupiter', 'Ketu')) {
+      factors.push('Jupiter conjoins Ketu');
+      base = 'mild';
+    }
+
+    const cancellations: string[] = [];
+    if (base !== 'none') {
+      const dignity = this.dignityService.getDignity('Jupiter', longitudes.Jupiter);
+      if (['exalted', 'moolatrikona', 'own'].includes(dignity)) {
+        cancellations.push(`Jupiter is ${dignity === 'exalted' ? 'exalted' : 'in its own sign'}`);
+      }
+    }
+
+    return this.result(this.reduce(base, cancellations.length), factors, cancellations);
+  }
+
+  /**
+   * Grahan dosha: a luminary with Rahu or Ketu
+   */
+  getGrahan(longitudes: Record<string, number>): DoshaResult {
+    const factors: string[] = [];
+    const afflicted = new Set<string>();
+    let closest = 360;
+
+    for (const luminary of ['Sun', 'Moon']) {
+      for (const node of ['Rahu', 'Ketu']) {
+        if (this.isConjunct(longitudes, luminary, node)) {
+          const orb = this.dignityService.arcBetween(longitudes[luminary], longitudes[node]);
+          factors.push(`${luminary} conjoins ${node} (${luminary === 'Sun' ? 'Surya' : 'Chandra'} Grahan, ${orb.toFixed(1)}°)`);
+          afflicted.add(luminary);
+          closest = Math.min(closest, orb);
+        }
+      }
+    }
+
+    let base: DoshaSeverity = 'none';
+    if (afflicted.size > 0) {
+      base = afflicted.size === 2 || closest <= 10 ? 'severe' : 'moderate';
+    }
+
+    const cancellations: string[] = [];
+    for (const luminary of afflicted) {
+      if (this.aspects(longitudes, 'Jupiter', luminary) || this.isConjunct(longitudes, 'Jupiter', luminary)) {
+        cancellations.push(`Jupiter conjoins or aspects the ${luminary}`);
+      }
+    }
+
+    return this.result(this.reduce(base, cancellations.length), factors, cancellations);
+  }
+
+  /**
+   * Shrapit dosha: Saturn with Rahu
+   */
+  getShrapit(longitudes: Record<string, number>): DoshaResult {
+    const factors: string[] = [];
+    let base: DoshaSeverity = 'none';
+
+    if (this.isConjunct(longitudes, 'Saturn', 'Rahu')) {
+      const orb = this.dignityService.arcBetween(longitudes.Saturn, longitudes.Rahu);
+      factors.push(`Saturn conjoins Rahu (${orb.toFixed(1)}° apart)`);
+      base = orb <= 10 ? 'severe' : 'moderate';
+    }
+
+    const cancellations: string[] = [];
+    if (base !== 'none') {
+      if (this.aspects(longitudes, 'Jupiter', 'Saturn') || this.isConjunct(longitudes, 'Jupiter', 'Saturn')) {
+        cancellations.push('Jupiter conjoins or aspects Saturn and Rahu');
+      }
+      const dignity = this.dignityService.getDignity('Saturn', longitudes.Saturn);
+      if (['exalted', 'moolatrikona', 'own'].includes(dignity)) {
+        cancellations.push(`Saturn is ${dignity === 'exalted' ? 'exalted' : 'in its own sign'}`);
+      }
+    }
+
+    return this.result(this.reduce(base, cancellations.length), factors, cancellations);
+  }
+
+  /**
+   * Kemadruma: no planet other than the Sun and nodes in the 2nd or 12th from the Moon
+   */
+  getKemadruma(longitudes: Record<string, number>, lagnaLongitude: number): DoshaResult {
+    const others = ['Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+    const moon = longitudes.Moon;
+    const flanking = others.filter((p) => [2, 12].includes(this.houseFrom(longitudes[p], moon)));
+    if (flanking.length > 0) {
+      return this.result('none', [], []);
+    }
+
+    const factors = ['No planet in the 2nd or 12th from the Moon'];
+    const cancellations: string[] = [];
+
+    const withMoon = others.filter((p) => this.houseFrom(longitudes[p], moon) === 1);
+    if (withMoon.length > 0) cancellations.push(`${withMoon.join(', ')} conjoin${withMoon.length === 1 ? 's' : ''} the Moon`);
+
+    const kendraFromLagna = others.filter((p) => [1, 4, 7, 10].includes(this.houseFrom(longitudes[p], lagnaLongitude)));
+    if (kendraFromLagna.length > 0) cancellations.push(`${kendraFromLagna.join(', ')} in a kendra from the lagna`);
+
+    const kendraFromMoon = others.filter((p) => [4, 7, 10].includes(this.houseFrom(longitudes[p], moon)));
+    if (kendraFromMoon.length > 0) cancellations.push(`${kendraFromMoon.join(', ')} in a kendra from the Moon`);
+
+    if ([1, 4, 7, 10].includes(this.houseFrom(moon, lagnaLongitude))) {
+      cancellations.push('Moon in a kendra from the lagna');
+    }
+    if (this.aspects(longitudes, 'Jupiter', 'Moon')) {
+      cancellations.push('Jupiter aspects the Moon');
+    }
+
+    return this.result(cancellations.length > 0 ? 'none' : 'moderate', factors, cancellations);
+  }
+
+  private result(severity: DoshaSeverity, factors: string[], cancellations: string[]): DoshaResult {
+    return { present: severity !== 'none', severity, factors, cancellations };
+  }
+
+  private severityFromCount(count: number): DoshaSeverity {
+    return SEVERITY_ORDER[Math.min(count, 3)];
+  }
+
+  private reduce(severity: DoshaSeverity, steps: number): DoshaSeverity {
+    return SEVERITY_ORDER[Math.max(0, SEVERITY_ORDER.indexOf(severity) - steps)];
+  }
+
+  private houseFrom(longitude: number, referenceLongitude: number): number {
+    return ((this.dignityService.signIndexOf(longitude) - this.dignityService.signIndexOf(referenceLongitude) + 12) % 12) + 1;
+  }
+
+  private isConjunct(longitudes: Record<string, number>, a: string, b: string): boolean {
+    return this.dignityService.signIndexOf(longitudes[a]) === this.dignityService.signIndexOf(longitudes[b]);
+  }
+
+  private aspects(longitudes: Record<string, number>, from: string, to: string): boolean {
+    return this.dignityService.hasGrahaDrishti(from, longitudes[from], longitudes[to]);
+  }
+}
@@ -0,0 +1,123 @@
+import { EphemerisService, NodeType } from './ephemeris.service';
+
+/**
+ * Regression suite against published ephemerides.
+ *
+ * SWISS rows are apparent geocentric positions (true ecliptic and equinox of
+ * date) from the Swiss Ephemeris 2.10 Moshier series, swe_calc_ut with
+ * SEFLG_MOSEPH | SEFLG_SPEED. MEEUS rows are the worked examples of Meeus,
+ * Astronomical Algorithms (2nd ed.), given for 0h TD and converted here to UT
+ * with the Delta T of the example.
+ */
+
+interface Expected {
+  longitude: number;
+  latitude: number;
+  distance: number; // AU
+  speed: number; // degrees per day
+}
+
+// Maximum deviation accepted from the reference values
+const TOLERANCE = {
+  longitude: 0.01, // degrees (36")
+  latitude: 0.01, // degrees
+  distance: 3e-4, // relative
+  speed: 0.002, // degrees per day
+  moonSpeed: 0.005,
+  nodeLongitude: 0.01,
+  nodeSpeed: 0.01, // the osculating node wobbles; Swiss and we difference it differently
+};
+
+const SWISS: Array<[string, string, Expected]> = [
+  ['2000-01-01T12:00:00Z', 'Sun', { longitude: 280.36892, latitude: 0.000232, distance: 0.983328, speed: 1.019432 }],
+  ['2000-01-01T12:00:00Z', 'Moon', { longitude: 223.323775, latitude: 5.170815, distance: 0.00269, speed: 12.021183 }],
+  ['2000-01-01T12:00:00Z', 'Mercury', { longitude: 271.889275, latitude: -0.994825, distance: 1.415469, speed: 1.556254 }],
+  ['2000-01-01T12:00:00Z', 'Venus', { longitude: 241.565798, latitude: 2.066348, distance: 1.137579, speed: 1.20904 }],
+  ['2000-01-01T12:00:00Z', 'Mars', { longitude: 327.963313, latitude: -1.067783, distance: 1.849687, speed: 0.775673 }],
+  ['2000-01-01T12:00:00Z', 'Jupiter', { longitude: 25.25303, latitude: -1.262173, distance: 4.621181, speed: 0.040761 }],
+  ['2000-01-01T12:00:00Z', 'Saturn', { longitude: 40.395639, latitude: -2.444823, distance: 8.652796, speed: -0.019945 }],
+  ['1992-10-13T00:00:00Z', 'Sun', { longitude: 199.906671, latitude: 0.000204, distance: 0.997608, speed: 0.989805 }],
+  ['1992-10-13T00:00:00Z', 'Moon', { longitude: 34.304105, latitude: 3.824617, distance: 0.002629, speed: 12.634116 }],
+  ['1992-10-13T00:00:00Z', 'Mercury', { longitude: 218.268749, latitude: -1.364012, distance: 1.290516, speed: 1.446651 }],
+  ['1992-10-13T00:00:00Z', 'Venus', { longitude: 231.797676, latitude: -0.675554, distance: 1.348221, speed: 1.217959 }],
+  ['1992-10-13T00:00:00Z', 'Mars', { longitude: 105.733368, latitude: 0.677171, distance: 1.058585, speed: 0.440223 }],
+  ['1992-10-13T00:00:00Z', 'Jupiter', { longitude: 180.514031, latitude: 1.083981, distance: 6.370652, speed: 0.210082 }],
+  ['1992-10-13T00:00:00Z', 'Saturn', { longitude: 311.828044, latitude: -1.040348, distance: 9.465752, speed: -0.005228 }],
+  ['2024-04-08T18:00:00Z', 'Sun', { longitude: 19.386208, latitude: -0.000055, distance: 1.001504, speed: 0.982986 }],
+  ['2024-04-08T18:00:00Z', 'Moon', { longitude: 19.182674, latitude: 0.32925, distance: 0.002405, speed: 14.996338 }],
+  // Mercury retrograde
+  ['2024-04-08T18:00:00Z', 'Mercury', { longitude: 24.807094, latitude: 2.83633, distance: 0.60681, speed: -0.637703 }],
+  ['2024-04-08T18:00:00Z', 'Venus', { longitude: 4.427216, latitude: -1.496521, distance: 1.646767, speed: 1.235309 }],
+  ['2024-04-08T18:00:00Z', 'Mars', { longitude: 343.040171, latitude: -1.244693, distance: 2.060819, speed: 0.777469 }],
+  ['2024-04-08T18:00:00Z', 'Jupiter', { longitude: 49.042597, latitude: -0.801664, distance: 5.851654, speed: 0.221335 }],
+  ['2024-04-08T18:00:00Z', 'Saturn', { longitude: 344.453721, latitude: -1.68441, distance: 10.513325, speed: 0.107614 }],
+];
+
+const SWISS_NODES: Array<[string, NodeType, { longitude: number; speed: number }]> = [
+  ['2000-01-01T12:00:00Z', 'mean', { longitude: 125.040646, speed: -0.052952 }],
+  ['2000-01-01T12:00:00Z', 'true', { longitude: 123.952895, speed: -0.054382 }],
+  ['1992-10-13T00:00:00Z', 'mean', { longitude: 264.661553, speed: -0.052972 }],
+  ['1992-10-13T00:00:00Z', 'true', { longitude: 263.425454, speed: -0.155528 }],
+  ['2024-04-08T18:00:00Z', 'mean', { longitude: 15.64773, speed: -0.052986 }],
+  ['2024-04-08T18:00:00Z', 'true', { longitude: 15.626016, speed: -0.001068 }],
+];
+
+function angleDiff(a: number, b: number): number {
+  const diff = (((a - b) % 360) + 540) % 360 - 180;
+  return Math.abs(diff);
+}
+
+describe('EphemerisService', () => {
+  const service = new EphemerisService();
+
+  describe('against the Swiss Ephemeris', () => {
+    it.each(SWISS)('%s %s', (date, planet, expected) => {
+      const position = service.getPosition(planet, new Date(date));
+
+      expect(angleDiff(position.longitude, expected.longitude)).toBeLessThan(TOLERANCE.longitude);
+      expect(Math.abs(position.latitude - expected.latitude)).toBeLessThan(TOLERANCE.latitude);
+      expect(Math.abs(position.distance - expected.distance) / expected.distance).toBeLessThan(TOLERANCE.distance);
+      expect(Math.abs(position.speed - expected.speed)).toBeLessThan(
+        planet === 'Moon' ? TOLERANCE.moonSpeed : TOLERANCE.speed,
+      );
+    });
+
+    it.each(SWISS_NODES)('%s %s node', (date, nodeType, expected) => {
+      const rahu = service.getPosition('Rahu', new Date(date), nodeType);
+      const ketu = service.getPosition('Ketu', new Date(date), nodeType);
+
+      expect(angleDiff(rahu.longitude, expected.longitude)).toBeLessThan(TOLERANCE.nodeLongitude);
+      expect(Math.abs(rahu.speed - expected.speed)).toBeLessThan(TOLERANCE.nodeSpeed);
+      expect(rahu.latitude).toBe(0);
+      expect(angleDiff(ketu.longitude, (expected.longitude + 180) % 360)).toBeLessThan(TOLERANCE.nodeLongitude);
+      expect(ketu.speed).toBeCloseTo(rahu.speed, 10);
+    });
+  });
+
+  describe('against Meeus, Astronomical Algorithms', () => {
+    it('Example 25.a: apparent Sun, 1992 October 13.0 TD', () => {
+      // Delta T = 59 s
+      const sun = service.getPosition('Sun', new Date('1992-10-12T23:59:01Z'));
+
+      expect(angleDiff(sun.longitude, 199.906061)).toBeLessThan(0.001); // 199°54'21.818"
+      expect(Math.abs(sun.distance - 0.99760775)).toBeLessThan(1e-5);
+    });
+
+    it('Example 47.a: apparent Moon, 1992 April 12.0 TD', () => {
+      // Delta T = 59 s
+      const moon = service.getPosition('Moon', new Date('1992-04-11T23:59:01Z'));
+
+      expect(angleDiff(moon.longitude, 133.167265)).toBeLessThan(0.003);
+      expect(Math.abs(moon.latitude - -3.229126)).toBeLessThan(0.003);
+      // Meeus' abridged ELP-2000 series is itself good to about 10 km
+      expect(Math.abs(moon.distance * 149597870.7 - 368409.7)).toBeLessThan(20); // km
+    });
+
+    it('Example 22.a: mean ascending node, 1987 April 10.0 TD', () => {
+      // Delta T = 55 s
+      const rahu = service.getPosition('Rahu', new Date('1987-04-09T23:59:05Z'), 'mean');
+
+      expect(angleDiff(rahu.longitude, 11.2531)).toBeLessThan(0.0005);
+    });
+  });
+});
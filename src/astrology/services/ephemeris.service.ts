@@ -0,0 +1,315 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as Astronomy from 'astronomy-engine';
+
+/**
+ * Ephemeris Service
+ *
+ * Geocentric apparent positions of the grahas, referred to the true ecliptic
+ * and equinox of date (tropical). Sun through Saturn come from the VSOP87
+ * series and the Moon from the ELP/Chapront model bundled in astronomy-engine,
+ * corrected for light-time, aberration and nutation. Lunar nodes are
+ * computed here as either the mean node or the osculating (true) node.
+ *
+ * All calculations run locally - no data files or network calls are needed.
+ */
+
+export type NodeType = 'mean' | 'true';
+
+export interface EclipticPosition {
+  longitude: number; // 0-360 degrees, tropical
+  latitude: number; // degrees
+  distance: number; // AU
+  speed: number; // degrees per day in longitude
+}
+
+export type EclipseKind = 'penumbral' | 'partial' | 'annular' | 'total';
+
+export interface MoonPhase {
+  phase: 'new' | 'full';
+  date: Date;
+}
+
+export interface LunarEclipse {
+  kind: EclipseKind;
+  obscuration: number; // peak fraction of the Moon's disc in the umbra
+  peak: Date;
+  penumbral_begin: Date;
+  partial_begin: Date | null;
+  total_begin: Date | null;
+  total_end: Date | null;
+  partial_end: Date | null;
+  penumbral_end: Date;
+}
+
+export interface SolarEclipseContact {
+  date: Date;
+  sun_altitude: number; // degrees; negative when the Sun is below the horizon
+}
+
+export interface SolarEclipse {
+  kind: EclipseKind; // as seen at the path of greatest eclipse
+  peak: Date;
+  // Circumstances at the observer; null when the shadow misses the location
+  local: {
+    kind: EclipseKind;
+    obscuration: number;
+    partial_begin: SolarEclipseContact;
+    total_begin: SolarEclipseContact | null;
+    peak: SolarEclipseContact;
+    total_end: SolarEclipseContact | null;
+    partial_end: SolarEclipseContact;
+  } | null;
+}
+
+export const EPHEMERIS_PLANETS = [
+  'Sun',
+  'Moon',
+  'Mars',
+  'Mercury',
+  'Jupiter',
+  'Venus',
+  'Saturn',
+  'Rahu',
+  'Ketu',
+] as const;
+
+@Injectable()
+export class EphemerisService {
+  private readonly logger = new Logger(EphemerisService.name);
+
+  // Half-width of the window used to difference positions into daily speed
+  private readonly speedStepDays = 1 / 24;
+
+  private readonly bodies: Record<string, Astronomy.Body> = {
+    Sun: Astronomy.Body.Sun,
+    Moon: Astronomy.Body.Moon,
+    Mercury: Astronomy.Body.Mercury,
+    Venus: Astronomy.Body.Venus,
+    Mars: Astronomy.Body.Mars,
+    Jupiter: Astronomy.Body.Jupiter,
+    Saturn: Astronomy.Body.Saturn,
+  };
+
+  /**
+   * Get tropical positions for all nine grahas at a UT instant
+   */
+  getPositions(date: Date, nodeType: NodeType = 'mean'): Record<string, EclipticPosition> {
+    const positions: Record<string, EclipticPosition> = {};
+    for (const name of EPHEMERIS_PLANETS) {
+      positions[name] = this.getPosition(name, date, nodeType);
+    }
+    return positions;
+  }
+
+  /**
+   * Get tropical position and daily speed of a single graha at a UT instant
+   */
+  getPosition(name: string, date: Date, nodeType: NodeType = 'mean'): EclipticPosition {
+    const time = Astronomy.MakeTime(date);
+    const current = this.getLongitudeLatitude(name, time, nodeType);
+    const before = this.getLongitudeLatitude(name, time.AddDays(-this.speedStepDays), nodeType);
+    const after = this.getLongitudeLatitude(name, time.AddDays(this.speedStepDays), nodeType);
+
+    return {
+      ...current,
+      speed: this.angleDifference(after.longitude, before.longitude) / (2 * this.speedStepDays),
+    };
+  }
+
+  /**
+   * True obliquity of the ecliptic (degrees) at a UT instant
+   */
+  getTrueObliquity(date: Date): number {
+    return Astronomy.e_tilt(Astronomy.MakeTime(date)).tobl;
+  }
+
+  /**
+   * Greenwich apparent sidereal time (hours) at a UT instant
+   */
+  getSiderealTime(date: Date): number {
+    return Astronomy.SiderealTime(date);
+  }
+
+  /**
+   * Next rise or set of the Sun or Moon (upper limb, standard refraction)
+   * after a UT instant; a negative limit searches backwards. Null if the
+   * body does not rise/set within the window (polar day or night).
+   */
+  findRiseSet(
+    name: 'Sun' | 'Moon',
+    event: 'rise' | 'set',
+    from: Date,
+    latitude: number,
+    longitude: number,
+    limitDays = 1,
+  ): Date | null {
+    const observer = new Astronomy.Observer(latitude, longitude, 0);
+    const time = Astronomy.SearchRiseSet(this.bodies[name], observer, event === 'rise' ? +1 : -1, from, limitDays);
+    return time ? time.date : null;
+  }
+
+  /**
+   * Apparent altitude (degrees, with standard refraction) of the Sun or Moon
+   * seen from a location at a UT instant
+   */
+  getAltitude(name: 'Sun' | 'Moon', date: Date, latitude: number, longitude: number): number {
+    const observer = new Astronomy.Observer(latitude, longitude, 0);
+    const equator = Astronomy.Equator(this.bodies[name], date, observer, true, true);
+    return Astronomy.Horizon(date, observer, equator.ra, equator.dec, 'normal').altitude;
+  }
+
+  /**
+   * Exact new and full moons between two UT instants
+   */
+  getMoonPhases(from: Date, to: Date): MoonPhase[] {
+    const phases: MoonPhase[] = [];
+    for (let quarter = Astronomy.SearchMoonQuarter(from); quarter.time.date < to; quarter = Astronomy.NextMoonQuarter(quarter)) {
+      if (quarter.quarter === 0 || quarter.quarter === 2) {
+        phases.push({ phase: quarter.quarter === 0 ? 'new' : 'full', date: quarter.time.date });
+      }
+    }
+    return phases;
+  }
+
+  /**
+   * Lunar eclipses peaking between two UT instants, with their contact times
+   */
+  getLunarEclipses(from: Date, to: Date): LunarEclipse[] {
+    const eclipses: LunarEclipse[] = [];
+    for (let eclipse = Astronomy.SearchLunarEclipse(from); eclipse.peak.date < to; eclipse = Astronomy.NextLunarEclipse(eclipse.peak)) {
+      const peak = eclipse.peak.date.getTime();
+      const contact = (minutes: number, sign: number) => (minutes > 0 ? new Date(peak + sign * minutes * 60000) : null);
+      eclipses.push({
+        kind: eclipse.kind as EclipseKind,
+        obscuration: eclipse.obscuration,
+        peak: eclipse.peak.date,
+        penumbral_begin: contact(eclipse.sd_penum, -1),
+        partial_begin: contact(eclipse.sd_partial, -1),
+        total_begin: contact(eclipse.sd_total, -1),
+        total_end: contact(eclipse.sd_total, 1),
+        partial_end: contact(eclipse.sd_partial, 1),
+        penumbral_end: contact(eclipse.sd_penum, 1),
+      });
+    }
+    return eclipses;
+  }
+
+  /**
+   * Solar eclipses peaking between two UT instants, with the local
+   * circumstances when an observer location is given
+   */
+  getSolarEclipses(from: Date, to: Date, latitude?: number, longitude?: number): SolarEclipse[] {
+    const observer = latitude !== undefined && longitude !== undefined ? new Astronomy.Observer(latitude, longitude, 0) : null;
+    const eclipses: SolarEclipse[] = [];
+
+    for (
+      let eclipse = Astronomy.SearchGlobalSolarEclipse(from);
+      eclipse.peak.date < to;
+      eclipse = Astronomy.NextGlobalSolarEclipse(eclipse.peak)
+    ) {
+      let local: SolarEclipse['local'] = null;
+      if (observer) {
+        // The local search returns the next eclipse whose shadow touches the observer, which may be a later one
+        const found = Astronomy.SearchLocalSolarEclipse(eclipse.peak.AddDays(-1), observer);
+        if (Math.abs(found.peak.time.ut - eclipse.peak.ut) < 1) {
+          const contact = (event: Astronomy.EclipseEvent | undefined) =>
+            event ? { date: event.time.date, sun_altitude: event.altitude } : null;
+          local = {
+            kind: found.kind as EclipseKind,
+            obscuration: found.obscuration,
+            partial_begin: contact(found.partial_begin),
+            total_begin: contact(found.total_begin),
+            peak: contact(found.peak),
+            total_end: contact(found.total_end),
+            partial_end: contact(found.partial_end),
+          };
+        }
+      }
+      eclipses.push({ kind: eclipse.kind as EclipseKind, peak: eclipse.peak.date, local });
+    }
+    return eclipses;
+  }
+
+  /**
+   * Local hour angle (hours, 0 = upper culmination) of a body at a UT instant
+   */
+  getHourAngle(name: string, date: Date, latitude: number, longitude: number): number {
+    const body = this.bodies[name];
+    if (body === undefined) {
+      throw new Error(`Unsupported planet for ephemeris: ${name}`);
+    }
+    return Astronomy.HourAngle(body, date, new Astronomy.Observer(latitude, longitude, 0));
+  }
+
+  private getLongitudeLatitude(
+    name: string,
+    time: Astronomy.AstroTime,
+    nodeType: NodeType,
+  ): Omit<EclipticPosition, 'speed'> {
+    if (name === 'Rahu' || name === 'Ketu') {
+      const rahu = nodeType === 'true' ? this.getTrueNode(time) : this.getMeanNode(time);
+      const longitude = name === 'Rahu' ? rahu : this.normalize(rahu + 180);
+      return { longitude, latitude: 0, distance: 0 };
+    }
+
+    const body = this.bodies[name];
+    if (body === undefined) {
+      throw new Error(`Unsupported planet for ephemeris: ${name}`);
+    }
+
+    const equatorial = Astronomy.GeoVector(body, time, true);
+    const ecliptic = Astronomy.RotateVector(Astronomy.Rotation_EQJ_ECT(time), equatorial);
+    const sphere = Astronomy.SphereFromVector(ecliptic);
+
+    return {
+      longitude: this.normalize(sphere.lon),
+      latitude: sphere.lat,
+      distance: sphere.dist,
+    };
+  }
+
+  /**
+   * Mean ascending node of the Moon (Meeus, Astronomical Algorithms 47.7)
+   */
+  private getMeanNode(time: Astronomy.AstroTime): number {
+    const t = time.tt / 36525.0;
+    return this.normalize(
+      125.0445479 -
+        1934.1362891 * t +
+        0.0020754 * t * t +
+        (t * t * t) / 467441 -
+        (t * t * t * t) / 60616000,
+    );
+  }
+
+  /**
+   * Osculating (true) ascending node from the Moon's geocentric state vector
+   */
+  private getTrueNode(time: Astronomy.AstroTime): number {
+    const state = Astronomy.GeoMoonState(time);
+    const rotation = Astronomy.Rotation_EQJ_ECT(time);
+    const r = Astronomy.RotateVector(rotation, new Astronomy.Vector(state.x, state.y, state.z, time));
+    const v = Astronomy.RotateVector(rotation, new Astronomy.Vector(state.vx, state.vy, state.vz, time));
+
+    // Orbital angular momentum h = r x v; the node lies along z x h
+    const hx = r.y * v.z - r.z * v.y;
+    const hy = r.z * v.x - r.x * v.z;
+
+    return this.normalize((Math.atan2(hx, -hy) * 180) / Math.PI);
+  }
+
+  /**
+   * Signed shortest difference a - b in degrees (-180..180)
+   */
+  private angleDifference(a: number, b: number): number {
+    let diff = (a - b) % 360;
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    return diff;
+  }
+
+  private normalize(longitude: number): number {
+    const value = longitude % 360;
+    return value < 0 ? value + 360 : value;
+  }
+}
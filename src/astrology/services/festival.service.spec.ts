@@ -0,0 +1,110 @@
+import { EphemerisService } from './ephemeris.service';
+import { AyanamsaService } from './ayanamsa.service';
+import { SwissEphemerisService } from './swiss-ephemeris.service';
+import { PanchangService } from './panchang.service';
+import { TimezoneService } from './timezone.service';
+import { FestivalEvent, FestivalService } from './festival.service';
+
+/**
+ * Festival known answers for New Delhi. The dates are the commonly published
+ * ones for 2025 and 2026 where the traditions agree; Janmashtami 2025 follows
+ * the Smarta nishita rule the service applies (the Vaishnava date is the 16th).
+ */
+
+const DELHI = { latitude: 28.6139, longitude: 77.209, timezone: 'Asia/Kolkata' };
+
+const FESTIVALS_2025: Array<[string, string]> = [
+  ['makara_sankranti', '2025-01-14'],
+  ['vasant_panchami', '2025-02-02'],
+  ['maha_shivaratri', '2025-02-26'],
+  ['holika_dahan', '2025-03-13'],
+  ['holi', '2025-03-14'],
+  ['chaitra_navratri', '2025-03-30'],
+  ['ram_navami', '2025-04-06'],
+  ['mesha_sankranti', '2025-04-14'],
+  ['akshaya_tritiya', '2025-04-30'],
+  ['guru_purnima', '2025-07-10'],
+  ['janmashtami', '2025-08-15'],
+  ['ganesh_chaturthi', '2025-08-27'],
+  ['sharad_navratri', '2025-09-22'],
+  ['dussehra', '2025-10-02'],
+  ['karwa_chauth', '2025-10-10'],
+  ['dhanteras', '2025-10-18'],
+  ['diwali', '2025-10-20'],
+];
+
+const FESTIVALS_2026: Array<[string, string]> = [
+  ['maha_shivaratri', '2026-02-15'],
+  ['holika_dahan', '2026-03-03'], // Bhadra covers the pradosh of the 2nd
+  ['holi', '2026-03-04'],
+  ['janmashtami', '2026-09-04'],
+  ['dussehra', '2026-10-20'],
+  ['diwali', '2026-11-08'],
+];
+
+describe('FestivalService', () => {
+  const ephemerisService = new EphemerisService();
+  const swissEphemerisService = new SwissEphemerisService(ephemerisService, new AyanamsaService());
+  const service = new FestivalService(
+    ephemerisService,
+    swissEphemerisService,
+    new TimezoneService(),
+    new PanchangService(ephemerisService, swissEphemerisService),
+  );
+
+  const byKey = (events: FestivalEvent[], key: string) => events.filter((e) => e.key === key);
+
+  describe('2025', () => {
+    const events = service.getFestivals({ year: 2025, ...DELHI });
+
+    it.each(FESTIVALS_2025)('keeps %s on %s', (key, date) => {
+      expect(byKey(events, key).map((e) => e.date)).toEqual([date]);
+    });
+
+    it('describes Diwali by its tithi, month and kala', () => {
+      expect(byKey(events, 'diwali')[0]).toMatchObject({
+        weekday: 'Somavara',
+        tithi: 'Amavasya',
+        paksha: 'Krishna',
+        lunar_month: 'Ashwin',
+        purnimanta_month: 'Kartika',
+        adhika: false,
+        kala: 'pradosh',
+      });
+    });
+
+    it('keeps an Ekadashi in every paksha and twelve Sankrantis in a year without an adhika month', () => {
+      const ekadashis = byKey(events, 'ekadashi');
+
+      // Pausha Putrada on 10 January to the next Pausha Putrada on 30 December
+      expect(ekadashis).toHaveLength(25);
+      expect(ekadashis.map((e) => e.paksha)).toEqual(ekadashis.map((_, i) => (i % 2 === 0 ? 'Shukla' : 'Krishna')));
+      expect(events.filter((e) => e.name.includes('Sankranti'))).toHaveLength(12);
+      expect(events.some((e) => e.adhika)).toBe(false);
+    });
+
+    it('returns only the requested year, by date', () => {
+      expect(events.every((e) => e.date.startsWith('2025'))).toBe(true);
+      expect(events.map((e) => e.date)).toEqual([...events.map((e) => e.date)].sort());
+    });
+  });
+
+  describe('2026', () => {
+    const events = service.getFestivals({ year: 2026, ...DELHI });
+
+    it.each(FESTIVALS_2026)('keeps %s on %s', (key, date) => {
+      expect(byKey(events, key).map((e) => e.date)).toEqual([date]);
+    });
+
+    it('holds no festivals in Adhika Jyeshtha, only its vrats', () => {
+      const adhika = events.filter((e) => e.adhika);
+
+      expect(adhika.length).toBeGreaterThan(0);
+      expect(adhika.every((e) => e.lunar_month === 'Adhika Jyeshtha' && e.category !== 'festival')).toBe(true);
+      expect(byKey(adhika, 'ekadashi').map((e) => e.name)).toEqual([
+        'Padmini Ekadashi (Adhika Jyeshtha)',
+        'Parama Ekadashi (Adhika Jyeshtha)',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,587 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService } from './ephemeris.service';
+import { SwissEphemerisService } from './swiss-ephemeris.service';
+import { TimezoneService } from './timezone.service';
+import { PanchangService, VARA_NAMES } from './panchang.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Festival Service
+ *
+ * Hindu festival and vrat calendar for a year at a location. Tithis are
+ * numbered 1-30 from Shukla Pratipada to Amavasya and grouped into amanta
+ * lunar months, which run from one new moon to the next and take their name
+ * from the sidereal sign the Sun occupies when the month begins; a month in
+ * which the Sun changes no sign is adhika (intercalary) and carries no
+ * festivals. Every observance is kept on the civil day whose ritual time
+ * (kala) the tithi covers best - sunrise for most vrats, pradosh for Diwali,
+ * nishita for Janmashtami and Shivaratri, and so on - with the classical
+ * sunrise (udaya) tithi as the fallback.
+ */
+
+export type FestivalCategory =
+  | 'festival'
+  | 'ekadashi'
+  | 'purnima'
+  | 'amavasya'
+  | 'sankranti'
+  | 'pradosh'
+  | 'chaturthi'
+  | 'shivaratri';
+
+export const FESTIVAL_CATEGORIES: FestivalCategory[] = [
+  'festival',
+  'ekadashi',
+  'purnima',
+  'amavasya',
+  'sankranti',
+  'pradosh',
+  'chaturthi',
+  'shivaratri',
+];
+
+// Time of day the tithi must prevail at for the observance
+export type ObservanceKala = 'sunrise' | 'madhyahna' | 'aparahna' | 'pradosh' | 'nishita' | 'moonrise';
+
+// Amanta lunar months, Chaitra first; month n begins with the Sun in sidereal sign n - 1 (Pisces for Chaitra)
+export const LUNAR_MONTHS = [
+  'Chaitra', 'Vaishakha', 'Jyeshtha', 'Ashadha', 'Shravana', 'Bhadrapada',
+  'Ashwin', 'Kartika', 'Margashirsha', 'Pausha', 'Magha', 'Phalguna',
+];
+
+// Sankranti names of the Sun's sidereal ingresses, Aries first
+const SANKRANTI_NAMES = [
+  'Mesha', 'Vrishabha', 'Mithuna', 'Karka', 'Simha', 'Kanya',
+  'Tula', 'Vrishchika', 'Dhanu', 'Makara', 'Kumbha', 'Meena',
+];
+
+// Ekadashi names by amanta month: [Shukla, Krishna]
+const EKADASHI_NAMES: [string, string][] = [
+  ['Kamada', 'Varuthini'],
+  ['Mohini', 'Apara'],
+  ['Nirjala', 'Yogini'],
+  ['Devshayani', 'Kamika'],
+  ['Shravana Putrada', 'Aja'],
+  ['Parsva', 'Indira'],
+  ['Papankusha', 'Rama'],
+  ['Devutthana', 'Utpanna'],
+  ['Mokshada', 'Saphala'],
+  ['Pausha Putrada', 'Shattila'],
+  ['Jaya', 'Vijaya'],
+  ['Amalaki', 'Papmochani'],
+];
+const ADHIKA_EKADASHI_NAMES: [string, string] = ['Padmini', 'Parama'];
+
+interface FestivalRule {
+  key: string;
+  name: string;
+  month: number; // amanta month index, Chaitra = 0
+  tithi: number; // 1-30
+  kala: ObservanceKala;
+  description: string;
+}
+
+const FESTIVAL_RULES: FestivalRule[] = [
+  { key: 'chaitra_navratri', name: 'Chaitra Navratri / Ugadi / Gudi Padwa', month: 0, tithi: 1, kala: 'sunrise', description: 'Hindu new year; Ghatasthapana begins the spring Navratri' },
+  { key: 'ram_navami', name: 'Ram Navami', month: 0, tithi: 9, kala: 'madhyahna', description: 'Birth of Lord Rama at midday' },
+  { key: 'hanuman_jayanti', name: 'Hanuman Jayanti', month: 0, tithi: 15, kala: 'sunrise', description: 'Birth of Lord Hanuman' },
+  { key: 'akshaya_tritiya', name: 'Akshaya Tritiya', month: 1, tithi: 3, kala: 'sunrise', description: 'Day of imperishable merit, auspicious for new ventures and gold' },
+  { key: 'buddha_purnima', name: 'Buddha Purnima', month: 1, tithi: 15, kala: 'sunrise', description: 'Birth and enlightenment of the Buddha' },
+  { key: 'rath_yatra', name: 'Jagannath Rath Yatra', month: 3, tithi: 2, kala: 'sunrise', description: 'Chariot festival of Lord Jagannath' },
+  { key: 'guru_purnima', name: 'Guru Purnima', month: 3, tithi: 15, kala: 'sunrise', description: 'Day of reverence for the guru and Sage Vyasa' },
+  { key: 'hariyali_teej', name: 'Hariyali Teej', month: 4, tithi: 3, kala: 'sunrise', description: 'Monsoon fast of married women for Goddess Parvati' },
+  { key: 'nag_panchami', name: 'Nag Panchami', month: 4, tithi: 5, kala: 'sunrise', description: 'Worship of the serpent deities' },
+  { key: 'raksha_bandhan', name: 'Raksha Bandhan', month: 4, tithi: 15, kala: 'aparahna', description: 'Sisters tie the rakhi on their brothers' },
+  { key: 'janmashtami', name: 'Krishna Janmashtami', month: 4, tithi: 23, kala: 'nishita', description: 'Birth of Lord Krishna at midnight' },
+  { key: 'hartalika_teej', name: 'Hartalika Teej', month: 5, tithi: 3, kala: 'sunrise', description: 'Nirjala fast for Shiva and Parvati' },
+  { key: 'ganesh_chaturthi', name: 'Ganesh Chaturthi', month: 5, tithi: 4, kala: 'madhyahna', description: 'Birth of Lord Ganesha; the ten-day Ganeshotsav begins' },
+  { key: 'anant_chaturdashi', name: 'Anant Chaturdashi', month: 5, tithi: 14, kala: 'sunrise', description: 'Ganesh Visarjan and worship of Lord Anant' },
+  { key: 'pitru_paksha', name: 'Pitru Paksha begins', month: 5, tithi: 16, kala: 'aparahna', description: 'Fortnight of shraddha for the ancestors' },
+  { key: 'mahalaya_amavasya', name: 'Mahalaya Amavasya', month: 5, tithi: 30, kala: 'aparahna', description: 'Sarva Pitru Amavasya, shraddha for all ancestors' },
+  { key: 'sharad_navratri', name: 'Sharad Navratri', month: 6, tithi: 1, kala: 'sunrise', description: 'Ghatasthapana begins the nine nights of the Goddess' },
+  { key: 'durga_ashtami', name: 'Durga Ashtami', month: 6, tithi: 8, kala: 'sunrise', description: 'Maha Ashtami of Navratri, Kanya Puja' },
+  { key: 'maha_navami', name: 'Maha Navami', month: 6, tithi: 9, kala: 'sunrise', description: 'Last day of Navratri' },
+  { key: 'dussehra', name: 'Dussehra (Vijayadashami)', month: 6, tithi: 10, kala: 'aparahna', description: 'Victory of Lord Rama over Ravana' },
+  { key: 'sharad_purnima', name: 'Sharad Purnima', month: 6, tithi: 15, kala: 'pradosh', description: 'Harvest full moon, kheer is kept in the moonlight' },
+  { key: 'karwa_chauth', name: 'Karwa Chauth', month: 6, tithi: 19, kala: 'moonrise', description: 'Fast of married women broken at moonrise' },
+  { key: 'dhanteras', name: 'Dhanteras', month: 6, tithi: 28, kala: 'pradosh', description: 'Dhanvantari and Lakshmi puja; the Diwali festival begins' },
+  { key: 'narak_chaturdashi', name: 'Narak Chaturdashi', month: 6, tithi: 29, kala: 'sunrise', description: 'Choti Diwali, abhyanga snan before sunrise' },
+  { key: 'diwali', name: 'Diwali (Lakshmi Puja)', month: 6, tithi: 30, kala: 'pradosh', description: 'Festival of lights, Lakshmi Puja in pradosh kaal' },
+  { key: 'govardhan_puja', name: 'Govardhan Puja', month: 7, tithi: 1, kala: 'sunrise', description: 'Annakut, worship of Govardhan hill' },
+  { key: 'bhai_dooj', name: 'Bhai Dooj', month: 7, tithi: 2, kala: 'aparahna', description: 'Sisters pray for the long life of their brothers' },
+  { key: 'chhath_puja', name: 'Chhath Puja', month: 7, tithi: 6, kala: 'sunrise', description: 'Evening arghya to the setting Sun' },
+  { key: 'dev_deepawali', name: 'Kartik Purnima / Dev Deepawali', month: 7, tithi: 15, kala: 'pradosh', description: 'Diwali of the gods, lamps on the ghats' },
+  { key: 'gita_jayanti', name: 'Gita Jayanti', month: 8, tithi: 11, kala: 'sunrise', description: 'Day the Bhagavad Gita was spoken' },
+  { key: 'vasant_panchami', name: 'Vasant Panchami', month: 10, tithi: 5, kala: 'sunrise', description: 'Saraswati Puja, arrival of spring' },
+  { key: 'maha_shivaratri', name: 'Maha Shivaratri', month: 10, tithi: 29, kala: 'nishita', description: 'Great night of Lord Shiva, worship at midnight' },
+  { key: 'holika_dahan', name: 'Holika Dahan', month: 11, tithi: 15, kala: 'pradosh', description: 'Bonfire of Holika after sunset' },
+];
+
+// Festivals kept on the civil day after another observance rather than by a tithi of their own
+const FOLLOWING_DAY_FESTIVALS = [
+  { key: 'holi', after: 'holika_dahan', name: 'Holi', description: 'Festival of colours (Dhulandi), the morning after Holika Dahan' },
+];
+
+// Sankrantis celebrated as festivals in their own right, by sign index
+const SANKRANTI_FESTIVALS: Record<number, { name: string; description: string }> = {
+  0: { name: 'Mesha Sankranti / Baisakhi', description: 'Solar new year: Baisakhi, Vishu, Puthandu and Pohela Boishakh' },
+  9: { name: 'Makar Sankranti', description: 'Sun enters Capricorn: Pongal, Uttarayan and Lohri the evening before' },
+};
+
+// Thiruvonam, the nakshatra of Onam, in the solar month of Simha
+const ONAM_NAKSHATRA = 21;
+const ONAM_SOLAR_SIGN = 4;
+
+export interface LunarMonth {
+  index: number; // Chaitra = 0
+  name: string;
+  adhika: boolean;
+  start: Date; // new moon
+  end: Date; // next new moon
+}
+
+export interface TithiSpan {
+  tithi: number; // 1-30
+  name: string;
+  start: Date;
+  end: Date;
+  month: LunarMonth;
+}
+
+interface CalendarDay {
+  date: string; // local civil date, YYYY-MM-DD
+  weekday: number; // Sunday = 0
+  sunrise: Date;
+  sunset: Date;
+  nextSunrise: Date;
+  moonrise: Date | null; // before the next sunrise
+}
+
+export interface FestivalEvent {
+  key: string;
+  name: string;
+  category: FestivalCategory;
+  date: string;
+  weekday: string;
+  tithi: string | null; // null for solar observances
+  paksha: 'Shukla' | 'Krishna' | null;
+  lunar_month: string | null; // amanta
+  purnimanta_month: string | null;
+  adhika: boolean;
+  kala: ObservanceKala;
+  starts_at: Date; // tithi start, or the moment of the Sankranti
+  ends_at: Date | null;
+  description: string;
+}
+
+export interface FestivalCalendarInput {
+  year: number;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  ayanamsa?: AyanamsaKey;
+}
+
+@Injectable()
+export class FestivalService {
+  private readonly hourMs = 60 * 60 * 1000;
+  private readonly dayMs = 24 * this.hourMs;
+
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly timezoneService: TimezoneService,
+    private readonly panchangService: PanchangService,
+  ) {}
+
+  /**
+   * Festivals, vrats and sankrantis falling on the civil days of a year, by date
+   */
+  getFestivals(input: FestivalCalendarInput): FestivalEvent[] {
+    const ayanamsa = input.ayanamsa || DEFAULT_AYANAMSA;
+
+    // A margin around the year catches tithis and months that straddle 1 January and 31 December
+    const days = this.getDays(`${input.year - 1}-12-01`, `${input.year + 1}-01-31`, input);
+    const spans = this.getTithiSpans(days[0].sunrise, days[days.length - 1].nextSunrise, ayanamsa);
+
+    const events: FestivalEvent[] = [];
+    for (const span of spans) {
+      events.push(...this.getTithiObservances(span, days));
+    }
+    events.push(...this.getFollowingDayFestivals(events, spans, days));
+    events.push(...this.getSankrantis(days, input.timezone, ayanamsa));
+    events.push(...this.getOnam(days, ayanamsa));
+
+    const year = String(input.year);
+    return events
+      .filter((e) => e.date.startsWith(year))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.starts_at.getTime() - b.starts_at.getTime());
+  }
+
+  /**
+   * Sunrise, sunset and next sunrise of each civil day in a range
+   */
+  private getDays(first: string, last: string, input: FestivalCalendarInput): CalendarDay[] {
+    const sunrises: { date: string; sunrise: Date }[] = [];
+    for (let time = Date.parse(first); time <= Date.parse(last) + this.dayMs; time += this.dayMs) {
+      const date = new Date(time).toISOString().split('T')[0];
+      const midnight = this.timezoneService.toUniversalTime(date, '00:00:00', input.timezone).utc;
+      const sunrise = this.ephemerisService.findRiseSet('Sun', 'rise', midnight, input.latitude, input.longitude, 1);
+      if (!sunrise) {
+        throw new Error('The Sun does not rise every day of the year at this latitude');
+      }
+      sunrises.push({ date, sunrise });
+    }
+
+    return sunrises.slice(0, -1).map(({ date, sunrise }, i) => {
+      const sunset = this.ephemerisService.findRiseSet('Sun', 'set', sunrise, input.latitude, input.longitude, 1);
+      if (!sunset) {
+        throw new Error('The Sun does not set every day of the year at this latitude');
+      }
+      const nextSunrise = sunrises[i + 1].sunrise;
+      const moonrise = this.ephemerisService.findRiseSet('Moon', 'rise', sunrise, input.latitude, input.longitude, 1);
+      return {
+        date,
+        weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+        sunrise,
+        sunset,
+        nextSunrise,
+        moonrise: moonrise && moonrise < nextSunrise ? moonrise : null,
+      };
+    });
+  }
+
+  /**
+   * Tithis between two instants, each assigned to its amanta month. Tithis
+   * before the first new moon of the range are dropped.
+   */
+  private getTithiSpans(from: Date, to: Date, ayanamsa: AyanamsaKey): TithiSpan[] {
+    const raw: { tithi: number; start: Date; end: Date }[] = [];
+    let cursor = new Date(from.getTime() - 2 * this.dayMs);
+    let start: Date | null = null;
+    while (cursor < to) {
+      const index = this.panchangService.getLimbIndex('tithi', cursor, ayanamsa);
+      const end = this.panchangService.findLimbEnd('tithi', cursor, ayanamsa);
+      if (start) {
+        raw.push({ tithi: index + 1, start, end });
+      }
+      start = end;
+      cursor = end;
+    }
+
+    const newMoons = raw.filter((t) => t.tithi === 30).map((t) => t.end);
+    const months: LunarMonth[] = [];
+    for (let i = 0; i < newMoons.length - 1; i++) {
+      const sign = this.sunSign(newMoons[i], ayanamsa);
+      const index = (sign + 1) % 12;
+      months.push({
+        index,
+        name: LUNAR_MONTHS[index],
+        adhika: sign === this.sunSign(newMoons[i + 1], ayanamsa),
+        start: newMoons[i],
+        end: newMoons[i + 1],
+      });
+    }
+
+    return raw.flatMap((t) => {
+      const month = months.find((m) => t.start >= m.start && t.start < m.end);
+      return month ? [{ ...t, name: this.panchangService.getLimbName('tithi', t.tithi - 1), month }] : [];
+    });
+  }
+
+  /**
+   * Monthly vrats and the lunar festivals of a tithi
+   */
+  private getTithiObservances(span: TithiSpan, days: CalendarDay[]): FestivalEvent[] {
+    const events: FestivalEvent[] = [];
+    const add = (
+      key: string,
+      name: string,
+      category: FestivalCategory,
+      kala: ObservanceKala,
+      description: string,
+      day = this.getObservanceDay(span, kala, days),
+    ) => {
+      if (day) {
+        events.push(this.toEvent(span, day, key, name, category, kala, description));
+      }
+    };
+
+    const { month } = span;
+    const krishna = span.tithi > 15;
+    const weekdayOf = (kala: ObservanceKala) => this.getObservanceDay(span, kala, days)?.weekday;
+
+    switch (span.tithi) {
+      case 11:
+      case 26: {
+        const ekadashi = (month.adhika ? ADHIKA_EKADASHI_NAMES : EKADASHI_NAMES[month.index])[krishna ? 1 : 0];
+        add('ekadashi', `${ekadashi} Ekadashi`, 'ekadashi', 'sunrise', 'Fast for Lord Vishnu, broken (parana) after sunrise the next day');
+        break;
+      }
+      case 15:
+        add('purnima', `${month.name} Purnima`, 'purnima', 'sunrise', 'Full moon fast and Satyanarayan puja');
+        break;
+      case 30: {
+        const weekday = weekdayOf('sunrise');
+        const prefix = weekday === 1 ? 'Somvati ' : weekday === 6 ? 'Shani ' : '';
+        add('amavasya', `${prefix}${month.name} Amavasya`, 'amavasya', 'sunrise', 'New moon, tarpan for the ancestors');
+        break;
+      }
+      case 13:
+      case 28: {
+        const weekday = weekdayOf('pradosh');
+        const prefix = weekday === 1 ? 'Soma ' : weekday === 2 ? 'Bhauma ' : weekday === 6 ? 'Shani ' : '';
+        add('pradosh', `${prefix}Pradosh Vrat`, 'pradosh', 'pradosh', 'Fast for Lord Shiva, worship in the twilight after sunset');
+        break;
+      }
+      case 4:
+        add('vinayaka_chaturthi', 'Vinayaka Chaturthi', 'chaturthi', 'madhyahna', 'Monthly fast for Lord Ganesha, worship at midday');
+        break;
+      case 19: {
+        const name = weekdayOf('moonrise') === 2 ? 'Angaraki Sankashti Chaturthi' : 'Sankashti Chaturthi';
+        add('sankashti_chaturthi', name, 'chaturthi', 'moonrise', 'Fast for Lord Ganesha broken at moonrise');
+        break;
+      }
+      case 29:
+        if (month.adhika || month.index !== 10) {
+          add('masik_shivaratri', 'Masik Shivaratri', 'shivaratri', 'nishita', 'Monthly night of Lord Shiva, worship at midnight');
+        }
+        break;
+    }
+
+    if (!month.adhika) {
+      for (const rule of FESTIVAL_RULES.filter((r) => r.month === month.index && r.tithi === span.tithi)) {
+        const day = rule.key === 'holika_dahan' ? this.getHolikaDahanDay(span, days) : undefined;
+        add(rule.key, rule.name, rule.key === 'maha_shivaratri' ? 'shivaratri' : 'festival', rule.kala, rule.description, day);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Holika Dahan is kept in the pradosh of the Phalguna Purnima evening. When
+   * Bhadra (Vishti karana, the first half of Purnima) covers that whole
+   * pradosh and Purnima still lasts three praharas into the next day, the
+   * bonfire moves to the next evening; otherwise it is lit the same night
+   * once Bhadra ends.
+   */
+  private getHolikaDahanDay(span: TithiSpan, days: CalendarDay[]): CalendarDay | null {
+    const day = this.getObservanceDay(span, 'pradosh', days);
+    const next = day && days[days.indexOf(day) + 1];
+    if (!next) {
+      return day;
+    }
+
+    // The Moon-Sun elongation does not depend on the ayanamsa
+    const bhadraEnd = this.panchangService.findLimbEnd('karana', new Date(span.start.getTime() + 60 * 1000));
+    const pradoshEnd = day.sunset.getTime() + (day.nextSunrise.getTime() - day.sunset.getTime()) / 5;
+    const daytime = next.sunset.getTime() - next.sunrise.getTime();
+    const purnimaNextDay = span.end.getTime() - next.sunrise.getTime();
+
+    return bhadraEnd.getTime() >= pradoshEnd && purnimaNextDay >= (3 * daytime) / 4 ? next : day;
+  }
+
+  /**
+   * Festivals held the day after another (Holi after Holika Dahan), described
+   * by the tithi current at that day's sunrise
+   */
+  private getFollowingDayFestivals(events: FestivalEvent[], spans: TithiSpan[], days: CalendarDay[]): FestivalEvent[] {
+    return FOLLOWING_DAY_FESTIVALS.flatMap((festival) =>
+      events
+        .filter((e) => e.key === festival.after)
+        .flatMap((e) => {
+          const day = days[days.findIndex((d) => d.date === e.date) + 1];
+          const span = day && spans.find((s) => s.start <= day.sunrise && s.end > day.sunrise);
+          return span ? [this.toEvent(span, day, festival.key, festival.name, 'festival', 'sunrise', festival.description)] : [];
+        }),
+    );
+  }
+
+  /**
+   * Civil day on which a tithi is observed. Of the days whose kala the tithi
+   * touches the one it covers most is chosen (the first on a tie); a tithi
+   * that touches no kala falls back to the sunrise rule - the day it is
+   * current at sunrise, or the day it begins and ends in when it is kshaya.
+   */
+  private getObservanceDay(span: TithiSpan, kala: ObservanceKala, days: CalendarDay[]): CalendarDay | null {
+    const first = days.findIndex((d) => d.nextSunrise > span.start);
+    if (first === -1) {
+      return null;
+    }
+    const candidates = days.slice(Math.max(0, first - 1), first + 3);
+
+    if (kala !== 'sunrise') {
+      let best: CalendarDay | null = null;
+      let bestCoverage = 0;
+      for (const day of candidates) {
+        const coverage = this.getKalaCoverage(day, kala, span);
+        if (coverage > bestCoverage) {
+          best = day;
+          bestCoverage = coverage;
+        }
+      }
+      if (best) {
+        return best;
+      }
+    }
+
+    return (
+      candidates.find((d) => d.sunrise >= span.start && d.sunrise < span.end) ||
+      candidates.find((d) => span.start >= d.sunrise && span.start < d.nextSunrise) ||
+      null
+    );
+  }
+
+  /**
+   * Milliseconds of a day's kala a tithi covers; moonrise counts 1 when the
+   * tithi is current as the Moon rises that night
+   */
+  private getKalaCoverage(day: CalendarDay, kala: ObservanceKala, span: TithiSpan): number {
+    const daytime = day.sunset.getTime() - day.sunrise.getTime();
+    const night = day.nextSunrise.getTime() - day.sunset.getTime();
+    let start: number;
+    let end: number;
+
+    switch (kala) {
+      case 'madhyahna':
+        start = day.sunrise.getTime() + (2 * daytime) / 5;
+        end = day.sunrise.getTime() + (3 * daytime) / 5;
+        break;
+      case 'aparahna':
+        start = day.sunrise.getTime() + (3 * daytime) / 5;
+        end = day.sunrise.getTime() + (4 * daytime) / 5;
+        break;
+      case 'pradosh':
+        start = day.sunset.getTime();
+        end = start + night / 5;
+        break;
+      case 'nishita':
+        start = day.sunset.getTime() + (7 * night) / 15;
+        end = day.sunset.getTime() + (8 * night) / 15;
+        break;
+      case 'moonrise':
+        return day.moonrise && day.moonrise >= span.start && day.moonrise < span.end ? 1 : 0;
+      default:
+        start = day.sunrise.getTime();
+        end = start + 1;
+    }
+    return Math.max(0, Math.min(end, span.end.getTime()) - Math.max(start, span.start.getTime()));
+  }
+
+  /**
+   * The Sun's sidereal ingresses; one after sunset is observed the next day
+   */
+  private getSankrantis(days: CalendarDay[], timezone: string, ayanamsa: AyanamsaKey): FestivalEvent[] {
+    const events: FestivalEvent[] = [];
+    let previous = days[0].sunrise.getTime();
+    let previousSign = this.sunSign(days[0].sunrise, ayanamsa);
+
+    for (let time = previous + this.dayMs; time <= days[days.length - 1].sunrise.getTime(); time += this.dayMs) {
+      const sign = this.sunSign(new Date(time), ayanamsa);
+      if (sign !== previousSign) {
+        let before = previous;
+        let after = time;
+        while (after - before > 60 * 1000) {
+          const mid = (before + after) / 2;
+          if (this.sunSign(new Date(mid), ayanamsa) === previousSign) before = mid;
+          else after = mid;
+        }
+        const moment = new Date(Math.round(after));
+        const civil = this.timezoneService.toLocalDate(moment, timezone);
+        const index = days.findIndex((d) => d.date === civil);
+        const day = index !== -1 && moment >= days[index].sunset ? days[index + 1] : days[index];
+
+        if (day) {
+          const festival = SANKRANTI_FESTIVALS[sign];
+          events.push({
+            key: festival ? `${SANKRANTI_NAMES[sign].toLowerCase()}_sankranti` : 'sankranti',
+            name: festival?.name || `${SANKRANTI_NAMES[sign]} Sankranti`,
+            category: festival ? 'festival' : 'sankranti',
+            date: day.date,
+            weekday: VARA_NAMES[day.weekday],
+            tithi: null,
+            paksha: null,
+            lunar_month: null,
+            purnimanta_month: null,
+            adhika: false,
+            kala: 'sunrise',
+            starts_at: moment,
+            ends_at: null,
+            description: festival?.description || `Sun enters sidereal ${SANKRANTI_NAMES[sign]}; punya kaal for charity and holy baths`,
+          });
+        }
+        previousSign = sign;
+      }
+      previous = time;
+    }
+    return events;
+  }
+
+  /**
+   * Onam: the day Thiruvonam nakshatra is current at sunrise in the solar month of Simha
+   */
+  private getOnam(days: CalendarDay[], ayanamsa: AyanamsaKey): FestivalEvent[] {
+    const events: FestivalEvent[] = [];
+    for (const day of days) {
+      if (
+        this.sunSign(day.sunrise, ayanamsa) === ONAM_SOLAR_SIGN &&
+        this.panchangService.getLimbIndex('nakshatra', day.sunrise, ayanamsa) === ONAM_NAKSHATRA &&
+        !events.some((e) => e.date.slice(0, 4) === day.date.slice(0, 4))
+      ) {
+        events.push({
+          key: 'onam',
+          name: 'Onam (Thiruvonam)',
+          category: 'festival',
+          date: day.date,
+          weekday: VARA_NAMES[day.weekday],
+          tithi: null,
+          paksha: null,
+          lunar_month: null,
+          purnimanta_month: null,
+          adhika: false,
+          kala: 'sunrise',
+          starts_at: day.sunrise,
+          ends_at: null,
+          description: 'Harvest festival of Kerala, homecoming of King Mahabali',
+        });
+      }
+    }
+    return events;
+  }
+
+  private toEvent(
+    span: TithiSpan,
+    day: CalendarDay,
+    key: string,
+    name: string,
+    category: FestivalCategory,
+    kala: ObservanceKala,
+    description: string,
+  ): FestivalEvent {
+    const krishna = span.tithi > 15;
+    const adhika = span.month.adhika ? 'Adhika ' : '';
+    return {
+      key,
+      name: span.month.adhika && category !== 'festival' ? `${name} (Adhika ${span.month.name})` : name,
+      category,
+      date: day.date,
+      weekday: VARA_NAMES[day.weekday],
+      tithi: span.name,
+      paksha: krishna ? 'Krishna' : 'Shukla',
+      lunar_month: `${adhika}${span.month.name}`,
+      // Purnimanta months end at the full moon, so the Krishna paksha already belongs to the next month
+      purnimanta_month: `${adhika}${LUNAR_MONTHS[(span.month.index + (krishna ? 1 : 0)) % 12]}`,
+      adhika: span.month.adhika,
+      kala,
+      starts_at: span.start,
+      ends_at: span.end,
+      description,
+    };
+  }
+
+  private sunSign(date: Date, ayanamsa: AyanamsaKey): number {
+    const tropical = this.ephemerisService.getPosition('Sun', date).longitude;
+    const sidereal = (((tropical - this.swissEphemerisService.getAyanamsa(date, ayanamsa)) % 360) + 360) % 360;
+    return Math.floor(sidereal / 30);
+  }
+}
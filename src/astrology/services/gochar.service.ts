@@ -0,0 +1,339 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService, EPHEMERIS_PLANETS, NodeType } from './ephemeris.service';
+import { SwissEphemerisService, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Gochar Service
+ *
+ * Transits of the grahas over a natal chart for any date. Houses are counted
+ * whole-sign from the natal Moon (the classical gochar reference) and from
+ * the lagna. Transit results follow the Phaladeepika table of favourable
+ * houses with vedha (obstruction) and vipareeta vedha.
+ */
+
+// Favourable house from the Moon -> its vedha house, per graha
+const VEDHA: Record<string, Record<number, number>> = {
+  Sun: { 3: 9, 6: 12, 10: 4, 11: 5 },
+  Moon: { 1: 5, 3: 9, 6: 12, 7: 2, 10: 4, 11: 8 },
+  Mars: { 3: 12, 6: 9, 11: 5 },
+  Mercury: { 2: 5, 4: 3, 6: 9, 8: 1, 10: 8, 11: 12 },
+  Jupiter: { 2: 12, 5: 4, 7: 3, 9: 10, 11: 8 },
+  Venus: { 1: 8, 2: 7, 3: 1, 4: 10, 5: 9, 8: 5, 9: 11, 11: 6, 12: 3 },
+  Saturn: { 3: 12, 6: 9, 11: 5 },
+  Rahu: { 3: 12, 6: 9, 11: 5 },
+  Ketu: { 3: 12, 6: 9, 11: 5 },
+};
+
+// Pairs that never obstruct each other
+const VEDHA_EXEMPT = [
+  ['Sun', 'Saturn'],
+  ['Moon', 'Mercury'],
+];
+
+const VEDHA_OBSTRUCTERS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+const JUPITER_TRANSIT_RESULTS: Record<number, string> = {
+  1: 'Jupiter over the natal Moon: restlessness, displacement and expenses',
+  2: 'Jupiter in the 2nd from the Moon: gains in wealth, family harmony and good speech',
+  3: 'Jupiter in the 3rd from the Moon: obstacles, changes of position and strained efforts',
+  4: 'Jupiter in the 4th from the Moon: domestic worries and troubles through relatives',
+  5: 'Jupiter in the 5th from the Moon: progeny, learning, favour of elders and success',
+  6: 'Jupiter in the 6th from the Moon: disputes, health concerns and trouble from rivals',
+  7: 'Jupiter in the 7th from the Moon: marriage, partnerships, comforts and travel',
+  8: 'Jupiter in the 8th from the Moon: losses, fatigue and hindrances',
+  9: 'Jupiter in the 9th from the Moon: fortune, dharma, promotion and blessings',
+  10: 'Jupiter in the 10th from the Moon: strain in career and loss of position',
+  11: 'Jupiter in the 11th from the Moon: gains, recognition and fulfilment of desires',
+  12: 'Jupiter in the 12th from the Moon: expenses, travel and spiritual pursuits',
+};
+
+const SADE_SATI_PHASES: Record<number, 'rising' | 'peak' | 'setting'> = { 12: 'rising', 1: 'peak', 2: 'setting' };
+
+export interface GocharNatalInput {
+  moonLongitude: number;
+  lagnaLongitude: number;
+  ayanamsa?: AyanamsaKey; // AyanamsaMaster slug or legacy code. Default: Lahiri
+  nodeType?: NodeType; // Default: mean node
+}
+
+export interface TransitVedha {
+  vedha_house: number | null; // house from the Moon that obstructs (or relieves) this transit
+  by: string[];
+}
+
+export interface TransitPlanet {
+  name: string;
+  longitude: number;
+  sign: string;
+  degrees: number;
+  is_retrograde: boolean;
+  house_from_moon: number;
+  house_from_lagna: number;
+  favourable: boolean;
+  vedha: TransitVedha;
+  result: 'favourable' | 'unfavourable' | 'obstructed' | 'relieved';
+}
+
+export interface SadeSatiStatus {
+  active: boolean;
+  phase: 'rising' | 'peak' | 'setting' | null;
+  saturn_house_from_moon: number;
+  start: Date | null; // Saturn's entry into the 12th from the Moon for the current cycle
+  end: Date | null; // Saturn's exit from the 2nd from the Moon
+}
+
+export interface ShaniDhaiyaStatus {
+  active: boolean;
+  house_from_moon: number | null;
+  start: Date | null;
+  end: Date | null;
+}
+
+export interface JupiterTransitStatus {
+  house_from_moon: number;
+  house_from_lagna: number;
+  favourable: boolean;
+  result: string;
+}
+
+export interface GocharResult {
+  date: Date;
+  moon_sign: string;
+  lagna_sign: string;
+  planets: TransitPlanet[];
+  sade_sati: SadeSatiStatus;
+  ashtama_shani: ShaniDhaiyaStatus;
+  kantaka_shani: ShaniDhaiyaStatus;
+  jupiter_transit: JupiterTransitStatus;
+}
+
+export interface SignIngress {
+  planet: string;
+  date: Date;
+  from_sign: string;
+  to_sign: string;
+  is_retrograde: boolean;
+}
+
+@Injectable()
+export class GocharService {
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+  ) {}
+
+  /**
+   * Transits over a natal chart at a UT instant. The start and end of Sade
+   * Sati and Shani Dhaiya are searched over up to 24 years of Saturn's
+   * motion; pass windows: false to leave them null when sampling many days.
+   */
+  getTransits(natal: GocharNatalInput, date: Date, options: { windows?: boolean } = {}): GocharResult {
+    const ayanamsa = natal.ayanamsa || DEFAULT_AYANAMSA;
+    const nodeType = natal.nodeType || 'mean';
+    const positions = this.swissEphemerisService.getSiderealPositions(date, ayanamsa, nodeType);
+    const moonSign = this.signIndexOf(natal.moonLongitude);
+    const lagnaSign = this.signIndexOf(natal.lagnaLongitude);
+
+    const housesFromMoon: Record<string, number> = {};
+    for (const position of positions) {
+      housesFromMoon[position.name] = this.houseFrom(this.signIndexOf(position.longitude), moonSign);
+    }
+
+    const planets: TransitPlanet[] = positions.map((position) => {
+      const houseFromMoon = housesFromMoon[position.name];
+      const favourable = VEDHA[position.name][houseFromMoon] !== undefined;
+      const vedha = this.getVedha(position.name, houseFromMoon, housesFromMoon);
+      let result: TransitPlanet['result'] = favourable ? 'favourable' : 'unfavourable';
+      if (vedha.by.length > 0) {
+        result = favourable ? 'obstructed' : 'relieved';
+      }
+
+      return {
+        name: position.name,
+        longitude: position.longitude,
+        sign: position.sign,
+        degrees: position.longitude % 30,
+        is_retrograde: position.isRetrograde,
+        house_from_moon: houseFromMoon,
+        house_from_lagna: this.houseFrom(this.signIndexOf(position.longitude), lagnaSign),
+        favourable,
+        vedha,
+        result,
+      };
+    });
+
+    const saturnHouse = housesFromMoon.Saturn;
+    const jupiter = planets.find((p) => p.name === 'Jupiter');
+    const saturnWindow = (houses: number[]) =>
+      houses.includes(saturnHouse) && options.windows !== false
+        ? this.findSignWindow('Saturn', date, ayanamsa, nodeType, (sign) => houses.includes(this.houseFrom(sign, moonSign)))
+        : { start: null, end: null };
+
+    const sadeSatiWindow = saturnWindow([12, 1, 2]);
+    const ashtamaWindow = saturnWindow([8]);
+    const kantakaWindow = saturnWindow([saturnHouse].filter((h) => [4, 7, 10].includes(h)));
+
+    return {
+      date,
+      moon_sign: ZODIAC_SIGNS[moonSign],
+      lagna_sign: ZODIAC_SIGNS[lagnaSign],
+      planets,
+      sade_sati: {
+        active: SADE_SATI_PHASES[saturnHouse] !== undefined,
+        phase: SADE_SATI_PHASES[saturnHouse] || null,
+        saturn_house_from_moon: saturnHouse,
+        ...sadeSatiWindow,
+      },
+      ashtama_shani: {
+        active: saturnHouse === 8,
+        house_from_moon: saturnHouse === 8 ? 8 : null,
+        ...ashtamaWindow,
+      },
+      kantaka_shani: {
+        active: [4, 7, 10].includes(saturnHouse),
+        house_from_moon: [4, 7, 10].includes(saturnHouse) ? saturnHouse : null,
+        ...kantakaWindow,
+      },
+      jupiter_transit: {
+        house_from_moon: jupiter.house_from_moon,
+        house_from_lagna: jupiter.house_from_lagna,
+        favourable: jupiter.favourable,
+        result: JUPITER_TRANSIT_RESULTS[jupiter.house_from_moon],
+      },
+    };
+  }
+
+  /**
+   * Sidereal sign ingresses of the slow-moving grahas (all but the Moon)
+   * between two UT instants, including retrograde re-entries
+   */
+  getSignIngresses(
+    from: Date,
+    to: Date,
+    ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA,
+    nodeType: NodeType = 'mean',
+  ): SignIngress[] {
+    const ingresses: SignIngress[] = [];
+
+    for (const planet of EPHEMERIS_PLANETS.filter((p) => p !== 'Moon')) {
+      let previousTime = from.getTime();
+      let previousSign = this.signIndexOf(this.siderealLongitude(planet, from, ayanamsa, nodeType));
+
+      for (let time = previousTime + this.dayMs; time <= to.getTime() + this.dayMs; time += this.dayMs) {
+        const sign = this.signIndexOf(this.siderealLongitude(planet, new Date(time), ayanamsa, nodeType));
+        if (sign !== previousSign) {
+          const date = this.bisectSignChange(planet, previousTime, time, previousSign, ayanamsa, nodeType);
+          if (date <= to) {
+            ingresses.push({
+              planet,
+              date,
+              from_sign: ZODIAC_SIGNS[previousSign],
+              to_sign: ZODIAC_SIGNS[sign],
+              is_retrograde: this.ephemerisService.getPosition(planet, date, nodeType).speed < 0,
+            });
+          }
+          previousSign = sign;
+        }
+        previousTime = time;
+      }
+    }
+
+    return ingresses.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Vedha for a transit: other grahas in the obstructing house. For an
+   * unfavourable house, a graha in the matching favourable house relieves it.
+   */
+  private getVedha(planet: string, houseFromMoon: number, housesFromMoon: Record<string, number>): TransitVedha {
+    const table = VEDHA[planet];
+    let vedhaHouse: number | null = table[houseFromMoon] ?? null;
+    if (vedhaHouse === null) {
+      const favourableHouse = Object.keys(table).find((house) => table[Number(house)] === houseFromMoon);
+      vedhaHouse = favourableHouse ? Number(favourableHouse) : null;
+    }
+    if (vedhaHouse === null) {
+      return { vedha_house: null, by: [] };
+    }
+
+    const by = VEDHA_OBSTRUCTERS.filter(
+      (other) =>
+        other !== planet &&
+        housesFromMoon[other] === vedhaHouse &&
+        !VEDHA_EXEMPT.some((pair) => pair.includes(planet) && pair.includes(other)),
+    );
+    return { vedha_house: vedhaHouse, by };
+  }
+
+  /**
+   * Start and end of the current uninterrupted stay of a graha in a set of
+   * signs around a date, searched up to 12 years either way
+   */
+  private findSignWindow(
+    planet: string,
+    date: Date,
+    ayanamsa: AyanamsaKey,
+    nodeType: NodeType,
+    isInside: (signIndex: number) => boolean,
+  ): { start: Date | null; end: Date | null } {
+    const stepMs = 5 * this.dayMs;
+    const limitMs = 12 * 365.25 * this.dayMs;
+    const inside = (time: number) => isInside(this.signIndexOf(this.siderealLongitude(planet, new Date(time), ayanamsa, nodeType)));
+
+    const search = (direction: 1 | -1): Date | null => {
+      let last = date.getTime();
+      for (let time = last + direction * stepMs; Math.abs(time - date.getTime()) <= limitMs; time += direction * stepMs) {
+        if (!inside(time)) {
+          return this.bisect(last, time, inside);
+        }
+        last = time;
+      }
+      return null;
+    };
+
+    return { start: search(-1), end: search(1) };
+  }
+
+  private bisectSignChange(
+    planet: string,
+    fromTime: number,
+    toTime: number,
+    fromSign: number,
+    ayanamsa: AyanamsaKey,
+    nodeType: NodeType,
+  ): Date {
+    return this.bisect(fromTime, toTime, (time) =>
+      this.signIndexOf(this.siderealLongitude(planet, new Date(time), ayanamsa, nodeType)) === fromSign,
+    );
+  }
+
+  /**
+   * Bisect to within a minute between a time where the predicate holds and one where it does not
+   */
+  private bisect(holdsTime: number, failsTime: number, predicate: (time: number) => boolean): Date {
+    let a = holdsTime;
+    let b = failsTime;
+    while (Math.abs(b - a) > 60 * 1000) {
+      const mid = (a + b) / 2;
+      if (predicate(mid)) a = mid;
+      else b = mid;
+    }
+    return new Date(Math.round((a + b) / 2));
+  }
+
+  private siderealLongitude(planet: string, date: Date, ayanamsa: AyanamsaKey, nodeType: NodeType): number {
+    const tropical = this.ephemerisService.getPosition(planet, date, nodeType).longitude;
+    return (((tropical - this.swissEphemerisService.getAyanamsa(date, ayanamsa)) % 360) + 360) % 360;
+  }
+
+  private signIndexOf(longitude: number): number {
+    return Math.floor((((longitude % 360) + 360) % 360) / 30);
+  }
+
+  private houseFrom(signIndex: number, referenceSignIndex: number): number {
+    return ((signIndex - referenceSignIndex + 12) % 12) + 1;
+  }
+}
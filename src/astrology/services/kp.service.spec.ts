@@ -0,0 +1,84 @@
+import { EphemerisService } from './ephemeris.service';
+import { AyanamsaService } from './ayanamsa.service';
+import { SwissEphemerisService } from './swiss-ephemeris.service';
+import { KP_SUB_DIVISIONS, KpService } from './kp.service';
+
+/**
+ * KP known answers from the standard 249 sub-lord table (KP Reader I).
+ */
+
+const dms = (d: number, m: number, s = 0) => d + m / 60 + s / 3600;
+
+describe('KpService', () => {
+  const ephemerisService = new EphemerisService();
+  const service = new KpService(ephemerisService, new SwissEphemerisService(ephemerisService, new AyanamsaService()));
+
+  describe('KP_SUB_DIVISIONS', () => {
+    it('has 249 subs covering the zodiac without gaps', () => {
+      expect(KP_SUB_DIVISIONS.length).toBe(249);
+      expect(KP_SUB_DIVISIONS[0].start).toBe(0);
+      expect(KP_SUB_DIVISIONS[248].end).toBeCloseTo(360, 9);
+      KP_SUB_DIVISIONS.slice(1).forEach((sub, i) => {
+        expect(sub.number).toBe(i + 2);
+        expect(sub.start).toBeCloseTo(KP_SUB_DIVISIONS[i].end, 9);
+      });
+    });
+
+    it.each([
+      // number, start, end, sign, sign lord, star lord, sub lord
+      [1, 0, dms(0, 46, 40), 'Aries', 'Mars', 'Ketu', 'Ketu'],
+      [2, dms(0, 46, 40), dms(3, 0), 'Aries', 'Mars', 'Ketu', 'Venus'],
+      [9, dms(11, 26, 40), dms(13, 20), 'Aries', 'Mars', 'Ketu', 'Mercury'],
+      [10, dms(13, 20), dms(15, 33, 20), 'Aries', 'Mars', 'Venus', 'Venus'],
+      [22, dms(29, 13, 20), 30, 'Aries', 'Mars', 'Sun', 'Rahu'], // Krittika's Rahu sub split by the sign boundary
+      [23, 30, dms(31, 13, 20), 'Taurus', 'Venus', 'Sun', 'Rahu'],
+      [249, dms(357, 53, 20), 360, 'Pisces', 'Jupiter', 'Mercury', 'Saturn'],
+    ])('sub %d runs %d-%d', (number, start, end, sign, signLord, starLord, subLord) => {
+      const sub = KP_SUB_DIVISIONS[number - 1];
+
+      expect(sub.start).toBeCloseTo(start, 9);
+      expect(sub.end).toBeCloseTo(end, 9);
+      expect(sub).toMatchObject({ number, sign, sign_lord: signLord, star_lord: starLord, sub_lord: subLord });
+    });
+
+    it('splits only the six subs that straddle a sign boundary', () => {
+      const split = KP_SUB_DIVISIONS.filter((sub, i) => {
+        const previous = KP_SUB_DIVISIONS[i - 1];
+        return previous && sub.star_lord === previous.star_lord && sub.sub_lord === previous.sub_lord;
+      });
+
+      // Krittika, Uttara Phalguni and Uttara Ashadha split in their Rahu sub;
+      // Punarvasu, Vishakha and Purva Bhadrapada in their Moon sub
+      expect(split.map((sub) => [sub.number, sub.start, sub.sub_lord])).toEqual([
+        [23, 30, 'Rahu'],
+        [63, 90, 'Moon'],
+        [106, 150, 'Rahu'],
+        [146, 210, 'Moon'],
+        [189, 270, 'Rahu'],
+        [229, 330, 'Moon'],
+      ]);
+    });
+  });
+
+  describe('getLords', () => {
+    it.each([
+      [0.5, 'Mars', 'Ketu', 'Ketu', 'Jupiter'],
+      [1, 'Mars', 'Ketu', 'Venus', 'Venus'],
+      [29.5, 'Mars', 'Sun', 'Rahu', 'Rahu'],
+      // The sub-sub lords continue across the sign split of the Rahu sub
+      [30.5, 'Venus', 'Sun', 'Rahu', 'Ketu'],
+      [359.99, 'Jupiter', 'Mercury', 'Saturn', 'Jupiter'],
+    ])('%d° has sign, star, sub and sub-sub lords %s, %s, %s, %s', (longitude, sign, star, sub, subSub) => {
+      expect(service.getLords(longitude)).toEqual({
+        sign_lord: sign,
+        star_lord: star,
+        sub_lord: sub,
+        sub_sub_lord: subSub,
+      });
+    });
+
+    it('normalizes longitudes outside 0-360', () => {
+      expect(service.getLords(-359.5)).toEqual(service.getLords(0.5));
+    });
+  });
+});
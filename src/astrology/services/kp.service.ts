@@ -0,0 +1,256 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService } from './ephemeris.service';
+import { KundliData, SIGN_LORDS, SwissEphemerisService, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { VARA_LORDS } from './panchang.service';
+import { DASHA_SEQUENCE, DASHA_YEARS } from './vimshottari-dasha.service';
+import { AyanamsaKey } from './ayanamsa.service';
+
+/**
+ * KP Service
+ *
+ * Krishnamurti Paddhati on top of a Placidus chart cast with the KP ayanamsa:
+ * - Star (nakshatra) lord, sub lord and sub-sub lord of every cusp and planet.
+ *   Each nakshatra is divided among the nine Vimshottari lords in proportion
+ *   to their dasha years, starting from the star lord; splitting the subs that
+ *   straddle a sign boundary gives the 249 KP sub-divisions.
+ * - Four-level house significators: planets in the star of occupants,
+ *   occupants, planets in the star of the cusp lord, and the cusp lord.
+ *   Rahu and Ketu additionally signify what the lord of their sign signifies.
+ * - Ruling planets for a moment: day lord, and the sign, star and sub lords
+ *   of the ascendant and the Moon.
+ */
+
+export const KP_AYANAMSA = 'kp_old';
+
+const NAKSHATRA_SPAN = 360 / 27;
+const EPSILON = 1e-9;
+
+export interface KpSubDivision {
+  number: number; // 1-249
+  start: number; // sidereal longitude
+  end: number;
+  sign: string;
+  sign_lord: string;
+  star_lord: string;
+  sub_lord: string;
+}
+
+export interface KpLords {
+  sign_lord: string;
+  star_lord: string;
+  sub_lord: string;
+  sub_sub_lord: string;
+}
+
+export interface KpCusp extends KpLords {
+  house: number;
+  longitude: number;
+  sign: string;
+}
+
+export interface KpPlanet extends KpLords {
+  name: string;
+  longitude: number;
+  sign: string;
+  house: number; // Placidus bhava
+  is_retrograde: boolean;
+}
+
+export interface KpHouseSignificators {
+  house: number;
+  level_1: string[]; // planets in the star of the occupants
+  level_2: string[]; // occupants
+  level_3: string[]; // planets in the star of the cusp lord
+  level_4: string[]; // cusp lord
+  all: string[]; // strongest first, without repeats
+}
+
+export interface KpChart {
+  ayanamsa: number;
+  cusps: KpCusp[];
+  planets: KpPlanet[];
+  significators: {
+    houses: KpHouseSignificators[];
+    planets: Record<string, number[]>; // houses each planet signifies
+  };
+}
+
+export interface KpRulingPlanets {
+  at: Date;
+  day_lord: string;
+  lagna: KpLords & { longitude: number; sign: string };
+  moon: KpLords & { longitude: number; sign: string };
+  planets: string[]; // strongest first: lagna star, lagna sign, Moon star, Moon sign, day lord, then nodes
+}
+
+/**
+ * The 249 sub-divisions of the zodiac
+ */
+export const KP_SUB_DIVISIONS: KpSubDivision[] = (() => {
+  const subs: KpSubDivision[] = [];
+  for (let nakshatra = 0; nakshatra < 27; nakshatra++) {
+    const starIndex = nakshatra % 9;
+    let start = nakshatra * NAKSHATRA_SPAN;
+
+    for (let i = 0; i < 9; i++) {
+      const subLord = DASHA_SEQUENCE[(starIndex + i) % 9];
+      const end = start + (NAKSHATRA_SPAN * DASHA_YEARS[subLord]) / 120;
+      const boundary = Math.ceil(start / 30 - EPSILON) * 30;
+      const pieces = boundary > start + EPSILON && boundary < end - EPSILON ? [[start, boundary], [boundary, end]] : [[start, end]];
+
+      for (const [from, to] of pieces) {
+        const sign = ZODIAC_SIGNS[Math.floor((from + EPSILON) / 30) % 12];
+        subs.push({
+          number: subs.length + 1,
+          start: from,
+          end: to,
+          sign,
+          sign_lord: SIGN_LORDS[sign],
+          star_lord: DASHA_SEQUENCE[starIndex],
+          sub_lord: subLord,
+        });
+      }
+      start = end;
+    }
+  }
+  return subs;
+})();
+
+@Injectable()
+export class KpService {
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+  ) {}
+
+  /**
+   * Sign, star, sub and sub-sub lords of a sidereal longitude
+   */
+  getLords(longitude: number): KpLords {
+    const lng = ((longitude % 360) + 360) % 360;
+    const sub = KP_SUB_DIVISIONS.find((s) => lng < s.end) || KP_SUB_DIVISIONS[KP_SUB_DIVISIONS.length - 1];
+
+    // The whole sub (across a sign split) is divided again from the sub lord
+    const nakshatraStart = Math.floor(lng / NAKSHATRA_SPAN) * NAKSHATRA_SPAN;
+    const starIndex = DASHA_SEQUENCE.indexOf(sub.star_lord);
+    let subStart = nakshatraStart;
+    for (let i = 0; DASHA_SEQUENCE[(starIndex + i) % 9] !== sub.sub_lord; i++) {
+      subStart += (NAKSHATRA_SPAN * DASHA_YEARS[DASHA_SEQUENCE[(starIndex + i) % 9]]) / 120;
+    }
+    const subSpan = (NAKSHATRA_SPAN * DASHA_YEARS[sub.sub_lord]) / 120;
+
+    const subIndex = DASHA_SEQUENCE.indexOf(sub.sub_lord);
+    let cursor = subStart;
+    let subSubLord = sub.sub_lord;
+    for (let i = 0; i < 9; i++) {
+      const lord = DASHA_SEQUENCE[(subIndex + i) % 9];
+      cursor += (subSpan * DASHA_YEARS[lord]) / 120;
+      if (lng < cursor) {
+        subSubLord = lord;
+        break;
+      }
+    }
+
+    return {
+      sign_lord: sub.sign_lord,
+      star_lord: sub.star_lord,
+      sub_lord: sub.sub_lord,
+      sub_sub_lord: subSubLord,
+    };
+  }
+
+  /**
+   * KP cusps, planet lords and significators of a Placidus chart
+   */
+  getChart(chart: KundliData): KpChart {
+    const cusps: KpCusp[] = chart.houses.map((house) => ({
+      house: house.houseNumber,
+      longitude: house.cuspLongitude,
+      sign: house.sign,
+      ...this.getLords(house.cuspLongitude),
+    }));
+
+    const planets: KpPlanet[] = chart.planets.map((planet) => ({
+      name: planet.name,
+      longitude: planet.longitude,
+      sign: planet.sign,
+      house: planet.house,
+      is_retrograde: planet.isRetrograde,
+      ...this.getLords(planet.longitude),
+    }));
+
+    const houses = cusps.map((cusp) => {
+      const occupants = planets.filter((p) => p.house === cusp.house).map((p) => p.name);
+      const inStarOf = (lords: string[]) => planets.filter((p) => lords.includes(p.star_lord)).map((p) => p.name);
+      const levels = {
+        level_1: inStarOf(occupants),
+        level_2: occupants,
+        level_3: inStarOf([cusp.sign_lord]),
+        level_4: [cusp.sign_lord],
+      };
+      return { house: cusp.house, ...levels };
+    });
+
+    // Planet -> houses signified, with the nodes acting for the lord of their sign
+    const signified: Record<string, Set<number>> = Object.fromEntries(planets.map((p) => [p.name, new Set<number>()]));
+    for (const house of houses) {
+      for (const name of [...house.level_1, ...house.level_2, ...house.level_3, ...house.level_4]) {
+        signified[name]?.add(house.house);
+      }
+    }
+    for (const node of planets.filter((p) => p.name === 'Rahu' || p.name === 'Ketu')) {
+      signified[node.sign_lord]?.forEach((house) => signified[node.name].add(house));
+    }
+
+    return {
+      ayanamsa: chart.ayanamsa,
+      cusps,
+      planets,
+      significators: {
+        houses: houses.map((house) => {
+          const all = [...house.level_1, ...house.level_2, ...house.level_3, ...house.level_4];
+          const withNodes = [
+            ...all,
+            ...planets
+              .filter((p) => (p.name === 'Rahu' || p.name === 'Ketu') && all.includes(p.sign_lord))
+              .map((p) => p.name),
+          ];
+          return { ...house, all: [...new Set(withNodes)] };
+        }),
+        planets: Object.fromEntries(
+          Object.entries(signified).map(([name, set]) => [name, [...set].sort((a, b) => a - b)]),
+        ),
+      },
+    };
+  }
+
+  /**
+   * Ruling planets at a moment and place. The day lord changes at local sunrise.
+   */
+  getRulingPlanets(at: Date, latitude: number, longitude: number, ayanamsa: AyanamsaKey = KP_AYANAMSA): KpRulingPlanets {
+    const lagnaLongitude = this.swissEphemerisService.getLagnaLongitude(at, latitude, longitude, ayanamsa);
+    const positions = this.swissEphemerisService.getSiderealPositions(at, ayanamsa);
+    const moon = positions.find((p) => p.name === 'Moon');
+
+    // Weekday of the last sunrise in local mean time; fall back to the civil day near the poles
+    const sunrise = this.ephemerisService.findRiseSet('Sun', 'rise', at, latitude, longitude, -1) || at;
+    const weekday = new Date(sunrise.getTime() + (longitude / 15) * 60 * 60 * 1000).getUTCDay();
+    const dayLord = VARA_LORDS[weekday];
+
+    const lagna = { longitude: lagnaLongitude, sign: ZODIAC_SIGNS[Math.floor(lagnaLongitude / 30)], ...this.getLords(lagnaLongitude) };
+    const moonLords = { longitude: moon.longitude, sign: moon.sign, ...this.getLords(moon.longitude) };
+
+    const ruling = [lagna.star_lord, lagna.sign_lord, moonLords.star_lord, moonLords.sign_lord, dayLord];
+    const nodes = positions
+      .filter((p) => (p.name === 'Rahu' || p.name === 'Ketu') && ruling.includes(p.signLord))
+      .map((p) => p.name);
+
+    return {
+      at,
+      day_lord: dayLord,
+      lagna,
+      moon: moonLords,
+      planets: [...new Set([...ruling, ...nodes])],
+    };
+  }
+}
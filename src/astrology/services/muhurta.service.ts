@@ -0,0 +1,314 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService } from './ephemeris.service';
+import { SwissEphemerisService, NAKSHATRA_NAMES, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { TimezoneService } from './timezone.service';
+import { PanchangLimb, PanchangService, RAHU_KAAL_PART, VARA_LORDS, VARA_NAMES } from './panchang.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Muhurta Service
+ *
+ * Electional astrology: finds auspicious windows for an activity between two
+ * dates at a location. Each Hindu day is cut into windows wherever the lagna,
+ * tithi, nakshatra or karana changes (Rahu Kaal is skipped), and every window
+ * is scored on tithi, nakshatra, vara and lagna against the classical lists
+ * for the activity, plus Tarabala and Chandrabala against the natal Moon when
+ * it is known.
+ */
+
+export type MuhurtaActivity = 'marriage' | 'griha_pravesh' | 'vehicle_purchase' | 'business_start' | 'travel';
+
+interface MuhurtaActivityRule {
+  label: string;
+  tithis: number[]; // tithi within the paksha (1-15); Purnima is 15
+  nakshatras: string[];
+  varas: number[]; // weekday, Sunday = 0
+  lagnas: string[];
+  daytimeOnly: boolean;
+}
+
+export const MUHURTA_ACTIVITIES: Record<MuhurtaActivity, MuhurtaActivityRule> = {
+  marriage: {
+    label: 'Marriage (Vivaha)',
+    tithis: [2, 3, 5, 7, 10, 11, 12, 13, 15],
+    nakshatras: ['Rohini', 'Mrigashira', 'Magha', 'Uttara Phalguni', 'Hasta', 'Swati', 'Anuradha', 'Mula', 'Uttara Ashadha', 'Uttara Bhadrapada', 'Revati'],
+    varas: [1, 3, 4, 5],
+    lagnas: ['Taurus', 'Gemini', 'Virgo', 'Libra', 'Sagittarius', 'Pisces'],
+    daytimeOnly: false,
+  },
+  griha_pravesh: {
+    label: 'House warming (Griha Pravesh)',
+    tithis: [2, 3, 5, 7, 10, 11, 13],
+    nakshatras: ['Rohini', 'Mrigashira', 'Uttara Phalguni', 'Chitra', 'Anuradha', 'Uttara Ashadha', 'Dhanishta', 'Shatabhisha', 'Uttara Bhadrapada', 'Revati'],
+    varas: [1, 3, 4, 5],
+    lagnas: ['Taurus', 'Leo', 'Scorpio', 'Aquarius', 'Gemini', 'Virgo', 'Sagittarius', 'Pisces'],
+    daytimeOnly: false,
+  },
+  vehicle_purchase: {
+    label: 'Vehicle purchase',
+    tithis: [1, 2, 3, 5, 6, 7, 10, 11, 13, 15],
+    nakshatras: ['Ashwini', 'Rohini', 'Mrigashira', 'Punarvasu', 'Pushya', 'Hasta', 'Chitra', 'Swati', 'Anuradha', 'Shravana', 'Dhanishta', 'Revati'],
+    varas: [1, 3, 4, 5],
+    lagnas: ['Taurus', 'Gemini', 'Cancer', 'Virgo', 'Libra', 'Sagittarius', 'Pisces'],
+    daytimeOnly: true,
+  },
+  business_start: {
+    label: 'Business start',
+    tithis: [2, 3, 5, 7, 10, 11, 13, 15],
+    nakshatras: ['Ashwini', 'Rohini', 'Punarvasu', 'Pushya', 'Uttara Phalguni', 'Hasta', 'Chitra', 'Anuradha', 'Uttara Ashadha', 'Shravana', 'Uttara Bhadrapada', 'Revati'],
+    varas: [1, 3, 4, 5],
+    lagnas: ['Taurus', 'Gemini', 'Leo', 'Virgo', 'Scorpio', 'Aquarius'],
+    daytimeOnly: true,
+  },
+  travel: {
+    label: 'Travel (Yatra)',
+    tithis: [2, 3, 5, 7, 10, 11, 13],
+    nakshatras: ['Ashwini', 'Mrigashira', 'Punarvasu', 'Pushya', 'Hasta', 'Anuradha', 'Shravana', 'Dhanishta', 'Revati'],
+    varas: [1, 3, 4, 5],
+    lagnas: ['Aries', 'Cancer', 'Libra', 'Capricorn', 'Gemini', 'Virgo', 'Sagittarius', 'Pisces'],
+    daytimeOnly: false,
+  },
+};
+
+const TARA_NAMES = ['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyari', 'Sadhaka', 'Vadha', 'Mitra', 'Parama Mitra'];
+const GOOD_TARAS = [2, 4, 6, 8, 9];
+const BAD_TARAS = [3, 5, 7];
+const GOOD_CHANDRABALA_HOUSES = [1, 3, 6, 7, 10, 11];
+const BAD_CHANDRABALA_HOUSES = [4, 8, 12];
+const RIKTA_TITHIS = [4, 9, 14];
+
+const WEIGHTS = { tithi: 15, nakshatra: 20, vara: 10, lagna: 15, tarabala: 15, chandrabala: 15 };
+const PENALTIES = { riktaTithi: 15, amavasya: 25, vishti: 20, tarabala: 15, chandrabala: 15 };
+const MIN_WINDOW_MS = 15 * 60 * 1000;
+
+export interface MuhurtaSearchInput {
+  activity: MuhurtaActivity;
+  startDate: string; // YYYY-MM-DD, local
+  endDate: string; // YYYY-MM-DD, local, inclusive
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  natalMoonLongitude?: number | null; // sidereal; enables Tarabala and Chandrabala
+  limit?: number;
+  ayanamsa?: AyanamsaKey;
+}
+
+export interface MuhurtaWindow {
+  start: Date;
+  end: Date;
+  score: number;
+  max_score: number;
+  quality: 'excellent' | 'good' | 'average';
+  vara: string;
+  vara_lord: string;
+  tithi: string;
+  nakshatra: string;
+  karana: string;
+  lagna: string;
+  tarabala: { tara: number; name: string; favourable: boolean } | null;
+  chandrabala: { house: number; favourable: boolean } | null;
+  reasons: string[];
+}
+
+@Injectable()
+export class MuhurtaService {
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly timezoneService: TimezoneService,
+    private readonly panchangService: PanchangService,
+  ) {}
+
+  /**
+   * Ranked auspicious windows for an activity, best first
+   */
+  search(input: MuhurtaSearchInput): MuhurtaWindow[] {
+    const rule = MUHURTA_ACTIVITIES[input.activity];
+    const ayanamsa = input.ayanamsa || DEFAULT_AYANAMSA;
+    const hasNatalMoon = input.natalMoonLongitude !== null && input.natalMoonLongitude !== undefined;
+    const maxScore =
+      WEIGHTS.tithi + WEIGHTS.nakshatra + WEIGHTS.vara + WEIGHTS.lagna +
+      (hasNatalMoon ? WEIGHTS.tarabala + WEIGHTS.chandrabala : 0);
+
+    const windows: MuhurtaWindow[] = [];
+    for (const date of this.eachDate(input.startDate, input.endDate)) {
+      const midnight = this.timezoneService.toUniversalTime(date, '00:00:00', input.timezone).utc;
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+      for (const segment of this.getDaySegments(midnight, weekday, input, rule.daytimeOnly, ayanamsa)) {
+        const window = this.scoreWindow(segment.start, segment.end, weekday, rule, input, ayanamsa, maxScore);
+        if (window.score > 0) {
+          windows.push(window);
+        }
+      }
+    }
+
+    return windows
+      .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+      .slice(0, input.limit || 10);
+  }
+
+  /**
+   * Tarabala: the tara (1-9) of a transit nakshatra counted from the natal one
+   */
+  getTara(natalNakshatra: number, transitNakshatra: number): number {
+    return (((transitNakshatra - natalNakshatra + 27) % 27) % 9) + 1;
+  }
+
+  /**
+   * Windows of the Hindu day starting at the first sunrise after `from`,
+   * bounded by lagna and panchang changes, with Rahu Kaal removed
+   */
+  private getDaySegments(
+    from: Date,
+    weekday: number,
+    input: MuhurtaSearchInput,
+    daytimeOnly: boolean,
+    ayanamsa: AyanamsaKey,
+  ): Array<{ start: Date; end: Date }> {
+    const sunrise = this.ephemerisService.findRiseSet('Sun', 'rise', from, input.latitude, input.longitude, 1);
+    const sunset = sunrise && this.ephemerisService.findRiseSet('Sun', 'set', sunrise, input.latitude, input.longitude, 1);
+    const nextSunrise = sunset && this.ephemerisService.findRiseSet('Sun', 'rise', sunset, input.latitude, input.longitude, 2);
+    if (!sunrise || !sunset || !nextSunrise) {
+      return [];
+    }
+
+    const dayStart = sunrise.getTime();
+    const dayEnd = (daytimeOnly ? sunset : nextSunrise).getTime();
+    const dayPart = (sunset.getTime() - dayStart) / 8;
+    const rahuStart = dayStart + (RAHU_KAAL_PART[weekday] - 1) * dayPart;
+    const rahuEnd = rahuStart + dayPart;
+
+    const boundaries = new Set<number>([dayStart, dayEnd, rahuStart, rahuEnd]);
+    for (const time of this.findLagnaChanges(dayStart, dayEnd, input.latitude, input.longitude, ayanamsa)) {
+      boundaries.add(time);
+    }
+    for (const limb of ['tithi', 'nakshatra', 'karana'] as PanchangLimb[]) {
+      let cursor = new Date(dayStart);
+      while (cursor.getTime() < dayEnd) {
+        cursor = this.panchangService.findLimbEnd(limb, cursor, ayanamsa);
+        boundaries.add(cursor.getTime());
+      }
+    }
+
+    const times = [...boundaries].filter((t) => t >= dayStart && t <= dayEnd).sort((a, b) => a - b);
+    const segments: Array<{ start: Date; end: Date }> = [];
+    for (let i = 0; i < times.length - 1; i++) {
+      const [start, end] = [times[i], times[i + 1]];
+      const inRahuKaal = start >= rahuStart && end <= rahuEnd;
+      if (end - start >= MIN_WINDOW_MS && !inRahuKaal) {
+        segments.push({ start: new Date(start), end: new Date(end) });
+      }
+    }
+    return segments;
+  }
+
+  private scoreWindow(
+    start: Date,
+    end: Date,
+    weekday: number,
+    rule: MuhurtaActivityRule,
+    input: MuhurtaSearchInput,
+    ayanamsa: AyanamsaKey,
+    maxScore: number,
+  ): MuhurtaWindow {
+    const at = new Date((start.getTime() + end.getTime()) / 2);
+    const tithiIndex = this.panchangService.getLimbIndex('tithi', at, ayanamsa);
+    const nakshatraIndex = this.panchangService.getLimbIndex('nakshatra', at, ayanamsa);
+    const karanaIndex = this.panchangService.getLimbIndex('karana', at, ayanamsa);
+    const tithi = this.panchangService.getLimbName('tithi', tithiIndex);
+    const nakshatra = NAKSHATRA_NAMES[nakshatraIndex];
+    const karana = this.panchangService.getLimbName('karana', karanaIndex);
+    const lagna = ZODIAC_SIGNS[Math.floor(this.swissEphemerisService.getLagnaLongitude(at, input.latitude, input.longitude, ayanamsa) / 30)];
+    const pakshaTithi = (tithiIndex % 15) + 1;
+
+    let score = 0;
+    const reasons: string[] = [];
+    const award = (points: number, reason: string) => {
+      score += points;
+      reasons.push(reason);
+    };
+
+    if (tithiIndex === 29) award(-PENALTIES.amavasya, 'Amavasya is avoided for auspicious beginnings');
+    else if (RIKTA_TITHIS.includes(pakshaTithi)) award(-PENALTIES.riktaTithi, `${tithi} is a Rikta (empty) tithi`);
+    else if (rule.tithis.includes(pakshaTithi)) award(WEIGHTS.tithi, `${tithi} is a favourable tithi for ${rule.label}`);
+
+    if (rule.nakshatras.includes(nakshatra)) award(WEIGHTS.nakshatra, `${nakshatra} nakshatra is recommended`);
+    if (rule.varas.includes(weekday)) award(WEIGHTS.vara, `${VARA_NAMES[weekday]} (${VARA_LORDS[weekday]}) is a favourable weekday`);
+    if (rule.lagnas.includes(lagna)) award(WEIGHTS.lagna, `${lagna} lagna is rising`);
+    if (karana === 'Vishti') award(-PENALTIES.vishti, 'Vishti (Bhadra) karana is inauspicious');
+
+    let tarabala: MuhurtaWindow['tarabala'] = null;
+    let chandrabala: MuhurtaWindow['chandrabala'] = null;
+    if (input.natalMoonLongitude !== null && input.natalMoonLongitude !== undefined) {
+      const natalMoon = ((input.natalMoonLongitude % 360) + 360) % 360;
+      const tara = this.getTara(Math.floor(natalMoon / (360 / 27)), nakshatraIndex);
+      tarabala = { tara, name: TARA_NAMES[tara - 1], favourable: GOOD_TARAS.includes(tara) };
+      if (GOOD_TARAS.includes(tara)) award(WEIGHTS.tarabala, `Tarabala is strong (${TARA_NAMES[tara - 1]} tara)`);
+      else if (BAD_TARAS.includes(tara)) award(-PENALTIES.tarabala, `Tarabala is weak (${TARA_NAMES[tara - 1]} tara)`);
+
+      const transitMoonSign = ZODIAC_SIGNS.indexOf(this.getMoonSign(at, ayanamsa));
+      const house = ((transitMoonSign - Math.floor(natalMoon / 30) + 12) % 12) + 1;
+      chandrabala = { house, favourable: GOOD_CHANDRABALA_HOUSES.includes(house) };
+      if (GOOD_CHANDRABALA_HOUSES.includes(house)) award(WEIGHTS.chandrabala, `Chandrabala: the Moon transits house ${house} from the natal Moon`);
+      else if (BAD_CHANDRABALA_HOUSES.includes(house)) award(-PENALTIES.chandrabala, `No Chandrabala: the Moon transits house ${house} from the natal Moon`);
+    }
+
+    const ratio = score / maxScore;
+    return {
+      start,
+      end,
+      score,
+      max_score: maxScore,
+      quality: ratio >= 0.75 ? 'excellent' : ratio >= 0.5 ? 'good' : 'average',
+      vara: VARA_NAMES[weekday],
+      vara_lord: VARA_LORDS[weekday],
+      tithi,
+      nakshatra,
+      karana,
+      lagna,
+      tarabala,
+      chandrabala,
+      reasons,
+    };
+  }
+
+  /**
+   * Instants the sidereal lagna changes sign between two UT times
+   */
+  private findLagnaChanges(from: number, to: number, latitude: number, longitude: number, ayanamsa: AyanamsaKey): number[] {
+    const stepMs = 10 * 60 * 1000;
+    const signAt = (time: number) =>
+      Math.floor(this.swissEphemerisService.getLagnaLongitude(new Date(time), latitude, longitude, ayanamsa) / 30);
+
+    const changes: number[] = [];
+    let previous = signAt(from);
+    for (let time = from + stepMs; time < to + stepMs; time += stepMs) {
+      const current = signAt(Math.min(time, to));
+      if (current !== previous) {
+        let before = time - stepMs;
+        let after = Math.min(time, to);
+        while (after - before > 60 * 1000) {
+          const mid = (before + after) / 2;
+          if (signAt(mid) === previous) before = mid;
+          else after = mid;
+        }
+        changes.push(Math.round(after));
+        previous = current;
+      }
+    }
+    return changes;
+  }
+
+  private getMoonSign(date: Date, ayanamsa: AyanamsaKey): string {
+    const moon = this.ephemerisService.getPosition('Moon', date).longitude - this.swissEphemerisService.getAyanamsa(date, ayanamsa);
+    return ZODIAC_SIGNS[Math.floor((((moon % 360) + 360) % 360) / 30)];
+  }
+
+  private *eachDate(startDate: string, endDate: string): Generator<string> {
+    const end = Date.parse(`${endDate}T00:00:00Z`);
+    for (let time = Date.parse(`${startDate}T00:00:00Z`); time <= end; time += 24 * 60 * 60 * 1000) {
+      yield new Date(time).toISOString().split('T')[0];
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { EphemerisService } from './ephemeris.service';
+import { AyanamsaService } from './ayanamsa.service';
+import { SwissEphemerisService } from './swiss-ephemeris.service';
+import { PanchangService } from './panchang.service';
+
+/**
+ * Panchang known answers for New Delhi, 7-13 April 2024. Sunrise and sunset
+ * are from the Swiss Ephemeris 2.10 swe_rise_trans (upper limb, standard
+ * refraction); Rahu Kaal is the classical eighth of that daytime (Monday 2nd,
+ * Saturday 3rd, Friday 4th, Wednesday 5th, Thursday 6th, Tuesday 7th,
+ * Sunday 8th).
+ */
+
+const DELHI = { latitude: 28.6139, longitude: 77.209 };
+
+// Maximum deviation accepted from the reference times
+const TOLERANCE_MS = 60 * 1000;
+
+const WEEK: Array<[string, number, string, string, string, string]> = [
+  // civil date, weekday, sunrise, sunset, Rahu Kaal start and end (UT)
+  ['2024-04-07', 0, '00:34:15', '13:12:36', '11:37:47', '13:12:35'],
+  ['2024-04-08', 1, '00:33:08', '13:13:09', '02:08:08', '03:43:08'],
+  ['2024-04-09', 2, '00:32:02', '13:13:43', '10:03:17', '11:38:30'],
+  ['2024-04-10', 3, '00:30:56', '13:14:17', '06:52:36', '08:28:01'],
+  ['2024-04-11', 4, '00:29:51', '13:14:51', '08:27:58', '10:03:35'],
+  ['2024-04-12', 5, '00:28:46', '13:15:25', '05:16:15', '06:52:05'],
+  ['2024-04-13', 6, '00:27:41', '13:15:59', '03:39:45', '05:15:47'],
+];
+
+// First day and night Choghadiya, Sunday first
+const FIRST_DAY_CHOGHADIYA = ['Udveg', 'Amrit', 'Rog', 'Labh', 'Shubh', 'Char', 'Kaal'];
+const FIRST_NIGHT_CHOGHADIYA = ['Shubh', 'Char', 'Kaal', 'Udveg', 'Amrit', 'Rog', 'Labh'];
+
+// Local midnight (IST) that begins a civil date, as a UT instant
+const localMidnight = (date: string) => new Date(new Date(`${date}T00:00:00Z`).getTime() - 5.5 * 3600 * 1000);
+const at = (date: string, time: string) => new Date(`${date}T${time}Z`).getTime();
+
+describe('PanchangService', () => {
+  const ephemerisService = new EphemerisService();
+  const service = new PanchangService(
+    ephemerisService,
+    new SwissEphemerisService(ephemerisService, new AyanamsaService()),
+  );
+
+  describe.each(WEEK)('%s', (date, weekday, sunrise, sunset, rahuStart, rahuEnd) => {
+    const panchang = service.getPanchang(localMidnight(date), DELHI.latitude, DELHI.longitude, weekday);
+
+    it('rises and sets with the Swiss Ephemeris', () => {
+      expect(Math.abs(panchang.sunrise.getTime() - at(date, sunrise))).toBeLessThan(TOLERANCE_MS);
+      expect(Math.abs(panchang.sunset.getTime() - at(date, sunset))).toBeLessThan(TOLERANCE_MS);
+    });
+
+    it('places Rahu Kaal in its eighth of the day', () => {
+      expect(Math.abs(panchang.rahu_kaal.start.getTime() - at(date, rahuStart))).toBeLessThan(TOLERANCE_MS);
+      expect(Math.abs(panchang.rahu_kaal.end.getTime() - at(date, rahuEnd))).toBeLessThan(TOLERANCE_MS);
+    });
+
+    it('starts the day and night Choghadiya from the weekday', () => {
+      const day = panchang.choghadiya.filter((slot) => slot.period === 'day');
+      const night = panchang.choghadiya.filter((slot) => slot.period === 'night');
+
+      expect(day).toHaveLength(8);
+      expect(night).toHaveLength(8);
+      expect(day[0].name).toBe(FIRST_DAY_CHOGHADIYA[weekday]);
+      expect(night[0].name).toBe(FIRST_NIGHT_CHOGHADIYA[weekday]);
+      // The eighth slot repeats the first
+      expect(day[7].name).toBe(day[0].name);
+      expect(day[0].start).toEqual(panchang.sunrise);
+      expect(night[0].start).toEqual(panchang.sunset);
+      expect(night[7].end).toEqual(panchang.next_sunrise);
+      panchang.choghadiya.slice(1).forEach((slot, i) => {
+        expect(slot.start).toEqual(panchang.choghadiya[i].end);
+      });
+    });
+  });
+
+  it('ends Amavasya at the new moon of 8 April 2024', () => {
+    const panchang = service.getPanchang(localMidnight('2024-04-08'), DELHI.latitude, DELHI.longitude, 1);
+
+    expect(panchang.vara).toEqual({ index: 2, name: 'Somavara', lord: 'Moon' });
+    expect(panchang.paksha).toBe('Krishna');
+    expect(panchang.tithi[0]).toMatchObject({ index: 30, name: 'Amavasya', start: null });
+    // New moon at 18:21 UT
+    expect(Math.abs(panchang.tithi[0].end.getTime() - at('2024-04-08', '18:21:00'))).toBeLessThan(2 * TOLERANCE_MS);
+    expect(panchang.tithi[1]).toMatchObject({ index: 1, name: 'Shukla Prathama' });
+    expect(panchang.abhijit_muhurta.applicable).toBe(true);
+  });
+});
@@ -0,0 +1,274 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService } from './ephemeris.service';
+import {
+  KARANA_NAMES,
+  NAKSHATRA_NAMES,
+  SwissEphemerisService,
+  TITHI_NAMES,
+  YOGA_NAMES,
+  ZODIAC_SIGNS,
+} from './swiss-ephemeris.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Panchang Service
+ *
+ * The five limbs of the Hindu day (vara, tithi, nakshatra, yoga, karana)
+ * for a location, from sunrise to the next sunrise, with the end time of
+ * every limb that changes during the day. Also the day divisions used for
+ * muhurta: Rahu Kaal, Yamaganda, Gulika Kaal, Abhijit, Brahma Muhurta and
+ * the day and night Choghadiya.
+ */
+
+export const VARA_NAMES = ['Ravivara', 'Somavara', 'Mangalavara', 'Budhavara', 'Guruvara', 'Shukravara', 'Shanivara'];
+export const VARA_LORDS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+// Eighth part of daytime (1-8) for each weekday, Sunday first
+export const RAHU_KAAL_PART = [8, 2, 7, 5, 6, 4, 3];
+const YAMAGANDA_PART = [5, 4, 3, 2, 1, 7, 6];
+const GULIKA_PART = [7, 6, 5, 4, 3, 2, 1];
+
+// Choghadiya cycles and the first slot of the day and night for each weekday
+const DAY_CHOGHADIYA = ['Udveg', 'Char', 'Labh', 'Amrit', 'Kaal', 'Shubh', 'Rog'];
+const NIGHT_CHOGHADIYA = ['Shubh', 'Amrit', 'Char', 'Rog', 'Kaal', 'Labh', 'Udveg'];
+const DAY_CHOGHADIYA_START = [0, 3, 6, 2, 5, 1, 4];
+const NIGHT_CHOGHADIYA_START = [0, 2, 4, 6, 1, 3, 5];
+const CHOGHADIYA_NATURE: Record<string, 'good' | 'neutral' | 'bad'> = {
+  Amrit: 'good',
+  Shubh: 'good',
+  Labh: 'good',
+  Char: 'neutral',
+  Udveg: 'bad',
+  Kaal: 'bad',
+  Rog: 'bad',
+};
+
+const TITHI_SPAN = 12;
+const KARANA_SPAN = 6;
+const NAKSHATRA_SPAN = 360 / 27;
+
+export type PanchangLimb = 'tithi' | 'nakshatra' | 'yoga' | 'karana';
+
+export interface PanchangElement {
+  index: number; // 1-based within its cycle
+  name: string;
+  start: Date | null; // null when it was already running at sunrise
+  end: Date;
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface ChoghadiyaSlot extends TimeWindow {
+  name: string;
+  nature: 'good' | 'neutral' | 'bad';
+  period: 'day' | 'night';
+}
+
+export interface PanchangResult {
+  sunrise: Date;
+  sunset: Date;
+  next_sunrise: Date;
+  moonrise: Date | null;
+  moonset: Date | null;
+  vara: { index: number; name: string; lord: string };
+  paksha: 'Shukla' | 'Krishna';
+  tithi: PanchangElement[];
+  nakshatra: PanchangElement[];
+  yoga: PanchangElement[];
+  karana: PanchangElement[];
+  sun_sign: string;
+  moon_sign: string;
+  ayanamsa: number;
+  rahu_kaal: TimeWindow;
+  yamaganda: TimeWindow;
+  gulika_kaal: TimeWindow;
+  abhijit_muhurta: TimeWindow & { applicable: boolean }; // not observed on Wednesdays
+  brahma_muhurta: TimeWindow;
+  choghadiya: ChoghadiyaSlot[];
+}
+
+@Injectable()
+export class PanchangService {
+  private readonly hourMs = 60 * 60 * 1000;
+
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+  ) {}
+
+  /**
+   * Panchang of the Hindu day that starts with the first sunrise after a UT
+   * instant (pass local midnight of the civil date) at a location
+   */
+  getPanchang(
+    from: Date,
+    latitude: number,
+    longitude: number,
+    weekday: number,
+    ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA,
+  ): PanchangResult {
+    const sunrise = this.ephemerisService.findRiseSet('Sun', 'rise', from, latitude, longitude, 1);
+    if (!sunrise) {
+      throw new Error('The Sun does not rise on this date at this latitude');
+    }
+    const sunset = this.ephemerisService.findRiseSet('Sun', 'set', sunrise, latitude, longitude, 1);
+    const nextSunrise = this.ephemerisService.findRiseSet('Sun', 'rise', sunset, latitude, longitude, 2);
+    const previousSunset = this.ephemerisService.findRiseSet('Sun', 'set', sunrise, latitude, longitude, -1);
+    if (!sunset || !nextSunrise || !previousSunset) {
+      throw new Error('The Sun does not set on this date at this latitude');
+    }
+
+    const dayEnd = new Date(from.getTime() + 24 * this.hourMs);
+    const moonrise = this.ephemerisService.findRiseSet('Moon', 'rise', from, latitude, longitude, 1);
+    const moonset = this.ephemerisService.findRiseSet('Moon', 'set', from, latitude, longitude, 1);
+
+    const { sun, moon } = this.getSiderealLuminaries(sunrise, ayanamsa);
+    const elongation = this.normalize(moon - sun);
+
+    const dayPart = (sunset.getTime() - sunrise.getTime()) / 8;
+    const part = (n: number): TimeWindow => ({
+      start: new Date(sunrise.getTime() + (n - 1) * dayPart),
+      end: new Date(sunrise.getTime() + n * dayPart),
+    });
+    const dayMuhurta = (sunset.getTime() - sunrise.getTime()) / 15;
+    const nightMuhurta = (sunrise.getTime() - previousSunset.getTime()) / 15;
+
+    return {
+      sunrise,
+      sunset,
+      next_sunrise: nextSunrise,
+      moonrise: moonrise && moonrise < dayEnd ? moonrise : null,
+      moonset: moonset && moonset < dayEnd ? moonset : null,
+      vara: { index: weekday + 1, name: VARA_NAMES[weekday], lord: VARA_LORDS[weekday] },
+      paksha: elongation < 180 ? 'Shukla' : 'Krishna',
+      tithi: this.getElements('tithi', sunrise, nextSunrise, ayanamsa),
+      nakshatra: this.getElements('nakshatra', sunrise, nextSunrise, ayanamsa),
+      yoga: this.getElements('yoga', sunrise, nextSunrise, ayanamsa),
+      karana: this.getElements('karana', sunrise, nextSunrise, ayanamsa),
+      sun_sign: ZODIAC_SIGNS[Math.floor(sun / 30)],
+      moon_sign: ZODIAC_SIGNS[Math.floor(moon / 30)],
+      ayanamsa: this.swissEphemerisService.getAyanamsa(sunrise, ayanamsa),
+      rahu_kaal: part(RAHU_KAAL_PART[weekday]),
+      yamaganda: part(YAMAGANDA_PART[weekday]),
+      gulika_kaal: part(GULIKA_PART[weekday]),
+      abhijit_muhurta: {
+        start: new Date(sunrise.getTime() + 7 * dayMuhurta),
+        end: new Date(sunrise.getTime() + 8 * dayMuhurta),
+        applicable: weekday !== 3,
+      },
+      brahma_muhurta: {
+        start: new Date(sunrise.getTime() - 2 * nightMuhurta),
+        end: new Date(sunrise.getTime() - nightMuhurta),
+      },
+      choghadiya: this.getChoghadiya(sunrise, sunset, nextSunrise, weekday),
+    };
+  }
+
+  /**
+   * Value of a panchang limb (0-based index within its cycle) at a UT instant
+   */
+  getLimbIndex(limb: PanchangLimb, date: Date, ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA): number {
+    return Math.floor(this.getLimbPosition(limb, date, ayanamsa));
+  }
+
+  /**
+   * Name of a panchang limb from its 0-based index
+   */
+  getLimbName(limb: PanchangLimb, index: number): string {
+    const names = { tithi: TITHI_NAMES, nakshatra: NAKSHATRA_NAMES, yoga: YOGA_NAMES, karana: KARANA_NAMES }[limb];
+    return names[index];
+  }
+
+  /**
+   * Instant a limb next changes after a UT instant (within a minute)
+   */
+  findLimbEnd(limb: PanchangLimb, from: Date, ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA): Date {
+    const index = this.getLimbIndex(limb, from, ayanamsa);
+    const stepMs = limb === 'karana' ? this.hourMs : 2 * this.hourMs;
+
+    let before = from.getTime();
+    let after = before + stepMs;
+    while (this.getLimbIndex(limb, new Date(after), ayanamsa) === index) {
+      before = after;
+      after += stepMs;
+    }
+
+    while (after - before > 60 * 1000) {
+      const mid = (before + after) / 2;
+      if (this.getLimbIndex(limb, new Date(mid), ayanamsa) === index) before = mid;
+      else after = mid;
+    }
+    return new Date(Math.round(after));
+  }
+
+  /**
+   * Limbs in effect from sunrise to the next sunrise with their end times
+   */
+  private getElements(limb: PanchangLimb, sunrise: Date, nextSunrise: Date, ayanamsa: AyanamsaKey): PanchangElement[] {
+    const elements: PanchangElement[] = [];
+    let start: Date | null = null;
+    let cursor = sunrise;
+
+    while (cursor < nextSunrise) {
+      const index = this.getLimbIndex(limb, cursor, ayanamsa);
+      const end = this.findLimbEnd(limb, cursor, ayanamsa);
+      elements.push({ index: index + 1, name: this.getLimbName(limb, index), start, end });
+      start = end;
+      cursor = end;
+    }
+    return elements;
+  }
+
+  private getChoghadiya(sunrise: Date, sunset: Date, nextSunrise: Date, weekday: number): ChoghadiyaSlot[] {
+    const slots: ChoghadiyaSlot[] = [];
+    const addSlots = (from: Date, to: Date, cycle: string[], first: number, period: 'day' | 'night') => {
+      const length = (to.getTime() - from.getTime()) / 8;
+      for (let i = 0; i < 8; i++) {
+        const name = cycle[(first + i) % 7];
+        slots.push({
+          name,
+          nature: CHOGHADIYA_NATURE[name],
+          period,
+          start: new Date(from.getTime() + i * length),
+          end: new Date(from.getTime() + (i + 1) * length),
+        });
+      }
+    };
+
+    addSlots(sunrise, sunset, DAY_CHOGHADIYA, DAY_CHOGHADIYA_START[weekday], 'day');
+    addSlots(sunset, nextSunrise, NIGHT_CHOGHADIYA, NIGHT_CHOGHADIYA_START[weekday], 'night');
+    return slots;
+  }
+
+  /**
+   * Continuous position of a limb in units of its span (e.g. 4.5 = halfway through the 5th tithi)
+   */
+  private getLimbPosition(limb: PanchangLimb, date: Date, ayanamsa: AyanamsaKey): number {
+    const { sun, moon } = this.getSiderealLuminaries(date, ayanamsa);
+    switch (limb) {
+      case 'tithi':
+        return this.normalize(moon - sun) / TITHI_SPAN;
+      case 'karana':
+        return this.normalize(moon - sun) / KARANA_SPAN;
+      case 'nakshatra':
+        return moon / NAKSHATRA_SPAN;
+      default:
+        return this.normalize(sun + moon) / NAKSHATRA_SPAN;
+    }
+  }
+
+  private getSiderealLuminaries(date: Date, ayanamsa: AyanamsaKey): { sun: number; moon: number } {
+    const offset = this.swissEphemerisService.getAyanamsa(date, ayanamsa);
+    return {
+      sun: this.normalize(this.ephemerisService.getPosition('Sun', date).longitude - offset),
+      moon: this.normalize(this.ephemerisService.getPosition('Moon', date).longitude - offset),
+    };
+  }
+
+  private normalize(degrees: number): number {
+    return ((degrees % 360) + 360) % 360;
+  }
+}
@@ -0,0 +1,310 @@
+import { Injectable } from '@nestjs/common';
+import { NodeType } from './ephemeris.service';
+import { NAKSHATRA_NAMES, PlanetaryPosition, SIGN_LORDS, SwissEphemerisService, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { DignityService } from './dignity.service';
+import { VargaDivision, VargaService } from './varga.service';
+import { DashaLevel, VimshottariDashaService } from './vimshottari-dasha.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Rectification Service
+ *
+ * Scores candidate birth times against dated life events. For every
+ * candidate the lagna, divisional lagna and Vimshottari dasha (the Moon moves
+ * about half a degree an hour, shifting dasha dates by months) are recast,
+ * and each event is judged by:
+ * - Dasha: how strongly the mahadasha, antardasha and pratyantar lords
+ *   running on the event date signify the event's houses (lordship,
+ *   occupation, aspect; nodes act for their dispositor; natural karakas)
+ * - Varga: whether those lords rule or occupy the relevant house of the
+ *   event's divisional chart (D9 marriage, D7 children, D10 career, ...).
+ *   Divisional lagnas change every few minutes, which gives the fine tuning.
+ * - Transit: double transit of Jupiter and Saturn over the event's primary
+ *   house or its lord, counted from the candidate lagna
+ */
+
+export const LIFE_EVENT_TYPES = [
+  'marriage',
+  'divorce',
+  'child_birth',
+  'education',
+  'job_start',
+  'job_change',
+  'promotion',
+  'business_start',
+  'property',
+  'relocation',
+  'accident',
+  'illness',
+  'surgery',
+  'bereavement',
+] as const;
+export type LifeEventType = (typeof LIFE_EVENT_TYPES)[number];
+
+interface EventSignature {
+  houses: number[]; // primary house first
+  karakas: string[];
+  varga?: { division: VargaDivision; house: number };
+}
+
+const EVENT_SIGNATURES: Record<LifeEventType, EventSignature> = {
+  marriage: { houses: [7, 2, 11], karakas: ['Venus', 'Jupiter'], varga: { division: 9, house: 7 } },
+  divorce: { houses: [7, 6, 12, 8], karakas: ['Venus', 'Mars', 'Rahu'], varga: { division: 9, house: 7 } },
+  child_birth: { houses: [5, 2, 11], karakas: ['Jupiter'], varga: { division: 7, house: 5 } },
+  education: { houses: [4, 5, 9], karakas: ['Mercury', 'Jupiter'], varga: { division: 24, house: 4 } },
+  job_start: { houses: [10, 6, 2, 11], karakas: ['Saturn', 'Sun', 'Mercury'], varga: { division: 10, house: 10 } },
+  job_change: { houses: [10, 3, 12, 6], karakas: ['Saturn', 'Rahu'], varga: { division: 10, house: 10 } },
+  promotion: { houses: [10, 11, 2], karakas: ['Sun', 'Jupiter'], varga: { division: 10, house: 10 } },
+  business_start: { houses: [7, 10, 11, 3], karakas: ['Mercury'], varga: { division: 10, house: 7 } },
+  property: { houses: [4, 11, 2], karakas: ['Mars', 'Venus'], varga: { division: 4, house: 4 } },
+  relocation: { houses: [4, 12, 3, 9], karakas: ['Moon', 'Rahu'], varga: { division: 4, house: 4 } },
+  accident: { houses: [8, 6, 12], karakas: ['Mars', 'Saturn', 'Rahu'] },
+  illness: { houses: [6, 8, 12], karakas: ['Saturn', 'Sun'], varga: { division: 30, house: 6 } },
+  surgery: { houses: [8, 6], karakas: ['Mars', 'Ketu'] },
+  bereavement: { houses: [8, 12, 2, 7], karakas: ['Saturn'], varga: { division: 12, house: 1 } },
+};
+
+// Weight of each running dasha level in an event's dasha score
+const DASHA_WEIGHTS: Partial<Record<DashaLevel, number>> = { mahadasha: 0.45, antardasha: 0.35, pratyantar: 0.2 };
+
+// Share of the event score for dasha, varga and transit (without a varga the dasha takes its share)
+const SCORE_WEIGHTS = { dasha: 0.5, varga: 0.25, transit: 0.25 };
+
+const NAKSHATRA_SPAN = 360 / 27;
+
+export interface RectificationEvent {
+  type: LifeEventType;
+  date: Date; // UT
+}
+
+export interface RectificationInput {
+  candidates: Date[]; // UT instants, in time order
+  latitude: number;
+  longitude: number;
+  ayanamsa?: AyanamsaKey; // Default: Lahiri
+  nodeType?: NodeType; // Default: mean node
+  events: RectificationEvent[];
+}
+
+export interface RectificationEventMatch {
+  type: LifeEventType;
+  date: Date;
+  dasha: string[]; // mahadasha, antardasha, pratyantar lords
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export interface RectificationCandidate {
+  time: Date;
+  score: number; // 0-100
+  lagna: { sign: string; degrees: number };
+  navamsa_lagna: string;
+  moon_nakshatra: string;
+  events: RectificationEventMatch[];
+}
+
+export interface RectificationSegment {
+  from: Date; // first candidate of the run
+  to: Date; // last candidate of the run
+  lagna: string;
+  navamsa_lagna: string;
+}
+
+export interface RectificationResult {
+  candidates: RectificationCandidate[]; // best first
+  segments: RectificationSegment[]; // runs of candidates with the same lagna and navamsa lagna
+}
+
+interface Signification {
+  value: number;
+  reason: string | null;
+}
+
+@Injectable()
+export class RectificationService {
+  constructor(
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly dignityService: DignityService,
+    private readonly vargaService: VargaService,
+    private readonly vimshottariDashaService: VimshottariDashaService,
+  ) {}
+
+  /**
+   * Score every candidate time and rank them
+   */
+  scan(input: RectificationInput): RectificationResult {
+    const ayanamsa = input.ayanamsa || DEFAULT_AYANAMSA;
+    const nodeType = input.nodeType || 'mean';
+
+    // Transits on event dates do not depend on the birth time
+    const transits = input.events.map((event) => {
+      const positions = this.swissEphemerisService.getSiderealPositions(event.date, ayanamsa, nodeType);
+      const longitudeOf = (name: string) => positions.find((p) => p.name === name).longitude;
+      return { Jupiter: longitudeOf('Jupiter'), Saturn: longitudeOf('Saturn') };
+    });
+
+    const candidates = input.candidates.map((time) => {
+      const lagnaLongitude = this.swissEphemerisService.getLagnaLongitude(time, input.latitude, input.longitude, ayanamsa);
+      const planets = this.swissEphemerisService.getSiderealPositions(time, ayanamsa, nodeType);
+      const moon = planets.find((p) => p.name === 'Moon');
+
+      const events = input.events.map((event, i) =>
+        this.scoreEvent(event, time, lagnaLongitude, planets, moon.longitude, transits[i]),
+      );
+      const score = events.reduce((sum, e) => sum + e.score, 0) / Math.max(events.length, 1);
+
+      return {
+        time,
+        score: Math.round(score * 1000) / 10,
+        lagna: { sign: ZODIAC_SIGNS[Math.floor(lagnaLongitude / 30)], degrees: lagnaLongitude % 30 },
+        navamsa_lagna: this.vargaService.getVargaPosition(lagnaLongitude, 9).sign,
+        moon_nakshatra: NAKSHATRA_NAMES[Math.min(Math.floor(moon.longitude / NAKSHATRA_SPAN), 26)],
+        events,
+      };
+    });
+
+    const segments: RectificationSegment[] = [];
+    for (const candidate of candidates) {
+      const last = segments[segments.length - 1];
+      if (last && last.lagna === candidate.lagna.sign && last.navamsa_lagna === candidate.navamsa_lagna) {
+        last.to = candidate.time;
+      } else {
+        segments.push({
+          from: candidate.time,
+          to: candidate.time,
+          lagna: candidate.lagna.sign,
+          navamsa_lagna: candidate.navamsa_lagna,
+        });
+      }
+    }
+
+    return {
+      candidates: [...candidates].sort((a, b) => b.score - a.score || a.time.getTime() - b.time.getTime()),
+      segments,
+    };
+  }
+
+  private scoreEvent(
+    event: RectificationEvent,
+    birthTime: Date,
+    lagnaLongitude: number,
+    planets: PlanetaryPosition[],
+    moonLongitude: number,
+    transit: { Jupiter: number; Saturn: number },
+  ): RectificationEventMatch {
+    const signature = EVENT_SIGNATURES[event.type];
+    const lagnaSign = Math.floor(lagnaLongitude / 30);
+    const signOfHouse = (house: number) => (lagnaSign + house - 1) % 12;
+    const reasons: string[] = [];
+
+    // Dasha lords running on the event date
+    const chain = this.vimshottariDashaService.getActiveChain(birthTime, moonLongitude, event.date, 'pratyantar');
+    let dashaScore = 0;
+    let vargaScore = 0;
+    for (const period of chain) {
+      const weight = DASHA_WEIGHTS[period.level] || 0;
+      const signification = this.getSignification(period.lord, signature, planets, signOfHouse);
+      dashaScore += weight * signification.value;
+      if (signification.reason) {
+        reasons.push(`${period.lord} ${period.level}: ${signification.reason}`);
+      }
+
+      if (signature.varga && this.isVargaSignificator(period.lord, signature.varga, lagnaLongitude, planets)) {
+        vargaScore += weight;
+        reasons.push(`${period.lord} ${period.level}: rules or occupies house ${signature.varga.house} of D${signature.varga.division}`);
+      }
+    }
+
+    // Double transit over the primary house or its lord
+    const primarySign = signOfHouse(signature.houses[0]);
+    const primaryLord = SIGN_LORDS[ZODIAC_SIGNS[primarySign]];
+    const lordSign = Math.floor(planets.find((p) => p.name === primaryLord).longitude / 30);
+    const touches = (planet: 'Jupiter' | 'Saturn') =>
+      [primarySign, lordSign].some(
+        (sign) =>
+          Math.floor(transit[planet] / 30) === sign ||
+          this.dignityService.hasGrahaDrishti(planet, transit[planet], sign * 30 + 15),
+      );
+    const transiting = (['Jupiter', 'Saturn'] as const).filter(touches);
+    const transitScore = transiting.length / 2;
+    if (transiting.length > 0) {
+      reasons.push(`${transiting.join(' and ')} transit house ${signature.houses[0]} or its lord`);
+    }
+
+    const score = signature.varga
+      ? SCORE_WEIGHTS.dasha * dashaScore + SCORE_WEIGHTS.varga * vargaScore + SCORE_WEIGHTS.transit * transitScore
+      : (SCORE_WEIGHTS.dasha + SCORE_WEIGHTS.varga) * dashaScore + SCORE_WEIGHTS.transit * transitScore;
+
+    return {
+      type: event.type,
+      date: event.date,
+      dasha: chain.map((p) => p.lord),
+      score: Math.round(score * 1000) / 1000,
+      reasons,
+    };
+  }
+
+  /**
+   * How strongly a planet signifies the event houses: lordship or occupation
+   * of the primary house counts fully, of a supporting house 0.6, an aspect
+   * half of that. Karakas get a bonus.
+   */
+  private getSignification(
+    planet: string,
+    signature: EventSignature,
+    planets: PlanetaryPosition[],
+    signOfHouse: (house: number) => number,
+  ): Signification {
+    const position = planets.find((p) => p.name === planet);
+    const planetSign = Math.floor(position.longitude / 30);
+    let best: Signification = { value: 0, reason: null };
+
+    signature.houses.forEach((house, i) => {
+      const weight = i === 0 ? 1 : 0.6;
+      const sign = signOfHouse(house);
+      const link =
+        SIGN_LORDS[ZODIAC_SIGNS[sign]] === planet
+          ? { value: 1, reason: `lord of house ${house}` }
+          : planetSign === sign
+            ? { value: 1, reason: `occupies house ${house}` }
+            : this.dignityService.hasGrahaDrishti(planet, position.longitude, sign * 30 + 15)
+              ? { value: 0.5, reason: `aspects house ${house}` }
+              : null;
+      if (link && weight * link.value > best.value) {
+        best = { value: weight * link.value, reason: link.reason };
+      }
+    });
+
+    // Rahu and Ketu give the results of the lord of their sign
+    if ((planet === 'Rahu' || planet === 'Ketu') && best.value < 1) {
+      const dispositor = SIGN_LORDS[ZODIAC_SIGNS[planetSign]];
+      const viaDispositor = this.getSignification(dispositor, { ...signature, karakas: [] }, planets, signOfHouse);
+      if (0.75 * viaDispositor.value > best.value) {
+        best = { value: 0.75 * viaDispositor.value, reason: `through its dispositor ${dispositor} (${viaDispositor.reason})` };
+      }
+    }
+
+    if (signature.karakas.includes(planet)) {
+      best = { value: Math.min(1, best.value + 0.25), reason: best.reason ? `${best.reason}, karaka` : 'karaka' };
+    }
+    return best;
+  }
+
+  /**
+   * Does a planet rule or occupy the lagna or the event house of a divisional chart
+   */
+  private isVargaSignificator(
+    planet: string,
+    varga: { division: VargaDivision; house: number },
+    lagnaLongitude: number,
+    planets: PlanetaryPosition[],
+  ): boolean {
+    const vargaLagna = ZODIAC_SIGNS.indexOf(this.vargaService.getVargaPosition(lagnaLongitude, varga.division).sign);
+    const eventSign = (vargaLagna + varga.house - 1) % 12;
+    const planetSign = ZODIAC_SIGNS.indexOf(
+      this.vargaService.getVargaPosition(planets.find((p) => p.name === planet).longitude, varga.division).sign,
+    );
+
+    return [vargaLagna, eventSign].some((sign) => SIGN_LORDS[ZODIAC_SIGNS[sign]] === planet || planetSign === sign);
+  }
+}
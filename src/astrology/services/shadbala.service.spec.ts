@@ -0,0 +1,105 @@
+import { EphemerisService } from './ephemeris.service';
+import { VargaService } from './varga.service';
+import { DignityService, EXALTATION_POINTS, SEVEN_GRAHAS } from './dignity.service';
+import { ShadbalaInput, ShadbalaService } from './shadbala.service';
+
+/**
+ * Shadbala known answers for the components fixed by BPHS ch. 27: uchcha bala
+ * (60 at deep exaltation, 0 at debilitation), dig bala, naisargika bala,
+ * sputa drishti and the vara lord.
+ */
+
+// Noon IST on Monday 2024-04-08 in Delhi: a day birth with the Moon as vara lord
+const BASE: Omit<ShadbalaInput, 'planets'> = {
+  lagnaLongitude: 95, // 5 Cancer: Jupiter's dig bala point
+  midheavenLongitude: 5,
+  ayanamsa: 24.19,
+  datetime: new Date('2024-04-08T06:30:00Z'),
+  latitude: 28.6139,
+  longitude: 77.209,
+};
+
+const planetsAt = (longitudes: Record<string, number>): ShadbalaInput['planets'] =>
+  SEVEN_GRAHAS.map((name) => ({ name, longitude: longitudes[name], latitude: 0, speed: 0.5 }));
+
+describe('ShadbalaService', () => {
+  const service = new ShadbalaService(new EphemerisService(), new VargaService(), new DignityService());
+
+  describe('calculate', () => {
+    const exalted = service.calculate({ ...BASE, planets: planetsAt(EXALTATION_POINTS) });
+
+    it('gives full uchcha bala at the deep exaltation points', () => {
+      for (const name of SEVEN_GRAHAS) {
+        expect(exalted.planets[name].sthana.uchcha).toBe(60);
+      }
+    });
+
+    it('gives no uchcha bala at the debilitation points', () => {
+      const debilitated = service.calculate({
+        ...BASE,
+        planets: planetsAt(
+          Object.fromEntries(SEVEN_GRAHAS.map((name) => [name, (EXALTATION_POINTS[name] + 180) % 360])),
+        ),
+      });
+
+      for (const name of SEVEN_GRAHAS) {
+        expect(debilitated.planets[name].sthana.uchcha).toBe(0);
+      }
+    });
+
+    it('gives full dig bala on the strong point and the fixed naisargika values', () => {
+      expect(exalted.planets.Jupiter.dig).toBe(60);
+      expect(exalted.planets.Sun.dig).toBeCloseTo(175 / 3, 2); // 5° from the MC
+      expect(SEVEN_GRAHAS.map((name) => exalted.planets[name].naisargika)).toEqual([
+        60, 51.43, 17.14, 25.71, 34.29, 42.86, 8.57,
+      ]);
+    });
+
+    it('applies the day, vara and constant kala components', () => {
+      expect(exalted.is_day_birth).toBe(true);
+      expect(exalted.lords.vara).toBe('Moon');
+      expect(exalted.planets.Moon.kala.vara).toBe(45);
+      expect(exalted.planets.Sun.kala.vara).toBe(0);
+      expect(exalted.planets.Mercury.kala.nathonnatha).toBe(60);
+      expect(exalted.planets.Jupiter.kala.tribhaga).toBe(60);
+    });
+
+    it('ranks the grahas by strength ratio', () => {
+      const ranks = SEVEN_GRAHAS.map((name) => exalted.planets[name].rank).sort();
+
+      expect(ranks).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(exalted.planets[exalted.strongest].rank).toBe(1);
+      expect(exalted.planets[exalted.weakest].rank).toBe(7);
+      for (const name of SEVEN_GRAHAS) {
+        const planet = exalted.planets[name];
+        expect(planet.total_rupas).toBeCloseTo(planet.total_virupas / 60, 2);
+        expect(planet.is_strong).toBe(planet.total_rupas >= planet.required_rupas);
+      }
+    });
+
+    it('requires all seven grahas', () => {
+      expect(() => service.calculate({ ...BASE, planets: planetsAt(EXALTATION_POINTS).slice(0, 6) })).toThrow(
+        'Missing position for Saturn',
+      );
+    });
+  });
+
+  describe('getDrishti', () => {
+    it.each([
+      ['Sun', 30, 0],
+      ['Sun', 60, 15],
+      ['Sun', 90, 45],
+      ['Sun', 120, 30],
+      ['Sun', 180, 60],
+      ['Sun', 300, 0],
+      ['Mars', 90, 60], // 4th
+      ['Mars', 210, 60], // 8th
+      ['Jupiter', 120, 60], // 5th
+      ['Jupiter', 240, 60], // 9th
+      ['Saturn', 60, 60], // 3rd
+      ['Saturn', 270, 60], // 10th
+    ])('%s aspecting %d° ahead casts %d virupas', (aspecting, distance, virupas) => {
+      expect(service.getDrishti(aspecting, 100, 100 + distance)).toBe(virupas);
+    });
+  });
+});
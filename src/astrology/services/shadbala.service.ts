@@ -0,0 +1,453 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService } from './ephemeris.service';
+import { VargaService, VargaDivision } from './varga.service';
+import { DignityService, EXALTATION_POINTS, MOOLATRIKONA, OWN_SIGNS, SEVEN_GRAHAS } from './dignity.service';
+import { ZODIAC_SIGNS } from './swiss-ephemeris.service';
+
+/**
+ * Shadbala Service
+ *
+ * Six-fold planetary strength (BPHS ch. 27) in virupas (60 virupas = 1 rupa):
+ * - Sthana: uchcha, saptavargaja, oja-yugma, kendradi and drekkana bala
+ * - Dig: distance from the house of directional strength
+ * - Kala: nathonnatha, paksha, tribhaga, abda/masa/vara/hora lords and ayana bala
+ * - Chesta: motional strength (ayana for the Sun, paksha for the Moon)
+ * - Naisargika: fixed natural strength
+ * - Drik: net benefic minus malefic aspect (sputa drishti) received
+ *
+ * Chesta bala for Mars-Saturn is graded from the planet's motion state
+ * (retrograde, stationary, slow, mean, fast) instead of the cheshta kendra of
+ * the mean/true planet, and yuddha (planetary war) bala is not applied.
+ */
+
+export interface ShadbalaInput {
+  planets: Array<{
+    name: string;
+    longitude: number; // sidereal
+    latitude: number;
+    speed: number;
+    isRetrograde?: boolean;
+    isStationary?: boolean;
+  }>;
+  lagnaLongitude: number; // sidereal
+  midheavenLongitude: number; // sidereal
+  ayanamsa: number;
+  datetime: Date; // UT
+  latitude: number;
+  longitude: number;
+}
+
+export interface PlanetShadbala {
+  sthana: {
+    uchcha: number;
+    saptavargaja: number;
+    ojayugma: number;
+    kendradi: number;
+    drekkana: number;
+    total: number;
+  };
+  dig: number;
+  kala: {
+    nathonnatha: number;
+    paksha: number;
+    tribhaga: number;
+    abda: number;
+    masa: number;
+    vara: number;
+    hora: number;
+    ayana: number;
+    total: number;
+  };
+  chesta: number;
+  naisargika: number;
+  drik: number;
+  total_virupas: number;
+  total_rupas: number;
+  required_rupas: number;
+  strength_ratio: number; // total / required; >= 1 is strong
+  is_strong: boolean;
+  rank: number; // 1 = strongest by ratio
+}
+
+export interface ShadbalaResult {
+  planets: Record<string, PlanetShadbala>;
+  strongest: string;
+  weakest: string;
+  is_day_birth: boolean;
+  lords: { abda: string; masa: string; vara: string; hora: string };
+}
+
+const WEEKDAY_LORDS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+const HORA_SEQUENCE = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+
+const NAISARGIKA_BALA: Record<string, number> = {
+  Sun: 60,
+  Moon: 51.43,
+  Venus: 42.86,
+  Jupiter: 34.29,
+  Mercury: 25.71,
+  Mars: 17.14,
+  Saturn: 8.57,
+};
+
+const REQUIRED_RUPAS: Record<string, number> = {
+  Sun: 6.5,
+  Moon: 6,
+  Mars: 5,
+  Mercury: 7,
+  Jupiter: 6.5,
+  Venus: 5.5,
+  Saturn: 5,
+};
+
+// Mean daily motion used to grade chesta bala
+const MEAN_DAILY_MOTION: Record<string, number> = {
+  Mars: 0.524,
+  Mercury: 0.9856,
+  Jupiter: 0.0831,
+  Venus: 0.9856,
+  Saturn: 0.0335,
+};
+
+const SAPTAVARGA: VargaDivision[] = [1, 2, 3, 7, 9, 12, 30];
+
+const SAPTAVARGAJA_POINTS: Record<string, number> = {
+  moolatrikona: 45,
+  own: 30,
+  great_friend: 22.5,
+  friend: 15,
+  neutral: 7.5,
+  enemy: 3.75,
+  great_enemy: 1.875,
+};
+
+// Kali Yuga epoch (JD), a Friday; origin of the ahargana for abda/masa lords
+const KALI_EPOCH_JD = 588465.5;
+
+@Injectable()
+export class ShadbalaService {
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly vargaService: VargaService,
+    private readonly dignityService: DignityService,
+  ) {}
+
+  /**
+   * Compute Shadbala for the seven grahas
+   */
+  calculate(input: ShadbalaInput): ShadbalaResult {
+    const positions: Record<string, ShadbalaInput['planets'][number]> = {};
+    for (const planet of input.planets) {
+      positions[planet.name] = planet;
+    }
+    for (const name of SEVEN_GRAHAS) {
+      if (!positions[name]) {
+        throw new Error(`Missing position for ${name}`);
+      }
+    }
+
+    const longitudes: Record<string, number> = {};
+    SEVEN_GRAHAS.forEach((name) => (longitudes[name] = positions[name].longitude));
+
+    const timeContext = this.getTimeContext(input);
+    const obliquity = this.ephemerisService.getTrueObliquity(input.datetime);
+    const elongation = this.dignityService.arcBetween(longitudes.Sun, longitudes.Moon);
+    const isWaxing = (((longitudes.Moon - longitudes.Sun) % 360) + 360) % 360 < 180;
+
+    const results: Record<string, PlanetShadbala> = {};
+
+    for (const name of SEVEN_GRAHAS) {
+      const planet = positions[name];
+
+      const sthana = this.getSthanaBala(name, planet.longitude, input.lagnaLongitude, longitudes);
+      const dig = this.getDigBala(name, planet.longitude, input.lagnaLongitude, input.midheavenLongitude);
+
+      const ayana = this.getAyanaBala(name, planet.longitude + input.ayanamsa, planet.latitude, obliquity);
+      const paksha = this.getPakshaBala(name, elongation);
+      const kala = {
+        nathonnatha: this.getNathonnathaBala(name, timeContext.sunHoursFromNoon),
+        paksha,
+        tribhaga: this.getTribhagaBala(name, timeContext),
+        abda: timeContext.lords.abda === name ? 15 : 0,
+        masa: timeContext.lords.masa === name ? 30 : 0,
+        vara: timeContext.lords.vara === name ? 45 : 0,
+        hora: timeContext.lords.hora === name ? 60 : 0,
+        ayana,
+        total: 0,
+      };
+      kala.total =
+        kala.nathonnatha + kala.paksha + kala.tribhaga + kala.abda + kala.masa + kala.vara + kala.hora + kala.ayana;
+
+      const chesta =
+        name === 'Sun'
+          ? ayana / 2
+          : name === 'Moon'
+            ? paksha / 2
+            : this.getChestaBala(name, planet.speed, !!planet.isRetrograde, !!planet.isStationary);
+
+      const drik = this.getDrikBala(name, longitudes, isWaxing);
+      const naisargika = NAISARGIKA_BALA[name];
+
+      const total = sthana.total + dig + kala.total + chesta + naisargika + drik;
+      const totalRupas = total / 60;
+
+      results[name] = {
+        sthana: this.roundAll(sthana),
+        dig: this.round(dig),
+        kala: this.roundAll(kala),
+        chesta: this.round(chesta),
+        naisargika,
+        drik: this.round(drik),
+        total_virupas: this.round(total),
+        total_rupas: this.round(totalRupas),
+        required_rupas: REQUIRED_RUPAS[name],
+        strength_ratio: this.round(totalRupas / REQUIRED_RUPAS[name]),
+        is_strong: totalRupas >= REQUIRED_RUPAS[name],
+        rank: 0,
+      };
+    }
+
+    const ranked = [...SEVEN_GRAHAS].sort((a, b) => results[b].strength_ratio - results[a].strength_ratio);
+    ranked.forEach((name, index) => (results[name].rank = index + 1));
+
+    return {
+      planets: results,
+      strongest: ranked[0],
+      weakest: ranked[ranked.length - 1],
+      is_day_birth: timeContext.isDay,
+      lords: timeContext.lords,
+    };
+  }
+
+  private getSthanaBala(
+    name: string,
+    longitude: number,
+    lagnaLongitude: number,
+    longitudes: Record<string, number>,
+  ): PlanetShadbala['sthana'] {
+    // Uchcha: one third of the arc from the debilitation point
+    const uchcha = this.dignityService.arcBetween(longitude, EXALTATION_POINTS[name] + 180) / 3;
+
+    let saptavargaja = 0;
+    for (const division of SAPTAVARGA) {
+      const sign = this.vargaService.getVargaPosition(longitude, division).sign;
+      const degree = longitude % 30;
+      const moolatrikona = MOOLATRIKONA[name];
+
+      if (division === 1 && moolatrikona.sign === sign && degree >= moolatrikona.from && degree < moolatrikona.to) {
+        saptavargaja += SAPTAVARGAJA_POINTS.moolatrikona;
+      } else if (OWN_SIGNS[name].includes(sign)) {
+        saptavargaja += SAPTAVARGAJA_POINTS.own;
+      } else {
+        const relationship = this.dignityService.getRelationshipToSignLord(name, longitude, sign, longitudes);
+        saptavargaja += SAPTAVARGAJA_POINTS[relationship];
+      }
+    }
+
+    // Oja-yugma: Moon and Venus gain in even signs, the others in odd signs (rasi and navamsa)
+    const prefersEven = name === 'Moon' || name === 'Venus';
+    const rasiIndex = this.dignityService.signIndexOf(longitude);
+    const navamsaIndex = ZODIAC_SIGNS.indexOf(this.vargaService.getVargaPosition(longitude, 9).sign);
+    const isOddSign = (index: number) => index % 2 === 0;
+    const ojayugma =
+      (isOddSign(rasiIndex) !== prefersEven ? 15 : 0) + (isOddSign(navamsaIndex) !== prefersEven ? 15 : 0);
+
+    // Kendradi: angles 60, succedents 30, cadents 15 (houses counted from the lagna sign)
+    const house = ((rasiIndex - this.dignityService.signIndexOf(lagnaLongitude) + 12) % 12) + 1;
+    const kendradi = [1, 4, 7, 10].includes(house) ? 60 : [2, 5, 8, 11].includes(house) ? 30 : 15;
+
+    // Drekkana: male grahas in the first decanate, neuter in the second, female in the third
+    const decanate = Math.floor((longitude % 30) / 10);
+    const drekkanaFor: Record<string, number> = { Sun: 0, Mars: 0, Jupiter: 0, Mercury: 1, Saturn: 1, Moon: 2, Venus: 2 };
+    const drekkana = drekkanaFor[name] === decanate ? 15 : 0;
+
+    return {
+      uchcha,
+      saptavargaja,
+      ojayugma,
+      kendradi,
+      drekkana,
+      total: uchcha + saptavargaja + ojayugma + kendradi + drekkana,
+    };
+  }
+
+  /**
+   * Dig bala: Jupiter/Mercury strongest on the ascendant, Sun/Mars on the
+   * MC, Saturn on the descendant, Moon/Venus on the IC
+   */
+  private getDigBala(name: string, longitude: number, ascendant: number, midheaven: number): number {
+    const strongPoint: Record<string, number> = {
+      Jupiter: ascendant,
+      Mercury: ascendant,
+      Sun: midheaven,
+      Mars: midheaven,
+      Saturn: ascendant + 180,
+      Moon: midheaven + 180,
+      Venus: midheaven + 180,
+    };
+    return (180 - this.dignityService.arcBetween(longitude, strongPoint[name])) / 3;
+  }
+
+  private getNathonnathaBala(name: string, sunHoursFromNoon: number): number {
+    if (name === 'Mercury') return 60;
+    const dayStrength = (60 * (12 - sunHoursFromNoon)) / 12;
+    return ['Sun', 'Jupiter', 'Venus'].includes(name) ? dayStrength : 60 - dayStrength;
+  }
+
+  /**
+   * Paksha bala from the Sun-Moon elongation; benefics gain as the Moon
+   * waxes, malefics as it wanes. The Moon's value is doubled.
+   */
+  private getPakshaBala(name: string, elongation: number): number {
+    const beneficStrength = elongation / 3;
+    if (name === 'Moon') return beneficStrength * 2;
+    return ['Jupiter', 'Venus', 'Mercury'].includes(name) ? beneficStrength : 60 - beneficStrength;
+  }
+
+  private getTribhagaBala(name: string, context: ReturnType<ShadbalaService['getTimeContext']>): number {
+    if (name === 'Jupiter') return 60;
+    const rulers = context.isDay ? ['Mercury', 'Sun', 'Saturn'] : ['Moon', 'Venus', 'Mars'];
+    return rulers[context.tribhaga] === name ? 60 : 0;
+  }
+
+  /**
+   * Ayana bala from declination; the Sun's value is doubled
+   */
+  private getAyanaBala(name: string, tropicalLongitude: number, latitude: number, obliquity: number): number {
+    const toRad = Math.PI / 180;
+    const declination =
+      Math.asin(
+        Math.sin(latitude * toRad) * Math.cos(obliquity * toRad) +
+          Math.cos(latitude * toRad) * Math.sin(obliquity * toRad) * Math.sin(tropicalLongitude * toRad),
+      ) / toRad;
+    const kranti = Math.max(-24, Math.min(24, declination));
+
+    let bala: number;
+    if (name === 'Mercury') {
+      bala = ((24 + Math.abs(kranti)) / 48) * 60;
+    } else if (name === 'Moon' || name === 'Saturn') {
+      bala = ((24 - kranti) / 48) * 60;
+    } else {
+      bala = ((24 + kranti) / 48) * 60;
+    }
+    return name === 'Sun' ? bala * 2 : bala;
+  }
+
+  /**
+   * Chesta bala graded by motion state: vakra 60, vikala 15, mandatara 15,
+   * manda 30, sama 7.5, chara 45, atichara 30
+   */
+  private getChestaBala(name: string, speed: number, isRetrograde: boolean, isStationary: boolean): number {
+    if (isStationary) return 15;
+    if (isRetrograde || speed < 0) return 60;
+
+    const ratio = speed / MEAN_DAILY_MOTION[name];
+    if (ratio < 0.25) return 15;
+    if (ratio < 0.75) return 30;
+    if (ratio < 1.25) return 7.5;
+    if (ratio < 1.75) return 45;
+    return 30;
+  }
+
+  /**
+   * Drik bala: a quarter of benefic minus malefic sputa drishti received
+   */
+  private getDrikBala(name: string, longitudes: Record<string, number>, isWaxing: boolean): number {
+    let total = 0;
+    for (const aspecting of SEVEN_GRAHAS) {
+      if (aspecting === name) continue;
+      const value = this.getDrishti(aspecting, longitudes[aspecting], longitudes[name]);
+      const isBenefic =
+        ['Jupiter', 'Venus', 'Mercury'].includes(aspecting) || (aspecting === 'Moon' && isWaxing);
+      total += isBenefic ? value : -value;
+    }
+    return total / 4;
+  }
+
+  /**
+   * Sputa drishti (virupas) cast from one longitude onto another, with the
+   * special aspects of Mars (4th, 8th), Jupiter (5th, 9th) and Saturn (3rd, 10th)
+   */
+  getDrishti(aspecting: string, from: number, to: number): number {
+    const d = (((to - from) % 360) + 360) % 360;
+    let value = 0;
+    if (d >= 30 && d < 60) value = (d - 30) / 2;
+    else if (d >= 60 && d < 90) value = d - 60 + 15;
+    else if (d >= 90 && d < 120) value = (120 - d) / 2 + 30;
+    else if (d >= 120 && d < 150) value = 150 - d;
+    else if (d >= 150 && d < 180) value = (d - 150) * 2;
+    else if (d >= 180 && d < 300) value = (300 - d) / 2;
+
+    if (aspecting === 'Mars' && ((d >= 90 && d < 120) || (d >= 210 && d < 240))) value += 15;
+    if (aspecting === 'Jupiter' && ((d >= 120 && d < 150) || (d >= 240 && d < 270))) value += 30;
+    if (aspecting === 'Saturn' && ((d >= 60 && d < 90) || (d >= 270 && d < 300))) value += 45;
+
+    return Math.min(value, 60);
+  }
+
+  /**
+   * Day/night segment, tribhaga and the abda, masa, vara and hora lords
+   */
+  private getTimeContext(input: ShadbalaInput) {
+    const { datetime, latitude, longitude } = input;
+    const hourMs = 3600000;
+
+    const sunHourAngle = this.ephemerisService.getHourAngle('Sun', datetime, latitude, longitude);
+    const sunHoursFromNoon = sunHourAngle <= 12 ? sunHourAngle : 24 - sunHourAngle;
+    const localNoon = new Date(
+      datetime.getTime() - (sunHourAngle <= 12 ? sunHourAngle : sunHourAngle - 24) * hourMs,
+    );
+
+    // Sunrise that began the current (Vedic) day, and the sunset after it
+    let sunrise =
+      this.ephemerisService.findRiseSet('Sun', 'rise', datetime, latitude, longitude, -1.1) ||
+      new Date(localNoon.getTime() - 6 * hourMs);
+    if (sunrise.getTime() > datetime.getTime()) {
+      sunrise = new Date(sunrise.getTime() - 24 * hourMs);
+    }
+    const sunset =
+      this.ephemerisService.findRiseSet('Sun', 'set', sunrise, latitude, longitude, 1) ||
+      new Date(sunrise.getTime() + 12 * hourMs);
+    const nextSunrise =
+      this.ephemerisService.findRiseSet('Sun', 'rise', sunset, latitude, longitude, 1) ||
+      new Date(sunrise.getTime() + 24 * hourMs);
+
+    const isDay = datetime.getTime() < sunset.getTime();
+    const [segmentStart, segmentEnd] = isDay ? [sunrise, sunset] : [sunset, nextSunrise];
+    const tribhaga = Math.min(
+      2,
+      Math.floor((3 * (datetime.getTime() - segmentStart.getTime())) / (segmentEnd.getTime() - segmentStart.getTime())),
+    );
+
+    // Weekday of the sunrise in local mean time
+    const weekday = new Date(sunrise.getTime() + (longitude / 15) * hourMs).getUTCDay();
+    const vara = WEEKDAY_LORDS[weekday];
+    const horaIndex = Math.floor((datetime.getTime() - sunrise.getTime()) / hourMs);
+    const hora = HORA_SEQUENCE[(HORA_SEQUENCE.indexOf(vara) + horaIndex) % 7];
+
+    const julianDay = datetime.getTime() / 86400000 + 2440587.5;
+    const ahargana = Math.floor(julianDay - KALI_EPOCH_JD);
+    const weekdayOf = (jd: number) => WEEKDAY_LORDS[Math.floor(jd + 1.5) % 7];
+    const abda = weekdayOf(KALI_EPOCH_JD + Math.floor(ahargana / 360) * 360);
+    const masa = weekdayOf(KALI_EPOCH_JD + Math.floor(ahargana / 30) * 30);
+
+    return {
+      isDay,
+      tribhaga,
+      sunHoursFromNoon,
+      lords: { abda, masa, vara, hora },
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundAll<T extends Record<string, number>>(values: T): T {
+    const rounded = { ...values };
+    for (const key of Object.keys(rounded)) {
+      (rounded as Record<string, number>)[key] = this.round(rounded[key]);
+    }
+    return rounded;
+  }
+}
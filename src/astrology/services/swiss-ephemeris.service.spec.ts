@@ -0,0 +1,114 @@
+import { EphemerisService } from './ephemeris.service';
+import { AyanamsaService } from './ayanamsa.service';
+import { HouseSystem, SwissEphemerisService } from './swiss-ephemeris.service';
+
+/**
+ * House cusp known answers.
+ *
+ * Reference cusps are tropical, from the Swiss Ephemeris 2.10 swe_houses_ex2
+ * ('P' Placidus, 'K' Koch, 'E' equal, 'W' whole sign, 'S' Sripati). Charts are
+ * cast with the sayana model so the sidereal cusps returned equal the tropical
+ * ones.
+ */
+
+interface HouseCase {
+  label: string;
+  datetime: string;
+  latitude: number;
+  longitude: number;
+  cusps: Partial<Record<HouseSystem, number[]>>;
+}
+
+// Maximum deviation accepted from the reference cusps, in degrees
+const TOLERANCE = 0.02;
+
+const CASES: HouseCase[] = [
+  {
+    label: 'Delhi, 1990-05-15 09:00 UT',
+    datetime: '1990-05-15T09:00:00Z',
+    latitude: 28.6139,
+    longitude: 77.209,
+    cusps: {
+      placidus: [175.6304, 203.4458, 233.8655, 265.4494, 296.9762, 327.4251, 355.6304, 23.4458, 53.8655, 85.4494, 116.9762, 147.4251],
+      koch: [175.6304, 205.9425, 235.5453, 265.4494, 296.0131, 325.4831, 355.6304, 25.9425, 55.5453, 85.4494, 116.0131, 145.4831],
+      equal: [175.6304, 205.6304, 235.6304, 265.6304, 295.6304, 325.6304, 355.6304, 25.6304, 55.6304, 85.6304, 115.6304, 145.6304],
+      whole_sign: [150, 180, 210, 240, 270, 300, 330, 0, 30, 60, 90, 120],
+      sripati: [160.6003, 190.6003, 220.5399, 250.4796, 280.4796, 310.5399, 340.6003, 10.6003, 40.5399, 70.4796, 100.4796, 130.5399],
+    },
+  },
+  {
+    label: 'New York, 2000-01-01 12:00 UT',
+    datetime: '2000-01-01T12:00:00Z',
+    latitude: 40.7128,
+    longitude: -74.006,
+    cusps: {
+      placidus: [274.242, 314.0723, 355.5845, 28.469, 53.2379, 73.9144, 94.242, 134.0723, 175.5845, 208.469, 233.2379, 253.9144],
+      koch: [274.242, 303.3055, 342.9339, 28.469, 49.4465, 70.8093, 94.242, 123.3055, 162.9339, 208.469, 229.4465, 250.8093],
+      whole_sign: [270, 300, 330, 0, 30, 60, 90, 120, 150, 180, 210, 240],
+      sripati: [263.2798, 293.2798, 331.3555, 9.4312, 39.4312, 61.3555, 83.2798, 113.2798, 151.3555, 189.4312, 219.4312, 241.3555],
+    },
+  },
+  {
+    label: 'Sydney, 2024-04-08 18:00 UT',
+    datetime: '2024-04-08T18:00:00Z',
+    latitude: -33.8688,
+    longitude: 151.2093,
+    cusps: {
+      placidus: [350.4603, 17.0174, 47.2175, 79.605, 112.0675, 142.7368, 170.4603, 197.0174, 227.2175, 259.605, 292.0675, 322.7368],
+      koch: [350.4603, 20.3896, 49.8283, 79.605, 111.4273, 140.8114, 170.4603, 200.3896, 229.8283, 259.605, 291.4273, 320.8114],
+      whole_sign: [330, 0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300],
+      sripati: [335.3177, 5.3177, 35.0326, 64.7475, 94.7475, 125.0326, 155.3177, 185.3177, 215.0326, 244.7475, 274.7475, 305.0326],
+    },
+  },
+];
+
+const HOUSE_CASES = CASES.flatMap((c) =>
+  Object.entries(c.cusps).map(([system, cusps]) => [c.label, system as HouseSystem, c, cusps] as const),
+);
+
+function angleDiff(a: number, b: number): number {
+  const diff = (((a - b) % 360) + 540) % 360 - 180;
+  return Math.abs(diff);
+}
+
+describe('SwissEphemerisService houses', () => {
+  const service = new SwissEphemerisService(new EphemerisService(), new AyanamsaService());
+
+  const cast = (c: Pick<HouseCase, 'datetime' | 'latitude' | 'longitude'>, houseSystem: HouseSystem) =>
+    service.calculateKundli({
+      datetime: new Date(c.datetime),
+      latitude: c.latitude,
+      longitude: c.longitude,
+      timezone: 'UTC',
+      ayanamsa: 'sayana',
+      houseSystem,
+    });
+
+  it.each(HOUSE_CASES)('%s %s', async (_label, system, c, expected) => {
+    const kundli = await cast(c, system);
+
+    expect(kundli.ayanamsa).toBe(0);
+    expect(kundli.houseSystem).toBe(system);
+    expect(kundli.houses).toHaveLength(12);
+    kundli.houses.forEach((house, i) => {
+      expect(house.houseNumber).toBe(i + 1);
+      expect(angleDiff(house.startDegree, expected[i])).toBeLessThan(TOLERANCE);
+      expect(house.endDegree).toBeCloseTo(kundli.houses[(i + 1) % 12].startDegree, 10);
+    });
+  });
+
+  it('places the lagna on the first cusp and the midheaven on the tenth', async () => {
+    const kundli = await cast(CASES[0], 'placidus');
+
+    expect(angleDiff(kundli.lagna.longitude, 175.6304)).toBeLessThan(TOLERANCE);
+    expect(angleDiff(kundli.midheaven.longitude, 85.4494)).toBeLessThan(TOLERANCE);
+    expect(kundli.lagna.sign).toBe('Virgo');
+  });
+
+  it.each<HouseSystem>(['placidus', 'koch'])('falls back to Sripati cusps for %s inside the polar circle', async (system) => {
+    const tromso = { datetime: '2024-06-21T10:00:00Z', latitude: 69.6492, longitude: 18.9553 };
+    const [kundli, sripati] = await Promise.all([cast(tromso, system), cast(tromso, 'sripati')]);
+
+    expect(kundli.houses.map((h) => h.startDegree)).toEqual(sripati.houses.map((h) => h.startDegree));
+  });
+});
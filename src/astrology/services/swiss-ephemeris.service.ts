@@ -1,4 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { EclipticPosition, EphemerisService, NodeType } from './ephemeris.service';
+import { AyanamsaKey, AyanamsaService, DEFAULT_AYANAMSA } from './ayanamsa.service';
 
 /**
  * Swiss Ephemeris Service
@@ -8,13 +10,18 @@ import { Injectable, Logger } from '@nestjs/common';
  * - House calculations (Placidus, Equal, Whole Sign)
  * - Lagna/Ascendant calculation
  * - Nakshatra calculations
- * - Ayanamsa calculations (Lahiri, Raman, KP, etc.)
+ * - Ayanamsa from the AyanamsaService catalog (Lahiri, Raman, KP, true-star models, etc.)
  * - Dasha calculations
  * 
- * Note: This is a TypeScript implementation of Swiss Ephemeris algorithms.
- * For production, you can integrate the native Swiss Ephemeris library if needed.
+ * Planetary positions come from EphemerisService (VSOP87 / ELP, apparent
+ * geocentric, true equinox of date); this service converts them to sidereal
+ * positions and derives the chart from them.
  */
 
+export type HouseSystem = 'placidus' | 'koch' | 'equal' | 'whole_sign' | 'sripati';
+
+export const HOUSE_SYSTEMS: HouseSystem[] = ['placidus', 'koch', 'equal', 'whole_sign', 'sripati'];
+
 export interface PlanetaryPosition {
   name: string;
   longitude: number; // 0-360 degrees
@@ -22,21 +29,25 @@ export interface PlanetaryPosition {
   distance: number; // AU
   speed: number; // degrees per day
   isRetrograde: boolean;
+  isStationary: boolean;
+  isCombust: boolean;
   sign: string;
   signLord: string;
   nakshatra: string;
   nakshatraLord: string;
   nakshatraPada: number; // 1-4
-  house: number; // 1-12
+  house: number; // 1-12, bhava placement by house cusps
+  rashiHouse: number; // 1-12, whole-sign placement counted from the lagna sign
 }
 
 export interface HousePosition {
   houseNumber: number; // 1-12
-  cuspLongitude: number; // 0-360 degrees
+  cuspLongitude: number; // 0-360 degrees, start of the house
+  midLongitude: number; // 0-360 degrees, bhava madhya
   sign: string;
   signLord: string;
-  startDegree: number;
-  endDegree: number;
+  startDegree: number; // 0-360 degrees, same as cuspLongitude
+  endDegree: number; // 0-360 degrees, start of the next house
 }
 
 export interface KundliData {
@@ -46,43 +57,123 @@ export interface KundliData {
     signLord: string;
     degrees: number;
   };
+  midheaven: {
+    longitude: number;
+    sign: string;
+  };
   planets: PlanetaryPosition[];
   houses: HousePosition[];
+  houseSystem: HouseSystem;
   nakshatra: {
     name: string;
     lord: string;
     pada: number;
   };
   ayanamsa: number;
+  nodeType: NodeType;
   tithi?: string;
   yoga?: string;
   karana?: string;
 }
 
+// Zodiac signs
+export const ZODIAC_SIGNS = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+  'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
+];
+
+// Classical combustion orbs (degrees from the Sun); retrograde Mercury/Venus use the smaller orb
+export const COMBUSTION_ORBS: Record<string, { direct: number; retrograde: number }> = {
+  Moon: { direct: 12, retrograde: 12 },
+  Mars: { direct: 17, retrograde: 17 },
+  Mercury: { direct: 14, retrograde: 12 },
+  Jupiter: { direct: 11, retrograde: 11 },
+  Venus: { direct: 10, retrograde: 8 },
+  Saturn: { direct: 15, retrograde: 15 },
+};
+
+// Sign lords
+export const SIGN_LORDS: Record<string, string> = {
+  Aries: 'Mars',
+  Taurus: 'Venus',
+  Gemini: 'Mercury',
+  Cancer: 'Moon',
+  Leo: 'Sun',
+  Virgo: 'Mercury',
+  Libra: 'Venus',
+  Scorpio: 'Mars',
+  Sagittarius: 'Jupiter',
+  Capricorn: 'Saturn',
+  Aquarius: 'Saturn',
+  Pisces: 'Jupiter',
+};
+
+// Nakshatras from Ashwini (0) to Revati (26)
+export const NAKSHATRA_NAMES = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra', 'Punarvasu',
+  'Pushya', 'Ashlesha', 'Magha', 'Purva Phalguni', 'Uttara Phalguni', 'Hasta',
+  'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha', 'Mula', 'Purva Ashadha',
+  'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha', 'Purva Bhadrapada',
+  'Uttara Bhadrapada', 'Revati',
+];
+
+// Thirty tithis of the lunar month: Shukla (waxing) 1-15, Krishna (waning) 16-30
+const TITHI_BASE_NAMES = [
+  'Prathama', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami',
+  'Shashthi', 'Saptami', 'Ashtami', 'Navami', 'Dashami',
+  'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi',
+];
+export const TITHI_NAMES = [
+  ...TITHI_BASE_NAMES.map((name) => `Shukla ${name}`),
+  'Purnima',
+  ...TITHI_BASE_NAMES.map((name) => `Krishna ${name}`),
+  'Amavasya',
+];
+
+export const YOGA_NAMES = [
+  'Vishkambha', 'Preeti', 'Ayushman', 'Saubhagya', 'Shobhana',
+  'Atiganda', 'Sukarma', 'Dhriti', 'Shoola', 'Ganda',
+  'Vriddhi', 'Dhruva', 'Vyaghata', 'Harshana', 'Vajra',
+  'Siddhi', 'Vyatipata', 'Variyan', 'Parigha', 'Shiva',
+  'Siddha', 'Sadhya', 'Shubha', 'Shukla', 'Brahma',
+  'Indra', 'Vaidhriti',
+];
+
+// Sixty half-tithi karanas: Kimstughna, eight cycles of the seven movable karanas, then the three fixed ones
+const MOVABLE_KARANAS = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Garaja', 'Vanija', 'Vishti'];
+export const KARANA_NAMES = [
+  'Kimstughna',
+  ...Array.from({ length: 56 }, (_, i) => MOVABLE_KARANAS[i % 7]),
+  'Shakuni',
+  'Chatushpada',
+  'Naga',
+];
+
 @Injectable()
 export class SwissEphemerisService {
   private readonly logger = new Logger(SwissEphemerisService.name);
 
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly ayanamsaService: AyanamsaService,
+  ) {}
+
   // Zodiac signs
-  private readonly signs = [
-    'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
-    'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
-  ];
+  private readonly signs = ZODIAC_SIGNS;
 
   // Sign lords
-  private readonly signLords: Record<string, string> = {
-    Aries: 'Mars',
-    Taurus: 'Venus',
-    Gemini: 'Mercury',
-    Cancer: 'Moon',
-    Leo: 'Sun',
-    Virgo: 'Mercury',
-    Libra: 'Venus',
-    Scorpio: 'Mars',
-    Sagittarius: 'Jupiter',
-    Capricorn: 'Saturn',
-    Aquarius: 'Saturn',
-    Pisces: 'Jupiter',
+  private readonly signLords = SIGN_LORDS;
+
+  // Classical combustion orbs
+  private readonly combustionOrbs = COMBUSTION_ORBS;
+
+  // Daily motion (degrees/day) below which a planet is treated as stationary
+  private readonly stationaryThresholds: Record<string, number> = {
+    Mercury: 0.1,
+    Venus: 0.05,
+    Mars: 0.03,
+    Jupiter: 0.01,
+    Saturn: 0.005,
   };
 
   // Nakshatras
@@ -124,26 +215,44 @@ export class SwissEphemerisService {
     latitude: number;
     longitude: number;
     timezone: string;
-    ayanamsa?: number; // Default: Lahiri (1)
+    ayanamsa?: AyanamsaKey; // AyanamsaMaster slug or legacy code. Default: Lahiri
+    nodeType?: NodeType; // Default: mean node
+    houseSystem?: HouseSystem; // Default: Placidus
   }): Promise<KundliData> {
-    const { datetime, latitude, longitude, timezone, ayanamsa = 1 } = params;
+    const {
+      datetime,
+      latitude,
+      longitude,
+      timezone,
+      ayanamsa = DEFAULT_AYANAMSA,
+      nodeType = 'mean',
+      houseSystem = 'placidus',
+    } = params;
 
     // Calculate Julian Day
     const jd = this.toJulianDay(datetime);
 
     // Calculate Ayanamsa (precession of equinoxes)
-    const calculatedAyanamsa = this.calculateAyanamsa(jd, ayanamsa);
+    const calculatedAyanamsa = this.ayanamsaService.calculate(jd, ayanamsa);
 
-    // Calculate Lagna (Ascendant)
-    const lagnaLongitude = this.calculateLagna(datetime, latitude, longitude);
+    // Calculate Lagna (Ascendant) and Midheaven, converted to sidereal
+    const angles = this.calculateAngles(datetime, latitude, longitude);
+    const lagnaLongitude = this.normalizeDegrees(angles.ascendant - calculatedAyanamsa);
     const lagnaSign = this.getSignFromLongitude(lagnaLongitude);
     const lagnaDegrees = lagnaLongitude % 30;
+    const midheavenLongitude = this.normalizeDegrees(angles.midheaven - calculatedAyanamsa);
 
-    // Calculate planetary positions
-    const planets = await this.calculatePlanets(jd, calculatedAyanamsa);
+    // Calculate houses in the requested system
+    const houses = this.calculateHouses(angles, latitude, calculatedAyanamsa, houseSystem);
 
-    // Calculate houses (Placidus system)
-    const houses = this.calculateHouses(lagnaLongitude);
+    // Calculate planetary positions with rashi and bhava placements
+    const planets = this.assignPlanetsToHouses(
+      this.assignRashiHouses(
+        await this.calculatePlanets(datetime, calculatedAyanamsa, nodeType),
+        lagnaLongitude,
+      ),
+      houses,
+    );
 
     // Calculate Moon's nakshatra
     const moon = planets.find((p) => p.name === 'Moon');
@@ -151,10 +260,11 @@ export class SwissEphemerisService {
       ? this.getNakshatraFromLongitude(moon.longitude)
       : { name: '', lord: '', pada: 1 };
 
-    // Calculate Tithi, Yoga, Karana (optional)
-    const tithi = this.calculateTithi(jd);
-    const yoga = this.calculateYoga(jd);
-    const karana = this.calculateKarana(jd);
+    // Calculate Tithi, Yoga, Karana from the true Sun and Moon
+    const sun = planets.find((p) => p.name === 'Sun');
+    const tithi = this.calculateTithi(sun.longitude, moon.longitude);
+    const yoga = this.calculateYoga(sun.longitude, moon.longitude);
+    const karana = this.calculateKarana(sun.longitude, moon.longitude);
 
     return {
       lagna: {
@@ -163,16 +273,54 @@ export class SwissEphemerisService {
         signLord: this.signLords[lagnaSign] || '',
         degrees: lagnaDegrees,
       },
+      midheaven: {
+        longitude: midheavenLongitude,
+        sign: this.getSignFromLongitude(midheavenLongitude),
+      },
       planets,
       houses,
+      houseSystem,
       nakshatra,
       ayanamsa: calculatedAyanamsa,
+      nodeType,
       tithi,
       yoga,
       karana,
     };
   }
 
+  /**
+   * Sidereal positions of the nine grahas at a UT instant, without lagna or houses
+   */
+  getSiderealPositions(datetime: Date, ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA, nodeType: NodeType = 'mean'): PlanetaryPosition[] {
+    const calculatedAyanamsa = this.getAyanamsa(datetime, ayanamsa);
+    const positions = this.ephemerisService.getPositions(datetime, nodeType);
+
+    return this.applyPlanetaryStates(
+      Object.entries(positions).map(([name, position]) => this.createPlanetPosition(name, position, calculatedAyanamsa)),
+    );
+  }
+
+  /**
+   * Ayanamsa (degrees) at a UT instant
+   */
+  getAyanamsa(datetime: Date, ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA): number {
+    return this.ayanamsaService.calculate(this.toJulianDay(datetime), ayanamsa);
+  }
+
+  /**
+   * Sidereal lagna (degrees) rising at a UT instant and location
+   */
+  getLagnaLongitude(
+    datetime: Date,
+    latitude: number,
+    longitude: number,
+    ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA,
+  ): number {
+    const angles = this.calculateAngles(datetime, latitude, longitude);
+    return this.normalizeDegrees(angles.ascendant - this.getAyanamsa(datetime, ayanamsa));
+  }
+
   /**
    * Convert date to Julian Day
    */
@@ -182,177 +330,311 @@ export class SwissEphemerisService {
   }
 
   /**
-   * Calculate Ayanamsa (precession of equinoxes)
-   * Supports: Lahiri (1), Raman (2), KP (3), etc.
+   * Calculate RAMC, true obliquity, Ascendant and Midheaven (tropical, degrees)
+   * using apparent sidereal time
    */
-  private calculateAyanamsa(jd: number, ayanamsaType: number): number {
-    // Days since J2000.0
-    const t = (jd - 2451545.0) / 36525.0;
-
-    // Lahiri Ayanamsa (most common in India)
-    if (ayanamsaType === 1) {
-      // Formula: 23.85305556 + (50.2388/3600) * t + (0.000111/3600) * t^2
-      return 23.85305556 + (50.2388 / 3600) * t + (0.000111 / 3600) * t * t;
-    }
+  private calculateAngles(
+    date: Date,
+    latitude: number,
+    longitude: number,
+  ): { ramc: number; obliquity: number; latitude: number; ascendant: number; midheaven: number } {
+    const gast = this.ephemerisService.getSiderealTime(date);
+    const ramc = this.normalizeDegrees(gast * 15 + longitude);
+    const obliquity = this.ephemerisService.getTrueObliquity(date);
 
-    // Raman Ayanamsa
-    if (ayanamsaType === 2) {
-      return 22.50694444 + (50.2388 / 3600) * t;
-    }
-
-    // KP Ayanamsa
-    if (ayanamsaType === 3) {
-      return 23.85305556 + (50.2388 / 3600) * t - (0.000111 / 3600) * t * t;
-    }
-
-    // Default to Lahiri
-    return 23.85305556 + (50.2388 / 3600) * t;
+    return {
+      ramc,
+      obliquity,
+      latitude,
+      ascendant: this.ascendantFromRamc(ramc, obliquity, latitude),
+      midheaven: this.eclipticFromRightAscension(ramc, obliquity),
+    };
   }
 
   /**
-   * Calculate Lagna (Ascendant) using Sidereal Time
+   * Ecliptic degree rising on the eastern horizon for a given RAMC
    */
-  private calculateLagna(date: Date, latitude: number, longitude: number): number {
-    // Convert to UTC
-    const utcDate = new Date(date.toISOString());
-    const utcHours = utcDate.getUTCHours() + utcDate.getUTCMinutes() / 60 + utcDate.getUTCSeconds() / 3600;
-
-    // Calculate Julian Day
-    const jd = this.toJulianDay(utcDate);
-
-    // Calculate Greenwich Mean Sidereal Time (GMST)
-    const t = (jd - 2451545.0) / 36525.0;
-    const gmst = 280.46061837 + 360.98564736629 * (jd - 2451545.0) + 0.000387933 * t * t - t * t * t / 38710000.0;
-    const gmstHours = (gmst % 360) / 15;
-
-    // Calculate Local Sidereal Time (LST)
-    let lst = (gmstHours + longitude / 15) % 24;
-    if (lst < 0) lst = lst + 24;
-
-    // Calculate Obliquity of Ecliptic
-    const obliquity = 23.43929111 - 0.0130041667 * t - 0.00000016389 * t * t;
-
-    // Calculate Ascendant
-    const tanLat = Math.tan((latitude * Math.PI) / 180);
-    const tanObl = Math.tan((obliquity * Math.PI) / 180);
-    const sinLST = Math.sin((lst * 15 * Math.PI) / 180);
-    const cosLST = Math.cos((lst * 15 * Math.PI) / 180);
-
-    const y = -cosLST;
-    const x = tanObl * tanLat + sinLST;
+  private ascendantFromRamc(ramc: number, obliquity: number, latitude: number): number {
+    const r = this.toRadians(ramc);
+    const e = this.toRadians(obliquity);
+    const phi = this.toRadians(latitude);
+
+    return this.normalizeDegrees(
+      this.toDegrees(Math.atan2(Math.cos(r), -(Math.sin(r) * Math.cos(e) + Math.tan(phi) * Math.sin(e)))),
+    );
+  }
 
-    let lagna = (Math.atan2(y, x) * 180) / Math.PI;
-    if (lagna < 0) lagna += 360;
+  /**
+   * Ecliptic longitude of the ecliptic point with the given right ascension
+   */
+  private eclipticFromRightAscension(rightAscension: number, obliquity: number): number {
+    const r = this.toRadians(rightAscension);
+    return this.normalizeDegrees(
+      this.toDegrees(Math.atan2(Math.sin(r), Math.cos(r) * Math.cos(this.toRadians(obliquity)))),
+    );
+  }
 
-    return lagna;
+  /**
+   * Calculate sidereal planetary positions from the ephemeris engine
+   */
+  private async calculatePlanets(
+    datetime: Date,
+    ayanamsa: number,
+    nodeType: NodeType,
+  ): Promise<PlanetaryPosition[]> {
+    const positions = this.ephemerisService.getPositions(datetime, nodeType);
+
+    const planets = Object.entries(positions).map(([name, position]) =>
+      this.createPlanetPosition(name, position, ayanamsa),
+    );
+
+    return this.applyPlanetaryStates(planets);
   }
 
   /**
-   * Calculate planetary positions using VSOP87 algorithm (simplified)
-   * For production, use full VSOP87 or Swiss Ephemeris data
+   * Flag retrograde, stationary and combust planets
+   * Retrograde and stationary come from the daily speed; combustion from the
+   * longitudinal distance to the Sun within the classical orb for each planet
    */
-  private async calculatePlanets(jd: number, ayanamsa: number): Promise<PlanetaryPosition[]> {
-    const planets: PlanetaryPosition[] = [];
-
-    // Simplified planetary calculations
-    // In production, use full VSOP87 or Swiss Ephemeris data files
-
-    const t = (jd - 2451545.0) / 36525.0;
-
-    // Sun (simplified)
-    let sunLongitude = (280.46646 + 36000.76983 * t + 0.0003032 * t * t) % 360;
-    if (sunLongitude < 0) sunLongitude = sunLongitude + 360;
-    planets.push(this.createPlanetPosition('Sun', sunLongitude, ayanamsa));
-
-    // Moon (simplified)
-    let moonLongitude = (218.3164477 + 481267.88123421 * t - 0.0015786 * t * t) % 360;
-    if (moonLongitude < 0) moonLongitude = moonLongitude + 360;
-    planets.push(this.createPlanetPosition('Moon', moonLongitude, ayanamsa));
-
-    // Mars (simplified)
-    let marsLongitude = (355.433 + 19140.299 * t) % 360;
-    if (marsLongitude < 0) marsLongitude = marsLongitude + 360;
-    planets.push(this.createPlanetPosition('Mars', marsLongitude, ayanamsa));
-
-    // Mercury (simplified)
-    let mercuryLongitude = (252.250906 + 149472.6746358 * t - 0.00000536 * t * t) % 360;
-    if (mercuryLongitude < 0) mercuryLongitude = mercuryLongitude + 360;
-    planets.push(this.createPlanetPosition('Mercury', mercuryLongitude, ayanamsa));
-
-    // Jupiter (simplified)
-    let jupiterLongitude = (34.351519 + 3034.9057 * t) % 360;
-    if (jupiterLongitude < 0) jupiterLongitude = jupiterLongitude + 360;
-    planets.push(this.createPlanetPosition('Jupiter', jupiterLongitude, ayanamsa));
-
-    // Venus (simplified)
-    let venusLongitude = (181.979801 + 58517.815676 * t + 0.00000165 * t * t) % 360;
-    if (venusLongitude < 0) venusLongitude = venusLongitude + 360;
-    planets.push(this.createPlanetPosition('Venus', venusLongitude, ayanamsa));
-
-    // Saturn (simplified)
-    let saturnLongitude = (50.077444 + 1222.113848 * t) % 360;
-    if (saturnLongitude < 0) saturnLongitude = saturnLongitude + 360;
-    planets.push(this.createPlanetPosition('Saturn', saturnLongitude, ayanamsa));
-
-    // Rahu (North Node) - Mean Node calculation
-    let rahuLongitude = (125.0445222 - 1934.1362608 * t + 0.0020708 * t * t) % 360;
-    if (rahuLongitude < 0) rahuLongitude = rahuLongitude + 360;
-    planets.push(this.createPlanetPosition('Rahu', rahuLongitude, ayanamsa));
-
-    // Ketu (South Node) - 180 degrees from Rahu
-    const ketuLongitude = (rahuLongitude + 180) % 360;
-    planets.push(this.createPlanetPosition('Ketu', ketuLongitude, ayanamsa));
-
-    return planets;
+  applyPlanetaryStates(planets: PlanetaryPosition[]): PlanetaryPosition[] {
+    const sun = planets.find((p) => p.name === 'Sun');
+
+    return planets.map((planet) => {
+      const isRetrograde = planet.speed < 0;
+      const stationaryThreshold = this.stationaryThresholds[planet.name];
+      const isStationary = stationaryThreshold !== undefined && Math.abs(planet.speed) < stationaryThreshold;
+
+      let isCombust = false;
+      const orb = this.combustionOrbs[planet.name];
+      if (sun && orb) {
+        const distance = Math.abs(((planet.longitude - sun.longitude + 540) % 360) - 180);
+        isCombust = distance <= (isRetrograde ? orb.retrograde : orb.direct);
+      }
+
+      return { ...planet, isRetrograde, isStationary, isCombust };
+    });
   }
 
   /**
    * Create planetary position object
    */
-  private createPlanetPosition(name: string, longitude: number, ayanamsa: number): PlanetaryPosition {
+  private createPlanetPosition(name: string, position: EclipticPosition, ayanamsa: number): PlanetaryPosition {
     // Apply Ayanamsa to get sidereal longitude
-    const siderealLongitude = (longitude - ayanamsa + 360) % 360;
+    const siderealLongitude = (position.longitude - ayanamsa + 360) % 360;
     const sign = this.getSignFromLongitude(siderealLongitude);
     const nakshatra = this.getNakshatraFromLongitude(siderealLongitude);
 
     return {
       name,
       longitude: siderealLongitude,
-      latitude: 0, // Simplified
-      distance: 0, // Simplified
-      speed: 0, // Simplified
-      isRetrograde: false, // Simplified - would need velocity calculation
+      latitude: position.latitude,
+      distance: position.distance,
+      speed: position.speed,
+      isRetrograde: false, // Set from speed in applyPlanetaryStates
+      isStationary: false,
+      isCombust: false,
       sign,
       signLord: this.signLords[sign] || '',
       nakshatra: nakshatra.name,
       nakshatraLord: nakshatra.lord,
       nakshatraPada: nakshatra.pada,
       house: 0, // Will be calculated after houses are determined
+      rashiHouse: 0,
     };
   }
 
   /**
-   * Calculate houses using Placidus system
+   * Calculate sidereal house cusps for the requested house system
+   * Placidus and Koch are undefined inside the polar circles; those charts
+   * fall back to Sripati (Porphyry) cusps.
    */
-  private calculateHouses(lagnaLongitude: number): HousePosition[] {
-    const houses: HousePosition[] = [];
+  calculateHouses(
+    angles: { ramc: number; obliquity: number; latitude: number; ascendant: number; midheaven: number },
+    latitude: number,
+    ayanamsa: number,
+    system: HouseSystem,
+  ): HousePosition[] {
+    let starts: number[];
+    let mids: number[] | null = null;
+
+    switch (system) {
+      case 'whole_sign': {
+        const lagnaSignStart = Math.floor(this.normalizeDegrees(angles.ascendant - ayanamsa) / 30) * 30;
+        starts = Array.from({ length: 12 }, (_, i) => this.normalizeDegrees(lagnaSignStart + ayanamsa + i * 30));
+        break;
+      }
+      case 'equal':
+        starts = Array.from({ length: 12 }, (_, i) => this.normalizeDegrees(angles.ascendant + i * 30));
+        break;
+      case 'sripati': {
+        // Porphyry cusps are the bhava madhyas; sandhis lie halfway between them
+        mids = this.calculatePorphyryCusps(angles);
+        starts = mids.map((mid, i) => {
+          const previous = mids[(i + 11) % 12];
+          return this.normalizeDegrees(previous + this.arc(previous, mid) / 2);
+        });
+        break;
+      }
+      case 'koch':
+      case 'placidus': {
+        const cusps =
+          system === 'placidus' ? this.calculatePlacidusCusps(angles) : this.calculateKochCusps(angles);
+        if (cusps.some((cusp) => Number.isNaN(cusp))) {
+          this.logger.warn(`${system} houses undefined at latitude ${latitude}, using Sripati cusps`);
+          return this.calculateHouses(angles, latitude, ayanamsa, 'sripati');
+        }
+        starts = cusps;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported house system: ${system}`);
+    }
 
-    for (let i = 0; i < 12; i++) {
-      const cuspLongitude = (lagnaLongitude + i * 30) % 360;
-      const sign = this.getSignFromLongitude(cuspLongitude);
-      const degrees = cuspLongitude % 30;
+    return starts.map((start, i) => {
+      const next = starts[(i + 1) % 12];
+      const siderealStart = this.normalizeDegrees(start - ayanamsa);
+      const siderealEnd = this.normalizeDegrees(next - ayanamsa);
+      const siderealMid = this.normalizeDegrees((mids ? mids[i] : start + this.arc(start, next) / 2) - ayanamsa);
+      const sign = this.getSignFromLongitude(siderealStart);
 
-      houses.push({
+      return {
         houseNumber: i + 1,
-        cuspLongitude,
+        cuspLongitude: siderealStart,
+        midLongitude: siderealMid,
         sign,
         signLord: this.signLords[sign] || '',
-        startDegree: degrees,
-        endDegree: (degrees + 30) % 30,
-      });
+        startDegree: siderealStart,
+        endDegree: siderealEnd,
+      };
+    });
+  }
+
+  /**
+   * Porphyry cusps: each quadrant between the angles divided into three equal arcs
+   */
+  private calculatePorphyryCusps(angles: { ascendant: number; midheaven: number }): number[] {
+    const { ascendant, midheaven } = angles;
+    const ic = this.normalizeDegrees(midheaven + 180);
+    const upper = this.arc(midheaven, ascendant);
+    const lower = this.arc(ascendant, ic);
+
+    const cusps: number[] = new Array(12);
+    cusps[0] = ascendant;
+    cusps[1] = this.normalizeDegrees(ascendant + lower / 3);
+    cusps[2] = this.normalizeDegrees(ascendant + (2 * lower) / 3);
+    cusps[9] = midheaven;
+    cusps[10] = this.normalizeDegrees(midheaven + upper / 3);
+    cusps[11] = this.normalizeDegrees(midheaven + (2 * upper) / 3);
+
+    return this.withOppositeCusps(cusps);
+  }
+
+  /**
+   * Placidus cusps: trisection of the diurnal/nocturnal semi-arc of each cusp degree
+   */
+  private calculatePlacidusCusps(angles: {
+    ramc: number;
+    obliquity: number;
+    latitude: number;
+    ascendant: number;
+    midheaven: number;
+  }): number[] {
+    const { ramc, obliquity, latitude } = angles;
+    const tanPhi = Math.tan(this.toRadians(latitude));
+    const tanEps = Math.tan(this.toRadians(obliquity));
+
+    // Iterate the right ascension until the cusp sits at the required fraction of its semi-arc
+    const solve = (fraction: number, nocturnal: boolean): number => {
+      let ra = nocturnal ? ramc + 180 - 90 * fraction : ramc + 90 * fraction;
+      for (let i = 0; i < 50; i++) {
+        const declination = Math.atan(tanEps * Math.sin(this.toRadians(ra)));
+        const ascensionalDifference = this.toDegrees(Math.asin(tanPhi * Math.tan(declination)));
+        const next = nocturnal
+          ? ramc + 180 - fraction * (90 - ascensionalDifference)
+          : ramc + fraction * (90 + ascensionalDifference);
+        if (Number.isNaN(next)) return NaN;
+        if (Math.abs(next - ra) < 1e-7) {
+          ra = next;
+          break;
+        }
+        ra = next;
+      }
+      return this.eclipticFromRightAscension(ra, obliquity);
+    };
+
+    const cusps: number[] = new Array(12);
+    cusps[0] = angles.ascendant;
+    cusps[1] = solve(2 / 3, true);
+    cusps[2] = solve(1 / 3, true);
+    cusps[9] = angles.midheaven;
+    cusps[10] = solve(1 / 3, false);
+    cusps[11] = solve(2 / 3, false);
+
+    return this.withOppositeCusps(cusps);
+  }
+
+  /**
+   * Koch (birthplace) cusps: trisection of the Midheaven degree's semi-arc in oblique ascension
+   */
+  private calculateKochCusps(angles: {
+    ramc: number;
+    obliquity: number;
+    latitude: number;
+    ascendant: number;
+    midheaven: number;
+  }): number[] {
+    const { ramc, obliquity, latitude } = angles;
+    const declinationMc = Math.asin(
+      Math.sin(this.toRadians(obliquity)) * Math.sin(this.toRadians(angles.midheaven)),
+    );
+    const ascensionalDifference = this.toDegrees(
+      Math.asin(Math.tan(this.toRadians(latitude)) * Math.tan(declinationMc)),
+    );
+    const diurnal = 90 + ascensionalDifference;
+    const ascendantAt = (offset: number) => this.ascendantFromRamc(ramc + offset, obliquity, latitude);
+
+    const cusps: number[] = new Array(12);
+    cusps[0] = angles.ascendant;
+    cusps[1] = ascendantAt(diurnal / 3);
+    cusps[2] = ascendantAt((2 * diurnal) / 3);
+    cusps[9] = angles.midheaven;
+    cusps[10] = ascendantAt(-diurnal + diurnal / 3);
+    cusps[11] = ascendantAt(-diurnal + (2 * diurnal) / 3);
+
+    if (Number.isNaN(ascensionalDifference)) {
+      return cusps.fill(NaN);
+    }
+    return this.withOppositeCusps(cusps);
+  }
+
+  /**
+   * Fill houses 4-9 as the points opposite houses 10-3
+   */
+  private withOppositeCusps(cusps: number[]): number[] {
+    for (const i of [0, 1, 2, 9, 10, 11]) {
+      cusps[(i + 6) % 12] = this.normalizeDegrees(cusps[i] + 180);
     }
+    return cusps;
+  }
+
+  /**
+   * Forward arc (0-360) from one longitude to another
+   */
+  private arc(from: number, to: number): number {
+    return this.normalizeDegrees(to - from);
+  }
 
-    return houses;
+  private normalizeDegrees(degrees: number): number {
+    const value = degrees % 360;
+    return value < 0 ? value + 360 : value;
+  }
+
+  private toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+
+  private toDegrees(radians: number): number {
+    return (radians * 180) / Math.PI;
   }
 
   /**
@@ -389,84 +671,37 @@ export class SwissEphemerisService {
   }
 
   /**
-   * Calculate Tithi (lunar day)
+   * Calculate Tithi (lunar day): each 12° of Moon-Sun elongation
    */
-  private calculateTithi(jd: number): string {
-    // Simplified tithi calculation
-    const t = (jd - 2451545.0) / 36525.0;
-    const moonLongitude = (218.3164477 + 481267.88123421 * t) % 360;
-    const sunLongitude = (280.46646 + 36000.76983 * t) % 360;
-    const tithi = Math.floor(((moonLongitude - sunLongitude + 360) % 360) / 12) + 1;
-
-    const tithiNames = [
-      'Prathama', 'Dwitiya', 'Tritiya', 'Chaturthi', 'Panchami',
-      'Shashthi', 'Saptami', 'Ashtami', 'Navami', 'Dashami',
-      'Ekadashi', 'Dwadashi', 'Trayodashi', 'Chaturdashi', 'Purnima/Amavasya',
-    ];
-
-    return tithiNames[Math.min(14, Math.max(0, tithi - 1))] || '';
+  private calculateTithi(sunLongitude: number, moonLongitude: number): string {
+    const tithi = Math.floor(((moonLongitude - sunLongitude + 360) % 360) / 12);
+    return TITHI_NAMES[Math.min(29, tithi)];
   }
 
   /**
-   * Calculate Yoga
+   * Calculate Yoga: each 13°20' of the sidereal Sun + Moon longitude
    */
-  private calculateYoga(jd: number): string {
-    // Simplified yoga calculation
-    const t = (jd - 2451545.0) / 36525.0;
-    const moonLongitude = (218.3164477 + 481267.88123421 * t) % 360;
-    const sunLongitude = (280.46646 + 36000.76983 * t) % 360;
-    const yoga = Math.floor(((moonLongitude + sunLongitude) % 360) / 13.333) + 1;
-
-    const yogaNames = [
-      'Vishkambha', 'Preeti', 'Ayushman', 'Saubhagya', 'Shobhana',
-      'Atiganda', 'Sukarma', 'Dhriti', 'Shoola', 'Ganda',
-      'Vriddhi', 'Dhruva', 'Vyaghata', 'Harshana', 'Vajra',
-      'Siddhi', 'Vyatipata', 'Variyan', 'Parigha', 'Shiva',
-      'Siddha', 'Sadhya', 'Shubha', 'Shukla', 'Brahma',
-      'Indra', 'Vaidhriti',
-    ];
-
-    return yogaNames[Math.min(26, Math.max(0, yoga - 1))] || '';
+  private calculateYoga(sunLongitude: number, moonLongitude: number): string {
+    const yoga = Math.floor(((moonLongitude + sunLongitude) % 360) / (360 / 27));
+    return YOGA_NAMES[Math.min(26, yoga)];
   }
 
   /**
-   * Calculate Karana
+   * Calculate Karana: each 6° of Moon-Sun elongation (half a tithi)
    */
-  private calculateKarana(jd: number): string {
-    // Simplified karana calculation
-    const t = (jd - 2451545.0) / 36525.0;
-    const moonLongitude = (218.3164477 + 481267.88123421 * t) % 360;
-    const sunLongitude = (280.46646 + 36000.76983 * t) % 360;
-    const karana = Math.floor(((moonLongitude - sunLongitude + 360) % 360) / 6) + 1;
-
-    const karanaNames = [
-      'Bava', 'Balava', 'Kaulava', 'Taitila', 'Garija',
-      'Vanija', 'Visti', 'Shakuni', 'Chatushpada', 'Naga',
-      'Kimstughna',
-    ];
-
-    return karanaNames[Math.min(10, Math.max(0, karana - 1))] || '';
+  private calculateKarana(sunLongitude: number, moonLongitude: number): string {
+    const karana = Math.floor(((moonLongitude - sunLongitude + 360) % 360) / 6);
+    return KARANA_NAMES[Math.min(59, karana)];
   }
 
   /**
-   * Assign planets to houses
+   * Assign planets to houses (bhava placement) using the house cusps
    */
   assignPlanetsToHouses(planets: PlanetaryPosition[], houses: HousePosition[]): PlanetaryPosition[] {
     return planets.map((planet) => {
-      const house = houses.find((h) => {
-        const start = h.startDegree;
-        const end = h.endDegree === 0 ? 30 : h.endDegree;
-        const planetDegrees = planet.longitude % 30;
-
-        // Handle house boundaries
-        if (h.houseNumber === 12 && planetDegrees >= start) {
-          return true;
-        }
-        if (h.houseNumber === 1 && planetDegrees < end) {
-          return true;
-        }
-        return planetDegrees >= start && planetDegrees < end;
-      });
+      const house = houses.find(
+        (h) => this.arc(h.startDegree, planet.longitude) < this.arc(h.startDegree, h.endDegree),
+      );
 
       return {
         ...planet,
@@ -474,5 +709,16 @@ export class SwissEphemerisService {
       };
     });
   }
-}
 
+  /**
+   * Assign whole-sign (rashi) houses counted from the lagna sign
+   */
+  assignRashiHouses(planets: PlanetaryPosition[], lagnaLongitude: number): PlanetaryPosition[] {
+    const lagnaSignIndex = Math.floor(lagnaLongitude / 30);
+
+    return planets.map((planet) => ({
+      ...planet,
+      rashiHouse: ((Math.floor(planet.longitude / 30) - lagnaSignIndex + 12) % 12) + 1,
+    }));
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * Timezone Service
+ *
+ * Converts local civil birth date/time to Universal Time using the IANA tz
+ * database bundled with the Node.js ICU data. This covers historical offsets
+ * and DST rules (e.g. Indian war time +06:30 in 1942-45, Bombay/Calcutta
+ * local mean times before IST, US/European DST history) without any network
+ * lookups.
+ */
+
+export interface ResolvedBirthTime {
+  utc: Date;
+  timezone: string;
+  utcOffsetMinutes: number; // may be fractional for local mean time offsets
+  utcOffset: string; // e.g. +05:30
+  isAmbiguous: boolean; // local time occurred twice (DST fall-back), earliest instant used
+  isNonexistent: boolean; // local time skipped (DST spring-forward), pre-transition offset used
+}
+
+@Injectable()
+export class TimezoneService {
+  private readonly logger = new Logger(TimezoneService.name);
+
+  private readonly formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Check whether a timezone is a known IANA zone
+   */
+  isValidTimezone(timezone: string): boolean {
+    if (!timezone) return false;
+    try {
+      this.getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the UTC offset (minutes east of Greenwich) in effect at an instant
+   */
+  getUtcOffsetMinutes(timezone: string, instant: Date): number {
+    const parts = this.getFormatter(timezone).formatToParts(instant);
+    const value = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+
+    const wallClock = Date.UTC(
+      value('year'),
+      value('month') - 1,
+      value('day'),
+      value('hour'),
+      value('minute'),
+      value('second'),
+    );
+    const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+
+    return (wallClock - instantSeconds) / 60000;
+  }
+
+  /**
+   * Local civil date (YYYY-MM-DD) in an IANA zone at an instant
+   */
+  toLocalDate(instant: Date, timezone: string): string {
+    const offset = this.getUtcOffsetMinutes(timezone, instant);
+    return new Date(instant.getTime() + offset * 60000).toISOString().split('T')[0];
+  }
+
+  /**
+   * Convert a local date (YYYY-MM-DD) and time (HH:mm[:ss]) in an IANA zone to UT
+   */
+  toUniversalTime(date: string, time: string, timezone: string): ResolvedBirthTime {
+    if (!this.isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+
+    const [year, month, day] = date.split('T')[0].split('-').map((v) => parseInt(v, 10));
+    const [hour, minute, second = 0] = (time || '00:00:00').split(':').map((v) => parseInt(v, 10));
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Offsets a day either side bracket any transition affecting this wall time
+    const dayMs = 86400000;
+    const offsetBefore = this.getUtcOffsetMinutes(timezone, new Date(wallClock - dayMs));
+    const offsetAfter = this.getUtcOffsetMinutes(timezone, new Date(wallClock + dayMs));
+
+    const candidates = [offsetBefore, offsetAfter]
+      .filter((offset, index, all) => all.indexOf(offset) === index)
+      .map((offset) => ({ offset, utc: new Date(wallClock - offset * 60000) }))
+      .filter(({ offset, utc }) => this.getUtcOffsetMinutes(timezone, utc) === offset)
+      .sort((a, b) => a.utc.getTime() - b.utc.getTime());
+
+    let resolved = candidates[0];
+    const isNonexistent = candidates.length === 0;
+    if (isNonexistent) {
+      this.logger.warn(`Local time ${date} ${time} does not exist in ${timezone}, using pre-transition offset`);
+      resolved = { offset: offsetBefore, utc: new Date(wallClock - offsetBefore * 60000) };
+    }
+
+    return {
+      utc: resolved.utc,
+      timezone,
+      utcOffsetMinutes: resolved.offset,
+      utcOffset: this.formatOffset(resolved.offset),
+      isAmbiguous: candidates.length > 1,
+      isNonexistent,
+    };
+  }
+
+  /**
+   * Format an offset in minutes as +HH:MM (or +HH:MM:SS for local mean time)
+   */
+  formatOffset(offsetMinutes: number): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const totalSeconds = Math.round(Math.abs(offsetMinutes) * 60);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+
+    return `${sign}${pad(hours)}:${pad(minutes)}${seconds ? `:${pad(seconds)}` : ''}`;
+  }
+
+  private getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+}
@@ -0,0 +1,116 @@
+import { VARGA_DIVISIONS, VargaDivision, VargaService } from './varga.service';
+
+/**
+ * Divisional chart known answers from the Parashari rules (BPHS ch. 6).
+ * Longitudes are sidereal: 0 Aries, 30 Taurus, 60 Gemini, 90 Cancer.
+ */
+
+const CASES: Array<[VargaDivision, number, string, string]> = [
+  // division, longitude, expected sign, rule
+  [1, 45, 'Taurus', 'rasi sign'],
+  [2, 10, 'Leo', 'odd sign, first half: Sun'],
+  [2, 20, 'Cancer', 'odd sign, second half: Moon'],
+  [2, 40, 'Cancer', 'even sign, first half: Moon'],
+  [2, 50, 'Leo', 'even sign, second half: Sun'],
+  [3, 5, 'Aries', 'first drekkana: the sign itself'],
+  [3, 15, 'Leo', 'second drekkana: 5th'],
+  [3, 25, 'Sagittarius', 'third drekkana: 9th'],
+  [4, 10, 'Cancer', 'second quarter: 4th'],
+  [4, 25, 'Capricorn', 'fourth quarter: 10th'],
+  [7, 2, 'Aries', 'odd sign: from itself'],
+  [7, 30, 'Scorpio', 'even sign: from the 7th'],
+  [9, 0, 'Aries', 'movable: from itself'],
+  [9, 10 / 3, 'Taurus', 'movable, second pada'],
+  [9, 29.9, 'Sagittarius', 'movable, ninth pada'],
+  [9, 30, 'Capricorn', 'fixed: from the 9th'],
+  [9, 60, 'Libra', 'dual: from the 5th'],
+  [9, 90, 'Cancer', 'movable water sign'],
+  [9, 359.9, 'Pisces', 'Revati 4th pada'],
+  [10, 2, 'Aries', 'odd sign: from itself'],
+  [10, 30, 'Capricorn', 'even sign: from the 9th'],
+  [12, 29, 'Pisces', 'twelfth part: 12th'],
+  [16, 30, 'Leo', 'fixed: from Leo'],
+  [16, 60, 'Sagittarius', 'dual: from Sagittarius'],
+  [20, 30, 'Sagittarius', 'fixed: from Sagittarius'],
+  [20, 60, 'Leo', 'dual: from Leo'],
+  [24, 0, 'Leo', 'odd sign: from Leo'],
+  [24, 30, 'Cancer', 'even sign: from Cancer'],
+  [27, 30, 'Cancer', 'earth sign: from Cancer'],
+  [27, 60, 'Libra', 'air sign: from Libra'],
+  [27, 90, 'Capricorn', 'water sign: from Capricorn'],
+  [30, 3, 'Aries', 'odd sign 0-5: Mars'],
+  [30, 7, 'Aquarius', 'odd sign 5-10: Saturn'],
+  [30, 15, 'Sagittarius', 'odd sign 10-18: Jupiter'],
+  [30, 22, 'Gemini', 'odd sign 18-25: Mercury'],
+  [30, 28, 'Libra', 'odd sign 25-30: Venus'],
+  [30, 33, 'Taurus', 'even sign 0-5: Venus'],
+  [30, 40, 'Virgo', 'even sign 5-12: Mercury'],
+  [30, 45, 'Pisces', 'even sign 12-20: Jupiter'],
+  [30, 52, 'Capricorn', 'even sign 20-25: Saturn'],
+  [30, 58, 'Scorpio', 'even sign 25-30: Mars'],
+  [40, 0, 'Aries', 'odd sign: from Aries'],
+  [40, 30, 'Libra', 'even sign: from Libra'],
+  [45, 30, 'Leo', 'fixed: from Leo'],
+  [45, 60, 'Sagittarius', 'dual: from Sagittarius'],
+  [60, 0.25, 'Aries', 'first shashtiamsa: the sign itself'],
+  [60, 0.5, 'Taurus', 'second shashtiamsa'],
+];
+
+describe('VargaService', () => {
+  const service = new VargaService();
+
+  describe('getVargaPosition', () => {
+    it.each(CASES)('D%d at %d° is %s (%s)', (division, longitude, sign) => {
+      expect(service.getVargaPosition(longitude, division).sign).toBe(sign);
+    });
+
+    it('scales the degree within the division', () => {
+      // 1°40' Aries is the middle of the first navamsa
+      expect(service.getVargaPosition(5 / 3, 9).degree).toBeCloseTo(15, 9);
+      // 7°30' Aries is halfway through Saturn's trimsamsa
+      expect(service.getVargaPosition(7.5, 30).degree).toBeCloseTo(15, 9);
+    });
+
+    it('normalizes longitudes outside 0-360', () => {
+      expect(service.getVargaPosition(-330, 9)).toEqual(service.getVargaPosition(30, 9));
+      expect(service.getVargaPosition(390, 9)).toEqual(service.getVargaPosition(30, 9));
+    });
+
+    it('returns the lord of the varga sign', () => {
+      expect(service.getVargaPosition(30, 9).sign_lord).toBe('Saturn');
+    });
+  });
+
+  describe('calculateVarga', () => {
+    const planets = [
+      { name: 'Sun', longitude: 0.5 }, // Aries navamsa in Aries
+      { name: 'Moon', longitude: 30 }, // Capricorn navamsa
+      { name: 'Mars', longitude: 95 }, // Leo navamsa
+    ];
+
+    it('counts houses whole-sign from the varga lagna and flags vargottama', () => {
+      const chart = service.calculateVarga(10 / 3, planets, 9);
+
+      expect(chart.code).toBe('D9');
+      expect(chart.name).toBe('Navamsa');
+      expect(chart.lagna.sign).toBe('Taurus');
+      expect(chart.planets).toEqual([
+        expect.objectContaining({ name: 'Sun', sign: 'Aries', house: 12, is_vargottama: true }),
+        expect.objectContaining({ name: 'Moon', sign: 'Capricorn', house: 9, is_vargottama: false }),
+        expect.objectContaining({ name: 'Mars', sign: 'Leo', house: 4, is_vargottama: false }),
+      ]);
+    });
+
+    it('never marks the rasi chart vargottama', () => {
+      const chart = service.calculateVarga(0, planets, 1);
+
+      expect(chart.planets.every((p) => !p.is_vargottama)).toBe(true);
+    });
+
+    it('builds every supported division', () => {
+      const charts = service.calculateAllVargas(0, planets);
+
+      expect(Object.keys(charts)).toEqual(VARGA_DIVISIONS.map((d) => `D${d}`));
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { Injectable } from '@nestjs/common';
+import { SIGN_LORDS, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+
+/**
+ * Varga Service
+ *
+ * Parashari divisional charts (Brihat Parashara Hora Shastra, ch. 6) derived
+ * from sidereal longitudes. Each sign is cut into N parts and every part is
+ * mapped to a sign by the rule for that varga; the varga lagna is the
+ * division occupied by the rasi lagna.
+ */
+
+export const VARGA_DIVISIONS = [1, 2, 3, 4, 7, 9, 10, 12, 16, 20, 24, 27, 30, 40, 45, 60] as const;
+export type VargaDivision = (typeof VARGA_DIVISIONS)[number];
+
+export const VARGA_NAMES: Record<VargaDivision, string> = {
+  1: 'Rasi',
+  2: 'Hora',
+  3: 'Drekkana',
+  4: 'Chaturthamsa',
+  7: 'Saptamsa',
+  9: 'Navamsa',
+  10: 'Dasamsa',
+  12: 'Dwadasamsa',
+  16: 'Shodasamsa',
+  20: 'Vimsamsa',
+  24: 'Chaturvimsamsa',
+  27: 'Bhamsa',
+  30: 'Trimsamsa',
+  40: 'Khavedamsa',
+  45: 'Akshavedamsa',
+  60: 'Shashtiamsa',
+};
+
+// Trimsamsa segments: [end degree, sign index] for odd and even signs
+const TRIMSAMSA_ODD: Array<[number, number]> = [
+  [5, 0], // Mars - Aries
+  [10, 10], // Saturn - Aquarius
+  [18, 8], // Jupiter - Sagittarius
+  [25, 2], // Mercury - Gemini
+  [30, 6], // Venus - Libra
+];
+const TRIMSAMSA_EVEN: Array<[number, number]> = [
+  [5, 1], // Venus - Taurus
+  [12, 5], // Mercury - Virgo
+  [20, 11], // Jupiter - Pisces
+  [25, 9], // Saturn - Capricorn
+  [30, 7], // Mars - Scorpio
+];
+
+export interface VargaPosition {
+  sign: string;
+  sign_lord: string;
+  degree: number; // position within the varga sign, 0-30
+}
+
+export interface VargaPlanet extends VargaPosition {
+  name: string;
+  house: number; // counted whole-sign from the varga lagna
+  is_vargottama: boolean; // same sign as in the rasi chart
+}
+
+export interface VargaChart {
+  division: VargaDivision;
+  code: string; // e.g. D9
+  name: string;
+  lagna: VargaPosition;
+  planets: VargaPlanet[];
+}
+
+@Injectable()
+export class VargaService {
+  /**
+   * Check whether a number is a supported division
+   */
+  isSupportedDivision(division: number): division is VargaDivision {
+    return (VARGA_DIVISIONS as readonly number[]).includes(division);
+  }
+
+  /**
+   * Varga sign and degree for a sidereal longitude
+   */
+  getVargaPosition(longitude: number, division: VargaDivision): VargaPosition {
+    const lon = this.normalize(longitude);
+    const signIndex = Math.floor(lon / 30);
+    const degree = lon - signIndex * 30;
+
+    let vargaSign = 0;
+    let vargaDegree = 0;
+
+    if (division === 30) {
+      const segments = signIndex % 2 === 0 ? TRIMSAMSA_ODD : TRIMSAMSA_EVEN;
+      let segmentStart = 0;
+      for (const [segmentEnd, sign] of segments) {
+        if (degree < segmentEnd || segmentEnd === 30) {
+          vargaSign = sign;
+          vargaDegree = ((degree - segmentStart) / (segmentEnd - segmentStart)) * 30;
+          break;
+        }
+        segmentStart = segmentEnd;
+      }
+    } else {
+      const span = 30 / division;
+      const part = Math.min(Math.floor(degree / span), division - 1);
+      vargaSign = this.getVargaSignIndex(signIndex, part, degree, division);
+      vargaDegree = (degree - part * span) * division;
+    }
+
+    const sign = ZODIAC_SIGNS[vargaSign];
+    return { sign, sign_lord: SIGN_LORDS[sign], degree: vargaDegree };
+  }
+
+  /**
+   * Build one divisional chart from the rasi lagna and planet longitudes
+   */
+  calculateVarga(
+    lagnaLongitude: number,
+    planets: Array<{ name: string; longitude: number }>,
+    division: VargaDivision,
+  ): VargaChart {
+    const lagna = this.getVargaPosition(lagnaLongitude, division);
+    const lagnaIndex = ZODIAC_SIGNS.indexOf(lagna.sign);
+
+    return {
+      division,
+      code: `D${division}`,
+      name: VARGA_NAMES[division],
+      lagna,
+      planets: planets.map((planet) => {
+        const position = this.getVargaPosition(planet.longitude, division);
+        const rasiSign = ZODIAC_SIGNS[Math.floor(this.normalize(planet.longitude) / 30)];
+        return {
+          name: planet.name,
+          ...position,
+          house: ((ZODIAC_SIGNS.indexOf(position.sign) - lagnaIndex + 12) % 12) + 1,
+          is_vargottama: division !== 1 && position.sign === rasiSign,
+        };
+      }),
+    };
+  }
+
+  /**
+   * All supported divisional charts keyed by code (D1, D2, ... D60)
+   */
+  calculateAllVargas(
+    lagnaLongitude: number,
+    planets: Array<{ name: string; longitude: number }>,
+  ): Record<string, VargaChart> {
+    const charts: Record<string, VargaChart> = {};
+    for (const division of VARGA_DIVISIONS) {
+      charts[`D${division}`] = this.calculateVarga(lagnaLongitude, planets, division);
+    }
+    return charts;
+  }
+
+  /**
+   * Longitude in [0, 360). Only negative values are shifted, so a longitude
+   * exactly on a division boundary is not rounded back into the previous part.
+   */
+  private normalize(longitude: number): number {
+    const remainder = longitude % 360;
+    return remainder < 0 ? remainder + 360 : remainder;
+  }
+
+  /**
+   * Sign index of the given part of a rasi sign for the uniform vargas
+   */
+  private getVargaSignIndex(signIndex: number, part: number, degree: number, division: VargaDivision): number {
+    const isOdd = signIndex % 2 === 0; // Aries (index 0) is an odd sign
+    const modality = signIndex % 3; // 0 movable, 1 fixed, 2 dual
+
+    switch (division) {
+      case 1:
+        return signIndex;
+      case 2:
+        // Odd signs: Sun's hora (Leo) then Moon's (Cancer); even signs reversed
+        return (degree < 15) === isOdd ? 4 : 3;
+      case 3:
+        return (signIndex + part * 4) % 12;
+      case 4:
+        return (signIndex + part * 3) % 12;
+      case 7:
+        return (signIndex + (isOdd ? 0 : 6) + part) % 12;
+      case 9:
+        // Movable from itself, fixed from the 9th, dual from the 5th
+        return (signIndex + [0, 8, 4][modality] + part) % 12;
+      case 10:
+        return (signIndex + (isOdd ? 0 : 8) + part) % 12;
+      case 12:
+        return (signIndex + part) % 12;
+      case 16:
+        // Aries, Leo, Sagittarius for movable, fixed, dual
+        return ([0, 4, 8][modality] + part) % 12;
+      case 20:
+        // Aries, Sagittarius, Leo for movable, fixed, dual
+        return ([0, 8, 4][modality] + part) % 12;
+      case 24:
+        return ((isOdd ? 4 : 3) + part) % 12;
+      case 27:
+        // Fire from Aries, earth from Cancer, air from Libra, water from Capricorn
+        return ((signIndex % 4) * 3 + part) % 12;
+      case 40:
+        return ((isOdd ? 0 : 6) + part) % 12;
+      case 45:
+        // Aries, Leo, Sagittarius for movable, fixed, dual
+        return ([0, 4, 8][modality] + part) % 12;
+      case 60:
+        return (signIndex + part) % 12;
+      default:
+        throw new Error(`Unsupported varga division: D${division}`);
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import { Injectable } from '@nestjs/common';
+import { EphemerisService, NodeType } from './ephemeris.service';
+import { KundliData, SIGN_LORDS, SwissEphemerisService, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { DignityService, EXALTATION_POINTS, SEVEN_GRAHAS } from './dignity.service';
+import { VargaService } from './varga.service';
+import { DASHA_SEQUENCE, DASHA_YEARS } from './vimshottari-dasha.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from './ayanamsa.service';
+
+/**
+ * Varshaphal Service
+ *
+ * Tajik annual chart (solar return). The year begins at the instant the
+ * sidereal Sun returns to its natal longitude; the chart cast for that
+ * instant is read with:
+ * - Muntha: progresses one sign a year from the natal lagna
+ * - Panchadhikaris: the five office-bearers (Muntha lord, natal lagna lord,
+ *   annual lagna lord, Tri-rashi pati and Dina-ratri pati)
+ * - Varsheshwara: the office-bearer with the highest Panchavargiya bala
+ *   that aspects the annual lagna (Tajik aspects: all houses except 2, 6, 8, 12)
+ * - Mudda dasha: Vimshottari compressed into the year, starting from the
+ *   natal nakshatra lord advanced by the completed years
+ */
+
+// Tri-rashi lords of the annual lagna sign for day and night returns
+const TRI_RASHI_LORDS: Record<'day' | 'night', string[]> = {
+  day: ['Sun', 'Venus', 'Saturn', 'Venus', 'Jupiter', 'Moon', 'Mercury', 'Mars', 'Saturn', 'Mars', 'Jupiter', 'Moon'],
+  night: ['Jupiter', 'Moon', 'Mercury', 'Mars', 'Sun', 'Venus', 'Saturn', 'Venus', 'Saturn', 'Moon', 'Mercury', 'Mars'],
+};
+
+// Hadda (Egyptian terms) per sign from Aries: [lord, end degree]
+const HADDAS: Array<Array<[string, number]>> = [
+  [['Jupiter', 6], ['Venus', 12], ['Mercury', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 8], ['Mercury', 14], ['Jupiter', 22], ['Saturn', 27], ['Mars', 30]],
+  [['Mercury', 6], ['Jupiter', 12], ['Venus', 17], ['Mars', 24], ['Saturn', 30]],
+  [['Mars', 7], ['Venus', 13], ['Mercury', 19], ['Jupiter', 26], ['Saturn', 30]],
+  [['Jupiter', 6], ['Venus', 11], ['Saturn', 18], ['Mercury', 24], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 17], ['Jupiter', 21], ['Mars', 28], ['Saturn', 30]],
+  [['Saturn', 6], ['Mercury', 14], ['Jupiter', 21], ['Venus', 28], ['Mars', 30]],
+  [['Mars', 7], ['Venus', 11], ['Mercury', 19], ['Jupiter', 24], ['Saturn', 30]],
+  [['Jupiter', 12], ['Venus', 17], ['Mercury', 21], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Jupiter', 14], ['Venus', 22], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 13], ['Jupiter', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 12], ['Jupiter', 16], ['Mercury', 19], ['Mars', 28], ['Saturn', 30]],
+];
+
+// Full strength of each vargiya bala in its own division
+const KSHETRA_FULL = 30;
+const HADDA_FULL = 15;
+const DREKKANA_FULL = 10;
+const NAVAMSA_FULL = 5;
+const UCHCHA_FULL = 20;
+
+// Share of full strength by relationship with the lord of the division
+const RELATION_SHARE = { own: 1, friend: 0.75, neutral: 0.5, enemy: 0.25 };
+
+// Houses from which a planet casts a Tajik aspect on another (whole sign)
+const TAJIK_ASPECT_HOUSES = [1, 3, 4, 5, 7, 9, 10, 11];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PanchadhikariRole = 'muntha_lord' | 'janma_lagna_lord' | 'varsha_lagna_lord' | 'tri_rashi_pati' | 'dina_ratri_pati';
+
+export interface VarshaphalNatalInput {
+  birthDate: Date; // UT instant of birth
+  sunLongitude: number; // sidereal
+  moonLongitude: number; // sidereal
+  lagnaLongitude: number; // sidereal
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  ayanamsa?: AyanamsaKey; // AyanamsaMaster slug or legacy code. Default: Lahiri
+  nodeType?: NodeType; // Default: mean node
+}
+
+export interface PanchavargiyaBala {
+  kshetra: number;
+  uchcha: number;
+  hadda: number;
+  drekkana: number;
+  navamsa: number;
+  total: number; // sum / 4, 0-20
+}
+
+export interface MuddaDashaPeriod {
+  lord: string;
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+export interface VarshaphalResult {
+  year: number;
+  completed_years: number;
+  solar_return: Date;
+  next_solar_return: Date;
+  is_day_return: boolean;
+  chart: KundliData;
+  muntha: {
+    sign: string;
+    house: number; // whole-sign house from the annual lagna
+    lord: string;
+    lord_house: number;
+  };
+  panchadhikaris: Array<{ role: PanchadhikariRole; planet: string }>;
+  panchavargiya_bala: Record<string, PanchavargiyaBala>;
+  varsheshwara: {
+    planet: string;
+    bala: number;
+    aspects_lagna: boolean;
+    roles: PanchadhikariRole[];
+  };
+  mudda_dasha: MuddaDashaPeriod[];
+}
+
+@Injectable()
+export class VarshaphalService {
+  constructor(
+    private readonly ephemerisService: EphemerisService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly dignityService: DignityService,
+    private readonly vargaService: VargaService,
+  ) {}
+
+  /**
+   * Annual chart for the Varsha year starting on the birthday in `year`.
+   * The chart is cast for the given location (the birth place by default).
+   */
+  async calculate(
+    natal: VarshaphalNatalInput,
+    year: number,
+    location?: { latitude: number; longitude: number; timezone: string },
+  ): Promise<VarshaphalResult> {
+    const ayanamsa = natal.ayanamsa ?? DEFAULT_AYANAMSA;
+    const completedYears = year - natal.birthDate.getUTCFullYear();
+    if (completedYears < 0) {
+      throw new Error(`Year ${year} is before the year of birth`);
+    }
+
+    const solarReturn = this.findSolarReturn(natal.sunLongitude, natal.birthDate, year, ayanamsa);
+    const nextSolarReturn = this.findSolarReturn(natal.sunLongitude, natal.birthDate, year + 1, ayanamsa);
+
+    const place = location || { latitude: natal.latitude, longitude: natal.longitude, timezone: natal.timezone };
+    const chart = await this.swissEphemerisService.calculateKundli({
+      datetime: solarReturn,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      timezone: place.timezone,
+      ayanamsa,
+      nodeType: natal.nodeType,
+      houseSystem: 'whole_sign',
+    });
+
+    const lagnaSignIndex = Math.floor(chart.lagna.longitude / 30);
+    const houseOfSign = (signIndex: number) => ((signIndex - lagnaSignIndex + 12) % 12) + 1;
+    const longitudes = Object.fromEntries(chart.planets.map((p) => [p.name, p.longitude]));
+
+    // The Sun above the horizon (houses 7-12) makes a day return
+    const sun = chart.planets.find((p) => p.name === 'Sun');
+    const moon = chart.planets.find((p) => p.name === 'Moon');
+    const isDayReturn = sun.rashiHouse >= 7;
+
+    // Muntha
+    const munthaSignIndex = (Math.floor(natal.lagnaLongitude / 30) + completedYears) % 12;
+    const munthaSign = ZODIAC_SIGNS[munthaSignIndex];
+    const munthaLord = SIGN_LORDS[munthaSign];
+
+    // Panchadhikaris
+    const panchadhikaris: Array<{ role: PanchadhikariRole; planet: string }> = [
+      { role: 'muntha_lord', planet: munthaLord },
+      { role: 'janma_lagna_lord', planet: SIGN_LORDS[ZODIAC_SIGNS[Math.floor(natal.lagnaLongitude / 30)]] },
+      { role: 'varsha_lagna_lord', planet: chart.lagna.signLord },
+      { role: 'tri_rashi_pati', planet: TRI_RASHI_LORDS[isDayReturn ? 'day' : 'night'][lagnaSignIndex] },
+      { role: 'dina_ratri_pati', planet: isDayReturn ? sun.signLord : moon.signLord },
+    ];
+
+    const bala: Record<string, PanchavargiyaBala> = {};
+    for (const planet of SEVEN_GRAHAS) {
+      bala[planet] = this.getPanchavargiyaBala(planet, longitudes[planet]);
+    }
+
+    return {
+      year,
+      completed_years: completedYears,
+      solar_return: solarReturn,
+      next_solar_return: nextSolarReturn,
+      is_day_return: isDayReturn,
+      chart,
+      muntha: {
+        sign: munthaSign,
+        house: houseOfSign(munthaSignIndex),
+        lord: munthaLord,
+        lord_house: houseOfSign(Math.floor(longitudes[munthaLord] / 30)),
+      },
+      panchadhikaris,
+      panchavargiya_bala: bala,
+      varsheshwara: this.selectVarsheshwara(panchadhikaris, bala, longitudes, chart.lagna.longitude),
+      mudda_dasha: this.getMuddaDasha(natal.moonLongitude, completedYears, solarReturn, nextSolarReturn),
+    };
+  }
+
+  /**
+   * UT instant when the sidereal Sun returns to its natal longitude near the birthday in `year`
+   */
+  findSolarReturn(natalSunLongitude: number, birthDate: Date, year: number, ayanamsa: AyanamsaKey = DEFAULT_AYANAMSA): Date {
+    let time = Date.UTC(
+      year,
+      birthDate.getUTCMonth(),
+      birthDate.getUTCDate(),
+      birthDate.getUTCHours(),
+      birthDate.getUTCMinutes(),
+    );
+
+    // Newton iteration on the Sun's longitude; converges to well under a second
+    for (let i = 0; i < 8; i++) {
+      const date = new Date(time);
+      const position = this.ephemerisService.getPosition('Sun', date);
+      const sidereal = position.longitude - this.swissEphemerisService.getAyanamsa(date, ayanamsa);
+      const diff = ((((natalSunLongitude - sidereal) % 360) + 540) % 360) - 180;
+      time += (diff / position.speed) * DAY_MS;
+      if (Math.abs(diff) < 1e-6) break;
+    }
+
+    return new Date(Math.round(time));
+  }
+
+  /**
+   * Panchavargiya bala of a graha: kshetra, uchcha, hadda, drekkana and navamsa strengths
+   */
+  getPanchavargiyaBala(planet: string, longitude: number): PanchavargiyaBala {
+    const signIndex = this.dignityService.signIndexOf(longitude);
+    const degree = longitude - signIndex * 30;
+
+    const kshetra = KSHETRA_FULL * this.relationShare(planet, SIGN_LORDS[ZODIAC_SIGNS[signIndex]]);
+    const uchcha = (UCHCHA_FULL * (180 - this.dignityService.arcBetween(longitude, EXALTATION_POINTS[planet]))) / 180;
+    const haddaLord = HADDAS[signIndex].find(([, end]) => degree < end)?.[0] ?? HADDAS[signIndex][4][0];
+    const hadda = HADDA_FULL * this.relationShare(planet, haddaLord);
+    const drekkana = DREKKANA_FULL * this.relationShare(planet, this.vargaService.getVargaPosition(longitude, 3).sign_lord);
+    const navamsa = NAVAMSA_FULL * this.relationShare(planet, this.vargaService.getVargaPosition(longitude, 9).sign_lord);
+
+    return {
+      kshetra,
+      uchcha: Math.round(uchcha * 100) / 100,
+      hadda,
+      drekkana,
+      navamsa,
+      total: Math.round(((kshetra + uchcha + hadda + drekkana + navamsa) / 4) * 100) / 100,
+    };
+  }
+
+  private selectVarsheshwara(
+    panchadhikaris: Array<{ role: PanchadhikariRole; planet: string }>,
+    bala: Record<string, PanchavargiyaBala>,
+    longitudes: Record<string, number>,
+    lagnaLongitude: number,
+  ): VarshaphalResult['varsheshwara'] {
+    const candidates = [...new Set(panchadhikaris.map((p) => p.planet))].map((planet) => {
+      const house =
+        ((this.dignityService.signIndexOf(lagnaLongitude) - this.dignityService.signIndexOf(longitudes[planet]) + 12) % 12) + 1;
+      return {
+        planet,
+        bala: bala[planet].total,
+        aspects_lagna: TAJIK_ASPECT_HOUSES.includes(house),
+        roles: panchadhikaris.filter((p) => p.planet === planet).map((p) => p.role),
+      };
+    });
+
+    // Strongest aspecting office-bearer; the Muntha lord wins ties by coming first
+    const aspecting = candidates.filter((c) => c.aspects_lagna);
+    const pool = aspecting.length ? aspecting : candidates;
+    return pool.reduce((best, candidate) => (candidate.bala > best.bala ? candidate : best));
+  }
+
+  /**
+   * Mudda dasha: the Vimshottari cycle compressed into one year. The first
+   * lord runs its balance from the solar return and its elapsed portion
+   * closes the year.
+   */
+  private getMuddaDasha(moonLongitude: number, completedYears: number, start: Date, end: Date): MuddaDashaPeriod[] {
+    const span = 360 / 27;
+    const longitude = ((moonLongitude % 360) + 360) % 360;
+    const nakshatraIndex = Math.min(Math.floor(longitude / span), 26);
+    const elapsed = (longitude - nakshatraIndex * span) / span;
+    const firstIndex = (nakshatraIndex + completedYears) % 9;
+    const yearMs = end.getTime() - start.getTime();
+
+    const shares: Array<{ lord: string; share: number }> = [];
+    for (let i = 0; i < 9; i++) {
+      const lord = DASHA_SEQUENCE[(firstIndex + i) % 9];
+      const share = DASHA_YEARS[lord] / 120;
+      shares.push({ lord, share: i === 0 ? share * (1 - elapsed) : share });
+    }
+    if (elapsed > 0) {
+      const lord = DASHA_SEQUENCE[firstIndex];
+      shares.push({ lord, share: (DASHA_YEARS[lord] / 120) * elapsed });
+    }
+
+    let cursor = start.getTime();
+    return shares.map(({ lord, share }, i) => {
+      const periodStart = new Date(cursor);
+      cursor = i === shares.length - 1 ? end.getTime() : cursor + share * yearMs;
+      return {
+        lord,
+        start: periodStart,
+        end: new Date(cursor),
+        days: Math.round(((cursor - periodStart.getTime()) / DAY_MS) * 100) / 100,
+      };
+    });
+  }
+
+  /**
+   * Share of full vargiya strength for a graha in a division ruled by `lord`
+   */
+  private relationShare(planet: string, lord: string): number {
+    if (planet === lord) return RELATION_SHARE.own;
+    return RELATION_SHARE[this.dignityService.getNaturalRelationship(planet, lord)];
+  }
+}
@@ -0,0 +1,112 @@
+import { DASHA_SEQUENCE, DASHA_YEAR_MS, VimshottariDashaService } from './vimshottari-dasha.service';
+
+/**
+ * Vimshottari known answers: balance at birth from the Moon's nakshatra and
+ * the classical antardasha lengths (Ketu-Ketu 4 months 27 days, Venus-Venus
+ * 3 years 4 months, Sun-Sun 3 months 18 days).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BIRTH = new Date('1990-05-15T09:00:00Z');
+
+const years = (start: Date, end: Date) => (end.getTime() - start.getTime()) / DASHA_YEAR_MS;
+
+describe('VimshottariDashaService', () => {
+  const service = new VimshottariDashaService();
+
+  describe('getBalanceAtBirth', () => {
+    it.each([
+      // Moon longitude, lord, nakshatra index, balance years
+      [0, 'Ketu', 0, 7],
+      [6 + 40 / 60, 'Ketu', 0, 3.5], // middle of Ashwini
+      [360 / 27, 'Venus', 1, 20], // start of Bharani
+      [45, 'Moon', 3, 6.25], // Rohini, 5° of 13°20' crossed
+      [120, 'Ketu', 9, 7], // start of Magha opens the second round
+      [353 + 20 / 60, 'Mercury', 26, 8.5], // middle of Revati
+    ])('Moon at %d° runs %s', (longitude, lord, index, balance) => {
+      const result = service.getBalanceAtBirth(longitude);
+
+      expect(result.lord).toBe(lord);
+      expect(result.nakshatra_index).toBe(index);
+      expect(result.balance_years).toBeCloseTo(balance, 9);
+    });
+
+    it('normalizes longitudes outside 0-360', () => {
+      expect(service.getBalanceAtBirth(-315)).toEqual(service.getBalanceAtBirth(45));
+      expect(service.getBalanceAtBirth(405)).toEqual(service.getBalanceAtBirth(45));
+    });
+  });
+
+  describe('getMahadashas', () => {
+    const mahadashas = service.getMahadashas(BIRTH, 45);
+
+    it('runs the nine lords in order from the birth nakshatra lord', () => {
+      expect(mahadashas.map((p) => p.lord)).toEqual([
+        'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury', 'Ketu', 'Venus', 'Sun',
+      ]);
+      expect(mahadashas.map((p) => p.duration_years)).toEqual([10, 7, 18, 16, 19, 17, 7, 20, 6]);
+    });
+
+    it('starts the first mahadasha before birth by the elapsed portion', () => {
+      expect(years(mahadashas[0].start, BIRTH)).toBeCloseTo(3.75, 9);
+      expect(years(BIRTH, mahadashas[0].end)).toBeCloseTo(6.25, 9);
+    });
+
+    it('covers 120 contiguous years', () => {
+      mahadashas.slice(1).forEach((period, i) => {
+        expect(period.start.getTime()).toBe(mahadashas[i].end.getTime());
+      });
+      expect(years(mahadashas[0].start, mahadashas[8].end)).toBeCloseTo(120, 9);
+    });
+  });
+
+  describe('sub-periods', () => {
+    it.each([
+      ['Ketu', 7 * 7 / 120, 149], // 4 months 27 days
+      ['Venus', 20 * 20 / 120, 1217], // 3 years 4 months
+      ['Sun', 6 * 6 / 120, 109], // 3 months 18 days
+    ])('%s-%s antardasha', (lord, expectedYears, expectedDays) => {
+      const mahadasha = service.getMahadashas(BIRTH, DASHA_SEQUENCE.indexOf(lord) * (360 / 27))[0];
+      const [own] = service.getSubPeriods(mahadasha);
+
+      expect(own.level).toBe('antardasha');
+      expect(own.lord).toBe(lord);
+      expect(own.start.getTime()).toBe(mahadasha.start.getTime());
+      expect(own.duration_years).toBeCloseTo(expectedYears, 9);
+      expect(Math.floor((own.end.getTime() - own.start.getTime()) / DAY_MS)).toBe(expectedDays);
+    });
+
+    it('fills the parent period exactly', () => {
+      const mahadasha = service.getMahadashas(BIRTH, 45)[2];
+      const antardashas = service.getSubPeriods(mahadasha);
+
+      expect(antardashas[0].lord).toBe('Rahu');
+      expect(antardashas[8].end.getTime()).toBeCloseTo(mahadasha.end.getTime(), -1);
+      expect(antardashas.reduce((sum, p) => sum + p.duration_years, 0)).toBeCloseTo(18, 9);
+    });
+
+    it('stops below prana', () => {
+      const prana = service.getActiveChain(BIRTH, 45, BIRTH, 'prana')[4];
+
+      expect(prana.level).toBe('prana');
+      expect(service.getSubPeriods(prana)).toEqual([]);
+    });
+  });
+
+  describe('getActiveChain', () => {
+    it('returns the running period at each level, nested inside its parent', () => {
+      const chain = service.getActiveChain(BIRTH, 45, new Date('2000-01-01T00:00:00Z'));
+
+      expect(chain.map((p) => p.level)).toEqual(['mahadasha', 'antardasha', 'pratyantar', 'sookshma', 'prana']);
+      expect(chain[0].lord).toBe('Mars'); // Moon ends 1996-08-15, Mars runs to 2003
+      chain.slice(1).forEach((period, i) => {
+        expect(period.start.getTime()).toBeGreaterThanOrEqual(chain[i].start.getTime());
+        expect(period.end.getTime()).toBeLessThanOrEqual(chain[i].end.getTime() + 1);
+      });
+    });
+
+    it('is empty outside the 120-year cycle', () => {
+      expect(service.getActiveChain(BIRTH, 45, new Date('2200-01-01T00:00:00Z'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Vimshottari Dasha Service
+ *
+ * 120-year Vimshottari cycle driven by the Moon's sidereal longitude. The
+ * birth nakshatra's lord runs the first mahadasha; the fraction of the
+ * nakshatra the Moon has already crossed is the part of that mahadasha that
+ * elapsed before birth (dasha balance). Each period divides into nine
+ * sub-periods in the same order, starting from its own lord, in proportion
+ * to their mahadasha years: antardasha, pratyantar, sookshma and prana.
+ */
+
+export const DASHA_SEQUENCE = ['Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury'];
+
+export const DASHA_YEARS: Record<string, number> = {
+  Ketu: 7,
+  Venus: 20,
+  Sun: 6,
+  Moon: 10,
+  Mars: 7,
+  Rahu: 18,
+  Jupiter: 16,
+  Saturn: 19,
+  Mercury: 17,
+};
+
+export const DASHA_LEVELS = ['mahadasha', 'antardasha', 'pratyantar', 'sookshma', 'prana'] as const;
+export type DashaLevel = (typeof DASHA_LEVELS)[number];
+
+// Dasha years are counted as Julian years of 365.25 days
+export const DASHA_YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+const TOTAL_YEARS = 120;
+const NAKSHATRA_SPAN = 360 / 27;
+
+export interface DashaPeriod {
+  level: DashaLevel;
+  lord: string;
+  start: Date;
+  end: Date;
+  duration_years: number;
+  sub_periods?: DashaPeriod[];
+}
+
+export interface DashaBalance {
+  lord: string;
+  nakshatra_index: number; // 0 = Ashwini
+  elapsed_fraction: number; // portion of the nakshatra (and mahadasha) already traversed at birth
+  balance_years: number; // remaining years of the first mahadasha at birth
+}
+
+@Injectable()
+export class VimshottariDashaService {
+  /**
+   * Dasha balance at birth from the Moon's sidereal longitude
+   */
+  getBalanceAtBirth(moonLongitude: number): DashaBalance {
+    // Only shift negative values: adding 360 first would round a Moon sitting
+    // exactly on a nakshatra boundary back into the previous nakshatra
+    const remainder = moonLongitude % 360;
+    const longitude = remainder < 0 ? remainder + 360 : remainder;
+    const nakshatraIndex = Math.min(Math.floor(longitude / NAKSHATRA_SPAN), 26);
+    const elapsedFraction = (longitude - nakshatraIndex * NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+    const lord = DASHA_SEQUENCE[nakshatraIndex % 9];
+
+    return {
+      lord,
+      nakshatra_index: nakshatraIndex,
+      elapsed_fraction: elapsedFraction,
+      balance_years: DASHA_YEARS[lord] * (1 - elapsedFraction),
+    };
+  }
+
+  /**
+   * The nine mahadashas of the cycle. The first one starts before birth by
+   * the elapsed portion so that its sub-periods fall on their true dates.
+   */
+  getMahadashas(birthDate: Date, moonLongitude: number): DashaPeriod[] {
+    const balance = this.getBalanceAtBirth(moonLongitude);
+    const firstYears = DASHA_YEARS[balance.lord];
+    const cycleStart = new Date(birthDate.getTime() - balance.elapsed_fraction * firstYears * DASHA_YEAR_MS);
+    const cycleEnd = new Date(cycleStart.getTime() + TOTAL_YEARS * DASHA_YEAR_MS);
+
+    return this.divide(
+      { level: 'mahadasha', lord: balance.lord, start: cycleStart, end: cycleEnd, duration_years: TOTAL_YEARS },
+      'mahadasha',
+    );
+  }
+
+  /**
+   * Split a period into its nine sub-periods at the given level
+   */
+  getSubPeriods(period: DashaPeriod): DashaPeriod[] {
+    const index = DASHA_LEVELS.indexOf(period.level);
+    if (index === DASHA_LEVELS.length - 1) {
+      return [];
+    }
+    return this.divide(period, DASHA_LEVELS[index + 1]);
+  }
+
+  /**
+   * Dasha tree down to the requested level (inclusive)
+   */
+  getDashaTree(birthDate: Date, moonLongitude: number, depth: DashaLevel = 'antardasha'): DashaPeriod[] {
+    const maxIndex = DASHA_LEVELS.indexOf(depth);
+    const expand = (periods: DashaPeriod[]): DashaPeriod[] =>
+      periods.map((period) =>
+        DASHA_LEVELS.indexOf(period.level) < maxIndex
+          ? { ...period, sub_periods: expand(this.getSubPeriods(period)) }
+          : period,
+      );
+
+    return expand(this.getMahadashas(birthDate, moonLongitude));
+  }
+
+  /**
+   * Running periods at an instant, mahadasha first, down to the requested level.
+   * Returns an empty chain when the date falls outside the 120-year cycle.
+   */
+  getActiveChain(
+    birthDate: Date,
+    moonLongitude: number,
+    at: Date,
+    depth: DashaLevel = 'prana',
+  ): DashaPeriod[] {
+    const chain: DashaPeriod[] = [];
+    const maxIndex = DASHA_LEVELS.indexOf(depth);
+    let periods = this.getMahadashas(birthDate, moonLongitude);
+
+    for (let level = 0; level <= maxIndex; level++) {
+      const active = periods.find((p) => at >= p.start && at < p.end);
+      if (!active) break;
+      chain.push(active);
+      periods = this.getSubPeriods(active);
+    }
+
+    return chain;
+  }
+
+  private divide(period: DashaPeriod, level: DashaLevel): DashaPeriod[] {
+    const startIndex = DASHA_SEQUENCE.indexOf(period.lord);
+    const periods: DashaPeriod[] = [];
+    let start = period.start.getTime();
+
+    for (let i = 0; i < DASHA_SEQUENCE.length; i++) {
+      const lord = DASHA_SEQUENCE[(startIndex + i) % DASHA_SEQUENCE.length];
+      const years = (period.duration_years * DASHA_YEARS[lord]) / TOTAL_YEARS;
+      const end = start + years * DASHA_YEAR_MS;
+      periods.push({ level, lord, start: new Date(start), end: new Date(end), duration_years: years });
+      start = end;
+    }
+
+    return periods;
+  }
+}
@@ -0,0 +1,584 @@
+import { Injectable } from '@nestjs/common';
+import { SIGN_LORDS, ZODIAC_SIGNS } from './swiss-ephemeris.service';
+import { Dignity, DignityService, EXALTATION_POINTS, SEVEN_GRAHAS } from './dignity.service';
+
+/**
+ * Yoga Engine Service
+ *
+ * Evaluates declarative yoga rules against a rasi chart. Houses are counted
+ * whole-sign from the lagna (or from another planet when `from` is given).
+ *
+ * A condition is either a combinator or a leaf:
+ * - { all: [...] }, { any: [...] }, { not: {...} }
+ * - { exists: { var: '$p', in: [refs] | 'grahas' | 'all' }, where: {...} }
+ * - { type: 'placement', planet, houses, from? }
+ * - { type: 'in_sign', planet, signs }
+ * - { type: 'dignity', planet, dignities }
+ * - { type: 'conjunct', planets }
+ * - { type: 'aspects', from, to }
+ * - { type: 'related', planets: [a, b], via?: ['conjunction', 'aspect', 'mutual_aspect', 'exchange'] }
+ * - { type: 'occupied', houses, from?, by?: [refs] | 'benefics' | 'malefics', exclude?, min?, max? }
+ * - { type: 'lords', planet, houses }
+ * - { type: 'distinct', planets }
+ * - { type: 'state', planet, is: 'retrograde' | 'combust' }
+ *
+ * Planet references: a graha name ("Jupiter"), "lord:N" (lord of the Nth
+ * house), "dispositor:<ref>" (lord of the sign a planet occupies),
+ * "exaltation_dispositor:<ref>" (lord of its exaltation sign) or a "$var"
+ * bound by `exists`.
+ */
+
+export const ALL_GRAHAS = [...SEVEN_GRAHAS, 'Rahu', 'Ketu'];
+
+export const YOGA_CATEGORIES = [
+  'raja',
+  'dhana',
+  'mahapurusha',
+  'lunar',
+  'solar',
+  'viparita_raja',
+  'neecha_bhanga',
+  'parivartana',
+  'arishta',
+  'other',
+] as const;
+export type YogaCategory = (typeof YOGA_CATEGORIES)[number];
+
+export const YOGA_CONDITION_TYPES = [
+  'placement',
+  'in_sign',
+  'dignity',
+  'conjunct',
+  'aspects',
+  'related',
+  'occupied',
+  'lords',
+  'distinct',
+  'state',
+] as const;
+export type YogaConditionType = (typeof YOGA_CONDITION_TYPES)[number];
+
+export type YogaRelation = 'conjunction' | 'aspect' | 'mutual_aspect' | 'exchange';
+
+export interface YogaCondition {
+  // Combinators
+  all?: YogaCondition[];
+  any?: YogaCondition[];
+  not?: YogaCondition;
+  exists?: { var: string; in: string[] | 'grahas' | 'all' };
+  where?: YogaCondition;
+
+  // Leaf
+  type?: YogaConditionType;
+  planet?: string;
+  planets?: string[];
+  houses?: number[];
+  from?: string; // 'lagna' or a planet reference
+  to?: string;
+  signs?: string[];
+  dignities?: Dignity[];
+  via?: YogaRelation[];
+  by?: string[] | 'benefics' | 'malefics';
+  exclude?: string[];
+  min?: number;
+  max?: number;
+  is?: 'retrograde' | 'combust';
+}
+
+export interface YogaRuleDefinition {
+  code: string;
+  name: string;
+  category: YogaCategory;
+  description?: string | null;
+  effects?: string | null;
+  conditions: YogaCondition;
+}
+
+export interface YogaChartInput {
+  lagnaLongitude: number;
+  planets: Array<{ name: string; longitude: number; isRetrograde?: boolean; isCombust?: boolean }>;
+  shadbala?: Record<string, { strength_ratio: number }> | null;
+}
+
+export interface DetectedYoga {
+  code: string;
+  name: string;
+  category: YogaCategory;
+  description: string | null;
+  effects: string | null;
+  planets: string[];
+  strength: number; // 0-100
+  strength_label: 'strong' | 'moderate' | 'weak';
+}
+
+interface ChartContext {
+  lagnaSign: number;
+  signs: Record<string, number>;
+  longitudes: Record<string, number>;
+  retrograde: Set<string>;
+  combust: Set<string>;
+  isWaxing: boolean;
+}
+
+interface EvalResult {
+  ok: boolean;
+  planets: string[];
+}
+
+const DIGNITY_SCORES: Record<Dignity, number> = {
+  exalted: 100,
+  moolatrikona: 90,
+  own: 80,
+  great_friend: 70,
+  friend: 60,
+  neutral: 50,
+  enemy: 35,
+  great_enemy: 25,
+  debilitated: 15,
+};
+
+@Injectable()
+export class YogaEngineService {
+  constructor(private readonly dignityService: DignityService) {}
+
+  /**
+   * Evaluate rules against a chart and return the yogas that are present
+   */
+  detect(chart: YogaChartInput, rules: YogaRuleDefinition[]): DetectedYoga[] {
+    const context = this.buildContext(chart);
+    const detected: DetectedYoga[] = [];
+
+    for (const rule of rules) {
+      const result = this.evaluate(rule.conditions, context, {});
+      if (!result.ok) continue;
+
+      const planets = ALL_GRAHAS.filter((p) => result.planets.includes(p));
+      const strength = this.getStrength(planets, context, chart.shadbala);
+      detected.push({
+        code: rule.code,
+        name: rule.name,
+        category: rule.category,
+        description: rule.description || null,
+        effects: rule.effects || null,
+        planets,
+        strength,
+        strength_label: strength >= 65 ? 'strong' : strength >= 40 ? 'moderate' : 'weak',
+      });
+    }
+
+    return detected;
+  }
+
+  /**
+   * Check a rule's condition tree; throws with a readable message when invalid
+   */
+  validateConditions(condition: YogaCondition, path = 'conditions', vars: Set<string> = new Set()): void {
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      throw new Error(`${path} must be an object`);
+    }
+
+    const combinators = ['all', 'any', 'not', 'exists', 'type'].filter(
+      (k) => (condition as Record<string, unknown>)[k] !== undefined,
+    );
+    if (combinators.length !== 1) {
+      throw new Error(`${path} must have exactly one of all, any, not, exists or type`);
+    }
+
+    if (condition.all || condition.any) {
+      const list = condition.all || condition.any;
+      if (!Array.isArray(list) || list.length === 0) {
+        throw new Error(`${path}.${condition.all ? 'all' : 'any'} must be a non-empty array`);
+      }
+      list.forEach((c, i) => this.validateConditions(c, `${path}.${condition.all ? 'all' : 'any'}[${i}]`, vars));
+      return;
+    }
+    if (condition.not) {
+      this.validateConditions(condition.not, `${path}.not`, vars);
+      return;
+    }
+    if (condition.exists) {
+      const { var: name, in: candidates } = condition.exists;
+      if (typeof name !== 'string' || !/^\$[a-z_]+$/i.test(name)) {
+        throw new Error(`${path}.exists.var must look like "$name"`);
+      }
+      if (candidates !== 'grahas' && candidates !== 'all') {
+        if (!Array.isArray(candidates) || candidates.length === 0) {
+          throw new Error(`${path}.exists.in must be "grahas", "all" or a list of planet references`);
+        }
+        candidates.forEach((ref) => this.validateRef(ref, `${path}.exists.in`, vars));
+      }
+      if (!condition.where) {
+        throw new Error(`${path}.where is required with exists`);
+      }
+      this.validateConditions(condition.where, `${path}.where`, new Set([...vars, name]));
+      return;
+    }
+
+    if (!YOGA_CONDITION_TYPES.includes(condition.type)) {
+      throw new Error(`${path}.type must be one of ${YOGA_CONDITION_TYPES.join(', ')}`);
+    }
+
+    const requireRef = (key: 'planet' | 'to') => this.validateRef(condition[key], `${path}.${key}`, vars);
+    const requireRefs = (minimum: number) => {
+      if (!Array.isArray(condition.planets) || condition.planets.length < minimum) {
+        throw new Error(`${path}.planets must list at least ${minimum} planets`);
+      }
+      condition.planets.forEach((ref) => this.validateRef(ref, `${path}.planets`, vars));
+    };
+    const requireHouses = () => {
+      if (
+        !Array.isArray(condition.houses) ||
+        condition.houses.length === 0 ||
+        condition.houses.some((h) => !Number.isInteger(h) || h < 1 || h > 12)
+      ) {
+        throw new Error(`${path}.houses must be a non-empty list of house numbers 1-12`);
+      }
+    };
+    const optionalFrom = () => {
+      if (condition.from !== undefined && condition.from !== 'lagna') {
+        this.validateRef(condition.from, `${path}.from`, vars);
+      }
+    };
+
+    switch (condition.type) {
+      case 'placement':
+        requireRef('planet');
+        requireHouses();
+        optionalFrom();
+        break;
+      case 'in_sign':
+        requireRef('planet');
+        if (!Array.isArray(condition.signs) || condition.signs.some((s) => !ZODIAC_SIGNS.includes(s))) {
+          throw new Error(`${path}.signs must be a list of sign names`);
+        }
+        break;
+      case 'dignity':
+        requireRef('planet');
+        if (
+          !Array.isArray(condition.dignities) ||
+          condition.dignities.length === 0 ||
+          condition.dignities.some((d) => DIGNITY_SCORES[d] === undefined)
+        ) {
+          throw new Error(`${path}.dignities must list values from ${Object.keys(DIGNITY_SCORES).join(', ')}`);
+        }
+        break;
+      case 'conjunct':
+      case 'distinct':
+        requireRefs(2);
+        break;
+      case 'aspects':
+        this.validateRef(condition.from, `${path}.from`, vars);
+        requireRef('to');
+        break;
+      case 'related':
+        requireRefs(2);
+        if (
+          condition.via !== undefined &&
+          (!Array.isArray(condition.via) ||
+            condition.via.some((v) => !['conjunction', 'aspect', 'mutual_aspect', 'exchange'].includes(v)))
+        ) {
+          throw new Error(`${path}.via must list conjunction, aspect, mutual_aspect or exchange`);
+        }
+        break;
+      case 'occupied':
+        requireHouses();
+        optionalFrom();
+        if (Array.isArray(condition.by)) {
+          condition.by.forEach((ref) => this.validateRef(ref, `${path}.by`, vars));
+        } else if (condition.by !== undefined && condition.by !== 'benefics' && condition.by !== 'malefics') {
+          throw new Error(`${path}.by must be "benefics", "malefics" or a list of planets`);
+        }
+        (condition.exclude || []).forEach((ref) => this.validateRef(ref, `${path}.exclude`, vars));
+        break;
+      case 'lords':
+        requireRef('planet');
+        requireHouses();
+        break;
+      case 'state':
+        requireRef('planet');
+        if (condition.is !== 'retrograde' && condition.is !== 'combust') {
+          throw new Error(`${path}.is must be "retrograde" or "combust"`);
+        }
+        break;
+    }
+  }
+
+  private validateRef(ref: string, path: string, vars: Set<string>): void {
+    if (typeof ref !== 'string') {
+      throw new Error(`${path} must be a planet reference`);
+    }
+    const [prefix, rest] = ref.includes(':') ? [ref.slice(0, ref.indexOf(':')), ref.slice(ref.indexOf(':') + 1)] : [null, ref];
+
+    if (prefix === 'lord') {
+      const house = Number(rest);
+      if (!Number.isInteger(house) || house < 1 || house > 12) {
+        throw new Error(`${path}: "${ref}" must name a house 1-12`);
+      }
+      return;
+    }
+    if (prefix === 'dispositor' || prefix === 'exaltation_dispositor') {
+      this.validateRef(rest, path, vars);
+      return;
+    }
+    if (prefix !== null) {
+      throw new Error(`${path}: unknown reference "${ref}"`);
+    }
+    if (ref.startsWith('$')) {
+      if (!vars.has(ref)) {
+        throw new Error(`${path}: "${ref}" is not bound by an enclosing exists`);
+      }
+      return;
+    }
+    if (!ALL_GRAHAS.includes(ref)) {
+      throw new Error(`${path}: unknown planet "${ref}"`);
+    }
+  }
+
+  private buildContext(chart: YogaChartInput): ChartContext {
+    const signOf = (longitude: number) => Math.floor((((longitude % 360) + 360) % 360) / 30);
+    const context: ChartContext = {
+      lagnaSign: signOf(chart.lagnaLongitude),
+      signs: {},
+      longitudes: {},
+      retrograde: new Set(),
+      combust: new Set(),
+      isWaxing: true,
+    };
+
+    for (const planet of chart.planets) {
+      context.signs[planet.name] = signOf(planet.longitude);
+      context.longitudes[planet.name] = planet.longitude;
+      if (planet.isRetrograde) context.retrograde.add(planet.name);
+      if (planet.isCombust) context.combust.add(planet.name);
+    }
+    if (context.longitudes.Sun !== undefined && context.longitudes.Moon !== undefined) {
+      context.isWaxing = (((context.longitudes.Moon - context.longitudes.Sun) % 360) + 360) % 360 < 180;
+    }
+
+    return context;
+  }
+
+  private evaluate(condition: YogaCondition, context: ChartContext, bindings: Record<string, string>): EvalResult {
+    if (condition.all) {
+      const planets: string[] = [];
+      for (const child of condition.all) {
+        const result = this.evaluate(child, context, bindings);
+        if (!result.ok) return { ok: false, planets: [] };
+        planets.push(...result.planets);
+      }
+      return { ok: true, planets };
+    }
+
+    if (condition.any) {
+      const results = condition.any.map((child) => this.evaluate(child, context, bindings)).filter((r) => r.ok);
+      return { ok: results.length > 0, planets: results.flatMap((r) => r.planets) };
+    }
+
+    if (condition.not) {
+      return { ok: !this.evaluate(condition.not, context, bindings).ok, planets: [] };
+    }
+
+    if (condition.exists) {
+      const candidates = this.getCandidates(condition.exists.in, context, bindings);
+      const results = candidates
+        .map((planet) => this.evaluate(condition.where, context, { ...bindings, [condition.exists.var]: planet }))
+        .filter((r) => r.ok);
+      return { ok: results.length > 0, planets: results.flatMap((r) => r.planets) };
+    }
+
+    return this.evaluateLeaf(condition, context, bindings);
+  }
+
+  private evaluateLeaf(condition: YogaCondition, context: ChartContext, bindings: Record<string, string>): EvalResult {
+    const resolve = (ref: string) => this.resolveRef(ref, context, bindings);
+    const fail: EvalResult = { ok: false, planets: [] };
+
+    switch (condition.type) {
+      case 'placement': {
+        const planet = resolve(condition.planet);
+        const fromSign = this.getReferenceSign(condition.from, context, bindings);
+        if (!planet || fromSign === null) return fail;
+        const house = this.houseFrom(context.signs[planet], fromSign);
+        return {
+          ok: condition.houses.includes(house),
+          planets: [planet, ...this.fromPlanet(condition.from, context, bindings)],
+        };
+      }
+
+      case 'in_sign': {
+        const planet = resolve(condition.planet);
+        if (!planet) return fail;
+        return { ok: condition.signs.includes(ZODIAC_SIGNS[context.signs[planet]]), planets: [planet] };
+      }
+
+      case 'dignity': {
+        const planet = resolve(condition.planet);
+        if (!planet) return fail;
+        const dignity = this.dignityService.getDignity(planet, context.longitudes[planet], context.longitudes);
+        return { ok: condition.dignities.includes(dignity), planets: [planet] };
+      }
+
+      case 'conjunct': {
+        const planets = condition.planets.map(resolve);
+        if (planets.some((p) => !p)) return fail;
+        const sign = context.signs[planets[0]];
+        return { ok: planets.every((p) => context.signs[p] === sign), planets };
+      }
+
+      case 'aspects': {
+        const from = resolve(condition.from);
+        const to = resolve(condition.to);
+        if (!from || !to) return fail;
+        return { ok: this.hasAspect(from, context.signs[from], context.signs[to]), planets: [from, to] };
+      }
+
+      case 'related': {
+        const [a, b] = condition.planets.map(resolve);
+        if (!a || !b || a === b) return fail;
+        const via = condition.via || ['conjunction', 'aspect', 'exchange'];
+        const aspectAB = this.hasAspect(a, context.signs[a], context.signs[b]);
+        const aspectBA = this.hasAspect(b, context.signs[b], context.signs[a]);
+        const related =
+          (via.includes('conjunction') && context.signs[a] === context.signs[b]) ||
+          (via.includes('aspect') && (aspectAB || aspectBA)) ||
+          (via.includes('mutual_aspect') && aspectAB && aspectBA) ||
+          (via.includes('exchange') &&
+            SIGN_LORDS[ZODIAC_SIGNS[context.signs[a]]] === b &&
+            SIGN_LORDS[ZODIAC_SIGNS[context.signs[b]]] === a);
+        return { ok: related, planets: [a, b] };
+      }
+
+      case 'occupied': {
+        const fromSign = this.getReferenceSign(condition.from, context, bindings);
+        if (fromSign === null) return fail;
+        const excluded = new Set((condition.exclude || []).map(resolve).filter(Boolean));
+        const candidates = this.getFilter(condition.by, context, bindings).filter((p) => !excluded.has(p));
+        const occupants = candidates.filter(
+          (p) => context.signs[p] !== undefined && condition.houses.includes(this.houseFrom(context.signs[p], fromSign)),
+        );
+        const min = condition.min ?? (condition.max === undefined ? 1 : 0);
+        const ok = occupants.length >= min && (condition.max === undefined || occupants.length <= condition.max);
+        return { ok, planets: [...occupants, ...this.fromPlanet(condition.from, context, bindings)] };
+      }
+
+      case 'lords': {
+        const planet = resolve(condition.planet);
+        if (!planet) return fail;
+        const ok = condition.houses.some((house) => this.getHouseLord(house, context) === planet);
+        return { ok, planets: [planet] };
+      }
+
+      case 'distinct': {
+        const planets = condition.planets.map(resolve);
+        if (planets.some((p) => !p)) return fail;
+        return { ok: new Set(planets).size === planets.length, planets: [] };
+      }
+
+      case 'state': {
+        const planet = resolve(condition.planet);
+        if (!planet) return fail;
+        const set = condition.is === 'retrograde' ? context.retrograde : context.combust;
+        return { ok: set.has(planet), planets: [planet] };
+      }
+
+      default:
+        return fail;
+    }
+  }
+
+  private resolveRef(ref: string, context: ChartContext, bindings: Record<string, string>): string | null {
+    if (!ref) return null;
+    if (ref.startsWith('$')) return bindings[ref] || null;
+
+    const separator = ref.indexOf(':');
+    if (separator === -1) {
+      return context.signs[ref] !== undefined ? ref : null;
+    }
+
+    const prefix = ref.slice(0, separator);
+    const rest = ref.slice(separator + 1);
+    if (prefix === 'lord') {
+      return this.getHouseLord(Number(rest), context);
+    }
+
+    const planet = this.resolveRef(rest, context, bindings);
+    if (!planet) return null;
+    if (prefix === 'dispositor') {
+      return SIGN_LORDS[ZODIAC_SIGNS[context.signs[planet]]];
+    }
+    if (prefix === 'exaltation_dispositor' && EXALTATION_POINTS[planet] !== undefined) {
+      return SIGN_LORDS[ZODIAC_SIGNS[Math.floor(EXALTATION_POINTS[planet] / 30)]];
+    }
+    return null;
+  }
+
+  private getCandidates(list: string[] | 'grahas' | 'all', context: ChartContext, bindings: Record<string, string>): string[] {
+    const refs = list === 'grahas' ? SEVEN_GRAHAS : list === 'all' ? ALL_GRAHAS : list;
+    const planets = refs.map((ref) => this.resolveRef(ref, context, bindings)).filter(Boolean);
+    return [...new Set(planets)];
+  }
+
+  private getFilter(by: YogaCondition['by'], context: ChartContext, bindings: Record<string, string>): string[] {
+    if (by === 'benefics') {
+      return ['Mercury', 'Jupiter', 'Venus', ...(context.isWaxing ? ['Moon'] : [])];
+    }
+    if (by === 'malefics') {
+      return ['Sun', 'Mars', 'Saturn', 'Rahu', 'Ketu', ...(context.isWaxing ? [] : ['Moon'])];
+    }
+    if (Array.isArray(by)) {
+      return this.getCandidates(by, context, bindings);
+    }
+    return ALL_GRAHAS;
+  }
+
+  private getReferenceSign(from: string | undefined, context: ChartContext, bindings: Record<string, string>): number | null {
+    if (!from || from === 'lagna') return context.lagnaSign;
+    const planet = this.resolveRef(from, context, bindings);
+    return planet ? context.signs[planet] : null;
+  }
+
+  private fromPlanet(from: string | undefined, context: ChartContext, bindings: Record<string, string>): string[] {
+    if (!from || from === 'lagna') return [];
+    const planet = this.resolveRef(from, context, bindings);
+    return planet ? [planet] : [];
+  }
+
+  private getHouseLord(house: number, context: ChartContext): string {
+    return SIGN_LORDS[ZODIAC_SIGNS[(context.lagnaSign + house - 1) % 12]];
+  }
+
+  private houseFrom(sign: number, fromSign: number): number {
+    return ((sign - fromSign + 12) % 12) + 1;
+  }
+
+  private hasAspect(planet: string, fromSign: number, toSign: number): boolean {
+    return this.dignityService.hasGrahaDrishti(planet, fromSign * 30, toSign * 30);
+  }
+
+  /**
+   * Yoga strength from the dignity of the planets involved, blended with
+   * their Shadbala ratio when available; combustion costs 20 points
+   */
+  private getStrength(
+    planets: string[],
+    context: ChartContext,
+    shadbala?: Record<string, { strength_ratio: number }> | null,
+  ): number {
+    if (planets.length === 0) return 50;
+
+    const scores = planets.map((planet) => {
+      const dignity = this.dignityService.getDignity(planet, context.longitudes[planet], context.longitudes);
+      let score = DIGNITY_SCORES[dignity];
+      const ratio = shadbala?.[planet]?.strength_ratio;
+      if (ratio !== undefined) {
+        score = (score + Math.min(100, ratio * 60)) / 2;
+      }
+      if (context.combust.has(planet)) {
+        score -= 20;
+      }
+      return Math.max(0, score);
+    });
+
+    return Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length);
+  }
+}
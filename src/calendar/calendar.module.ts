@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '../users/entities/user.entity';
+import { CacheModule } from '../cache/cache.module';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { FestivalCalendarService } from './services/festival-calendar.service';
+import { FestivalReminderService } from './services/festival-reminder.service';
+import { ReminderAudienceService } from './services/reminder-audience.service';
+import { AstronomicalEventCalendarService } from './services/astronomical-event-calendar.service';
+import { AstronomicalEventFeedService } from './services/astronomical-event-feed.service';
+import { AstronomicalEventReminderService } from './services/astronomical-event-reminder.service';
+import { CalendarController } from './controllers/calendar.controller';
+import { AdminCalendarController } from './controllers/admin/admin-calendar.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User]), CacheModule, AstrologyModule, KundliModule, NotificationsModule],
+  controllers: [CalendarController, AdminCalendarController],
+  providers: [
+    FestivalCalendarService,
+    FestivalReminderService,
+    ReminderAudienceService,
+    AstronomicalEventCalendarService,
+    AstronomicalEventFeedService,
+    AstronomicalEventReminderService,
+  ],
+  exports: [FestivalCalendarService, AstronomicalEventFeedService],
+})
+export class CalendarModule {}
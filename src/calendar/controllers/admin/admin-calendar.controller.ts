@@ -0,0 +1,38 @@
+import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { FestivalReminderService } from '../../services/festival-reminder.service';
+import { AstronomicalEventFeedService } from '../../services/astronomical-event-feed.service';
+import { SendFestivalRemindersDto, SendFestivalRemindersResultDto } from '../../dto/festival.dto';
+import { PublishAstronomicalEventsDto, PublishAstronomicalEventsResultDto } from '../../dto/astronomical-event.dto';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+@ApiTags('admin-calendar')
+@Controller('admin/calendar')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+export class AdminCalendarController {
+  constructor(
+    private readonly festivalReminderService: FestivalReminderService,
+    private readonly astronomicalEventFeedService: AstronomicalEventFeedService,
+  ) {}
+
+  @Post('festival-reminders')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send festival and vrat reminders now (Admin only)' })
+  @ApiResponse({ status: 200, type: SendFestivalRemindersResultDto })
+  async sendReminders(@Body() dto: SendFestivalRemindersDto) {
+    return this.festivalReminderService.send(dto);
+  }
+
+  @Post('astronomical-events/publish')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Publish a day's astronomical events to the horoscope and notification subscribers now (Admin only)" })
+  @ApiResponse({ status: 200, type: PublishAstronomicalEventsResultDto })
+  async publishAstronomicalEvents(@Body() dto: PublishAstronomicalEventsDto) {
+    return this.astronomicalEventFeedService.publish(dto);
+  }
+}
@@ -0,0 +1,70 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { FestivalCalendarService } from '../services/festival-calendar.service';
+import { AstronomicalEventCalendarService } from '../services/astronomical-event-calendar.service';
+import { FestivalCalendarResponseDto, GetFestivalsDto } from '../dto/festival.dto';
+import { AstronomicalEventsResponseDto, GetAstronomicalEventsDto } from '../dto/astronomical-event.dto';
+import { Public } from '../../common/decorators/public.decorator';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+
+@ApiTags('calendar')
+@Controller('calendar')
+export class CalendarController {
+  constructor(
+    private readonly festivalCalendarService: FestivalCalendarService,
+    private readonly astronomicalEventCalendarService: AstronomicalEventCalendarService,
+  ) {}
+
+  /**
+   * GET /api/v1/calendar/festivals?year=&lat=&lng=
+   * Festivals, vrats and sankrantis of a year at a location - Public endpoint
+   */
+  @Get('festivals')
+  @Public()
+  @UseGuards(RateLimitGuard)
+  @RateLimit(30, 60) // A calendar not yet cached takes over a second of CPU
+  @ApiOperation({ summary: 'Get the Hindu festival and vrat calendar for a year and location' })
+  @ApiResponse({
+    status: 200,
+    description: 'Festival calendar retrieved successfully',
+    type: FestivalCalendarResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid year or location, or the timezone could not be determined',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests',
+  })
+  async getFestivals(@Query() query: GetFestivalsDto): Promise<FestivalCalendarResponseDto> {
+    return this.festivalCalendarService.getFestivals(query);
+  }
+
+  /**
+   * GET /api/v1/calendar/events?from=&to=&lat=&lng=
+   * Eclipses, moon phases, stations, ingresses and combustions - Public endpoint
+   */
+  @Get('events')
+  @Public()
+  @UseGuards(RateLimitGuard)
+  @RateLimit(30, 60) // A month of events not yet cached takes a second or more of CPU
+  @ApiOperation({ summary: 'Get astronomical events for a date range, with local eclipse visibility and sutak' })
+  @ApiResponse({
+    status: 200,
+    description: 'Astronomical events retrieved successfully',
+    type: AstronomicalEventsResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid range or location, or the timezone could not be determined',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests',
+  })
+  async getEvents(@Query() query: GetAstronomicalEventsDto): Promise<AstronomicalEventsResponseDto> {
+    return this.astronomicalEventCalendarService.getEvents(query);
+  }
+}
@@ -0,0 +1,121 @@
+import { IsArray, IsDateString, IsIn, IsNotEmpty, IsNumber, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ASTRONOMICAL_EVENT_TYPES, AstronomicalEventType } from '../../astrology/services/astronomical-event.service';
+
+export class GetAstronomicalEventsDto {
+  @ApiProperty({ description: 'First local day (YYYY-MM-DD)', example: '2026-01-01' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be in YYYY-MM-DD format' })
+  @IsNotEmpty()
+  from: string;
+
+  @ApiProperty({ description: 'Last local day, inclusive (YYYY-MM-DD); at most a year after from', example: '2026-12-31' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be in YYYY-MM-DD format' })
+  @IsNotEmpty()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Latitude; with lng, adds local eclipse visibility and sutak', example: 28.6139 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  lat?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude', example: 77.209 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  lng?: number;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone of the days; defaults to that of the nearest known place, or UTC without a location',
+    example: 'Asia/Kolkata',
+  })
+  @IsString()
+  @IsOptional()
+  tz?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only these event types (comma separated); defaults to all',
+    enum: ASTRONOMICAL_EVENT_TYPES,
+    isArray: true,
+    example: 'solar_eclipse,lunar_eclipse',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : value))
+  @IsArray()
+  @IsIn(ASTRONOMICAL_EVENT_TYPES, { each: true })
+  @IsOptional()
+  type?: AstronomicalEventType[];
+}
+
+export class AstronomicalEventDto {
+  @ApiProperty({ description: 'Stable identifier', example: 'station_retrograde:Mercury:2026-10-24T07:16' })
+  id: string;
+
+  @ApiProperty({ enum: ASTRONOMICAL_EVENT_TYPES })
+  type: AstronomicalEventType;
+
+  @ApiProperty({ description: 'Exact moment (UTC); the peak of an eclipse' })
+  date: Date;
+
+  @ApiProperty({ description: 'Local civil date of the moment', example: '2026-10-24' })
+  local_date: string;
+
+  @ApiProperty({ nullable: true, example: 'Mercury' })
+  planet: string | null;
+
+  @ApiProperty({ example: 'Mercury stations retrograde in Libra' })
+  title: string;
+
+  @ApiProperty({ nullable: true, description: 'Sidereal sign', example: 'Libra' })
+  sign: string | null;
+
+  @ApiProperty({ nullable: true, example: 'Vishakha' })
+  nakshatra: string | null;
+
+  @ApiProperty({
+    description: 'Type-specific data: eclipse kind, contacts, visibility and sutak; ingress signs; combustion orb',
+  })
+  details: Record<string, any>;
+}
+
+export class AstronomicalEventsResponseDto {
+  @ApiProperty({ example: '2026-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2026-12-31' })
+  to: string;
+
+  @ApiProperty({ nullable: true })
+  latitude: number | null;
+
+  @ApiProperty({ nullable: true })
+  longitude: number | null;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty({ type: [AstronomicalEventDto] })
+  events: AstronomicalEventDto[];
+}
+
+export class PublishAstronomicalEventsDto {
+  @ApiPropertyOptional({ description: 'Local day whose events to publish (YYYY-MM-DD); defaults to tomorrow', example: '2026-10-24' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be in YYYY-MM-DD format' })
+  @IsOptional()
+  date?: string;
+}
+
+export class PublishAstronomicalEventsResultDto {
+  @ApiProperty({ example: '2026-10-24' })
+  date: string;
+
+  @ApiProperty({ description: 'Events published to the subscribers', example: 2 })
+  events: number;
+}
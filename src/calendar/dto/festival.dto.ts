@@ -0,0 +1,130 @@
+import { IsArray, IsDateString, IsIn, IsInt, IsNumber, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FESTIVAL_CATEGORIES, FestivalCategory, ObservanceKala } from '../../astrology/services/festival.service';
+
+export class GetFestivalsDto {
+  @ApiProperty({ description: 'Gregorian year', example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({ description: 'Latitude', example: 28.6139 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ description: 'Longitude', example: 77.209 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone; defaults to the timezone of the nearest known place', example: 'Asia/Kolkata' })
+  @IsString()
+  @IsOptional()
+  tz?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only these categories (comma separated); defaults to all',
+    enum: FESTIVAL_CATEGORIES,
+    isArray: true,
+    example: 'festival,ekadashi',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : value))
+  @IsArray()
+  @IsIn(FESTIVAL_CATEGORIES, { each: true })
+  @IsOptional()
+  category?: FestivalCategory[];
+}
+
+export class FestivalEventDto {
+  @ApiProperty({ description: 'Stable identifier of the observance', example: 'diwali' })
+  key: string;
+
+  @ApiProperty({ example: 'Diwali (Lakshmi Puja)' })
+  name: string;
+
+  @ApiProperty({ enum: FESTIVAL_CATEGORIES })
+  category: FestivalCategory;
+
+  @ApiProperty({ description: 'Local civil date it is observed on', example: '2026-11-08' })
+  date: string;
+
+  @ApiProperty({ example: 'Ravivara' })
+  weekday: string;
+
+  @ApiProperty({ nullable: true, description: 'Tithi; null for solar observances', example: 'Amavasya' })
+  tithi: string | null;
+
+  @ApiProperty({ enum: ['Shukla', 'Krishna'], nullable: true })
+  paksha: 'Shukla' | 'Krishna' | null;
+
+  @ApiProperty({ nullable: true, description: 'Amanta lunar month', example: 'Ashwin' })
+  lunar_month: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Purnimanta lunar month', example: 'Kartika' })
+  purnimanta_month: string | null;
+
+  @ApiProperty({ description: 'Falls in an intercalary (adhika) month' })
+  adhika: boolean;
+
+  @ApiProperty({
+    enum: ['sunrise', 'madhyahna', 'aparahna', 'pradosh', 'nishita', 'moonrise'],
+    description: 'Time of day the tithi must prevail at',
+  })
+  kala: ObservanceKala;
+
+  @ApiProperty({ description: 'Start of the tithi, or the moment of the Sankranti' })
+  starts_at: Date;
+
+  @ApiProperty({ nullable: true, description: 'End of the tithi' })
+  ends_at: Date | null;
+
+  @ApiProperty()
+  description: string;
+}
+
+export class FestivalCalendarResponseDto {
+  @ApiProperty({ example: 2026 })
+  year: number;
+
+  @ApiProperty({ description: 'Latitude the calendar was cast for, rounded to 0.1°', example: 28.6 })
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude the calendar was cast for, rounded to 0.1°', example: 77.2 })
+  longitude: number;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty({ type: [FestivalEventDto] })
+  events: FestivalEventDto[];
+}
+
+export class SendFestivalRemindersDto {
+  @ApiPropertyOptional({
+    description: 'Local date of the observances to remind about (YYYY-MM-DD); defaults to tomorrow',
+    example: '2026-11-08',
+  })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be in YYYY-MM-DD format' })
+  @IsOptional()
+  date?: string;
+}
+
+export class SendFestivalRemindersResultDto {
+  @ApiProperty({ description: 'Notifications created', example: 120 })
+  created: number;
+
+  @ApiProperty({ description: 'Users skipped for lack of a usable location or timezone', example: 3 })
+  skipped: number;
+
+  @ApiProperty({ description: 'Users whose local calendar could not be computed', example: 0 })
+  failed: number;
+}
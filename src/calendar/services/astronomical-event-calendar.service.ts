@@ -0,0 +1,105 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { CacheService } from '../../cache/cache.service';
+import { AstronomicalEventService } from '../../astrology/services/astronomical-event.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import { FestivalCalendarService } from './festival-calendar.service';
+import { AstronomicalEventDto, AstronomicalEventsResponseDto, GetAstronomicalEventsDto } from '../dto/astronomical-event.dto';
+
+/**
+ * Astronomical Event Calendar Service
+ * Turns local days into a UT range for the astronomical event search. Events
+ * are computed and cached a local calendar month at a time on the festival
+ * calendar's 0.1° grid, so any range is served from a bounded set of entries.
+ */
+@Injectable()
+export class AstronomicalEventCalendarService {
+  private readonly logger = new Logger(AstronomicalEventCalendarService.name);
+  private readonly cacheTtl = 7 * 24 * 60 * 60;
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+  private readonly maxRangeDays = 366;
+
+  constructor(
+    private readonly astronomicalEventService: AstronomicalEventService,
+    private readonly festivalCalendarService: FestivalCalendarService,
+    private readonly timezoneService: TimezoneService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async getEvents(dto: GetAstronomicalEventsDto): Promise<AstronomicalEventsResponseDto> {
+    if ((dto.lat === undefined) !== (dto.lng === undefined)) {
+      throw new BadRequestException('Pass both lat and lng, or neither');
+    }
+    const days = (Date.parse(dto.to) - Date.parse(dto.from)) / this.dayMs;
+    if (days < 0 || days >= this.maxRangeDays) {
+      throw new BadRequestException(`to must be on or after from and within ${this.maxRangeDays} days of it`);
+    }
+
+    const latitude = dto.lat !== undefined ? this.festivalCalendarService.snapToGrid(Number(dto.lat)) : null;
+    const longitude = dto.lng !== undefined ? this.festivalCalendarService.snapToGrid(Number(dto.lng)) : null;
+    let timezone = 'UTC';
+    if (latitude !== null) {
+      timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, dto.tz);
+    } else if (dto.tz) {
+      if (!this.timezoneService.isValidTimezone(dto.tz)) {
+        throw new BadRequestException(`Unknown timezone: ${dto.tz}`);
+      }
+      timezone = dto.tz;
+    }
+
+    const events: AstronomicalEventDto[] = [];
+    for (let month = dto.from.slice(0, 7); month <= dto.to.slice(0, 7); month = this.nextMonth(month)) {
+      events.push(...(await this.getMonthEvents(month, latitude, longitude, timezone)));
+    }
+
+    const response: AstronomicalEventsResponseDto = {
+      from: dto.from,
+      to: dto.to,
+      latitude,
+      longitude,
+      timezone,
+      events: events.filter((e) => e.local_date >= dto.from && e.local_date <= dto.to),
+    };
+
+    if (!dto.type?.length) {
+      return response;
+    }
+    return { ...response, events: response.events.filter((e) => dto.type.includes(e.type)) };
+  }
+
+  /**
+   * Events of a local calendar month (YYYY-MM) at a grid location, or globally
+   */
+  private async getMonthEvents(
+    month: string,
+    latitude: number | null,
+    longitude: number | null,
+    timezone: string,
+  ): Promise<AstronomicalEventDto[]> {
+    const location = latitude !== null ? `${latitude.toFixed(1)}:${longitude.toFixed(1)}` : 'global';
+    const cacheKey = `astronomical-events:${month}:${location}:${timezone}`;
+    const cached = await this.cacheService.get<AstronomicalEventDto[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const events = this.astronomicalEventService
+      .getEvents({
+        from: this.timezoneService.toUniversalTime(`${month}-01`, '00:00:00', timezone).utc,
+        to: this.timezoneService.toUniversalTime(`${this.nextMonth(month)}-01`, '00:00:00', timezone).utc,
+        latitude: latitude ?? undefined,
+        longitude: longitude ?? undefined,
+      })
+      .map((event) => ({ ...event, local_date: this.timezoneService.toLocalDate(event.date, timezone) }));
+
+    await this.cacheService.set(cacheKey, events, this.cacheTtl);
+    this.logger.log(`Astronomical events computed for ${month} at ${location} (${timezone})`);
+    return events;
+  }
+
+  private nextMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+  }
+}
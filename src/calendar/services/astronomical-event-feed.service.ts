@@ -0,0 +1,108 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subject, Subscription } from 'rxjs';
+import { AstronomicalEvent, AstronomicalEventService } from '../../astrology/services/astronomical-event.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { PublishAstronomicalEventsDto, PublishAstronomicalEventsResultDto } from '../dto/astronomical-event.dto';
+
+export interface AstronomicalEventBatch {
+  date: string; // local day of the feed timezone, YYYY-MM-DD
+  timezone: string;
+  events: AstronomicalEvent[];
+}
+
+/**
+ * Astronomical Event Feed Service
+ * Every day at ASTRONOMICAL_EVENTS_FEED_TIME (default 06:00) in
+ * ASTRONOMICAL_EVENTS_TIMEZONE (default Asia/Kolkata), publishes the
+ * astronomical events of the next day to the subscribed modules, early
+ * enough for them to act before an eclipse sutak begins. Events carry no
+ * location; subscribers work out local circumstances themselves. Set
+ * ASTRONOMICAL_EVENTS_FEED_ENABLED=false to publish only from the admin API.
+ */
+@Injectable()
+export class AstronomicalEventFeedService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(AstronomicalEventFeedService.name);
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+  private readonly batches = new Subject<AstronomicalEventBatch>();
+  private readonly timezone: string;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly astronomicalEventService: AstronomicalEventService,
+    private readonly timezoneService: TimezoneService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>('ASTRONOMICAL_EVENTS_TIMEZONE') || 'Asia/Kolkata';
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<string>('ASTRONOMICAL_EVENTS_FEED_ENABLED') === 'false') {
+      this.logger.log('Astronomical event feed is disabled');
+      return;
+    }
+    this.scheduleNextRun();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.batches.complete();
+  }
+
+  /**
+   * Receive each published day of events. Handler errors are logged and do
+   * not reach the other subscribers.
+   */
+  subscribe(name: string, handler: (batch: AstronomicalEventBatch) => Promise<void> | void): Subscription {
+    return this.batches.subscribe((batch) => {
+      Promise.resolve()
+        .then(() => handler(batch))
+        .catch((error) => this.logger.error(`Subscriber ${name} failed on the events of ${batch.date}:`, error));
+    });
+  }
+
+  /**
+   * Publish the events of a local day (default tomorrow)
+   */
+  publish(dto: PublishAstronomicalEventsDto = {}): PublishAstronomicalEventsResultDto {
+    const date = dto.date || this.timezoneService.toLocalDate(new Date(Date.now() + this.dayMs), this.timezone);
+    const nextDay = new Date(Date.parse(date) + this.dayMs).toISOString().split('T')[0];
+
+    const events = this.astronomicalEventService.getEvents({
+      from: this.timezoneService.toUniversalTime(date, '00:00:00', this.timezone).utc,
+      to: this.timezoneService.toUniversalTime(nextDay, '00:00:00', this.timezone).utc,
+    });
+
+    this.batches.next({ date, timezone: this.timezone, events });
+    this.logger.log(`Published ${events.length} astronomical events for ${date}`);
+    return { date, events: events.length };
+  }
+
+  private scheduleNextRun(): void {
+    const time = this.configService.get<string>('ASTRONOMICAL_EVENTS_FEED_TIME') || '06:00';
+    const today = this.timezoneService.toLocalDate(new Date(), this.timezone);
+
+    let runAt = this.timezoneService.toUniversalTime(today, time, this.timezone).utc;
+    if (runAt.getTime() <= Date.now()) {
+      const tomorrow = new Date(Date.parse(today) + this.dayMs).toISOString().split('T')[0];
+      runAt = this.timezoneService.toUniversalTime(tomorrow, time, this.timezone).utc;
+    }
+
+    this.timer = setTimeout(() => this.runDaily(), runAt.getTime() - Date.now());
+    this.timer.unref();
+    this.logger.log(`Next astronomical event feed at ${runAt.toISOString()}`);
+  }
+
+  private runDaily(): void {
+    try {
+      this.publish();
+    } catch (error) {
+      this.logger.error('Astronomical event feed failed:', error);
+    } finally {
+      this.scheduleNextRun();
+    }
+  }
+}
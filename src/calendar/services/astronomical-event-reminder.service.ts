@@ -0,0 +1,121 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Subscription } from 'rxjs';
+import {
+  AstronomicalEvent,
+  AstronomicalEventService,
+  AstronomicalEventType,
+} from '../../astrology/services/astronomical-event.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { CreateNotificationInput, NotificationsService } from '../../notifications/services/notifications.service';
+import { AstronomicalEventBatch, AstronomicalEventFeedService } from './astronomical-event-feed.service';
+import { ReminderAudienceService, ReminderLocation } from './reminder-audience.service';
+
+const DEFAULT_REMINDER_TYPES: AstronomicalEventType[] = ['solar_eclipse', 'lunar_eclipse', 'station_retrograde', 'station_direct'];
+
+/**
+ * Astronomical Event Reminder Service
+ * Notifies users of the published astronomical events of the
+ * ASTRONOMICAL_EVENT_REMINDER_TYPES (comma separated; default eclipses and
+ * stations). Eclipses are recomputed for each location group and only sent
+ * where they are visible, with the local sutak times.
+ */
+@Injectable()
+export class AstronomicalEventReminderService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AstronomicalEventReminderService.name);
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+  private readonly types: AstronomicalEventType[];
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly astronomicalEventFeedService: AstronomicalEventFeedService,
+    private readonly astronomicalEventService: AstronomicalEventService,
+    private readonly reminderAudienceService: ReminderAudienceService,
+    private readonly notificationsService: NotificationsService,
+    private readonly timezoneService: TimezoneService,
+    private readonly configService: ConfigService,
+  ) {
+    const types = this.configService.get<string>('ASTRONOMICAL_EVENT_REMINDER_TYPES');
+    this.types = types ? (types.split(',').map((t) => t.trim()).filter(Boolean) as AstronomicalEventType[]) : DEFAULT_REMINDER_TYPES;
+  }
+
+  onModuleInit(): void {
+    this.subscription = this.astronomicalEventFeedService.subscribe(AstronomicalEventReminderService.name, (batch) => this.notify(batch));
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  private async notify(batch: AstronomicalEventBatch): Promise<void> {
+    const events = batch.events.filter((e) => this.types.includes(e.type));
+    if (events.length === 0) {
+      return;
+    }
+
+    let created = 0;
+    const skipped = await this.reminderAudienceService.forEachLocation(async (location) => {
+      const notifications: CreateNotificationInput[] = [];
+      for (const event of events) {
+        const local = event.type.endsWith('_eclipse') ? this.getLocalEclipse(event, location) : event;
+        if (!local) {
+          continue;
+        }
+        for (const userId of location.userIds) {
+          notifications.push({
+            user_id: userId,
+            title: local.title,
+            message: this.getMessage(local, location.timezone),
+            type: 'astronomical_event',
+            metadata: {
+              event_id: local.id,
+              event_type: local.type,
+              date: local.date,
+              planet: local.planet,
+              sign: local.sign,
+              nakshatra: local.nakshatra,
+              sutak: local.details.sutak ?? null,
+            },
+            dedupe_key: local.id,
+          });
+        }
+      }
+      created += await this.notificationsService.createUnique(notifications);
+    });
+
+    this.logger.log(`Astronomical event reminders for ${batch.date}: ${created} created, ${skipped} users skipped`);
+  }
+
+  /**
+   * An eclipse as seen from a location group, or null where it is not visible
+   */
+  private getLocalEclipse(event: AstronomicalEvent, location: ReminderLocation): AstronomicalEvent | null {
+    const local = this.astronomicalEventService
+      .getEvents({
+        from: new Date(event.date.getTime() - this.dayMs),
+        to: new Date(event.date.getTime() + this.dayMs),
+        latitude: location.latitude,
+        longitude: location.longitude,
+        types: [event.type],
+      })
+      .find((e) => e.id === event.id);
+    return local?.details.visibility?.visible ? local : null;
+  }
+
+  private getMessage(event: AstronomicalEvent, timezone: string): string {
+    const at = (date: Date) => `${this.timezoneService.toLocalDate(date, timezone)} ${this.formatLocalTime(date, timezone)}`;
+    const parts = [`${event.title} on ${at(event.date)}`];
+    if (event.details.visibility?.visible) {
+      parts.push(`Visible from your place from ${at(event.details.visibility.start)} to ${at(event.details.visibility.end)}`);
+    }
+    if (event.details.sutak) {
+      parts.push(`Sutak from ${at(event.details.sutak.start)} to ${at(event.details.sutak.end)}`);
+    }
+    return parts.join('. ');
+  }
+
+  private formatLocalTime(date: Date, timezone: string): string {
+    const offset = this.timezoneService.getUtcOffsetMinutes(timezone, date);
+    return new Date(date.getTime() + offset * 60000).toISOString().slice(11, 16);
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { CacheService } from '../../cache/cache.service';
+import { FestivalService } from '../../astrology/services/festival.service';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import { FestivalCalendarResponseDto, GetFestivalsDto } from '../dto/festival.dto';
+
+/**
+ * Festival Calendar Service
+ * Resolves the timezone for a location and caches the yearly festival
+ * calendar, which takes a couple of seconds to compute and never changes for
+ * a given year and place. Locations are snapped to a coarse grid first.
+ */
+@Injectable()
+export class FestivalCalendarService {
+  private readonly logger = new Logger(FestivalCalendarService.name);
+  private readonly cacheTtl = 30 * 24 * 60 * 60;
+
+  // Calendars are cast on a 0.1° grid (about 11 km), which moves sunrise and
+  // moonrise by well under a minute, so nearby requests share a cache entry
+  private readonly gridDegrees = 0.1;
+
+  constructor(
+    private readonly festivalService: FestivalService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async getFestivals(dto: GetFestivalsDto): Promise<FestivalCalendarResponseDto> {
+    const latitude = Number(dto.lat);
+    const longitude = Number(dto.lng);
+    const timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, dto.tz);
+
+    const calendar = await this.getCalendar(Number(dto.year), latitude, longitude, timezone);
+    if (!dto.category?.length) {
+      return calendar;
+    }
+    return { ...calendar, events: calendar.events.filter((e) => dto.category.includes(e.category)) };
+  }
+
+  /**
+   * Full calendar of a year at a location in a known timezone
+   */
+  async getCalendar(year: number, latitude: number, longitude: number, timezone: string): Promise<FestivalCalendarResponseDto> {
+    latitude = this.snapToGrid(latitude);
+    longitude = this.snapToGrid(longitude);
+    const cacheKey = `festivals:${year}:${latitude.toFixed(1)}:${longitude.toFixed(1)}:${timezone}`;
+    const cached = await this.cacheService.get<FestivalCalendarResponseDto>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let events;
+    try {
+      events = this.festivalService.getFestivals({ year, latitude, longitude, timezone });
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const response: FestivalCalendarResponseDto = { year, latitude, longitude, timezone, events };
+    await this.cacheService.set(cacheKey, response, this.cacheTtl);
+    this.logger.log(`Festival calendar computed for ${year} at ${latitude}, ${longitude} (${timezone})`);
+    return response;
+  }
+
+  /**
+   * Round a coordinate to the calendar grid
+   */
+  snapToGrid(degrees: number): number {
+    return Number((Math.round(degrees / this.gridDegrees) * this.gridDegrees).toFixed(1));
+  }
+}
@@ -0,0 +1,148 @@
+import { Injectable, Logger, ConflictException, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FestivalCalendarService } from './festival-calendar.service';
+import { ReminderAudienceService } from './reminder-audience.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { FestivalCategory } from '../../astrology/services/festival.service';
+import { CreateNotificationInput, NotificationsService } from '../../notifications/services/notifications.service';
+import { FestivalCalendarResponseDto, SendFestivalRemindersDto, SendFestivalRemindersResultDto } from '../dto/festival.dto';
+
+const DEFAULT_REMINDER_CATEGORIES: FestivalCategory[] = ['festival', 'ekadashi', 'purnima', 'amavasya'];
+
+/**
+ * Festival Reminder Service
+ * Every evening at FESTIVAL_REMINDER_TIME (default 18:00) in
+ * FESTIVAL_REMINDER_TIMEZONE (default Asia/Kolkata), notifies each user of
+ * the observances falling on their next local day at their saved place.
+ * FESTIVAL_REMINDER_CATEGORIES (comma separated) limits the categories;
+ * reminders are deduplicated per observance and date, so reruns are safe. Set
+ * FESTIVAL_REMINDERS_ENABLED=false to send them only from the admin API.
+ */
+@Injectable()
+export class FestivalReminderService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(FestivalReminderService.name);
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+  private readonly timezone: string;
+  private readonly categories: FestivalCategory[];
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly festivalCalendarService: FestivalCalendarService,
+    private readonly reminderAudienceService: ReminderAudienceService,
+    private readonly notificationsService: NotificationsService,
+    private readonly timezoneService: TimezoneService,
+    private readonly configService: ConfigService,
+  ) {
+    this.timezone = this.configService.get<string>('FESTIVAL_REMINDER_TIMEZONE') || 'Asia/Kolkata';
+    const categories = this.configService.get<string>('FESTIVAL_REMINDER_CATEGORIES');
+    this.categories = categories
+      ? (categories.split(',').map((c) => c.trim()).filter(Boolean) as FestivalCategory[])
+      : DEFAULT_REMINDER_CATEGORIES;
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<string>('FESTIVAL_REMINDERS_ENABLED') === 'false') {
+      this.logger.log('Festival reminders are disabled');
+      return;
+    }
+    this.scheduleNextRun();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Notify users of the observances on a date (default: each user's local tomorrow)
+   */
+  async send(dto: SendFestivalRemindersDto = {}): Promise<SendFestivalRemindersResultDto> {
+    if (this.running) {
+      throw new ConflictException('Festival reminders are already being sent');
+    }
+    this.running = true;
+
+    const result: SendFestivalRemindersResultDto = { created: 0, skipped: 0, failed: 0 };
+    const calendars = new Map<string, FestivalCalendarResponseDto | null>();
+
+    try {
+      result.skipped = await this.reminderAudienceService.forEachLocation(async ({ latitude, longitude, timezone, userIds }) => {
+        const date = dto.date || this.timezoneService.toLocalDate(new Date(Date.now() + this.dayMs), timezone);
+        const calendarKey = `${date.slice(0, 4)}:${latitude}:${longitude}:${timezone}`;
+        if (!calendars.has(calendarKey)) {
+          calendars.set(calendarKey, await this.getCalendar(Number(date.slice(0, 4)), latitude, longitude, timezone));
+        }
+        const calendar = calendars.get(calendarKey);
+        if (!calendar) {
+          result.failed += userIds.length;
+          return;
+        }
+
+        const notifications: CreateNotificationInput[] = [];
+        for (const event of calendar.events.filter((e) => e.date === date && this.categories.includes(e.category))) {
+          for (const userId of userIds) {
+            notifications.push({
+              user_id: userId,
+              title: event.name,
+              message: [event.description, event.tithi && `${event.tithi}, ${event.lunar_month}`].filter(Boolean).join('. '),
+              type: 'festival',
+              metadata: {
+                date: event.date,
+                key: event.key,
+                category: event.category,
+                tithi: event.tithi,
+                lunar_month: event.lunar_month,
+                starts_at: event.starts_at,
+                ends_at: event.ends_at,
+              },
+              dedupe_key: `${event.key}:${event.date}`,
+            });
+          }
+        }
+        result.created += await this.notificationsService.createUnique(notifications);
+      });
+    } finally {
+      this.running = false;
+    }
+
+    this.logger.log(`Festival reminders sent: ${result.created} created, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+
+  private async getCalendar(year: number, latitude: number, longitude: number, timezone: string): Promise<FestivalCalendarResponseDto | null> {
+    try {
+      return await this.festivalCalendarService.getCalendar(year, latitude, longitude, timezone);
+    } catch (error) {
+      this.logger.warn(`Could not compute the ${year} festival calendar at ${latitude}, ${longitude} (${timezone}): ${error.message}`);
+      return null;
+    }
+  }
+
+  private scheduleNextRun(): void {
+    const time = this.configService.get<string>('FESTIVAL_REMINDER_TIME') || '18:00';
+    const today = this.timezoneService.toLocalDate(new Date(), this.timezone);
+
+    let runAt = this.timezoneService.toUniversalTime(today, time, this.timezone).utc;
+    if (runAt.getTime() <= Date.now()) {
+      const tomorrow = new Date(Date.parse(today) + this.dayMs).toISOString().split('T')[0];
+      runAt = this.timezoneService.toUniversalTime(tomorrow, time, this.timezone).utc;
+    }
+
+    this.timer = setTimeout(() => this.runNightly(), runAt.getTime() - Date.now());
+    this.timer.unref();
+    this.logger.log(`Next festival reminders at ${runAt.toISOString()}`);
+  }
+
+  private async runNightly(): Promise<void> {
+    try {
+      await this.send();
+    } catch (error) {
+      this.logger.error('Festival reminders failed:', error);
+    } finally {
+      this.scheduleNextRun();
+    }
+  }
+}
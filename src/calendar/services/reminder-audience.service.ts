@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+
+export interface ReminderLocation {
+  latitude: number; // rounded to 0.1°
+  longitude: number;
+  timezone: string;
+  userIds: number[];
+}
+
+/**
+ * Reminder Audience Service
+ * Walks the users with a saved place in batches and groups them by location
+ * (0.1°, about 11 km) and timezone, so that location-dependent reminders are
+ * computed once per group. Users without a saved timezone get that of the
+ * nearest known place.
+ */
+@Injectable()
+export class ReminderAudienceService {
+  private readonly batchSize = 500;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * Call back once per location group of each batch; returns the number of
+   * users skipped for lack of a usable timezone
+   */
+  async forEachLocation(handler: (location: ReminderLocation) => Promise<void>): Promise<number> {
+    const timezones = new Map<string, string | null>();
+    let skipped = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const users = await this.userRepository.find({
+        select: ['id', 'latitude', 'longitude', 'timezone'],
+        where: { id: MoreThan(lastId), latitude: Not(IsNull()), longitude: Not(IsNull()), is_enabled: true, is_deleted: false },
+        order: { id: 'ASC' },
+        take: this.batchSize,
+      });
+      if (users.length === 0) {
+        return skipped;
+      }
+      lastId = Number(users[users.length - 1].id);
+
+      const groups = new Map<string, ReminderLocation>();
+      for (const user of users) {
+        const latitude = Math.round(Number(user.latitude) * 10) / 10;
+        const longitude = Math.round(Number(user.longitude) * 10) / 10;
+        const timezone = await this.getTimezone(user, latitude, longitude, timezones);
+        if (!timezone) {
+          skipped++;
+          continue;
+        }
+
+        const key = `${latitude}:${longitude}:${timezone}`;
+        if (!groups.has(key)) {
+          groups.set(key, { latitude, longitude, timezone, userIds: [] });
+        }
+        groups.get(key).userIds.push(Number(user.id));
+      }
+
+      for (const location of groups.values()) {
+        await handler(location);
+      }
+    }
+  }
+
+  private async getTimezone(user: User, latitude: number, longitude: number, cache: Map<string, string | null>): Promise<string | null> {
+    if (user.timezone && this.timezoneService.isValidTimezone(user.timezone)) {
+      return user.timezone;
+    }
+
+    const key = `${latitude}:${longitude}`;
+    if (!cache.has(key)) {
+      cache.set(key, await this.placeSearchService.resolveTimezone(latitude, longitude).catch(() => null));
+    }
+    return cache.get(key);
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rate_limit';
+
+export interface RateLimitOptions {
+  limit: number; // requests allowed per client IP in a window
+  windowSeconds: number;
+}
+
+export const RateLimit = (limit: number, windowSeconds: number) =>
+  SetMetadata(RATE_LIMIT_KEY, { limit, windowSeconds } as RateLimitOptions);
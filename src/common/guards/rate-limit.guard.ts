@@ -0,0 +1,40 @@
+import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CacheService } from '../../cache/cache.service';
+import { RATE_LIMIT_KEY, RateLimitOptions } from '../decorators/rate-limit.decorator';
+
+/**
+ * Fixed-window request limit per client IP for handlers marked with
+ * @RateLimit. Counts live in the shared cache, so the limit holds across
+ * instances; concurrent requests may slip a few over it.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private cacheService: CacheService,
+    private reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const window = Math.floor(Date.now() / (options.windowSeconds * 1000));
+    const key = `ratelimit:${context.getClass().name}.${context.getHandler().name}:${request.ip}:${window}`;
+
+    const count = ((await this.cacheService.get<number>(key)) || 0) + 1;
+    if (count > options.limit) {
+      throw new HttpException('Too many requests, please try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    await this.cacheService.set(key, count, options.windowSeconds);
+
+    return true;
+  }
+}
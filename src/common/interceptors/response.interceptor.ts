@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -21,7 +22,7 @@ export interface StandardApiResponse<T = any> {
 
 /**
  * Response Interceptor
- * Wraps all successful responses in standard format:
+ * Wraps all successful JSON responses in standard format:
  * {
  *   success: true,
  *   code: 200,
@@ -44,6 +45,11 @@ export class ResponseInterceptor<T>
 
     return next.handle().pipe(
       map((data) => {
+        // Files and bodies of another content type (SVG charts) are sent as they are
+        if (data instanceof StreamableFile || this.isNonJsonResponse(response)) {
+          return data;
+        }
+
         // Get status code from response (may be set by @HttpCode decorator or default 200)
         const statusCode = response.statusCode || 200;
 
@@ -98,6 +104,14 @@ export class ResponseInterceptor<T>
     );
   }
 
+  /**
+   * Whether the handler set a content type other than JSON
+   */
+  private isNonJsonResponse(response: Response): boolean {
+    const contentType = response.getHeader('Content-Type');
+    return typeof contentType === 'string' && !contentType.includes('json');
+  }
+
   /**
    * Get default message based on HTTP method and status code
    */
@@ -0,0 +1,11 @@
+import { QueryFailedError } from 'typeorm';
+
+// Postgres SQLSTATE for a unique index violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Whether a query failed because a row with the same unique key exists,
+ * e.g. when two requests insert the same entry at once
+ */
+export const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof QueryFailedError && (error as QueryFailedError & { code?: string }).code === UNIQUE_VIOLATION;
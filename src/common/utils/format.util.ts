@@ -0,0 +1,7 @@
+/**
+ * English ordinal of a positive integer, e.g. 1st, 2nd, 11th, 23rd
+ */
+export const ordinal = (n: number): string => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
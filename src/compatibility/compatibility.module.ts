@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CompatibilityMatch } from './entities/compatibility-match.entity';
+import { CompatibilityService } from './services/compatibility.service';
+import { AppCompatibilityController } from './controllers/app-compatibility.controller';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CompatibilityMatch]),
+    AstrologyModule,
+    KundliModule,
+    RepositoriesModule,
+    SubscriptionsModule, // For ModuleAccessGuard
+  ],
+  controllers: [AppCompatibilityController],
+  providers: [CompatibilityService],
+  exports: [CompatibilityService],
+})
+export class CompatibilityModule {}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { CompatibilityService } from '../services/compatibility.service';
+import { CompatibilityRequestDto, CompatibilityResponseDto } from '../dto/compatibility.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ModuleAccessGuard } from '../../common/guards/module-access.guard';
+import { ModuleAccess } from '../../common/decorators/module-access.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ModuleType } from '../../common/enums/module-type.enum';
+
+@ApiTags('Compatibility (App)')
+@Controller('app/compatibility')
+@UseGuards(JwtAuthGuard, ModuleAccessGuard)
+@ModuleAccess(ModuleType.COMPATIBILITY)
+@ApiBearerAuth()
+export class AppCompatibilityController {
+  constructor(private readonly compatibilityService: CompatibilityService) {}
+
+  /**
+   * POST /api/v1/app/compatibility
+   * Ashtakoota (Guna Milan) match between two profiles
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Match two birth profiles or saved kundlis (Mobile App)' })
+  @ApiResponse({ status: 201, description: 'Koota-by-koota breakdown of the match', type: CompatibilityResponseDto })
+  @ApiResponse({ status: 403, description: 'Compatibility module not included in the subscription' })
+  async createMatch(@Body() dto: CompatibilityRequestDto, @CurrentUser() user: any) {
+    const match = await this.compatibilityService.createMatch(user.id, dto);
+    return { success: true, data: match };
+  }
+
+  /**
+   * GET /api/v1/app/compatibility
+   * Match history of the current customer
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get compatibility match history (Mobile App)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Saved matches, newest first' })
+  async getHistory(@CurrentUser() user: any, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const take = Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100);
+    const skip = Math.max(parseInt(offset, 10) || 0, 0);
+    const result = await this.compatibilityService.getHistory(user.id, take, skip);
+
+    return {
+      success: true,
+      data: { ...result, limit: take, offset: skip },
+    };
+  }
+
+  /**
+   * GET /api/v1/app/compatibility/:uniqueId
+   * A saved match with its full breakdown
+   */
+  @Get(':uniqueId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get a saved compatibility match (Mobile App)' })
+  @ApiResponse({ status: 200, description: 'Koota-by-koota breakdown of the match', type: CompatibilityResponseDto })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getMatch(@Param('uniqueId') uniqueId: string, @CurrentUser() user: any) {
+    const match = await this.compatibilityService.getMatch(user.id, uniqueId);
+    return { success: true, data: match };
+  }
+
+  /**
+   * DELETE /api/v1/app/compatibility/:uniqueId
+   * Remove a match from the history
+   */
+  @Delete(':uniqueId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a saved compatibility match (Mobile App)' })
+  @ApiResponse({ status: 200, description: 'Match deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async deleteMatch(@Param('uniqueId') uniqueId: string, @CurrentUser() user: any) {
+    await this.compatibilityService.deleteMatch(user.id, uniqueId);
+    return { success: true, message: 'Compatibility match deleted successfully' };
+  }
+}
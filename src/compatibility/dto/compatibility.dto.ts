@@ -0,0 +1,162 @@
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  ValidateNested,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PartnerProfileDto {
+  @ApiPropertyOptional({ description: 'Use a saved kundli instead of birth details', example: 12 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  kundli_id?: number;
+
+  @ApiPropertyOptional({ description: 'Full name', example: 'Rahul' })
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Date of birth (YYYY-MM-DD)', example: '1992-04-21' })
+  @IsDateString()
+  @IsOptional()
+  birth_date?: string;
+
+  @ApiPropertyOptional({ description: 'Time of birth (HH:MM:SS)', example: '06:45:00' })
+  @IsString()
+  @IsOptional()
+  @Matches(/^([0-1][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/, {
+    message: 'birth_time must be in HH:MM:SS format',
+  })
+  birth_time?: string;
+
+  @ApiPropertyOptional({ description: 'Place of birth (city name)', example: 'Jaipur' })
+  @IsString()
+  @IsOptional()
+  birth_place?: string;
+
+  @ApiPropertyOptional({ example: 26.9124 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ example: 75.7873 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata' })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+}
+
+export class CompatibilityRequestDto {
+  @ApiProperty({ type: PartnerProfileDto, description: 'Boy (groom) profile' })
+  @ValidateNested()
+  @Type(() => PartnerProfileDto)
+  @IsNotEmpty()
+  boy: PartnerProfileDto;
+
+  @ApiProperty({ type: PartnerProfileDto, description: 'Girl (bride) profile' })
+  @ValidateNested()
+  @Type(() => PartnerProfileDto)
+  @IsNotEmpty()
+  girl: PartnerProfileDto;
+}
+
+export class KootaScoreDto {
+  @ApiProperty({ example: 'Nadi' })
+  koota: string;
+
+  @ApiProperty({ example: 'Adi' })
+  boy: string;
+
+  @ApiProperty({ example: 'Madhya' })
+  girl: string;
+
+  @ApiProperty({ example: 8 })
+  score: number;
+
+  @ApiProperty({ example: 8 })
+  max: number;
+
+  @ApiProperty({ example: 'Health and progeny' })
+  description: string;
+}
+
+export class CompatibilityResponseDto {
+  @ApiProperty({ description: 'Unique ID of the saved match' })
+  unique_id: string;
+
+  @ApiProperty({ example: 'Rahul' })
+  boy_name: string;
+
+  @ApiProperty({ example: 'Priya' })
+  girl_name: string;
+
+  @ApiProperty({ type: [KootaScoreDto] })
+  kootas: KootaScoreDto[];
+
+  @ApiProperty({ example: 26.5 })
+  total_score: number;
+
+  @ApiProperty({ example: 26.5, description: 'Total with cancelled Nadi/Bhakoot doshas restored' })
+  adjusted_score: number;
+
+  @ApiProperty({ example: 36 })
+  max_score: number;
+
+  @ApiProperty({ enum: ['excellent', 'good', 'average', 'not_recommended'] })
+  verdict: string;
+
+  @ApiProperty({ description: 'Moon sign, nakshatra and pada of both partners' })
+  moon: Record<string, any>;
+
+  @ApiProperty({ description: 'Nadi dosha with its exceptions' })
+  nadi_dosha: Record<string, any>;
+
+  @ApiProperty({ description: 'Bhakoot dosha with its exceptions' })
+  bhakoot_dosha: Record<string, any>;
+
+  @ApiProperty({ description: 'Manglik status of both partners and whether they match' })
+  manglik: Record<string, any>;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class CompatibilityHistoryItemDto {
+  @ApiProperty()
+  unique_id: string;
+
+  @ApiProperty({ example: 'Rahul' })
+  boy_name: string;
+
+  @ApiProperty({ example: 'Priya' })
+  girl_name: string;
+
+  @ApiProperty({ example: 26.5 })
+  total_score: number;
+
+  @ApiProperty({ example: 26.5 })
+  adjusted_score: number;
+
+  @ApiProperty({ example: 'good' })
+  verdict: string;
+
+  @ApiProperty()
+  created_at: Date;
+}
@@ -0,0 +1,44 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('compatibility_matches')
+@Index(['user_id', 'is_deleted'])
+export class CompatibilityMatch extends BaseEntity {
+  @Column({ type: 'bigint', name: 'user_id' })
+  user_id: number;
+
+  @Column({ type: 'varchar', length: 255, name: 'boy_name' })
+  boy_name: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'girl_name' })
+  girl_name: string;
+
+  @Column({ type: 'bigint', nullable: true, name: 'boy_kundli_id' })
+  boy_kundli_id: number | null;
+
+  @Column({ type: 'bigint', nullable: true, name: 'girl_kundli_id' })
+  girl_kundli_id: number | null;
+
+  @Column({ type: 'jsonb', name: 'boy_details' })
+  boy_details: Record<string, any>; // Birth details and Moon position used for the match
+
+  @Column({ type: 'jsonb', name: 'girl_details' })
+  girl_details: Record<string, any>;
+
+  @Column({ type: 'decimal', precision: 4, scale: 1, name: 'total_score' })
+  total_score: number;
+
+  @Column({ type: 'decimal', precision: 4, scale: 1, name: 'adjusted_score' })
+  adjusted_score: number; // Total with cancelled Nadi/Bhakoot doshas restored
+
+  @Column({ type: 'varchar', length: 30 })
+  verdict: string; // 'excellent', 'good', 'average', 'not_recommended'
+
+  @Column({ type: 'jsonb' })
+  result: Record<string, any>; // Full koota breakdown, doshas and Manglik cross-check
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user: User;
+}
@@ -0,0 +1,191 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CompatibilityMatch } from '../entities/compatibility-match.entity';
+import { KundliService } from '../../kundli/services/kundli.service';
+import { AshtakootaChartInput, AshtakootaService } from '../../astrology/services/ashtakoota.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import {
+  CompatibilityRequestDto,
+  CompatibilityResponseDto,
+  CompatibilityHistoryItemDto,
+  PartnerProfileDto,
+} from '../dto/compatibility.dto';
+
+interface ResolvedPartner {
+  name: string;
+  kundli_id: number | null;
+  details: Record<string, any>;
+  chart: AshtakootaChartInput;
+}
+
+/**
+ * Compatibility Service
+ * Ashtakoota (Guna Milan) matching between two birth profiles or saved
+ * kundlis, with every match kept in the customer's history.
+ */
+@Injectable()
+export class CompatibilityService {
+  private readonly logger = new Logger(CompatibilityService.name);
+
+  constructor(
+    @InjectRepository(CompatibilityMatch)
+    private readonly matchRepository: Repository<CompatibilityMatch>,
+    private readonly kundliService: KundliService,
+    private readonly ashtakootaService: AshtakootaService,
+  ) {}
+
+  /**
+   * Match two profiles and save the result to the customer's history
+   */
+  async createMatch(userId: number, dto: CompatibilityRequestDto): Promise<CompatibilityResponseDto> {
+    const boy = await this.resolvePartner(userId, dto.boy, 'boy');
+    const girl = await this.resolvePartner(userId, dto.girl, 'girl');
+
+    const result = this.ashtakootaService.match(boy.chart, girl.chart);
+
+    const match = this.matchRepository.create({
+      user_id: userId,
+      boy_name: boy.name,
+      girl_name: girl.name,
+      boy_kundli_id: boy.kundli_id,
+      girl_kundli_id: girl.kundli_id,
+      boy_details: { ...boy.details, moon: result.boy_moon },
+      girl_details: { ...girl.details, moon: result.girl_moon },
+      total_score: result.total_score,
+      adjusted_score: result.adjusted_score,
+      verdict: result.verdict,
+      result,
+      added_by: userId,
+      modify_by: userId,
+    });
+    const saved = await this.matchRepository.save(match);
+    this.logger.log(`Compatibility match ${saved.unique_id} created for user ${userId}: ${result.total_score}/36`);
+
+    return this.toResponse(saved);
+  }
+
+  /**
+   * Match history of a customer, newest first
+   */
+  async getHistory(userId: number, limit = 20, offset = 0): Promise<{ matches: CompatibilityHistoryItemDto[]; total: number }> {
+    const [matches, total] = await this.matchRepository.findAndCount({
+      where: { user_id: userId, is_deleted: false },
+      order: { added_date: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+
+    return {
+      matches: matches.map((match) => ({
+        unique_id: match.unique_id,
+        boy_name: match.boy_name,
+        girl_name: match.girl_name,
+        total_score: Number(match.total_score),
+        adjusted_score: Number(match.adjusted_score),
+        verdict: match.verdict,
+        created_at: match.added_date,
+      })),
+      total,
+    };
+  }
+
+  async getMatch(userId: number, uniqueId: string): Promise<CompatibilityResponseDto> {
+    return this.toResponse(await this.findOwnMatch(userId, uniqueId));
+  }
+
+  async deleteMatch(userId: number, uniqueId: string): Promise<void> {
+    const match = await this.findOwnMatch(userId, uniqueId);
+    match.is_deleted = true;
+    match.modify_by = userId;
+    await this.matchRepository.save(match);
+  }
+
+  private async findOwnMatch(userId: number, uniqueId: string): Promise<CompatibilityMatch> {
+    const match = await this.matchRepository.findOne({
+      where: { unique_id: uniqueId, user_id: userId, is_deleted: false },
+    });
+    if (!match) {
+      throw new NotFoundException(`Compatibility match with unique ID ${uniqueId} not found`);
+    }
+    return match;
+  }
+
+  /**
+   * Build the chart for one partner from a saved kundli or from birth details
+   */
+  private async resolvePartner(userId: number, profile: PartnerProfileDto, role: 'boy' | 'girl'): Promise<ResolvedPartner> {
+    if (profile.kundli_id) {
+      const kundli = await this.kundliService.findAccessibleKundli(profile.kundli_id, { id: userId });
+
+      const lagnaSignIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+      if (!kundli.planets?.length || lagnaSignIndex === -1) {
+        throw new BadRequestException(`Kundli ${profile.kundli_id} has no stored positions; regenerate the kundli`);
+      }
+
+      const ownerName = [kundli.user?.first_name, kundli.user?.last_name].filter(Boolean).join(' ');
+      return {
+        name: profile.name || kundli.full_data?.name || ownerName || `Kundli ${kundli.id}`,
+        kundli_id: Number(kundli.id),
+        details: {
+          birth_date: kundli.birth_date,
+          birth_time: kundli.birth_time,
+          birth_place: kundli.birth_place,
+        },
+        chart: {
+          lagnaLongitude: lagnaSignIndex * 30 + Number(kundli.lagna_degrees || 0),
+          planets: kundli.planets.map((p) => ({ name: p.planet_name, longitude: Number(p.longitude_degrees) })),
+        },
+      };
+    }
+
+    if (!profile.birth_date || !profile.birth_time || !profile.birth_place) {
+      throw new BadRequestException(`Provide either kundli_id or birth_date, birth_time and birth_place for the ${role}`);
+    }
+
+    const { chart, latitude, longitude, timezone } = await this.kundliService.calculateBirthChart({
+      birth_date: profile.birth_date,
+      birth_time: profile.birth_time,
+      birth_place: profile.birth_place,
+      latitude: profile.latitude,
+      longitude: profile.longitude,
+      timezone: profile.timezone,
+    });
+
+    return {
+      name: profile.name || (role === 'boy' ? 'Boy' : 'Girl'),
+      kundli_id: null,
+      details: {
+        birth_date: profile.birth_date,
+        birth_time: profile.birth_time,
+        birth_place: profile.birth_place,
+        latitude,
+        longitude,
+        timezone,
+      },
+      chart: {
+        lagnaLongitude: chart.lagna.longitude,
+        planets: chart.planets.map((p) => ({ name: p.name, longitude: p.longitude })),
+      },
+    };
+  }
+
+  private toResponse(match: CompatibilityMatch): CompatibilityResponseDto {
+    const result = match.result;
+    return {
+      unique_id: match.unique_id,
+      boy_name: match.boy_name,
+      girl_name: match.girl_name,
+      kootas: result.kootas,
+      total_score: Number(match.total_score),
+      adjusted_score: Number(match.adjusted_score),
+      max_score: result.max_score,
+      verdict: match.verdict,
+      moon: { boy: result.boy_moon, girl: result.girl_moon },
+      nadi_dosha: result.nadi_dosha,
+      bhakoot_dosha: result.bhakoot_dosha,
+      manglik: result.manglik,
+      created_at: match.added_date,
+    };
+  }
+}
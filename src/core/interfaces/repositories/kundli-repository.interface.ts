@@ -1,4 +1,5 @@
-import { Kundli } from '../../../kundli/entities/kundli.entity';
+import { EntityManager } from 'typeorm';
+import { Kundli, KundliDashaTimeline } from '../../../kundli/entities/kundli.entity';
 
 export interface CreateKundliInput {
   user_id: number;
@@ -8,6 +9,7 @@ export interface CreateKundliInput {
   latitude: number;
   longitude: number;
   timezone: string;
+  utc_offset_minutes?: number | null;
   lagna_degrees?: number | null;
   lagna_name?: string | null;
   nakshatra?: string | null;
@@ -16,9 +18,15 @@ export interface CreateKundliInput {
   yoga?: string | null;
   karana?: string | null;
   ayanamsa?: number | null;
+  ayanamsa_name?: string | null;
+  house_system?: string;
+  version?: number;
+  engine_version?: string | null;
   full_data?: Record<string, any> | null;
-  dasha_timeline?: Record<string, any>[] | null;
+  dasha_timeline?: KundliDashaTimeline | null;
   navamsa_data?: Record<string, any> | null;
+  varga_charts?: Record<string, any> | null;
+  strength_data?: Record<string, any> | null;
 }
 
 export interface UpdateKundliInput {
@@ -28,6 +36,7 @@ export interface UpdateKundliInput {
   latitude?: number;
   longitude?: number;
   timezone?: string;
+  utc_offset_minutes?: number | null;
   lagna_degrees?: number | null;
   lagna_name?: string | null;
   nakshatra?: string | null;
@@ -36,9 +45,15 @@ export interface UpdateKundliInput {
   yoga?: string | null;
   karana?: string | null;
   ayanamsa?: number | null;
+  ayanamsa_name?: string | null;
+  house_system?: string;
+  version?: number;
+  engine_version?: string | null;
   full_data?: Record<string, any> | null;
-  dasha_timeline?: Record<string, any>[] | null;
+  dasha_timeline?: KundliDashaTimeline | null;
   navamsa_data?: Record<string, any> | null;
+  varga_charts?: Record<string, any> | null;
+  strength_data?: Record<string, any> | null;
 }
 
 export interface IKundliRepository {
@@ -47,7 +62,7 @@ export interface IKundliRepository {
   findByUserId(userId: number, options?: { is_deleted?: boolean }): Promise<Kundli[]>;
   findOneByUserId(userId: number, options?: { is_deleted?: boolean }): Promise<Kundli | null>;
   create(data: CreateKundliInput): Promise<Kundli>;
-  update(kundli: Kundli, data: UpdateKundliInput): Promise<Kundli>;
+  update(kundli: Kundli, data: UpdateKundliInput, manager?: EntityManager): Promise<Kundli>;
   delete(kundli: Kundli): Promise<void>;
 }
 
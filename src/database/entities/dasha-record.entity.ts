@@ -6,11 +6,14 @@ import {
   ManyToOne,
   OneToMany,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { Kundli } from '../../kundli/entities/kundli.entity';
 import { AntardashaRecord } from './antardasha-record.entity';
 
 @Entity('dasha_records')
+@Index(['kundli_id'])
 export class DashaRecord {
   @PrimaryGeneratedColumn()
   id: number;
@@ -22,6 +25,14 @@ export class DashaRecord {
   @JoinColumn({ name: 'user_id' })
   user: User;
 
+  // Kundli the periods were computed from; null on rows saved before records were keyed by kundli
+  @Column({ type: 'bigint', nullable: true })
+  kundli_id: number | null;
+
+  @ManyToOne(() => Kundli, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'kundli_id' })
+  kundli: Kundli;
+
   @Column({ type: 'varchar', length: 20, nullable: false })
   mahadasha_lord: string;
 
@@ -0,0 +1,64 @@
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { HoroscopeContentService } from '../../services/horoscope-content.service';
+import { HoroscopeSchedulerService } from '../../services/horoscope-scheduler.service';
+import {
+  GenerateHoroscopesDto,
+  GenerateHoroscopesResultDto,
+  HoroscopeContentDto,
+  ListHoroscopeContentsDto,
+  ReviewHoroscopeContentDto,
+  UpdateHoroscopeContentDto,
+} from '../../dto/horoscope-content.dto';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { CurrentUser } from '../../../common/decorators/current-user.decorator';
+
+@ApiTags('admin-horoscopes')
+@Controller('admin/horoscopes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+export class AdminHoroscopeController {
+  constructor(
+    private readonly horoscopeContentService: HoroscopeContentService,
+    private readonly horoscopeSchedulerService: HoroscopeSchedulerService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List stored horoscopes (Admin only)' })
+  async findAll(@Query() query: ListHoroscopeContentsDto) {
+    return this.horoscopeContentService.list(query);
+  }
+
+  @Post('generate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Generate missing sign horoscopes now (Admin only)' })
+  @ApiResponse({ status: 200, type: GenerateHoroscopesResultDto })
+  async generate(@Body() dto: GenerateHoroscopesDto) {
+    return this.horoscopeSchedulerService.generate(dto);
+  }
+
+  @Get(':uniqueId')
+  @ApiOperation({ summary: 'Get a stored horoscope (Admin only)' })
+  @ApiResponse({ status: 200, type: HoroscopeContentDto })
+  async findOne(@Param('uniqueId') uniqueId: string) {
+    return this.horoscopeContentService.get(uniqueId);
+  }
+
+  @Patch(':uniqueId')
+  @ApiOperation({ summary: 'Edit the texts of a stored horoscope (Admin only)' })
+  @ApiResponse({ status: 200, type: HoroscopeContentDto })
+  async update(@Param('uniqueId') uniqueId: string, @Body() dto: UpdateHoroscopeContentDto, @CurrentUser() user: any) {
+    return this.horoscopeContentService.update(uniqueId, user.id, dto);
+  }
+
+  @Patch(':uniqueId/review')
+  @ApiOperation({ summary: 'Approve a stored horoscope so it goes live, or reject it (Admin only)' })
+  @ApiResponse({ status: 200, type: HoroscopeContentDto })
+  async review(@Param('uniqueId') uniqueId: string, @Body() dto: ReviewHoroscopeContentDto, @CurrentUser() user: any) {
+    return this.horoscopeContentService.review(uniqueId, user.id, dto);
+  }
+}
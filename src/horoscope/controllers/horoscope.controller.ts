@@ -27,7 +27,7 @@ export class HoroscopeController {
 
   /**
    * POST /api/v1/horoscope
-   * Get horoscope (daily, weekly, or monthly) - Public endpoint with optional authentication
+   * Get horoscope (daily, weekly, monthly or yearly) - Public endpoint with optional authentication
    * If user is authenticated and no sign provided, uses user's birth date
    */
   @Post()
@@ -50,7 +50,7 @@ export class HoroscopeController {
   ): Promise<HoroscopeResponseDto> {
     // If user is authenticated and no sign provided, get personalized horoscope
     if (req?.user?.id && !dto.sign) {
-      return this.horoscopeService.getHoroscopeForUser(req.user.id, dto.type);
+      return this.horoscopeService.getHoroscopeForUser(req.user.id, dto.type, dto.language);
     }
 
     // If user is authenticated and sign is provided, use provided sign (override)
@@ -89,13 +89,17 @@ export class HoroscopeController {
     status: 401,
     description: 'Unauthorized',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Yearly horoscopes are not available in the plan',
+  })
   async getMyHoroscope(
-    @Body() body: { type?: 'daily' | 'weekly' | 'monthly' },
+    @Body() body: { type?: 'daily' | 'weekly' | 'monthly' | 'yearly'; language?: string },
     @Request() req: any,
   ): Promise<HoroscopeResponseDto> {
     const userId = req.user.id;
     const type = body.type || 'daily';
-    return this.horoscopeService.getHoroscopeForUser(userId, type);
+    return this.horoscopeService.getHoroscopeForUser(userId, type, body.language || undefined);
   }
 }
 
@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsIn } from 'class-validator';
+import { IsString, IsNotEmpty, IsIn, IsOptional, Matches } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class GetHoroscopeDto {
@@ -41,12 +41,19 @@ export class GetHoroscopeDto {
   @ApiProperty({
     description: 'Horoscope type',
     example: 'daily',
-    enum: ['daily', 'weekly', 'monthly'],
+    enum: ['daily', 'weekly', 'monthly', 'yearly'],
   })
   @IsString()
   @IsNotEmpty()
-  @IsIn(['daily', 'weekly', 'monthly'])
-  type: 'daily' | 'weekly' | 'monthly';
-}
-
+  @IsIn(['daily', 'weekly', 'monthly', 'yearly'])
+  type: 'daily' | 'weekly' | 'monthly' | 'yearly';
 
+  @ApiProperty({
+    description: 'Language of the horoscope (ISO 639-1); falls back to English when no translation is published',
+    example: 'en',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^[a-z]{2}(-[A-Z]{2})?$/, { message: 'language must be an ISO 639-1 code such as en or hi' })
+  language?: string;
+}
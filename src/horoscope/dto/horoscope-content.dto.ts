@@ -0,0 +1,216 @@
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsInt,
+  IsIn,
+  IsArray,
+  Min,
+  Max,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  HOROSCOPE_CONTENT_SOURCES,
+  HOROSCOPE_CONTENT_STATUSES,
+  HOROSCOPE_CONTENT_TYPES,
+  HoroscopeContentSource,
+  HoroscopeContentStatus,
+  HoroscopeContentType,
+} from '../entities/horoscope-content.entity';
+
+const LANGUAGE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+export class ListHoroscopeContentsDto {
+  @ApiPropertyOptional({ enum: HOROSCOPE_CONTENT_STATUSES })
+  @IsIn(HOROSCOPE_CONTENT_STATUSES)
+  @IsOptional()
+  status?: HoroscopeContentStatus;
+
+  @ApiPropertyOptional({ enum: HOROSCOPE_CONTENT_TYPES })
+  @IsIn(HOROSCOPE_CONTENT_TYPES)
+  @IsOptional()
+  type?: HoroscopeContentType;
+
+  @ApiPropertyOptional({ example: 'Aries' })
+  @IsString()
+  @IsOptional()
+  sign?: string;
+
+  @ApiPropertyOptional({ description: 'Personalized horoscopes of one customer' })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  user_id?: number;
+
+  @ApiPropertyOptional({ example: 'hi' })
+  @Matches(LANGUAGE_PATTERN, { message: 'language must be an ISO 639-1 code such as en or hi' })
+  @IsOptional()
+  language?: string;
+
+  @ApiPropertyOptional({ description: 'First day of the period (YYYY-MM-DD)', example: '2026-10-19' })
+  @IsDateString()
+  @IsOptional()
+  period_start?: string;
+
+  @ApiPropertyOptional({ example: 20, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  offset?: number;
+}
+
+export class UpdateHoroscopeContentDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  prediction?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  love?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  career?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  health?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  finance?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  lucky_number?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  lucky_color?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  compatibility?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  mood?: string;
+}
+
+export class ReviewHoroscopeContentDto {
+  @ApiProperty({ enum: ['approved', 'rejected'] })
+  @IsIn(['approved', 'rejected'])
+  status: Exclude<HoroscopeContentStatus, 'pending_review'>;
+
+  @ApiPropertyOptional({ description: 'Notes for other reviewers' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+}
+
+export class GenerateHoroscopesDto {
+  @ApiPropertyOptional({ enum: HOROSCOPE_CONTENT_TYPES, description: 'Defaults to all types' })
+  @IsIn(HOROSCOPE_CONTENT_TYPES)
+  @IsOptional()
+  type?: HoroscopeContentType;
+
+  @ApiPropertyOptional({
+    description: 'Generate the periods containing this date (YYYY-MM-DD); defaults to the current and next periods',
+    example: '2026-10-19',
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Defaults to the configured languages', example: ['en', 'hi'] })
+  @IsArray()
+  @Matches(LANGUAGE_PATTERN, { each: true, message: 'languages must be ISO 639-1 codes such as en or hi' })
+  @IsOptional()
+  languages?: string[];
+}
+
+export class GenerateHoroscopesResultDto {
+  @ApiProperty({ description: 'Entries created', example: 36 })
+  created: number;
+
+  @ApiProperty({ description: 'Entries that already existed and were left as they are', example: 0 })
+  skipped: number;
+
+  @ApiProperty({ description: 'Entries that could not be generated or localized', example: 0 })
+  failed: number;
+}
+
+export class HoroscopeContentDto {
+  @ApiProperty()
+  unique_id: string;
+
+  @ApiProperty({ nullable: true, example: 'Aries' })
+  sign: string | null;
+
+  @ApiProperty({ nullable: true })
+  user_id: number | null;
+
+  @ApiProperty({ enum: HOROSCOPE_CONTENT_TYPES })
+  type: HoroscopeContentType;
+
+  @ApiProperty({ example: '2026-10-19' })
+  period_start: string;
+
+  @ApiProperty({ example: '2026-10-25' })
+  period_end: string;
+
+  @ApiProperty({ example: 'en' })
+  language: string;
+
+  @ApiProperty({ description: 'Prediction texts, lucky number/colour, mood and the generator data' })
+  content: Record<string, any>;
+
+  @ApiProperty({ enum: HOROSCOPE_CONTENT_SOURCES })
+  source: HoroscopeContentSource;
+
+  @ApiProperty({ enum: HOROSCOPE_CONTENT_STATUSES })
+  status: HoroscopeContentStatus;
+
+  @ApiProperty({ nullable: true })
+  review_notes: string | null;
+
+  @ApiProperty({ nullable: true })
+  reviewed_at: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty()
+  updated_at: Date;
+}
@@ -37,6 +37,9 @@ export class HoroscopeResponseDto {
   @ApiProperty({ required: false })
   mood?: string;
 
+  @ApiProperty({ required: false, example: 'en' })
+  language?: string;
+
   @ApiProperty({ required: false })
   full_data?: Record<string, any>;
 }
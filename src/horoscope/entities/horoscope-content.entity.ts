@@ -0,0 +1,65 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+export const HOROSCOPE_CONTENT_TYPES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+export type HoroscopeContentType = (typeof HOROSCOPE_CONTENT_TYPES)[number];
+
+export const HOROSCOPE_CONTENT_STATUSES = ['pending_review', 'approved', 'rejected'] as const;
+export type HoroscopeContentStatus = (typeof HOROSCOPE_CONTENT_STATUSES)[number];
+
+export const HOROSCOPE_CONTENT_SOURCES = ['swiss_ephemeris', 'fallback', 'kundli', 'llm'] as const;
+export type HoroscopeContentSource = (typeof HOROSCOPE_CONTENT_SOURCES)[number];
+
+/**
+ * Pre-generated horoscope for a zodiac sign or a customer, one row per
+ * subject, type, period and language. Only approved rows are served. The
+ * unique key includes soft-deleted rows, which are restored when the entry is
+ * saved again.
+ */
+@Entity('horoscope_contents')
+@Index(['subject_key', 'type', 'period_start', 'language'], { unique: true })
+@Index(['status', 'is_deleted'])
+@Index(['period_start', 'type'])
+export class HoroscopeContent extends BaseEntity {
+  @Column({ type: 'varchar', length: 50, name: 'subject_key' })
+  subject_key: string; // 'sign:Aries' or 'user:42'
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  sign: string | null; // Sun sign for sign horoscopes, Moon sign for personalized ones
+
+  @Column({ type: 'bigint', nullable: true, name: 'user_id' })
+  user_id: number | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  type: HoroscopeContentType;
+
+  @Column({ type: 'date', name: 'period_start' })
+  period_start: string;
+
+  @Column({ type: 'date', name: 'period_end' })
+  period_end: string;
+
+  @Column({ type: 'varchar', length: 10, default: 'en' })
+  language: string;
+
+  @Column({ type: 'jsonb' })
+  content: Record<string, any>; // prediction, life areas, lucky number/colour, mood and the generator's full data
+
+  @Column({ type: 'varchar', length: 20 })
+  source: HoroscopeContentSource;
+
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'source_revision' })
+  source_revision: string | null; // Kundli revision a personalized horoscope was generated from
+
+  @Column({ type: 'varchar', length: 20, default: 'pending_review' })
+  status: HoroscopeContentStatus;
+
+  @Column({ type: 'text', nullable: true, name: 'review_notes' })
+  review_notes: string | null;
+
+  @Column({ type: 'bigint', nullable: true, name: 'reviewed_by' })
+  reviewed_by: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true, name: 'reviewed_at' })
+  reviewed_at: Date | null;
+}
@@ -0,0 +1,18 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { HoroscopeContentType } from './horoscope-content.entity';
+
+/**
+ * Personalized horoscope a customer asked for that is missing from the store
+ * or was made from an earlier kundli revision. Reads only queue the request;
+ * the scheduler generates the entry and deletes the request.
+ */
+@Entity('horoscope_requests')
+@Index(['user_id', 'type'], { unique: true })
+export class HoroscopeRequest extends BaseEntity {
+  @Column({ type: 'bigint', name: 'user_id' })
+  user_id: number;
+
+  @Column({ type: 'varchar', length: 10 })
+  type: HoroscopeContentType;
+}
@@ -2,19 +2,39 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
+import { AIPromptModule } from '../common/ai/ai-prompt.module';
+import { CalendarModule } from '../calendar/calendar.module';
 import { HoroscopeService } from './services/horoscope.service';
+import { PersonalizedHoroscopeService } from './services/personalized-horoscope.service';
+import { HoroscopeContentService } from './services/horoscope-content.service';
+import { HoroscopeSchedulerService } from './services/horoscope-scheduler.service';
+import { HoroscopeEventsService } from './services/horoscope-events.service';
 import { HoroscopeController } from './controllers/horoscope.controller';
+import { AdminHoroscopeController } from './controllers/admin/admin-horoscope.controller';
 import { Customer } from '../users/entities/customer.entity';
+import { HoroscopeContent } from './entities/horoscope-content.entity';
+import { HoroscopeRequest } from './entities/horoscope-request.entity';
 
 @Module({
   imports: [
     HttpModule,
-    TypeOrmModule.forFeature([Customer]),
+    TypeOrmModule.forFeature([Customer, HoroscopeContent, HoroscopeRequest]),
     AstrologyModule,
+    KundliModule,
+    RepositoriesModule,
+    AIPromptModule,
+    CalendarModule,
+  ],
+  controllers: [HoroscopeController, AdminHoroscopeController],
+  providers: [
+    HoroscopeService,
+    PersonalizedHoroscopeService,
+    HoroscopeContentService,
+    HoroscopeSchedulerService,
+    HoroscopeEventsService,
   ],
-  controllers: [HoroscopeController],
-  providers: [HoroscopeService],
   exports: [HoroscopeService],
 })
 export class HoroscopeModule {}
-
@@ -0,0 +1,429 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThanOrEqual, Like, Repository } from 'typeorm';
+import {
+  HoroscopeContent,
+  HoroscopeContentSource,
+  HoroscopeContentStatus,
+  HoroscopeContentType,
+} from '../entities/horoscope-content.entity';
+import { HoroscopeRequest } from '../entities/horoscope-request.entity';
+import {
+  HoroscopeContentDto,
+  ListHoroscopeContentsDto,
+  ReviewHoroscopeContentDto,
+  UpdateHoroscopeContentDto,
+} from '../dto/horoscope-content.dto';
+import { HoroscopeResponseDto } from '../dto/horoscope-response.dto';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { PromptService } from '../../common/ai/prompt.service';
+import { LLMService } from '../../common/ai/services/llm.service';
+import { isUniqueViolation } from '../../common/utils/database.util';
+
+export const DEFAULT_HOROSCOPE_LANGUAGE = 'en';
+
+export const signSubjectKey = (sign: string) => `sign:${sign}`;
+export const userSubjectKey = (userId: number) => `user:${userId}`;
+
+const USER_SUBJECT_KEYS = 'user:%';
+
+// Texts the LLM translates; the rest of the content is data
+const HOROSCOPE_TEXT_FIELDS = ['prediction', 'love', 'career', 'health', 'finance', 'compatibility', 'lucky_color', 'mood'];
+
+export interface HoroscopePeriod {
+  type: HoroscopeContentType;
+  start: string; // first local day, YYYY-MM-DD
+  end: string; // last local day, inclusive
+  at: Date; // local noon of the first day, the instant charts for the period are cast for
+}
+
+export interface SaveHoroscopeContentInput {
+  subject_key: string;
+  sign: string | null;
+  user_id?: number | null;
+  period: HoroscopePeriod;
+  language: string;
+  horoscope: HoroscopeResponseDto;
+  source: HoroscopeContentSource;
+  source_revision?: string | null;
+  status: HoroscopeContentStatus;
+}
+
+/**
+ * Horoscope Content Service
+ * Store of pre-generated sign and personalized horoscopes. Periods are local
+ * calendar days, Monday-to-Sunday weeks, calendar months and years in the horoscope
+ * timezone (HOROSCOPE_TIMEZONE, default Asia/Kolkata). Translations are made
+ * with the LLM from the 'horoscope.localization.*' prompts. Personalized
+ * horoscopes customers ask for are queued here for the scheduler.
+ */
+@Injectable()
+export class HoroscopeContentService {
+  private readonly logger = new Logger(HoroscopeContentService.name);
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+  readonly timezone: string;
+  readonly languages: string[];
+  readonly autoApprove: boolean;
+
+  constructor(
+    @InjectRepository(HoroscopeContent)
+    private readonly contentRepository: Repository<HoroscopeContent>,
+    @InjectRepository(HoroscopeRequest)
+    private readonly requestRepository: Repository<HoroscopeRequest>,
+    private readonly configService: ConfigService,
+    private readonly timezoneService: TimezoneService,
+    private readonly promptService: PromptService,
+    private readonly llmService: LLMService,
+  ) {
+    this.timezone = this.configService.get<string>('HOROSCOPE_TIMEZONE') || 'Asia/Kolkata';
+    const languages = (this.configService.get<string>('HOROSCOPE_LANGUAGES') || DEFAULT_HOROSCOPE_LANGUAGE)
+      .split(',')
+      .map((l) => l.trim())
+      .filter(Boolean);
+    this.languages = [DEFAULT_HOROSCOPE_LANGUAGE, ...languages.filter((l) => l !== DEFAULT_HOROSCOPE_LANGUAGE)];
+    this.autoApprove = this.configService.get<string>('HOROSCOPE_AUTO_APPROVE') === 'true';
+  }
+
+  /**
+   * Period of a type containing an instant (default now)
+   */
+  getPeriod(type: HoroscopeContentType, at = new Date()): HoroscopePeriod {
+    const offset = this.timezoneService.getUtcOffsetMinutes(this.timezone, at);
+    const local = new Date(at.getTime() + offset * 60000);
+    let start = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+    let end = start;
+
+    if (type === 'weekly') {
+      start -= ((local.getUTCDay() + 6) % 7) * this.dayMs; // back to Monday
+      end = start + 6 * this.dayMs;
+    } else if (type === 'monthly') {
+      start = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1);
+      end = Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0);
+    } else if (type === 'yearly') {
+      start = Date.UTC(local.getUTCFullYear(), 0, 1);
+      end = Date.UTC(local.getUTCFullYear(), 11, 31);
+    }
+
+    const startDate = new Date(start).toISOString().split('T')[0];
+    return {
+      type,
+      start: startDate,
+      end: new Date(end).toISOString().split('T')[0],
+      at: this.timezoneService.toUniversalTime(startDate, '12:00:00', this.timezone).utc,
+    };
+  }
+
+  /**
+   * Period of a type containing a local day (YYYY-MM-DD)
+   */
+  getPeriodOfDay(type: HoroscopeContentType, day: string): HoroscopePeriod {
+    return this.getPeriod(type, this.timezoneService.toUniversalTime(day, '12:00:00', this.timezone).utc);
+  }
+
+  /**
+   * Period that follows another of the same type
+   */
+  getNextPeriod(period: HoroscopePeriod): HoroscopePeriod {
+    return this.getPeriodOfDay(period.type, new Date(Date.parse(period.end) + this.dayMs).toISOString().split('T')[0]);
+  }
+
+  /**
+   * Period that precedes another of the same type
+   */
+  getPreviousPeriod(period: HoroscopePeriod): HoroscopePeriod {
+    return this.getPeriodOfDay(period.type, new Date(Date.parse(period.start) - this.dayMs).toISOString().split('T')[0]);
+  }
+
+  /**
+   * Entry for a subject, type, period and language in any status
+   */
+  async find(subjectKey: string, type: HoroscopeContentType, periodStart: string, language: string): Promise<HoroscopeContent | null> {
+    return this.contentRepository.findOne({
+      where: { subject_key: subjectKey, type, period_start: periodStart, language, is_deleted: false },
+    });
+  }
+
+  /**
+   * Latest approved entry up to the current period, in the requested language
+   * or else the default one. The requested language wins for the same period;
+   * an earlier period is served only until the current one is approved.
+   */
+  async findLive(subjectKey: string, type: HoroscopeContentType, language = DEFAULT_HOROSCOPE_LANGUAGE): Promise<HoroscopeContent | null> {
+    const period = this.getPeriod(type);
+    let live: HoroscopeContent | null = null;
+    for (const candidate of [...new Set([language, DEFAULT_HOROSCOPE_LANGUAGE])]) {
+      const entry = await this.contentRepository.findOne({
+        where: {
+          subject_key: subjectKey,
+          type,
+          period_start: LessThanOrEqual(period.start),
+          language: candidate,
+          status: 'approved',
+          is_enabled: true,
+          is_deleted: false,
+        },
+        order: { period_start: 'DESC' },
+      });
+      if (entry && (!live || entry.period_start > live.period_start)) {
+        live = entry;
+      }
+    }
+    return live;
+  }
+
+  /**
+   * Personalized entries of a period in a language, in any status
+   */
+  async findPersonalized(period: HoroscopePeriod, language: string): Promise<HoroscopeContent[]> {
+    return this.contentRepository.find({
+      where: { subject_key: Like(USER_SUBJECT_KEYS), type: period.type, period_start: period.start, language, is_deleted: false },
+    });
+  }
+
+  /**
+   * Approve the personalized entries of a period that wait for review
+   */
+  async approvePersonalized(period: HoroscopePeriod): Promise<number> {
+    const result = await this.contentRepository.update(
+      {
+        subject_key: Like(USER_SUBJECT_KEYS),
+        type: period.type,
+        period_start: period.start,
+        status: 'pending_review',
+        is_deleted: false,
+      },
+      { status: 'approved', reviewed_at: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Queue the personalized horoscope of a user for the scheduler; a request
+   * already waiting is kept as it is
+   */
+  async requestPersonalized(userId: number, type: HoroscopeContentType): Promise<void> {
+    await this.requestRepository
+      .createQueryBuilder()
+      .insert()
+      .into(HoroscopeRequest)
+      .values({ user_id: userId, type })
+      .orIgnore()
+      .execute();
+  }
+
+  /**
+   * Waiting personalized horoscope requests, oldest first
+   */
+  async findRequests(): Promise<HoroscopeRequest[]> {
+    return this.requestRepository.find({ order: { added_date: 'ASC' } });
+  }
+
+  async deleteRequest(request: HoroscopeRequest): Promise<void> {
+    await this.requestRepository.delete({ id: request.id });
+  }
+
+  /**
+   * Create or replace the entry for a subject, type, period and language. A
+   * soft-deleted entry with the same key is restored, and an entry inserted
+   * at the same time by another request is replaced.
+   */
+  async save(input: SaveHoroscopeContentInput): Promise<HoroscopeContent> {
+    try {
+      return await this.contentRepository.save(await this.prepare(input));
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      return this.contentRepository.save(await this.prepare(input));
+    }
+  }
+
+  /**
+   * Record sky events on the stored sign horoscopes of a period in every
+   * language, replacing earlier copies of the same events
+   */
+  async attachEvents(type: HoroscopeContentType, periodStart: string, events: Record<string, any>[]): Promise<number> {
+    const entries = await this.contentRepository.find({
+      where: { subject_key: Like('sign:%'), type, period_start: periodStart, is_deleted: false },
+    });
+    const ids = new Set(events.map((e) => e.id));
+
+    for (const entry of entries) {
+      const existing: Record<string, any>[] = entry.content.full_data?.astro_events || [];
+      entry.content = {
+        ...entry.content,
+        full_data: { ...entry.content.full_data, astro_events: [...existing.filter((e) => !ids.has(e.id)), ...events] },
+      };
+    }
+    await this.contentRepository.save(entries);
+    return entries.length;
+  }
+
+  /**
+   * Translate the texts of a horoscope with the LLM; data fields are kept as they are
+   */
+  async localize(horoscope: HoroscopeResponseDto, language: string): Promise<HoroscopeResponseDto> {
+    const texts = Object.fromEntries(HOROSCOPE_TEXT_FIELDS.filter((f) => horoscope[f]).map((f) => [f, horoscope[f]]));
+
+    const systemPrompt = await this.promptService.getPrompt('horoscope.localization.system', { language });
+    const userPrompt = await this.promptService.getPrompt('horoscope.localization.user', {
+      language,
+      sign: horoscope.sign,
+      type: horoscope.type,
+      horoscope_json: JSON.stringify(texts),
+    });
+
+    const { data } = await this.llmService.callLLMJSON<Record<string, string>>({
+      systemPrompt: systemPrompt.finalText,
+      userPrompt: userPrompt.finalText,
+      temperature: 0.3,
+      maxTokens: 2000,
+    });
+
+    const translated = Object.fromEntries(
+      Object.keys(texts)
+        .filter((f) => typeof data?.[f] === 'string' && data[f].trim())
+        .map((f) => [f, data[f].trim()]),
+    );
+    if (!translated.prediction) {
+      throw new Error(`LLM returned no ${language} prediction`);
+    }
+    return { ...horoscope, ...translated, language };
+  }
+
+  /**
+   * Horoscope response from a stored entry
+   */
+  toHoroscope(entry: HoroscopeContent): HoroscopeResponseDto {
+    const { full_data, ...texts } = entry.content;
+    return {
+      ...(texts as Omit<HoroscopeResponseDto, 'sign' | 'type' | 'date'>),
+      sign: entry.sign,
+      type: entry.type,
+      date: entry.period_start,
+      language: entry.language,
+      full_data: {
+        ...full_data,
+        period_start: entry.period_start,
+        period_end: entry.period_end,
+        source: entry.source,
+        content_id: entry.unique_id,
+      },
+    };
+  }
+
+  async list(dto: ListHoroscopeContentsDto): Promise<{ entries: HoroscopeContentDto[]; total: number }> {
+    const [entries, total] = await this.contentRepository.findAndCount({
+      where: {
+        is_deleted: false,
+        ...(dto.status ? { status: dto.status } : {}),
+        ...(dto.type ? { type: dto.type } : {}),
+        ...(dto.sign ? { sign: dto.sign } : {}),
+        ...(dto.user_id ? { user_id: dto.user_id } : {}),
+        ...(dto.language ? { language: dto.language } : {}),
+        ...(dto.period_start ? { period_start: dto.period_start } : {}),
+      },
+      order: { period_start: 'ASC', type: 'ASC', sign: 'ASC', language: 'ASC' },
+      take: dto.limit ?? 20,
+      skip: dto.offset ?? 0,
+    });
+    return { entries: entries.map((e) => this.toResponse(e)), total };
+  }
+
+  async get(uniqueId: string): Promise<HoroscopeContentDto> {
+    return this.toResponse(await this.findByUniqueId(uniqueId));
+  }
+
+  /**
+   * Edit the texts of an entry; an approved entry stays live with the new text
+   */
+  async update(uniqueId: string, editorId: number, dto: UpdateHoroscopeContentDto): Promise<HoroscopeContentDto> {
+    const entry = await this.findByUniqueId(uniqueId);
+    const edits = Object.fromEntries(Object.entries(dto).filter(([, value]) => value !== undefined));
+
+    entry.content = {
+      ...entry.content,
+      ...edits,
+      full_data: { ...entry.content.full_data, edited_by: editorId, edited_at: new Date().toISOString() },
+    };
+    entry.modify_by = editorId;
+
+    const saved = await this.contentRepository.save(entry);
+    this.logger.log(`Horoscope ${uniqueId} edited by ${editorId}: ${Object.keys(edits).join(', ')}`);
+    return this.toResponse(saved);
+  }
+
+  /**
+   * Approve an entry so it goes live, or reject it
+   */
+  async review(uniqueId: string, reviewerId: number, dto: ReviewHoroscopeContentDto): Promise<HoroscopeContentDto> {
+    const entry = await this.findByUniqueId(uniqueId);
+
+    entry.status = dto.status as HoroscopeContentStatus;
+    entry.review_notes = dto.notes ?? entry.review_notes;
+    entry.reviewed_by = reviewerId;
+    entry.reviewed_at = new Date();
+    entry.modify_by = reviewerId;
+
+    const saved = await this.contentRepository.save(entry);
+    this.logger.log(`Horoscope ${uniqueId} ${dto.status} by ${reviewerId}`);
+    return this.toResponse(saved);
+  }
+
+  /**
+   * Stored or new entry with the key of an input, carrying its content
+   */
+  private async prepare(input: SaveHoroscopeContentInput): Promise<HoroscopeContent> {
+    const existing = await this.contentRepository.findOne({
+      where: { subject_key: input.subject_key, type: input.period.type, period_start: input.period.start, language: input.language },
+    });
+    const { sign: _sign, type: _type, date: _date, language: _language, full_data, ...texts } = input.horoscope;
+
+    const entry = existing || this.contentRepository.create({
+      subject_key: input.subject_key,
+      type: input.period.type,
+      period_start: input.period.start,
+      language: input.language,
+    });
+    entry.is_deleted = false;
+    entry.sign = input.sign;
+    entry.user_id = input.user_id ?? null;
+    entry.period_end = input.period.end;
+    entry.content = { ...texts, full_data: full_data || {} };
+    entry.source = input.source;
+    entry.source_revision = input.source_revision ?? null;
+    entry.status = input.status;
+    entry.review_notes = null;
+    entry.reviewed_by = null;
+    entry.reviewed_at = null;
+    return entry;
+  }
+
+  private async findByUniqueId(uniqueId: string): Promise<HoroscopeContent> {
+    const entry = await this.contentRepository.findOne({ where: { unique_id: uniqueId, is_deleted: false } });
+    if (!entry) {
+      throw new NotFoundException('Horoscope not found');
+    }
+    return entry;
+  }
+
+  private toResponse(entry: HoroscopeContent): HoroscopeContentDto {
+    return {
+      unique_id: entry.unique_id,
+      sign: entry.sign,
+      user_id: entry.user_id !== null ? Number(entry.user_id) : null,
+      type: entry.type,
+      period_start: entry.period_start,
+      period_end: entry.period_end,
+      language: entry.language,
+      content: entry.content,
+      source: entry.source,
+      status: entry.status,
+      review_notes: entry.review_notes,
+      reviewed_at: entry.reviewed_at,
+      created_at: entry.added_date,
+      updated_at: entry.modify_date,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { HoroscopeContentService } from './horoscope-content.service';
+import { HOROSCOPE_CONTENT_TYPES } from '../entities/horoscope-content.entity';
+import { AstronomicalEventBatch, AstronomicalEventFeedService } from '../../calendar/services/astronomical-event-feed.service';
+
+/**
+ * Horoscope Events Service
+ * Subscribes to the astronomical event feed and lists each published event
+ * under full_data.astro_events of the stored sign horoscopes whose day, week
+ * or month it falls in.
+ */
+@Injectable()
+export class HoroscopeEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HoroscopeEventsService.name);
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly astronomicalEventFeedService: AstronomicalEventFeedService,
+    private readonly horoscopeContentService: HoroscopeContentService,
+  ) {}
+
+  onModuleInit(): void {
+    this.subscription = this.astronomicalEventFeedService.subscribe(HoroscopeEventsService.name, (batch) => this.attach(batch));
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  private async attach(batch: AstronomicalEventBatch): Promise<void> {
+    let updated = 0;
+    for (const type of HOROSCOPE_CONTENT_TYPES) {
+      const byPeriod = new Map<string, Record<string, any>[]>();
+      for (const event of batch.events) {
+        const { start } = this.horoscopeContentService.getPeriod(type, event.date);
+        byPeriod.set(start, [
+          ...(byPeriod.get(start) || []),
+          { id: event.id, type: event.type, date: event.date, planet: event.planet, title: event.title, sign: event.sign },
+        ]);
+      }
+      for (const [periodStart, events] of byPeriod) {
+        updated += await this.horoscopeContentService.attachEvents(type, periodStart, events);
+      }
+    }
+    this.logger.log(`Astronomical events of ${batch.date} recorded on ${updated} stored horoscopes`);
+  }
+}
@@ -0,0 +1,311 @@
+import { Injectable, Logger, ConflictException, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HoroscopeService } from './horoscope.service';
+import { DEFAULT_HOROSCOPE_LANGUAGE, HoroscopeContentService, HoroscopePeriod, signSubjectKey } from './horoscope-content.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { HOROSCOPE_CONTENT_TYPES, HoroscopeContent } from '../entities/horoscope-content.entity';
+import { GenerateHoroscopesDto, GenerateHoroscopesResultDto } from '../dto/horoscope-content.dto';
+
+/**
+ * Horoscope Scheduler Service
+ * Pre-generates the sign horoscopes of the current and next day, week,
+ * month and year every night at HOROSCOPE_GENERATION_TIME (default 00:30) in
+ * the horoscope timezone, in English and the HOROSCOPE_LANGUAGES translations.
+ * Entries that already exist are never overwritten, so reviewed and edited
+ * content survives reruns. The personalized horoscopes of the users who had
+ * one in the previous period are generated for the current one, and all
+ * personalized horoscopes of the current periods are translated. Personalized
+ * horoscopes customers ask for are generated from the request queue every
+ * HOROSCOPE_REQUEST_INTERVAL_MINUTES (default 5). New entries wait for
+ * review unless HOROSCOPE_AUTO_APPROVE is true, in which case waiting
+ * personalized entries are approved too. Set HOROSCOPE_SCHEDULER_ENABLED=false to run
+ * generation only from the admin API, e.g. on all but one instance.
+ */
+@Injectable()
+export class HoroscopeSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(HoroscopeSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private requestTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly horoscopeService: HoroscopeService,
+    private readonly horoscopeContentService: HoroscopeContentService,
+    private readonly timezoneService: TimezoneService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<string>('HOROSCOPE_SCHEDULER_ENABLED') === 'false') {
+      this.logger.log('Nightly horoscope generation is disabled');
+      return;
+    }
+    this.scheduleNextRun();
+
+    const minutes = Number(this.configService.get<string>('HOROSCOPE_REQUEST_INTERVAL_MINUTES') || 5);
+    this.requestTimer = setInterval(() => this.runRequests(), minutes * 60 * 1000);
+    this.requestTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.requestTimer) {
+      clearInterval(this.requestTimer);
+      this.requestTimer = null;
+    }
+  }
+
+  /**
+   * Generate missing sign horoscopes. Without a date, the current and next
+   * periods of each type are covered.
+   */
+  async generate(dto: GenerateHoroscopesDto = {}): Promise<GenerateHoroscopesResultDto> {
+    if (this.running) {
+      throw new ConflictException('Horoscope generation is already running');
+    }
+    this.running = true;
+
+    const result: GenerateHoroscopesResultDto = { created: 0, skipped: 0, failed: 0 };
+    const languages = [...new Set([DEFAULT_HOROSCOPE_LANGUAGE, ...(dto.languages || this.horoscopeContentService.languages)])];
+    const types = dto.type ? [dto.type] : [...HOROSCOPE_CONTENT_TYPES];
+
+    try {
+      for (const type of types) {
+        const current = dto.date
+          ? this.horoscopeContentService.getPeriodOfDay(type, dto.date.split('T')[0])
+          : this.horoscopeContentService.getPeriod(type);
+        const periods = dto.date ? [current] : [current, this.horoscopeContentService.getNextPeriod(current)];
+
+        for (const period of periods) {
+          for (const sign of ZODIAC_SIGNS) {
+            await this.generateSign(sign, period, languages, result);
+          }
+        }
+        await this.publishPersonalized(current, languages, result);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    this.logger.log(`Horoscope generation done: ${result.created} created, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Generate the queued personalized horoscopes of the current periods with
+   * their translations. Each request is removed once handled, also when it
+   * fails; the customer's next read queues it again.
+   */
+  async generateRequested(): Promise<GenerateHoroscopesResultDto> {
+    if (this.running) {
+      throw new ConflictException('Horoscope generation is already running');
+    }
+    this.running = true;
+
+    const result: GenerateHoroscopesResultDto = { created: 0, skipped: 0, failed: 0 };
+    const status = this.horoscopeContentService.autoApprove ? 'approved' : 'pending_review';
+    const periods = new Map<string, HoroscopePeriod>();
+
+    try {
+      for (const request of await this.horoscopeContentService.findRequests()) {
+        const period = this.horoscopeContentService.getPeriod(request.type);
+        try {
+          const english = await this.horoscopeService.generatePersonalizedHoroscope(Number(request.user_id), period, status);
+          if (english && english.status !== 'rejected') {
+            result.created++;
+            periods.set(period.type, period);
+            await this.translatePersonalized(english, period, this.horoscopeContentService.languages, result);
+          }
+        } catch (error) {
+          result.failed++;
+          this.logger.warn(`Could not generate the requested ${request.type} horoscope of user ${request.user_id}: ${error.message}`);
+        }
+        await this.horoscopeContentService.deleteRequest(request);
+      }
+
+      if (this.horoscopeContentService.autoApprove) {
+        for (const period of periods.values()) {
+          await this.horoscopeContentService.approvePersonalized(period);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (result.created || result.failed) {
+      this.logger.log(`Requested horoscopes done: ${result.created} created, ${result.skipped} skipped, ${result.failed} failed`);
+    }
+    return result;
+  }
+
+  /**
+   * English entry of a sign for a period, then its translations
+   */
+  private async generateSign(
+    sign: string,
+    period: HoroscopePeriod,
+    languages: string[],
+    result: GenerateHoroscopesResultDto,
+  ): Promise<void> {
+    const subjectKey = signSubjectKey(sign);
+    const status = this.horoscopeContentService.autoApprove ? 'approved' : 'pending_review';
+
+    let english: HoroscopeContent | null = null;
+    for (const language of languages) {
+      const existing = await this.horoscopeContentService.find(subjectKey, period.type, period.start, language);
+      if (language === DEFAULT_HOROSCOPE_LANGUAGE) {
+        english = existing;
+      }
+      if (existing) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        if (language === DEFAULT_HOROSCOPE_LANGUAGE) {
+          english = await this.horoscopeContentService.save({
+            subject_key: subjectKey,
+            sign,
+            period,
+            language,
+            horoscope: await this.horoscopeService.generateSignHoroscope(sign, period.type, period.at),
+            source: 'swiss_ephemeris',
+            status,
+          });
+        } else if (english) {
+          await this.horoscopeContentService.save({
+            subject_key: subjectKey,
+            sign,
+            period,
+            language,
+            horoscope: await this.horoscopeContentService.localize(this.horoscopeContentService.toHoroscope(english), language),
+            source: 'llm',
+            status,
+          });
+        } else {
+          throw new Error('no English entry to translate');
+        }
+        result.created++;
+      } catch (error) {
+        result.failed++;
+        this.logger.warn(`Could not generate ${period.type} ${sign} horoscope for ${period.start} (${language}): ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Personalized entries of a period for the users who had one in the
+   * previous period, then the translations that are missing or were made from
+   * an earlier kundli revision
+   */
+  private async publishPersonalized(period: HoroscopePeriod, languages: string[], result: GenerateHoroscopesResultDto): Promise<void> {
+    const status = this.horoscopeContentService.autoApprove ? 'approved' : 'pending_review';
+    const previous = this.horoscopeContentService.getPreviousPeriod(period);
+    const entries = await this.horoscopeContentService.findPersonalized(period, DEFAULT_HOROSCOPE_LANGUAGE);
+    const subjects = new Set(entries.map((e) => e.subject_key));
+
+    for (const last of await this.horoscopeContentService.findPersonalized(previous, DEFAULT_HOROSCOPE_LANGUAGE)) {
+      if (subjects.has(last.subject_key)) {
+        continue;
+      }
+      try {
+        const entry = await this.horoscopeService.generatePersonalizedHoroscope(Number(last.user_id), period, status);
+        if (entry) {
+          entries.push(entry);
+          result.created++;
+        }
+      } catch (error) {
+        result.failed++;
+        this.logger.warn(`Could not generate ${period.type} horoscope for ${last.subject_key} for ${period.start}: ${error.message}`);
+      }
+    }
+
+    for (const english of entries.filter((e) => e.status !== 'rejected')) {
+      await this.translatePersonalized(english, period, languages, result);
+    }
+
+    if (this.horoscopeContentService.autoApprove) {
+      const approved = await this.horoscopeContentService.approvePersonalized(period);
+      this.logger.log(`${approved} personalized ${period.type} horoscopes for ${period.start} approved`);
+    }
+  }
+
+  /**
+   * Translations of a personalized entry that are missing or were made from
+   * an earlier kundli revision
+   */
+  private async translatePersonalized(
+    english: HoroscopeContent,
+    period: HoroscopePeriod,
+    languages: string[],
+    result: GenerateHoroscopesResultDto,
+  ): Promise<void> {
+    const status = this.horoscopeContentService.autoApprove ? 'approved' : 'pending_review';
+
+    for (const language of languages.filter((l) => l !== DEFAULT_HOROSCOPE_LANGUAGE)) {
+      const existing = await this.horoscopeContentService.find(english.subject_key, period.type, period.start, language);
+      if (existing && existing.source_revision === english.source_revision) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.horoscopeContentService.save({
+          subject_key: english.subject_key,
+          sign: english.sign,
+          user_id: Number(english.user_id),
+          period,
+          language,
+          horoscope: await this.horoscopeContentService.localize(this.horoscopeContentService.toHoroscope(english), language),
+          source: 'llm',
+          source_revision: english.source_revision,
+          status,
+        });
+        result.created++;
+      } catch (error) {
+        result.failed++;
+        this.logger.warn(`Could not translate horoscope ${english.unique_id} to ${language}: ${error.message}`);
+      }
+    }
+  }
+
+  private scheduleNextRun(): void {
+    const time = this.configService.get<string>('HOROSCOPE_GENERATION_TIME') || '00:30';
+    const timezone = this.horoscopeContentService.timezone;
+    const today = this.horoscopeContentService.getPeriod('daily');
+
+    let runAt = this.timezoneService.toUniversalTime(today.start, time, timezone).utc;
+    if (runAt.getTime() <= Date.now()) {
+      runAt = this.timezoneService.toUniversalTime(this.horoscopeContentService.getNextPeriod(today).start, time, timezone).utc;
+    }
+
+    this.timer = setTimeout(() => this.runNightly(), runAt.getTime() - Date.now());
+    this.timer.unref();
+    this.logger.log(`Next horoscope generation at ${runAt.toISOString()}`);
+  }
+
+  private async runRequests(): Promise<void> {
+    if (this.running) {
+      return; // The nightly run or an admin run is busy; the requests wait for the next tick
+    }
+    try {
+      await this.generateRequested();
+    } catch (error) {
+      this.logger.error('Requested horoscope generation failed:', error);
+    }
+  }
+
+  private async runNightly(): Promise<void> {
+    try {
+      await this.generate();
+    } catch (error) {
+      this.logger.error('Nightly horoscope generation failed:', error);
+    } finally {
+      this.scheduleNextRun();
+    }
+  }
+}
@@ -1,10 +1,56 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, Inject, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { GetHoroscopeDto } from '../dto/get-horoscope.dto';
 import { HoroscopeResponseDto } from '../dto/horoscope-response.dto';
 import { Customer } from '../../users/entities/customer.entity';
 import { SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { Dignity, DignityService } from '../../astrology/services/dignity.service';
+import { IKundliRepository } from '../../core/interfaces/repositories/kundli-repository.interface';
+import { Kundli } from '../../kundli/entities/kundli.entity';
+import { KundliVarshaphalService } from '../../kundli/services/kundli-varshaphal.service';
+import { KundliVarshaphalResponseDto } from '../../kundli/dto/kundli-varshaphal.dto';
+import { PersonalizedHoroscopeService } from './personalized-horoscope.service';
+import {
+  DEFAULT_HOROSCOPE_LANGUAGE,
+  HoroscopeContentService,
+  HoroscopePeriod,
+  signSubjectKey,
+  userSubjectKey,
+} from './horoscope-content.service';
+import { HoroscopeContent, HoroscopeContentStatus } from '../entities/horoscope-content.entity';
+import { ordinal } from '../../common/utils/format.util';
+
+type HoroscopeType = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Results of the Muntha by house from the annual lagna (Tajik Neelakanthi)
+const MUNTHA_RESULTS: Record<number, string> = {
+  1: 'Muntha in the lagna brings good health, honour and success through your own efforts.',
+  2: 'Muntha in the 2nd brings gains of wealth, good food and harmony in the family.',
+  3: 'Muntha in the 3rd brings courage, help from siblings and success in new ventures.',
+  4: 'Muntha in the 4th brings worries at home and concerns over property or mother.',
+  5: 'Muntha in the 5th favours learning, children and creative success.',
+  6: 'Muntha in the 6th warns of illness, disputes and hidden opponents.',
+  7: 'Muntha in the 7th strains partnerships and brings travel with little gain.',
+  8: 'Muntha in the 8th brings obstacles, anxiety and health concerns.',
+  9: 'Muntha in the 9th brings fortune, pilgrimage and blessings from elders.',
+  10: 'Muntha in the 10th brings career advancement, status and favour from superiors.',
+  11: 'Muntha in the 11th brings gains, influential friends and fulfilment of desires.',
+  12: 'Muntha in the 12th brings expenses, losses and journeys abroad.',
+};
+
+// What the year lord (Varsheshwara) puts in focus
+const YEAR_LORD_THEMES: Record<string, string> = {
+  Sun: 'authority, recognition and dealings with government',
+  Moon: 'public life, travel, emotions and the home',
+  Mars: 'courage, property, competition and decisive action',
+  Mercury: 'learning, commerce, writing and communication',
+  Jupiter: 'wisdom, children, wealth and the support of mentors',
+  Venus: 'relationships, comforts, the arts and vehicles',
+  Saturn: 'hard work, discipline, service and long-term results',
+};
+
+const DUSTHANA_HOUSES = [6, 8, 12];
 
 @Injectable()
 export class HoroscopeService {
@@ -30,33 +76,60 @@ export class HoroscopeService {
     @InjectRepository(Customer)
     private readonly customerRepository: Repository<Customer>,
     private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly dignityService: DignityService,
+    @Inject('IKundliRepository')
+    private readonly kundliRepository: IKundliRepository,
+    private readonly kundliVarshaphalService: KundliVarshaphalService,
+    private readonly personalizedHoroscopeService: PersonalizedHoroscopeService,
+    private readonly horoscopeContentService: HoroscopeContentService,
   ) {}
 
   /**
    * Get horoscope for a zodiac sign
-   * Uses Swiss Ephemeris for accurate calculations
+   * Serves the latest approved entry of the horoscope store, and a generic
+   * placeholder when none has been published yet. Horoscopes are only
+   * generated by the nightly job.
    */
   async getHoroscope(dto: GetHoroscopeDto): Promise<HoroscopeResponseDto> {
-    try {
-      // Use Swiss Ephemeris to generate horoscope
-      this.logger.log(`Generating horoscope using Swiss Ephemeris for ${dto.sign} (${dto.type})`);
-      
-      const horoscopeData = await this.generateHoroscopeWithSwissEphemeris(dto.sign, dto.type);
-      
-      return this.transformHoroscopeResponse(horoscopeData, dto);
-    } catch (error) {
-      this.logger.error('Error getting horoscope:', error);
-      // Fallback to basic horoscope if Swiss Ephemeris fails
-      const fallbackData = this.generateFallbackHoroscope(dto.sign, dto.type);
-      this.logger.warn('Swiss Ephemeris failed, using fallback horoscope');
-      return this.transformHoroscopeResponse(fallbackData, dto);
+    const stored = await this.horoscopeContentService.findLive(
+      signSubjectKey(dto.sign),
+      dto.type,
+      dto.language || DEFAULT_HOROSCOPE_LANGUAGE,
+    );
+    if (stored) {
+      return this.horoscopeContentService.toHoroscope(stored);
     }
+
+    this.logger.warn(`No approved ${dto.type} horoscope for ${dto.sign}, using the placeholder`);
+    return this.transformHoroscopeResponse({ ...this.generateFallbackHoroscope(dto.sign, dto.type), placeholder: true }, dto);
+  }
+
+  /**
+   * Calculate a sign horoscope with Swiss Ephemeris for the period starting at a date
+   */
+  async generateSignHoroscope(sign: string, type: HoroscopeType, date = new Date()): Promise<HoroscopeResponseDto> {
+    this.logger.log(`Generating horoscope using Swiss Ephemeris for ${sign} (${type})`);
+    const horoscopeData = await this.generateHoroscopeWithSwissEphemeris(sign, type, date);
+    return this.transformHoroscopeResponse(horoscopeData, { sign, type });
   }
 
   /**
    * Get horoscope for authenticated user (personalized)
+   * With a stored kundli, the approved personalized horoscope of the period is
+   * served from the store: daily/weekly/monthly ones are read from the natal Moon,
+   * running dasha and transits, and yearly ones from the Varshaphal. Until it is
+   * approved, and for users without a kundli, the sun sign horoscope is served.
+   * Yearly horoscopes need the Varshaphal entitlement.
    */
-  async getHoroscopeForUser(userId: number, type: 'daily' | 'weekly' | 'monthly'): Promise<HoroscopeResponseDto> {
+  async getHoroscopeForUser(
+    userId: number,
+    type: HoroscopeType,
+    language = DEFAULT_HOROSCOPE_LANGUAGE,
+  ): Promise<HoroscopeResponseDto> {
+    if (type === 'yearly') {
+      await this.kundliVarshaphalService.checkEntitlement(userId);
+    }
+
     try {
       // Get user's birth details
       const customer = await this.customerRepository.findOne({
@@ -79,10 +152,23 @@ export class HoroscopeService {
         customer.longitude || undefined,
       );
 
+      const kundli = await this.kundliRepository.findOneByUserId(userId);
+      if (kundli?.planets?.length) {
+        try {
+          const personalized = await this.getStoredHoroscopeFromKundli(kundli, type, language);
+          if (personalized) {
+            return personalized;
+          }
+        } catch (error) {
+          this.logger.warn(`Personalized horoscope failed for kundli ${kundli.id}, using sun sign: ${error.message}`);
+        }
+      }
+
       // Get horoscope for calculated sign
       const dto: GetHoroscopeDto = {
         sign: zodiacSign,
         type,
+        language,
       };
 
       return this.getHoroscope(dto);
@@ -94,6 +180,219 @@ export class HoroscopeService {
     }
   }
 
+  /**
+   * Generate and store the English personalized horoscope of a user for a
+   * period. An entry already made from the current kundli revision is kept.
+   * Returns null when the user has no kundli.
+   */
+  async generatePersonalizedHoroscope(
+    userId: number,
+    period: HoroscopePeriod,
+    status: HoroscopeContentStatus,
+  ): Promise<HoroscopeContent | null> {
+    const kundli = await this.kundliRepository.findOneByUserId(userId);
+    if (!kundli?.planets?.length) {
+      return null;
+    }
+
+    const existing = await this.horoscopeContentService.find(userSubjectKey(userId), period.type, period.start, DEFAULT_HOROSCOPE_LANGUAGE);
+    if (existing && existing.source_revision === this.getSourceRevision(kundli, period.type)) {
+      return existing;
+    }
+    return this.savePersonalizedHoroscope(kundli, period, status);
+  }
+
+  /**
+   * Personalized horoscope of the current period from the store. Reads never
+   * generate it: a missing entry, or one made from an earlier kundli revision,
+   * is queued for the scheduler, which generates it for review, translates it
+   * and, with HOROSCOPE_AUTO_APPROVE, approves it. Returns null until it is
+   * approved, so the caller falls back to the sign horoscope.
+   */
+  private async getStoredHoroscopeFromKundli(
+    kundli: Kundli,
+    type: HoroscopeType,
+    language: string,
+  ): Promise<HoroscopeResponseDto | null> {
+    const subjectKey = userSubjectKey(Number(kundli.user_id));
+    const revision = this.getSourceRevision(kundli, type);
+    const period = this.horoscopeContentService.getPeriod(type);
+
+    const entry = await this.horoscopeContentService.find(subjectKey, type, period.start, DEFAULT_HOROSCOPE_LANGUAGE);
+    if (!entry || entry.source_revision !== revision) {
+      await this.horoscopeContentService.requestPersonalized(Number(kundli.user_id), type);
+      return null;
+    }
+    if (entry.status !== 'approved' || !entry.is_enabled) {
+      return null;
+    }
+    if (language === DEFAULT_HOROSCOPE_LANGUAGE || !this.horoscopeContentService.languages.includes(language)) {
+      return this.horoscopeContentService.toHoroscope(entry);
+    }
+
+    const localized = await this.horoscopeContentService.find(subjectKey, type, period.start, language);
+    const live = localized?.status === 'approved' && localized.is_enabled && localized.source_revision === revision;
+    return this.horoscopeContentService.toHoroscope(live ? localized : entry);
+  }
+
+  private async savePersonalizedHoroscope(
+    kundli: Kundli,
+    period: HoroscopePeriod,
+    status: HoroscopeContentStatus,
+  ): Promise<HoroscopeContent> {
+    const horoscope =
+      period.type === 'yearly'
+        ? await this.getYearlyHoroscopeFromKundli(kundli, await this.getSunSign(Number(kundli.user_id), kundli))
+        : this.getHoroscopeFromKundli(kundli, period.type, period.at);
+    return this.horoscopeContentService.save({
+      subject_key: userSubjectKey(Number(kundli.user_id)),
+      sign: horoscope.sign,
+      user_id: Number(kundli.user_id),
+      period,
+      language: DEFAULT_HOROSCOPE_LANGUAGE,
+      horoscope,
+      source: 'kundli',
+      source_revision: this.getSourceRevision(kundli, period.type),
+      status,
+    });
+  }
+
+  // Personalized entries made from an earlier revision of a kundli are regenerated,
+  // and yearly ones also once the next Varshaphal begins on the birthday
+  private getSourceRevision(kundli: Kundli, type: HoroscopeType): string {
+    const revision = String(new Date(kundli.modify_date || kundli.added_date).getTime());
+    return type === 'yearly' ? `${revision}:${this.kundliVarshaphalService.getRunningVarshaYear(kundli)}` : revision;
+  }
+
+  /**
+   * Sun sign of a customer from the profile birth date, as used for the sign
+   * horoscopes, or the sidereal Sun sign of the kundli without one
+   */
+  private async getSunSign(userId: number, kundli: Kundli): Promise<string> {
+    const customer = await this.customerRepository.findOne({ where: { id: userId, is_deleted: false } });
+    if (customer?.date_of_birth) {
+      return this.calculateZodiacSign(customer.date_of_birth);
+    }
+    return kundli.planets.find((p) => p.planet_name === 'Sun')?.sign_name;
+  }
+
+  /**
+   * Daily, weekly or monthly horoscope from the natal Moon, running dasha and transits of a kundli
+   */
+  private getHoroscopeFromKundli(kundli: Kundli, type: Exclude<HoroscopeType, 'yearly'>, from: Date): HoroscopeResponseDto {
+    this.logger.log(`Generating ${type} horoscope from kundli ${kundli.id}`);
+    const horoscope = this.personalizedHoroscopeService.getHoroscope(kundli, type, from);
+    const sun = kundli.planets.find((p) => p.planet_name === 'Sun');
+    const moon = kundli.planets.find((p) => p.planet_name === 'Moon');
+    const sign = horoscope.moon_sign;
+
+    const data = {
+      sign,
+      type,
+      date: horoscope.from.split('T')[0],
+      prediction: horoscope.prediction,
+      love: horoscope.life_areas.love.prediction,
+      career: horoscope.life_areas.career.prediction,
+      health: horoscope.life_areas.health.prediction,
+      finance: horoscope.life_areas.finance.prediction,
+      lucky_number: this.calculateLuckyNumber(
+        { longitude: Number(sun?.longitude_degrees) },
+        { longitude: Number(moon?.longitude_degrees) },
+        this.zodiacSigns[sign] + horoscope.moon_transit_house,
+      ),
+      lucky_color: this.getLuckyColor(sign),
+      compatibility: this.getCompatibility(sign),
+      mood: horoscope.mood,
+      basis: 'moon_sign',
+      personalized: horoscope,
+    };
+
+    return this.transformHoroscopeResponse(data, { sign, type });
+  }
+
+  /**
+   * Yearly horoscope from the Tajik annual chart of a kundli: Muntha, year lord and Mudda dasha
+   */
+  private async getYearlyHoroscopeFromKundli(kundli: Kundli, sign: string): Promise<HoroscopeResponseDto> {
+    this.logger.log(`Generating yearly horoscope from the Varshaphal of kundli ${kundli.id}`);
+    const varshaphal = await this.kundliVarshaphalService.getVarshaphal(kundli);
+
+    const houseOf = (planet: string) => varshaphal.chart.planets.find((p) => p.name === planet)?.house;
+    const sun = varshaphal.chart.planets.find((p) => p.name === 'Sun');
+    const moon = varshaphal.chart.planets.find((p) => p.name === 'Moon');
+    const lord = varshaphal.varsheshwara;
+    const strength = lord.bala >= 15 ? 'strong' : lord.bala >= 10 ? 'moderately placed' : 'weak';
+
+    const prediction = [
+      `This year (from ${varshaphal.solar_return.split('T')[0]}) is ruled by ${lord.planet}, putting ${YEAR_LORD_THEMES[lord.planet]} in focus.`,
+      lord.bala >= 10
+        ? `${lord.planet} is ${strength} as year lord, so its matters progress well.`
+        : `${lord.planet} is ${strength} as year lord, so its matters need patience.`,
+      MUNTHA_RESULTS[varshaphal.muntha.house],
+      varshaphal.current_mudda_dasha
+        ? `The ${varshaphal.current_mudda_dasha.lord} Mudda dasha runs until ${varshaphal.current_mudda_dasha.end.split('T')[0]}.`
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    const data = {
+      sign,
+      type: 'yearly',
+      date: varshaphal.solar_return.split('T')[0],
+      prediction,
+      love: this.buildYearlyHousePrediction(
+        'Venus',
+        houseOf('Venus'),
+        'relationships are warm and supportive',
+        this.getLovePrediction(sign),
+      ),
+      career: [10, 11].includes(varshaphal.muntha.house)
+        ? `The Muntha activates your house of career and gains this year. ${this.getCareerPrediction(sign)}`
+        : this.buildYearlyHousePrediction('Sun', houseOf('Sun'), 'recognition at work comes more easily', this.getCareerPrediction(sign)),
+      health:
+        DUSTHANA_HOUSES.includes(houseOf(lord.planet)) || [6, 8].includes(varshaphal.muntha.house)
+          ? 'Health needs attention this year. Keep regular routines and do not ignore small complaints.'
+          : this.getHealthPrediction(sign),
+      finance: this.buildYearlyHousePrediction(
+        'Jupiter',
+        houseOf('Jupiter'),
+        'savings and investments tend to grow',
+        this.getFinancePrediction(sign),
+      ),
+      lucky_number: this.calculateLuckyNumber(sun, moon, this.zodiacSigns[sign]),
+      lucky_color: this.getLuckyColor(sign),
+      compatibility: this.getCompatibility(sign),
+      mood: lord.bala >= 10 ? 'Confident' : 'Reflective',
+      varshaphal: this.summarizeVarshaphal(varshaphal),
+    };
+
+    return this.transformHoroscopeResponse(data, { sign, type: 'yearly' });
+  }
+
+  /**
+   * Yearly reading of a planet by its house in the annual chart
+   */
+  private buildYearlyHousePrediction(planet: string, house: number | undefined, favourable: string, fallback: string): string {
+    if (!house) return fallback;
+    if (DUSTHANA_HOUSES.includes(house)) {
+      return `${planet} falls in the ${ordinal(house)} house of the annual chart, so go slowly here. ${fallback}`;
+    }
+    return `${planet} in the ${ordinal(house)} house of the annual chart means ${favourable}. ${fallback}`;
+  }
+
+  private summarizeVarshaphal(varshaphal: KundliVarshaphalResponseDto): Record<string, any> {
+    return {
+      kundli_id: varshaphal.kundli_id,
+      year: varshaphal.year,
+      solar_return: varshaphal.solar_return,
+      annual_lagna: varshaphal.chart.lagna.sign,
+      muntha: varshaphal.muntha,
+      varsheshwara: varshaphal.varsheshwara,
+      current_mudda_dasha: varshaphal.current_mudda_dasha,
+    };
+  }
+
   /**
    * Extract month and day from date (handles both string and Date objects, avoids timezone issues)
    */
@@ -196,14 +495,12 @@ export class HoroscopeService {
    * Generate horoscope using Swiss Ephemeris
    * Calculates current planetary positions and generates predictions
    */
-  private async generateHoroscopeWithSwissEphemeris(sign: string, type: string): Promise<any> {
+  private async generateHoroscopeWithSwissEphemeris(sign: string, type: string, date = new Date()): Promise<any> {
     try {
-      const now = new Date();
-      
       // Calculate current planetary positions using Swiss Ephemeris
-      // For horoscope, we use current date/time and approximate location (can be improved)
+      // For horoscope, we use the period's date/time and approximate location (can be improved)
       const kundliData = await this.swissEphemerisService.calculateKundli({
-        datetime: now,
+        datetime: date,
         latitude: 28.6139, // Default to Delhi, India (can be made configurable)
         longitude: 77.2090,
         timezone: 'Asia/Kolkata',
@@ -248,7 +545,7 @@ export class HoroscopeService {
       return {
         sign,
         type,
-        date: now.toISOString().split('T')[0],
+        date: date.toISOString().split('T')[0],
         prediction: predictions.general,
         love: predictions.love,
         career: predictions.career,
@@ -293,6 +590,7 @@ export class HoroscopeService {
       const planetLongitude = planet.longitude;
       const isInSign = planetLongitude >= signStartDegree && planetLongitude < signEndDegree;
       const isRetrograde = planet.isRetrograde;
+      const dignity = this.dignityService.getDignity(planet.name, planetLongitude);
 
       influences[planet.name.toLowerCase()] = {
         in_sign: isInSign,
@@ -300,7 +598,8 @@ export class HoroscopeService {
         house: planet.house,
         is_retrograde: isRetrograde,
         nakshatra: planet.nakshatra,
-        influence: this.getPlanetaryInfluence(planet.name, isInSign, isRetrograde),
+        dignity,
+        influence: this.getPlanetaryInfluence(planet.name, isInSign, isRetrograde, dignity),
       };
     });
 
@@ -310,11 +609,23 @@ export class HoroscopeService {
   /**
    * Get planetary influence description
    */
-  private getPlanetaryInfluence(planetName: string, isInSign: boolean, isRetrograde: boolean): string {
+  private getPlanetaryInfluence(
+    planetName: string,
+    isInSign: boolean,
+    isRetrograde: boolean,
+    dignity: Dignity,
+  ): string {
     if (isInSign) {
-      return isRetrograde
-        ? `${planetName} is retrograde in your sign - time for reflection and review`
-        : `${planetName} is strong in your sign - favorable period`;
+      if (isRetrograde) {
+        return `${planetName} is retrograde in your sign - time for reflection and review`;
+      }
+      if (['exalted', 'moolatrikona', 'own'].includes(dignity)) {
+        return `${planetName} is strong in your sign - favorable period`;
+      }
+      if (['debilitated', 'great_enemy', 'enemy'].includes(dignity)) {
+        return `${planetName} is weak in your sign - move carefully in its matters`;
+      }
+      return `${planetName} transits your sign - its themes come to the fore`;
     }
     return `${planetName} influences other areas of your chart`;
   }
@@ -367,7 +678,7 @@ export class HoroscopeService {
     influences: Record<string, any>,
     kundliData: any,
   ): string {
-    const period = type === 'daily' ? 'Today' : type === 'weekly' ? 'This week' : 'This month';
+    const period = type === 'daily' ? 'Today' : type === 'weekly' ? 'This week' : type === 'monthly' ? 'This month' : 'This year';
     const sunInSign = influences.sun?.in_sign;
     const moonInSign = influences.moon?.in_sign;
     const retrogradePlanets = Object.values(influences).filter((inf: any) => inf.is_retrograde);
@@ -439,6 +750,20 @@ export class HoroscopeService {
         Aquarius: 'contribute to innovation and social progress.',
         Pisces: 'deepen spiritual connections and serve others.',
       },
+      yearly: {
+        Aries: 'set bold goals for the year and see them through.',
+        Taurus: 'build wealth patiently and secure your home.',
+        Gemini: 'grow through study, travel and new connections.',
+        Cancer: 'strengthen family ties and emotional foundations.',
+        Leo: 'step into leadership and earn lasting recognition.',
+        Virgo: 'refine your craft and put your health first.',
+        Libra: 'commit to the partnerships that matter most.',
+        Scorpio: 'let go of the old and rebuild with purpose.',
+        Sagittarius: 'widen your horizons through learning and faith.',
+        Capricorn: 'lay the foundations of a long-term achievement.',
+        Aquarius: 'turn your ideas into work that serves many.',
+        Pisces: 'follow your calling and nurture your inner life.',
+      },
     };
 
     return guidance[type]?.[sign] || 'follow your inner wisdom and stay true to yourself.';
@@ -621,6 +946,14 @@ export class HoroscopeService {
         'Financial opportunities may arise. Make wise decisions and plan for the future.',
         'Health and wellness should be a priority. Take care of your physical and mental well-being.',
       ];
+    } else if (type === 'yearly') {
+      return [
+        'This year opens a new chapter. Set clear intentions and build steadily toward them.',
+        'A year of consolidation. Patience and discipline turn earlier efforts into lasting results.',
+        'Relationships and partnerships shape this year. Invest in the people who support you.',
+        'Learning and travel widen your outlook this year. Stay open to new directions.',
+        'Finances improve with planning this year. Save regularly and avoid speculative risks.',
+      ];
     } else {
       return [
         'This month marks a period of transformation. Embrace change and trust the journey ahead.',
@@ -0,0 +1,418 @@
+import { Injectable } from '@nestjs/common';
+import { Kundli } from '../../kundli/entities/kundli.entity';
+import { KundliDashaService } from '../../kundli/services/kundli-dasha.service';
+import { KundliGocharService } from '../../kundli/services/kundli-gochar.service';
+import { DashaPeriod, VimshottariDashaService } from '../../astrology/services/vimshottari-dasha.service';
+import { GocharResult, TransitPlanet } from '../../astrology/services/gochar.service';
+import { SIGN_LORDS, ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { ordinal } from '../../common/utils/format.util';
+
+/**
+ * Personalized Horoscope Service
+ *
+ * Daily, weekly and monthly predictions read from a customer's own kundli
+ * instead of a sun sign. Each life area is scored from two sources:
+ * - Gochar: transits counted from the natal Moon (with vedha), sampled once a
+ *   day across the period and weighted by how fast each graha moves, so the
+ *   Moon dominates a daily reading and Jupiter and Saturn a monthly one.
+ * - Vimshottari dasha: the running mahadasha, antardasha and pratyantar lords,
+ *   judged by their natal house and the houses they rule from the lagna.
+ * A factor counts towards an area when the graha signifies it, sits in one of
+ * its houses (from the Moon or lagna) or, for dasha lords, rules one.
+ */
+
+export type PersonalizedHoroscopeType = 'daily' | 'weekly' | 'monthly';
+export type LifeArea = 'love' | 'career' | 'health' | 'finance';
+export type LifeAreaOutlook = 'favourable' | 'mixed' | 'challenging';
+
+interface LifeAreaDefinition {
+  label: string;
+  houses: number[];
+  karakas: string[];
+  outlook: Record<LifeAreaOutlook, string>;
+}
+
+const LIFE_AREAS: Record<LifeArea, LifeAreaDefinition> = {
+  love: {
+    label: 'relationships',
+    houses: [5, 7],
+    karakas: ['Venus', 'Moon'],
+    outlook: {
+      favourable: 'Relationships are warm and easy; a good time to express your feelings and spend time together.',
+      mixed: 'Relationships need a little patience; listen closely before you react.',
+      challenging: 'Misunderstandings with a partner come easily; avoid hasty words and give each other space.',
+    },
+  },
+  career: {
+    label: 'work and status',
+    houses: [10, 6, 3],
+    karakas: ['Sun', 'Saturn', 'Mercury'],
+    outlook: {
+      favourable: 'Work moves forward and your efforts are noticed; take the lead on important tasks.',
+      mixed: 'Progress at work is steady but slow; finish what is pending before starting anything new.',
+      challenging: 'Expect friction with superiors or delays at work; keep a low profile and document everything.',
+    },
+  },
+  health: {
+    label: 'health',
+    houses: [1, 6, 8],
+    karakas: ['Sun', 'Mars'],
+    outlook: {
+      favourable: 'Energy and stamina are good; a fine time to start a new routine.',
+      mixed: 'Health is stable but energy fluctuates; keep regular meals and sleep.',
+      challenging: 'Vitality is low and minor complaints can linger; rest well and do not ignore symptoms.',
+    },
+  },
+  finance: {
+    label: 'money',
+    houses: [2, 11],
+    karakas: ['Jupiter', 'Venus'],
+    outlook: {
+      favourable: 'Gains come through your own efforts and contacts; a good time to save or invest carefully.',
+      mixed: 'Income and expenses balance out; stick to your budget.',
+      challenging: 'Unplanned expenses are likely; postpone large purchases and avoid lending money.',
+    },
+  },
+};
+
+// Weight of each graha's transit by period: fast movers matter for days, slow ones for months
+const TRANSIT_WEIGHTS: Record<PersonalizedHoroscopeType, Record<string, number>> = {
+  daily: { Moon: 3, Sun: 1, Mercury: 1, Venus: 1, Mars: 1, Jupiter: 0.5, Saturn: 0.5, Rahu: 0.25, Ketu: 0.25 },
+  weekly: { Moon: 1.5, Sun: 1, Mercury: 1, Venus: 1, Mars: 1, Jupiter: 0.75, Saturn: 0.75, Rahu: 0.5, Ketu: 0.5 },
+  monthly: { Moon: 0, Sun: 1, Mercury: 0.75, Venus: 1, Mars: 1, Jupiter: 1.5, Saturn: 1.5, Rahu: 0.75, Ketu: 0.75 },
+};
+
+// Weight of each running dasha level by period
+const DASHA_WEIGHTS: Record<PersonalizedHoroscopeType, number[]> = {
+  daily: [0.5, 1, 1.5],
+  weekly: [0.75, 1.25, 1],
+  monthly: [1, 1.5, 0.5],
+};
+
+const TRANSIT_RESULT_VALUES: Record<TransitPlanet['result'], number> = {
+  favourable: 1,
+  relieved: 0.25,
+  obstructed: -0.25,
+  unfavourable: -1,
+};
+
+const PERIOD_DAYS: Record<PersonalizedHoroscopeType, number> = { daily: 1, weekly: 7, monthly: 30 };
+const PERIOD_LABELS: Record<PersonalizedHoroscopeType, string> = { daily: 'Today', weekly: 'This week', monthly: 'This month' };
+const DASHA_LEVEL_LABELS = ['mahadasha', 'antardasha', 'pratyantar'];
+
+const KENDRA_TRIKONA = [1, 4, 5, 7, 9, 10];
+const DUSTHANA = [6, 8, 12];
+
+// Mood from the Moon's transit house counted from the natal Moon
+const MOON_TRANSIT_MOODS: Record<number, string> = {
+  1: 'Content',
+  2: 'Cautious',
+  3: 'Energetic',
+  4: 'Restless',
+  5: 'Reflective',
+  6: 'Confident',
+  7: 'Harmonious',
+  8: 'Anxious',
+  9: 'Reflective',
+  10: 'Confident',
+  11: 'Optimistic',
+  12: 'Withdrawn',
+};
+
+export interface LifeAreaFactor {
+  source: 'transit' | 'dasha';
+  planet: string;
+  value: number;
+  description: string;
+}
+
+export interface LifeAreaReading {
+  score: number; // 0-100, 50 is neutral
+  outlook: LifeAreaOutlook;
+  prediction: string;
+  factors: LifeAreaFactor[];
+}
+
+export interface PersonalizedDasha {
+  mahadasha: string | null;
+  antardasha: string | null;
+  pratyantar: string | null;
+  changes: { level: string; lord: string; date: string }[]; // periods that begin inside the horoscope window
+}
+
+export interface PersonalizedHoroscope {
+  kundli_id: number;
+  type: PersonalizedHoroscopeType;
+  from: string;
+  to: string;
+  moon_sign: string;
+  lagna_sign: string;
+  moon_transit_house: number; // house the transiting Moon occupies from the natal Moon at the start of the period
+  dasha: PersonalizedDasha;
+  prediction: string;
+  mood: string;
+  life_areas: Record<LifeArea, LifeAreaReading>;
+  sade_sati: GocharResult['sade_sati'];
+}
+
+interface NatalPlacement {
+  house: number;
+  rules: number[];
+}
+
+@Injectable()
+export class PersonalizedHoroscopeService {
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private readonly kundliDashaService: KundliDashaService,
+    private readonly kundliGocharService: KundliGocharService,
+    private readonly vimshottariDashaService: VimshottariDashaService,
+  ) {}
+
+  /**
+   * Horoscope for a kundli over the period starting at `from`
+   */
+  getHoroscope(kundli: Kundli, type: PersonalizedHoroscopeType, from = new Date()): PersonalizedHoroscope {
+    const to = new Date(from.getTime() + PERIOD_DAYS[type] * this.dayMs);
+    // Saturn's Sade Sati and Dhaiya windows are only read from the first day
+    const samples = Array.from({ length: PERIOD_DAYS[type] }, (_, i) =>
+      this.kundliGocharService.getTransitsForKundli(kundli, new Date(from.getTime() + i * this.dayMs), { windows: i === 0 }),
+    );
+    const first = samples[0];
+
+    const { birthDate, moonLongitude } = this.kundliDashaService.getDashaInputs(kundli);
+    const chain = this.vimshottariDashaService.getActiveChain(birthDate, moonLongitude, from, 'pratyantar');
+    const dasha = this.describeDasha(chain, birthDate, moonLongitude, to);
+    const placements = this.getNatalPlacements(kundli);
+
+    const life_areas = {} as Record<LifeArea, LifeAreaReading>;
+    for (const area of Object.keys(LIFE_AREAS) as LifeArea[]) {
+      const factors = [
+        ...this.getTransitFactors(area, type, samples),
+        ...this.getDashaFactors(area, type, chain, placements),
+      ];
+      life_areas[area] = this.readArea(area, type, factors);
+    }
+
+    const moonTransitHouse = first.planets.find((p) => p.name === 'Moon').house_from_moon;
+    return {
+      kundli_id: Number(kundli.id),
+      type,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      moon_sign: first.moon_sign,
+      lagna_sign: first.lagna_sign,
+      moon_transit_house: moonTransitHouse,
+      dasha,
+      prediction: this.buildGeneralPrediction(type, first, dasha, life_areas),
+      mood: this.getMood(type, moonTransitHouse, life_areas),
+      life_areas,
+      sade_sati: first.sade_sati,
+    };
+  }
+
+  /**
+   * Transit factors for an area, averaged over the daily samples of the period
+   */
+  private getTransitFactors(area: LifeArea, type: PersonalizedHoroscopeType, samples: GocharResult[]): LifeAreaFactor[] {
+    const definition = LIFE_AREAS[area];
+    const factors: LifeAreaFactor[] = [];
+
+    for (const [planet, weight] of Object.entries(TRANSIT_WEIGHTS[type])) {
+      if (weight === 0) continue;
+
+      const relevant = samples
+        .map((sample) => sample.planets.find((p) => p.name === planet))
+        .filter(
+          (transit) =>
+            definition.karakas.includes(planet) ||
+            definition.houses.includes(transit.house_from_moon) ||
+            definition.houses.includes(transit.house_from_lagna),
+        );
+      if (relevant.length === 0) continue;
+
+      const value = (weight * relevant.reduce((sum, t) => sum + TRANSIT_RESULT_VALUES[t.result], 0)) / samples.length;
+      // Describe the position the graha holds for most of the period
+      const typical = relevant[Math.floor(relevant.length / 2)];
+      factors.push({
+        source: 'transit',
+        planet,
+        value: this.round(value),
+        description: this.describeTransit(typical),
+      });
+    }
+
+    return factors;
+  }
+
+  /**
+   * Dasha factors for an area from the running lords' natal placement and lordships
+   */
+  private getDashaFactors(
+    area: LifeArea,
+    type: PersonalizedHoroscopeType,
+    chain: DashaPeriod[],
+    placements: Record<string, NatalPlacement>,
+  ): LifeAreaFactor[] {
+    const definition = LIFE_AREAS[area];
+
+    // A lord running at more than one level is one factor with the levels' weights combined
+    const levelsByLord = new Map<string, number[]>();
+    chain.slice(0, 3).forEach((period, level) => levelsByLord.set(period.lord, [...(levelsByLord.get(period.lord) || []), level]));
+
+    return [...levelsByLord.entries()].flatMap(([lord, levels]) => {
+      const placement = placements[lord];
+      if (!placement) return [];
+
+      const rulesArea = placement.rules.filter((h) => definition.houses.includes(h));
+      if (!definition.karakas.includes(lord) && !definition.houses.includes(placement.house) && rulesArea.length === 0) {
+        return [];
+      }
+
+      let value = DUSTHANA.includes(placement.house) ? -1 : KENDRA_TRIKONA.includes(placement.house) || placement.house === 11 ? 1 : 0.5;
+      if (placement.rules.some((h) => h === 8 || h === 12)) value -= 0.5;
+
+      const weight = levels.reduce((sum, level) => sum + DASHA_WEIGHTS[type][level], 0);
+      const rulership = rulesArea.length ? `, ruling your ${rulesArea.map((h) => ordinal(h)).join(' and ')} house` : '';
+      return [
+        {
+          source: 'dasha' as const,
+          planet: lord,
+          value: this.round(weight * value),
+          description: `${lord} ${levels.map((level) => DASHA_LEVEL_LABELS[level]).join(' and ')} (${lord} in your ${ordinal(placement.house)} house${rulership})`,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Score, outlook and text of a life area from its factors
+   */
+  private readArea(area: LifeArea, type: PersonalizedHoroscopeType, factors: LifeAreaFactor[]): LifeAreaReading {
+    const definition = LIFE_AREAS[area];
+    const total = factors.reduce((sum, f) => sum + f.value, 0);
+    const scale = factors.reduce((sum, f) => sum + Math.abs(f.value), 0);
+    const score = scale > 0 ? Math.round(50 + (50 * total) / Math.max(scale, 1.5)) : 50;
+    const outlook: LifeAreaOutlook = score >= 60 ? 'favourable' : score <= 40 ? 'challenging' : 'mixed';
+
+    const sorted = [...factors].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+    const reasons = sorted
+      .slice(0, 2)
+      .filter((f) => f.value !== 0)
+      .map((f) =>
+        f.source === 'transit'
+          ? `${f.description}, which ${f.value > 0 ? 'supports' : 'strains'} your ${definition.label}`
+          : `your ${f.description} ${f.value > 0 ? 'brings support to' : 'puts pressure on'} your ${definition.label}`,
+      );
+
+    const prediction = [
+      `${PERIOD_LABELS[type]}: ${definition.outlook[outlook]}`,
+      reasons.length ? `${this.capitalize(reasons.join('; '))}.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+    return { score, outlook, prediction, factors: sorted };
+  }
+
+  private buildGeneralPrediction(
+    type: PersonalizedHoroscopeType,
+    transits: GocharResult,
+    dasha: PersonalizedDasha,
+    areas: Record<LifeArea, LifeAreaReading>,
+  ): string {
+    const ranked = (Object.keys(areas) as LifeArea[]).sort((a, b) => areas[b].score - areas[a].score);
+    const best = ranked[0];
+    const weakest = ranked[ranked.length - 1];
+    const moon = transits.planets.find((p) => p.name === 'Moon');
+    const lords = [dasha.mahadasha, dasha.antardasha].filter(Boolean);
+
+    return [
+      type === 'daily'
+        ? `The Moon transits the ${ordinal(moon.house_from_moon)} house from your natal Moon in ${transits.moon_sign}.`
+        : `Your Moon sign is ${transits.moon_sign}. ${transits.jupiter_transit.result}.`,
+      lords.length ? `You are running the ${lords.join('-')} dasha.` : '',
+      ...dasha.changes.map((c) => `Your ${c.level} changes to ${c.lord} on ${c.date}.`),
+      transits.sade_sati.active ? `Sade Sati is in its ${transits.sade_sati.phase} phase, so steady effort pays more than shortcuts.` : '',
+      areas[best].score > 50 ? `${PERIOD_LABELS[type]} favours ${LIFE_AREAS[best].label}.` : '',
+      areas[weakest].score < 50 ? `Give the most care to ${LIFE_AREAS[weakest].label}.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Running lords and the sub-periods that begin before the window closes
+   */
+  private describeDasha(chain: DashaPeriod[], birthDate: Date, moonLongitude: number, to: Date): PersonalizedDasha {
+    const changes = chain
+      .slice(0, 3)
+      .map((period, level) => ({ period, level }))
+      .filter(({ period }) => period.end < to)
+      .map(({ period, level }) => {
+        const next = this.vimshottariDashaService.getActiveChain(birthDate, moonLongitude, period.end, 'pratyantar');
+        return {
+          level: DASHA_LEVEL_LABELS[level],
+          lord: next[level]?.lord,
+          date: period.end.toISOString().split('T')[0],
+        };
+      })
+      .filter((change) => change.lord);
+
+    return {
+      mahadasha: chain[0]?.lord || null,
+      antardasha: chain[1]?.lord || null,
+      pratyantar: chain[2]?.lord || null,
+      changes,
+    };
+  }
+
+  private getMood(type: PersonalizedHoroscopeType, moonTransitHouse: number, areas: Record<LifeArea, LifeAreaReading>): string {
+    if (type === 'daily') {
+      return MOON_TRANSIT_MOODS[moonTransitHouse];
+    }
+    const average = Object.values(areas).reduce((sum, a) => sum + a.score, 0) / Object.keys(areas).length;
+    return average >= 60 ? 'Optimistic' : average <= 40 ? 'Reflective' : 'Balanced';
+  }
+
+  /**
+   * Whole-sign house of each natal graha from the lagna and the houses it rules
+   */
+  private getNatalPlacements(kundli: Kundli): Record<string, NatalPlacement> {
+    const lagnaIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    const placements: Record<string, NatalPlacement> = {};
+
+    for (const planet of kundli.planets || []) {
+      const signIndex = ZODIAC_SIGNS.indexOf(planet.sign_name);
+      placements[planet.planet_name] = {
+        house: planet.rashi_house_number || ((signIndex - lagnaIndex + 12) % 12) + 1,
+        rules: ZODIAC_SIGNS.map((sign, i) => (SIGN_LORDS[sign] === planet.planet_name ? ((i - lagnaIndex + 12) % 12) + 1 : 0)).filter(
+          Boolean,
+        ),
+      };
+    }
+
+    return placements;
+  }
+
+  private describeTransit(transit: TransitPlanet): string {
+    const obstruction =
+      transit.vedha.by.length > 0
+        ? transit.result === 'obstructed'
+          ? ` (held back by ${transit.vedha.by.join(' and ')})`
+          : ` (eased by ${transit.vedha.by.join(' and ')})`
+        : '';
+    // The nodes are always retrograde, so only the grahas are marked
+    const retrograde = transit.is_retrograde && !['Rahu', 'Ketu'].includes(transit.name) ? ' (retrograde)' : '';
+    return `${transit.name}${retrograde} transits the ${ordinal(transit.house_from_moon)} house from your Moon${obstruction}`;
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
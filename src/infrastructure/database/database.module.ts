@@ -17,9 +17,17 @@ import { Module as ModuleEntity } from '../../modules/entities/module.entity';
 import { Kundli } from '../../kundli/entities/kundli.entity';
 import { KundliPlanet } from '../../kundli/entities/kundli-planet.entity';
 import { KundliHouse } from '../../kundli/entities/kundli-house.entity';
+import { KundliVersion } from '../../kundli/entities/kundli-version.entity';
 import { PlanetMaster } from '../../kundli/entities/planet-master.entity';
 import { NakshatraMaster } from '../../kundli/entities/nakshatra-master.entity';
 import { AyanamsaMaster } from '../../kundli/entities/ayanamsa-master.entity';
+import { PlaceMaster } from '../../kundli/entities/place-master.entity';
+import { YogaRuleMaster } from '../../kundli/entities/yoga-rule-master.entity';
+import { CompatibilityMatch } from '../../compatibility/entities/compatibility-match.entity';
+import { KundliReport } from '../../reports/entities/kundli-report.entity';
+import { RectificationSession } from '../../rectification/entities/rectification-session.entity';
+import { HoroscopeContent } from '../../horoscope/entities/horoscope-content.entity';
+import { HoroscopeRequest } from '../../horoscope/entities/horoscope-request.entity';
 import { KarmaEntry } from '../../karma/entities/karma-entry.entity';
 import { KarmaMasterGood } from '../../karma/entities/karma-master-good.entity';
 import { KarmaMasterBad } from '../../karma/entities/karma-master-bad.entity';
@@ -94,9 +102,17 @@ const entities = [
   Kundli,
   KundliPlanet,
   KundliHouse,
+  KundliVersion,
   PlanetMaster,
   NakshatraMaster,
   AyanamsaMaster,
+  PlaceMaster,
+  YogaRuleMaster,
+  CompatibilityMatch,
+  KundliReport,
+  RectificationSession,
+  HoroscopeContent,
+  HoroscopeRequest,
   KarmaEntry,
   KarmaMasterGood,
   KarmaMasterBad,
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { Kundli } from '../../kundli/entities/kundli.entity';
 import {
   IKundliRepository,
@@ -56,9 +56,9 @@ export class KundliRepository implements IKundliRepository {
     return this.kundliRepository.save(kundli);
   }
 
-  async update(kundli: Kundli, data: UpdateKundliInput): Promise<Kundli> {
+  async update(kundli: Kundli, data: UpdateKundliInput, manager?: EntityManager): Promise<Kundli> {
     Object.assign(kundli, data);
-    return this.kundliRepository.save(kundli);
+    return (manager ? manager.getRepository(Kundli) : this.kundliRepository).save(kundli);
   }
 
   async delete(kundli: Kundli): Promise<void> {
@@ -0,0 +1,26 @@
+import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { KundliRecomputeService } from '../../services/kundli-recompute.service';
+import { RecomputeKundlisDto, RecomputeKundlisResultDto } from '../../dto/kundli-version.dto';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+
+@ApiTags('admin-kundli')
+@Controller('admin/kundli')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+export class AdminKundliController {
+  constructor(private readonly kundliRecomputeService: KundliRecomputeService) {}
+
+  @Post('recompute')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Recompute the next batch of kundlis on the current engine version (Admin only)' })
+  @ApiResponse({ status: 200, type: RecomputeKundlisResultDto })
+  @ApiResponse({ status: 409, description: 'A recompute is already running' })
+  async recompute(@Body() dto: RecomputeKundlisDto) {
+    return this.kundliRecomputeService.recompute(dto);
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { YogaRuleService } from '../../services/yoga-rule.service';
+import { CreateYogaRuleDto, UpdateYogaRuleDto, SetYogaRuleEnabledDto } from '../../dto/yoga-rule.dto';
+import { YOGA_CATEGORIES } from '../../../astrology/services/yoga-engine.service';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { CurrentUser } from '../../../common/decorators/current-user.decorator';
+
+@ApiTags('admin-yoga-rules')
+@Controller('admin/yoga-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+export class AdminYogaRulesController {
+  constructor(private readonly yogaRuleService: YogaRuleService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a yoga rule (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Rule created' })
+  @ApiResponse({ status: 400, description: 'Invalid condition tree' })
+  @ApiResponse({ status: 409, description: 'Rule code already exists' })
+  async create(@Body() createYogaRuleDto: CreateYogaRuleDto, @CurrentUser() user: any) {
+    return this.yogaRuleService.create(createYogaRuleDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List yoga rules (Admin only)' })
+  @ApiQuery({ name: 'category', required: false, enum: YOGA_CATEGORIES })
+  @ApiQuery({ name: 'is_enabled', required: false, type: Boolean })
+  async findAll(@Query('category') category?: string, @Query('is_enabled') isEnabled?: string) {
+    return this.yogaRuleService.findAll({
+      category,
+      is_enabled: isEnabled === 'true' ? true : isEnabled === 'false' ? false : undefined,
+    });
+  }
+
+  @Get(':uniqueId')
+  @ApiOperation({ summary: 'Get yoga rule by unique ID (Admin only)' })
+  async findOne(@Param('uniqueId') uniqueId: string) {
+    return this.yogaRuleService.findOneByUniqueId(uniqueId);
+  }
+
+  @Put(':uniqueId')
+  @ApiOperation({ summary: 'Update yoga rule (Admin only)' })
+  @ApiResponse({ status: 400, description: 'Invalid condition tree' })
+  async update(
+    @Param('uniqueId') uniqueId: string,
+    @Body() updateYogaRuleDto: UpdateYogaRuleDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.yogaRuleService.update(uniqueId, updateYogaRuleDto, user.id);
+  }
+
+  @Patch(':uniqueId/enabled')
+  @ApiOperation({ summary: 'Enable or disable a yoga rule (Admin only)' })
+  async setEnabled(
+    @Param('uniqueId') uniqueId: string,
+    @Body() setYogaRuleEnabledDto: SetYogaRuleEnabledDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.yogaRuleService.setEnabled(uniqueId, setYogaRuleEnabledDto.is_enabled, user.id);
+  }
+
+  @Delete(':uniqueId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete yoga rule (soft delete, Admin only)' })
+  async remove(@Param('uniqueId') uniqueId: string, @CurrentUser() user: any) {
+    await this.yogaRuleService.remove(uniqueId, user.id);
+  }
+}
@@ -1,28 +1,133 @@
 import {
   Controller,
   Post,
+  Get,
   Body,
+  Query,
+  Param,
+  ParseIntPipe,
   UseGuards,
   Request,
   HttpCode,
   HttpStatus,
+  Header,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { KundliService } from '../services/kundli.service';
+import { PlaceSearchService } from '../services/place-search.service';
+import { KundliDashaService } from '../services/kundli-dasha.service';
+import { KundliVargaService } from '../services/kundli-varga.service';
+import { KundliStrengthService } from '../services/kundli-strength.service';
+import { YogaRuleService } from '../services/yoga-rule.service';
+import { KundliGocharService } from '../services/kundli-gochar.service';
+import { KundliChartService } from '../services/kundli-chart.service';
+import { KundliVarshaphalService } from '../services/kundli-varshaphal.service';
+import { KundliKpService } from '../services/kundli-kp.service';
+import { KundliAyanamsaService } from '../services/kundli-ayanamsa.service';
+import { KundliVersionService } from '../services/kundli-version.service';
 import { GenerateKundliDto } from '../dto/generate-kundli.dto';
 import { KundliResponseDto } from '../dto/kundli-response.dto';
+import { SearchPlacesDto, PlaceDto } from '../dto/search-places.dto';
+import { GetKundliDashaDto, KundliDashaResponseDto } from '../dto/kundli-dasha.dto';
+import { VargaChartDto } from '../dto/kundli-varga.dto';
+import { KundliStrengthResponseDto } from '../dto/kundli-strength.dto';
+import { KundliYogasResponseDto } from '../dto/yoga-rule.dto';
+import {
+  GetKundliGocharDto,
+  GetGocharTimelineDto,
+  KundliGocharResponseDto,
+  KundliGocharTimelineResponseDto,
+} from '../dto/kundli-gochar.dto';
+import { GetKundliChartDto } from '../dto/kundli-chart.dto';
+import { GetKundliVarshaphalDto, KundliVarshaphalResponseDto } from '../dto/kundli-varshaphal.dto';
+import { GetKpRulingPlanetsDto, KpChartDto, KpRulingPlanetsResponseDto } from '../dto/kundli-kp.dto';
+import { AyanamsaDto } from '../dto/ayanamsa.dto';
+import {
+  GetKundliVersionDiffDto,
+  KundliVersionDiffDto,
+  KundliVersionDto,
+  KundliVersionsResponseDto,
+} from '../dto/kundli-version.dto';
+import { ChartStyle } from '../../astrology/services/chart-renderer.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { Public } from '../../common/decorators/public.decorator';
 
 @ApiTags('kundli')
 @Controller('kundli')
 export class KundliController {
-  constructor(private readonly kundliService: KundliService) {}
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly kundliDashaService: KundliDashaService,
+    private readonly kundliVargaService: KundliVargaService,
+    private readonly kundliStrengthService: KundliStrengthService,
+    private readonly yogaRuleService: YogaRuleService,
+    private readonly kundliGocharService: KundliGocharService,
+    private readonly kundliChartService: KundliChartService,
+    private readonly kundliVarshaphalService: KundliVarshaphalService,
+    private readonly kundliKpService: KundliKpService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+    private readonly kundliVersionService: KundliVersionService,
+  ) {}
+
+  /**
+   * GET /api/v1/kundli/places?q=
+   * Birth place autocomplete from the offline gazetteer - Public endpoint
+   */
+  @Get('places')
+  @Public()
+  @ApiOperation({ summary: 'Search birth places (autocomplete)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching places with coordinates and timezone',
+    type: [PlaceDto],
+  })
+  async searchPlaces(@Query() query: SearchPlacesDto): Promise<PlaceDto[]> {
+    return this.placeSearchService.search(query.q, {
+      country: query.country,
+      limit: query.limit,
+    });
+  }
+
+  /**
+   * GET /api/v1/kundli/ayanamsas
+   * Ayanamsas a kundli can be cast with - Public endpoint
+   */
+  @Get('ayanamsas')
+  @Public()
+  @ApiOperation({ summary: 'List the available ayanamsas' })
+  @ApiResponse({
+    status: 200,
+    description: 'Enabled ayanamsas, default first',
+    type: [AyanamsaDto],
+  })
+  async getAyanamsas(): Promise<AyanamsaDto[]> {
+    return this.kundliAyanamsaService.getCatalog();
+  }
+
+  /**
+   * GET /api/v1/kundli/kp/ruling-planets?lat=&lng=&at=
+   * KP ruling planets for a moment and place - Public endpoint
+   */
+  @Get('kp/ruling-planets')
+  @Public()
+  @ApiOperation({ summary: 'Get KP ruling planets for a moment (defaults to now)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Day lord and the sign, star and sub lords of the ascendant and Moon',
+    type: KpRulingPlanetsResponseDto,
+  })
+  async getKpRulingPlanets(@Query() query: GetKpRulingPlanetsDto): Promise<KpRulingPlanetsResponseDto> {
+    return this.kundliKpService.getRulingPlanets(query);
+  }
 
   /**
    * POST /api/v1/kundli
@@ -71,6 +176,323 @@ export class KundliController {
     const userId = req.user.id;
     return this.kundliService.generateKundli(dto, userId);
   }
-}
 
+  /**
+   * GET /api/v1/kundli/:id/dasha?level=&at=
+   * Active Vimshottari dasha chain of a saved kundli at any date
+   */
+  @Get(':id/dasha')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the running Vimshottari dasha chain for a date' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active mahadasha to the requested level with its sub-periods',
+    type: KundliDashaResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getDasha(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetKundliDashaDto,
+    @Request() req: any,
+  ): Promise<KundliDashaResponseDto> {
+    return this.kundliDashaService.getDashaForKundli(id, req.user, query.level, query.at);
+  }
 
+  /**
+   * GET /api/v1/kundli/:id/varga/:division
+   * Divisional chart (D2-D60) of a saved kundli
+   */
+  @Get(':id/varga/:division')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a divisional chart (e.g. D9 Navamsa, D10 Dasamsa)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Varga lagna and planet sign placements',
+    type: VargaChartDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported division',
+  })
+  async getVarga(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('division') division: string,
+    @Request() req: any,
+  ): Promise<VargaChartDto> {
+    return this.kundliVargaService.getVargaForKundli(id, req.user, division);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/strength
+   * Ashtakavarga bindus and Shadbala of a saved kundli
+   */
+  @Get(':id/strength')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get Ashtakavarga and Shadbala planetary strength' })
+  @ApiResponse({
+    status: 200,
+    description: 'Bhinnashtakavarga/Sarvashtakavarga bindus and six-fold Shadbala per planet',
+    type: KundliStrengthResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getStrength(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: any,
+  ): Promise<KundliStrengthResponseDto> {
+    return this.kundliStrengthService.getStrengthForKundli(id, req.user);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/yogas
+   * Yogas present in a saved kundli, evaluated with the current rule set
+   */
+  @Get(':id/yogas')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Detect classical yogas (Raja, Dhana, Mahapurusha, ...)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Detected yogas with the planets involved and their strength',
+    type: KundliYogasResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getYogas(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: any,
+  ): Promise<KundliYogasResponseDto> {
+    return this.yogaRuleService.getYogasForKundli(id, req.user);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/gochar
+   * Transits over a saved kundli with Sade Sati, Shani and Jupiter status
+   */
+  @Get(':id/gochar')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get transits (gochar) from the natal Moon and lagna for a date' })
+  @ApiResponse({
+    status: 200,
+    description: 'Transit houses with vedha, Sade Sati phase, Ashtama/Kantaka Shani and Jupiter transit',
+    type: KundliGocharResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getGochar(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetKundliGocharDto,
+    @Request() req: any,
+  ): Promise<KundliGocharResponseDto> {
+    return this.kundliGocharService.getGocharForKundli(id, req.user, query.at);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/gochar/timeline
+   * Upcoming sign ingresses with the houses they activate
+   */
+  @Get(':id/gochar/timeline')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get upcoming planetary sign ingresses (default 24 months)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sign ingresses of Sun to Saturn and the nodes with houses from the natal Moon and lagna',
+    type: KundliGocharTimelineResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getGocharTimeline(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetGocharTimelineDto,
+    @Request() req: any,
+  ): Promise<KundliGocharTimelineResponseDto> {
+    return this.kundliGocharService.getTimelineForKundli(id, req.user, query.months);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/varshaphal?year=
+   * Tajik annual chart (solar return) for a Varsha year
+   */
+  @Get(':id/varshaphal')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the Varshaphal (annual chart) with Muntha, Varsheshwara and Mudda dasha' })
+  @ApiResponse({
+    status: 200,
+    description: 'Solar return moment, annual chart, Panchadhikaris with Panchavargiya bala and Mudda dasha',
+    type: KundliVarshaphalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Year outside the lifetime of the kundli or incomplete location',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Varshaphal is not available in the plan',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getVarshaphal(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetKundliVarshaphalDto,
+    @Request() req: any,
+  ): Promise<KundliVarshaphalResponseDto> {
+    return this.kundliVarshaphalService.getVarshaphalForKundli(id, req.user, query);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/kp
+   * KP cusps, sub lords and significators
+   */
+  @Get(':id/kp')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the KP chart: Placidus cusps, star/sub/sub-sub lords and four-level significators' })
+  @ApiResponse({
+    status: 200,
+    description: 'KP chart of the kundli',
+    type: KpChartDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getKp(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.kundliKpService.getKpForKundli(id, req.user);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/chart.svg?style=&varga=
+   * Chart drawing in North, South or East Indian style
+   */
+  @Get(':id/chart.svg')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Header('Content-Type', 'image/svg+xml; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=86400')
+  @ApiProduces('image/svg+xml')
+  @ApiOperation({ summary: 'Render the rasi or a divisional chart as SVG' })
+  @ApiResponse({
+    status: 200,
+    description: 'SVG chart with planet abbreviations, degrees and (R)/(C)/(V) markers',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unsupported style or division',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getChartSvg(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetKundliChartDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const { svg, etag } = await this.kundliChartService.getChartSvg(
+      id,
+      req.user,
+      (query.style || 'north') as ChartStyle,
+      query.varga || 'D1',
+    );
+    res.setHeader('ETag', etag);
+    return svg;
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/versions
+   * Versions a saved kundli has been cast in, newest first
+   */
+  @Get(':id/versions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the versions of a kundli with their engine, ayanamsa and birth inputs' })
+  @ApiResponse({
+    status: 200,
+    description: 'Kundli versions retrieved successfully',
+    type: KundliVersionsResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli not found',
+  })
+  async getVersions(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: any,
+  ): Promise<KundliVersionsResponseDto> {
+    return this.kundliVersionService.getVersions(id, req.user);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/versions/diff?from=&to=
+   * Planets that changed sign, house or nakshatra between two versions, and the dasha change
+   */
+  @Get(':id/versions/diff')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Compare two versions of a kundli (default: the latest with the one before)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Changed inputs, lagna, nakshatra, planet placements and dasha',
+    type: KundliVersionDiffDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'from is not earlier than to',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli or version not found',
+  })
+  async getVersionDiff(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: GetKundliVersionDiffDto,
+    @Request() req: any,
+  ): Promise<KundliVersionDiffDto> {
+    return this.kundliVersionService.getDiff(id, query, req.user);
+  }
+
+  /**
+   * GET /api/v1/kundli/:id/versions/:version
+   * Chart and dasha snapshot of one version
+   */
+  @Get(':id/versions/:version')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the chart and dasha snapshot of a kundli version' })
+  @ApiResponse({
+    status: 200,
+    description: 'Kundli version retrieved successfully',
+    type: KundliVersionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Kundli or version not found',
+  })
+  async getVersion(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('version', ParseIntPipe) version: number,
+    @Request() req: any,
+  ): Promise<KundliVersionDto> {
+    return this.kundliVersionService.getVersion(id, version, req.user);
+  }
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AyanamsaDto {
+  @ApiProperty({ description: 'Slug to pass as ayanamsa_name when generating a kundli', example: 'lahiri' })
+  name: string;
+
+  @ApiProperty({ example: 'Lahiri (Chitrapaksha)' })
+  display_name: string;
+
+  @ApiProperty({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ description: 'Ayanamsa at J2000.0 (degrees)', example: 23.857056, nullable: true })
+  value_j2000: number | null;
+
+  @ApiProperty({ description: 'Integer code accepted in the ayanamsa field, if any', example: 1, nullable: true })
+  legacy_code: number | null;
+
+  @ApiProperty({ example: true })
+  is_default: boolean;
+}
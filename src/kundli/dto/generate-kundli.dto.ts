@@ -1,5 +1,6 @@
-import { IsString, IsDateString, IsNotEmpty, IsOptional, IsNumber, Min, Max, Matches } from 'class-validator';
+import { IsString, IsDateString, IsNotEmpty, IsOptional, IsNumber, Min, Max, Matches, IsIn } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HOUSE_SYSTEMS, HouseSystem } from '../../astrology/services/swiss-ephemeris.service';
 
 export class GenerateKundliDto {
   @ApiProperty({ description: 'Full name of the person', example: 'John Doe' })
@@ -44,11 +45,47 @@ export class GenerateKundliDto {
   @IsOptional()
   timezone?: string;
 
-  @ApiPropertyOptional({ description: 'Ayanamsa type (1=Lahiri, 2=Raman, 3=KP, 4=Sayana)', example: 1, default: 1 })
+  @ApiPropertyOptional({ description: 'Legacy ayanamsa code (1=Lahiri, 2=Raman, 3=KP old, 4=Sayana); prefer ayanamsa_name', example: 1 })
   @IsNumber()
   @IsOptional()
   @Min(1)
   @Max(4)
   ayanamsa?: number;
-}
 
+  @ApiPropertyOptional({
+    description: 'Ayanamsa slug from GET /kundli/ayanamsas (takes precedence over ayanamsa). Defaults to the catalog default, or KP old for system=kp',
+    example: 'lahiri',
+  })
+  @IsString()
+  @IsOptional()
+  @Matches(/^[a-z0-9_]{1,50}$/, { message: 'ayanamsa_name must be a lowercase slug' })
+  ayanamsa_name?: string;
+
+  @ApiPropertyOptional({ description: 'Lunar node used for Rahu/Ketu (mean or true)', example: 'mean', default: 'mean', enum: ['mean', 'true'] })
+  @IsString()
+  @IsOptional()
+  @IsIn(['mean', 'true'])
+  node_type?: 'mean' | 'true';
+
+  @ApiPropertyOptional({
+    description: 'Astrological system. "kp" casts Placidus cusps with the KP ayanamsa and adds KP sub lords and significators',
+    example: 'vedic',
+    default: 'vedic',
+    enum: ['vedic', 'kp'],
+  })
+  @IsString()
+  @IsOptional()
+  @IsIn(['vedic', 'kp'])
+  system?: 'vedic' | 'kp';
+
+  @ApiPropertyOptional({
+    description: 'House system for bhava cusps',
+    example: 'placidus',
+    default: 'placidus',
+    enum: HOUSE_SYSTEMS,
+  })
+  @IsString()
+  @IsOptional()
+  @IsIn(HOUSE_SYSTEMS)
+  house_system?: HouseSystem;
+}
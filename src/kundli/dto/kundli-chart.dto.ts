@@ -0,0 +1,15 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CHART_STYLES } from '../../astrology/services/chart-renderer.service';
+
+export class GetKundliChartDto {
+  @ApiPropertyOptional({ description: 'Chart style', enum: CHART_STYLES, default: 'north' })
+  @IsOptional()
+  @IsIn(CHART_STYLES as readonly string[])
+  style?: string;
+
+  @ApiPropertyOptional({ description: 'Divisional chart to draw (D1-D60)', default: 'D1', example: 'D9' })
+  @IsOptional()
+  @IsString()
+  varga?: string;
+}
@@ -0,0 +1,73 @@
+import { IsOptional, IsIn, IsDateString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DASHA_LEVELS, DashaLevel } from '../../astrology/services/vimshottari-dasha.service';
+
+export class GetKundliDashaDto {
+  @ApiPropertyOptional({
+    description: 'Deepest level of the active chain to return',
+    enum: DASHA_LEVELS,
+    default: 'prana',
+  })
+  @IsOptional()
+  @IsIn(DASHA_LEVELS)
+  level?: DashaLevel;
+
+  @ApiPropertyOptional({
+    description: 'Instant to evaluate (ISO 8601); defaults to now',
+    example: '2025-06-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
+
+export class DashaPeriodDto {
+  @ApiProperty({ enum: DASHA_LEVELS })
+  level: DashaLevel;
+
+  @ApiProperty({ example: 'Jupiter' })
+  lord: string;
+
+  @ApiProperty()
+  start: string;
+
+  @ApiProperty()
+  end: string;
+
+  @ApiProperty()
+  duration_years: number;
+}
+
+export class DashaBalanceDto {
+  @ApiProperty({ description: 'Lord of the mahadasha running at birth' })
+  lord: string;
+
+  @ApiProperty({ description: 'Years of that mahadasha remaining at birth' })
+  balance_years: number;
+
+  @ApiProperty({ description: 'Portion of the birth nakshatra already traversed by the Moon (0-1)' })
+  elapsed_fraction: number;
+}
+
+export class KundliDashaResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty()
+  at: string;
+
+  @ApiProperty({ enum: DASHA_LEVELS })
+  level: DashaLevel;
+
+  @ApiProperty({ type: DashaBalanceDto })
+  balance_at_birth: DashaBalanceDto;
+
+  @ApiProperty({ type: [DashaPeriodDto], description: 'Active periods from mahadasha down to the requested level' })
+  chain: DashaPeriodDto[];
+
+  @ApiProperty({
+    type: [DashaPeriodDto],
+    description: 'The nine sub-periods of the deepest active period (empty at prana level)',
+  })
+  sub_periods: DashaPeriodDto[];
+}
@@ -0,0 +1,121 @@
+import { IsOptional, IsDateString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GetKundliGocharDto {
+  @ApiPropertyOptional({
+    description: 'Instant to evaluate (ISO 8601); defaults to now',
+    example: '2025-06-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
+
+export class GetGocharTimelineDto {
+  @ApiPropertyOptional({ description: 'Months ahead to cover', default: 24, minimum: 1, maximum: 36 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(36)
+  months?: number;
+}
+
+export class TransitPlanetDto {
+  @ApiProperty({ example: 'Saturn' })
+  name: string;
+
+  @ApiProperty({ description: 'Sidereal longitude' })
+  longitude: number;
+
+  @ApiProperty({ example: 'Pisces' })
+  sign: string;
+
+  @ApiProperty()
+  degrees: number;
+
+  @ApiProperty()
+  is_retrograde: boolean;
+
+  @ApiProperty({ description: 'Whole-sign house counted from the natal Moon' })
+  house_from_moon: number;
+
+  @ApiProperty({ description: 'Whole-sign house counted from the natal lagna' })
+  house_from_lagna: number;
+
+  @ApiProperty({ description: 'Whether the house from the Moon is favourable for this graha' })
+  favourable: boolean;
+
+  @ApiProperty({ description: 'Vedha house from the Moon and the grahas occupying it', example: { vedha_house: 9, by: ['Mars'] } })
+  vedha: Record<string, any>;
+
+  @ApiProperty({ enum: ['favourable', 'unfavourable', 'obstructed', 'relieved'] })
+  result: string;
+}
+
+export class KundliGocharResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty()
+  date: Date;
+
+  @ApiProperty({ example: 'Aquarius' })
+  moon_sign: string;
+
+  @ApiProperty({ example: 'Capricorn' })
+  lagna_sign: string;
+
+  @ApiProperty({ type: [TransitPlanetDto] })
+  planets: TransitPlanetDto[];
+
+  @ApiProperty({ description: 'Sade Sati phase (rising/peak/setting) with start and end of the current cycle' })
+  sade_sati: Record<string, any>;
+
+  @ApiProperty({ description: 'Saturn in the 8th from the Moon' })
+  ashtama_shani: Record<string, any>;
+
+  @ApiProperty({ description: 'Saturn in the 4th, 7th or 10th from the Moon' })
+  kantaka_shani: Record<string, any>;
+
+  @ApiProperty({ description: 'Jupiter transit from the Moon and its result' })
+  jupiter_transit: Record<string, any>;
+}
+
+export class GocharIngressDto {
+  @ApiProperty({ example: 'Jupiter' })
+  planet: string;
+
+  @ApiProperty()
+  date: Date;
+
+  @ApiProperty({ example: 'Cancer' })
+  from_sign: string;
+
+  @ApiProperty({ example: 'Leo' })
+  to_sign: string;
+
+  @ApiProperty()
+  is_retrograde: boolean;
+
+  @ApiProperty({ description: 'House of the new sign from the natal Moon' })
+  house_from_moon: number;
+
+  @ApiProperty({ description: 'House of the new sign from the natal lagna' })
+  house_from_lagna: number;
+}
+
+export class KundliGocharTimelineResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({ type: [GocharIngressDto] })
+  ingresses: GocharIngressDto[];
+}
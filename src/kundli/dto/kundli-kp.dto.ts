@@ -0,0 +1,126 @@
+import { IsOptional, IsDateString, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GetKpRulingPlanetsDto {
+  @ApiProperty({ description: 'Latitude of the place of judgement', example: 28.6139 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ description: 'Longitude of the place of judgement', example: 77.209 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({
+    description: 'Instant to evaluate (ISO 8601); defaults to now',
+    example: '2025-06-01T09:30:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
+
+export class KpLordsDto {
+  @ApiProperty({ example: 'Mars' })
+  sign_lord: string;
+
+  @ApiProperty({ description: 'Nakshatra lord', example: 'Ketu' })
+  star_lord: string;
+
+  @ApiProperty({ example: 'Venus' })
+  sub_lord: string;
+
+  @ApiProperty({ example: 'Mercury' })
+  sub_sub_lord: string;
+}
+
+export class KpCuspDto extends KpLordsDto {
+  @ApiProperty()
+  house: number;
+
+  @ApiProperty({ description: 'Sidereal longitude of the Placidus cusp (KP ayanamsa)' })
+  longitude: number;
+
+  @ApiProperty()
+  sign: string;
+}
+
+export class KpPlanetDto extends KpLordsDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty()
+  sign: string;
+
+  @ApiProperty({ description: 'Placidus house' })
+  house: number;
+
+  @ApiProperty()
+  is_retrograde: boolean;
+}
+
+export class KpHouseSignificatorsDto {
+  @ApiProperty()
+  house: number;
+
+  @ApiProperty({ description: 'Planets in the star of the occupants' })
+  level_1: string[];
+
+  @ApiProperty({ description: 'Occupants' })
+  level_2: string[];
+
+  @ApiProperty({ description: 'Planets in the star of the cusp sign lord' })
+  level_3: string[];
+
+  @ApiProperty({ description: 'Cusp sign lord' })
+  level_4: string[];
+
+  @ApiProperty({ description: 'All significators, strongest first, including nodes acting for their sign lord' })
+  all: string[];
+}
+
+export class KpChartDto {
+  @ApiProperty({ description: 'KP ayanamsa at birth (degrees)' })
+  ayanamsa: number;
+
+  @ApiProperty({ type: [KpCuspDto] })
+  cusps: KpCuspDto[];
+
+  @ApiProperty({ type: [KpPlanetDto] })
+  planets: KpPlanetDto[];
+
+  @ApiProperty({
+    description: 'House significators and the houses each planet signifies',
+    example: { houses: [{ house: 7, level_1: [], level_2: [], level_3: ['Sun', 'Venus'], level_4: ['Sun'], all: ['Sun', 'Venus'] }], planets: { Sun: [7, 11] } },
+  })
+  significators: {
+    houses: KpHouseSignificatorsDto[];
+    planets: Record<string, number[]>;
+  };
+}
+
+export class KpRulingPlanetsResponseDto {
+  @ApiProperty()
+  at: string;
+
+  @ApiProperty({ description: 'Lord of the weekday, changing at local sunrise', example: 'Sun' })
+  day_lord: string;
+
+  @ApiProperty({ description: 'Ascendant longitude, sign and lords', example: { longitude: 219.99, sign: 'Scorpio', sign_lord: 'Mars', star_lord: 'Saturn', sub_lord: 'Venus', sub_sub_lord: 'Mercury' } })
+  lagna: Record<string, any>;
+
+  @ApiProperty({ description: 'Moon longitude, sign and lords' })
+  moon: Record<string, any>;
+
+  @ApiProperty({ description: 'Ruling planets, strongest first', example: ['Saturn', 'Mars', 'Venus', 'Jupiter', 'Sun', 'Rahu'] })
+  planets: string[];
+}
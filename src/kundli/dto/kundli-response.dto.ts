@@ -1,4 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { HOUSE_SYSTEMS, HouseSystem } from '../../astrology/services/swiss-ephemeris.service';
+import { KpChartDto } from './kundli-kp.dto';
 
 export class PlanetPositionDto {
   @ApiProperty()
@@ -10,6 +12,12 @@ export class PlanetPositionDto {
   @ApiProperty()
   latitude: number;
 
+  @ApiProperty({ description: 'Geocentric distance in AU (0 for lunar nodes)' })
+  distance: number;
+
+  @ApiProperty({ description: 'Daily motion in longitude (degrees/day)' })
+  speed: number;
+
   @ApiProperty()
   sign: string;
 
@@ -25,11 +33,20 @@ export class PlanetPositionDto {
   @ApiProperty()
   nakshatra_pada: number;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Bhava (house cusp) placement in the selected house system' })
   house: number;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Rashi placement counted whole-sign from the lagna' })
+  rashi_house: number;
+
+  @ApiProperty({ description: 'Planet is moving backwards (shown as "R")' })
   is_retrograde: boolean;
+
+  @ApiProperty({ description: 'Planet is at a retrograde or direct station' })
+  is_stationary: boolean;
+
+  @ApiProperty({ description: 'Planet is within its combustion orb from the Sun (shown as "C")' })
+  is_combust: boolean;
 }
 
 export class HouseDto {
@@ -42,11 +59,14 @@ export class HouseDto {
   @ApiProperty()
   sign_lord: string;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Sidereal longitude where the house begins' })
   start_degree: number;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Sidereal longitude where the next house begins' })
   end_degree: number;
+
+  @ApiProperty({ description: 'Sidereal longitude of the bhava madhya (house middle)' })
+  mid_degree: number;
 }
 
 export class KundliResponseDto {
@@ -71,11 +91,21 @@ export class KundliResponseDto {
   @ApiProperty()
   timezone: string;
 
+  @ApiProperty({ description: 'UTC offset in effect at birth (e.g. +05:30, +06:30 for war time)', example: '+05:30' })
+  utc_offset: string;
+
+  @ApiProperty({ description: 'UTC offset in effect at birth, in minutes', example: 330 })
+  utc_offset_minutes: number;
+
+  @ApiProperty({ description: 'Birth moment in UT (ISO 8601)', example: '1990-01-15T05:00:00.000Z' })
+  birth_datetime_utc: string;
+
   @ApiProperty()
   lagna: {
     sign: string;
     degrees: number;
     lord: string;
+    longitude: number; // sidereal, 0-360
   };
 
   @ApiProperty()
@@ -85,15 +115,30 @@ export class KundliResponseDto {
     lord: string;
   };
 
+  @ApiProperty()
+  midheaven: {
+    sign: string;
+    longitude: number;
+  };
+
   @ApiProperty()
   planets: PlanetPositionDto[];
 
   @ApiProperty()
   houses: HouseDto[];
 
-  @ApiProperty()
+  @ApiProperty({ enum: HOUSE_SYSTEMS })
+  house_system: HouseSystem;
+
+  @ApiProperty({ description: 'Ayanamsa at birth (degrees)' })
   ayanamsa: number;
 
+  @ApiProperty({ description: 'Ayanamsa model the chart was cast with', example: 'lahiri' })
+  ayanamsa_name: string;
+
+  @ApiProperty({ enum: ['mean', 'true'] })
+  node_type: 'mean' | 'true';
+
   @ApiProperty()
   tithi: string;
 
@@ -103,6 +148,12 @@ export class KundliResponseDto {
   @ApiProperty()
   karana: string;
 
+  @ApiProperty({ enum: ['vedic', 'kp'] })
+  system: 'vedic' | 'kp';
+
+  @ApiProperty({ description: 'KP cusps, sub lords and significators (system=kp only)', type: KpChartDto, required: false })
+  kp?: KpChartDto;
+
   @ApiProperty()
   full_data: Record<string, any>;
 }
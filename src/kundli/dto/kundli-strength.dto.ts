@@ -0,0 +1,90 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AshtakavargaDto {
+  @ApiProperty({
+    description: 'Bhinnashtakavarga bindus per planet, 12 values from Aries to Pisces',
+    example: { Sun: [5, 3, 4, 6, 2, 4, 3, 5, 4, 3, 5, 4] },
+  })
+  bhinnashtakavarga: Record<string, number[]>;
+
+  @ApiProperty({ description: 'Sarvashtakavarga bindus from Aries to Pisces (sum 337)', type: [Number] })
+  sarvashtakavarga: number[];
+
+  @ApiProperty({ description: 'Sarvashtakavarga bindus from the 1st house onwards', type: [Number] })
+  sarvashtakavarga_by_house: number[];
+
+  @ApiProperty({ description: 'Bindu totals per planet and "Sarva"', example: { Sun: 48, Sarva: 337 } })
+  totals: Record<string, number>;
+
+  @ApiProperty({ type: [String] })
+  signs: string[];
+}
+
+export class PlanetShadbalaDto {
+  @ApiProperty({ description: 'Positional strength: uchcha, saptavargaja, ojayugma, kendradi, drekkana (virupas)' })
+  sthana: Record<string, number>;
+
+  @ApiProperty({ description: 'Directional strength (virupas)' })
+  dig: number;
+
+  @ApiProperty({ description: 'Temporal strength: nathonnatha, paksha, tribhaga, abda, masa, vara, hora, ayana (virupas)' })
+  kala: Record<string, number>;
+
+  @ApiProperty({ description: 'Motional strength (virupas)' })
+  chesta: number;
+
+  @ApiProperty({ description: 'Natural strength (virupas)' })
+  naisargika: number;
+
+  @ApiProperty({ description: 'Aspectual strength, may be negative (virupas)' })
+  drik: number;
+
+  @ApiProperty()
+  total_virupas: number;
+
+  @ApiProperty({ description: 'Total in rupas (60 virupas)' })
+  total_rupas: number;
+
+  @ApiProperty({ description: 'Minimum rupas for the planet to be considered strong' })
+  required_rupas: number;
+
+  @ApiProperty({ description: 'total_rupas / required_rupas' })
+  strength_ratio: number;
+
+  @ApiProperty()
+  is_strong: boolean;
+
+  @ApiProperty({ description: '1 = strongest planet by strength ratio' })
+  rank: number;
+}
+
+export class ShadbalaDto {
+  @ApiProperty({ description: 'Shadbala keyed by planet (Sun to Saturn), see PlanetShadbalaDto' })
+  planets: Record<string, PlanetShadbalaDto>;
+
+  @ApiProperty({ example: 'Jupiter' })
+  strongest: string;
+
+  @ApiProperty({ example: 'Saturn' })
+  weakest: string;
+
+  @ApiProperty()
+  is_day_birth: boolean;
+
+  @ApiProperty({ description: 'Lords of the year, month, weekday and hora of birth' })
+  lords: { abda: string; masa: string; vara: string; hora: string };
+}
+
+export class KundliStrengthResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ type: AshtakavargaDto })
+  ashtakavarga: AshtakavargaDto;
+
+  @ApiProperty({ type: ShadbalaDto })
+  shadbala: ShadbalaDto;
+
+  @ApiProperty({ description: 'When the strength data was calculated (ISO 8601)' })
+  calculated_at: string;
+}
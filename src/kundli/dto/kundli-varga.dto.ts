@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { VARGA_DIVISIONS } from '../../astrology/services/varga.service';
+
+export class VargaPositionDto {
+  @ApiProperty({ example: 'Cancer' })
+  sign: string;
+
+  @ApiProperty({ example: 'Moon' })
+  sign_lord: string;
+
+  @ApiProperty({ description: 'Position within the varga sign (0-30)' })
+  degree: number;
+}
+
+export class VargaPlanetDto extends VargaPositionDto {
+  @ApiProperty({ example: 'Venus' })
+  name: string;
+
+  @ApiProperty({ description: 'House counted whole-sign from the varga lagna (1-12)' })
+  house: number;
+
+  @ApiProperty({ description: 'Planet occupies the same sign as in the rasi chart' })
+  is_vargottama: boolean;
+}
+
+export class VargaChartDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ enum: VARGA_DIVISIONS, example: 9 })
+  division: number;
+
+  @ApiProperty({ example: 'D9' })
+  code: string;
+
+  @ApiProperty({ example: 'Navamsa' })
+  name: string;
+
+  @ApiProperty({ type: VargaPositionDto })
+  lagna: VargaPositionDto;
+
+  @ApiProperty({ type: [VargaPlanetDto] })
+  planets: VargaPlanetDto[];
+}
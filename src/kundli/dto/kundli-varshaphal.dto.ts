@@ -0,0 +1,174 @@
+import { IsOptional, IsInt, IsNumber, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GetKundliVarshaphalDto {
+  @ApiPropertyOptional({
+    description: 'Varsha year (the birthday in this year starts it); defaults to the year running now',
+    example: 2026,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1800)
+  @Max(2400)
+  year?: number;
+
+  @ApiPropertyOptional({ description: 'Latitude of the place of residence; defaults to the birth place' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude of the place of residence; defaults to the birth place' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng?: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone of the place of residence', example: 'Europe/London' })
+  @IsOptional()
+  @IsString()
+  tz?: string;
+}
+
+export class VarshaphalPlanetDto {
+  @ApiProperty({ example: 'Jupiter' })
+  name: string;
+
+  @ApiProperty({ description: 'Sidereal longitude' })
+  longitude: number;
+
+  @ApiProperty({ example: 'Cancer' })
+  sign: string;
+
+  @ApiProperty()
+  degrees: number;
+
+  @ApiProperty({ description: 'Whole-sign house from the annual lagna' })
+  house: number;
+
+  @ApiProperty()
+  is_retrograde: boolean;
+}
+
+export class VarshaphalChartDto {
+  @ApiProperty({ example: { sign: 'Virgo', degrees: 14.2, longitude: 164.2 } })
+  lagna: { sign: string; degrees: number; longitude: number };
+
+  @ApiProperty({ type: [VarshaphalPlanetDto] })
+  planets: VarshaphalPlanetDto[];
+}
+
+export class MunthaDto {
+  @ApiProperty({ example: 'Scorpio' })
+  sign: string;
+
+  @ApiProperty({ description: 'Whole-sign house from the annual lagna' })
+  house: number;
+
+  @ApiProperty({ example: 'Mars' })
+  lord: string;
+
+  @ApiProperty({ description: 'House of the Muntha lord in the annual chart' })
+  lord_house: number;
+}
+
+export class PanchavargiyaBalaDto {
+  @ApiProperty()
+  kshetra: number;
+
+  @ApiProperty()
+  uchcha: number;
+
+  @ApiProperty()
+  hadda: number;
+
+  @ApiProperty()
+  drekkana: number;
+
+  @ApiProperty()
+  navamsa: number;
+
+  @ApiProperty({ description: 'Sum of the five strengths divided by 4 (0-20)' })
+  total: number;
+}
+
+export class VarsheshwaraDto {
+  @ApiProperty({ example: 'Venus' })
+  planet: string;
+
+  @ApiProperty({ description: 'Panchavargiya bala (0-20)' })
+  bala: number;
+
+  @ApiProperty({ description: 'Whether it casts a Tajik aspect on the annual lagna' })
+  aspects_lagna: boolean;
+
+  @ApiProperty({ description: 'Offices it holds among the Panchadhikaris', example: ['muntha_lord', 'tri_rashi_pati'] })
+  roles: string[];
+}
+
+export class MuddaDashaPeriodDto {
+  @ApiProperty({ example: 'Moon' })
+  lord: string;
+
+  @ApiProperty()
+  start: string;
+
+  @ApiProperty()
+  end: string;
+
+  @ApiProperty()
+  days: number;
+}
+
+export class KundliVarshaphalResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ example: 2026 })
+  year: number;
+
+  @ApiProperty({ description: 'Completed years of age at the solar return' })
+  completed_years: number;
+
+  @ApiProperty({ description: 'UT instant the sidereal Sun returns to its natal longitude' })
+  solar_return: string;
+
+  @ApiProperty({ description: 'Start of the following Varsha year' })
+  next_solar_return: string;
+
+  @ApiProperty({ description: 'Whether the Sun is above the horizon at the solar return' })
+  is_day_return: boolean;
+
+  @ApiProperty({ description: 'Place the annual chart is cast for', example: { latitude: 28.61, longitude: 77.21, timezone: 'Asia/Kolkata' } })
+  location: { latitude: number; longitude: number; timezone: string };
+
+  @ApiProperty({ type: VarshaphalChartDto })
+  chart: VarshaphalChartDto;
+
+  @ApiProperty({ type: MunthaDto })
+  muntha: MunthaDto;
+
+  @ApiProperty({ description: 'The five office-bearers', example: [{ role: 'muntha_lord', planet: 'Mars' }] })
+  panchadhikaris: Array<{ role: string; planet: string }>;
+
+  @ApiProperty({
+    description: 'Panchavargiya bala of the seven grahas',
+    example: { Sun: { kshetra: 15, uchcha: 12.4, hadda: 7.5, drekkana: 10, navamsa: 2.5, total: 11.85 } },
+  })
+  panchavargiya_bala: Record<string, PanchavargiyaBalaDto>;
+
+  @ApiProperty({ type: VarsheshwaraDto })
+  varsheshwara: VarsheshwaraDto;
+
+  @ApiProperty({ type: [MuddaDashaPeriodDto] })
+  mudda_dasha: MuddaDashaPeriodDto[];
+
+  @ApiProperty({ description: 'Mudda dasha period running now, if within this year', type: MuddaDashaPeriodDto, nullable: true })
+  current_mudda_dasha: MuddaDashaPeriodDto | null;
+}
@@ -0,0 +1,211 @@
+import { IsOptional, IsInt, IsBoolean, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { KUNDLI_VERSION_REASONS } from '../entities/kundli-version.entity';
+
+export class GetKundliVersionDiffDto {
+  @ApiPropertyOptional({ description: 'Older version; defaults to the one before `to`' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from?: number;
+
+  @ApiPropertyOptional({ description: 'Newer version; defaults to the latest' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
+export class KundliVersionSummaryDto {
+  @ApiProperty()
+  version: number;
+
+  @ApiProperty({ enum: KUNDLI_VERSION_REASONS })
+  reason: string;
+
+  @ApiProperty({ nullable: true, example: 'astronomy-engine@2.1.19/r1' })
+  engine_version: string | null;
+
+  @ApiProperty({ nullable: true, example: 'lahiri' })
+  ayanamsa_name: string | null;
+
+  @ApiProperty({ nullable: true })
+  ayanamsa: number | null;
+
+  @ApiProperty({ example: 'placidus' })
+  house_system: string;
+
+  @ApiProperty({ example: '1990-05-15' })
+  birth_date: string;
+
+  @ApiProperty({ example: '14:30:00' })
+  birth_time: string;
+
+  @ApiProperty()
+  birth_place: string;
+
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty()
+  created_at: Date;
+}
+
+export class KundliVersionDto extends KundliVersionSummaryDto {
+  @ApiProperty({ description: 'Lagna, Moon nakshatra and planets with sign, house and nakshatra' })
+  chart: Record<string, any>;
+
+  @ApiProperty({ nullable: true, description: 'Vimshottari balance at birth and mahadasha sequence' })
+  dasha: Record<string, any> | null;
+}
+
+export class KundliVersionsResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ description: 'Version the stored chart currently matches' })
+  current_version: number;
+
+  @ApiProperty({ type: [KundliVersionSummaryDto] })
+  versions: KundliVersionSummaryDto[];
+}
+
+export class KundliValueChangeDto {
+  @ApiProperty({ example: 'birth_time' })
+  field: string;
+
+  @ApiProperty({ nullable: true })
+  from: any;
+
+  @ApiProperty({ nullable: true })
+  to: any;
+}
+
+export class PlanetPlacementDto {
+  @ApiProperty({ example: 'Leo' })
+  sign: string;
+
+  @ApiProperty({ example: 10 })
+  house: number;
+
+  @ApiProperty({ nullable: true, example: 'Magha' })
+  nakshatra: string | null;
+
+  @ApiProperty({ nullable: true })
+  pada: number | null;
+
+  @ApiProperty()
+  is_retrograde: boolean;
+}
+
+export class PlanetChangeDto {
+  @ApiProperty({ example: 'Moon' })
+  name: string;
+
+  @ApiProperty({ description: 'What moved', example: ['sign', 'house', 'nakshatra'] })
+  changes: string[];
+
+  @ApiProperty({ description: 'Longitude shift in degrees (newer minus older)' })
+  longitude_shift: number;
+
+  @ApiProperty({ type: PlanetPlacementDto })
+  from: PlanetPlacementDto;
+
+  @ApiProperty({ type: PlanetPlacementDto })
+  to: PlanetPlacementDto;
+}
+
+export class DashaChangeDto {
+  @ApiProperty({ description: 'Whether the mahadasha lords or their dates differ' })
+  changed: boolean;
+
+  @ApiProperty({ type: KundliValueChangeDto, description: 'Mahadasha lord running at birth' })
+  balance_lord: KundliValueChangeDto;
+
+  @ApiProperty({ description: 'Dasha balance at birth in years, older and newer', example: { from: 7.41, to: 6.98 } })
+  balance_years: { from: number | null; to: number | null };
+
+  @ApiProperty({ type: KundliValueChangeDto, description: 'Mahadasha running today' })
+  current_mahadasha: KundliValueChangeDto;
+
+  @ApiProperty({ description: 'Largest shift of a mahadasha start, in days' })
+  max_shift_days: number;
+}
+
+export class KundliVersionDiffDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty()
+  from_version: number;
+
+  @ApiProperty()
+  to_version: number;
+
+  @ApiProperty({ type: [KundliValueChangeDto], description: 'Birth inputs, ayanamsa, house system and engine version that differ' })
+  inputs: KundliValueChangeDto[];
+
+  @ApiProperty({ type: KundliValueChangeDto, nullable: true, description: 'Lagna sign, when it changed' })
+  lagna: KundliValueChangeDto | null;
+
+  @ApiProperty({ type: KundliValueChangeDto, nullable: true, description: 'Moon nakshatra and pada, when they changed' })
+  nakshatra: KundliValueChangeDto | null;
+
+  @ApiProperty({ type: [PlanetChangeDto], description: 'Planets that changed sign, house, nakshatra, pada or direction' })
+  planets: PlanetChangeDto[];
+
+  @ApiProperty({ type: DashaChangeDto, nullable: true })
+  dasha: DashaChangeDto | null;
+}
+
+export class RecomputeKundlisDto {
+  // Each kundli rewrites some 7,000 dasha rows, so batches stay small enough to finish within a request
+  @ApiPropertyOptional({ description: 'Kundlis to recompute in this call', default: 20, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'Also recompute kundlis already on the current engine version', default: false })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  @ApiPropertyOptional({ description: 'Continue after this kundli id' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  after_id?: number;
+}
+
+export class RecomputeKundlisResultDto {
+  @ApiProperty({ example: 'astronomy-engine@2.1.19/r1' })
+  engine_version: string;
+
+  @ApiProperty({ description: 'Kundlis recomputed into a new version' })
+  recomputed: number;
+
+  @ApiProperty({ description: 'Recomputed kundlis whose planets, lagna or dasha changed' })
+  changed: number;
+
+  @ApiProperty()
+  failed: number;
+
+  @ApiProperty({ nullable: true, description: 'Last kundli id handled; pass as after_id to continue' })
+  last_id: number | null;
+
+  @ApiProperty({ description: 'Kundlis still on another engine version' })
+  remaining: number;
+}
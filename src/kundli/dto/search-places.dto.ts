@@ -0,0 +1,63 @@
+import { IsString, IsNotEmpty, IsOptional, IsInt, Min, Max, MinLength, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class SearchPlacesDto {
+  @ApiProperty({
+    description: 'Place name or prefix; add ", state" or ", country" to narrow',
+    example: 'Hyderabad, Telangana',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  q: string;
+
+  @ApiPropertyOptional({ description: 'ISO 3166-1 alpha-2 country code filter', example: 'IN' })
+  @IsOptional()
+  @IsString()
+  @Length(2, 2)
+  country?: string;
+
+  @ApiPropertyOptional({ default: 10, minimum: 1, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class PlaceDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty({ example: 'Hyderabad' })
+  place_name: string;
+
+  @ApiProperty({ nullable: true, example: 'Telangana' })
+  state_name: string | null;
+
+  @ApiProperty({ example: 'IN' })
+  country_code: string;
+
+  @ApiProperty({ example: 'India' })
+  country_name: string;
+
+  @ApiProperty({ example: 'Hyderabad, Telangana, India' })
+  display_name: string;
+
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ description: 'IANA timezone', example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty()
+  population: number;
+
+  @ApiProperty({ description: 'Match score (higher is better)' })
+  score: number;
+}
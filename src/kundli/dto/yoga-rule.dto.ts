@@ -0,0 +1,108 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType, OmitType } from '@nestjs/swagger';
+import { YOGA_CATEGORIES, YogaCondition } from '../../astrology/services/yoga-engine.service';
+
+export class CreateYogaRuleDto {
+  @ApiProperty({ example: 'saraswati', description: 'Unique lowercase code' })
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[a-z0-9_]+$/, { message: 'code may only contain lowercase letters, digits and underscores' })
+  code: string;
+
+  @ApiProperty({ example: 'Saraswati Yoga' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: YOGA_CATEGORIES, example: 'other' })
+  @IsIn(YOGA_CATEGORIES as unknown as string[])
+  category: string;
+
+  @ApiPropertyOptional({ example: 'Jupiter, Venus and Mercury in kendras, trikonas or the 2nd' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({ example: 'Learning, eloquence and skill in the arts' })
+  @IsString()
+  @IsOptional()
+  effects?: string;
+
+  @ApiProperty({
+    description: 'Condition tree (see YogaEngineService for the rule language)',
+    example: {
+      all: [
+        { type: 'placement', planet: 'Jupiter', houses: [1, 2, 4, 5, 7, 9, 10] },
+        { type: 'placement', planet: 'Venus', houses: [1, 2, 4, 5, 7, 9, 10] },
+        { type: 'placement', planet: 'Mercury', houses: [1, 2, 4, 5, 7, 9, 10] },
+      ],
+    },
+  })
+  @IsObject()
+  conditions: YogaCondition;
+
+  @ApiPropertyOptional({ example: 100 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  sort_order?: number;
+
+  @ApiPropertyOptional({ example: true, default: true })
+  @IsBoolean()
+  @IsOptional()
+  is_enabled?: boolean;
+}
+
+export class UpdateYogaRuleDto extends PartialType(OmitType(CreateYogaRuleDto, ['code'] as const)) {}
+
+export class SetYogaRuleEnabledDto {
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  is_enabled: boolean;
+}
+
+export class DetectedYogaDto {
+  @ApiProperty({ example: 'gajakesari' })
+  code: string;
+
+  @ApiProperty({ example: 'Gajakesari Yoga' })
+  name: string;
+
+  @ApiProperty({ enum: YOGA_CATEGORIES, example: 'lunar' })
+  category: string;
+
+  @ApiProperty({ nullable: true })
+  description: string | null;
+
+  @ApiProperty({ nullable: true })
+  effects: string | null;
+
+  @ApiProperty({ type: [String], example: ['Jupiter', 'Moon'] })
+  planets: string[];
+
+  @ApiProperty({ description: 'Strength 0-100 from dignity and Shadbala of the planets involved', example: 72 })
+  strength: number;
+
+  @ApiProperty({ enum: ['strong', 'moderate', 'weak'] })
+  strength_label: string;
+}
+
+export class KundliYogasResponseDto {
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ type: [DetectedYogaDto] })
+  yogas: DetectedYogaDto[];
+}
@@ -23,6 +23,9 @@ export class KundliPlanet extends BaseEntity {
   @Column({ type: 'smallint', name: 'house_number' })
   house_number: number;
 
+  @Column({ type: 'smallint', nullable: true, name: 'rashi_house_number' })
+  rashi_house_number: number | null;
+
   @Column({ type: 'varchar', length: 50, nullable: true, name: 'nakshatra' })
   nakshatra: string | null;
 
@@ -32,6 +35,12 @@ export class KundliPlanet extends BaseEntity {
   @Column({ type: 'boolean', default: false, name: 'is_retrograde' })
   is_retrograde: boolean;
 
+  @Column({ type: 'boolean', default: false, name: 'is_stationary' })
+  is_stationary: boolean;
+
+  @Column({ type: 'boolean', default: false, name: 'is_combust' })
+  is_combust: boolean;
+
   @Column({ type: 'decimal', precision: 12, scale: 8, nullable: true, name: 'speed' })
   speed: number | null;
 
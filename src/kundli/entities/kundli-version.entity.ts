@@ -0,0 +1,71 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { Kundli } from './kundli.entity';
+
+export const KUNDLI_VERSION_REASONS = ['created', 'profile_change', 'recompute', 'backfill'] as const;
+export type KundliVersionReason = (typeof KUNDLI_VERSION_REASONS)[number];
+
+/**
+ * Immutable snapshot of a kundli as cast by one engine version, ayanamsa and
+ * set of birth inputs. A row is written whenever the chart is (re)generated
+ * and never updated afterwards.
+ */
+@Entity('kundli_versions')
+@Index(['kundli_id', 'version'], { unique: true })
+@Index(['user_id', 'is_deleted'])
+export class KundliVersion extends BaseEntity {
+  @Column({ type: 'bigint', name: 'kundli_id' })
+  kundli_id: number;
+
+  @Column({ type: 'bigint', name: 'user_id' })
+  user_id: number;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  reason: KundliVersionReason;
+
+  // Null for the backfilled snapshot of a chart cast before versioning
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'engine_version' })
+  engine_version: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'ayanamsa_name' })
+  ayanamsa_name: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 6, nullable: true })
+  ayanamsa: number | null;
+
+  @Column({ type: 'varchar', length: 20, name: 'house_system' })
+  house_system: string;
+
+  @Column({ type: 'date', name: 'birth_date' })
+  birth_date: string;
+
+  @Column({ type: 'time', name: 'birth_time' })
+  birth_time: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'birth_place' })
+  birth_place: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  longitude: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  timezone: string;
+
+  // Lagna, Moon nakshatra, planets with sign, house and nakshatra, and house cusps
+  @Column({ type: 'jsonb' })
+  chart: Record<string, any>;
+
+  // Vimshottari balance at birth and mahadasha sequence
+  @Column({ type: 'jsonb', nullable: true })
+  dasha: Record<string, any> | null;
+
+  @ManyToOne(() => Kundli, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'kundli_id', referencedColumnName: 'id' })
+  kundli: Kundli;
+}
@@ -4,6 +4,32 @@ import { User } from '../../users/entities/user.entity';
 import { KundliPlanet } from './kundli-planet.entity';
 import { KundliHouse } from './kundli-house.entity';
 
+export interface StoredDashaPeriod {
+  lord: string;
+  start: string; // ISO instant
+  end: string;
+  duration_years: number;
+}
+
+/**
+ * Vimshottari timeline stored on a kundli with the inputs it was computed
+ * from. Kundlis from before it carried them may hold a bare array of
+ * mahadashas instead.
+ */
+export interface KundliDashaTimeline {
+  vimshottari: {
+    birth_datetime_utc: string;
+    moon_longitude: number;
+    balance_at_birth: { lord: string; balance_years: number; elapsed_fraction: number };
+    mahadasha: Array<StoredDashaPeriod & { antardasha: StoredDashaPeriod[] }>;
+    current_mahadasha: string | null;
+    current_antardasha: string | null;
+    current_pratyantar: string | null;
+    current_sookshma: string | null;
+    current_prana: string | null;
+  };
+}
+
 @Entity('kundli')
 @Index(['user_id', 'is_deleted'])
 export class Kundli extends BaseEntity {
@@ -28,6 +54,9 @@ export class Kundli extends BaseEntity {
   @Column({ type: 'varchar', length: 100 })
   timezone: string;
 
+  @Column({ type: 'decimal', precision: 7, scale: 2, nullable: true, name: 'utc_offset_minutes' })
+  utc_offset_minutes: number | null;
+
   @Column({ type: 'decimal', precision: 12, scale: 8, nullable: true, name: 'lagna_degrees' })
   lagna_degrees: number | null;
 
@@ -52,15 +81,38 @@ export class Kundli extends BaseEntity {
   @Column({ type: 'decimal', precision: 10, scale: 6, nullable: true, name: 'ayanamsa' })
   ayanamsa: number | null;
 
+  // AyanamsaMaster slug the chart was cast with; null for kundlis from before the catalog (Lahiri)
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'ayanamsa_name' })
+  ayanamsa_name: string | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'placidus', name: 'house_system' })
+  house_system: string;
+
+  // Number of the latest KundliVersion snapshot; 0 until the first one is written
+  @Column({ type: 'int', default: 0 })
+  version: number;
+
+  // Calculation engine the stored chart was cast with; null for charts from before versioning
+  @Column({ type: 'varchar', length: 50, nullable: true, name: 'engine_version' })
+  engine_version: string | null;
+
   @Column({ type: 'jsonb', nullable: true, name: 'full_data' })
   full_data: Record<string, any> | null;
 
   @Column({ type: 'jsonb', nullable: true, name: 'dasha_timeline' })
-  dasha_timeline: Record<string, any>[] | null;
+  dasha_timeline: KundliDashaTimeline | null;
 
   @Column({ type: 'jsonb', nullable: true, name: 'navamsa_data' })
   navamsa_data: Record<string, any> | null;
 
+  // Divisional charts D1-D60 keyed by code (D9, D10, ...)
+  @Column({ type: 'jsonb', nullable: true, name: 'varga_charts' })
+  varga_charts: Record<string, any> | null;
+
+  // Ashtakavarga bindus and Shadbala of the seven grahas
+  @Column({ type: 'jsonb', nullable: true, name: 'strength_data' })
+  strength_data: Record<string, any> | null;
+
   @ManyToOne(() => User, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
   user: User;
@@ -0,0 +1,48 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+
+/**
+ * Place Master (offline gazetteer)
+ * GeoNames-style city records used to resolve birth places to coordinates
+ * and an IANA timezone without calling an external geocoder.
+ */
+@Entity('place_master')
+@Index(['search_name', 'is_enabled'])
+@Index(['country_code', 'state_name'])
+@Index(['place_name', 'state_name', 'country_code'], { unique: true })
+export class PlaceMaster extends BaseEntity {
+  @Column({ type: 'varchar', length: 150, name: 'place_name' })
+  place_name: string;
+
+  // Lowercase, diacritic-free form of place_name used for matching
+  @Column({ type: 'varchar', length: 150, name: 'search_name' })
+  search_name: string;
+
+  // Former or local names (e.g. Bombay, Madras, Prayag)
+  @Column({ type: 'jsonb', nullable: true, name: 'alternate_names' })
+  alternate_names: string[] | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'state_name' })
+  state_name: string | null;
+
+  @Column({ type: 'varchar', length: 2, name: 'country_code' })
+  country_code: string;
+
+  @Column({ type: 'varchar', length: 100, name: 'country_name' })
+  country_name: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  longitude: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  timezone: string;
+
+  @Column({ type: 'bigint', default: 0 })
+  population: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+}
@@ -0,0 +1,37 @@
+import { Entity, Column, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { YogaCondition } from '../../astrology/services/yoga-engine.service';
+
+@Entity('yoga_rule_master')
+@Index(['category', 'is_enabled'])
+export class YogaRuleMaster extends BaseEntity {
+  @Column({ type: 'varchar', length: 50, unique: true, name: 'code' })
+  code: string;
+
+  @Column({ type: 'varchar', length: 100, name: 'name' })
+  name: string;
+
+  // raja, dhana, mahapurusha, lunar, solar, viparita_raja, neecha_bhanga, parivartana, arishta, other
+  @Column({ type: 'varchar', length: 30, name: 'category' })
+  category: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  effects: string | null;
+
+  // Declarative condition tree evaluated by YogaEngineService
+  @Column({ type: 'jsonb', name: 'conditions' })
+  conditions: YogaCondition;
+
+  @Column({ type: 'int', default: 0, name: 'sort_order' })
+  sort_order: number;
+
+  // Seeded classical rule (admins may disable but the seeder will not recreate it)
+  @Column({ type: 'boolean', default: false, name: 'is_system' })
+  is_system: boolean;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+}
@@ -1,17 +1,42 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { HttpModule } from '@nestjs/axios';
 import { Kundli } from './entities/kundli.entity';
 import { KundliPlanet } from './entities/kundli-planet.entity';
 import { KundliHouse } from './entities/kundli-house.entity';
+import { KundliVersion } from './entities/kundli-version.entity';
 import { PlanetMaster } from './entities/planet-master.entity';
 import { NakshatraMaster } from './entities/nakshatra-master.entity';
 import { AyanamsaMaster } from './entities/ayanamsa-master.entity';
+import { PlaceMaster } from './entities/place-master.entity';
+import { YogaRuleMaster } from './entities/yoga-rule-master.entity';
+import { DashaRecord } from '../database/entities/dasha-record.entity';
+import { AntardashaRecord } from '../database/entities/antardasha-record.entity';
+import { PratyantarDashaRecord } from '../database/entities/pratyantar-dasha-record.entity';
+import { SukshmaDashaRecord } from '../database/entities/sukshma-dasha-record.entity';
 import { CacheModule } from '../cache/cache.module';
 import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
 import { AstrologyModule } from '../astrology/astrology.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 import { KundliService } from './services/kundli.service';
+import { PlaceSearchService } from './services/place-search.service';
+import { KundliDashaService } from './services/kundli-dasha.service';
+import { KundliVargaService } from './services/kundli-varga.service';
+import { KundliStrengthService } from './services/kundli-strength.service';
+import { YogaRuleService } from './services/yoga-rule.service';
+import { KundliGocharService } from './services/kundli-gochar.service';
+import { KundliChartService } from './services/kundli-chart.service';
+import { KundliVarshaphalService } from './services/kundli-varshaphal.service';
+import { KundliKpService } from './services/kundli-kp.service';
+import { KundliAyanamsaService } from './services/kundli-ayanamsa.service';
+import { KundliVersionService } from './services/kundli-version.service';
+import { KundliRecomputeService } from './services/kundli-recompute.service';
+import { SeedPlaceMasterDataService } from './seeds/seed-place-master-data.service';
+import { ImportGeonamesPlacesService } from './seeds/import-geonames-places.service';
+import { SeedYogaRuleMasterDataService } from './seeds/seed-yoga-rule-master-data.service';
+import { SeedAyanamsaMasterDataService } from './seeds/seed-ayanamsa-master-data.service';
 import { KundliController } from './controllers/kundli.controller';
+import { AdminYogaRulesController } from './controllers/admin/admin-yoga-rules.controller';
+import { AdminKundliController } from './controllers/admin/admin-kundli.controller';
 
 @Module({
   imports: [
@@ -19,18 +44,56 @@ import { KundliController } from './controllers/kundli.controller';
       Kundli,
       KundliPlanet,
       KundliHouse,
+      KundliVersion,
       PlanetMaster,
       NakshatraMaster,
       AyanamsaMaster,
+      PlaceMaster,
+      YogaRuleMaster,
+      DashaRecord,
+      AntardashaRecord,
+      PratyantarDashaRecord,
+      SukshmaDashaRecord,
     ]),
-    HttpModule,
     CacheModule,
     RepositoriesModule,
     AstrologyModule,
+    SubscriptionsModule,
+  ],
+  controllers: [KundliController, AdminYogaRulesController, AdminKundliController],
+  providers: [
+    KundliService,
+    PlaceSearchService,
+    KundliDashaService,
+    KundliVargaService,
+    KundliStrengthService,
+    YogaRuleService,
+    KundliGocharService,
+    KundliChartService,
+    KundliVarshaphalService,
+    KundliKpService,
+    KundliAyanamsaService,
+    KundliVersionService,
+    KundliRecomputeService,
+    SeedPlaceMasterDataService,
+    ImportGeonamesPlacesService,
+    SeedYogaRuleMasterDataService,
+    SeedAyanamsaMasterDataService,
+  ],
+  exports: [
+    KundliService,
+    PlaceSearchService,
+    KundliDashaService,
+    KundliVargaService,
+    KundliStrengthService,
+    YogaRuleService,
+    KundliGocharService,
+    KundliChartService,
+    KundliVarshaphalService,
+    KundliKpService,
+    KundliAyanamsaService,
+    KundliVersionService,
   ],
-  controllers: [KundliController],
-  providers: [KundliService],
-  exports: [KundliService],
 })
 export class KundliModule {}
 
@@ -0,0 +1,25 @@
+import { AYANAMSA_MODELS, DEFAULT_AYANAMSA } from '../../astrology/services/ayanamsa.service';
+
+/**
+ * Ayanamsa catalog rows, one per model implemented by AyanamsaService.
+ * Seeded once by slug; admins may disable a row or change the default.
+ */
+
+export interface AyanamsaSeedRow {
+  ayanamsa_name: string;
+  display_name: string;
+  description: string;
+  is_default: boolean;
+  metadata: { legacy_code: number | null; model: 'epoch' | 'star' | 'tropical' };
+}
+
+export const AYANAMSA_SEED_DATA: AyanamsaSeedRow[] = AYANAMSA_MODELS.map((model) => ({
+  ayanamsa_name: model.name,
+  display_name: model.display_name,
+  description: model.description,
+  is_default: model.name === DEFAULT_AYANAMSA,
+  metadata: {
+    legacy_code: model.legacy_code ?? null,
+    model: model.tropical ? 'tropical' : model.star ? 'star' : 'epoch',
+  },
+}));
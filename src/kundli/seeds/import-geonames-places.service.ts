@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { PlaceMaster } from '../entities/place-master.entity';
+import { PlaceSearchService, normalizePlaceName } from '../services/place-search.service';
+import { COUNTRY_NAMES } from './place-master.data';
+
+/**
+ * GeoNames gazetteer import
+ *
+ * Loads the GeoNames city dumps (https://download.geonames.org/export/dump/)
+ * into place_master:
+ * - cities5000.txt (or cities500/1000/15000): one populated place per line
+ * - admin1CodesASCII.txt: state names by "IN.16" style code
+ * - countryInfo.txt (optional): country names by ISO code
+ *
+ * Places that share a name within a state keep only the most populous one,
+ * matching the unique (place_name, state_name, country_code) index. Existing
+ * rows are matched by that key and updated by id (a NULL state never conflicts
+ * in the index), so the import can be re-run on a newer dump.
+ */
+
+export interface GeonamesImportOptions {
+  citiesFile: string;
+  admin1File: string;
+  countryInfoFile?: string;
+  minPopulation?: number;
+  countries?: string[]; // ISO codes; all countries when empty
+}
+
+export interface GeonamesImportResult {
+  read: number;
+  imported: number;
+  skipped: number;
+}
+
+// Columns of the GeoNames "geoname" table
+const COLUMN = {
+  geonameId: 0,
+  name: 1,
+  asciiName: 2,
+  alternateNames: 3,
+  latitude: 4,
+  longitude: 5,
+  featureClass: 6,
+  countryCode: 8,
+  admin1: 10,
+  population: 14,
+  timezone: 17,
+};
+
+// Latin-script alternate names kept per place (GeoNames lists every language)
+const MAX_ALTERNATE_NAMES = 5;
+
+const UPSERT_CHUNK = 500;
+
+@Injectable()
+export class ImportGeonamesPlacesService {
+  private readonly logger = new Logger(ImportGeonamesPlacesService.name);
+
+  constructor(
+    @InjectRepository(PlaceMaster)
+    private readonly placeRepository: Repository<PlaceMaster>,
+    private readonly placeSearchService: PlaceSearchService,
+  ) {}
+
+  async import(options: GeonamesImportOptions): Promise<GeonamesImportResult> {
+    const minPopulation = options.minPopulation ?? 0;
+    const countries = new Set((options.countries || []).map((c) => c.toUpperCase()));
+    const states = await this.readAdmin1Names(options.admin1File);
+    const countryNames = options.countryInfoFile ? await this.readCountryNames(options.countryInfoFile) : {};
+
+    const places = new Map<string, Partial<PlaceMaster>>();
+    let read = 0;
+    let skipped = 0;
+
+    for await (const line of this.readLines(options.citiesFile)) {
+      if (!line) continue;
+      read++;
+
+      const row = line.split('\t');
+      const countryCode = row[COLUMN.countryCode];
+      const population = parseInt(row[COLUMN.population], 10) || 0;
+      const timezone = row[COLUMN.timezone];
+      const name = row[COLUMN.name];
+
+      if (
+        row[COLUMN.featureClass] !== 'P' ||
+        !timezone ||
+        timezone.length > 50 ||
+        !name ||
+        name.length > 150 ||
+        population < minPopulation ||
+        (countries.size > 0 && !countries.has(countryCode))
+      ) {
+        skipped++;
+        continue;
+      }
+
+      const state = states[`${countryCode}.${row[COLUMN.admin1]}`]?.slice(0, 100) || null;
+      const key = `${name}|${state || ''}|${countryCode}`.toLowerCase();
+      const existing = places.get(key);
+      if (existing && Number(existing.population) >= population) {
+        skipped++;
+        continue;
+      }
+
+      places.set(key, {
+        place_name: name,
+        search_name: normalizePlaceName(name),
+        alternate_names: this.pickAlternateNames(name, row[COLUMN.asciiName], row[COLUMN.alternateNames]),
+        state_name: state,
+        country_code: countryCode,
+        country_name: countryNames[countryCode] || COUNTRY_NAMES[countryCode] || countryCode,
+        latitude: Number(row[COLUMN.latitude]),
+        longitude: Number(row[COLUMN.longitude]),
+        timezone,
+        population,
+        is_enabled: true,
+        is_deleted: false,
+        metadata: { source: 'geonames', geoname_id: Number(row[COLUMN.geonameId]) },
+      });
+    }
+
+    const existing = await this.placeRepository.find({
+      select: ['id', 'place_name', 'state_name', 'country_code'],
+    });
+    const existingIds = new Map(
+      existing.map((p) => [`${p.place_name}|${p.state_name || ''}|${p.country_code}`.toLowerCase(), p.id]),
+    );
+    const rows = [...places.entries()].map(([key, place]) =>
+      existingIds.has(key) ? { ...place, id: existingIds.get(key) } : place,
+    );
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK) {
+      await this.placeRepository
+        .createQueryBuilder()
+        .insert()
+        .into(PlaceMaster)
+        .values(rows.slice(i, i + UPSERT_CHUNK))
+        .orUpdate(
+          [
+            'search_name',
+            'alternate_names',
+            'country_name',
+            'latitude',
+            'longitude',
+            'timezone',
+            'population',
+            'is_enabled',
+            'is_deleted',
+            'metadata',
+          ],
+          ['id'],
+        )
+        .execute();
+    }
+
+    this.placeSearchService.invalidateIndex();
+    this.logger.log(`Imported ${rows.length} GeoNames places (${read} read, ${skipped} skipped)`);
+    return { read, imported: rows.length, skipped };
+  }
+
+  /**
+   * Distinct Latin-script alternate names, so "Bombay" finds Mumbai
+   */
+  private pickAlternateNames(name: string, asciiName: string, alternateNames: string): string[] | null {
+    const seen = new Set([normalizePlaceName(name)]);
+    const names: string[] = [];
+
+    for (const candidate of [asciiName, ...(alternateNames || '').split(',')]) {
+      const normalized = normalizePlaceName(candidate);
+      if (!normalized || seen.has(normalized) || candidate.length > 60 || !/^[\x20-\x7E]+$/.test(candidate)) {
+        continue;
+      }
+      seen.add(normalized);
+      names.push(candidate);
+      if (names.length === MAX_ALTERNATE_NAMES) break;
+    }
+
+    return names.length ? names : null;
+  }
+
+  private async readAdmin1Names(file: string): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    for await (const line of this.readLines(file)) {
+      const [code, name] = line.split('\t');
+      if (code && name) {
+        names[code] = name;
+      }
+    }
+    return names;
+  }
+
+  private async readCountryNames(file: string): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    for await (const line of this.readLines(file)) {
+      if (line.startsWith('#')) continue;
+      const row = line.split('\t');
+      if (row[0] && row[4]) {
+        names[row[0]] = row[4];
+      }
+    }
+    return names;
+  }
+
+  private readLines(file: string): readline.Interface {
+    return readline.createInterface({ input: fs.createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  }
+}
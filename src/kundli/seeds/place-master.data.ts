@@ -0,0 +1,356 @@
+/**
+ * Gazetteer seed data
+ *
+ * Major Indian cities (all state/UT capitals plus large and pilgrimage towns)
+ * and cities with large Indian diaspora populations. Coordinates, IANA
+ * timezones and approximate populations follow GeoNames.
+ *
+ * This is only the bootstrap set seeded on startup; production loads the
+ * full GeoNames dump with `npm run db:import-places` (ImportGeonamesPlacesService).
+ *
+ * Tuple layout: [name, state, country code, latitude, longitude, timezone, population, alternate names]
+ */
+
+export type PlaceSeedRow = [string, string | null, string, number, number, string, number, string[]?];
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  IN: 'India',
+  NP: 'Nepal',
+  BD: 'Bangladesh',
+  PK: 'Pakistan',
+  LK: 'Sri Lanka',
+  BT: 'Bhutan',
+  MV: 'Maldives',
+  AF: 'Afghanistan',
+  AE: 'United Arab Emirates',
+  OM: 'Oman',
+  QA: 'Qatar',
+  SA: 'Saudi Arabia',
+  KW: 'Kuwait',
+  BH: 'Bahrain',
+  SG: 'Singapore',
+  MY: 'Malaysia',
+  TH: 'Thailand',
+  ID: 'Indonesia',
+  HK: 'Hong Kong',
+  CN: 'China',
+  JP: 'Japan',
+  KR: 'South Korea',
+  PH: 'Philippines',
+  MM: 'Myanmar',
+  GB: 'United Kingdom',
+  IE: 'Ireland',
+  FR: 'France',
+  DE: 'Germany',
+  NL: 'Netherlands',
+  IT: 'Italy',
+  ES: 'Spain',
+  CH: 'Switzerland',
+  RU: 'Russia',
+  TR: 'Turkey',
+  KE: 'Kenya',
+  ZA: 'South Africa',
+  NG: 'Nigeria',
+  EG: 'Egypt',
+  MU: 'Mauritius',
+  FJ: 'Fiji',
+  US: 'United States',
+  CA: 'Canada',
+  AU: 'Australia',
+  NZ: 'New Zealand',
+  MX: 'Mexico',
+  BR: 'Brazil',
+  AR: 'Argentina',
+  TT: 'Trinidad and Tobago',
+  GY: 'Guyana',
+  SR: 'Suriname',
+};
+
+const IST = 'Asia/Kolkata';
+
+export const PLACE_SEED_DATA: PlaceSeedRow[] = [
+  // India
+  ['Mumbai', 'Maharashtra', 'IN', 19.076, 72.8777, IST, 12442373, ['Bombay']],
+  ['Delhi', 'Delhi', 'IN', 28.7041, 77.1025, IST, 11034555],
+  ['New Delhi', 'Delhi', 'IN', 28.6139, 77.209, IST, 249998],
+  ['Bengaluru', 'Karnataka', 'IN', 12.9716, 77.5946, IST, 8443675, ['Bangalore']],
+  ['Hyderabad', 'Telangana', 'IN', 17.385, 78.4867, IST, 6993262, ['Bhagyanagar']],
+  ['Ahmedabad', 'Gujarat', 'IN', 23.0225, 72.5714, IST, 5577940, ['Amdavad']],
+  ['Chennai', 'Tamil Nadu', 'IN', 13.0827, 80.2707, IST, 4646732, ['Madras']],
+  ['Kolkata', 'West Bengal', 'IN', 22.5726, 88.3639, IST, 4496694, ['Calcutta']],
+  ['Surat', 'Gujarat', 'IN', 21.1702, 72.8311, IST, 4467797],
+  ['Pune', 'Maharashtra', 'IN', 18.5204, 73.8567, IST, 3124458, ['Poona']],
+  ['Jaipur', 'Rajasthan', 'IN', 26.9124, 75.7873, IST, 3046163],
+  ['Lucknow', 'Uttar Pradesh', 'IN', 26.8467, 80.9462, IST, 2817105],
+  ['Kanpur', 'Uttar Pradesh', 'IN', 26.4499, 80.3319, IST, 2767031, ['Cawnpore']],
+  ['Nagpur', 'Maharashtra', 'IN', 21.1458, 79.0882, IST, 2405665],
+  ['Indore', 'Madhya Pradesh', 'IN', 22.7196, 75.8577, IST, 1964086],
+  ['Thane', 'Maharashtra', 'IN', 19.2183, 72.9781, IST, 1841488],
+  ['Bhopal', 'Madhya Pradesh', 'IN', 23.2599, 77.4126, IST, 1798218],
+  ['Visakhapatnam', 'Andhra Pradesh', 'IN', 17.6868, 83.2185, IST, 1728128, ['Vizag', 'Vishakhapatnam']],
+  ['Patna', 'Bihar', 'IN', 25.5941, 85.1376, IST, 1684222],
+  ['Vadodara', 'Gujarat', 'IN', 22.3072, 73.1812, IST, 1670806, ['Baroda']],
+  ['Ghaziabad', 'Uttar Pradesh', 'IN', 28.6692, 77.4538, IST, 1648643],
+  ['Ludhiana', 'Punjab', 'IN', 30.901, 75.8573, IST, 1618879],
+  ['Agra', 'Uttar Pradesh', 'IN', 27.1767, 78.0081, IST, 1585704],
+  ['Nashik', 'Maharashtra', 'IN', 19.9975, 73.7898, IST, 1486053, ['Nasik']],
+  ['Faridabad', 'Haryana', 'IN', 28.4089, 77.3178, IST, 1414050],
+  ['Meerut', 'Uttar Pradesh', 'IN', 28.9845, 77.7064, IST, 1305429],
+  ['Rajkot', 'Gujarat', 'IN', 22.3039, 70.8022, IST, 1286678],
+  ['Varanasi', 'Uttar Pradesh', 'IN', 25.3176, 82.9739, IST, 1198491, ['Benares', 'Banaras', 'Kashi']],
+  ['Srinagar', 'Jammu and Kashmir', 'IN', 34.0837, 74.7973, IST, 1180570],
+  ['Aurangabad', 'Maharashtra', 'IN', 19.8762, 75.3433, IST, 1175116, ['Chhatrapati Sambhajinagar']],
+  ['Aurangabad', 'Bihar', 'IN', 24.7521, 84.3742, IST, 102244],
+  ['Dhanbad', 'Jharkhand', 'IN', 23.7957, 86.4304, IST, 1162472],
+  ['Amritsar', 'Punjab', 'IN', 31.634, 74.8723, IST, 1132761],
+  ['Navi Mumbai', 'Maharashtra', 'IN', 19.033, 73.0297, IST, 1119477, ['New Bombay']],
+  ['Prayagraj', 'Uttar Pradesh', 'IN', 25.4358, 81.8463, IST, 1117094, ['Allahabad', 'Prayag']],
+  ['Ranchi', 'Jharkhand', 'IN', 23.3441, 85.3096, IST, 1073427],
+  ['Howrah', 'West Bengal', 'IN', 22.5958, 88.2636, IST, 1072161],
+  ['Coimbatore', 'Tamil Nadu', 'IN', 11.0168, 76.9558, IST, 1050721, ['Kovai']],
+  ['Jabalpur', 'Madhya Pradesh', 'IN', 23.1815, 79.9864, IST, 1055525],
+  ['Gwalior', 'Madhya Pradesh', 'IN', 26.2183, 78.1828, IST, 1054420],
+  ['Vijayawada', 'Andhra Pradesh', 'IN', 16.5062, 80.648, IST, 1048240, ['Bezawada']],
+  ['Jodhpur', 'Rajasthan', 'IN', 26.2389, 73.0243, IST, 1033756],
+  ['Madurai', 'Tamil Nadu', 'IN', 9.9252, 78.1198, IST, 1017865],
+  ['Raipur', 'Chhattisgarh', 'IN', 21.2514, 81.6296, IST, 1010087],
+  ['Kota', 'Rajasthan', 'IN', 25.2138, 75.8648, IST, 1001694],
+  ['Guwahati', 'Assam', 'IN', 26.1445, 91.7362, IST, 957352, ['Gauhati']],
+  ['Dispur', 'Assam', 'IN', 26.1433, 91.7898, IST, 16000],
+  ['Chandigarh', 'Chandigarh', 'IN', 30.7333, 76.7794, IST, 960787],
+  ['Solapur', 'Maharashtra', 'IN', 17.6599, 75.9064, IST, 951118, ['Sholapur']],
+  ['Hubballi', 'Karnataka', 'IN', 15.3647, 75.124, IST, 943857, ['Hubli', 'Hubli-Dharwad']],
+  ['Mysuru', 'Karnataka', 'IN', 12.2958, 76.6394, IST, 887446, ['Mysore']],
+  ['Tiruchirappalli', 'Tamil Nadu', 'IN', 10.7905, 78.7047, IST, 847387, ['Trichy', 'Tiruchi']],
+  ['Bareilly', 'Uttar Pradesh', 'IN', 28.367, 79.4304, IST, 903668],
+  ['Aligarh', 'Uttar Pradesh', 'IN', 27.8974, 78.088, IST, 874408],
+  ['Moradabad', 'Uttar Pradesh', 'IN', 28.8386, 78.7733, IST, 887871],
+  ['Gurugram', 'Haryana', 'IN', 28.4595, 77.0266, IST, 876824, ['Gurgaon']],
+  ['Jalandhar', 'Punjab', 'IN', 31.326, 75.5762, IST, 862886, ['Jullundur']],
+  ['Bhubaneswar', 'Odisha', 'IN', 20.2961, 85.8245, IST, 837737],
+  ['Salem', 'Tamil Nadu', 'IN', 11.6643, 78.146, IST, 826267],
+  ['Warangal', 'Telangana', 'IN', 17.9689, 79.5941, IST, 811844],
+  ['Thiruvananthapuram', 'Kerala', 'IN', 8.5241, 76.9366, IST, 752490, ['Trivandrum']],
+  ['Guntur', 'Andhra Pradesh', 'IN', 16.3067, 80.4365, IST, 743354],
+  ['Amaravati', 'Andhra Pradesh', 'IN', 16.5131, 80.5165, IST, 103000],
+  ['Gorakhpur', 'Uttar Pradesh', 'IN', 26.7606, 83.3732, IST, 673446],
+  ['Amravati', 'Maharashtra', 'IN', 20.9374, 77.7796, IST, 647057],
+  ['Bikaner', 'Rajasthan', 'IN', 28.0229, 73.3119, IST, 644406],
+  ['Noida', 'Uttar Pradesh', 'IN', 28.5355, 77.391, IST, 642381],
+  ['Jamshedpur', 'Jharkhand', 'IN', 22.8046, 86.2029, IST, 629659, ['Tatanagar']],
+  ['Bhilai', 'Chhattisgarh', 'IN', 21.1938, 81.3509, IST, 625697],
+  ['Cuttack', 'Odisha', 'IN', 20.4625, 85.883, IST, 606007],
+  ['Kochi', 'Kerala', 'IN', 9.9312, 76.2673, IST, 602046, ['Cochin', 'Ernakulam']],
+  ['Jamnagar', 'Gujarat', 'IN', 22.4707, 70.0577, IST, 600943],
+  ['Bhavnagar', 'Gujarat', 'IN', 21.7645, 72.1519, IST, 593368],
+  ['Dehradun', 'Uttarakhand', 'IN', 30.3165, 78.0322, IST, 578420, ['Dehra Dun']],
+  ['Durgapur', 'West Bengal', 'IN', 23.5204, 87.3119, IST, 566517],
+  ['Asansol', 'West Bengal', 'IN', 23.6739, 86.9524, IST, 563917],
+  ['Nanded', 'Maharashtra', 'IN', 19.1383, 77.321, IST, 550564],
+  ['Kolhapur', 'Maharashtra', 'IN', 16.705, 74.2433, IST, 549236],
+  ['Kalaburagi', 'Karnataka', 'IN', 17.3297, 76.8343, IST, 543147, ['Gulbarga']],
+  ['Ajmer', 'Rajasthan', 'IN', 26.4499, 74.6399, IST, 542321],
+  ['Ujjain', 'Madhya Pradesh', 'IN', 23.1765, 75.7885, IST, 515215, ['Avantika']],
+  ['Siliguri', 'West Bengal', 'IN', 26.7271, 88.3953, IST, 513264],
+  ['Jhansi', 'Uttar Pradesh', 'IN', 25.4484, 78.5685, IST, 505693],
+  ['Jammu', 'Jammu and Kashmir', 'IN', 32.7266, 74.857, IST, 502197],
+  ['Nellore', 'Andhra Pradesh', 'IN', 14.4426, 79.9865, IST, 499575],
+  ['Belagavi', 'Karnataka', 'IN', 15.8497, 74.4977, IST, 488157, ['Belgaum']],
+  ['Mangaluru', 'Karnataka', 'IN', 12.9141, 74.856, IST, 484785, ['Mangalore']],
+  ['Tirunelveli', 'Tamil Nadu', 'IN', 8.7139, 77.7567, IST, 473637],
+  ['Gaya', 'Bihar', 'IN', 24.7914, 85.0002, IST, 470839, ['Bodh Gaya']],
+  ['Jalgaon', 'Maharashtra', 'IN', 21.0077, 75.5626, IST, 460228],
+  ['Udaipur', 'Rajasthan', 'IN', 24.5854, 73.7125, IST, 451100],
+  ['Tiruppur', 'Tamil Nadu', 'IN', 11.1085, 77.3411, IST, 444352],
+  ['Mathura', 'Uttar Pradesh', 'IN', 27.4924, 77.6737, IST, 441894, ['Vrindavan']],
+  ['Davanagere', 'Karnataka', 'IN', 14.4644, 75.9218, IST, 435128],
+  ['Kozhikode', 'Kerala', 'IN', 11.2588, 75.7804, IST, 431560, ['Calicut']],
+  ['Akola', 'Maharashtra', 'IN', 20.7002, 77.0082, IST, 427146],
+  ['Kurnool', 'Andhra Pradesh', 'IN', 15.8281, 78.0373, IST, 424920],
+  ['Bokaro', 'Jharkhand', 'IN', 23.6693, 86.1511, IST, 414820, ['Bokaro Steel City']],
+  ['Ballari', 'Karnataka', 'IN', 15.1394, 76.9214, IST, 410445, ['Bellary']],
+  ['Patiala', 'Punjab', 'IN', 30.3398, 76.3869, IST, 406192],
+  ['Agartala', 'Tripura', 'IN', 23.8315, 91.2868, IST, 400004],
+  ['Bhagalpur', 'Bihar', 'IN', 25.2425, 86.9842, IST, 400146],
+  ['Muzaffarpur', 'Bihar', 'IN', 26.1209, 85.3647, IST, 393724],
+  ['Latur', 'Maharashtra', 'IN', 18.4088, 76.5604, IST, 382940],
+  ['Rohtak', 'Haryana', 'IN', 28.8955, 76.6066, IST, 374292],
+  ['Kollam', 'Kerala', 'IN', 8.8932, 76.6141, IST, 349033, ['Quilon']],
+  ['Rajahmundry', 'Andhra Pradesh', 'IN', 17.0005, 81.804, IST, 341831, ['Rajamahendravaram']],
+  ['Alwar', 'Rajasthan', 'IN', 27.553, 76.6346, IST, 341422],
+  ['Bilaspur', 'Chhattisgarh', 'IN', 22.0797, 82.1409, IST, 330106],
+  ['Shivamogga', 'Karnataka', 'IN', 13.9299, 75.5681, IST, 322650, ['Shimoga']],
+  ['Rourkela', 'Odisha', 'IN', 22.2604, 84.8536, IST, 320040],
+  ['Junagadh', 'Gujarat', 'IN', 21.5222, 70.4579, IST, 319462],
+  ['Thrissur', 'Kerala', 'IN', 10.5276, 76.2144, IST, 315957, ['Trichur']],
+  ['Kakinada', 'Andhra Pradesh', 'IN', 16.9891, 82.2475, IST, 312538],
+  ['Nizamabad', 'Telangana', 'IN', 18.6725, 78.0941, IST, 311152],
+  ['Hisar', 'Haryana', 'IN', 29.1492, 75.7217, IST, 301249, ['Hissar']],
+  ['Darbhanga', 'Bihar', 'IN', 26.1542, 85.8918, IST, 296039],
+  ['Panipat', 'Haryana', 'IN', 29.3909, 76.9635, IST, 294292],
+  ['Aizawl', 'Mizoram', 'IN', 23.7271, 92.7176, IST, 293416],
+  ['Tirupati', 'Andhra Pradesh', 'IN', 13.6288, 79.4192, IST, 287035, ['Tirumala']],
+  ['Karnal', 'Haryana', 'IN', 29.6857, 76.9905, IST, 286974],
+  ['Bathinda', 'Punjab', 'IN', 30.211, 74.9455, IST, 285813, ['Bhatinda']],
+  ['Satna', 'Madhya Pradesh', 'IN', 24.6005, 80.8322, IST, 280222],
+  ['Sagar', 'Madhya Pradesh', 'IN', 23.8388, 78.7378, IST, 274556, ['Saugor']],
+  ['Imphal', 'Manipur', 'IN', 24.817, 93.9368, IST, 264986],
+  ['Anantapur', 'Andhra Pradesh', 'IN', 14.6819, 77.6006, IST, 262340, ['Anantapuramu']],
+  ['Karimnagar', 'Telangana', 'IN', 18.4386, 79.1288, IST, 261185],
+  ['Bharatpur', 'Rajasthan', 'IN', 27.2152, 77.493, IST, 252838],
+  ['Puducherry', 'Puducherry', 'IN', 11.9416, 79.8083, IST, 244377, ['Pondicherry', 'Pondy']],
+  ['Sikar', 'Rajasthan', 'IN', 27.6094, 75.1398, IST, 244497],
+  ['Rewa', 'Madhya Pradesh', 'IN', 24.5362, 81.3037, IST, 235654],
+  ['Mirzapur', 'Uttar Pradesh', 'IN', 25.1337, 82.5644, IST, 233691],
+  ['Kannur', 'Kerala', 'IN', 11.8745, 75.3704, IST, 232486, ['Cannanore']],
+  ['Haridwar', 'Uttarakhand', 'IN', 29.9457, 78.1642, IST, 228832, ['Hardwar']],
+  ['Nadiad', 'Gujarat', 'IN', 22.6916, 72.8634, IST, 225071],
+  ['Thanjavur', 'Tamil Nadu', 'IN', 10.787, 79.1378, IST, 222943, ['Tanjore']],
+  ['Gandhinagar', 'Gujarat', 'IN', 23.2156, 72.6369, IST, 208299],
+  ['Puri', 'Odisha', 'IN', 19.8135, 85.8312, IST, 201026, ['Jagannath Puri']],
+  ['Anand', 'Gujarat', 'IN', 22.5645, 72.9289, IST, 197351],
+  ['Vellore', 'Tamil Nadu', 'IN', 12.9165, 79.1325, IST, 185803],
+  ['Sambalpur', 'Odisha', 'IN', 21.4669, 83.9812, IST, 183383],
+  ['Silchar', 'Assam', 'IN', 24.8333, 92.7789, IST, 172709],
+  ['Shimla', 'Himachal Pradesh', 'IN', 31.1048, 77.1734, IST, 169578, ['Simla']],
+  ['Udupi', 'Karnataka', 'IN', 13.3409, 74.7421, IST, 165401],
+  ['Kurukshetra', 'Haryana', 'IN', 29.9695, 76.8783, IST, 164208, ['Thanesar']],
+  ['Erode', 'Tamil Nadu', 'IN', 11.341, 77.7172, IST, 157101],
+  ['Haldwani', 'Uttarakhand', 'IN', 29.2183, 79.513, IST, 156078],
+  ['Dibrugarh', 'Assam', 'IN', 27.4728, 94.912, IST, 154296],
+  ['Porbandar', 'Gujarat', 'IN', 21.6417, 69.6293, IST, 152760],
+  ['Bhuj', 'Gujarat', 'IN', 23.242, 69.6669, IST, 148834],
+  ['Shillong', 'Meghalaya', 'IN', 25.5788, 91.8933, IST, 143229],
+  ['Palakkad', 'Kerala', 'IN', 10.7867, 76.6548, IST, 130955, ['Palghat']],
+  ['Jorhat', 'Assam', 'IN', 26.7509, 94.2037, IST, 126736],
+  ['Panaji', 'Goa', 'IN', 15.4909, 73.8278, IST, 114405, ['Panjim']],
+  ['Margao', 'Goa', 'IN', 15.2832, 73.9862, IST, 106484, ['Madgaon']],
+  ['Port Blair', 'Andaman and Nicobar Islands', 'IN', 11.6234, 92.7265, IST, 108058, ['Sri Vijaya Puram']],
+  ['Rishikesh', 'Uttarakhand', 'IN', 30.0869, 78.2676, IST, 102138],
+  ['Gangtok', 'Sikkim', 'IN', 27.3389, 88.6065, IST, 100286],
+  ['Kohima', 'Nagaland', 'IN', 25.6751, 94.1086, IST, 99039],
+  ['Veraval', 'Gujarat', 'IN', 20.9159, 70.3629, IST, 153696, ['Somnath', 'Prabhas Patan']],
+  ['Jaisalmer', 'Rajasthan', 'IN', 26.9157, 70.9083, IST, 65471],
+  ['Itanagar', 'Arunachal Pradesh', 'IN', 27.0844, 93.6053, IST, 59490],
+  ['Ayodhya', 'Uttar Pradesh', 'IN', 26.7922, 82.1998, IST, 55890, ['Faizabad']],
+  ['Rameswaram', 'Tamil Nadu', 'IN', 9.2876, 79.3129, IST, 44856],
+  ['Nainital', 'Uttarakhand', 'IN', 29.3803, 79.4636, IST, 41377],
+  ['Dwarka', 'Gujarat', 'IN', 22.2394, 68.9678, IST, 38873],
+  ['Leh', 'Ladakh', 'IN', 34.1526, 77.5771, IST, 30870],
+  ['Dharamshala', 'Himachal Pradesh', 'IN', 32.219, 76.3234, IST, 30764, ['Dharamsala']],
+  ['Kanyakumari', 'Tamil Nadu', 'IN', 8.0883, 77.5385, IST, 22453, ['Cape Comorin']],
+  ['Pushkar', 'Rajasthan', 'IN', 26.4897, 74.5511, IST, 21626],
+  ['Manali', 'Himachal Pradesh', 'IN', 32.2432, 77.1892, IST, 8096],
+  ['Kavaratti', 'Lakshadweep', 'IN', 10.5593, 72.6358, IST, 11221],
+  ['Daman', 'Dadra and Nagar Haveli and Daman and Diu', 'IN', 20.3974, 72.8328, IST, 39737],
+  ['Silvassa', 'Dadra and Nagar Haveli and Daman and Diu', 'IN', 20.2738, 72.9966, IST, 98265],
+
+  // South Asia
+  ['Kathmandu', 'Bagmati', 'NP', 27.7172, 85.324, 'Asia/Kathmandu', 1442271],
+  ['Pokhara', 'Gandaki', 'NP', 28.2096, 83.9856, 'Asia/Kathmandu', 518452],
+  ['Dhaka', 'Dhaka', 'BD', 23.8103, 90.4125, 'Asia/Dhaka', 8906039, ['Dacca']],
+  ['Chittagong', 'Chittagong', 'BD', 22.3569, 91.7832, 'Asia/Dhaka', 3920222, ['Chattogram']],
+  ['Karachi', 'Sindh', 'PK', 24.8607, 67.0011, 'Asia/Karachi', 14910352],
+  ['Lahore', 'Punjab', 'PK', 31.5204, 74.3587, 'Asia/Karachi', 11126285],
+  ['Islamabad', 'Islamabad Capital Territory', 'PK', 33.6844, 73.0479, 'Asia/Karachi', 1014825],
+  ['Hyderabad', 'Sindh', 'PK', 25.396, 68.3578, 'Asia/Karachi', 1732693],
+  ['Rawalpindi', 'Punjab', 'PK', 33.5651, 73.0169, 'Asia/Karachi', 2098231],
+  ['Colombo', 'Western', 'LK', 6.9271, 79.8612, 'Asia/Colombo', 752993],
+  ['Jaffna', 'Northern', 'LK', 9.6615, 80.0255, 'Asia/Colombo', 88138],
+  ['Thimphu', 'Thimphu', 'BT', 27.4728, 89.639, 'Asia/Thimphu', 114551],
+  ['Male', 'Male', 'MV', 4.1755, 73.5093, 'Indian/Maldives', 133412],
+  ['Kabul', 'Kabul', 'AF', 34.5553, 69.2075, 'Asia/Kabul', 4434550],
+
+  // Middle East
+  ['Dubai', 'Dubai', 'AE', 25.2048, 55.2708, 'Asia/Dubai', 3331420],
+  ['Abu Dhabi', 'Abu Dhabi', 'AE', 24.4539, 54.3773, 'Asia/Dubai', 1483000],
+  ['Sharjah', 'Sharjah', 'AE', 25.3463, 55.4209, 'Asia/Dubai', 1274749],
+  ['Muscat', 'Muscat', 'OM', 23.588, 58.3829, 'Asia/Muscat', 1294101],
+  ['Doha', 'Doha', 'QA', 25.2854, 51.531, 'Asia/Qatar', 956460],
+  ['Riyadh', 'Riyadh', 'SA', 24.7136, 46.6753, 'Asia/Riyadh', 7676654],
+  ['Jeddah', 'Makkah', 'SA', 21.4858, 39.1925, 'Asia/Riyadh', 4697000],
+  ['Kuwait City', 'Al Asimah', 'KW', 29.3759, 47.9774, 'Asia/Kuwait', 2989000],
+  ['Manama', 'Capital', 'BH', 26.2285, 50.586, 'Asia/Bahrain', 157474],
+
+  // East and Southeast Asia
+  ['Singapore', null, 'SG', 1.3521, 103.8198, 'Asia/Singapore', 5685807],
+  ['Kuala Lumpur', 'Kuala Lumpur', 'MY', 3.139, 101.6869, 'Asia/Kuala_Lumpur', 1808000],
+  ['Bangkok', 'Bangkok', 'TH', 13.7563, 100.5018, 'Asia/Bangkok', 10539000],
+  ['Jakarta', 'Jakarta', 'ID', -6.2088, 106.8456, 'Asia/Jakarta', 10562088],
+  ['Hong Kong', null, 'HK', 22.3193, 114.1694, 'Asia/Hong_Kong', 7482500],
+  ['Shanghai', 'Shanghai', 'CN', 31.2304, 121.4737, 'Asia/Shanghai', 24870895],
+  ['Beijing', 'Beijing', 'CN', 39.9042, 116.4074, 'Asia/Shanghai', 21893095, ['Peking']],
+  ['Tokyo', 'Tokyo', 'JP', 35.6762, 139.6503, 'Asia/Tokyo', 13960000],
+  ['Seoul', 'Seoul', 'KR', 37.5665, 126.978, 'Asia/Seoul', 9776000],
+  ['Manila', 'Metro Manila', 'PH', 14.5995, 120.9842, 'Asia/Manila', 1846513],
+  ['Yangon', 'Yangon', 'MM', 16.8409, 96.1735, 'Asia/Yangon', 5160512, ['Rangoon']],
+
+  // Europe
+  ['London', 'England', 'GB', 51.5074, -0.1278, 'Europe/London', 8961989],
+  ['Birmingham', 'England', 'GB', 52.4862, -1.8904, 'Europe/London', 1144919],
+  ['Manchester', 'England', 'GB', 53.4808, -2.2426, 'Europe/London', 552858],
+  ['Leicester', 'England', 'GB', 52.6369, -1.1398, 'Europe/London', 368600],
+  ['Edinburgh', 'Scotland', 'GB', 55.9533, -3.1883, 'Europe/London', 524930],
+  ['Dublin', 'Leinster', 'IE', 53.3498, -6.2603, 'Europe/Dublin', 1173179],
+  ['Paris', 'Ile-de-France', 'FR', 48.8566, 2.3522, 'Europe/Paris', 2148000],
+  ['Berlin', 'Berlin', 'DE', 52.52, 13.405, 'Europe/Berlin', 3645000],
+  ['Frankfurt', 'Hesse', 'DE', 50.1109, 8.6821, 'Europe/Berlin', 753056],
+  ['Amsterdam', 'North Holland', 'NL', 52.3676, 4.9041, 'Europe/Amsterdam', 872680],
+  ['Rome', 'Lazio', 'IT', 41.9028, 12.4964, 'Europe/Rome', 2873000],
+  ['Madrid', 'Madrid', 'ES', 40.4168, -3.7038, 'Europe/Madrid', 3223000],
+  ['Zurich', 'Zurich', 'CH', 47.3769, 8.5417, 'Europe/Zurich', 402762],
+  ['Moscow', 'Moscow', 'RU', 55.7558, 37.6173, 'Europe/Moscow', 12506000],
+  ['Istanbul', 'Istanbul', 'TR', 41.0082, 28.9784, 'Europe/Istanbul', 15462000],
+
+  // Africa and Indian Ocean
+  ['Nairobi', 'Nairobi', 'KE', -1.2921, 36.8219, 'Africa/Nairobi', 4397073],
+  ['Johannesburg', 'Gauteng', 'ZA', -26.2041, 28.0473, 'Africa/Johannesburg', 5635127],
+  ['Durban', 'KwaZulu-Natal', 'ZA', -29.8587, 31.0218, 'Africa/Johannesburg', 3720953],
+  ['Lagos', 'Lagos', 'NG', 6.5244, 3.3792, 'Africa/Lagos', 15388000],
+  ['Cairo', 'Cairo', 'EG', 30.0444, 31.2357, 'Africa/Cairo', 9539673],
+  ['Port Louis', 'Port Louis', 'MU', -20.1609, 57.5012, 'Indian/Mauritius', 147066],
+  ['Suva', 'Central', 'FJ', -18.1416, 178.4419, 'Pacific/Fiji', 93970],
+
+  // North America
+  ['New York', 'New York', 'US', 40.7128, -74.006, 'America/New_York', 8336817, ['New York City', 'NYC']],
+  ['Jersey City', 'New Jersey', 'US', 40.7178, -74.0431, 'America/New_York', 292449],
+  ['Edison', 'New Jersey', 'US', 40.5187, -74.4121, 'America/New_York', 107588],
+  ['Boston', 'Massachusetts', 'US', 42.3601, -71.0589, 'America/New_York', 675647],
+  ['Washington', 'District of Columbia', 'US', 38.9072, -77.0369, 'America/New_York', 689545, ['Washington DC']],
+  ['Atlanta', 'Georgia', 'US', 33.749, -84.388, 'America/New_York', 498715],
+  ['Chicago', 'Illinois', 'US', 41.8781, -87.6298, 'America/Chicago', 2746388],
+  ['Houston', 'Texas', 'US', 29.7604, -95.3698, 'America/Chicago', 2304580],
+  ['Dallas', 'Texas', 'US', 32.7767, -96.797, 'America/Chicago', 1304379],
+  ['Austin', 'Texas', 'US', 30.2672, -97.7431, 'America/Chicago', 961855],
+  ['Springfield', 'Illinois', 'US', 39.7817, -89.6501, 'America/Chicago', 114394],
+  ['Springfield', 'Massachusetts', 'US', 42.1015, -72.5898, 'America/New_York', 155929],
+  ['Springfield', 'Missouri', 'US', 37.209, -93.2923, 'America/Chicago', 169176],
+  ['Denver', 'Colorado', 'US', 39.7392, -104.9903, 'America/Denver', 715522],
+  ['Phoenix', 'Arizona', 'US', 33.4484, -112.074, 'America/Phoenix', 1608139],
+  ['Los Angeles', 'California', 'US', 34.0522, -118.2437, 'America/Los_Angeles', 3898747],
+  ['San Francisco', 'California', 'US', 37.7749, -122.4194, 'America/Los_Angeles', 873965],
+  ['San Jose', 'California', 'US', 37.3382, -121.8863, 'America/Los_Angeles', 1013240],
+  ['Seattle', 'Washington', 'US', 47.6062, -122.3321, 'America/Los_Angeles', 737015],
+  ['Toronto', 'Ontario', 'CA', 43.6532, -79.3832, 'America/Toronto', 2794356],
+  ['Brampton', 'Ontario', 'CA', 43.7315, -79.7624, 'America/Toronto', 656480],
+  ['Montreal', 'Quebec', 'CA', 45.5017, -73.5673, 'America/Toronto', 1762949],
+  ['Vancouver', 'British Columbia', 'CA', 49.2827, -123.1207, 'America/Vancouver', 662248],
+  ['Surrey', 'British Columbia', 'CA', 49.1913, -122.849, 'America/Vancouver', 568322],
+  ['Calgary', 'Alberta', 'CA', 51.0447, -114.0719, 'America/Edmonton', 1306784],
+  ['Mexico City', 'Mexico City', 'MX', 19.4326, -99.1332, 'America/Mexico_City', 9209944],
+
+  // Caribbean and South America
+  ['Port of Spain', 'Port of Spain', 'TT', 10.6549, -61.5019, 'America/Port_of_Spain', 37074],
+  ['Georgetown', 'Demerara-Mahaica', 'GY', 6.8013, -58.1551, 'America/Guyana', 118363],
+  ['Paramaribo', 'Paramaribo', 'SR', 5.852, -55.2038, 'America/Paramaribo', 240924],
+  ['Sao Paulo', 'Sao Paulo', 'BR', -23.5505, -46.6333, 'America/Sao_Paulo', 12325232],
+  ['Buenos Aires', 'Buenos Aires', 'AR', -34.6037, -58.3816, 'America/Argentina/Buenos_Aires', 3075646],
+
+  // Oceania
+  ['Sydney', 'New South Wales', 'AU', -33.8688, 151.2093, 'Australia/Sydney', 5312163],
+  ['Melbourne', 'Victoria', 'AU', -37.8136, 144.9631, 'Australia/Melbourne', 5078193],
+  ['Brisbane', 'Queensland', 'AU', -27.4698, 153.0251, 'Australia/Brisbane', 2560720],
+  ['Perth', 'Western Australia', 'AU', -31.9505, 115.8605, 'Australia/Perth', 2085973],
+  ['Adelaide', 'South Australia', 'AU', -34.9285, 138.6007, 'Australia/Adelaide', 1359760],
+  ['Auckland', 'Auckland', 'NZ', -36.8485, 174.7633, 'Pacific/Auckland', 1657200],
+];
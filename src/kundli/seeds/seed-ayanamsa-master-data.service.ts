@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AyanamsaMaster } from '../entities/ayanamsa-master.entity';
+import { AyanamsaService } from '../../astrology/services/ayanamsa.service';
+import { AYANAMSA_SEED_DATA } from './ayanamsa-master.data';
+
+// default_value is the ayanamsa at J2000.0
+const J2000 = 2451545.0;
+
+@Injectable()
+export class SeedAyanamsaMasterDataService implements OnModuleInit {
+  private readonly logger = new Logger(SeedAyanamsaMasterDataService.name);
+
+  constructor(
+    @InjectRepository(AyanamsaMaster)
+    private readonly ayanamsaRepository: Repository<AyanamsaMaster>,
+    private readonly ayanamsaService: AyanamsaService,
+  ) {}
+
+  async onModuleInit() {
+    this.logger.log('Starting Ayanamsa Master Data Seeding...');
+    await this.seedAyanamsas();
+    this.logger.log('Ayanamsa Master Data Seeding Complete!');
+  }
+
+  private async seedAyanamsas() {
+    // Include soft-deleted rows so a removed ayanamsa is not recreated
+    const existing = await this.ayanamsaRepository.find({ select: ['ayanamsa_name', 'is_default'] });
+    const existingNames = new Set(existing.map((a) => a.ayanamsa_name));
+    const hasDefault = existing.some((a) => a.is_default);
+
+    const missing = AYANAMSA_SEED_DATA.filter((row) => !existingNames.has(row.ayanamsa_name));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const rows = missing.map((row) =>
+      this.ayanamsaRepository.create({
+        ayanamsa_name: row.ayanamsa_name,
+        display_name: row.display_name,
+        description: row.description,
+        default_value: Number(this.ayanamsaService.calculate(J2000, row.ayanamsa_name).toFixed(6)),
+        is_default: row.is_default && !hasDefault,
+        metadata: row.metadata,
+      }),
+    );
+
+    await this.ayanamsaRepository.save(rows);
+    this.logger.log(`Created ${rows.length} ayanamsas`);
+  }
+}
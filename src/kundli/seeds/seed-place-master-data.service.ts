@@ -0,0 +1,59 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PlaceMaster } from '../entities/place-master.entity';
+import { normalizePlaceName } from '../services/place-search.service';
+import { COUNTRY_NAMES, PLACE_SEED_DATA } from './place-master.data';
+
+@Injectable()
+export class SeedPlaceMasterDataService implements OnModuleInit {
+  private readonly logger = new Logger(SeedPlaceMasterDataService.name);
+
+  constructor(
+    @InjectRepository(PlaceMaster)
+    private readonly placeRepository: Repository<PlaceMaster>,
+  ) {}
+
+  async onModuleInit() {
+    this.logger.log('Starting Place Master Data Seeding...');
+    await this.seedPlaces();
+    this.logger.log('Place Master Data Seeding Complete!');
+  }
+
+  private async seedPlaces() {
+    const existing = await this.placeRepository.find({
+      select: ['place_name', 'state_name', 'country_code'],
+    });
+    const existingKeys = new Set(existing.map((p) => this.placeKey(p.place_name, p.state_name, p.country_code)));
+
+    const missing = PLACE_SEED_DATA.filter(
+      ([name, state, countryCode]) => !existingKeys.has(this.placeKey(name, state, countryCode)),
+    );
+    if (missing.length === 0) {
+      return;
+    }
+
+    const places = missing.map(([name, state, countryCode, latitude, longitude, timezone, population, alternates]) =>
+      this.placeRepository.create({
+        place_name: name,
+        search_name: normalizePlaceName(name),
+        alternate_names: alternates || null,
+        state_name: state,
+        country_code: countryCode,
+        country_name: COUNTRY_NAMES[countryCode] || countryCode,
+        latitude,
+        longitude,
+        timezone,
+        population,
+        metadata: { source: 'geonames' },
+      }),
+    );
+
+    await this.placeRepository.save(places, { chunk: 100 });
+    this.logger.log(`Created ${places.length} places`);
+  }
+
+  private placeKey(name: string, state: string | null, countryCode: string): string {
+    return `${name}|${state || ''}|${countryCode}`.toLowerCase();
+  }
+}
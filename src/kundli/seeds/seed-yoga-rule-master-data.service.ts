@@ -0,0 +1,48 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { YogaRuleMaster } from '../entities/yoga-rule-master.entity';
+import { YOGA_RULE_SEED_DATA } from './yoga-rule-master.data';
+
+@Injectable()
+export class SeedYogaRuleMasterDataService implements OnModuleInit {
+  private readonly logger = new Logger(SeedYogaRuleMasterDataService.name);
+
+  constructor(
+    @InjectRepository(YogaRuleMaster)
+    private readonly yogaRuleRepository: Repository<YogaRuleMaster>,
+  ) {}
+
+  async onModuleInit() {
+    this.logger.log('Starting Yoga Rule Master Data Seeding...');
+    await this.seedYogaRules();
+    this.logger.log('Yoga Rule Master Data Seeding Complete!');
+  }
+
+  private async seedYogaRules() {
+    // Include soft-deleted rules so a removed classical yoga is not recreated
+    const existing = await this.yogaRuleRepository.find({ select: ['code'] });
+    const existingCodes = new Set(existing.map((r) => r.code));
+
+    const missing = YOGA_RULE_SEED_DATA.filter((rule) => !existingCodes.has(rule.code));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const rules = missing.map((rule) =>
+      this.yogaRuleRepository.create({
+        code: rule.code,
+        name: rule.name,
+        category: rule.category,
+        description: rule.description || null,
+        effects: rule.effects || null,
+        conditions: rule.conditions,
+        sort_order: YOGA_RULE_SEED_DATA.indexOf(rule) + 1,
+        is_system: true,
+      }),
+    );
+
+    await this.yogaRuleRepository.save(rules);
+    this.logger.log(`Created ${rules.length} yoga rules`);
+  }
+}
@@ -0,0 +1,387 @@
+import { YogaCondition, YogaRuleDefinition } from '../../astrology/services/yoga-engine.service';
+
+/**
+ * Classical yogas (BPHS, Phaladeepika, Saravali) expressed as engine rules.
+ * Seeded once by code; admin edits are never overwritten.
+ */
+
+const KENDRAS = [1, 4, 7, 10];
+const KENDRA_LORDS = ['lord:1', 'lord:4', 'lord:7', 'lord:10'];
+const TRIKONA_LORDS = ['lord:1', 'lord:5', 'lord:9'];
+const GOOD_DIGNITIES: YogaCondition['dignities'] = ['exalted', 'moolatrikona', 'own'];
+
+const mahapurusha = (planet: string): YogaCondition => ({
+  all: [
+    { type: 'placement', planet, houses: KENDRAS },
+    { type: 'dignity', planet, dignities: GOOD_DIGNITIES },
+  ],
+});
+
+const viparita = (house: number): YogaCondition => ({
+  type: 'placement',
+  planet: `lord:${house}`,
+  houses: [6, 8, 12],
+});
+
+export const YOGA_RULE_SEED_DATA: YogaRuleDefinition[] = [
+  // Panch Mahapurusha
+  {
+    code: 'ruchaka',
+    name: 'Ruchaka Yoga',
+    category: 'mahapurusha',
+    description: 'Mars in a kendra in its own or exaltation sign',
+    effects: 'Courage, physical strength, leadership and success over rivals',
+    conditions: mahapurusha('Mars'),
+  },
+  {
+    code: 'bhadra',
+    name: 'Bhadra Yoga',
+    category: 'mahapurusha',
+    description: 'Mercury in a kendra in its own or exaltation sign',
+    effects: 'Sharp intellect, eloquence, learning and skill in commerce',
+    conditions: mahapurusha('Mercury'),
+  },
+  {
+    code: 'hamsa',
+    name: 'Hamsa Yoga',
+    category: 'mahapurusha',
+    description: 'Jupiter in a kendra in its own or exaltation sign',
+    effects: 'Wisdom, righteousness, respect and spiritual inclination',
+    conditions: mahapurusha('Jupiter'),
+  },
+  {
+    code: 'malavya',
+    name: 'Malavya Yoga',
+    category: 'mahapurusha',
+    description: 'Venus in a kendra in its own or exaltation sign',
+    effects: 'Comfort, beauty, artistic talent, vehicles and a happy marriage',
+    conditions: mahapurusha('Venus'),
+  },
+  {
+    code: 'sasa',
+    name: 'Sasa Yoga',
+    category: 'mahapurusha',
+    description: 'Saturn in a kendra in its own or exaltation sign',
+    effects: 'Authority over many, discipline, endurance and organisational power',
+    conditions: mahapurusha('Saturn'),
+  },
+
+  // Lunar yogas
+  {
+    code: 'gajakesari',
+    name: 'Gajakesari Yoga',
+    category: 'lunar',
+    description: 'Jupiter in a kendra from the Moon and not debilitated',
+    effects: 'Fame, intelligence, lasting prosperity and a respected position',
+    conditions: {
+      all: [
+        { type: 'placement', planet: 'Jupiter', houses: KENDRAS, from: 'Moon' },
+        { not: { type: 'dignity', planet: 'Jupiter', dignities: ['debilitated'] } },
+      ],
+    },
+  },
+  {
+    code: 'chandra_mangal',
+    name: 'Chandra-Mangal Yoga',
+    category: 'lunar',
+    description: 'Moon and Mars conjoined or in mutual aspect',
+    effects: 'Earning capacity and enterprise, especially through trade and property',
+    conditions: { type: 'related', planets: ['Moon', 'Mars'], via: ['conjunction', 'mutual_aspect'] },
+  },
+  {
+    code: 'sunapha',
+    name: 'Sunapha Yoga',
+    category: 'lunar',
+    description: 'A planet other than the Sun or nodes in the 2nd from the Moon',
+    effects: 'Self-earned wealth, intelligence and a good reputation',
+    conditions: { type: 'occupied', houses: [2], from: 'Moon', exclude: ['Sun', 'Rahu', 'Ketu'] },
+  },
+  {
+    code: 'anapha',
+    name: 'Anapha Yoga',
+    category: 'lunar',
+    description: 'A planet other than the Sun or nodes in the 12th from the Moon',
+    effects: 'Good health, dignified manners and contentment',
+    conditions: { type: 'occupied', houses: [12], from: 'Moon', exclude: ['Sun', 'Rahu', 'Ketu'] },
+  },
+  {
+    code: 'durudhara',
+    name: 'Durudhara Yoga',
+    category: 'lunar',
+    description: 'Planets other than the Sun or nodes on both sides of the Moon',
+    effects: 'Wealth, vehicles, generosity and comforts',
+    conditions: {
+      all: [
+        { type: 'occupied', houses: [2], from: 'Moon', exclude: ['Sun', 'Rahu', 'Ketu'] },
+        { type: 'occupied', houses: [12], from: 'Moon', exclude: ['Sun', 'Rahu', 'Ketu'] },
+      ],
+    },
+  },
+  {
+    code: 'adhi',
+    name: 'Adhi Yoga',
+    category: 'lunar',
+    description: 'Two or more natural benefics in the 6th, 7th and 8th from the Moon',
+    effects: 'Leadership, a comfortable life and victory over opponents',
+    conditions: { type: 'occupied', houses: [6, 7, 8], from: 'Moon', by: ['Mercury', 'Jupiter', 'Venus'], min: 2 },
+  },
+  {
+    code: 'kemadruma',
+    name: 'Kemadruma Yoga',
+    category: 'arishta',
+    description: 'No planet (other than the Sun and nodes) with, beside or in a kendra from the Moon',
+    effects: 'Struggle, loneliness and fluctuating finances',
+    conditions: {
+      type: 'occupied',
+      houses: [1, 2, 4, 7, 10, 12],
+      from: 'Moon',
+      exclude: ['Moon', 'Sun', 'Rahu', 'Ketu'],
+      max: 0,
+    },
+  },
+  {
+    code: 'shakata',
+    name: 'Shakata Yoga',
+    category: 'arishta',
+    description: 'Moon in the 6th, 8th or 12th from Jupiter, not in a kendra from the lagna',
+    effects: 'Ups and downs in fortune like a turning cart wheel',
+    conditions: {
+      all: [
+        { type: 'placement', planet: 'Moon', houses: [6, 8, 12], from: 'Jupiter' },
+        { not: { type: 'placement', planet: 'Moon', houses: KENDRAS } },
+      ],
+    },
+  },
+
+  // Solar yogas
+  {
+    code: 'budh_aditya',
+    name: 'Budh-Aditya Yoga',
+    category: 'solar',
+    description: 'Sun and Mercury in the same sign',
+    effects: 'Intelligence, communication skill and recognition',
+    conditions: { type: 'conjunct', planets: ['Sun', 'Mercury'] },
+  },
+  {
+    code: 'vesi',
+    name: 'Vesi Yoga',
+    category: 'solar',
+    description: 'A planet other than the Moon or nodes in the 2nd from the Sun',
+    effects: 'Truthfulness, balanced outlook and steady wealth',
+    conditions: { type: 'occupied', houses: [2], from: 'Sun', exclude: ['Moon', 'Rahu', 'Ketu'] },
+  },
+  {
+    code: 'vasi',
+    name: 'Vasi Yoga',
+    category: 'solar',
+    description: 'A planet other than the Moon or nodes in the 12th from the Sun',
+    effects: 'Charity, skill and happiness',
+    conditions: { type: 'occupied', houses: [12], from: 'Sun', exclude: ['Moon', 'Rahu', 'Ketu'] },
+  },
+  {
+    code: 'ubhayachari',
+    name: 'Ubhayachari Yoga',
+    category: 'solar',
+    description: 'Planets other than the Moon or nodes on both sides of the Sun',
+    effects: 'Eloquence, fame and a kingly bearing',
+    conditions: {
+      all: [
+        { type: 'occupied', houses: [2], from: 'Sun', exclude: ['Moon', 'Rahu', 'Ketu'] },
+        { type: 'occupied', houses: [12], from: 'Sun', exclude: ['Moon', 'Rahu', 'Ketu'] },
+      ],
+    },
+  },
+
+  // Raja yogas
+  {
+    code: 'raja_kendra_trikona',
+    name: 'Raja Yoga (Kendra-Trikona)',
+    category: 'raja',
+    description: 'A kendra lord related to a trikona lord by conjunction, aspect or exchange',
+    effects: 'Rise in status, authority and success',
+    conditions: {
+      exists: { var: '$k', in: KENDRA_LORDS },
+      where: {
+        exists: { var: '$t', in: TRIKONA_LORDS },
+        where: {
+          all: [
+            { type: 'distinct', planets: ['$k', '$t'] },
+            { type: 'related', planets: ['$k', '$t'] },
+          ],
+        },
+      },
+    },
+  },
+  {
+    code: 'yogakaraka',
+    name: 'Yogakaraka',
+    category: 'raja',
+    description: 'One planet lords both a kendra and a trikona (other than the lagna)',
+    effects: 'The planet gives raja yoga results during its periods',
+    conditions: {
+      exists: { var: '$p', in: 'grahas' },
+      where: {
+        all: [
+          { type: 'lords', planet: '$p', houses: [4, 7, 10] },
+          { type: 'lords', planet: '$p', houses: [5, 9] },
+        ],
+      },
+    },
+  },
+  {
+    code: 'dharma_karmadhipati',
+    name: 'Dharma-Karmadhipati Yoga',
+    category: 'raja',
+    description: 'Lords of the 9th and 10th related by conjunction, aspect or exchange',
+    effects: 'Righteous career, high position and lasting good name',
+    conditions: {
+      all: [
+        { type: 'distinct', planets: ['lord:9', 'lord:10'] },
+        { type: 'related', planets: ['lord:9', 'lord:10'] },
+      ],
+    },
+  },
+  {
+    code: 'amala',
+    name: 'Amala Yoga',
+    category: 'raja',
+    description: 'A natural benefic in the 10th from the lagna or the Moon',
+    effects: 'Spotless reputation and prosperity through good deeds',
+    conditions: {
+      any: [
+        { type: 'occupied', houses: [10], by: ['Mercury', 'Jupiter', 'Venus'] },
+        { type: 'occupied', houses: [10], from: 'Moon', by: ['Mercury', 'Jupiter', 'Venus'] },
+      ],
+    },
+  },
+  {
+    code: 'lakshmi',
+    name: 'Lakshmi Yoga',
+    category: 'dhana',
+    description: 'Lord of the 9th in its own or exaltation sign, placed in a kendra or trikona',
+    effects: 'Wealth, nobility and good fortune',
+    conditions: {
+      all: [
+        { type: 'dignity', planet: 'lord:9', dignities: GOOD_DIGNITIES },
+        { type: 'placement', planet: 'lord:9', houses: [1, 4, 5, 7, 9, 10] },
+      ],
+    },
+  },
+
+  // Dhana yogas
+  {
+    code: 'dhana',
+    name: 'Dhana Yoga',
+    category: 'dhana',
+    description: 'Lord of the 2nd or 11th related to the lord of the 1st, 5th or 9th',
+    effects: 'Accumulation of wealth',
+    conditions: {
+      exists: { var: '$w', in: ['lord:2', 'lord:11'] },
+      where: {
+        exists: { var: '$f', in: TRIKONA_LORDS },
+        where: {
+          all: [
+            { type: 'distinct', planets: ['$w', '$f'] },
+            { type: 'related', planets: ['$w', '$f'] },
+          ],
+        },
+      },
+    },
+  },
+
+  // Viparita raja yogas
+  {
+    code: 'harsha',
+    name: 'Harsha Yoga',
+    category: 'viparita_raja',
+    description: 'Lord of the 6th in the 6th, 8th or 12th',
+    effects: 'Victory over enemies, good health and happiness',
+    conditions: viparita(6),
+  },
+  {
+    code: 'sarala',
+    name: 'Sarala Yoga',
+    category: 'viparita_raja',
+    description: 'Lord of the 8th in the 6th, 8th or 12th',
+    effects: 'Longevity, fearlessness and prosperity',
+    conditions: viparita(8),
+  },
+  {
+    code: 'vimala',
+    name: 'Vimala Yoga',
+    category: 'viparita_raja',
+    description: 'Lord of the 12th in the 6th, 8th or 12th',
+    effects: 'Frugality, independence and good conduct',
+    conditions: viparita(12),
+  },
+
+  // Neecha bhanga
+  {
+    code: 'neecha_bhanga',
+    name: 'Neecha Bhanga Raja Yoga',
+    category: 'neecha_bhanga',
+    description:
+      'A debilitated planet whose debilitation is cancelled by the lord of its sign or of its exaltation sign in a kendra from the lagna or the Moon',
+    effects: 'Rise after early setbacks; the weakness becomes a source of strength',
+    conditions: {
+      exists: { var: '$p', in: 'grahas' },
+      where: {
+        all: [
+          { type: 'dignity', planet: '$p', dignities: ['debilitated'] },
+          {
+            any: [
+              { type: 'placement', planet: 'dispositor:$p', houses: KENDRAS },
+              { type: 'placement', planet: 'dispositor:$p', houses: KENDRAS, from: 'Moon' },
+              { type: 'placement', planet: 'exaltation_dispositor:$p', houses: KENDRAS },
+              { type: 'placement', planet: 'exaltation_dispositor:$p', houses: KENDRAS, from: 'Moon' },
+            ],
+          },
+        ],
+      },
+    },
+  },
+
+  // Parivartana
+  {
+    code: 'parivartana',
+    name: 'Parivartana Yoga',
+    category: 'parivartana',
+    description: 'Two planets occupy each other\'s signs (sign exchange)',
+    effects: 'The houses owned by both planets support each other',
+    conditions: {
+      exists: { var: '$a', in: 'grahas' },
+      where: {
+        exists: { var: '$b', in: 'grahas' },
+        where: { type: 'related', planets: ['$a', '$b'], via: ['exchange'] },
+      },
+    },
+  },
+
+  // Lagna yogas
+  {
+    code: 'shubha_kartari',
+    name: 'Shubha Kartari Yoga',
+    category: 'other',
+    description: 'Natural benefics in both the 2nd and 12th from the lagna',
+    effects: 'Protection, good health and a pleasant personality',
+    conditions: {
+      all: [
+        { type: 'occupied', houses: [2], by: 'benefics' },
+        { type: 'occupied', houses: [12], by: 'benefics' },
+      ],
+    },
+  },
+  {
+    code: 'papa_kartari',
+    name: 'Papa Kartari Yoga',
+    category: 'arishta',
+    description: 'Natural malefics in both the 2nd and 12th from the lagna',
+    effects: 'Obstacles and a sense of being hemmed in',
+    conditions: {
+      all: [
+        { type: 'occupied', houses: [2], by: 'malefics' },
+        { type: 'occupied', houses: [12], by: 'malefics' },
+      ],
+    },
+  },
+];
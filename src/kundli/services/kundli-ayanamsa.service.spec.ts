@@ -0,0 +1,55 @@
+// Entities reference each other through BaseEntity; load them from User as the app does
+import '../../users/entities/user.entity';
+import { AyanamsaService } from '../../astrology/services/ayanamsa.service';
+import { Kundli } from '../entities/kundli.entity';
+import { KundliAyanamsaService } from './kundli-ayanamsa.service';
+
+/**
+ * Kundlis saved before ayanamsa_name was recorded carry only the value of the
+ * engine's old formulas (Lahiri 23.85305556° + 50.2388″·T + 0.000111″·T²,
+ * Raman 22.50694444° + 50.2388″·T, T in Julian centuries from J2000).
+ */
+
+const centuries = (date: string) => (new Date(date).getTime() / 86400000 + 2440587.5 - 2451545.0) / 36525.0;
+const legacyLahiri = (date: string) => {
+  const t = centuries(date);
+  return 23.85305556 + (50.2388 / 3600) * t + (0.000111 / 3600) * t * t;
+};
+const legacyRaman = (date: string) => 22.50694444 + (50.2388 / 3600) * centuries(date);
+
+const kundli = (fields: Partial<Kundli>) => ({ full_data: {}, ...fields }) as Kundli;
+
+describe('KundliAyanamsaService', () => {
+  const service = new KundliAyanamsaService(null, new AyanamsaService(), null);
+
+  describe('getKundliAyanamsa', () => {
+    it('keeps the recorded ayanamsa', () => {
+      expect(service.getKundliAyanamsa(kundli({ ayanamsa_name: 'fagan_bradley', ayanamsa: 24.1 }))).toBe('fagan_bradley');
+    });
+
+    it.each(['1975-01-01', '2003-06-15', '2020-06-15', '2024-12-31'])(
+      'identifies a legacy Lahiri chart born %s',
+      (date) => {
+        expect(service.getKundliAyanamsa(kundli({ birth_date: date as any, ayanamsa: legacyLahiri(date) }))).toBe('lahiri');
+      },
+    );
+
+    it('identifies a legacy Raman chart', () => {
+      expect(service.getKundliAyanamsa(kundli({ birth_date: '2020-06-15' as any, ayanamsa: legacyRaman('2020-06-15') }))).toBe(
+        'raman',
+      );
+    });
+
+    it('keeps KP kundlis on the KP ayanamsa', () => {
+      expect(
+        service.getKundliAyanamsa(
+          kundli({ birth_date: '2020-06-15' as any, ayanamsa: legacyLahiri('2020-06-15'), full_data: { system: 'kp' } }),
+        ),
+      ).toBe('kp_old');
+    });
+
+    it('falls back to Lahiri without a stored value', () => {
+      expect(service.getKundliAyanamsa(kundli({ birth_date: '2020-06-15' as any, ayanamsa: null }))).toBe('lahiri');
+    });
+  });
+});
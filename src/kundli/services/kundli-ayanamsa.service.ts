@@ -0,0 +1,121 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AyanamsaMaster } from '../entities/ayanamsa-master.entity';
+import { Kundli } from '../entities/kundli.entity';
+import { AyanamsaKey, AyanamsaService, DEFAULT_AYANAMSA } from '../../astrology/services/ayanamsa.service';
+import { KP_AYANAMSA } from '../../astrology/services/kp.service';
+import { CacheService } from '../../cache/cache.service';
+import { AyanamsaDto } from '../dto/ayanamsa.dto';
+
+/**
+ * Ayanamsa formulas of the engine before the catalog, with t in Julian
+ * centuries from J2000, keyed by the model the legacy code maps to. They
+ * barely precess, so stored values are matched against these rather than the
+ * current models. KP (code 3) differed from Lahiri only by 0.000222″·t² and
+ * code 4 fell back to Lahiri, so only Raman can be told apart by value.
+ */
+const LEGACY_AYANAMSA_FORMULAS: Record<string, (t: number) => number> = {
+  lahiri: (t) => 23.85305556 + (50.2388 / 3600) * t + (0.000111 / 3600) * t * t,
+  raman: (t) => 22.50694444 + (50.2388 / 3600) * t,
+};
+
+/**
+ * Kundli Ayanamsa Service
+ * Resolves the ayanamsa of a kundli request against the enabled rows of
+ * ayanamsa_master, and the ayanamsa a stored kundli was cast with so that
+ * recalculations reproduce it.
+ */
+@Injectable()
+export class KundliAyanamsaService {
+  private readonly catalogCacheKey = 'ayanamsa_master:active';
+  private readonly cacheTtl = 60 * 60;
+
+  constructor(
+    @InjectRepository(AyanamsaMaster)
+    private readonly ayanamsaRepository: Repository<AyanamsaMaster>,
+    private readonly ayanamsaService: AyanamsaService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Enabled ayanamsas that have an implemented model, default first
+   */
+  async getCatalog(): Promise<AyanamsaDto[]> {
+    const cached = await this.cacheService.get<AyanamsaDto[]>(this.catalogCacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.ayanamsaRepository.find({
+      where: { is_enabled: true, is_deleted: false },
+      order: { is_default: 'DESC', ayanamsa_name: 'ASC' },
+    });
+    const catalog = rows
+      .filter((row) => this.ayanamsaService.findModel(row.ayanamsa_name))
+      .map((row) => ({
+        name: row.ayanamsa_name,
+        display_name: row.display_name || row.ayanamsa_name,
+        description: row.description,
+        value_j2000: row.default_value !== null ? Number(row.default_value) : null,
+        legacy_code: this.ayanamsaService.findModel(row.ayanamsa_name).legacy_code ?? null,
+        is_default: row.is_default,
+      }));
+
+    await this.cacheService.set(this.catalogCacheKey, catalog, this.cacheTtl);
+    return catalog;
+  }
+
+  /**
+   * Slug for a requested ayanamsa (slug or legacy code). Without a request the
+   * system default is used, then the catalog default, then Lahiri.
+   */
+  async resolve(requested?: AyanamsaKey | null, systemDefault?: string): Promise<string> {
+    const catalog = await this.getCatalog();
+
+    if (requested === undefined || requested === null || requested === '') {
+      return systemDefault || catalog.find((a) => a.is_default)?.name || DEFAULT_AYANAMSA;
+    }
+
+    const model = this.ayanamsaService.findModel(requested);
+    // An empty catalog means the master data has not been seeded yet; allow every implemented model
+    if (!model || (catalog.length > 0 && !catalog.some((a) => a.name === model.name))) {
+      throw new BadRequestException(`Unknown or disabled ayanamsa: ${requested}`);
+    }
+    return model.name;
+  }
+
+  /**
+   * Slug of the ayanamsa a stored kundli is recast with. Disabled ayanamsas
+   * are accepted, so that a kundli keeps the one it was cast with.
+   */
+  resolveStored(name: string): string {
+    const model = this.ayanamsaService.findModel(name);
+    if (!model) {
+      throw new BadRequestException(`Unknown ayanamsa: ${name}`);
+    }
+    return model.name;
+  }
+
+  /**
+   * Ayanamsa a stored kundli was cast with. Kundlis saved before the slug was
+   * recorded are matched on their stored value against the legacy formulas.
+   */
+  getKundliAyanamsa(kundli: Kundli): string {
+    if (kundli.ayanamsa_name) {
+      return kundli.ayanamsa_name;
+    }
+    if (kundli.full_data?.system === 'kp') {
+      return KP_AYANAMSA;
+    }
+    if (kundli.ayanamsa === null || kundli.ayanamsa === undefined || !kundli.birth_date) {
+      return DEFAULT_AYANAMSA;
+    }
+
+    const jd = new Date(kundli.birth_date).getTime() / 86400000 + 2440587.5;
+    const t = (jd - 2451545.0) / 36525.0;
+    const stored = Number(kundli.ayanamsa);
+    const distance = (name: string) => Math.abs(LEGACY_AYANAMSA_FORMULAS[name](t) - stored);
+    return Object.keys(LEGACY_AYANAMSA_FORMULAS).reduce((best, name) => (distance(name) < distance(best) ? name : best));
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { CacheService } from '../../cache/cache.service';
+import { ChartRenderInput, ChartRendererService, ChartStyle } from '../../astrology/services/chart-renderer.service';
+import { VargaDivision } from '../../astrology/services/varga.service';
+import { Kundli } from '../entities/kundli.entity';
+import { KundliVargaService } from './kundli-varga.service';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli Chart Service
+ * Renders the rasi or a divisional chart of a stored kundli as SVG. The
+ * output is cached per kundli revision, so a regenerated kundli gets a
+ * fresh drawing and a new ETag.
+ */
+@Injectable()
+export class KundliChartService {
+  private readonly cacheTtl = 24 * 60 * 60;
+
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly kundliVargaService: KundliVargaService,
+    private readonly chartRendererService: ChartRendererService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async getChartSvg(
+    kundliId: number,
+    user: { id: number; type?: string },
+    style: ChartStyle = 'north',
+    varga = 'D1',
+  ): Promise<{ svg: string; etag: string }> {
+    const division = this.kundliVargaService.parseDivision(varga);
+
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    const revision = new Date(kundli.modify_date || kundli.added_date).getTime();
+    const etag = `"kundli-${kundli.id}-${revision}-${style}-D${division}"`;
+    const cacheKey = `kundli:chart:${kundli.id}:${revision}:${style}:D${division}`;
+    const cached = await this.cacheService.get<string>(cacheKey);
+    if (cached) {
+      return { svg: cached, etag };
+    }
+
+    const svg = this.chartRendererService.render(this.getChartInput(kundli, division), style);
+
+    await this.cacheService.set(cacheKey, svg, this.cacheTtl);
+    return { svg, etag };
+  }
+
+  /**
+   * Renderer input for the rasi or a divisional chart of a loaded kundli
+   */
+  getChartInput(kundli: Kundli, division: VargaDivision): ChartRenderInput {
+    const chart = this.kundliVargaService.getChart(kundli, division);
+    const flags = new Map((kundli.planets || []).map((p) => [p.planet_name, p]));
+    const ownerName = [kundli.user?.first_name, kundli.user?.last_name].filter(Boolean).join(' ');
+    const name = kundli.full_data?.name || ownerName || `Kundli ${kundli.id}`;
+
+    return {
+      title: `${name} - ${chart.code} ${chart.name}`,
+      lagna: { sign: chart.lagna.sign, degree: chart.lagna.degree },
+      planets: chart.planets.map((planet) => ({
+        name: planet.name,
+        sign: planet.sign,
+        degree: planet.degree,
+        is_retrograde: flags.get(planet.name)?.is_retrograde || false,
+        is_combust: flags.get(planet.name)?.is_combust || false,
+        is_vargottama: planet.is_vargottama,
+      })),
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { Injectable, Logger, Inject, BadRequestException, forwardRef } from '@nestjs/common';
+import { DataSource, EntityManager, IsNull } from 'typeorm';
+import { Kundli } from '../entities/kundli.entity';
+import { DashaRecord } from '../../database/entities/dasha-record.entity';
+import { AntardashaRecord } from '../../database/entities/antardasha-record.entity';
+import { PratyantarDashaRecord } from '../../database/entities/pratyantar-dasha-record.entity';
+import {
+  DashaLevel,
+  DashaPeriod,
+  VimshottariDashaService,
+} from '../../astrology/services/vimshottari-dasha.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { DashaPeriodDto, KundliDashaResponseDto } from '../dto/kundli-dasha.dto';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli Dasha Service
+ * Persists the Vimshottari tree into the dasha record tables and answers
+ * "which dasha is running on date X" queries for a stored kundli.
+ */
+@Injectable()
+export class KundliDashaService {
+  private readonly logger = new Logger(KundliDashaService.name);
+
+  private readonly insertChunkSize = 500;
+
+  constructor(
+    @Inject(forwardRef(() => KundliService))
+    private readonly kundliService: KundliService,
+    private readonly dataSource: DataSource,
+    private readonly vimshottariDashaService: VimshottariDashaService,
+    private readonly timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * Replace a kundli's dasha records with mahadasha -> pratyantar periods
+   * (about 820 rows), in one transaction, or in the caller's when a manager is
+   * given. Sookshma and prana periods are not stored; they are derived on
+   * request.
+   */
+  async saveDashaRecords(
+    kundliId: number,
+    userId: number,
+    birthDate: Date,
+    moonLongitude: number,
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (!manager) {
+      return this.dataSource.transaction((transaction) =>
+        this.saveDashaRecords(kundliId, userId, birthDate, moonLongitude, transaction),
+      );
+    }
+
+    const tree = this.vimshottariDashaService.getDashaTree(birthDate, moonLongitude, 'pratyantar');
+    const dashaRepository = manager.getRepository(DashaRecord);
+    const antardashaRepository = manager.getRepository(AntardashaRecord);
+    const pratyantarRepository = manager.getRepository(PratyantarDashaRecord);
+
+    // Child tables cascade on delete; rows from before records were keyed by kundli go too
+    await dashaRepository.delete({ kundli_id: kundliId });
+    await dashaRepository.delete({ user_id: userId, kundli_id: IsNull() });
+
+    const mahadashas = await dashaRepository.save(
+      tree.map((maha) =>
+        dashaRepository.create({
+          kundli_id: kundliId,
+          user_id: userId,
+          mahadasha_lord: maha.lord,
+          start_date: maha.start,
+          end_date: maha.end,
+          duration_years: maha.duration_years,
+        }),
+      ),
+    );
+
+    const antardashaRows = tree.flatMap((maha, i) =>
+      maha.sub_periods.map((antar) =>
+        antardashaRepository.create({
+          dasha_record_id: mahadashas[i].id,
+          antardasha_lord: antar.lord,
+          start_date: antar.start,
+          end_date: antar.end,
+          duration_years: antar.duration_years,
+        }),
+      ),
+    );
+    const antardashas = await antardashaRepository.save(antardashaRows, { chunk: this.insertChunkSize });
+
+    const antarPeriods = tree.flatMap((maha) => maha.sub_periods);
+    const pratyantarRows = antarPeriods.flatMap((antar, i) =>
+      antar.sub_periods.map((pratyantar) =>
+        pratyantarRepository.create({
+          antardasha_record_id: antardashas[i].id,
+          pratyantar_lord: pratyantar.lord,
+          start_date: pratyantar.start,
+          end_date: pratyantar.end,
+          duration_years: pratyantar.duration_years,
+        }),
+      ),
+    );
+    const pratyantars = await pratyantarRepository.save(pratyantarRows, { chunk: this.insertChunkSize });
+
+    this.logger.log(
+      `Saved dasha records for kundli ${kundliId}: ${mahadashas.length} mahadashas, ${antardashas.length} antardashas, ${pratyantars.length} pratyantars`,
+    );
+  }
+
+  /**
+   * Active dasha chain of a stored kundli at a given instant
+   */
+  async getDashaForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+    level: DashaLevel = 'prana',
+    at?: string,
+  ): Promise<KundliDashaResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    const instant = at ? new Date(at) : new Date();
+    const { birthDate, moonLongitude } = this.getDashaInputs(kundli);
+
+    const chain = this.vimshottariDashaService.getActiveChain(birthDate, moonLongitude, instant, level);
+    if (chain.length === 0) {
+      throw new BadRequestException('Date is outside the 120-year Vimshottari cycle of this kundli');
+    }
+
+    const balance = this.vimshottariDashaService.getBalanceAtBirth(moonLongitude);
+    const deepest = chain[chain.length - 1];
+
+    return {
+      kundli_id: Number(kundli.id),
+      at: instant.toISOString(),
+      level,
+      balance_at_birth: {
+        lord: balance.lord,
+        balance_years: balance.balance_years,
+        elapsed_fraction: balance.elapsed_fraction,
+      },
+      chain: chain.map((p) => this.toPeriodDto(p)),
+      sub_periods: this.vimshottariDashaService.getSubPeriods(deepest).map((p) => this.toPeriodDto(p)),
+    };
+  }
+
+  /**
+   * Birth instant (UT) and sidereal Moon longitude for a stored kundli
+   */
+  getDashaInputs(kundli: Kundli): { birthDate: Date; moonLongitude: number } {
+    const vimshottari = kundli.dasha_timeline?.vimshottari;
+    if (vimshottari?.birth_datetime_utc && vimshottari?.moon_longitude !== undefined) {
+      return {
+        birthDate: new Date(vimshottari.birth_datetime_utc),
+        moonLongitude: Number(vimshottari.moon_longitude),
+      };
+    }
+
+    // Kundlis saved before the timeline carried its inputs
+    const moon = (kundli.planets || []).find((p) => p.planet_name === 'Moon');
+    if (!moon) {
+      throw new BadRequestException('Kundli has no Moon position; regenerate the kundli');
+    }
+
+    const birthDate =
+      kundli.birth_date instanceof Date ? kundli.birth_date.toISOString().split('T')[0] : String(kundli.birth_date);
+    const birthTime = this.timezoneService.toUniversalTime(
+      birthDate,
+      kundli.birth_time,
+      kundli.timezone || 'Asia/Kolkata',
+    );
+
+    return { birthDate: birthTime.utc, moonLongitude: Number(moon.longitude_degrees) };
+  }
+
+  private toPeriodDto(period: DashaPeriod): DashaPeriodDto {
+    return {
+      level: period.level,
+      lord: period.lord,
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      duration_years: period.duration_years,
+    };
+  }
+}
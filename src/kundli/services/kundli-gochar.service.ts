@@ -0,0 +1,110 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Kundli } from '../entities/kundli.entity';
+import { GocharNatalInput, GocharResult, GocharService, SignIngress } from '../../astrology/services/gochar.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { AyanamsaKey } from '../../astrology/services/ayanamsa.service';
+import { CacheService } from '../../cache/cache.service';
+import { KundliAyanamsaService } from './kundli-ayanamsa.service';
+import { KundliGocharResponseDto, KundliGocharTimelineResponseDto } from '../dto/kundli-gochar.dto';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli Gochar Service
+ * Transits over a stored kundli and the upcoming sign ingresses, in the
+ * ayanamsa the kundli was cast with. Ingresses do not depend on the rest of
+ * the chart, so they are cached per day and ayanamsa and only the houses
+ * from the natal Moon and lagna are added per kundli.
+ */
+@Injectable()
+export class KundliGocharService {
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly gocharService: GocharService,
+    private readonly cacheService: CacheService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+  ) {}
+
+  /**
+   * Transits, Sade Sati and Shani/Jupiter status of a kundli at a date
+   */
+  async getGocharForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+    at?: string,
+  ): Promise<KundliGocharResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    const date = at ? new Date(at) : new Date();
+
+    return {
+      kundli_id: Number(kundli.id),
+      ...this.gocharService.getTransits(this.toNatalInput(kundli), date),
+    };
+  }
+
+  /**
+   * Upcoming sign ingresses with the houses they fall in for a kundli
+   */
+  async getTimelineForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+    months = 24,
+  ): Promise<KundliGocharTimelineResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    const natal = this.toNatalInput(kundli);
+
+    const from = new Date();
+    from.setUTCHours(0, 0, 0, 0);
+    const to = new Date(from);
+    to.setUTCMonth(to.getUTCMonth() + months);
+
+    const moonSign = Math.floor(natal.moonLongitude / 30);
+    const lagnaSign = Math.floor(natal.lagnaLongitude / 30);
+    const houseFrom = (sign: string, reference: number) => ((ZODIAC_SIGNS.indexOf(sign) - reference + 12) % 12) + 1;
+
+    const ingresses = await this.getIngresses(from, to, natal.ayanamsa);
+    return {
+      kundli_id: Number(kundli.id),
+      from,
+      to,
+      ingresses: ingresses.map((ingress) => ({
+        ...ingress,
+        house_from_moon: houseFrom(ingress.to_sign, moonSign),
+        house_from_lagna: houseFrom(ingress.to_sign, lagnaSign),
+      })),
+    };
+  }
+
+  /**
+   * Transits over an already loaded kundli; callers are responsible for access checks
+   */
+  getTransitsForKundli(kundli: Kundli, date: Date, options: { windows?: boolean } = {}): GocharResult {
+    return this.gocharService.getTransits(this.toNatalInput(kundli), date, options);
+  }
+
+  private async getIngresses(from: Date, to: Date, ayanamsa: AyanamsaKey): Promise<SignIngress[]> {
+    const cacheKey = `gochar:ingresses:${ayanamsa}:${from.toISOString().split('T')[0]}:${to.toISOString().split('T')[0]}`;
+    const cached = await this.cacheService.get<SignIngress[]>(cacheKey);
+    if (cached) {
+      return cached.map((ingress) => ({ ...ingress, date: new Date(ingress.date) }));
+    }
+
+    const ingresses = this.gocharService.getSignIngresses(from, to, ayanamsa);
+    await this.cacheService.set(cacheKey, ingresses, 86400);
+    return ingresses;
+  }
+
+  private toNatalInput(kundli: Kundli): GocharNatalInput {
+    const moon = kundli.planets?.find((p) => p.planet_name === 'Moon');
+    const lagnaSignIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    if (!moon || lagnaSignIndex === -1) {
+      throw new BadRequestException('Kundli has no stored positions; regenerate the kundli');
+    }
+
+    return {
+      moonLongitude: Number(moon.longitude_degrees),
+      lagnaLongitude: lagnaSignIndex * 30 + Number(kundli.lagna_degrees || 0),
+      ayanamsa: this.kundliAyanamsaService.getKundliAyanamsa(kundli),
+      nodeType: kundli.full_data?.nodeType || 'mean',
+    };
+  }
+}
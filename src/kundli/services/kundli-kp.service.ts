@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { KP_AYANAMSA, KpChart, KpService } from '../../astrology/services/kp.service';
+import { SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { KundliDashaService } from './kundli-dasha.service';
+import { GetKpRulingPlanetsDto, KpRulingPlanetsResponseDto } from '../dto/kundli-kp.dto';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli KP Service
+ * KP cusps, sub lords and significators of a stored kundli, and ruling
+ * planets for any moment. Kundlis generated with system=kp return the KP
+ * chart saved with them; others are recast on Placidus with the KP ayanamsa.
+ */
+@Injectable()
+export class KundliKpService {
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly kpService: KpService,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly kundliDashaService: KundliDashaService,
+  ) {}
+
+  /**
+   * KP chart of a saved kundli
+   */
+  async getKpForKundli(kundliId: number, user: { id: number; type?: string }): Promise<KpChart & { kundli_id: number }> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    if (kundli.full_data?.kp) {
+      return { kundli_id: Number(kundli.id), ...(kundli.full_data.kp as KpChart) };
+    }
+
+    const { birthDate } = this.kundliDashaService.getDashaInputs(kundli);
+    const chart = await this.swissEphemerisService.calculateKundli({
+      datetime: birthDate,
+      latitude: Number(kundli.latitude),
+      longitude: Number(kundli.longitude),
+      timezone: kundli.timezone,
+      ayanamsa: KP_AYANAMSA,
+      nodeType: kundli.full_data?.nodeType || 'mean',
+      houseSystem: 'placidus',
+    });
+
+    return { kundli_id: Number(kundli.id), ...this.kpService.getChart(chart) };
+  }
+
+  /**
+   * Ruling planets at a moment and place
+   */
+  getRulingPlanets(dto: GetKpRulingPlanetsDto): KpRulingPlanetsResponseDto {
+    const at = dto.at ? new Date(dto.at) : new Date();
+    const ruling = this.kpService.getRulingPlanets(at, dto.lat, dto.lng);
+
+    return { ...ruling, at: ruling.at.toISOString() };
+  }
+}
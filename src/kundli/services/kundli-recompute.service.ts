@@ -0,0 +1,89 @@
+import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { Kundli } from '../entities/kundli.entity';
+import { KundliService } from './kundli.service';
+import { KUNDLI_ENGINE_VERSION, KundliVersionService } from './kundli-version.service';
+import { RecomputeKundlisDto, RecomputeKundlisResultDto } from '../dto/kundli-version.dto';
+
+/**
+ * Kundli Recompute Service
+ * Recasts stored kundlis from their own birth details after an engine
+ * upgrade, one batch per call, writing each result as a new version.
+ */
+@Injectable()
+export class KundliRecomputeService {
+  private readonly logger = new Logger(KundliRecomputeService.name);
+  private running = false;
+
+  constructor(
+    @InjectRepository(Kundli)
+    private readonly kundliRepository: Repository<Kundli>,
+    private readonly kundliService: KundliService,
+    private readonly kundliVersionService: KundliVersionService,
+  ) {}
+
+  /**
+   * Recompute the next batch of kundlis not yet on the current engine
+   * version (or every kundli with force), in id order
+   */
+  async recompute(dto: RecomputeKundlisDto = {}): Promise<RecomputeKundlisResultDto> {
+    if (this.running) {
+      throw new ConflictException('A kundli recompute is already running');
+    }
+    this.running = true;
+
+    const result: RecomputeKundlisResultDto = {
+      engine_version: KUNDLI_ENGINE_VERSION,
+      recomputed: 0,
+      changed: 0,
+      failed: 0,
+      last_id: null,
+      remaining: 0,
+    };
+
+    try {
+      const batch: FindOptionsWhere<Kundli> = { id: MoreThan(dto.after_id ?? 0), is_deleted: false };
+      const kundlis = await this.kundliRepository.find({
+        where: dto.force ? batch : this.pending(batch),
+        relations: ['planets'],
+        order: { id: 'ASC' },
+        take: dto.limit ?? 20,
+      });
+
+      for (const kundli of kundlis) {
+        result.last_id = Number(kundli.id);
+        try {
+          const regenerated = await this.kundliService.regenerateKundli(kundli, 'recompute');
+          result.recomputed++;
+          const diff = this.kundliVersionService.compare(regenerated.previous, regenerated.current);
+          if (this.kundliVersionService.hasChartChanged(diff)) {
+            result.changed++;
+          }
+        } catch (error) {
+          result.failed++;
+          this.logger.error(`Recompute of kundli ${kundli.id} failed:`, error);
+        }
+      }
+
+      result.remaining = await this.kundliRepository.count({ where: this.pending({ is_deleted: false }) });
+    } finally {
+      this.running = false;
+    }
+
+    this.logger.log(
+      `Kundli recompute to ${KUNDLI_ENGINE_VERSION}: ${result.recomputed} recomputed, ${result.changed} changed, ${result.failed} failed, ${result.remaining} remaining`,
+    );
+    return result;
+  }
+
+  /**
+   * Kundlis cast with another engine version, or before versioning
+   */
+  private pending(where: FindOptionsWhere<Kundli>): FindOptionsWhere<Kundli>[] {
+    return [
+      { ...where, engine_version: IsNull() },
+      { ...where, engine_version: Not(KUNDLI_ENGINE_VERSION) },
+    ];
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Inject, Logger, BadRequestException } from '@nestjs/common';
+import { IKundliRepository } from '../../core/interfaces/repositories/kundli-repository.interface';
+import { Kundli } from '../entities/kundli.entity';
+import { HOUSE_SYSTEMS, HouseSystem, SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { AshtakavargaService } from '../../astrology/services/ashtakavarga.service';
+import { ShadbalaService } from '../../astrology/services/shadbala.service';
+import { KundliStrengthResponseDto } from '../dto/kundli-strength.dto';
+import { KundliAyanamsaService } from './kundli-ayanamsa.service';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli Strength Service
+ * Serves Ashtakavarga and Shadbala of a stored kundli. Kundlis saved before
+ * strength data was stored are recalculated from their birth details and
+ * the result is saved back.
+ */
+@Injectable()
+export class KundliStrengthService {
+  private readonly logger = new Logger(KundliStrengthService.name);
+
+  constructor(
+    private readonly kundliService: KundliService,
+    @Inject('IKundliRepository')
+    private readonly kundliRepository: IKundliRepository,
+    private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly timezoneService: TimezoneService,
+    private readonly ashtakavargaService: AshtakavargaService,
+    private readonly shadbalaService: ShadbalaService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+  ) {}
+
+  /**
+   * Get Ashtakavarga bindus and Shadbala of a kundli
+   */
+  async getStrengthForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+  ): Promise<KundliStrengthResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    let strength = kundli.strength_data;
+    if (!strength?.ashtakavarga || !strength?.shadbala) {
+      strength = await this.calculateFromBirthDetails(kundli);
+      await this.kundliRepository.update(kundli, { strength_data: strength });
+      this.logger.log(`Stored strength data for kundli ${kundli.id}`);
+    }
+
+    return {
+      kundli_id: Number(kundli.id),
+      ashtakavarga: strength.ashtakavarga,
+      shadbala: strength.shadbala,
+      calculated_at: strength.calculated_at,
+    };
+  }
+
+  private async calculateFromBirthDetails(kundli: Kundli): Promise<Record<string, any>> {
+    if (!kundli.birth_date || !kundli.birth_time || kundli.latitude == null || kundli.longitude == null) {
+      throw new BadRequestException('Kundli has no stored birth details; regenerate the kundli');
+    }
+
+    const birthDate =
+      kundli.birth_date instanceof Date ? kundli.birth_date.toISOString().split('T')[0] : String(kundli.birth_date);
+    const timezone = kundli.timezone || 'Asia/Kolkata';
+    const birthTime = this.timezoneService.toUniversalTime(birthDate, kundli.birth_time, timezone);
+    const latitude = Number(kundli.latitude);
+    const longitude = Number(kundli.longitude);
+
+    const chart = await this.swissEphemerisService.calculateKundli({
+      datetime: birthTime.utc,
+      latitude,
+      longitude,
+      timezone,
+      ayanamsa: this.kundliAyanamsaService.getKundliAyanamsa(kundli),
+      houseSystem: HOUSE_SYSTEMS.includes(kundli.house_system as HouseSystem)
+        ? (kundli.house_system as HouseSystem)
+        : 'placidus',
+    });
+
+    const longitudes: Record<string, number> = {};
+    chart.planets.forEach((p) => (longitudes[p.name] = p.longitude));
+
+    return {
+      ashtakavarga: this.ashtakavargaService.calculate(longitudes, chart.lagna.longitude),
+      shadbala: this.shadbalaService.calculate({
+        planets: chart.planets,
+        lagnaLongitude: chart.lagna.longitude,
+        midheavenLongitude: chart.midheaven.longitude,
+        ayanamsa: chart.ayanamsa,
+        datetime: birthTime.utc,
+        latitude,
+        longitude,
+      }),
+      calculated_at: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Kundli } from '../entities/kundli.entity';
+import { VargaChart, VargaDivision, VargaService, VARGA_DIVISIONS } from '../../astrology/services/varga.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { VargaChartDto } from '../dto/kundli-varga.dto';
+import { KundliService } from './kundli.service';
+
+/**
+ * Kundli Varga Service
+ * Serves divisional charts of a stored kundli, computing them from the saved
+ * planet rows for kundlis generated before charts were stored.
+ */
+@Injectable()
+export class KundliVargaService {
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly vargaService: VargaService,
+  ) {}
+
+  /**
+   * Get one divisional chart (e.g. "D9", "d10" or "60") of a kundli
+   */
+  async getVargaForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+    division: string,
+  ): Promise<VargaChartDto> {
+    const divisionNumber = this.parseDivision(division);
+
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    return { kundli_id: Number(kundli.id), ...this.getChart(kundli, divisionNumber) };
+  }
+
+  /**
+   * Parse a division such as "D9", "d10" or "60"
+   */
+  parseDivision(division: string): VargaDivision {
+    const divisionNumber = parseInt((division || '').replace(/^d/i, ''), 10);
+    if (!this.vargaService.isSupportedDivision(divisionNumber)) {
+      throw new BadRequestException(
+        `Unsupported division "${division}". Supported: ${VARGA_DIVISIONS.map((d) => `D${d}`).join(', ')}`,
+      );
+    }
+    return divisionNumber;
+  }
+
+  /**
+   * Stored divisional chart of a loaded kundli, or computed from its planet rows
+   */
+  getChart(kundli: Kundli, division: VargaDivision): VargaChart {
+    return kundli.varga_charts?.[`D${division}`] || this.calculateFromStoredPlanets(kundli, division);
+  }
+
+  private calculateFromStoredPlanets(kundli: Kundli, division: VargaChart['division']): VargaChart {
+    const planets = (kundli.planets || []).map((p) => ({
+      name: p.planet_name,
+      longitude: Number(p.longitude_degrees),
+    }));
+    const lagnaSignIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    if (planets.length === 0 || lagnaSignIndex === -1) {
+      throw new BadRequestException('Kundli has no stored positions; regenerate the kundli');
+    }
+
+    const lagnaLongitude = lagnaSignIndex * 30 + Number(kundli.lagna_degrees || 0);
+    return this.vargaService.calculateVarga(lagnaLongitude, planets, division);
+  }
+}
@@ -0,0 +1,180 @@
+import { Injectable, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Kundli } from '../entities/kundli.entity';
+import { VarshaphalResult, VarshaphalService } from '../../astrology/services/varshaphal.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { CacheService } from '../../cache/cache.service';
+import { KundliDashaService } from './kundli-dasha.service';
+import { PlaceSearchService } from './place-search.service';
+import { KundliAyanamsaService } from './kundli-ayanamsa.service';
+import { GetKundliVarshaphalDto, KundliVarshaphalResponseDto } from '../dto/kundli-varshaphal.dto';
+import { KundliService } from './kundli.service';
+import { EntitlementsService } from '../../subscriptions/services/entitlements.service';
+
+const VARSHAPHAL_FEATURE = 'varshaphal';
+
+/**
+ * Kundli Varshaphal Service
+ * Tajik annual chart of a stored kundli. The chart is cast for the birth
+ * place unless a place of residence is given; results are cached per
+ * kundli revision, year and place.
+ */
+@Injectable()
+export class KundliVarshaphalService {
+  private readonly cacheTtl = 7 * 24 * 60 * 60;
+
+  constructor(
+    private readonly kundliService: KundliService,
+    private readonly varshaphalService: VarshaphalService,
+    private readonly kundliDashaService: KundliDashaService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly cacheService: CacheService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+    private readonly entitlementsService: EntitlementsService,
+  ) {}
+
+  /**
+   * Annual chart, Muntha, Varsheshwara and Mudda dasha for a Varsha year
+   */
+  async getVarshaphalForKundli(
+    kundliId: number,
+    user: { id: number; type?: string },
+    dto: GetKundliVarshaphalDto = {},
+  ): Promise<KundliVarshaphalResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    if (user.type !== 'admin') {
+      await this.checkEntitlement(user.id);
+    }
+    return this.getVarshaphal(kundli, dto);
+  }
+
+  /**
+   * Varshaphal and yearly horoscopes are premium; throws when the plan of the user lacks them
+   */
+  async checkEntitlement(userId: number): Promise<void> {
+    const entitlement = await this.entitlementsService.canPerformAction(userId, VARSHAPHAL_FEATURE);
+    if (!entitlement.allowed) {
+      throw new ForbiddenException(entitlement.reason || 'Varshaphal is not available in your plan');
+    }
+  }
+
+  /**
+   * Varshaphal of an already loaded kundli (used by the yearly horoscope)
+   */
+  async getVarshaphal(kundli: Kundli, dto: GetKundliVarshaphalDto = {}): Promise<KundliVarshaphalResponseDto> {
+    if ((dto.lat === undefined) !== (dto.lng === undefined)) {
+      throw new BadRequestException('Pass both lat and lng for the place of residence');
+    }
+
+    const natal = this.toNatalInput(kundli);
+    const birthYear = natal.birthDate.getUTCFullYear();
+    const year = dto.year ?? this.getRunningYear(natal.sunLongitude, natal.birthDate, natal.ayanamsa);
+    if (year < birthYear || year > birthYear + 120) {
+      throw new BadRequestException(`Year must be between ${birthYear} and ${birthYear + 120}`);
+    }
+
+    const location =
+      dto.lat !== undefined
+        ? { latitude: dto.lat, longitude: dto.lng, timezone: await this.placeSearchService.resolveTimezone(dto.lat, dto.lng, dto.tz) }
+        : { latitude: natal.latitude, longitude: natal.longitude, timezone: natal.timezone };
+
+    const revision = new Date(kundli.modify_date || kundli.added_date).getTime();
+    const cacheKey = `kundli:varshaphal:${kundli.id}:${revision}:${year}:${location.latitude.toFixed(2)}:${location.longitude.toFixed(2)}`;
+    const cached = await this.cacheService.get<KundliVarshaphalResponseDto>(cacheKey);
+    if (cached) {
+      return { ...cached, current_mudda_dasha: this.findCurrent(cached.mudda_dasha) };
+    }
+
+    const result = await this.varshaphalService.calculate(natal, year, location);
+    const response = this.toResponse(kundli, result, location);
+
+    await this.cacheService.set(cacheKey, response, this.cacheTtl);
+    return response;
+  }
+
+  /**
+   * Year of the Varshaphal running now for a kundli
+   */
+  getRunningVarshaYear(kundli: Kundli): number {
+    const natal = this.toNatalInput(kundli);
+    return this.getRunningYear(natal.sunLongitude, natal.birthDate, natal.ayanamsa);
+  }
+
+  /**
+   * Varsha year running now: the last birthday solar return that has passed
+   */
+  private getRunningYear(sunLongitude: number, birthDate: Date, ayanamsa: string): number {
+    const now = new Date();
+    const year = now.getUTCFullYear();
+    const solarReturn = this.varshaphalService.findSolarReturn(sunLongitude, birthDate, year, ayanamsa);
+    return solarReturn.getTime() <= now.getTime() ? year : year - 1;
+  }
+
+  private toNatalInput(kundli: Kundli) {
+    const sun = kundli.planets?.find((p) => p.planet_name === 'Sun');
+    const lagnaSignIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    if (!sun || lagnaSignIndex === -1) {
+      throw new BadRequestException('Kundli has no stored positions; regenerate the kundli');
+    }
+
+    const { birthDate, moonLongitude } = this.kundliDashaService.getDashaInputs(kundli);
+    return {
+      birthDate,
+      sunLongitude: Number(sun.longitude_degrees),
+      moonLongitude,
+      lagnaLongitude: lagnaSignIndex * 30 + Number(kundli.lagna_degrees || 0),
+      latitude: Number(kundli.latitude),
+      longitude: Number(kundli.longitude),
+      timezone: kundli.timezone || 'Asia/Kolkata',
+      ayanamsa: this.kundliAyanamsaService.getKundliAyanamsa(kundli),
+    };
+  }
+
+  private toResponse(
+    kundli: Kundli,
+    result: VarshaphalResult,
+    location: { latitude: number; longitude: number; timezone: string },
+  ): KundliVarshaphalResponseDto {
+    const muddaDasha = result.mudda_dasha.map((period) => ({
+      lord: period.lord,
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      days: period.days,
+    }));
+
+    return {
+      kundli_id: Number(kundli.id),
+      year: result.year,
+      completed_years: result.completed_years,
+      solar_return: result.solar_return.toISOString(),
+      next_solar_return: result.next_solar_return.toISOString(),
+      is_day_return: result.is_day_return,
+      location,
+      chart: {
+        lagna: {
+          sign: result.chart.lagna.sign,
+          degrees: result.chart.lagna.degrees,
+          longitude: result.chart.lagna.longitude,
+        },
+        planets: result.chart.planets.map((p) => ({
+          name: p.name,
+          longitude: p.longitude,
+          sign: p.sign,
+          degrees: p.longitude % 30,
+          house: p.rashiHouse,
+          is_retrograde: p.isRetrograde,
+        })),
+      },
+      muntha: result.muntha,
+      panchadhikaris: result.panchadhikaris,
+      panchavargiya_bala: result.panchavargiya_bala,
+      varsheshwara: result.varsheshwara,
+      mudda_dasha: muddaDasha,
+      current_mudda_dasha: this.findCurrent(muddaDasha),
+    };
+  }
+
+  private findCurrent<T extends { start: string; end: string }>(periods: T[]): T | null {
+    const now = Date.now();
+    return periods.find((p) => new Date(p.start).getTime() <= now && new Date(p.end).getTime() > now) || null;
+  }
+}
@@ -0,0 +1,340 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Kundli } from '../entities/kundli.entity';
+import { KundliPlanet } from '../entities/kundli-planet.entity';
+import { KundliVersion, KundliVersionReason } from '../entities/kundli-version.entity';
+import {
+  DashaChangeDto,
+  GetKundliVersionDiffDto,
+  KundliValueChangeDto,
+  KundliVersionDiffDto,
+  KundliVersionDto,
+  KundliVersionSummaryDto,
+  KundliVersionsResponseDto,
+  PlanetChangeDto,
+  PlanetPlacementDto,
+} from '../dto/kundli-version.dto';
+import { KundliService } from './kundli.service';
+
+// Calculation engine stamped on new kundli versions. Bump it when an
+// astronomy-engine upgrade or a change to the chart, ayanamsa or dasha
+// calculations moves stored charts, then run the admin recompute.
+export const KUNDLI_ENGINE_VERSION = 'astronomy-engine@2.1.19/r1';
+
+const COMPARED_INPUTS = [
+  'birth_date',
+  'birth_time',
+  'birth_place',
+  'latitude',
+  'longitude',
+  'timezone',
+  'ayanamsa_name',
+  'house_system',
+  'engine_version',
+] as const;
+
+/**
+ * Kundli Version Service
+ * Writes an immutable snapshot of a kundli each time it is cast, and lists
+ * and compares the snapshots so that a changed chart or dasha can be traced
+ * back to the birth details or engine version that moved it.
+ */
+@Injectable()
+export class KundliVersionService {
+  private readonly logger = new Logger(KundliVersionService.name);
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+
+  constructor(
+    @Inject(forwardRef(() => KundliService))
+    private readonly kundliService: KundliService,
+    @InjectRepository(KundliVersion)
+    private readonly versionRepository: Repository<KundliVersion>,
+    @InjectRepository(Kundli)
+    private readonly kundliRepository: Repository<Kundli>,
+  ) {}
+
+  /**
+   * Snapshot the chart a kundli currently holds as its next version. Pass the
+   * planet rows just written; otherwise the graha_sthiti of full_data or the
+   * loaded planets are used. Runs in the caller's transaction when a manager
+   * is given.
+   */
+  async record(
+    kundli: Kundli,
+    reason: KundliVersionReason,
+    planets?: KundliPlanet[],
+    engineVersion: string | null = KUNDLI_ENGINE_VERSION,
+    manager?: EntityManager,
+  ): Promise<KundliVersion> {
+    const versionRepository = manager ? manager.getRepository(KundliVersion) : this.versionRepository;
+    const kundliRepository = manager ? manager.getRepository(Kundli) : this.kundliRepository;
+
+    const version = await versionRepository.save(
+      versionRepository.create({
+        kundli_id: kundli.id,
+        user_id: kundli.user_id,
+        version: (kundli.version || 0) + 1,
+        reason,
+        engine_version: engineVersion,
+        ayanamsa_name: kundli.ayanamsa_name,
+        ayanamsa: kundli.ayanamsa,
+        house_system: kundli.house_system || 'placidus',
+        birth_date: this.toDateString(kundli.birth_date),
+        birth_time: kundli.birth_time,
+        birth_place: kundli.birth_place,
+        latitude: kundli.latitude,
+        longitude: kundli.longitude,
+        timezone: kundli.timezone,
+        chart: {
+          lagna: { sign: kundli.lagna_name, degrees: kundli.lagna_degrees != null ? Number(kundli.lagna_degrees) : null },
+          nakshatra: { name: kundli.nakshatra, pada: kundli.pada },
+          planets: this.getPlanets(kundli, planets),
+        },
+        dasha: this.getDasha(kundli),
+      }),
+    );
+
+    // Raw update: saving the entity would cascade its loaded planet rows
+    await kundliRepository.update(kundli.id, { version: version.version, engine_version: engineVersion });
+    kundli.version = version.version;
+    kundli.engine_version = engineVersion;
+
+    this.logger.log(`Recorded version ${version.version} (${reason}) of kundli ${kundli.id}`);
+    return version;
+  }
+
+  /**
+   * Snapshot a kundli cast before versioning, so that its first regeneration
+   * has something to compare against. Returns the latest version otherwise.
+   */
+  async ensureBaseline(kundli: Kundli): Promise<KundliVersion> {
+    if (kundli.version > 0) {
+      const latest = await this.versionRepository.findOne({ where: { kundli_id: kundli.id, version: kundli.version } });
+      if (latest) {
+        return latest;
+      }
+    }
+    return this.record(kundli, 'backfill', undefined, kundli.engine_version);
+  }
+
+  async getVersions(kundliId: number, user: { id: number; type?: string }): Promise<KundliVersionsResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    const versions = await this.versionRepository.find({
+      where: { kundli_id: kundli.id, is_deleted: false },
+      order: { version: 'DESC' },
+    });
+
+    return {
+      kundli_id: Number(kundli.id),
+      current_version: kundli.version,
+      versions: versions.map((v) => this.toSummary(v)),
+    };
+  }
+
+  async getVersion(kundliId: number, version: number, user: { id: number; type?: string }): Promise<KundliVersionDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    const found = await this.findVersion(kundli.id, version);
+    return { ...this.toSummary(found), chart: found.chart, dasha: found.dasha };
+  }
+
+  /**
+   * Compare two versions of a kundli, by default the latest with the one before
+   */
+  async getDiff(
+    kundliId: number,
+    dto: GetKundliVersionDiffDto,
+    user: { id: number; type?: string },
+  ): Promise<KundliVersionDiffDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+    const to = dto.to ?? kundli.version;
+    const from = dto.from ?? to - 1;
+    if (from < 1 || from >= to) {
+      throw new BadRequestException('from must be an earlier version than to');
+    }
+
+    const [older, newer] = await Promise.all([this.findVersion(kundli.id, from), this.findVersion(kundli.id, to)]);
+    return this.compare(older, newer);
+  }
+
+  compare(older: KundliVersion, newer: KundliVersion): KundliVersionDiffDto {
+    const inputs: KundliValueChangeDto[] = [];
+    for (const field of COMPARED_INPUTS) {
+      const from = older[field];
+      const to = newer[field];
+      const same = field === 'latitude' || field === 'longitude' ? Math.abs(Number(from) - Number(to)) < 1e-6 : from === to;
+      if (!same) {
+        inputs.push({ field, from, to });
+      }
+    }
+
+    const lagna = older.chart.lagna?.sign !== newer.chart.lagna?.sign
+      ? { field: 'lagna', from: older.chart.lagna?.sign ?? null, to: newer.chart.lagna?.sign ?? null }
+      : null;
+    const nakshatraOf = (v: KundliVersion) => (v.chart.nakshatra?.name ? `${v.chart.nakshatra.name} pada ${v.chart.nakshatra.pada}` : null);
+    const nakshatra = nakshatraOf(older) !== nakshatraOf(newer)
+      ? { field: 'nakshatra', from: nakshatraOf(older), to: nakshatraOf(newer) }
+      : null;
+
+    return {
+      kundli_id: Number(newer.kundli_id),
+      from_version: older.version,
+      to_version: newer.version,
+      inputs,
+      lagna,
+      nakshatra,
+      planets: this.comparePlanets(older.chart.planets || [], newer.chart.planets || []),
+      dasha: older.dasha && newer.dasha ? this.compareDasha(older.dasha, newer.dasha) : null,
+    };
+  }
+
+  /**
+   * Whether the chart or dasha moved between two versions
+   */
+  hasChartChanged(diff: KundliVersionDiffDto): boolean {
+    return !!diff.lagna || !!diff.nakshatra || diff.planets.length > 0 || !!diff.dasha?.changed;
+  }
+
+  private comparePlanets(older: Record<string, any>[], newer: Record<string, any>[]): PlanetChangeDto[] {
+    const changes: PlanetChangeDto[] = [];
+    for (const before of older) {
+      const after = newer.find((p) => p.name === before.name);
+      if (!after) {
+        continue;
+      }
+
+      const moved: string[] = [];
+      if (before.sign !== after.sign) moved.push('sign');
+      if (before.house !== after.house) moved.push('house');
+      if (before.nakshatra !== after.nakshatra) moved.push('nakshatra');
+      if (before.pada !== after.pada) moved.push('pada');
+      if (before.is_retrograde !== after.is_retrograde) moved.push('retrograde');
+      if (moved.length === 0) {
+        continue;
+      }
+
+      const shift = ((((after.longitude - before.longitude) % 360) + 540) % 360) - 180;
+      changes.push({
+        name: before.name,
+        changes: moved,
+        longitude_shift: Math.round(shift * 10000) / 10000,
+        from: this.toPlacement(before),
+        to: this.toPlacement(after),
+      });
+    }
+    return changes;
+  }
+
+  private compareDasha(older: Record<string, any>, newer: Record<string, any>): DashaChangeDto {
+    const olderPeriods: Record<string, any>[] = older.mahadasha || [];
+    const newerPeriods: Record<string, any>[] = newer.mahadasha || [];
+    const sameLords =
+      olderPeriods.length === newerPeriods.length && olderPeriods.every((p, i) => p.lord === newerPeriods[i].lord);
+
+    let maxShiftMs = 0;
+    for (let i = 0; i < Math.min(olderPeriods.length, newerPeriods.length); i++) {
+      maxShiftMs = Math.max(maxShiftMs, Math.abs(Date.parse(newerPeriods[i].start) - Date.parse(olderPeriods[i].start)));
+    }
+    const maxShiftDays = Math.round((maxShiftMs / this.dayMs) * 10) / 10;
+
+    const now = Date.now();
+    const runningLord = (periods: Record<string, any>[]) =>
+      periods.find((p) => Date.parse(p.start) <= now && now < Date.parse(p.end))?.lord ?? null;
+
+    return {
+      changed: !sameLords || maxShiftDays >= 1,
+      balance_lord: { field: 'balance_lord', from: older.balance_at_birth?.lord ?? null, to: newer.balance_at_birth?.lord ?? null },
+      balance_years: {
+        from: older.balance_at_birth?.balance_years ?? null,
+        to: newer.balance_at_birth?.balance_years ?? null,
+      },
+      current_mahadasha: { field: 'current_mahadasha', from: runningLord(olderPeriods), to: runningLord(newerPeriods) },
+      max_shift_days: maxShiftDays,
+    };
+  }
+
+  private getPlanets(kundli: Kundli, rows?: KundliPlanet[]): Record<string, any>[] {
+    const grahaSthiti = kundli.full_data?.graha_sthiti;
+    if (!rows && grahaSthiti) {
+      return Object.values(grahaSthiti).map((p: any) => ({
+        name: p.name,
+        longitude: Number(p.longitude),
+        sign: p.sign,
+        house: p.house,
+        rashi_house: p.rashi_house ?? null,
+        nakshatra: p.nakshatra ?? null,
+        pada: p.nakshatra_pada ?? null,
+        is_retrograde: !!p.is_retrograde,
+        is_combust: !!p.is_combust,
+      }));
+    }
+
+    return (rows || kundli.planets || [])
+      .filter((p) => !p.is_deleted)
+      .map((p) => ({
+        name: p.planet_name,
+        longitude: Number(p.longitude_degrees),
+        sign: p.sign_name,
+        house: p.house_number,
+        rashi_house: p.rashi_house_number,
+        nakshatra: p.nakshatra,
+        pada: p.pada,
+        is_retrograde: p.is_retrograde,
+        is_combust: p.is_combust,
+      }));
+  }
+
+  private getDasha(kundli: Kundli): Record<string, any> | null {
+    const vimshottari = kundli.dasha_timeline?.vimshottari;
+    if (!vimshottari) {
+      return null;
+    }
+
+    return {
+      birth_datetime_utc: vimshottari.birth_datetime_utc,
+      moon_longitude: vimshottari.moon_longitude,
+      balance_at_birth: vimshottari.balance_at_birth,
+      mahadasha: (vimshottari.mahadasha || []).map((m) => ({ lord: m.lord, start: m.start, end: m.end })),
+    };
+  }
+
+  private async findVersion(kundliId: number, version: number): Promise<KundliVersion> {
+    const found = await this.versionRepository.findOne({ where: { kundli_id: kundliId, version, is_deleted: false } });
+    if (!found) {
+      throw new NotFoundException(`Kundli version ${version} not found`);
+    }
+    return found;
+  }
+
+  private toSummary(version: KundliVersion): KundliVersionSummaryDto {
+    return {
+      version: version.version,
+      reason: version.reason,
+      engine_version: version.engine_version,
+      ayanamsa_name: version.ayanamsa_name,
+      ayanamsa: version.ayanamsa != null ? Number(version.ayanamsa) : null,
+      house_system: version.house_system,
+      birth_date: version.birth_date,
+      birth_time: version.birth_time,
+      birth_place: version.birth_place,
+      latitude: Number(version.latitude),
+      longitude: Number(version.longitude),
+      timezone: version.timezone,
+      created_at: version.added_date,
+    };
+  }
+
+  private toPlacement(planet: Record<string, any>): PlanetPlacementDto {
+    return {
+      sign: planet.sign,
+      house: planet.house,
+      nakshatra: planet.nakshatra ?? null,
+      pada: planet.pada ?? null,
+      is_retrograde: !!planet.is_retrograde,
+    };
+  }
+
+  private toDateString(value: Date | string): string {
+    return value instanceof Date ? value.toISOString().split('T')[0] : String(value).split('T')[0];
+  }
+}
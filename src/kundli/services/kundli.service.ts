@@ -1,56 +1,110 @@
-import { Injectable, Logger, BadRequestException, Inject } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger, BadRequestException, Inject, NotFoundException, forwardRef } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { firstValueFrom } from 'rxjs';
+import { DataSource, EntityManager, Repository } from 'typeorm';
 import { GenerateKundliDto } from '../dto/generate-kundli.dto';
-import { KundliResponseDto } from '../dto/kundli-response.dto';
+import { HouseDto, KundliResponseDto, PlanetPositionDto } from '../dto/kundli-response.dto';
 import { IKundliRepository } from '../../core/interfaces/repositories/kundli-repository.interface';
-import { Kundli } from '../entities/kundli.entity';
+import { Kundli, KundliDashaTimeline } from '../entities/kundli.entity';
 import { KundliPlanet } from '../entities/kundli-planet.entity';
 import { KundliHouse } from '../entities/kundli-house.entity';
-import { SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { HouseSystem, KundliData, SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { AyanamsaKey, DEFAULT_AYANAMSA } from '../../astrology/services/ayanamsa.service';
+import { NodeType } from '../../astrology/services/ephemeris.service';
+import { ResolvedBirthTime, TimezoneService } from '../../astrology/services/timezone.service';
+import { DashaPeriod, VimshottariDashaService } from '../../astrology/services/vimshottari-dasha.service';
+import { KundliDashaService } from './kundli-dasha.service';
+import { VargaChart, VargaService } from '../../astrology/services/varga.service';
+import { PlaceSearchService } from './place-search.service';
+import { AshtakavargaService } from '../../astrology/services/ashtakavarga.service';
+import { ShadbalaInput, ShadbalaService } from '../../astrology/services/shadbala.service';
+import { DetectedYoga } from '../../astrology/services/yoga-engine.service';
+import { YogaRuleService } from './yoga-rule.service';
+import { DoshaAnalysis, DoshaService } from '../../astrology/services/dosha.service';
+import { GocharService } from '../../astrology/services/gochar.service';
+import { KP_AYANAMSA, KpService } from '../../astrology/services/kp.service';
+import { KundliAyanamsaService } from './kundli-ayanamsa.service';
+import { KUNDLI_ENGINE_VERSION, KundliVersionService } from './kundli-version.service';
+import { KundliVersion } from '../entities/kundli-version.entity';
+import { ordinal } from '../../common/utils/format.util';
 
 @Injectable()
 export class KundliService {
   private readonly logger = new Logger(KundliService.name);
 
   constructor(
-    private readonly httpService: HttpService,
     @Inject('IKundliRepository')
     private readonly kundliRepository: IKundliRepository,
     @InjectRepository(KundliPlanet)
     private readonly kundliPlanetRepository: Repository<KundliPlanet>,
     @InjectRepository(KundliHouse)
     private readonly kundliHouseRepository: Repository<KundliHouse>,
+    private readonly dataSource: DataSource,
     private readonly swissEphemerisService: SwissEphemerisService,
+    private readonly timezoneService: TimezoneService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly vimshottariDashaService: VimshottariDashaService,
+    @Inject(forwardRef(() => KundliDashaService))
+    private readonly kundliDashaService: KundliDashaService,
+    private readonly vargaService: VargaService,
+    private readonly ashtakavargaService: AshtakavargaService,
+    private readonly shadbalaService: ShadbalaService,
+    @Inject(forwardRef(() => YogaRuleService))
+    private readonly yogaRuleService: YogaRuleService,
+    private readonly doshaService: DoshaService,
+    private readonly gocharService: GocharService,
+    private readonly kpService: KpService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+    @Inject(forwardRef(() => KundliVersionService))
+    private readonly kundliVersionService: KundliVersionService,
   ) {}
 
+  /**
+   * Stored kundli a user may read: their own, or any for an admin
+   */
+  async findAccessibleKundli(kundliId: number, user: { id: number; type?: string }): Promise<Kundli> {
+    const kundli = await this.kundliRepository.findById(kundliId);
+    if (!kundli || (user.type !== 'admin' && Number(kundli.user_id) !== Number(user.id))) {
+      throw new NotFoundException('Kundli not found');
+    }
+    return kundli;
+  }
+
   /**
    * Generate kundli using Swiss Ephemeris
    */
   async generateKundli(dto: GenerateKundliDto, userId?: number): Promise<KundliResponseDto> {
     try {
-      // Parse birth date and time
-      const birthDateTime = new Date(`${dto.birth_date}T${dto.birth_time}`);
-      
-      // Get coordinates if not provided
-      let { latitude, longitude, timezone } = dto;
-      if (!latitude || !longitude) {
-        const coords = await this.getCoordinatesFromPlace(dto.birth_place);
-        latitude = coords.latitude;
-        longitude = coords.longitude;
-        timezone = coords.timezone || 'Asia/Kolkata';
+      // Resolve coordinates and timezone from the gazetteer if not provided
+      const { latitude, longitude, timezone } = await this.resolveBirthLocation(
+        dto.birth_place,
+        dto.latitude,
+        dto.longitude,
+        dto.timezone,
+      );
+
+      // Convert local birth date and time to UT using the tz database
+      const birthTime = this.resolveBirthTime(dto.birth_date, dto.birth_time, timezone);
+
+      // KP always works on Placidus cusps, with the KP ayanamsa unless another is asked for
+      const isKp = dto.system === 'kp';
+      if (isKp && dto.house_system && dto.house_system !== 'placidus') {
+        throw new BadRequestException('The KP system uses Placidus cusps; omit house_system or pass placidus');
       }
+      const ayanamsaName = await this.kundliAyanamsaService.resolve(
+        dto.ayanamsa_name ?? dto.ayanamsa,
+        isKp ? KP_AYANAMSA : undefined,
+      );
 
       // Use Swiss Ephemeris for accurate calculations
       this.logger.log('Using Swiss Ephemeris for kundli calculation');
       const swissData = await this.swissEphemerisService.calculateKundli({
-        datetime: birthDateTime,
+        datetime: birthTime.utc,
         latitude,
         longitude,
-        timezone: timezone || 'Asia/Kolkata',
-        ayanamsa: dto.ayanamsa || 1, // 1 = Lahiri (default)
+        timezone,
+        ayanamsa: ayanamsaName,
+        nodeType: dto.node_type || 'mean',
+        houseSystem: dto.house_system || 'placidus',
       });
 
       // Assign planets to houses
@@ -60,7 +114,18 @@ export class KundliService {
       );
 
       // Transform Swiss Ephemeris data to our standard format
-      const transformedData = this.transformSwissEphemerisResponse(swissData, dto, planetsWithHouses);
+      const transformedData = this.transformSwissEphemerisResponse(
+        swissData,
+        dto,
+        planetsWithHouses,
+        { latitude, longitude },
+        birthTime,
+        ayanamsaName,
+      );
+      if (isKp) {
+        transformedData.system = 'kp';
+        transformedData.kp = this.kpService.getChart(swissData);
+      }
 
       // Save to database if user is authenticated
       if (userId) {
@@ -77,6 +142,56 @@ export class KundliService {
   }
 
 
+  /**
+   * Calculate a chart for birth details without saving it
+   */
+  async calculateBirthChart(details: {
+    birth_date: string; // YYYY-MM-DD
+    birth_time: string; // HH:mm:ss
+    birth_place: string;
+    latitude?: number;
+    longitude?: number;
+    timezone?: string;
+    ayanamsa?: AyanamsaKey;
+    node_type?: 'mean' | 'true';
+  }): Promise<{ chart: KundliData; latitude: number; longitude: number; timezone: string; birthTime: ResolvedBirthTime }> {
+    const { latitude, longitude, timezone } = await this.resolveBirthLocation(
+      details.birth_place,
+      details.latitude,
+      details.longitude,
+      details.timezone,
+    );
+    const birthTime = this.resolveBirthTime(details.birth_date, details.birth_time, timezone);
+
+    const chart = await this.swissEphemerisService.calculateKundli({
+      datetime: birthTime.utc,
+      latitude,
+      longitude,
+      timezone,
+      ayanamsa: details.ayanamsa || DEFAULT_AYANAMSA,
+      nodeType: details.node_type || 'mean',
+    });
+
+    return { chart, latitude, longitude, timezone, birthTime };
+  }
+
+  /**
+   * Convert local birth date/time in an IANA timezone to UT
+   */
+  private resolveBirthTime(birthDate: string, birthTime: string, timezone: string): ResolvedBirthTime {
+    if (!this.timezoneService.isValidTimezone(timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+
+    const resolved = this.timezoneService.toUniversalTime(birthDate, birthTime, timezone);
+    if (resolved.isAmbiguous || resolved.isNonexistent) {
+      this.logger.warn(
+        `Birth time ${birthDate} ${birthTime} is ${resolved.isAmbiguous ? 'ambiguous' : 'nonexistent'} in ${timezone}, using UTC${resolved.utcOffset}`,
+      );
+    }
+    return resolved;
+  }
+
   /**
    * Transform Swiss Ephemeris data to standard format
    */
@@ -84,93 +199,117 @@ export class KundliService {
     swissData: any,
     dto: GenerateKundliDto,
     planetsWithHouses: any[],
+    coordinates: { latitude: number; longitude: number },
+    birthTime: ResolvedBirthTime,
+    ayanamsaName: string,
   ): KundliResponseDto {
     return {
       name: dto.name,
       birth_date: dto.birth_date,
       birth_time: dto.birth_time,
       birth_place: dto.birth_place,
-      latitude: dto.latitude || 0,
-      longitude: dto.longitude || 0,
-      timezone: dto.timezone || 'Asia/Kolkata',
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      timezone: birthTime.timezone,
+      utc_offset: birthTime.utcOffset,
+      utc_offset_minutes: birthTime.utcOffsetMinutes,
+      birth_datetime_utc: birthTime.utc.toISOString(),
       lagna: {
         sign: swissData.lagna.sign,
         degrees: swissData.lagna.degrees,
         lord: swissData.lagna.signLord,
+        longitude: swissData.lagna.longitude,
+      },
+      midheaven: {
+        sign: swissData.midheaven.sign,
+        longitude: swissData.midheaven.longitude,
       },
       nakshatra: {
         name: swissData.nakshatra.name,
         pada: swissData.nakshatra.pada,
         lord: swissData.nakshatra.lord,
       },
-      planets: planetsWithHouses.map((planet) => ({
-        name: planet.name,
-        longitude: planet.longitude,
-        latitude: planet.latitude,
-        sign: planet.sign,
-        sign_lord: planet.signLord,
-        nakshatra: planet.nakshatra,
-        nakshatra_lord: planet.nakshatraLord,
-        nakshatra_pada: planet.nakshatraPada,
-        house: planet.house,
-        is_retrograde: planet.isRetrograde,
-      })),
-      houses: swissData.houses.map((house: any) => ({
-        house_number: house.houseNumber,
-        sign: house.sign,
-        sign_lord: house.signLord,
-        start_degree: house.startDegree,
-        end_degree: house.endDegree,
-      })),
+      planets: this.toPlanetPositions(planetsWithHouses),
+      houses: this.toHouses(swissData.houses),
+      house_system: swissData.houseSystem,
       ayanamsa: swissData.ayanamsa,
+      ayanamsa_name: ayanamsaName,
+      node_type: swissData.nodeType,
       tithi: swissData.tithi || '',
       yoga: swissData.yoga || '',
       karana: swissData.karana || '',
+      system: 'vedic',
       full_data: swissData,
     };
   }
 
+  private toPlanetPositions(planetsWithHouses: any[]): PlanetPositionDto[] {
+    return planetsWithHouses.map((planet) => ({
+      name: planet.name,
+      longitude: planet.longitude,
+      latitude: planet.latitude,
+      distance: planet.distance,
+      speed: planet.speed,
+      sign: planet.sign,
+      sign_lord: planet.signLord,
+      nakshatra: planet.nakshatra,
+      nakshatra_lord: planet.nakshatraLord,
+      nakshatra_pada: planet.nakshatraPada,
+      house: planet.house,
+      rashi_house: planet.rashiHouse,
+      is_retrograde: planet.isRetrograde,
+      is_stationary: planet.isStationary,
+      is_combust: planet.isCombust,
+    }));
+  }
+
+  private toHouses(houses: any[]): HouseDto[] {
+    return houses.map((house: any) => ({
+      house_number: house.houseNumber,
+      sign: house.sign,
+      sign_lord: house.signLord,
+      start_degree: house.startDegree,
+      end_degree: house.endDegree,
+      mid_degree: house.midLongitude,
+    }));
+  }
+
 
   /**
-   * Get coordinates from place name (using free geocoding)
+   * Resolve birth coordinates and timezone, filling gaps from the offline gazetteer
+   */
+  private async resolveBirthLocation(
+    place: string,
+    latitude?: number,
+    longitude?: number,
+    timezone?: string,
+  ): Promise<{ latitude: number; longitude: number; timezone: string }> {
+    if (latitude == null || longitude == null) {
+      const coords = await this.getCoordinatesFromPlace(place);
+      latitude = coords.latitude;
+      longitude = coords.longitude;
+      timezone = timezone || coords.timezone;
+    }
+
+    timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, timezone);
+    return { latitude, longitude, timezone };
+  }
+
+  /**
+   * Get coordinates and timezone from place name (offline gazetteer)
    */
   private async getCoordinatesFromPlace(place: string): Promise<{
     latitude: number;
     longitude: number;
-    timezone?: string;
+    timezone: string;
   }> {
-    try {
-      // Use free Nominatim API for geocoding
-      const response = await firstValueFrom(
-        this.httpService.get<Array<{ lat: string; lon: string }>>(`https://nominatim.openstreetmap.org/search`, {
-          params: {
-            q: place,
-            format: 'json',
-            limit: 1,
-          },
-          headers: {
-            'User-Agent': 'I-Bhakt-Kundli-Service',
-          },
-        }),
-      );
+    const match = await this.placeSearchService.resolve(place);
+    this.logger.log(`Resolved birth place "${place}" to ${match.display_name}`);
 
-      if (response.data && response.data.length > 0) {
-        const result = response.data[0];
-        return {
-          latitude: parseFloat(result.lat),
-          longitude: parseFloat(result.lon),
-          timezone: 'Asia/Kolkata', // Default, can be improved
-        };
-      }
-    } catch (error) {
-      this.logger.warn(`Failed to geocode place: ${place}`, error);
-    }
-
-    // Default to Mumbai if geocoding fails
     return {
-      latitude: 19.0760,
-      longitude: 72.8777,
-      timezone: 'Asia/Kolkata',
+      latitude: match.latitude,
+      longitude: match.longitude,
+      timezone: match.timezone,
     };
   }
 
@@ -187,18 +326,30 @@ export class KundliService {
   ): Promise<void> {
     try {
       // Calculate dasha timeline
-      const birthDateTime = new Date(`${dto.birth_date}T${dto.birth_time}`);
-      const dashaTimeline = this.calculateVimshottariDasha(
-        birthDateTime,
-        kundliData.nakshatra.name,
-        kundliData.nakshatra.lord,
-      );
+      const birthDateTime = new Date(kundliData.birth_datetime_utc);
+      const moonLongitude = kundliData.planets.find((p) => p.name === 'Moon').longitude;
+      const dashaTimeline = this.calculateVimshottariDasha(birthDateTime, moonLongitude);
 
-      // Create navamsa data placeholder (can be enhanced later)
-      const navamsaData = {
-        d9_chart: {},
-        marriage_strength: '',
-      };
+      // Calculate divisional charts
+      const { vargaCharts, navamsaData } = this.calculateVargaData(kundliData.lagna.longitude, kundliData.planets);
+
+      // Calculate Ashtakavarga and Shadbala
+      const strengthData = this.calculateStrengthData({
+        datetime: birthDateTime,
+        latitude,
+        longitude,
+        lagnaLongitude: kundliData.lagna.longitude,
+        midheavenLongitude: kundliData.midheaven.longitude,
+        ayanamsa: kundliData.ayanamsa,
+        planets: kundliData.planets.map((p) => ({
+          name: p.name,
+          longitude: p.longitude,
+          latitude: p.latitude,
+          speed: p.speed,
+          isRetrograde: p.is_retrograde,
+          isStationary: p.is_stationary,
+        })),
+      });
 
       // Create kundli record
       const savedKundli = await this.kundliRepository.create({
@@ -209,6 +360,7 @@ export class KundliService {
         latitude,
         longitude,
         timezone,
+        utc_offset_minutes: kundliData.utc_offset_minutes,
         lagna_degrees: kundliData.lagna.degrees,
         lagna_name: kundliData.lagna.sign,
         nakshatra: kundliData.nakshatra.name,
@@ -217,58 +369,23 @@ export class KundliService {
         yoga: kundliData.yoga,
         karana: kundliData.karana,
         ayanamsa: kundliData.ayanamsa,
-        full_data: kundliData.full_data,
+        ayanamsa_name: kundliData.ayanamsa_name,
+        house_system: kundliData.house_system,
+        full_data: kundliData.kp ? { ...kundliData.full_data, system: 'kp', kp: kundliData.kp } : kundliData.full_data,
         dasha_timeline: dashaTimeline,
         navamsa_data: navamsaData,
+        varga_charts: vargaCharts,
+        strength_data: strengthData,
       });
 
-      // Save planets to kundli_planets table
-      if (kundliData.planets && kundliData.planets.length > 0) {
-        const planetsToSave = kundliData.planets.map((planet) => {
-          const planetEntity = this.kundliPlanetRepository.create({
-            kundli_id: savedKundli.id,
-            planet_name: planet.name,
-            longitude_degrees: planet.longitude,
-            sign_number: this.getSignNumber(planet.sign),
-            sign_name: planet.sign,
-            house_number: planet.house || 0,
-            nakshatra: planet.nakshatra || null,
-            pada: planet.nakshatra_pada || null,
-            is_retrograde: planet.is_retrograde || false,
-            speed: null, // Can be calculated if needed
-            metadata: {
-              latitude: planet.latitude,
-              sign_lord: planet.sign_lord,
-              nakshatra_lord: planet.nakshatra_lord,
-            },
-          });
-          return planetEntity;
-        });
-
-        await this.kundliPlanetRepository.save(planetsToSave);
-        this.logger.log(`Saved ${planetsToSave.length} planets for kundli ${savedKundli.id}`);
-      }
+      // Save planets and houses to the kundli_planets and kundli_houses tables
+      const planets = await this.savePlanetRows(savedKundli.id, kundliData.planets || []);
+      await this.saveHouseRows(savedKundli.id, kundliData.houses || []);
 
-      // Save houses to kundli_houses table
-      if (kundliData.houses && kundliData.houses.length > 0) {
-        const housesToSave = kundliData.houses.map((house) => {
-          const houseEntity = this.kundliHouseRepository.create({
-            kundli_id: savedKundli.id,
-            house_number: house.house_number,
-            cusp_degrees: house.start_degree || 0,
-            sign_name: house.sign,
-            sign_number: this.getSignNumber(house.sign),
-            metadata: {
-              sign_lord: house.sign_lord,
-              end_degree: house.end_degree,
-            },
-          });
-          return houseEntity;
-        });
-
-        await this.kundliHouseRepository.save(housesToSave);
-        this.logger.log(`Saved ${housesToSave.length} houses for kundli ${savedKundli.id}`);
-      }
+      // Save dasha periods to dasha record tables
+      await this.kundliDashaService.saveDashaRecords(savedKundli.id, userId, birthDateTime, moonLongitude);
+
+      await this.kundliVersionService.record(savedKundli, 'created', planets);
 
       this.logger.log(`Kundli saved for user ${userId} with all related data`);
     } catch (error) {
@@ -277,6 +394,67 @@ export class KundliService {
     }
   }
 
+  private async savePlanetRows(kundliId: number, planets: PlanetPositionDto[], manager?: EntityManager): Promise<KundliPlanet[]> {
+    if (planets.length === 0) {
+      return [];
+    }
+
+    const repository = manager ? manager.getRepository(KundliPlanet) : this.kundliPlanetRepository;
+    const saved = await repository.save(
+      planets.map((planet) =>
+        repository.create({
+          kundli_id: kundliId,
+          planet_name: planet.name,
+          longitude_degrees: planet.longitude,
+          sign_number: this.getSignNumber(planet.sign),
+          sign_name: planet.sign,
+          house_number: planet.house || 0,
+          rashi_house_number: planet.rashi_house || null,
+          nakshatra: planet.nakshatra || null,
+          pada: planet.nakshatra_pada || null,
+          is_retrograde: planet.is_retrograde || false,
+          is_stationary: planet.is_stationary || false,
+          is_combust: planet.is_combust || false,
+          speed: planet.speed ?? null,
+          metadata: {
+            latitude: planet.latitude,
+            distance: planet.distance,
+            sign_lord: planet.sign_lord,
+            nakshatra_lord: planet.nakshatra_lord,
+          },
+        }),
+      ),
+    );
+    this.logger.log(`Saved ${saved.length} planets for kundli ${kundliId}`);
+    return saved;
+  }
+
+  private async saveHouseRows(kundliId: number, houses: HouseDto[], manager?: EntityManager): Promise<KundliHouse[]> {
+    if (houses.length === 0) {
+      return [];
+    }
+
+    const repository = manager ? manager.getRepository(KundliHouse) : this.kundliHouseRepository;
+    const saved = await repository.save(
+      houses.map((house) =>
+        repository.create({
+          kundli_id: kundliId,
+          house_number: house.house_number,
+          cusp_degrees: house.start_degree || 0,
+          sign_name: house.sign,
+          sign_number: this.getSignNumber(house.sign),
+          metadata: {
+            sign_lord: house.sign_lord,
+            end_degree: house.end_degree,
+            mid_degree: house.mid_degree,
+          },
+        }),
+      ),
+    );
+    this.logger.log(`Saved ${saved.length} houses for kundli ${kundliId}`);
+    return saved;
+  }
+
   /**
    * Get sign number from sign name (1-12)
    */
@@ -400,28 +578,46 @@ export class KundliService {
     birth_date: string; // YYYY-MM-DD
     birth_time: string; // HH:mm:ss
     birth_place: string;
-    latitude: number;
-    longitude: number;
-    timezone: string;
+    latitude?: number;
+    longitude?: number;
+    timezone?: string;
+    ayanamsa_name?: string; // ayanamsa of the kundli being updated, kept even if since disabled
+    house_system?: HouseSystem;
+    node_type?: NodeType;
+    system?: 'vedic' | 'kp'; // KP kundlis also store their KP chart
   }): Promise<{
     kundli_db_update: {
       where: { user_id: number };
       update: any;
     };
+    planets: PlanetPositionDto[];
+    houses: HouseDto[];
   }> {
     try {
-      const { user_id, birth_date, birth_time, birth_place, latitude, longitude, timezone } = params;
+      const { user_id, birth_date, birth_time, birth_place } = params;
+      const { latitude, longitude, timezone } = await this.resolveBirthLocation(
+        birth_place,
+        params.latitude,
+        params.longitude,
+        params.timezone,
+      );
 
-      // Parse birth date and time
-      const birthDateTime = new Date(`${birth_date}T${birth_time}`);
+      // Convert local birth date and time to UT using the tz database
+      const birthTime = this.resolveBirthTime(birth_date, birth_time, timezone);
+      const birthDateTime = birthTime.utc;
 
-      // Calculate kundli using Swiss Ephemeris (Lahiri Ayanamsa)
+      // Calculate kundli using Swiss Ephemeris
+      const ayanamsaName = params.ayanamsa_name
+        ? this.kundliAyanamsaService.resolveStored(params.ayanamsa_name)
+        : await this.kundliAyanamsaService.resolve();
       const swissData = await this.swissEphemerisService.calculateKundli({
         datetime: birthDateTime,
         latitude,
         longitude,
-        timezone: timezone || 'Asia/Kolkata',
-        ayanamsa: 1, // Lahiri (default)
+        timezone,
+        ayanamsa: ayanamsaName,
+        nodeType: params.node_type || 'mean',
+        houseSystem: params.house_system,
       });
 
       // Assign planets to houses
@@ -436,23 +632,33 @@ export class KundliService {
       const nakshatraPada = swissData.nakshatra.pada || 1;
 
       // Calculate Vimshottari Dasha
-      const dashaData = this.calculateVimshottariDasha(
-        birthDateTime,
-        nakshatraName,
-        swissData.nakshatra.lord,
-      );
+      const dashaData = this.calculateVimshottariDasha(birthDateTime, moon.longitude);
+
+      // Calculate divisional charts
+      const vargaData = this.calculateVargaData(swissData.lagna.longitude, planetsWithHouses);
+
+      // Calculate Ashtakavarga and Shadbala
+      const strengthData = this.calculateStrengthData({
+        datetime: birthDateTime,
+        latitude,
+        longitude,
+        lagnaLongitude: swissData.lagna.longitude,
+        midheavenLongitude: swissData.midheaven.longitude,
+        ayanamsa: swissData.ayanamsa,
+        planets: planetsWithHouses,
+      });
 
       // Calculate Bhav Analysis
       const bhavAnalysis = this.calculateBhavAnalysis(planetsWithHouses, swissData.houses);
 
-      // Calculate Yog Details
-      const yogDetails = this.calculateYogDetails(planetsWithHouses, swissData.houses);
+      // Detect yogas with the rule engine
+      const yogDetails = await this.calculateYogDetails(swissData.lagna.longitude, planetsWithHouses, strengthData);
 
       // Calculate Dosha Details
-      const doshaDetails = this.calculateDoshaDetails(planetsWithHouses, swissData.houses);
+      const doshaDetails = this.calculateDoshaDetails(swissData.lagna.longitude, planetsWithHouses);
 
       // Calculate Gochar Analysis
-      const gocharAnalysis = this.calculateGocharAnalysis(planetsWithHouses);
+      const gocharAnalysis = this.calculateGocharAnalysis(swissData.lagna.longitude, planetsWithHouses);
 
       // Format planetary positions
       const grahaSthiti: Record<string, any> = {};
@@ -480,7 +686,10 @@ export class KundliService {
           nakshatra_lord: planet.nakshatraLord,
           nakshatra_pada: planet.nakshatraPada,
           house: planet.house,
+          rashi_house: planet.rashiHouse,
           is_retrograde: planet.isRetrograde,
+          is_stationary: planet.isStationary,
+          is_combust: planet.isCombust,
         };
       });
 
@@ -502,7 +711,8 @@ export class KundliService {
         birth_place: birth_place,
         latitude: latitude.toString(),
         longitude: longitude.toString(),
-        timezone: timezone || 'Asia/Kolkata',
+        timezone,
+        utc_offset_minutes: birthTime.utcOffsetMinutes,
 
         lagna_degrees: lagnaDegrees.toString(),
         lagna_name: lagnaSign,
@@ -515,6 +725,8 @@ export class KundliService {
         karana: swissData.karana || '',
 
         ayanamsa: swissData.ayanamsa.toString(),
+        ayanamsa_name: ayanamsaName,
+        house_system: swissData.houseSystem,
 
         full_data: {
           basic_details: {
@@ -530,14 +742,15 @@ export class KundliService {
           health_indicators: {},
           career_indicators: {},
           marriage_indicators: {},
+          nodeType: swissData.nodeType,
+          ...(params.system === 'kp' ? { system: 'kp', kp: this.kpService.getChart(swissData) } : {}),
         },
 
         dasha_timeline: dashaData,
 
-        navamsa_data: {
-          d9_chart: {},
-          marriage_strength: '',
-        },
+        navamsa_data: vargaData.navamsaData,
+        varga_charts: vargaData.vargaCharts,
+        strength_data: strengthData,
 
         modify_date: new Date().toISOString(),
       };
@@ -549,6 +762,8 @@ export class KundliService {
           },
           update: updateData,
         },
+        planets: this.toPlanetPositions(planetsWithHouses),
+        houses: this.toHouses(swissData.houses),
       };
     } catch (error) {
       this.logger.error('Error generating kundli update JSON:', error);
@@ -559,77 +774,172 @@ export class KundliService {
   }
 
   /**
-   * Calculate Vimshottari Dasha periods
+   * Recast a saved kundli from new birth details, or from its own when the
+   * engine changed, into a new version. The chart it held before is kept as
+   * the previous version. The kundli row, its planets, houses, dasha records
+   * and new version are written in one transaction. Returns null when neither
+   * the birth details nor the engine version changed.
    */
-  private calculateVimshottariDasha(
-    birthDate: Date,
-    nakshatraName: string,
-    nakshatraLord: string,
-  ): any {
-    const dashaSequence = ['Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury'];
-    const dashaDurations: Record<string, number> = {
-      Ketu: 7,
-      Venus: 20,
-      Sun: 6,
-      Moon: 10,
-      Mars: 7,
-      Rahu: 18,
-      Jupiter: 16,
-      Saturn: 19,
-      Mercury: 17,
+  async regenerateKundli(
+    kundli: Kundli,
+    reason: 'profile_change' | 'recompute',
+    birth?: {
+      birth_date: string; // YYYY-MM-DD
+      birth_time: string; // HH:mm:ss
+      birth_place: string;
+      latitude: number;
+      longitude: number;
+      timezone?: string;
+    },
+  ): Promise<{ previous: KundliVersion; current: KundliVersion } | null> {
+    const stored = {
+      birth_date: kundli.birth_date instanceof Date ? kundli.birth_date.toISOString().split('T')[0] : String(kundli.birth_date),
+      birth_time: this.normalizeTime(kundli.birth_time),
+      birth_place: kundli.birth_place,
+      latitude: Number(kundli.latitude),
+      longitude: Number(kundli.longitude),
+      timezone: kundli.timezone,
     };
-
-    // Find starting dasha from nakshatra lord
-    const startIndex = dashaSequence.indexOf(nakshatraLord);
-    const actualStartIndex = startIndex !== -1 ? startIndex : dashaSequence.indexOf('Moon');
-
-    // Calculate Mahadasha periods
-    const mahadashas: Array<{ lord: string; start: Date; end: Date }> = [];
-    let currentDate = new Date(birthDate);
-
-    // Calculate next 120 years of dashas (full cycle)
-    for (let i = 0; i < 9; i++) {
-      const lordIndex = (actualStartIndex + i) % 9;
-      const lord = dashaSequence[lordIndex];
-      const duration = dashaDurations[lord];
-      const start = new Date(currentDate);
-      const end = new Date(currentDate);
-      end.setTime(end.getTime() + duration * 365.25 * 24 * 60 * 60 * 1000);
-
-      mahadashas.push({ lord, start, end });
-      currentDate = new Date(end);
+    // Profiles may hold "10:30" where the kundli stores "10:30:00"
+    birth = birth ? { ...birth, birth_time: this.normalizeTime(birth.birth_time) } : stored;
+
+    const unchanged =
+      birth.birth_date === stored.birth_date &&
+      birth.birth_time === stored.birth_time &&
+      birth.birth_place === stored.birth_place &&
+      Math.abs(birth.latitude - stored.latitude) < 1e-6 &&
+      Math.abs(birth.longitude - stored.longitude) < 1e-6 &&
+      (!birth.timezone || birth.timezone === stored.timezone);
+    if (reason === 'profile_change' && unchanged && kundli.engine_version === KUNDLI_ENGINE_VERSION) {
+      return null;
     }
 
-    // Find current mahadasha
-    const now = new Date();
-    const currentMaha = mahadashas.find((m) => now >= m.start && now < m.end) || mahadashas[0];
+    const previous = await this.kundliVersionService.ensureBaseline(kundli);
+
+    const { kundli_db_update, planets, houses } = await this.generateKundliUpdateJSON({
+      user_id: Number(kundli.user_id),
+      ...birth,
+      ayanamsa_name: this.kundliAyanamsaService.getKundliAyanamsa(kundli),
+      house_system: (kundli.house_system as HouseSystem) || undefined,
+      node_type: kundli.full_data?.nodeType || 'mean',
+      system: kundli.full_data?.system === 'kp' ? 'kp' : 'vedic',
+    });
+    const update = kundli_db_update.update;
+
+    const current = await this.dataSource.transaction(async (manager) => {
+      // Update the kundli row first: saving it cascades the planet rows loaded with it
+      await this.kundliRepository.update(
+        kundli,
+        {
+          ...update,
+          birth_date: new Date(update.birth_date),
+          latitude: parseFloat(update.latitude),
+          longitude: parseFloat(update.longitude),
+          lagna_degrees: parseFloat(update.lagna_degrees),
+          pada: parseInt(update.pada.toString()),
+          ayanamsa: parseFloat(update.ayanamsa),
+          modify_date: new Date(update.modify_date),
+        },
+        manager,
+      );
+
+      await manager.delete(KundliPlanet, { kundli_id: kundli.id });
+      await manager.delete(KundliHouse, { kundli_id: kundli.id });
+      kundli.planets = await this.savePlanetRows(kundli.id, planets, manager);
+      kundli.houses = await this.saveHouseRows(kundli.id, houses, manager);
+
+      const vimshottari = update.dasha_timeline.vimshottari;
+      await this.kundliDashaService.saveDashaRecords(
+        kundli.id,
+        Number(kundli.user_id),
+        new Date(vimshottari.birth_datetime_utc),
+        vimshottari.moon_longitude,
+        manager,
+      );
+
+      return this.kundliVersionService.record(kundli, reason, kundli.planets, KUNDLI_ENGINE_VERSION, manager);
+    });
+    return { previous, current };
+  }
 
-    // Calculate current antardasha
-    const antaraSequence = dashaSequence;
-    const antaraStartIndex = dashaSequence.indexOf(currentMaha.lord);
-    const antaraStartDate = currentMaha.start;
-    const antaraDuration = (dashaDurations[antaraSequence[antaraStartIndex]] / 120) * dashaDurations[currentMaha.lord];
-    const currentAntara = antaraSequence[antaraStartIndex];
+  /**
+   * Birth time as HH:MM:SS, from H:MM, HH:MM or HH:MM:SS with optional fractions
+   */
+  private normalizeTime(time: string): string {
+    const [hour = 0, minute = 0, second = 0] = String(time || '').split(':').map((v) => parseInt(v, 10) || 0);
+    return [hour, minute, second].map((v) => String(v).padStart(2, '0')).join(':');
+  }
 
-    // Calculate current pratyantar
-    const pratyantarStartIndex = dashaSequence.indexOf(currentAntara);
-    const currentPratyantar = antaraSequence[pratyantarStartIndex];
+  /**
+   * Calculate Vimshottari Dasha timeline (mahadasha with antardashas) and the running chain
+   */
+  private calculateVimshottariDasha(birthDate: Date, moonLongitude: number): KundliDashaTimeline {
+    const balance = this.vimshottariDashaService.getBalanceAtBirth(moonLongitude);
+    const mahadashas = this.vimshottariDashaService.getDashaTree(birthDate, moonLongitude, 'antardasha');
+    const current = this.vimshottariDashaService.getActiveChain(birthDate, moonLongitude, new Date());
+    const toPeriod = (p: DashaPeriod) => ({
+      lord: p.lord,
+      start: p.start.toISOString(),
+      end: p.end.toISOString(),
+      duration_years: p.duration_years,
+    });
 
     return {
       vimshottari: {
+        birth_datetime_utc: birthDate.toISOString(),
+        moon_longitude: moonLongitude,
+        balance_at_birth: {
+          lord: balance.lord,
+          balance_years: balance.balance_years,
+          elapsed_fraction: balance.elapsed_fraction,
+        },
         mahadasha: mahadashas.map((m) => ({
-          lord: m.lord,
-          start: m.start.toISOString(),
-          end: m.end.toISOString(),
-          duration_years: dashaDurations[m.lord],
+          ...toPeriod(m),
+          antardasha: (m.sub_periods || []).map(toPeriod),
         })),
-        current_mahadasha: currentMaha.lord,
-        current_antardasha: currentAntara,
-        current_pratyantar: currentPratyantar,
+        current_mahadasha: current[0]?.lord || null,
+        current_antardasha: current[1]?.lord || null,
+        current_pratyantar: current[2]?.lord || null,
+        current_sookshma: current[3]?.lord || null,
+        current_prana: current[4]?.lord || null,
+      },
+    };
+  }
+
+  /**
+   * Calculate all divisional charts plus the navamsa summary
+   */
+  private calculateVargaData(
+    lagnaLongitude: number,
+    planets: Array<{ name: string; longitude: number }>,
+  ): { vargaCharts: Record<string, VargaChart>; navamsaData: Record<string, any> } {
+    const vargaCharts = this.vargaService.calculateAllVargas(lagnaLongitude, planets);
+    const navamsa = vargaCharts.D9;
+
+    return {
+      vargaCharts,
+      navamsaData: {
+        d9_chart: navamsa,
+        navamsa_lagna: navamsa.lagna.sign,
+        vargottama_planets: navamsa.planets.filter((p) => p.is_vargottama).map((p) => p.name),
       },
     };
   }
 
+  /**
+   * Calculate Ashtakavarga bindus and Shadbala for the stored strength data
+   */
+  private calculateStrengthData(params: ShadbalaInput): Record<string, any> {
+    const longitudes: Record<string, number> = {};
+    params.planets.forEach((p) => (longitudes[p.name] = p.longitude));
+
+    return {
+      ashtakavarga: this.ashtakavargaService.calculate(longitudes, params.lagnaLongitude),
+      shadbala: this.shadbalaService.calculate(params),
+      calculated_at: new Date().toISOString(),
+    };
+  }
+
   /**
    * Calculate Bhav (House) Analysis
    */
@@ -652,106 +962,72 @@ export class KundliService {
   }
 
   /**
-   * Calculate Yog Details
+   * Detect yogas with the enabled rules, grouped into the legacy yog_details keys
    */
-  private calculateYogDetails(planets: any[], houses: any[]): {
+  private async calculateYogDetails(
+    lagnaLongitude: number,
+    planets: Array<{ name: string; longitude: number; isRetrograde?: boolean; isCombust?: boolean }>,
+    strengthData: Record<string, any>,
+  ): Promise<{
+    yogas: DetectedYoga[];
     raj_yog: string[];
     dhan_yog: string[];
     vipreet_raj_yog: string[];
     neecha_bhanga: string[];
-  } {
-    const yogs = {
-      raj_yog: [] as string[],
-      dhan_yog: [] as string[],
-      vipreet_raj_yog: [] as string[],
-      neecha_bhanga: [] as string[],
-    };
-
-    // Simplified yog calculations - can be enhanced with full logic
-    const sun = planets.find((p) => p.name === 'Sun');
-    const moon = planets.find((p) => p.name === 'Moon');
-    const jupiter = planets.find((p) => p.name === 'Jupiter');
-
-    // Raj Yog: Benefic planets in kendras (1, 4, 7, 10) or trikonas (1, 5, 9)
-    if (jupiter && ([1, 4, 7, 10, 5, 9].includes(jupiter.house))) {
-      yogs.raj_yog.push('Jupiter in Kendra/Trikona');
-    }
-
-    // Dhan Yog: 2nd, 5th, 9th, 11th houses with benefic planets
-    const dhanHouses = [2, 5, 9, 11];
-    const benefics = planets.filter((p) => ['Jupiter', 'Venus', 'Mercury'].includes(p.name));
-    benefics.forEach((planet) => {
-      if (dhanHouses.includes(planet.house)) {
-        yogs.dhan_yog.push(`${planet.name} in ${planet.house}th house`);
-      }
+  }> {
+    const yogas = await this.yogaRuleService.detectYogas({
+      lagnaLongitude,
+      planets,
+      shadbala: strengthData?.shadbala?.planets || null,
     });
+    const namesIn = (...categories: string[]) =>
+      yogas.filter((y) => categories.includes(y.category)).map((y) => `${y.name} (${y.planets.join(', ')})`);
 
-    return yogs;
+    return {
+      yogas,
+      raj_yog: namesIn('raja', 'mahapurusha'),
+      dhan_yog: namesIn('dhana'),
+      vipreet_raj_yog: namesIn('viparita_raja'),
+      neecha_bhanga: namesIn('neecha_bhanga'),
+    };
   }
 
   /**
-   * Calculate Dosha Details
+   * Calculate Dosha Details with severity, factors and cancellations
    */
-  private calculateDoshaDetails(planets: any[], houses: any[]): {
-    mangal_dosha: boolean;
-    kaal_sarp_dosha: boolean;
-    pitru_dosha: boolean;
-    guru_chandal_dosha: boolean;
-  } {
-    const mars = planets.find((p) => p.name === 'Mars');
-    const rahu = planets.find((p) => p.name === 'Rahu');
-    const ketu = planets.find((p) => p.name === 'Ketu');
-    const jupiter = planets.find((p) => p.name === 'Jupiter');
-
-    // Mangal Dosha: Mars in 1, 4, 7, 8, 12
-    const mangalDosha = mars && [1, 4, 7, 8, 12].includes(mars.house);
-
-    // Kaal Sarp Dosha: All planets between Rahu and Ketu
-    let kaalSarpDosha = false;
-    if (rahu && ketu) {
-      const rahuHouse = rahu.house;
-      const ketuHouse = ketu.house;
-      const planetsBetween = planets.filter((p) => {
-        if (p.name === 'Rahu' || p.name === 'Ketu') return false;
-        return p.house >= Math.min(rahuHouse, ketuHouse) && p.house <= Math.max(rahuHouse, ketuHouse);
-      });
-      kaalSarpDosha = planetsBetween.length === 7; // All 7 planets between Rahu and Ketu
-    }
-
-    // Pitru Dosha: Simplified - Sun and Rahu in same house or aspect
-    const pitruDosha = false; // Can be enhanced
-
-    // Guru Chandal Dosha: Jupiter and Rahu in same house
-    const guruChandalDosha = jupiter && rahu && jupiter.house === rahu.house;
-
-    return {
-      mangal_dosha: mangalDosha || false,
-      kaal_sarp_dosha: kaalSarpDosha,
-      pitru_dosha: pitruDosha,
-      guru_chandal_dosha: guruChandalDosha || false,
-    };
+  private calculateDoshaDetails(lagnaLongitude: number, planets: any[]): DoshaAnalysis {
+    return this.doshaService.analyze({
+      lagnaLongitude,
+      planets: planets.map((p) => ({ name: p.name, longitude: p.longitude })),
+    });
   }
 
   /**
-   * Calculate Gochar (Transit) Analysis
+   * Calculate Gochar (Transit) Analysis: current transits from the natal Moon and lagna
    */
-  private calculateGocharAnalysis(planets: any[]): {
-    shani_gochar: string;
-    guru_gochar: string;
-    rahu_ketu_gochar: string;
-  } {
-    const saturn = planets.find((p) => p.name === 'Saturn');
-    const jupiter = planets.find((p) => p.name === 'Jupiter');
-    const rahu = planets.find((p) => p.name === 'Rahu');
-    const ketu = planets.find((p) => p.name === 'Ketu');
+  private calculateGocharAnalysis(lagnaLongitude: number, planets: any[]): Record<string, any> {
+    const moon = planets.find((p) => p.name === 'Moon');
+    const gochar = this.gocharService.getTransits({ moonLongitude: moon.longitude, lagnaLongitude }, new Date());
+    const transit = (name: string) => gochar.planets.find((p) => p.name === name);
+
+    const saturn = transit('Saturn');
+    const jupiter = transit('Jupiter');
+    const rahu = transit('Rahu');
+    const ketu = transit('Ketu');
+    let shaniStatus = '';
+    if (gochar.sade_sati.active) shaniStatus = ` (Sade Sati, ${gochar.sade_sati.phase} phase)`;
+    else if (gochar.ashtama_shani.active) shaniStatus = ' (Ashtama Shani)';
+    else if (gochar.kantaka_shani.active) shaniStatus = ' (Kantaka Shani)';
 
     return {
-      shani_gochar: saturn ? `Saturn in ${saturn.sign} sign, ${saturn.house}th house` : '',
-      guru_gochar: jupiter ? `Jupiter in ${jupiter.sign} sign, ${jupiter.house}th house` : '',
-      rahu_ketu_gochar: rahu && ketu
-        ? `Rahu in ${rahu.sign}, Ketu in ${ketu.sign}`
-        : '',
+      calculated_at: gochar.date.toISOString(),
+      shani_gochar: `Saturn transiting ${saturn.sign}, ${ordinal(saturn.house_from_moon)} from the Moon${shaniStatus}`,
+      guru_gochar: `Jupiter transiting ${jupiter.sign}, ${ordinal(jupiter.house_from_moon)} from the Moon (${jupiter.favourable ? 'favourable' : 'unfavourable'})`,
+      rahu_ketu_gochar: `Rahu transiting ${rahu.sign} (${ordinal(rahu.house_from_moon)} from the Moon), Ketu transiting ${ketu.sign} (${ordinal(ketu.house_from_moon)} from the Moon)`,
+      sade_sati: gochar.sade_sati,
+      ashtama_shani: gochar.ashtama_shani,
+      kantaka_shani: gochar.kantaka_shani,
+      jupiter_transit: gochar.jupiter_transit,
     };
   }
 }
-
@@ -0,0 +1,321 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PlaceMaster } from '../entities/place-master.entity';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+
+/**
+ * Place Search Service
+ *
+ * Offline gazetteer lookup over place_master. The enabled places are held in
+ * memory (about 50k rows after the GeoNames cities5000 import) and matched
+ * by exact name, prefix, word prefix and edit distance, so autocomplete
+ * tolerates typos such as "Banglore" or "Vishakapatnam". Text after a comma
+ * narrows the match by state or country ("Hyderabad, Sindh",
+ * "Springfield, Illinois, US").
+ */
+
+export interface PlaceMatch {
+  id: number;
+  place_name: string;
+  state_name: string | null;
+  country_code: string;
+  country_name: string;
+  display_name: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  population: number;
+  score: number;
+}
+
+interface IndexedPlace {
+  place: PlaceMaster;
+  names: string[];
+  state: string;
+  country: string;
+  countryCode: string;
+}
+
+// Common country aliases that do not match the stored name by prefix
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'us',
+  'united states of america': 'us',
+  america: 'us',
+  uk: 'gb',
+  'great britain': 'gb',
+  britain: 'gb',
+  uae: 'ae',
+  'sri lanka': 'lk',
+  bharat: 'in',
+};
+
+// Score of an exact primary name; alternate names rank just below the primary name
+const EXACT_SCORE = 100;
+const ALTERNATE_NAME_PENALTY = 2;
+const EXACT_ALTERNATE_SCORE = EXACT_SCORE - ALTERNATE_NAME_PENALTY;
+
+/**
+ * Lowercase, strip diacritics and punctuation, collapse whitespace
+ */
+export function normalizePlaceName(value: string): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+@Injectable()
+export class PlaceSearchService {
+  private readonly logger = new Logger(PlaceSearchService.name);
+
+  private readonly indexTtlMs = 60 * 60 * 1000;
+  private index: IndexedPlace[] | null = null;
+  private indexLoadedAt = 0;
+
+  constructor(
+    @InjectRepository(PlaceMaster)
+    private readonly placeRepository: Repository<PlaceMaster>,
+    private readonly timezoneService: TimezoneService,
+  ) {}
+
+  /**
+   * Autocomplete search ranked by match quality, then population
+   */
+  async search(query: string, options: { country?: string; limit?: number } = {}): Promise<PlaceMatch[]> {
+    const [namePart, ...qualifierParts] = (query || '').split(',');
+    const name = normalizePlaceName(namePart);
+    if (!name) {
+      return [];
+    }
+
+    const qualifiers = qualifierParts.map(normalizePlaceName).filter(Boolean);
+    const countryFilter = options.country ? normalizePlaceName(options.country) : null;
+    const limit = options.limit || 10;
+
+    const index = await this.getIndex();
+    const matches: PlaceMatch[] = [];
+
+    for (const entry of index) {
+      if (countryFilter && !this.matchesCountry(entry, countryFilter)) continue;
+      if (!qualifiers.every((q) => this.matchesQualifier(entry, q))) continue;
+
+      const score = this.scoreNames(name, entry.names);
+      if (score > 0) {
+        matches.push(this.toMatch(entry.place, score));
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || b.population - a.population)
+      .slice(0, limit);
+  }
+
+  /**
+   * Resolve a free-text birth place to a single gazetteer entry. Only exact
+   * primary or alternate names are accepted, so a typo or a shorter name
+   * ("Durg" for "Durgapur") never silently picks another town; otherwise the
+   * closest places are suggested. Throws when nothing matches or when equally
+   * good matches cannot be told apart.
+   */
+  async resolve(place: string): Promise<PlaceMatch> {
+    if (!normalizePlaceName(place)) {
+      throw new BadRequestException('Birth place is required when latitude and longitude are not provided');
+    }
+
+    const candidates = await this.search(place, { limit: 10 });
+    const matches = candidates.filter((m) => m.score >= EXACT_ALTERNATE_SCORE);
+    if (matches.length === 0) {
+      const suggestions = candidates.length
+        ? ` Did you mean: ${candidates.slice(0, 5).map((m) => m.display_name).join('; ')}?`
+        : '';
+      throw new BadRequestException(
+        `Birth place "${place}" was not found.${suggestions} Choose a place from GET /kundli/places or provide latitude, longitude and timezone.`,
+      );
+    }
+
+    const [best, ...rest] = matches;
+    const rivals = rest.filter((m) => m.score === best.score);
+
+    // A much larger city wins a tie (Hyderabad, Telangana over Hyderabad, Sindh)
+    if (rivals.length > 0 && best.population < rivals[0].population * 2) {
+      const options = [best, ...rivals].map((m) => m.display_name).join('; ');
+      throw new BadRequestException(
+        `Birth place "${place}" is ambiguous: ${options}. Add the state or country, e.g. "${best.display_name}".`,
+      );
+    }
+
+    return best;
+  }
+
+  /**
+   * Nearest gazetteer place to a coordinate, used to infer the timezone
+   */
+  async findNearest(latitude: number, longitude: number, maxDistanceKm = 500): Promise<PlaceMatch | null> {
+    const index = await this.getIndex();
+    let nearest: PlaceMaster | null = null;
+    let nearestDistance = Infinity;
+
+    for (const { place } of index) {
+      const distance = this.distanceKm(latitude, longitude, Number(place.latitude), Number(place.longitude));
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest || nearestDistance > maxDistanceKm) {
+      return null;
+    }
+    return this.toMatch(nearest, 0);
+  }
+
+  /**
+   * IANA timezone for a coordinate: the given one once validated, otherwise
+   * that of the nearest gazetteer place
+   */
+  async resolveTimezone(latitude: number, longitude: number, timezone?: string): Promise<string> {
+    if (timezone) {
+      if (!this.timezoneService.isValidTimezone(timezone)) {
+        throw new BadRequestException(`Unknown timezone: ${timezone}`);
+      }
+      return timezone;
+    }
+
+    const place = await this.findNearest(latitude, longitude);
+    if (!place) {
+      throw new BadRequestException('Could not determine the timezone for this location; pass a timezone');
+    }
+    return place.timezone;
+  }
+
+  /**
+   * Drop the in-memory index so the next lookup reloads place_master
+   */
+  invalidateIndex(): void {
+    this.index = null;
+  }
+
+  private async getIndex(): Promise<IndexedPlace[]> {
+    if (this.index && Date.now() - this.indexLoadedAt < this.indexTtlMs) {
+      return this.index;
+    }
+
+    const places = await this.placeRepository.find({
+      where: { is_enabled: true, is_deleted: false },
+    });
+
+    this.index = places.map((place) => ({
+      place,
+      names: [place.search_name || normalizePlaceName(place.place_name)]
+        .concat((place.alternate_names || []).map(normalizePlaceName))
+        .filter(Boolean),
+      state: normalizePlaceName(place.state_name || ''),
+      country: normalizePlaceName(place.country_name),
+      countryCode: place.country_code.toLowerCase(),
+    }));
+    this.indexLoadedAt = Date.now();
+    this.logger.log(`Loaded ${this.index.length} places into search index`);
+
+    return this.index;
+  }
+
+  /**
+   * Best score of the query against a place's primary and alternate names
+   */
+  private scoreNames(query: string, names: string[]): number {
+    let best = 0;
+    const maxEdits = query.length >= 8 ? 2 : query.length >= 4 ? 1 : 0;
+
+    names.forEach((name, i) => {
+      const penalty = i === 0 ? 0 : ALTERNATE_NAME_PENALTY;
+      let score = 0;
+
+      if (name === query) {
+        score = EXACT_SCORE;
+      } else if (name.startsWith(query)) {
+        score = 80 + (10 * query.length) / name.length;
+      } else if (name.split(' ').some((word) => word.startsWith(query))) {
+        score = 65;
+      } else if (maxEdits > 0) {
+        // Lengths further apart than maxEdits cannot match, which skips most of a large gazetteer
+        const full = Math.abs(name.length - query.length) <= maxEdits ? this.editDistance(query, name) : Infinity;
+        const prefix = this.editDistance(query, name.slice(0, query.length));
+        if (full <= maxEdits) {
+          score = 60 - 15 * full;
+        } else if (prefix <= maxEdits) {
+          score = 50 - 15 * prefix;
+        }
+      }
+
+      best = Math.max(best, score > 0 ? score - penalty : 0);
+    });
+
+    return best;
+  }
+
+  private matchesQualifier(entry: IndexedPlace, qualifier: string): boolean {
+    return (entry.state && entry.state.startsWith(qualifier)) || this.matchesCountry(entry, qualifier);
+  }
+
+  private matchesCountry(entry: IndexedPlace, country: string): boolean {
+    const code = COUNTRY_ALIASES[country] || country;
+    return entry.countryCode === code || entry.country.startsWith(country);
+  }
+
+  /**
+   * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+   */
+  private editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => {
+      const row = new Array<number>(cols).fill(0);
+      row[0] = i;
+      return row;
+    });
+    for (let j = 0; j < cols; j++) d[0][j] = j;
+
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < cols; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return d[rows - 1][cols - 1];
+  }
+
+  /**
+   * Great-circle distance (haversine)
+   */
+  private distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  private toMatch(place: PlaceMaster, score: number): PlaceMatch {
+    return {
+      id: Number(place.id),
+      place_name: place.place_name,
+      state_name: place.state_name,
+      country_code: place.country_code,
+      country_name: place.country_name,
+      display_name: [place.place_name, place.state_name, place.country_name].filter(Boolean).join(', '),
+      latitude: Number(place.latitude),
+      longitude: Number(place.longitude),
+      timezone: place.timezone,
+      population: Number(place.population),
+      score: Math.round(score * 100) / 100,
+    };
+  }
+}
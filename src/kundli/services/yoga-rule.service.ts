@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { YogaRuleMaster } from '../entities/yoga-rule-master.entity';
+import {
+  DetectedYoga,
+  YogaCategory,
+  YogaChartInput,
+  YogaCondition,
+  YogaEngineService,
+  YogaRuleDefinition,
+} from '../../astrology/services/yoga-engine.service';
+import { ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { CacheService } from '../../cache/cache.service';
+import { CreateYogaRuleDto, UpdateYogaRuleDto, KundliYogasResponseDto } from '../dto/yoga-rule.dto';
+import { KundliService } from './kundli.service';
+
+/**
+ * Yoga Rule Service
+ * Manages the yoga rules stored in yoga_rule_master and detects yogas in
+ * charts with the enabled rules. Enabled rules are cached and the cache is
+ * cleared on every admin change, so edits apply without a deploy.
+ */
+@Injectable()
+export class YogaRuleService {
+  private readonly logger = new Logger(YogaRuleService.name);
+  private readonly activeRulesCacheKey = 'yoga_rules:active';
+
+  constructor(
+    @Inject(forwardRef(() => KundliService))
+    private readonly kundliService: KundliService,
+    @InjectRepository(YogaRuleMaster)
+    private readonly yogaRuleRepository: Repository<YogaRuleMaster>,
+    private readonly yogaEngineService: YogaEngineService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Detect yogas in a chart using all enabled rules
+   */
+  async detectYogas(chart: YogaChartInput): Promise<DetectedYoga[]> {
+    const rules = await this.getActiveRules();
+    return this.yogaEngineService.detect(chart, rules);
+  }
+
+  /**
+   * Detect yogas for a stored kundli with the current rule set
+   */
+  async getYogasForKundli(kundliId: number, user: { id: number; type?: string }): Promise<KundliYogasResponseDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, user);
+
+    const lagnaSignIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    if (!kundli.planets?.length || lagnaSignIndex === -1) {
+      throw new BadRequestException('Kundli has no stored positions; regenerate the kundli');
+    }
+
+    const yogas = await this.detectYogas({
+      lagnaLongitude: lagnaSignIndex * 30 + Number(kundli.lagna_degrees || 0),
+      planets: kundli.planets.map((p) => ({
+        name: p.planet_name,
+        longitude: Number(p.longitude_degrees),
+        isRetrograde: p.is_retrograde,
+        isCombust: p.is_combust,
+      })),
+      shadbala: kundli.strength_data?.shadbala?.planets || null,
+    });
+
+    return { kundli_id: Number(kundli.id), yogas };
+  }
+
+  async findAll(filters: { category?: string; is_enabled?: boolean }): Promise<YogaRuleMaster[]> {
+    const where: Record<string, any> = { is_deleted: false };
+    if (filters.category) where.category = filters.category;
+    if (filters.is_enabled !== undefined) where.is_enabled = filters.is_enabled;
+
+    return this.yogaRuleRepository.find({ where, order: { sort_order: 'ASC', id: 'ASC' } });
+  }
+
+  async findOneByUniqueId(uniqueId: string): Promise<YogaRuleMaster> {
+    const rule = await this.yogaRuleRepository.findOne({ where: { unique_id: uniqueId, is_deleted: false } });
+    if (!rule) {
+      throw new NotFoundException(`Yoga rule with unique ID ${uniqueId} not found`);
+    }
+    return rule;
+  }
+
+  async create(dto: CreateYogaRuleDto, adminId: number): Promise<YogaRuleMaster> {
+    this.validateConditions(dto.conditions);
+
+    const existing = await this.yogaRuleRepository.findOne({ where: { code: dto.code } });
+    if (existing) {
+      throw new ConflictException(`Yoga rule with code "${dto.code}" already exists`);
+    }
+
+    const rule = this.yogaRuleRepository.create({
+      ...dto,
+      description: dto.description || null,
+      effects: dto.effects || null,
+      is_enabled: dto.is_enabled ?? true,
+      is_system: false,
+      added_by: adminId,
+      modify_by: adminId,
+    });
+    const saved = await this.yogaRuleRepository.save(rule);
+    await this.clearCache();
+    this.logger.log(`Yoga rule ${saved.code} created by admin ${adminId}`);
+    return saved;
+  }
+
+  async update(uniqueId: string, dto: UpdateYogaRuleDto, adminId: number): Promise<YogaRuleMaster> {
+    const rule = await this.findOneByUniqueId(uniqueId);
+    if (dto.conditions) {
+      this.validateConditions(dto.conditions);
+    }
+
+    Object.assign(rule, dto);
+    rule.modify_by = adminId;
+    const saved = await this.yogaRuleRepository.save(rule);
+    await this.clearCache();
+    this.logger.log(`Yoga rule ${saved.code} updated by admin ${adminId}`);
+    return saved;
+  }
+
+  async setEnabled(uniqueId: string, isEnabled: boolean, adminId: number): Promise<YogaRuleMaster> {
+    return this.update(uniqueId, { is_enabled: isEnabled }, adminId);
+  }
+
+  async remove(uniqueId: string, adminId: number): Promise<void> {
+    const rule = await this.findOneByUniqueId(uniqueId);
+    rule.is_deleted = true;
+    rule.is_enabled = false;
+    rule.modify_by = adminId;
+    await this.yogaRuleRepository.save(rule);
+    await this.clearCache();
+    this.logger.log(`Yoga rule ${rule.code} deleted by admin ${adminId}`);
+  }
+
+  private async getActiveRules(): Promise<YogaRuleDefinition[]> {
+    const cached = await this.cacheService.get<YogaRuleDefinition[]>(this.activeRulesCacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = await this.yogaRuleRepository.find({
+      where: { is_enabled: true, is_deleted: false },
+      order: { sort_order: 'ASC', id: 'ASC' },
+    });
+    const definitions: YogaRuleDefinition[] = rules.map((rule) => ({
+      code: rule.code,
+      name: rule.name,
+      category: rule.category as YogaCategory,
+      description: rule.description,
+      effects: rule.effects,
+      conditions: rule.conditions,
+    }));
+
+    await this.cacheService.set(this.activeRulesCacheKey, definitions, 3600);
+    return definitions;
+  }
+
+  private async clearCache(): Promise<void> {
+    await this.cacheService.del(this.activeRulesCacheKey);
+  }
+
+  private validateConditions(conditions: YogaCondition): void {
+    try {
+      this.yogaEngineService.validateConditions(conditions);
+    } catch (error) {
+      throw new BadRequestException(`Invalid yoga rule: ${error.message}`);
+    }
+  }
+}
@@ -46,6 +46,10 @@ export class Manifestation extends BaseEntity {
   @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true, name: 'coherence_score' })
   coherence_score: number | null; // Coherence Score: sentiment + confidence + clarity (0-100)
 
+  // Kundli version the astrological scores were computed from; null when the user had no kundli
+  @Column({ type: 'int', nullable: true, name: 'kundli_version' })
+  kundli_version: number | null;
+
   @Column({ type: 'jsonb', nullable: true, name: 'action_windows' })
   action_windows: {
     optimal_dates?: string[]; // ISO date strings for recommended action windows
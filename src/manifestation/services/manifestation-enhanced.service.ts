@@ -7,6 +7,10 @@ import { ManifestationAIEvaluationService } from './manifestation-ai-evaluation.
 import { User } from '../../users/entities/user.entity';
 import { Customer } from '../../users/entities/customer.entity';
 import { SwissEphemerisService } from '../../astrology/services/swiss-ephemeris.service';
+import { DignityService } from '../../astrology/services/dignity.service';
+import { AshtakavargaService, AshtakavargaResult } from '../../astrology/services/ashtakavarga.service';
+import { MuhurtaService, MuhurtaActivity, MuhurtaWindow } from '../../astrology/services/muhurta.service';
+import { VimshottariDashaService } from '../../astrology/services/vimshottari-dasha.service';
 import { DashaRecord } from '../../database/entities/dasha-record.entity';
 import { AntardashaRecord } from '../../database/entities/antardasha-record.entity';
 import { PratyantarDashaRecord } from '../../database/entities/pratyantar-dasha-record.entity';
@@ -44,6 +48,10 @@ export class ManifestationEnhancedService {
     private aiEvaluationService: ManifestationAIEvaluationService,
     private swissEphemerisService: SwissEphemerisService,
     private kundliService: KundliService,
+    private dignityService: DignityService,
+    private ashtakavargaService: AshtakavargaService,
+    private muhurtaService: MuhurtaService,
+    private vimshottariDashaService: VimshottariDashaService,
   ) {}
 
   /**
@@ -111,6 +119,13 @@ export class ManifestationEnhancedService {
     // Calculate Recommended Action Windows (optimal dates based on astrological influences)
     const actionWindows = await this.calculateActionWindows(finalCategory, user as User);
 
+    // Record which kundli version the scores were computed from
+    const kundli = await this.kundliRepository.findOne({
+      select: ['id', 'version'],
+      where: { user_id: userId, is_deleted: false },
+      order: { added_date: 'DESC' },
+    });
+
     // Create manifestation entity
     const manifestation = this.manifestationRepository.create({
       user_id: userId,
@@ -126,6 +141,7 @@ export class ManifestationEnhancedService {
       astro_support_index: evaluation.scores.astro_support_index,
       mfp_score: evaluation.scores.mfp_score,
       coherence_score: evaluation.scores.coherence_score,
+      kundli_version: kundli?.version || null,
       action_windows: actionWindows,
       progress_tracking: {
         current_progress: 0,
@@ -398,7 +414,8 @@ export class ManifestationEnhancedService {
 
   /**
    * Calculate Recommended Action Windows based on astrological influences
-   * Returns optimal dates for taking action on the manifestation
+   * Returns the best muhurtas of the next 30 days for the manifestation's
+   * activity, graded further by the transits of the category's planets
    */
   private async calculateActionWindows(
     category: string | null,
@@ -413,24 +430,6 @@ export class ManifestationEnhancedService {
       description: string;
     }>;
   }> {
-    const optimalDates: string[] = [];
-    const planetaryInfluences: Array<{
-      date: string;
-      planet: string;
-      influence: 'positive' | 'neutral' | 'negative';
-      description: string;
-    }> = [];
-
-    const today = new Date();
-    const next30Days: Date[] = [];
-
-    // Generate dates for next 30 days
-    for (let i = 1; i <= 30; i++) {
-      const date = new Date(today);
-      date.setDate(date.getDate() + i);
-      next30Days.push(date);
-    }
-
     // Category-specific planetary influences
     const categoryPlanets: Record<string, { primary: string; secondary: string }> = {
       relationship: { primary: 'Venus', secondary: 'Jupiter' },
@@ -443,95 +442,120 @@ export class ManifestationEnhancedService {
       spirituality: { primary: 'Jupiter', secondary: 'Ketu' },
     };
 
-    const planets = category && categoryPlanets[category.toLowerCase()]
-      ? [categoryPlanets[category.toLowerCase()].primary, categoryPlanets[category.toLowerCase()].secondary]
-      : ['Jupiter', 'Venus']; // Default beneficial planets
+    // Muhurta activity that best matches the intent
+    const categoryActivities: Record<string, MuhurtaActivity> = {
+      relationship: 'marriage',
+      love: 'marriage',
+      home: 'griha_pravesh',
+      property: 'griha_pravesh',
+      travel: 'travel',
+    };
 
-    // Calculate optimal dates based on moon phases and planetary positions
-    for (const date of next30Days) {
-      try {
-        // Use Swiss Ephemeris to calculate planetary positions for this date
-        const kundliData = await this.swissEphemerisService.calculateKundli({
-          datetime: date,
-          latitude: user?.latitude || 28.6139, // Default to Delhi if not available
-          longitude: user?.longitude || 77.2090,
-          timezone: 'Asia/Kolkata',
-        });
+    const key = category?.toLowerCase() || '';
+    const planets = categoryPlanets[key]
+      ? [categoryPlanets[key].primary, categoryPlanets[key].secondary]
+      : ['Jupiter', 'Venus']; // Default beneficial planets
+    const activity = categoryActivities[key] || 'business_start';
+
+    // Natal Moon personalises the muhurtas; natal Ashtakavarga grades each transit by its bindus
+    const kundli = user
+      ? await this.kundliRepository.findOne({
+          where: { user_id: user.id, is_deleted: false },
+          relations: ['planets'],
+          order: { added_date: 'DESC' },
+        })
+      : null;
+    const ashtakavarga: AshtakavargaResult | null = kundli?.strength_data?.ashtakavarga || null;
+    const natalMoon = kundli?.planets?.find((p) => p.planet_name === 'Moon');
+    const natalMoonLongitude = natalMoon
+      ? Number(natalMoon.longitude_degrees)
+      : user?.moon_longitude_deg !== null && user?.moon_longitude_deg !== undefined
+        ? Number(user.moon_longitude_deg)
+        : null;
+
+    const timezone = user?.timezone || 'Asia/Kolkata';
+    const today = new Date();
+    const startDate = new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const endDate = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-        // Check planetary influences
-        let positiveInfluence = 0;
-        let planetInfluence: { planet: string; influence: 'positive' | 'neutral' | 'negative'; description: string } | null = null;
-
-        for (const planetName of planets) {
-          const planet = kundliData.planets.find((p) => p.name === planetName);
-          if (planet) {
-            // Check if planet is in favorable sign or nakshatra
-            const favorableSigns: Record<string, string[]> = {
-              Venus: ['Taurus', 'Libra', 'Pisces'],
-              Jupiter: ['Sagittarius', 'Pisces', 'Cancer'],
-              Mercury: ['Gemini', 'Virgo'],
-              Mars: ['Aries', 'Scorpio', 'Capricorn'],
-              Sun: ['Leo', 'Aries'],
-            };
-
-            if (favorableSigns[planetName]?.includes(planet.sign)) {
-              positiveInfluence += 2;
-              planetInfluence = {
-                planet: planetName,
-                influence: 'positive',
-                description: `${planetName} is in favorable sign ${planet.sign}`,
-              };
-            } else {
-              positiveInfluence += 1;
-              if (!planetInfluence) {
-                planetInfluence = {
-                  planet: planetName,
-                  influence: 'neutral',
-                  description: `${planetName} is in ${planet.sign}`,
-                };
-              }
-            }
-          }
-        }
+    let windows: MuhurtaWindow[] = [];
+    try {
+      windows = this.muhurtaService.search({
+        activity,
+        startDate,
+        endDate,
+        latitude: Number(user?.latitude) || 28.6139, // Default to Delhi if not available
+        longitude: Number(user?.longitude) || 77.2090,
+        timezone,
+        natalMoonLongitude,
+        limit: 50,
+      });
+    } catch (error) {
+      this.logger.warn(`Muhurta search failed for action windows: ${error.message}`);
+    }
 
-        // Check moon phase (new moon and full moon are powerful for manifestation)
-        const moon = kundliData.planets.find((p) => p.name === 'Moon');
-        if (moon) {
-          // Simplified moon phase calculation
-          const moonPhase = (moon.longitude % 360) / 360;
-          if (moonPhase < 0.1 || moonPhase > 0.9) {
-            // New moon or full moon
-            positiveInfluence += 3;
-            if (planetInfluence) {
-              planetInfluence.influence = 'positive';
-              planetInfluence.description += ` + Powerful Moon phase`;
-            }
-          }
+    // Grade each window by the category planets' transit dignity and bindus, keep the best per day
+    const bestByDate = new Map<string, {
+      score: number;
+      influence: { planet: string; influence: 'positive' | 'neutral' | 'negative'; description: string };
+    }>();
+
+    for (const window of windows) {
+      const date = window.start.toLocaleDateString('en-CA', { timeZone: timezone });
+      const positions = this.swissEphemerisService.getSiderealPositions(window.start);
+      let score = window.score;
+      let influence: 'positive' | 'neutral' | 'negative' = window.quality === 'average' ? 'neutral' : 'positive';
+      let planet = window.vara_lord;
+      const notes: string[] = [];
+
+      for (const planetName of planets) {
+        const position = positions.find((p) => p.name === planetName);
+        if (!position) continue;
+
+        const dignity = this.dignityService.getDignity(planetName, position.longitude);
+        const isDignified = ['exalted', 'moolatrikona', 'own'].includes(dignity);
+        const bindus = ashtakavarga
+          ? this.ashtakavargaService.getTransitBindus(ashtakavarga, planetName, position.longitude)
+          : null;
+
+        if (isDignified) {
+          score += 10;
+          planet = planetName;
+          notes.push(`${planetName} is ${dignity === 'own' ? 'in its own sign' : dignity} in ${position.sign}`);
+        } else if (bindus !== null && bindus >= 5) {
+          score += 5;
+          planet = planetName;
+          notes.push(`${planetName} transits ${position.sign} with ${bindus} Ashtakavarga bindus`);
+        } else if (bindus !== null && bindus <= 2) {
+          score -= 5;
+          influence = 'negative';
+          notes.push(`${planetName} transits ${position.sign} with only ${bindus} Ashtakavarga bindus`);
         }
+      }
 
-        // If positive influence is high, add to optimal dates
-        if (positiveInfluence >= 4) {
-          optimalDates.push(date.toISOString().split('T')[0]);
-          if (planetInfluence) {
-            planetaryInfluences.push({
-              date: date.toISOString().split('T')[0],
-              ...planetInfluence,
-            });
-          }
-        }
-      } catch (error) {
-        // If calculation fails, skip this date
-        continue;
+      const existing = bestByDate.get(date);
+      if (!existing || score > existing.score) {
+        bestByDate.set(date, {
+          score,
+          influence: {
+            planet,
+            influence,
+            description: [...window.reasons.slice(0, 3), ...notes].join('; '),
+          },
+        });
       }
     }
 
-    // Limit to top 5 optimal dates
-    const topOptimalDates = optimalDates.slice(0, 5);
+    // Top 5 days, in date order
+    const topDates = [...bestByDate.entries()]
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, 5)
+      .sort((a, b) => a[0].localeCompare(b[0]));
 
     return {
-      optimal_dates: topOptimalDates,
-      next_optimal_date: topOptimalDates.length > 0 ? topOptimalDates[0] : null,
-      planetary_influences: planetaryInfluences.slice(0, 5),
+      optimal_dates: topDates.map(([date]) => date),
+      next_optimal_date: topDates.length > 0 ? topDates[0][0] : null,
+      planetary_influences: topDates.map(([date, { influence }]) => ({ date, ...influence })),
     };
   }
 
@@ -996,6 +1020,18 @@ export class ManifestationEnhancedService {
                         break;
                       }
                     }
+                    // Sookshma periods are no longer stored; derive them from the pratyantar
+                    if (!currentSukshma) {
+                      currentSukshma = this.vimshottariDashaService
+                        .getSubPeriods({
+                          level: 'pratyantar',
+                          lord: pratyantar.pratyantar_lord,
+                          start: new Date(pratyantar.start_date),
+                          end: new Date(pratyantar.end_date),
+                          duration_years: Number(pratyantar.duration_years),
+                        })
+                        .find((p) => p.start <= currentDate && p.end > currentDate) || null;
+                    }
                     break;
                   }
                 }
@@ -1064,7 +1100,7 @@ export class ManifestationEnhancedService {
 
     const planetAlignment = categoryPlanets[category] || categoryPlanets.other;
 
-    const calculateDashaResonance = (lord: string | null): { supportive: number; challenging: number } => {
+    const calculateBaseResonance = (lord: string | null): { supportive: number; challenging: number } => {
       if (!lord || lord === 'Unknown') {
         return { supportive: 0, challenging: 100 };
       }
@@ -1087,6 +1123,18 @@ export class ManifestationEnhancedService {
       }
     };
 
+    // Shadbala of the dasha lord shifts its resonance by up to 10 points either way
+    const shadbala: Record<string, { strength_ratio: number }> = kundli?.strength_data?.shadbala?.planets || {};
+    const calculateDashaResonance = (lord: string | null): { supportive: number; challenging: number } => {
+      const base = calculateBaseResonance(lord);
+      const ratio = lord ? shadbala[lord]?.strength_ratio : undefined;
+      if (ratio === undefined || base.supportive === 0) {
+        return base;
+      }
+      const supportive = Math.max(0, Math.min(100, base.supportive + Math.max(-10, Math.min(10, (ratio - 1) * 20))));
+      return { supportive: Math.round(supportive), challenging: Math.round(100 - supportive) };
+    };
+
     const mahadashaResonance = calculateDashaResonance(currentMahadasha?.lord || currentMahadasha?.mahadasha_lord || null);
     const antardashaResonance = calculateDashaResonance(currentAntardasha?.lord || currentAntardasha?.antardasha_lord || null);
     const pratyantarResonance = calculateDashaResonance(currentPratyantar?.lord || currentPratyantar?.pratyantar_lord || null);
@@ -0,0 +1,39 @@
+import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { MuhurtaSearchService } from '../services/muhurta-search.service';
+import { MuhurtaSearchDto, MuhurtaSearchResponseDto } from '../dto/muhurta.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@ApiTags('Muhurta (App)')
+@Controller('app/muhurta')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AppMuhurtaController {
+  constructor(private readonly muhurtaSearchService: MuhurtaSearchService) {}
+
+  /**
+   * POST /api/v1/app/muhurta/search
+   * Find auspicious windows for an activity between two dates
+   */
+  @Post('search')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Search muhurtas for an activity (Mobile App)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Ranked muhurta windows with reasons',
+    type: MuhurtaSearchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid date range or location',
+  })
+  async search(@Body() dto: MuhurtaSearchDto, @CurrentUser() user: any) {
+    const result = await this.muhurtaSearchService.search(user.id, dto);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
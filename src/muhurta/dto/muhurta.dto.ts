@@ -0,0 +1,126 @@
+import { IsDateString, IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const MUHURTA_ACTIVITY_TYPES = ['marriage', 'griha_pravesh', 'vehicle_purchase', 'business_start', 'travel'];
+
+export class MuhurtaSearchDto {
+  @ApiProperty({ description: 'Activity to find a muhurta for', enum: MUHURTA_ACTIVITY_TYPES, example: 'griha_pravesh' })
+  @IsString()
+  @IsIn(MUHURTA_ACTIVITY_TYPES)
+  activity: string;
+
+  @ApiProperty({ description: 'First date to search (YYYY-MM-DD, local)', example: '2025-06-01' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'start_date must be in YYYY-MM-DD format' })
+  @IsNotEmpty()
+  start_date: string;
+
+  @ApiProperty({ description: 'Last date to search, inclusive (YYYY-MM-DD, local); at most 90 days after start_date', example: '2025-06-30' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'end_date must be in YYYY-MM-DD format' })
+  @IsNotEmpty()
+  end_date: string;
+
+  @ApiPropertyOptional({ description: 'Place of the activity; used when latitude and longitude are not provided', example: 'Pune' })
+  @IsString()
+  @IsOptional()
+  place?: string;
+
+  @ApiPropertyOptional({ description: 'Latitude (defaults to the place, then to the profile location)', example: 18.5204 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude (defaults to the place, then to the profile location)', example: 73.8567 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone (defaults to the place or nearest known place)', example: 'Asia/Kolkata' })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({ description: 'Kundli whose natal Moon is used for Tarabala and Chandrabala (defaults to your latest kundli)' })
+  @IsInt()
+  @IsOptional()
+  kundli_id?: number;
+
+  @ApiPropertyOptional({ description: 'Number of windows to return', default: 10, minimum: 1, maximum: 50 })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export class MuhurtaWindowDto {
+  @ApiProperty()
+  start: Date;
+
+  @ApiProperty()
+  end: Date;
+
+  @ApiProperty({ example: 90 })
+  score: number;
+
+  @ApiProperty({ example: 90, description: 'Highest score possible for this search' })
+  max_score: number;
+
+  @ApiProperty({ enum: ['excellent', 'good', 'average'] })
+  quality: string;
+
+  @ApiProperty({ example: 'Guruvara' })
+  vara: string;
+
+  @ApiProperty({ example: 'Jupiter' })
+  vara_lord: string;
+
+  @ApiProperty({ example: 'Shukla Panchami' })
+  tithi: string;
+
+  @ApiProperty({ example: 'Rohini' })
+  nakshatra: string;
+
+  @ApiProperty({ example: 'Bava' })
+  karana: string;
+
+  @ApiProperty({ example: 'Taurus' })
+  lagna: string;
+
+  @ApiProperty({ nullable: true, example: { tara: 2, name: 'Sampat', favourable: true } })
+  tarabala: { tara: number; name: string; favourable: boolean } | null;
+
+  @ApiProperty({ nullable: true, example: { house: 3, favourable: true } })
+  chandrabala: { house: number; favourable: boolean } | null;
+
+  @ApiProperty({ type: [String] })
+  reasons: string[];
+}
+
+export class MuhurtaSearchResponseDto {
+  @ApiProperty({ example: 'griha_pravesh' })
+  activity: string;
+
+  @ApiProperty({ example: 'House warming (Griha Pravesh)' })
+  activity_label: string;
+
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty({ description: 'Whether Tarabala and Chandrabala were scored against a natal Moon' })
+  personalized: boolean;
+
+  @ApiProperty({ type: [MuhurtaWindowDto], description: 'Windows ranked best first' })
+  windows: MuhurtaWindowDto[];
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Customer } from '../users/entities/customer.entity';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
+import { MuhurtaSearchService } from './services/muhurta-search.service';
+import { AppMuhurtaController } from './controllers/app-muhurta.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Customer]),
+    AstrologyModule,
+    KundliModule,
+    RepositoriesModule,
+  ],
+  controllers: [AppMuhurtaController],
+  providers: [MuhurtaSearchService],
+  exports: [MuhurtaSearchService],
+})
+export class MuhurtaModule {}
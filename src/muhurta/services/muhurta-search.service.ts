@@ -0,0 +1,114 @@
+import { Injectable, Inject, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { IKundliRepository } from '../../core/interfaces/repositories/kundli-repository.interface';
+import { Customer } from '../../users/entities/customer.entity';
+import { MUHURTA_ACTIVITIES, MuhurtaActivity, MuhurtaService } from '../../astrology/services/muhurta.service';
+import { KundliService } from '../../kundli/services/kundli.service';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import { MuhurtaSearchDto, MuhurtaSearchResponseDto } from '../dto/muhurta.dto';
+
+const MAX_SEARCH_DAYS = 90;
+
+/**
+ * Muhurta Search Service
+ * Resolves the location and the customer's natal Moon for a muhurta search.
+ */
+@Injectable()
+export class MuhurtaSearchService {
+  private readonly logger = new Logger(MuhurtaSearchService.name);
+
+  constructor(
+    @InjectRepository(Customer)
+    private readonly customerRepository: Repository<Customer>,
+    @Inject('IKundliRepository')
+    private readonly kundliRepository: IKundliRepository,
+    private readonly kundliService: KundliService,
+    private readonly muhurtaService: MuhurtaService,
+    private readonly placeSearchService: PlaceSearchService,
+  ) {}
+
+  async search(userId: number, dto: MuhurtaSearchDto): Promise<MuhurtaSearchResponseDto> {
+    const days = (Date.parse(dto.end_date) - Date.parse(dto.start_date)) / (24 * 60 * 60 * 1000);
+    if (days < 0) {
+      throw new BadRequestException('end_date must not be before start_date');
+    }
+    if (days >= MAX_SEARCH_DAYS) {
+      throw new BadRequestException(`The search range can cover at most ${MAX_SEARCH_DAYS} days`);
+    }
+
+    const customer = await this.customerRepository.findOne({ where: { id: userId, is_deleted: false } });
+    const location = await this.resolveLocation(dto, customer);
+    const natalMoonLongitude = await this.resolveNatalMoon(userId, dto.kundli_id, customer);
+    const activity = dto.activity as MuhurtaActivity;
+
+    const windows = this.muhurtaService.search({
+      activity,
+      startDate: dto.start_date,
+      endDate: dto.end_date,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timezone: location.timezone,
+      natalMoonLongitude,
+      limit: dto.limit,
+    });
+    this.logger.log(`Muhurta search for ${activity} by user ${userId}: ${windows.length} windows`);
+
+    return {
+      activity,
+      activity_label: MUHURTA_ACTIVITIES[activity].label,
+      ...location,
+      personalized: natalMoonLongitude !== null,
+      windows,
+    };
+  }
+
+  private async resolveLocation(
+    dto: MuhurtaSearchDto,
+    customer: Customer | null,
+  ): Promise<{ latitude: number; longitude: number; timezone: string }> {
+    let latitude = dto.latitude;
+    let longitude = dto.longitude;
+    let timezone = dto.timezone;
+
+    if (latitude === undefined || longitude === undefined) {
+      if (dto.place) {
+        const place = await this.placeSearchService.resolve(dto.place);
+        latitude = place.latitude;
+        longitude = place.longitude;
+        timezone = timezone || place.timezone;
+      } else if (customer && customer.latitude !== null && customer.longitude !== null) {
+        latitude = Number(customer.latitude);
+        longitude = Number(customer.longitude);
+        timezone = timezone || customer.timezone || undefined;
+      } else {
+        throw new BadRequestException('Provide latitude and longitude or a place for the muhurta search');
+      }
+    }
+
+    timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, timezone);
+    return { latitude, longitude, timezone };
+  }
+
+  /**
+   * Sidereal natal Moon from the given kundli, the customer's latest kundli or the profile
+   */
+  private async resolveNatalMoon(userId: number, kundliId: number | undefined, customer: Customer | null): Promise<number | null> {
+    if (kundliId) {
+      const kundli = await this.kundliService.findAccessibleKundli(kundliId, { id: userId });
+      const moon = kundli.planets?.find((p) => p.planet_name === 'Moon');
+      if (!moon) {
+        throw new BadRequestException(`Kundli ${kundliId} has no stored positions; regenerate the kundli`);
+      }
+      return Number(moon.longitude_degrees);
+    }
+
+    const kundli = await this.kundliRepository.findOneByUserId(userId);
+    const moon = kundli?.planets?.find((p) => p.planet_name === 'Moon');
+    if (moon) {
+      return Number(moon.longitude_degrees);
+    }
+
+    return customer && customer.moon_longitude_deg !== null ? Number(customer.moon_longitude_deg) : null;
+  }
+}
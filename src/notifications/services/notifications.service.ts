@@ -3,6 +3,16 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In } from 'typeorm';
 import { Notification } from '../entities/notification.entity';
 
+export interface CreateNotificationInput {
+  user_id: number;
+  title: string;
+  message: string | null;
+  type: string;
+  action_url?: string | null;
+  metadata?: Record<string, any>;
+  dedupe_key: string; // stored in metadata; a user gets one notification per key and type
+}
+
 @Injectable()
 export class NotificationsService {
   constructor(
@@ -62,6 +72,50 @@ export class NotificationsService {
     return { success: true, message: 'Notifications marked as read' };
   }
 
+  /**
+   * Create notifications, skipping those a user already has with the same type and dedupe key
+   */
+  async createUnique(inputs: CreateNotificationInput[]): Promise<number> {
+    if (inputs.length === 0) {
+      return 0;
+    }
+
+    const existing = await this.notificationRepository
+      .createQueryBuilder('notification')
+      .select(['notification.user_id', 'notification.type', 'notification.metadata'])
+      .where('notification.user_id IN (:...userIds)', { userIds: [...new Set(inputs.map((i) => i.user_id))] })
+      .andWhere("notification.metadata->>'dedupe_key' IN (:...keys)", { keys: [...new Set(inputs.map((i) => i.dedupe_key))] })
+      .andWhere('notification.is_deleted = :isDeleted', { isDeleted: false })
+      .getMany();
+    const seen = new Set(existing.map((n) => `${n.user_id}:${n.type}:${n.metadata?.dedupe_key}`));
+
+    const fresh = inputs.filter((input) => {
+      const key = `${input.user_id}:${input.type}:${input.dedupe_key}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+    if (fresh.length === 0) {
+      return 0;
+    }
+
+    await this.notificationRepository.save(
+      fresh.map((input) =>
+        this.notificationRepository.create({
+          user_id: input.user_id,
+          title: input.title,
+          message: input.message,
+          type: input.type,
+          action_url: input.action_url ?? null,
+          metadata: { ...input.metadata, dedupe_key: input.dedupe_key },
+        }),
+      ),
+    );
+    return fresh.length;
+  }
+
   /**
    * Get relative time string (e.g., "2 hours ago")
    */
@@ -0,0 +1,31 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { DailyPanchangService } from '../services/daily-panchang.service';
+import { GetPanchangDto, PanchangResponseDto } from '../dto/panchang.dto';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('panchang')
+@Controller('panchang')
+export class PanchangController {
+  constructor(private readonly dailyPanchangService: DailyPanchangService) {}
+
+  /**
+   * GET /api/v1/panchang?date=&lat=&lng=
+   * Daily panchang with muhurtas and choghadiya - Public endpoint
+   */
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'Get the daily panchang for a date and location' })
+  @ApiResponse({
+    status: 200,
+    description: 'Panchang retrieved successfully',
+    type: PanchangResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid date or location, or the timezone could not be determined',
+  })
+  async getPanchang(@Query() query: GetPanchangDto): Promise<PanchangResponseDto> {
+    return this.dailyPanchangService.getPanchang(query);
+  }
+}
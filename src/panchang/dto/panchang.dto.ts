@@ -0,0 +1,145 @@
+import { IsDateString, IsNotEmpty, IsNumber, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GetPanchangDto {
+  @ApiProperty({ description: 'Civil date (YYYY-MM-DD)', example: '2025-06-01' })
+  @IsDateString()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be in YYYY-MM-DD format' })
+  @IsNotEmpty()
+  date: string;
+
+  @ApiProperty({ description: 'Latitude', example: 28.6139 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ description: 'Longitude', example: 77.209 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({ description: 'IANA timezone; defaults to the timezone of the nearest known place', example: 'Asia/Kolkata' })
+  @IsString()
+  @IsOptional()
+  tz?: string;
+}
+
+export class PanchangElementDto {
+  @ApiProperty({ description: '1-based position within its cycle', example: 5 })
+  index: number;
+
+  @ApiProperty({ example: 'Shukla Panchami' })
+  name: string;
+
+  @ApiProperty({ description: 'Start time; null when already running at sunrise', nullable: true })
+  start: Date | null;
+
+  @ApiProperty({ description: 'End time' })
+  end: Date;
+}
+
+export class TimeWindowDto {
+  @ApiProperty()
+  start: Date;
+
+  @ApiProperty()
+  end: Date;
+}
+
+export class AbhijitMuhurtaDto extends TimeWindowDto {
+  @ApiProperty({ description: 'Abhijit Muhurta is not observed on Wednesdays' })
+  applicable: boolean;
+}
+
+export class ChoghadiyaSlotDto extends TimeWindowDto {
+  @ApiProperty({ example: 'Amrit' })
+  name: string;
+
+  @ApiProperty({ enum: ['good', 'neutral', 'bad'] })
+  nature: string;
+
+  @ApiProperty({ enum: ['day', 'night'] })
+  period: string;
+}
+
+export class PanchangResponseDto {
+  @ApiProperty({ example: '2025-06-01' })
+  date: string;
+
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty({ example: '+05:30' })
+  utc_offset: string;
+
+  @ApiProperty()
+  sunrise: Date;
+
+  @ApiProperty()
+  sunset: Date;
+
+  @ApiProperty()
+  next_sunrise: Date;
+
+  @ApiProperty({ nullable: true, description: 'Null when the Moon does not rise on this date' })
+  moonrise: Date | null;
+
+  @ApiProperty({ nullable: true, description: 'Null when the Moon does not set on this date' })
+  moonset: Date | null;
+
+  @ApiProperty({ example: { index: 1, name: 'Ravivara', lord: 'Sun' } })
+  vara: { index: number; name: string; lord: string };
+
+  @ApiProperty({ enum: ['Shukla', 'Krishna'] })
+  paksha: string;
+
+  @ApiProperty({ type: [PanchangElementDto], description: 'Tithis from sunrise to the next sunrise' })
+  tithi: PanchangElementDto[];
+
+  @ApiProperty({ type: [PanchangElementDto] })
+  nakshatra: PanchangElementDto[];
+
+  @ApiProperty({ type: [PanchangElementDto] })
+  yoga: PanchangElementDto[];
+
+  @ApiProperty({ type: [PanchangElementDto] })
+  karana: PanchangElementDto[];
+
+  @ApiProperty({ description: 'Sidereal sign of the Sun at sunrise', example: 'Taurus' })
+  sun_sign: string;
+
+  @ApiProperty({ description: 'Sidereal sign of the Moon at sunrise', example: 'Cancer' })
+  moon_sign: string;
+
+  @ApiProperty({ description: 'Lahiri ayanamsa at sunrise' })
+  ayanamsa: number;
+
+  @ApiProperty({ type: TimeWindowDto })
+  rahu_kaal: TimeWindowDto;
+
+  @ApiProperty({ type: TimeWindowDto })
+  yamaganda: TimeWindowDto;
+
+  @ApiProperty({ type: TimeWindowDto })
+  gulika_kaal: TimeWindowDto;
+
+  @ApiProperty({ type: AbhijitMuhurtaDto })
+  abhijit_muhurta: AbhijitMuhurtaDto;
+
+  @ApiProperty({ type: TimeWindowDto })
+  brahma_muhurta: TimeWindowDto;
+
+  @ApiProperty({ type: [ChoghadiyaSlotDto], description: '8 day and 8 night slots' })
+  choghadiya: ChoghadiyaSlotDto[];
+}
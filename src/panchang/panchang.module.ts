@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CacheModule } from '../cache/cache.module';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { DailyPanchangService } from './services/daily-panchang.service';
+import { PanchangController } from './controllers/panchang.controller';
+
+@Module({
+  imports: [CacheModule, AstrologyModule, KundliModule],
+  controllers: [PanchangController],
+  providers: [DailyPanchangService],
+  exports: [DailyPanchangService],
+})
+export class PanchangModule {}
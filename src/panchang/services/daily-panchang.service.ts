@@ -0,0 +1,59 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { CacheService } from '../../cache/cache.service';
+import { PanchangService } from '../../astrology/services/panchang.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import { GetPanchangDto, PanchangResponseDto } from '../dto/panchang.dto';
+
+/**
+ * Daily Panchang Service
+ * Resolves the local day for a location and caches the computed panchang,
+ * which does not change for a given date and place.
+ */
+@Injectable()
+export class DailyPanchangService {
+  private readonly logger = new Logger(DailyPanchangService.name);
+  private readonly cacheTtl = 24 * 60 * 60;
+
+  constructor(
+    private readonly panchangService: PanchangService,
+    private readonly timezoneService: TimezoneService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async getPanchang(dto: GetPanchangDto): Promise<PanchangResponseDto> {
+    const latitude = Number(dto.lat);
+    const longitude = Number(dto.lng);
+    const timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, dto.tz);
+
+    const cacheKey = `panchang:${dto.date}:${latitude.toFixed(2)}:${longitude.toFixed(2)}:${timezone}`;
+    const cached = await this.cacheService.get<PanchangResponseDto>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { utc: localMidnight, utcOffsetMinutes } = this.timezoneService.toUniversalTime(dto.date, '00:00:00', timezone);
+    const weekday = new Date(`${dto.date}T00:00:00Z`).getUTCDay();
+
+    let panchang;
+    try {
+      panchang = this.panchangService.getPanchang(localMidnight, latitude, longitude, weekday);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const response: PanchangResponseDto = {
+      date: dto.date,
+      latitude,
+      longitude,
+      timezone,
+      utc_offset: this.timezoneService.formatOffset(utcOffsetMinutes),
+      ...panchang,
+    };
+
+    await this.cacheService.set(cacheKey, response, this.cacheTtl);
+    this.logger.log(`Panchang computed for ${dto.date} at ${latitude}, ${longitude} (${timezone})`);
+    return response;
+  }
+}
@@ -0,0 +1,38 @@
+import { Controller, Get, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { RectificationSessionService } from '../../services/rectification-session.service';
+import { ListRectificationsDto, RectificationSessionDto, ReviewRectificationDto } from '../../dto/rectification.dto';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../../common/enums/user-role.enum';
+import { CurrentUser } from '../../../common/decorators/current-user.decorator';
+
+@ApiTags('admin-rectification')
+@Controller('admin/rectification')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+@ApiBearerAuth()
+export class AdminRectificationController {
+  constructor(private readonly rectificationSessionService: RectificationSessionService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List rectification sessions for review (Admin only)' })
+  async findAll(@Query() query: ListRectificationsDto) {
+    return this.rectificationSessionService.listForReview(query);
+  }
+
+  @Get(':uniqueId')
+  @ApiOperation({ summary: 'Get a rectification session (Admin only)' })
+  @ApiResponse({ status: 200, type: RectificationSessionDto })
+  async findOne(@Param('uniqueId') uniqueId: string) {
+    return this.rectificationSessionService.getForReview(uniqueId);
+  }
+
+  @Patch(':uniqueId/review')
+  @ApiOperation({ summary: 'Approve with the confirmed birth time, or reject (Admin only)' })
+  @ApiResponse({ status: 200, type: RectificationSessionDto })
+  async review(@Param('uniqueId') uniqueId: string, @Body() dto: ReviewRectificationDto, @CurrentUser() user: any) {
+    return this.rectificationSessionService.review(uniqueId, user.id, dto);
+  }
+}
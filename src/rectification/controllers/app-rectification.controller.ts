@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RectificationSessionService } from '../services/rectification-session.service';
+import { CreateRectificationDto, RectificationSessionDto } from '../dto/rectification.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ModuleAccessGuard } from '../../common/guards/module-access.guard';
+import { ModuleAccess } from '../../common/decorators/module-access.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ModuleType } from '../../common/enums/module-type.enum';
+
+@ApiTags('Rectification (App)')
+@Controller('app/rectification')
+@UseGuards(JwtAuthGuard, ModuleAccessGuard)
+@ModuleAccess(ModuleType.KUNDLI)
+@ApiBearerAuth()
+export class AppRectificationController {
+  constructor(private readonly rectificationSessionService: RectificationSessionService) {}
+
+  /**
+   * POST /api/v1/app/rectification
+   * Scan a birth-time window against life events
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Start a birth-time rectification (Mobile App)' })
+  @ApiResponse({ status: 201, description: 'Ranked candidate times, pending astrologer review', type: RectificationSessionDto })
+  @ApiResponse({ status: 400, description: 'Invalid window, location or events' })
+  async create(@Body() dto: CreateRectificationDto, @CurrentUser() user: any) {
+    const session = await this.rectificationSessionService.create(user.id, dto);
+    return { success: true, data: session };
+  }
+
+  /**
+   * GET /api/v1/app/rectification
+   * Rectification sessions of the current customer
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get rectification sessions (Mobile App)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'offset', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Sessions, newest first' })
+  async list(@CurrentUser() user: any, @Query('limit') limit?: string, @Query('offset') offset?: string) {
+    const take = Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100);
+    const skip = Math.max(parseInt(offset, 10) || 0, 0);
+    const result = await this.rectificationSessionService.list(user.id, take, skip);
+
+    return {
+      success: true,
+      data: { ...result, limit: take, offset: skip },
+    };
+  }
+
+  /**
+   * GET /api/v1/app/rectification/:uniqueId
+   * A session with its candidates and review outcome
+   */
+  @Get(':uniqueId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get a rectification session (Mobile App)' })
+  @ApiResponse({ status: 200, description: 'Session with ranked candidates', type: RectificationSessionDto })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async get(@Param('uniqueId') uniqueId: string, @CurrentUser() user: any) {
+    const session = await this.rectificationSessionService.get(user.id, uniqueId);
+    return { success: true, data: session };
+  }
+
+  /**
+   * DELETE /api/v1/app/rectification/:uniqueId
+   */
+  @Delete(':uniqueId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a rectification session (Mobile App)' })
+  @ApiResponse({ status: 200, description: 'Session deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async delete(@Param('uniqueId') uniqueId: string, @CurrentUser() user: any) {
+    await this.rectificationSessionService.delete(user.id, uniqueId);
+    return { success: true, message: 'Rectification session deleted successfully' };
+  }
+}
@@ -0,0 +1,275 @@
+import {
+  IsString,
+  IsDateString,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsIn,
+  Min,
+  Max,
+  Matches,
+  MaxLength,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LIFE_EVENT_TYPES, LifeEventType } from '../../astrology/services/rectification.service';
+import { RECTIFICATION_STATUSES, RectificationStatus } from '../entities/rectification-session.entity';
+
+const TIME_PATTERN = /^([0-1][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9]$/;
+
+export class LifeEventDto {
+  @ApiProperty({ enum: LIFE_EVENT_TYPES, example: 'marriage' })
+  @IsIn(LIFE_EVENT_TYPES)
+  type: LifeEventType;
+
+  @ApiProperty({ description: 'Date of the event (YYYY-MM-DD)', example: '2016-11-20' })
+  @IsDateString()
+  date: string;
+
+  @ApiPropertyOptional({ example: 'Married in Pune' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class CreateRectificationDto {
+  @ApiPropertyOptional({ description: 'Rectify a saved kundli; its birth details and ayanamsa are used', example: 12 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  kundli_id?: number;
+
+  @ApiPropertyOptional({ description: 'Full name', example: 'Rahul' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Date of birth (YYYY-MM-DD); required without kundli_id', example: '1990-01-15' })
+  @IsDateString()
+  @IsOptional()
+  birth_date?: string;
+
+  @ApiPropertyOptional({ description: 'Place of birth (city name)', example: 'Mumbai' })
+  @IsString()
+  @IsOptional()
+  birth_place?: string;
+
+  @ApiPropertyOptional({ example: 19.076 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @ApiPropertyOptional({ example: 72.8777 })
+  @IsNumber()
+  @IsOptional()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata' })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiProperty({ description: 'Earliest possible local birth time (HH:MM:SS)', example: '08:00:00' })
+  @IsString()
+  @Matches(TIME_PATTERN, { message: 'window_start must be in HH:MM:SS format' })
+  window_start: string;
+
+  @ApiProperty({ description: 'Latest possible local birth time (HH:MM:SS), same day', example: '10:00:00' })
+  @IsString()
+  @Matches(TIME_PATTERN, { message: 'window_end must be in HH:MM:SS format' })
+  window_end: string;
+
+  @ApiPropertyOptional({ description: 'Minutes between candidate times', example: 2, default: 2 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(30)
+  step_minutes?: number;
+
+  @ApiPropertyOptional({ description: 'Ayanamsa slug (ignored with kundli_id)', example: 'lahiri' })
+  @IsString()
+  @IsOptional()
+  ayanamsa_name?: string;
+
+  @ApiProperty({ type: [LifeEventDto], description: 'Dated life events, the more the better' })
+  @ValidateNested({ each: true })
+  @Type(() => LifeEventDto)
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  events: LifeEventDto[];
+}
+
+export class ReviewRectificationDto {
+  @ApiProperty({ enum: ['approved', 'rejected'] })
+  @IsIn(['approved', 'rejected'])
+  status: Exclude<RectificationStatus, 'pending_review'>;
+
+  @ApiPropertyOptional({ description: 'Confirmed birth time (HH:MM:SS); defaults to the best candidate', example: '09:12:00' })
+  @IsString()
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'rectified_time must be in HH:MM:SS format' })
+  rectified_time?: string;
+
+  @ApiPropertyOptional({ description: 'Notes for the customer' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  notes?: string;
+}
+
+export class ListRectificationsDto {
+  @ApiPropertyOptional({ enum: RECTIFICATION_STATUSES })
+  @IsIn(RECTIFICATION_STATUSES)
+  @IsOptional()
+  status?: RectificationStatus;
+
+  @ApiPropertyOptional({ example: 20, default: 20 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ example: 0, default: 0 })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  offset?: number;
+}
+
+export class RectificationEventMatchDto {
+  @ApiProperty({ enum: LIFE_EVENT_TYPES })
+  type: LifeEventType;
+
+  @ApiProperty({ example: '2016-11-20' })
+  date: string;
+
+  @ApiProperty({ description: 'Mahadasha, antardasha and pratyantar lords on the event date', example: ['Moon', 'Sun', 'Moon'] })
+  dasha: string[];
+
+  @ApiProperty({ description: 'How well the chart times this event (0-1)', example: 0.79 })
+  score: number;
+
+  @ApiProperty({ example: ['Moon mahadasha: lord of house 7', 'Saturn transit house 7 or its lord'] })
+  reasons: string[];
+}
+
+export class RectificationCandidateDto {
+  @ApiProperty({ description: 'Local birth time', example: '09:06:00' })
+  time: string;
+
+  @ApiProperty({ example: '1990-01-15T03:36:00.000Z' })
+  time_utc: string;
+
+  @ApiProperty({ description: 'Match across all events (0-100)', example: 67.1 })
+  score: number;
+
+  @ApiProperty({ example: { sign: 'Capricorn', degrees: 21.74 } })
+  lagna: { sign: string; degrees: number };
+
+  @ApiProperty({ example: 'Cancer' })
+  navamsa_lagna: string;
+
+  @ApiProperty({ example: 'Purva Phalguni' })
+  moon_nakshatra: string;
+
+  @ApiProperty({ type: [RectificationEventMatchDto] })
+  events: RectificationEventMatchDto[];
+}
+
+export class RectificationSegmentDto {
+  @ApiProperty({ description: 'First local time in the run', example: '09:00:00' })
+  from: string;
+
+  @ApiProperty({ description: 'Last local time in the run', example: '09:10:00' })
+  to: string;
+
+  @ApiProperty({ example: 'Capricorn' })
+  lagna: string;
+
+  @ApiProperty({ example: 'Cancer' })
+  navamsa_lagna: string;
+}
+
+export class RectificationSessionDto {
+  @ApiProperty()
+  unique_id: string;
+
+  @ApiProperty({ nullable: true })
+  kundli_id: number | null;
+
+  @ApiProperty({ nullable: true })
+  name: string | null;
+
+  @ApiProperty({ example: '1990-01-15' })
+  birth_date: string;
+
+  @ApiProperty({ nullable: true })
+  birth_place: string | null;
+
+  @ApiProperty()
+  latitude: number;
+
+  @ApiProperty()
+  longitude: number;
+
+  @ApiProperty({ example: 'Asia/Kolkata' })
+  timezone: string;
+
+  @ApiProperty({ description: 'Birth time on record before rectification', nullable: true })
+  recorded_time: string | null;
+
+  @ApiProperty({ example: '08:00:00' })
+  window_start: string;
+
+  @ApiProperty({ example: '10:00:00' })
+  window_end: string;
+
+  @ApiProperty({ example: 2 })
+  step_minutes: number;
+
+  @ApiProperty({ example: 'lahiri' })
+  ayanamsa_name: string;
+
+  @ApiProperty({ type: [LifeEventDto] })
+  events: LifeEventDto[];
+
+  @ApiProperty({ nullable: true, example: '09:06:00' })
+  best_time: string | null;
+
+  @ApiProperty({ nullable: true, example: 67.1 })
+  best_score: number | null;
+
+  @ApiProperty({ enum: RECTIFICATION_STATUSES })
+  status: RectificationStatus;
+
+  @ApiProperty({ description: 'Time confirmed by the reviewing astrologer', nullable: true })
+  rectified_time: string | null;
+
+  @ApiProperty({ nullable: true })
+  review_notes: string | null;
+
+  @ApiProperty({ nullable: true })
+  reviewed_at: Date | null;
+
+  @ApiProperty()
+  created_at: Date;
+
+  @ApiProperty({ type: [RectificationCandidateDto], description: 'Best candidates first' })
+  candidates: RectificationCandidateDto[];
+
+  @ApiProperty({ type: [RectificationSegmentDto], description: 'Lagna and navamsa lagna changes across the window' })
+  segments: RectificationSegmentDto[];
+}
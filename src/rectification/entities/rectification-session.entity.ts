@@ -0,0 +1,87 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { User } from '../../users/entities/user.entity';
+
+export const RECTIFICATION_STATUSES = ['pending_review', 'approved', 'rejected'] as const;
+export type RectificationStatus = (typeof RECTIFICATION_STATUSES)[number];
+
+@Entity('rectification_sessions')
+@Index(['user_id', 'is_deleted'])
+@Index(['status', 'is_deleted'])
+export class RectificationSession extends BaseEntity {
+  @Column({ type: 'bigint', name: 'user_id' })
+  user_id: number;
+
+  @Column({ type: 'bigint', nullable: true, name: 'kundli_id' })
+  kundli_id: number | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  name: string | null;
+
+  @Column({ type: 'date', name: 'birth_date' })
+  birth_date: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'birth_place' })
+  birth_place: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  longitude: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  timezone: string;
+
+  @Column({ type: 'time', nullable: true, name: 'recorded_time' })
+  recorded_time: string | null; // Birth time on record before rectification
+
+  @Column({ type: 'time', name: 'window_start' })
+  window_start: string;
+
+  @Column({ type: 'time', name: 'window_end' })
+  window_end: string;
+
+  @Column({ type: 'int', name: 'step_minutes' })
+  step_minutes: number;
+
+  @Column({ type: 'varchar', length: 50, name: 'ayanamsa_name' })
+  ayanamsa_name: string;
+
+  @Column({ type: 'varchar', length: 10, default: 'mean', name: 'node_type' })
+  node_type: string;
+
+  @Column({ type: 'jsonb' })
+  events: Record<string, any>[]; // Life events as entered: type, date, description
+
+  @Column({ type: 'jsonb' })
+  candidates: Record<string, any>[]; // Best candidate times with per-event scores, best first
+
+  @Column({ type: 'jsonb' })
+  segments: Record<string, any>[]; // Lagna / navamsa lagna runs across the window
+
+  @Column({ type: 'time', nullable: true, name: 'best_time' })
+  best_time: string | null;
+
+  @Column({ type: 'decimal', precision: 5, scale: 1, nullable: true, name: 'best_score' })
+  best_score: number | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending_review' })
+  status: RectificationStatus;
+
+  @Column({ type: 'time', nullable: true, name: 'rectified_time' })
+  rectified_time: string | null; // Time confirmed by the reviewing astrologer
+
+  @Column({ type: 'text', nullable: true, name: 'review_notes' })
+  review_notes: string | null;
+
+  @Column({ type: 'bigint', nullable: true, name: 'reviewed_by' })
+  reviewed_by: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true, name: 'reviewed_at' })
+  reviewed_at: Date | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user: User;
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RectificationSession } from './entities/rectification-session.entity';
+import { RectificationSessionService } from './services/rectification-session.service';
+import { AppRectificationController } from './controllers/app-rectification.controller';
+import { AdminRectificationController } from './controllers/admin/admin-rectification.controller';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RectificationSession]),
+    AstrologyModule,
+    KundliModule,
+    RepositoriesModule,
+    SubscriptionsModule, // For ModuleAccessGuard
+  ],
+  controllers: [AppRectificationController, AdminRectificationController],
+  providers: [RectificationSessionService],
+  exports: [RectificationSessionService],
+})
+export class RectificationModule {}
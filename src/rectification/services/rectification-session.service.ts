@@ -0,0 +1,320 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RectificationSession, RectificationStatus } from '../entities/rectification-session.entity';
+import { RectificationResult, RectificationService } from '../../astrology/services/rectification.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { NodeType } from '../../astrology/services/ephemeris.service';
+import { KundliAyanamsaService } from '../../kundli/services/kundli-ayanamsa.service';
+import { KundliService } from '../../kundli/services/kundli.service';
+import { PlaceSearchService } from '../../kundli/services/place-search.service';
+import {
+  CreateRectificationDto,
+  ListRectificationsDto,
+  RectificationSessionDto,
+  ReviewRectificationDto,
+} from '../dto/rectification.dto';
+
+interface BirthContext {
+  kundli_id: number | null;
+  name: string | null;
+  birth_date: string;
+  birth_place: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  recorded_time: string | null;
+  ayanamsa_name: string;
+  node_type: NodeType;
+}
+
+// Candidates kept on the session; the rest of the scan is discarded
+const STORED_CANDIDATES = 20;
+const MAX_CANDIDATES = 361;
+
+/**
+ * Rectification Session Service
+ * Scans a window of possible birth times against the customer's life events
+ * and keeps each scan as a session that an astrologer (admin) reviews and
+ * approves with a confirmed birth time.
+ */
+@Injectable()
+export class RectificationSessionService {
+  private readonly logger = new Logger(RectificationSessionService.name);
+
+  constructor(
+    @InjectRepository(RectificationSession)
+    private readonly sessionRepository: Repository<RectificationSession>,
+    private readonly rectificationService: RectificationService,
+    private readonly timezoneService: TimezoneService,
+    private readonly placeSearchService: PlaceSearchService,
+    private readonly kundliAyanamsaService: KundliAyanamsaService,
+    private readonly kundliService: KundliService,
+  ) {}
+
+  /**
+   * Scan the window and save the ranked candidates as a session pending review
+   */
+  async create(userId: number, dto: CreateRectificationDto): Promise<RectificationSessionDto> {
+    const birth = await this.resolveBirthContext(userId, dto);
+    const stepMinutes = dto.step_minutes ?? 2;
+
+    // Local candidate times across the window, keyed by their UT instant
+    const [startSeconds, endSeconds] = [dto.window_start, dto.window_end].map((time) => this.toSeconds(time));
+    if (endSeconds <= startSeconds) {
+      throw new BadRequestException('window_end must be after window_start on the same day');
+    }
+    if ((endSeconds - startSeconds) / (stepMinutes * 60) + 1 > MAX_CANDIDATES) {
+      throw new BadRequestException(`Window too wide for a ${stepMinutes}-minute step; narrow it or use a larger step`);
+    }
+
+    const localTimes = new Map<number, string>();
+    for (let seconds = startSeconds; seconds <= endSeconds; seconds += stepMinutes * 60) {
+      const time = this.toTime(seconds);
+      const utc = this.timezoneService.toUniversalTime(birth.birth_date, time, birth.timezone).utc;
+      if (!localTimes.has(utc.getTime())) {
+        localTimes.set(utc.getTime(), time);
+      }
+    }
+
+    const birthDay = new Date(`${birth.birth_date}T00:00:00Z`).getTime();
+    const events = dto.events.map((event) => {
+      const date = event.date.split('T')[0];
+      if (new Date(`${date}T00:00:00Z`).getTime() <= birthDay) {
+        throw new BadRequestException(`Event ${event.type} on ${date} is not after the birth date`);
+      }
+      return { type: event.type, date, description: event.description || null };
+    });
+
+    const result = this.rectificationService.scan({
+      candidates: [...localTimes.keys()].sort((a, b) => a - b).map((time) => new Date(time)),
+      latitude: birth.latitude,
+      longitude: birth.longitude,
+      ayanamsa: birth.ayanamsa_name,
+      nodeType: birth.node_type,
+      // Events are dated to the day; judge them at local noon
+      events: events.map((event) => ({
+        type: event.type,
+        date: this.timezoneService.toUniversalTime(event.date, '12:00:00', birth.timezone).utc,
+      })),
+    });
+    const { candidates, segments } = this.toStoredResult(result, localTimes);
+
+    const session = this.sessionRepository.create({
+      user_id: userId,
+      ...birth,
+      window_start: dto.window_start,
+      window_end: dto.window_end,
+      step_minutes: stepMinutes,
+      events,
+      candidates,
+      segments,
+      best_time: candidates[0]?.time ?? null,
+      best_score: candidates[0]?.score ?? null,
+      status: 'pending_review',
+      added_by: userId,
+      modify_by: userId,
+    });
+    const saved = await this.sessionRepository.save(session);
+    this.logger.log(
+      `Rectification ${saved.unique_id} for user ${userId}: ${localTimes.size} candidates, best ${saved.best_time} (${saved.best_score})`,
+    );
+
+    return this.toResponse(saved);
+  }
+
+  /**
+   * Sessions of a customer, newest first
+   */
+  async list(userId: number, limit = 20, offset = 0): Promise<{ sessions: RectificationSessionDto[]; total: number }> {
+    const [sessions, total] = await this.sessionRepository.findAndCount({
+      where: { user_id: userId, is_deleted: false },
+      order: { added_date: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { sessions: sessions.map((s) => this.toResponse(s)), total };
+  }
+
+  async get(userId: number, uniqueId: string): Promise<RectificationSessionDto> {
+    return this.toResponse(await this.findOwned(userId, uniqueId));
+  }
+
+  async delete(userId: number, uniqueId: string): Promise<void> {
+    const session = await this.findOwned(userId, uniqueId);
+    session.is_deleted = true;
+    session.modify_by = userId;
+    await this.sessionRepository.save(session);
+  }
+
+  /**
+   * Sessions of all customers for review, oldest pending first
+   */
+  async listForReview(dto: ListRectificationsDto): Promise<{ sessions: RectificationSessionDto[]; total: number }> {
+    const [sessions, total] = await this.sessionRepository.findAndCount({
+      where: { is_deleted: false, ...(dto.status ? { status: dto.status } : {}) },
+      order: { added_date: dto.status === 'pending_review' ? 'ASC' : 'DESC' },
+      take: dto.limit ?? 20,
+      skip: dto.offset ?? 0,
+    });
+    return { sessions: sessions.map((s) => this.toResponse(s)), total };
+  }
+
+  async getForReview(uniqueId: string): Promise<RectificationSessionDto> {
+    return this.toResponse(await this.findByUniqueId(uniqueId));
+  }
+
+  /**
+   * Approve a session with the confirmed birth time, or reject it
+   */
+  async review(uniqueId: string, reviewerId: number, dto: ReviewRectificationDto): Promise<RectificationSessionDto> {
+    const session = await this.findByUniqueId(uniqueId);
+
+    const rectifiedTime = dto.status === 'approved' ? dto.rectified_time || session.best_time : null;
+    if (dto.status === 'approved' && !rectifiedTime) {
+      throw new BadRequestException('rectified_time is required when the scan found no candidates');
+    }
+
+    session.status = dto.status as RectificationStatus;
+    session.rectified_time = rectifiedTime;
+    session.review_notes = dto.notes ?? session.review_notes;
+    session.reviewed_by = reviewerId;
+    session.reviewed_at = new Date();
+    session.modify_by = reviewerId;
+
+    const saved = await this.sessionRepository.save(session);
+    this.logger.log(`Rectification ${uniqueId} ${dto.status} by ${reviewerId}${rectifiedTime ? ` at ${rectifiedTime}` : ''}`);
+    return this.toResponse(saved);
+  }
+
+  /**
+   * Birth date, place and ayanamsa from a saved kundli or the request
+   */
+  private async resolveBirthContext(userId: number, dto: CreateRectificationDto): Promise<BirthContext> {
+    if (dto.kundli_id) {
+      const kundli = await this.kundliService.findAccessibleKundli(dto.kundli_id, { id: userId });
+      const birthDate =
+        kundli.birth_date instanceof Date ? kundli.birth_date.toISOString().split('T')[0] : String(kundli.birth_date);
+
+      return {
+        kundli_id: Number(kundli.id),
+        name: dto.name || [kundli.user?.first_name, kundli.user?.last_name].filter(Boolean).join(' ') || null,
+        birth_date: birthDate,
+        birth_place: kundli.birth_place,
+        latitude: Number(kundli.latitude),
+        longitude: Number(kundli.longitude),
+        timezone: kundli.timezone || 'Asia/Kolkata',
+        recorded_time: kundli.birth_time,
+        ayanamsa_name: this.kundliAyanamsaService.getKundliAyanamsa(kundli),
+        node_type: kundli.full_data?.nodeType || 'mean',
+      };
+    }
+
+    if (!dto.birth_date) {
+      throw new BadRequestException('Pass kundli_id or birth_date');
+    }
+
+    let { latitude, longitude, timezone } = dto;
+    let birthPlace = dto.birth_place || null;
+    if (latitude === undefined || longitude === undefined) {
+      const place = await this.placeSearchService.resolve(dto.birth_place);
+      ({ latitude, longitude } = place);
+      timezone = timezone || place.timezone;
+      birthPlace = place.display_name;
+    }
+    timezone = await this.placeSearchService.resolveTimezone(latitude, longitude, timezone);
+
+    return {
+      kundli_id: null,
+      name: dto.name || null,
+      birth_date: dto.birth_date.split('T')[0],
+      birth_place: birthPlace,
+      latitude,
+      longitude,
+      timezone,
+      recorded_time: null,
+      ayanamsa_name: await this.kundliAyanamsaService.resolve(dto.ayanamsa_name),
+      node_type: 'mean',
+    };
+  }
+
+  /**
+   * Keep the best candidates and express every time as local wall-clock time
+   */
+  private toStoredResult(result: RectificationResult, localTimes: Map<number, string>) {
+    const candidates = result.candidates.slice(0, STORED_CANDIDATES).map((candidate) => ({
+      time: localTimes.get(candidate.time.getTime()),
+      time_utc: candidate.time.toISOString(),
+      score: candidate.score,
+      lagna: { sign: candidate.lagna.sign, degrees: Math.round(candidate.lagna.degrees * 100) / 100 },
+      navamsa_lagna: candidate.navamsa_lagna,
+      moon_nakshatra: candidate.moon_nakshatra,
+      events: candidate.events.map((event) => ({ ...event, date: event.date.toISOString().split('T')[0] })),
+    }));
+
+    const segments = result.segments.map((segment) => ({
+      from: localTimes.get(segment.from.getTime()),
+      to: localTimes.get(segment.to.getTime()),
+      lagna: segment.lagna,
+      navamsa_lagna: segment.navamsa_lagna,
+    }));
+
+    return { candidates, segments };
+  }
+
+  private async findOwned(userId: number, uniqueId: string): Promise<RectificationSession> {
+    const session = await this.sessionRepository.findOne({
+      where: { unique_id: uniqueId, user_id: userId, is_deleted: false },
+    });
+    if (!session) {
+      throw new NotFoundException('Rectification session not found');
+    }
+    return session;
+  }
+
+  private async findByUniqueId(uniqueId: string): Promise<RectificationSession> {
+    const session = await this.sessionRepository.findOne({ where: { unique_id: uniqueId, is_deleted: false } });
+    if (!session) {
+      throw new NotFoundException('Rectification session not found');
+    }
+    return session;
+  }
+
+  private toSeconds(time: string): number {
+    const [hours, minutes, seconds] = time.split(':').map((v) => parseInt(v, 10));
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  private toTime(totalSeconds: number): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  }
+
+  private toResponse(session: RectificationSession): RectificationSessionDto {
+    return {
+      unique_id: session.unique_id,
+      kundli_id: session.kundli_id !== null ? Number(session.kundli_id) : null,
+      name: session.name,
+      birth_date: String(session.birth_date),
+      birth_place: session.birth_place,
+      latitude: Number(session.latitude),
+      longitude: Number(session.longitude),
+      timezone: session.timezone,
+      recorded_time: session.recorded_time,
+      window_start: session.window_start,
+      window_end: session.window_end,
+      step_minutes: session.step_minutes,
+      ayanamsa_name: session.ayanamsa_name,
+      events: session.events as RectificationSessionDto['events'],
+      best_time: session.best_time,
+      best_score: session.best_score !== null ? Number(session.best_score) : null,
+      status: session.status,
+      rectified_time: session.rectified_time,
+      review_notes: session.review_notes,
+      reviewed_at: session.reviewed_at,
+      created_at: session.added_date,
+      candidates: session.candidates as RectificationSessionDto['candidates'],
+      segments: session.segments as RectificationSessionDto['segments'],
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  ParseIntPipe,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
+import { KundliReportService } from '../services/kundli-report.service';
+import { GenerateKundliReportDto, KundliReportDto, ListKundliReportsDto } from '../dto/kundli-report.dto';
+import { ChartStyle } from '../../astrology/services/chart-renderer.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ModuleAccessGuard } from '../../common/guards/module-access.guard';
+import { ModuleAccess } from '../../common/decorators/module-access.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ModuleType } from '../../common/enums/module-type.enum';
+
+@ApiTags('Reports (App)')
+@Controller('app/reports')
+@UseGuards(JwtAuthGuard, ModuleAccessGuard)
+@ModuleAccess(ModuleType.REPORT)
+@ApiBearerAuth()
+export class AppReportsController {
+  constructor(private readonly kundliReportService: KundliReportService) {}
+
+  /**
+   * POST /api/v1/app/reports/kundli/:kundliId
+   * Generate a new PDF report version for a kundli
+   */
+  @Post('kundli/:kundliId')
+  @ApiOperation({ summary: 'Generate a PDF kundli report (Mobile App)' })
+  @ApiParam({ name: 'kundliId', type: Number })
+  @ApiResponse({ status: 201, description: 'Report generated and stored', type: KundliReportDto })
+  @ApiResponse({ status: 403, description: 'Reports are not included in the plan or the monthly limit is reached' })
+  @ApiResponse({ status: 404, description: 'Kundli not found' })
+  async generate(
+    @Param('kundliId', ParseIntPipe) kundliId: number,
+    @Body() dto: GenerateKundliReportDto,
+    @CurrentUser() user: any,
+  ) {
+    const report = await this.kundliReportService.generate(user.id, kundliId, (dto.style || 'north') as ChartStyle);
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
+  /**
+   * GET /api/v1/app/reports
+   * List generated reports
+   */
+  @Get()
+  @ApiOperation({ summary: 'List my generated reports (Mobile App)' })
+  @ApiResponse({ status: 200, description: 'Reports, newest first', type: [KundliReportDto] })
+  @ApiResponse({ status: 403, description: 'Report module not included in the subscription' })
+  async list(@Query() query: ListKundliReportsDto, @CurrentUser() user: any) {
+    const reports = await this.kundliReportService.list(user.id, query.kundli_id);
+
+    return {
+      success: true,
+      data: reports,
+    };
+  }
+
+  /**
+   * GET /api/v1/app/reports/:uniqueId/download
+   * Download a stored report
+   */
+  @Get(':uniqueId/download')
+  @ApiOperation({ summary: 'Download a generated report as PDF (Mobile App)' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'PDF file' })
+  @ApiResponse({ status: 403, description: 'Report module not included in the subscription' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async download(
+    @Param('uniqueId') uniqueId: string,
+    @CurrentUser() user: any,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const { file_name, content } = await this.kundliReportService.download(user.id, uniqueId);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${file_name}"`,
+      'Content-Length': String(content.length),
+    });
+    return new StreamableFile(content);
+  }
+}
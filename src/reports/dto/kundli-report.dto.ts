@@ -0,0 +1,49 @@
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CHART_STYLES } from '../../astrology/services/chart-renderer.service';
+
+export class GenerateKundliReportDto {
+  @ApiPropertyOptional({ description: 'Style of the D1/D9 charts in the report', enum: CHART_STYLES, default: 'north' })
+  @IsOptional()
+  @IsIn(CHART_STYLES as readonly string[])
+  style?: string;
+}
+
+export class ListKundliReportsDto {
+  @ApiPropertyOptional({ description: 'Only reports of this kundli' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  kundli_id?: number;
+}
+
+export class KundliReportDto {
+  @ApiProperty({ description: 'Report unique ID, used to download it' })
+  unique_id: string;
+
+  @ApiProperty()
+  kundli_id: number;
+
+  @ApiProperty({ description: 'Report version for this kundli, starting at 1' })
+  version: number;
+
+  @ApiProperty({ example: 'rahul-sharma-kundli-report-v2.pdf' })
+  file_name: string;
+
+  @ApiProperty({ description: 'Size in bytes' })
+  file_size: number;
+
+  @ApiProperty()
+  page_count: number;
+
+  @ApiProperty({ enum: CHART_STYLES })
+  chart_style: string;
+
+  @ApiProperty({ description: 'SHA-256 of the PDF' })
+  checksum: string;
+
+  @ApiProperty()
+  created_at: Date;
+}
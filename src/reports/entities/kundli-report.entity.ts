@@ -0,0 +1,44 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '../../common/entities/base.entity';
+import { User } from '../../users/entities/user.entity';
+import { Kundli } from '../../kundli/entities/kundli.entity';
+
+@Entity('kundli_reports')
+@Index(['user_id', 'is_deleted'])
+@Index(['kundli_id', 'version'], { unique: true })
+export class KundliReport extends BaseEntity {
+  @Column({ type: 'bigint', name: 'user_id' })
+  user_id: number;
+
+  @Column({ type: 'bigint', name: 'kundli_id' })
+  kundli_id: number;
+
+  @Column({ type: 'int' })
+  version: number; // 1, 2, ... per kundli; each generation keeps the earlier files
+
+  @Column({ type: 'varchar', length: 255, name: 'file_name' })
+  file_name: string;
+
+  @Column({ type: 'int', name: 'file_size' })
+  file_size: number; // bytes
+
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string; // SHA-256 of the PDF
+
+  @Column({ type: 'varchar', length: 20, name: 'chart_style' })
+  chart_style: string; // 'north', 'south' or 'east'
+
+  @Column({ type: 'int', name: 'page_count' })
+  page_count: number;
+
+  @Column({ type: 'bytea', select: false })
+  content: Buffer; // The PDF itself; loaded only for downloads
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id', referencedColumnName: 'id' })
+  user: User;
+
+  @ManyToOne(() => Kundli, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'kundli_id', referencedColumnName: 'id' })
+  kundli: Kundli;
+}
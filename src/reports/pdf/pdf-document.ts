@@ -0,0 +1,238 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * Minimal PDF 1.4 writer
+ *
+ * Enough of the format for generated reports: A4 pages, the standard
+ * Helvetica fonts (no embedding), text, lines, polylines and rectangles.
+ * Coordinates are in points with the origin at the top-left of the page.
+ * Text is encoded as WinAnsi; characters outside it are replaced with "?".
+ */
+
+export type RgbColor = [number, number, number]; // 0-1 each
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RgbColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// Helvetica advance widths (1/1000 em) for the printable ASCII range 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_WIDTH = 556;
+const BOLD_FACTOR = 1.06; // Helvetica-Bold runs slightly wider
+
+// Unicode characters outside Latin-1 that WinAnsi maps into 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89, '‹': 0x8b,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, '›': 0x9b,
+};
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+
+  constructor(
+    private readonly width = A4_WIDTH,
+    private readonly height = A4_HEIGHT,
+  ) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get pageWidth(): number {
+    return this.width;
+  }
+
+  get pageHeight(): number {
+    return this.height;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): this {
+    const size = options.size || 10;
+    const width = this.widthOf(value, size, options.bold);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+
+    this.write(
+      'BT',
+      `${this.color(options.color || [0.13, 0.13, 0.13])} rg`,
+      `/${options.bold ? 'F2' : 'F1'} ${this.num(size)} Tf`,
+      `${this.num(left)} ${this.num(this.height - y)} Td`,
+      `(${this.encode(value)}) Tj`,
+      'ET',
+    );
+    return this;
+  }
+
+  /**
+   * Width of a string in points
+   */
+  widthOf(value: string, size: number, bold = false): number {
+    let units = 0;
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+    }
+    return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+  }
+
+  /**
+   * Split text into lines that fit a width
+   */
+  wrap(value: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of value.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.widthOf(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+    return lines;
+  }
+
+  polyline(points: Array<[number, number]>, lineWidth = 1, color: RgbColor = [0, 0, 0]): this {
+    if (points.length < 2) return this;
+    const [first, ...rest] = points;
+    this.write(
+      `${this.num(lineWidth)} w`,
+      `${this.color(color)} RG`,
+      `${this.num(first[0])} ${this.num(this.height - first[1])} m`,
+      ...rest.map(([x, y]) => `${this.num(x)} ${this.num(this.height - y)} l`),
+      'S',
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 1, color: RgbColor = [0, 0, 0]): this {
+    return this.polyline([[x1, y1], [x2, y2]], lineWidth, color);
+  }
+
+  rect(x: number, y: number, w: number, h: number, options: { fill?: RgbColor; stroke?: RgbColor; lineWidth?: number } = {}): this {
+    const ops = [`${this.num(x)} ${this.num(this.height - y - h)} ${this.num(w)} ${this.num(h)} re`];
+    if (options.fill) ops.unshift(`${this.color(options.fill)} rg`);
+    if (options.stroke) ops.unshift(`${this.num(options.lineWidth || 1)} w`, `${this.color(options.stroke)} RG`);
+    ops.push(options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S');
+    this.write(...ops);
+    return this;
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(info: { title?: string; author?: string } = {}): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: Buffer | string): number => {
+      objects.push(Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'));
+      return objects.length;
+    };
+
+    const catalogId = add(''); // filled in once the pages object id is known
+    const pagesId = add('');
+    const regularFont = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFont = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const pageIds: number[] = [];
+    for (const page of this.pages.length ? this.pages : [[]]) {
+      const content = deflateSync(Buffer.from(page.join('\n'), 'latin1'));
+      const contentId = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          content,
+          Buffer.from('\nendstream', 'latin1'),
+        ]),
+      );
+      pageIds.push(
+        add(
+          `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${this.num(this.width)} ${this.num(this.height)}] ` +
+            `/Resources << /Font << /F1 ${regularFont} 0 R /F2 ${boldFont} 0 R >> >> /Contents ${contentId} 0 R >>`,
+        ),
+      );
+    }
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1',
+    );
+    const infoId = add(
+      `<< /Producer (Kundli report generator) /Title (${this.encode(info.title || '')}) ` +
+        `/Author (${this.encode(info.author || '')}) /CreationDate (D:${this.pdfDate(new Date())}) >>`,
+    );
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(offset);
+      const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  private write(...ops: string[]): void {
+    if (this.pages.length === 0) this.addPage();
+    this.pages[this.pages.length - 1].push(...ops);
+  }
+
+  /**
+   * WinAnsi bytes of a string as a PDF literal (without the parentheses)
+   */
+  private encode(value: string): string {
+    let out = '';
+    for (const char of value) {
+      const code = char.charCodeAt(0);
+      const byte = WIN_ANSI_EXTRAS[char] ?? (code < 256 ? code : 63); // 63 = "?"
+      if (byte === 40 || byte === 41 || byte === 92) out += `\\${String.fromCharCode(byte)}`;
+      else if (byte < 32 || byte > 126) out += `\\${byte.toString(8).padStart(3, '0')}`;
+      else out += String.fromCharCode(byte);
+    }
+    return out;
+  }
+
+  private color([r, g, b]: RgbColor): string {
+    return `${this.num(r)} ${this.num(g)} ${this.num(b)}`;
+  }
+
+  private num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private pdfDate(date: Date): string {
+    return date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  }
+}
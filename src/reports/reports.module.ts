@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { KundliReport } from './entities/kundli-report.entity';
+import { AstrologyModule } from '../astrology/astrology.module';
+import { KundliModule } from '../kundli/kundli.module';
+import { RepositoriesModule } from '../infrastructure/repositories/repositories.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { KundliReportService } from './services/kundli-report.service';
+import { KundliReportPdfService } from './services/kundli-report-pdf.service';
+import { AppReportsController } from './controllers/app-reports.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([KundliReport]),
+    AstrologyModule,
+    KundliModule,
+    RepositoriesModule,
+    SubscriptionsModule,
+  ],
+  controllers: [AppReportsController],
+  providers: [KundliReportService, KundliReportPdfService],
+  exports: [KundliReportService],
+})
+export class ReportsModule {}
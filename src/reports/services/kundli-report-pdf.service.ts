@@ -0,0 +1,221 @@
+import { Injectable } from '@nestjs/common';
+import { ChartDrawing } from '../../astrology/services/chart-renderer.service';
+import { PdfDocument, RgbColor } from '../pdf/pdf-document';
+
+export interface ReportTable {
+  headers: string[];
+  widths: number[]; // fractions of the content width, summing to 1
+  rows: string[][];
+  highlight?: number[]; // row indexes to shade
+}
+
+export interface ReportSection {
+  title: string;
+  blocks: Array<
+    | { type: 'table'; table: ReportTable; caption?: string }
+    | { type: 'facts'; facts: Array<[string, string]> }
+    | { type: 'paragraph'; text: string; bold?: boolean }
+    | { type: 'charts'; charts: Array<{ title: string; drawing: ChartDrawing }> }
+  >;
+  newPage?: boolean;
+}
+
+export interface KundliReportContent {
+  title: string;
+  subtitle: string;
+  footer: string;
+  sections: ReportSection[];
+}
+
+const MARGIN = 42;
+const FOOTER_SPACE = 36;
+const ACCENT: RgbColor = [0.48, 0.23, 0.05];
+const MUTED: RgbColor = [0.45, 0.45, 0.45];
+const SHADE: RgbColor = [0.99, 0.95, 0.88];
+const RULE: RgbColor = [0.82, 0.75, 0.66];
+
+/**
+ * Kundli Report PDF Service
+ * Lays out report sections (fact lists, tables, paragraphs and chart pairs)
+ * on A4 pages with automatic page breaks and a footer on every page.
+ */
+@Injectable()
+export class KundliReportPdfService {
+  build(content: KundliReportContent): { buffer: Buffer; pageCount: number } {
+    const layout = new ReportLayout(new PdfDocument(), content.footer);
+
+    layout.cover(content.title, content.subtitle);
+    content.sections.forEach((section, i) => {
+      if (section.newPage && i > 0) layout.newPage();
+      layout.heading(section.title);
+      for (const block of section.blocks) {
+        if (block.type === 'facts') layout.facts(block.facts);
+        else if (block.type === 'table') layout.table(block.table, block.caption);
+        else if (block.type === 'paragraph') layout.paragraph(block.text, block.bold);
+        else layout.charts(block.charts);
+      }
+    });
+
+    return { buffer: layout.finish({ title: content.title }), pageCount: layout.pageCount };
+  }
+}
+
+/**
+ * Cursor-based writer over a PdfDocument
+ */
+class ReportLayout {
+  private y = MARGIN;
+  private page = 0;
+  private readonly contentWidth: number;
+
+  constructor(
+    private readonly pdf: PdfDocument,
+    private readonly footer: string,
+  ) {
+    this.contentWidth = pdf.pageWidth - 2 * MARGIN;
+    this.newPage();
+  }
+
+  get pageCount(): number {
+    return this.page;
+  }
+
+  newPage(): void {
+    this.pdf.addPage();
+    this.page += 1;
+    this.y = MARGIN;
+    const bottom = this.pdf.pageHeight - FOOTER_SPACE / 2;
+    this.pdf.line(MARGIN, bottom - 12, this.pdf.pageWidth - MARGIN, bottom - 12, 0.5, RULE);
+    this.pdf.text(MARGIN, bottom, this.footer, { size: 8, color: MUTED });
+    this.pdf.text(this.pdf.pageWidth - MARGIN, bottom, `Page ${this.page}`, { size: 8, color: MUTED, align: 'right' });
+  }
+
+  cover(title: string, subtitle: string): void {
+    this.pdf.rect(MARGIN, this.y, this.contentWidth, 56, { fill: SHADE, stroke: RULE });
+    this.pdf.text(this.pdf.pageWidth / 2, this.y + 26, title, { size: 18, bold: true, color: ACCENT, align: 'center' });
+    this.pdf.text(this.pdf.pageWidth / 2, this.y + 44, subtitle, { size: 10, color: MUTED, align: 'center' });
+    this.y += 72;
+  }
+
+  heading(title: string): void {
+    this.ensureSpace(48);
+    this.y += 6;
+    this.pdf.text(MARGIN, this.y + 10, title, { size: 13, bold: true, color: ACCENT });
+    this.pdf.line(MARGIN, this.y + 15, this.pdf.pageWidth - MARGIN, this.y + 15, 0.8, ACCENT);
+    this.y += 26;
+  }
+
+  facts(facts: Array<[string, string]>): void {
+    const columnWidth = this.contentWidth / 2;
+    for (let i = 0; i < facts.length; i += 2) {
+      this.ensureSpace(16);
+      facts.slice(i, i + 2).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.pdf.text(x, this.y + 10, label, { size: 9, color: MUTED });
+        this.pdf.text(x + 95, this.y + 10, this.fit(value, columnWidth - 100, 10), { size: 10 });
+      });
+      this.y += 16;
+    }
+    this.y += 6;
+  }
+
+  paragraph(text: string, bold = false): void {
+    for (const line of this.pdf.wrap(text, this.contentWidth, 10, bold)) {
+      this.ensureSpace(14);
+      this.pdf.text(MARGIN, this.y + 10, line, { size: 10, bold });
+      this.y += 14;
+    }
+    this.y += 4;
+  }
+
+  table(table: ReportTable, caption?: string): void {
+    const widths = table.widths.map((w) => w * this.contentWidth);
+    const rowHeight = 16;
+
+    if (caption) {
+      this.ensureSpace(rowHeight * 3);
+      this.pdf.text(MARGIN, this.y + 10, caption, { size: 10, bold: true });
+      this.y += 16;
+    }
+
+    const drawHeader = () => {
+      this.pdf.rect(MARGIN, this.y, this.contentWidth, rowHeight, { fill: ACCENT });
+      let x = MARGIN;
+      table.headers.forEach((header, i) => {
+        this.pdf.text(x + 4, this.y + 11, this.fit(header, widths[i] - 8, 9, true), { size: 9, bold: true, color: [1, 1, 1] });
+        x += widths[i];
+      });
+      this.y += rowHeight;
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+    table.rows.forEach((row, rowIndex) => {
+      if (this.y + rowHeight > this.pdf.pageHeight - FOOTER_SPACE - MARGIN / 2) {
+        this.newPage();
+        drawHeader();
+      }
+      if (table.highlight?.includes(rowIndex)) {
+        this.pdf.rect(MARGIN, this.y, this.contentWidth, rowHeight, { fill: SHADE });
+      }
+      let x = MARGIN;
+      row.forEach((cell, i) => {
+        this.pdf.text(x + 4, this.y + 11, this.fit(cell, widths[i] - 8, 9), { size: 9 });
+        x += widths[i];
+      });
+      this.pdf.line(MARGIN, this.y + rowHeight, MARGIN + this.contentWidth, this.y + rowHeight, 0.4, RULE);
+      this.y += rowHeight;
+    });
+    this.y += 10;
+  }
+
+  charts(charts: Array<{ title: string; drawing: ChartDrawing }>): void {
+    const gap = 20;
+    const box = Math.min(250, (this.contentWidth - gap * (charts.length - 1)) / charts.length);
+    this.ensureSpace(box + 24);
+
+    charts.forEach(({ title, drawing }, i) => {
+      const left = MARGIN + i * (box + gap) + (this.contentWidth - charts.length * box - (charts.length - 1) * gap) / 2;
+      const top = this.y + 16;
+      const scale = box / drawing.size;
+
+      this.pdf.text(left + box / 2, this.y + 10, title, { size: 10, bold: true, align: 'center' });
+      this.pdf.rect(left, top, box, box, { stroke: ACCENT, lineWidth: 1 });
+      for (const line of drawing.lines) {
+        this.pdf.polyline(line.map(([x, y]) => [left + x * scale, top + y * scale]), 0.8, ACCENT);
+      }
+      for (const text of drawing.texts) {
+        const size = (text.kind === 'planet' ? 11 : text.kind === 'sign' ? 9 : 12) * scale;
+        this.pdf.text(left + text.x * scale, top + text.y * scale, this.fit(text.text, box * 0.9, size, text.kind === 'title'), {
+          size,
+          bold: text.kind === 'title',
+          color: text.kind === 'sign' ? MUTED : undefined,
+          align: text.anchor === 'middle' ? 'center' : 'left',
+        });
+      }
+    });
+    this.y += box + 30;
+  }
+
+  finish(info: { title: string }): Buffer {
+    return this.pdf.toBuffer({ title: info.title });
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.pdf.pageHeight - FOOTER_SPACE - MARGIN / 2) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Truncate text with an ellipsis so it fits a width
+   */
+  private fit(value: string, width: number, size: number, bold = false): string {
+    if (this.pdf.widthOf(value, size, bold) <= width) return value;
+    let text = value;
+    while (text.length > 1 && this.pdf.widthOf(`${text}…`, size, bold) > width) {
+      text = text.slice(0, -1);
+    }
+    return `${text}…`;
+  }
+}
@@ -0,0 +1,447 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, MoreThanOrEqual, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { Kundli } from '../../kundli/entities/kundli.entity';
+import { KundliService } from '../../kundli/services/kundli.service';
+import { KundliReport } from '../entities/kundli-report.entity';
+import { EntitlementsService } from '../../subscriptions/services/entitlements.service';
+import { KundliChartService } from '../../kundli/services/kundli-chart.service';
+import { KundliDashaService } from '../../kundli/services/kundli-dasha.service';
+import { KundliGocharService } from '../../kundli/services/kundli-gochar.service';
+import { YogaRuleService } from '../../kundli/services/yoga-rule.service';
+import { ChartRendererService, ChartStyle } from '../../astrology/services/chart-renderer.service';
+import { VimshottariDashaService } from '../../astrology/services/vimshottari-dasha.service';
+import { DoshaService } from '../../astrology/services/dosha.service';
+import { DignityService } from '../../astrology/services/dignity.service';
+import { TimezoneService } from '../../astrology/services/timezone.service';
+import { SIGN_LORDS, ZODIAC_SIGNS } from '../../astrology/services/swiss-ephemeris.service';
+import { KundliReportContent, KundliReportPdfService, ReportSection } from './kundli-report-pdf.service';
+import { KundliReportDto } from '../dto/kundli-report.dto';
+import { isUniqueViolation } from '../../common/utils/database.util';
+
+const REPORT_FEATURE = 'kundli_report';
+
+// Versions to try when concurrent generations for one kundli collide
+const SAVE_ATTEMPTS = 3;
+
+const DOSHA_LABELS: Record<string, string> = {
+  mangal_dosha: 'Mangal (Manglik) Dosha',
+  kaal_sarp_dosha: 'Kaal Sarp Dosha',
+  pitru_dosha: 'Pitru Dosha',
+  guru_chandal_dosha: 'Guru Chandal Dosha',
+  grahan_dosha: 'Grahan Dosha',
+  shrapit_dosha: 'Shrapit Dosha',
+  kemadruma_dosha: 'Kemadruma Dosha',
+};
+
+/**
+ * Kundli Report Service
+ * Generates the downloadable PDF kundli report (ModuleType.REPORT). Every
+ * generation is stored as a new version for the customer so earlier
+ * reports stay downloadable; generation is gated by plan entitlements.
+ */
+@Injectable()
+export class KundliReportService {
+  private readonly logger = new Logger(KundliReportService.name);
+
+  constructor(
+    @InjectRepository(KundliReport)
+    private readonly reportRepository: Repository<KundliReport>,
+    private readonly dataSource: DataSource,
+    private readonly kundliService: KundliService,
+    private readonly entitlementsService: EntitlementsService,
+    private readonly kundliChartService: KundliChartService,
+    private readonly kundliDashaService: KundliDashaService,
+    private readonly kundliGocharService: KundliGocharService,
+    private readonly yogaRuleService: YogaRuleService,
+    private readonly chartRendererService: ChartRendererService,
+    private readonly vimshottariDashaService: VimshottariDashaService,
+    private readonly doshaService: DoshaService,
+    private readonly dignityService: DignityService,
+    private readonly timezoneService: TimezoneService,
+    private readonly kundliReportPdfService: KundliReportPdfService,
+  ) {}
+
+  /**
+   * Generate a new report version for one of the customer's kundlis
+   */
+  async generate(userId: number, kundliId: number, style: ChartStyle = 'north'): Promise<KundliReportDto> {
+    const kundli = await this.kundliService.findAccessibleKundli(kundliId, { id: userId });
+    if (!kundli.planets?.length || ZODIAC_SIGNS.indexOf(kundli.lagna_name) === -1) {
+      throw new BadRequestException('Kundli has no stored positions; regenerate the kundli');
+    }
+
+    // Fail fast before building the PDF; the quota is taken atomically when saving
+    await this.checkQuota(userId, this.dataSource.manager);
+
+    const content = await this.buildContent(kundli, userId, style);
+    const { buffer, pageCount } = this.kundliReportPdfService.build(content);
+
+    const slug = this.getName(kundli).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'kundli';
+    const report = await this.dataSource.transaction(async (manager) => {
+      // Generations of a user run one at a time from here, so concurrent requests
+      // cannot both take the last report of the month
+      await manager.query(`SELECT pg_advisory_xact_lock(hashtext('kundli_report'), $1::int)`, [userId]);
+      await this.checkQuota(userId, manager);
+
+      return this.saveVersion(
+        manager,
+        this.reportRepository.create({
+          user_id: userId,
+          kundli_id: kundli.id,
+          file_size: buffer.length,
+          checksum: createHash('sha256').update(buffer).digest('hex'),
+          chart_style: style,
+          page_count: pageCount,
+          content: buffer,
+          added_by: userId,
+          modify_by: userId,
+        }),
+        slug,
+      );
+    });
+    this.logger.log(`Kundli report v${report.version} (${buffer.length} bytes) generated for kundli ${kundli.id}, user ${userId}`);
+
+    return this.toDto(report);
+  }
+
+  /**
+   * Reports of a customer, newest first
+   */
+  async list(userId: number, kundliId?: number): Promise<KundliReportDto[]> {
+    const reports = await this.reportRepository.find({
+      where: { user_id: userId, is_deleted: false, ...(kundliId ? { kundli_id: kundliId } : {}) },
+      order: { added_date: 'DESC' },
+    });
+    return reports.map((report) => this.toDto(report));
+  }
+
+  /**
+   * PDF bytes of a stored report for re-download
+   */
+  async download(userId: number, uniqueId: string): Promise<{ file_name: string; content: Buffer }> {
+    const report = await this.reportRepository
+      .createQueryBuilder('report')
+      .addSelect('report.content')
+      .where('report.unique_id = :uniqueId', { uniqueId })
+      .andWhere('report.user_id = :userId', { userId })
+      .andWhere('report.is_deleted = false')
+      .getOne();
+    if (!report) {
+      throw new NotFoundException(`Report with unique ID ${uniqueId} not found`);
+    }
+    return { file_name: report.file_name, content: report.content };
+  }
+
+  /**
+   * Store a report as the next version of its kundli. Should two saves pick
+   * the same number, the unique (kundli_id, version) index rejects the later
+   * one, which retries with the next free number.
+   */
+  private async saveVersion(manager: EntityManager, report: KundliReport, slug: string): Promise<KundliReport> {
+    const reportRepository = manager.getRepository(KundliReport);
+    for (let attempt = 1; ; attempt++) {
+      const latest = await reportRepository.findOne({
+        where: { kundli_id: report.kundli_id },
+        order: { version: 'DESC' },
+      });
+      report.version = (latest?.version || 0) + 1;
+      report.file_name = `${slug}-kundli-report-v${report.version}.pdf`;
+
+      try {
+        // In a savepoint, so a conflict does not abort the surrounding transaction
+        return await manager.transaction((savepoint) => savepoint.save(report));
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= SAVE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Throws when the plan of the user has no reports left this month
+   */
+  private async checkQuota(userId: number, manager: EntityManager): Promise<void> {
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+    const generatedThisMonth = await manager.getRepository(KundliReport).count({
+      where: { user_id: userId, added_date: MoreThanOrEqual(monthStart) },
+    });
+    const entitlement = await this.entitlementsService.canPerformAction(userId, REPORT_FEATURE, generatedThisMonth);
+    if (!entitlement.allowed) {
+      throw new ForbiddenException(entitlement.reason || 'Kundli reports are not available in your plan');
+    }
+  }
+
+  private async buildContent(kundli: Kundli, userId: number, style: ChartStyle): Promise<KundliReportContent> {
+    const user = { id: userId };
+    const timezone = kundli.timezone || 'Asia/Kolkata';
+    const name = this.getName(kundli);
+    const lagnaLongitude = ZODIAC_SIGNS.indexOf(kundli.lagna_name) * 30 + Number(kundli.lagna_degrees || 0);
+    const planets = kundli.planets.map((p) => ({ name: p.planet_name, longitude: Number(p.longitude_degrees) }));
+    const longitudes = Object.fromEntries(planets.map((p) => [p.name, p.longitude]));
+    const formatDate = (date: Date | string) =>
+      new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', timeZone: timezone });
+
+    const [yogas, gochar] = await Promise.all([
+      this.yogaRuleService.getYogasForKundli(kundli.id, user),
+      this.kundliGocharService.getGocharForKundli(kundli.id, user),
+    ]);
+    const doshas = this.doshaService.analyze({ lagnaLongitude, planets });
+
+    const sections: ReportSection[] = [];
+
+    // Birth details and charts
+    const birthDate = kundli.birth_date instanceof Date ? kundli.birth_date.toISOString().split('T')[0] : String(kundli.birth_date);
+    const offset = kundli.utc_offset_minutes !== null && kundli.utc_offset_minutes !== undefined
+      ? ` (UTC${this.timezoneService.formatOffset(Number(kundli.utc_offset_minutes))})`
+      : '';
+    sections.push({
+      title: 'Birth Details',
+      blocks: [
+        {
+          type: 'facts',
+          facts: [
+            ['Name', name],
+            ['Date of birth', formatDate(`${birthDate}T12:00:00Z`)],
+            ['Time of birth', kundli.birth_time],
+            ['Place of birth', kundli.birth_place],
+            ['Latitude', this.formatCoordinate(Number(kundli.latitude), 'N', 'S')],
+            ['Longitude', this.formatCoordinate(Number(kundli.longitude), 'E', 'W')],
+            ['Timezone', `${timezone}${offset}`],
+            ['House system', kundli.house_system || 'whole_sign'],
+            ['Lagna', `${kundli.lagna_name} ${this.formatDegree(Number(kundli.lagna_degrees || 0))}`],
+            [
+              'Ayanamsa',
+              kundli.ayanamsa !== null
+                ? `${Number(kundli.ayanamsa).toFixed(4)}°${kundli.ayanamsa_name ? ` (${kundli.ayanamsa_name})` : ''}`
+                : '-',
+            ],
+            ['Nakshatra', kundli.nakshatra ? `${kundli.nakshatra}${kundli.pada ? `, pada ${kundli.pada}` : ''}` : '-'],
+            ['Tithi', kundli.tithi || '-'],
+            ['Yoga', kundli.yoga || '-'],
+            ['Karana', kundli.karana || '-'],
+          ],
+        },
+        {
+          type: 'charts',
+          charts: [1, 9].map((division: 1 | 9) => ({
+            title: division === 1 ? 'Rasi (D1)' : 'Navamsa (D9)',
+            drawing: this.chartRendererService.layout(this.kundliChartService.getChartInput(kundli, division), style),
+          })),
+        },
+        { type: 'paragraph', text: 'As = Ascendant (lagna). (R) retrograde, (C) combust, (V) vargottama.' },
+      ],
+    });
+
+    // Planets
+    sections.push({
+      title: 'Planetary Positions',
+      newPage: true,
+      blocks: [
+        {
+          type: 'table',
+          table: {
+            headers: ['Planet', 'Sign', 'Degree', 'Nakshatra', 'Pada', 'House', 'Dignity', 'Status'],
+            widths: [0.12, 0.13, 0.12, 0.18, 0.07, 0.08, 0.16, 0.14],
+            rows: kundli.planets.map((p) => [
+              p.planet_name,
+              p.sign_name,
+              this.formatDegree(Number(p.longitude_degrees) % 30),
+              p.nakshatra || '-',
+              p.pada ? String(p.pada) : '-',
+              String(p.rashi_house_number || p.house_number),
+              this.dignityService.getDignity(p.planet_name, Number(p.longitude_degrees), longitudes),
+              [p.is_retrograde && 'Retrograde', p.is_combust && 'Combust'].filter(Boolean).join(', ') || '-',
+            ]),
+          },
+        },
+      ],
+    });
+
+    // Houses (whole sign from the lagna)
+    const lagnaIndex = ZODIAC_SIGNS.indexOf(kundli.lagna_name);
+    const houseOf = (planet: string) => {
+      const row = kundli.planets.find((p) => p.planet_name === planet);
+      return row ? Number(row.rashi_house_number || row.house_number) : null;
+    };
+    sections.push({
+      title: 'House Analysis',
+      blocks: [
+        {
+          type: 'table',
+          table: {
+            headers: ['House', 'Sign', 'Lord', 'Lord placed in', 'Occupants'],
+            widths: [0.1, 0.16, 0.14, 0.18, 0.42],
+            rows: Array.from({ length: 12 }, (_, i) => {
+              const sign = ZODIAC_SIGNS[(lagnaIndex + i) % 12];
+              const lord = SIGN_LORDS[sign];
+              const lordHouse = houseOf(lord);
+              const occupants = kundli.planets
+                .filter((p) => Number(p.rashi_house_number || p.house_number) === i + 1)
+                .map((p) => p.planet_name);
+              return [
+                String(i + 1),
+                sign,
+                lord,
+                lordHouse ? `House ${lordHouse}` : '-',
+                occupants.join(', ') || '-',
+              ];
+            }),
+          },
+        },
+      ],
+    });
+
+    // Vimshottari dasha
+    const { birthDate: birthInstant, moonLongitude } = this.kundliDashaService.getDashaInputs(kundli);
+    const mahadashas = this.vimshottariDashaService.getMahadashas(birthInstant, moonLongitude);
+    const balance = this.vimshottariDashaService.getBalanceAtBirth(moonLongitude);
+    const now = Date.now();
+    const currentIndex = mahadashas.findIndex((p) => p.start.getTime() <= now && p.end.getTime() > now);
+    const antardashas = currentIndex >= 0 ? this.vimshottariDashaService.getSubPeriods(mahadashas[currentIndex]) : [];
+    sections.push({
+      title: 'Vimshottari Dasha',
+      newPage: true,
+      blocks: [
+        { type: 'paragraph', text: `Balance at birth: ${balance.lord} mahadasha, ${balance.balance_years.toFixed(2)} years remaining.` },
+        {
+          type: 'table',
+          caption: 'Mahadashas',
+          table: {
+            headers: ['Lord', 'Start', 'End', 'Years'],
+            widths: [0.25, 0.25, 0.25, 0.25],
+            rows: mahadashas.map((p) => [p.lord, formatDate(p.start), formatDate(p.end), p.duration_years.toFixed(2)]),
+            highlight: currentIndex >= 0 ? [currentIndex] : [],
+          },
+        },
+        ...(antardashas.length
+          ? [
+              {
+                type: 'table' as const,
+                caption: `Antardashas of the current ${mahadashas[currentIndex].lord} mahadasha`,
+                table: {
+                  headers: ['Mahadasha / Antardasha', 'Start', 'End', 'Years'],
+                  widths: [0.34, 0.22, 0.22, 0.22],
+                  rows: antardashas.map((p) => [
+                    `${mahadashas[currentIndex].lord} / ${p.lord}`,
+                    formatDate(p.start),
+                    formatDate(p.end),
+                    p.duration_years.toFixed(2),
+                  ]),
+                  highlight: [antardashas.findIndex((p) => p.start.getTime() <= now && p.end.getTime() > now)],
+                },
+              },
+            ]
+          : []),
+      ],
+    });
+
+    // Yogas and doshas
+    sections.push({
+      title: 'Yogas',
+      newPage: true,
+      blocks: yogas.yogas.length
+        ? yogas.yogas.flatMap((yoga) => [
+            {
+              type: 'paragraph' as const,
+              text: `${yoga.name} (${yoga.category}, ${yoga.strength_label}) - ${yoga.planets.join(', ')}`,
+              bold: true,
+            },
+            ...(yoga.effects || yoga.description
+              ? [{ type: 'paragraph' as const, text: (yoga.effects || yoga.description) as string }]
+              : []),
+          ])
+        : [{ type: 'paragraph', text: 'No classical yogas are formed in this chart.' }],
+    });
+    sections.push({
+      title: 'Doshas',
+      blocks: Object.entries(doshas).flatMap(([key, dosha]) => [
+        {
+          type: 'paragraph' as const,
+          text: `${DOSHA_LABELS[key] || key}: ${dosha.present ? `present (${dosha.severity})` : 'not present'}`,
+          bold: true,
+        },
+        ...(dosha.present && dosha.factors.length
+          ? [{ type: 'paragraph' as const, text: `Formed by: ${dosha.factors.join('; ')}` }]
+          : []),
+        ...(dosha.cancellations.length
+          ? [{ type: 'paragraph' as const, text: `Cancellations: ${dosha.cancellations.join('; ')}` }]
+          : []),
+      ]),
+    });
+
+    // Current transits
+    const transitNotes = [
+      gochar.sade_sati.active
+        ? `Sade Sati is running (${gochar.sade_sati.phase} phase${gochar.sade_sati.end ? `, until ${formatDate(gochar.sade_sati.end)}` : ''}).`
+        : 'Sade Sati is not running.',
+      gochar.ashtama_shani.active ? 'Ashtama Shani: Saturn transits the 8th from the Moon.' : null,
+      gochar.kantaka_shani.active
+        ? `Kantaka Shani: Saturn transits house ${gochar.kantaka_shani.house_from_moon} from the Moon.`
+        : null,
+      `Jupiter transits house ${gochar.jupiter_transit.house_from_moon} from the Moon: ${gochar.jupiter_transit.result}`,
+    ].filter(Boolean) as string[];
+    sections.push({
+      title: `Current Transits (${formatDate(gochar.date)})`,
+      newPage: true,
+      blocks: [
+        {
+          type: 'table',
+          table: {
+            headers: ['Planet', 'Sign', 'Degree', 'From Moon', 'From Lagna', 'Result'],
+            widths: [0.15, 0.16, 0.14, 0.15, 0.15, 0.25],
+            rows: gochar.planets.map((p) => [
+              `${p.name}${p.is_retrograde ? ' (R)' : ''}`,
+              p.sign,
+              this.formatDegree(p.degrees),
+              String(p.house_from_moon),
+              String(p.house_from_lagna),
+              p.result,
+            ]),
+          },
+        },
+        ...transitNotes.map((text) => ({ type: 'paragraph' as const, text })),
+      ],
+    });
+
+    return {
+      title: 'Janma Kundli Report',
+      subtitle: `${name} - born ${formatDate(`${birthDate}T12:00:00Z`)}, ${kundli.birth_place}`,
+      footer: `${name} - generated ${new Date().toISOString().split('T')[0]}`,
+      sections,
+    };
+  }
+
+  private getName(kundli: Kundli): string {
+    const ownerName = [kundli.user?.first_name, kundli.user?.last_name].filter(Boolean).join(' ');
+    return kundli.full_data?.name || ownerName || `Kundli ${kundli.id}`;
+  }
+
+  private formatDegree(degrees: number): string {
+    const whole = Math.floor(degrees);
+    const minutes = Math.floor((degrees - whole) * 60);
+    return `${whole}° ${String(minutes).padStart(2, '0')}'`;
+  }
+
+  private formatCoordinate(value: number, positive: string, negative: string): string {
+    return `${Math.abs(value).toFixed(4)}° ${value >= 0 ? positive : negative}`;
+  }
+
+  private toDto(report: KundliReport): KundliReportDto {
+    return {
+      unique_id: report.unique_id,
+      kundli_id: Number(report.kundli_id),
+      version: report.version,
+      file_name: report.file_name,
+      file_size: report.file_size,
+      page_count: report.page_count,
+      chart_style: report.chart_style,
+      checksum: report.checksum,
+      created_at: report.added_date,
+    };
+  }
+}
@@ -164,6 +164,15 @@ export class EntitlementsService {
         feature: 'monthly_reports',
         allowed: planType === PlanType.PREMIUM,
       },
+      {
+        feature: 'kundli_report',
+        allowed: planType === PlanType.PAID || planType === PlanType.PREMIUM,
+        limit: planType === PlanType.PAID ? 5 : undefined, // PAID: 5/month, PREMIUM: unlimited
+      },
+      {
+        feature: 'varshaphal',
+        allowed: planType === PlanType.PREMIUM,
+      },
       {
         feature: 'ai_mentor_twin',
         allowed: planType === PlanType.PREMIUM,
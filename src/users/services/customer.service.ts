@@ -172,7 +172,7 @@ export class CustomerService {
             birth_place: customer.place_name || '',
             latitude: customer.latitude || 0,
             longitude: customer.longitude || 0,
-            timezone: customer.timezone || 'Asia/Kolkata',
+            timezone: customer.timezone || undefined,
           },
           userId, // Pass userId to save to database
         );
@@ -181,38 +181,20 @@ export class CustomerService {
         return;
       }
 
-      // Update existing kundli
-      this.logger.log(`Updating existing kundli for customer ${userId}`);
-
-      // Generate kundli update JSON
-      const kundliUpdate = await this.kundliService.generateKundliUpdateJSON({
-        user_id: userId,
+      // Recast the existing kundli into a new version, keeping the old chart
+      const regenerated = await this.kundliService.regenerateKundli(existingKundli, 'profile_change', {
         birth_date: birthDate,
         birth_time: birthTime,
         birth_place: customer.place_name || '',
-        latitude: customer.latitude || 0,
-        longitude: customer.longitude || 0,
-        timezone: customer.timezone || 'Asia/Kolkata',
+        latitude: Number(customer.latitude) || 0,
+        longitude: Number(customer.longitude) || 0,
+        timezone: customer.timezone || undefined,
       });
 
-      // Update kundli record using repository
-      const kundli = await this.kundliRepository.findOneByUserId(userId, { is_deleted: false });
-
-      if (kundli) {
-        // Convert string values to proper types for update
-        const updateData: any = {
-          ...kundliUpdate.kundli_db_update.update,
-          birth_date: new Date(kundliUpdate.kundli_db_update.update.birth_date),
-          latitude: parseFloat(kundliUpdate.kundli_db_update.update.latitude),
-          longitude: parseFloat(kundliUpdate.kundli_db_update.update.longitude),
-          lagna_degrees: parseFloat(kundliUpdate.kundli_db_update.update.lagna_degrees),
-          pada: parseInt(kundliUpdate.kundli_db_update.update.pada.toString()),
-          ayanamsa: parseFloat(kundliUpdate.kundli_db_update.update.ayanamsa),
-          modify_date: new Date(kundliUpdate.kundli_db_update.update.modify_date),
-        };
-
-        await this.kundliRepository.update(kundli, updateData);
-        this.logger.log(`Kundli updated for customer ${userId}`);
+      if (regenerated) {
+        this.logger.log(`Kundli for customer ${userId} regenerated as version ${regenerated.current.version}`);
+      } else {
+        this.logger.debug(`Birth data unchanged for customer ${userId}, kundli kept`);
       }
     } catch (error) {
       this.logger.error(`Failed to update/create kundli for customer ${userId}:`, error);
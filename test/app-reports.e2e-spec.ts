@@ -0,0 +1,58 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+// Entities reference each other through BaseEntity; load them from User as the app does
+import '../src/users/entities/user.entity';
+import { AppReportsController } from '../src/reports/controllers/app-reports.controller';
+import { KundliReportService } from '../src/reports/services/kundli-report.service';
+import { JwtAuthGuard } from '../src/common/guards/jwt-auth.guard';
+import { ModuleAccessGuard } from '../src/common/guards/module-access.guard';
+import { ResponseInterceptor } from '../src/common/interceptors/response.interceptor';
+
+const PDF = Buffer.from('%PDF-1.4\n%%EOF\n');
+
+describe('GET /api/v1/app/reports/:uniqueId/download', () => {
+  let app: INestApplication;
+  const download = jest.fn().mockResolvedValue({ file_name: 'asha-kundli-report-v1.pdf', content: PDF });
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({ controllers: [AppReportsController] })
+      .useMocker((token) => (token === KundliReportService ? { download } : {}))
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          context.switchToHttp().getRequest().user = { id: 1 };
+          return true;
+        },
+      })
+      .overrideGuard(ModuleAccessGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('sends the stored PDF bytes, not the JSON envelope', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/api/v1/app/reports/report-1/download')
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.headers['content-disposition']).toBe('attachment; filename="asha-kundli-report-v1.pdf"');
+    expect(Buffer.compare(response.body, PDF)).toBe(0);
+    expect(download).toHaveBeenCalledWith(1, 'report-1');
+  });
+});
@@ -0,0 +1,48 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+// Entities reference each other through BaseEntity; load them from User as the app does
+import '../src/users/entities/user.entity';
+import { KundliController } from '../src/kundli/controllers/kundli.controller';
+import { KundliChartService } from '../src/kundli/services/kundli-chart.service';
+import { JwtAuthGuard } from '../src/common/guards/jwt-auth.guard';
+import { ResponseInterceptor } from '../src/common/interceptors/response.interceptor';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400"></svg>';
+
+describe('GET /api/v1/kundli/:id/chart.svg', () => {
+  let app: INestApplication;
+  const getChartSvg = jest.fn().mockResolvedValue({ svg: SVG, etag: '"chart-1"' });
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({ controllers: [KundliController] })
+      .useMocker((token) => (token === KundliChartService ? { getChartSvg } : {}))
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          context.switchToHttp().getRequest().user = { id: 1 };
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('sends the bare SVG, not the JSON envelope', async () => {
+    const response = await request(app.getHttpServer()).get('/api/v1/kundli/1/chart.svg?style=south').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^image\/svg\+xml/);
+    expect(response.headers.etag).toBe('"chart-1"');
+    expect(response.body.toString().startsWith('<svg')).toBe(true);
+    expect(getChartSvg).toHaveBeenCalledWith(1, { id: 1 }, 'south', 'D1');
+  });
+});